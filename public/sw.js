@@ -0,0 +1,143 @@
+/*
+ * Service worker for offline Reading/Listening tests.
+ *
+ * - Navigations: network first, falling back to the cached app shell so
+ *   any route can open without a connection.
+ * - Built assets (/assets/*, content-hashed): cache first. The ones the shell
+ *   references are cached with the shell (install and every fresh navigation),
+ *   since the first visit fetched them before this worker was registered;
+ *   the rest are filled at runtime.
+ * - Test audio downloaded by the app (src/lib/offlineStore.ts) is served
+ *   from AUDIO_CACHE. Supabase API calls are never cached here.
+ */
+
+const SHELL_CACHE = 'ielts-shell-v1';
+const ASSET_CACHE = 'ielts-assets-v1';
+const AUDIO_CACHE = 'ielts-offline-audio-v1';
+const KEEP_CACHES = [SHELL_CACHE, ASSET_CACHE, AUDIO_CACHE];
+const SHELL_URL = '/index.html';
+
+// Same pattern as shellAssetUrls() in src/lib/offlineStore.ts
+const SHELL_ASSET_PATTERN = /(?:src|href)="(\/assets\/[^"]+)"/g;
+
+// Store the shell and every /assets/ file it loads, so it can boot offline
+async function cacheShell(response) {
+  const html = await response.clone().text();
+  const assets = [...new Set(Array.from(html.matchAll(SHELL_ASSET_PATTERN), (match) => match[1]))];
+  const assetCache = await caches.open(ASSET_CACHE);
+  await Promise.all(assets.map(async (url) => {
+    if (!(await assetCache.match(url))) await assetCache.add(url);
+  }));
+  const shellCache = await caches.open(SHELL_CACHE);
+  await shellCache.put(SHELL_URL, response);
+}
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    fetch(SHELL_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error(`Shell request failed (HTTP ${response.status})`);
+        return cacheShell(response);
+      })
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => !KEEP_CACHES.includes(key)).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+async function handleNavigation(event) {
+  try {
+    const response = await fetch(event.request);
+    // Refreshed in the background so a new deploy's bundles are ready offline
+    if (response.ok) event.waitUntil(cacheShell(response.clone()).catch(() => {}));
+    return response;
+  } catch (error) {
+    const cached = await caches.match(SHELL_URL);
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function handleAsset(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(ASSET_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+}
+
+// Media elements request audio with a Range header and need a 206 answer to
+// seek; Cache Storage only holds the full file, so slice it here.
+async function rangeResponse(cached, rangeHeader) {
+  const blob = await cached.blob();
+  const size = blob.size;
+  const match = /^bytes=(\d*)-(\d*)$/.exec(rangeHeader.trim());
+  let start = match && match[1] !== '' ? Number(match[1]) : NaN;
+  let end = match && match[2] !== '' ? Number(match[2]) : size - 1;
+  if (match && match[1] === '' && match[2] !== '') {
+    // Suffix range: the last N bytes
+    start = Math.max(size - Number(match[2]), 0);
+    end = size - 1;
+  }
+  end = Math.min(end, size - 1);
+
+  if (Number.isNaN(start) || start > end || start >= size) {
+    return new Response(null, {
+      status: 416,
+      statusText: 'Range Not Satisfiable',
+      headers: { 'Content-Range': `bytes */${size}` },
+    });
+  }
+
+  return new Response(blob.slice(start, end + 1), {
+    status: 206,
+    statusText: 'Partial Content',
+    headers: {
+      'Content-Type': cached.headers.get('Content-Type') || blob.type || 'audio/mpeg',
+      'Content-Range': `bytes ${start}-${end}/${size}`,
+      'Content-Length': String(end - start + 1),
+      'Accept-Ranges': 'bytes',
+    },
+  });
+}
+
+async function handleAudio(request) {
+  const cache = await caches.open(AUDIO_CACHE);
+  const cached = await cache.match(request.url);
+  if (!cached) return fetch(request);
+  const range = request.headers.get('Range');
+  return range ? rangeResponse(cached, range) : cached;
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(event));
+    return;
+  }
+
+  if (url.origin === self.location.origin) {
+    if (url.pathname.startsWith('/assets/')) {
+      event.respondWith(handleAsset(request));
+    }
+    return;
+  }
+
+  // Only audio files downloaded for offline tests are answered from cache
+  if (request.destination === 'audio' || /\.(mp3|m4a|wav|ogg|webm|aac)$/i.test(url.pathname)) {
+    event.respondWith(handleAudio(request));
+  }
+});
@@ -4,6 +4,8 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { OfflineSyncManager } from "@/components/common/OfflineSyncManager";
+import { StudyReminderManager } from "@/components/common/StudyReminderManager";
 
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
@@ -22,11 +24,14 @@ import Analytics from "./pages/Analytics";
 import AnalyticsDemo from "./pages/AnalyticsDemo";
 import Flashcards from "./pages/Flashcards";
 import PassageStudy from "./pages/PassageStudy";
+import ListeningDictation from "./pages/ListeningDictation";
 import NotFound from "./pages/NotFound";
 import Settings from "./pages/Settings";
 import Onboarding from "./pages/Onboarding";
+import CheckoutReturn from "./pages/CheckoutReturn";
 import PromotionCodesAdmin from "./pages/admin/PromotionCodesAdmin";
 import FullMockTest from "./pages/FullMockTest";
+import MockExamSession from "./pages/MockExamSession";
 import GenerateListeningPOC from "./pages/GenerateListeningPOC";
 import TestComparison from "./pages/TestComparison";
 import AIPractice from "./pages/AIPractice";
@@ -40,6 +45,11 @@ import AIPracticeListeningTest from "./pages/AIPracticeListeningTest";
 import AIPracticeHistory from "./pages/AIPracticeHistory";
 import AISpeakingResults from "./pages/AISpeakingResults";
 import AIWritingResults from "./pages/AIWritingResults";
+import Classes from "./pages/Classes";
+// Teacher pages
+import TeacherClasses from "./pages/teacher/TeacherClasses";
+import ClassDetail from "./pages/teacher/ClassDetail";
+import TeacherReviews from "./pages/teacher/TeacherReviews";
 // Admin pages
 import AdminLayout from "./pages/admin/AdminLayout";
 import AdminDashboard from "./pages/admin/AdminDashboard";
@@ -55,6 +65,8 @@ import SpeakingSharedAudioAdmin from "./pages/admin/SpeakingSharedAudioAdmin";
 import AdminSettings from "./pages/admin/AdminSettings";
 import TestBankAdmin from "./pages/admin/TestBankAdmin";
 import TestFactoryAdmin from "./pages/admin/TestFactoryAdmin";
+import ResultReviewsAdmin from "./pages/admin/ResultReviewsAdmin";
+import PromptTemplatesAdmin from "./pages/admin/PromptTemplatesAdmin";
 
 
 const queryClient = new QueryClient({
@@ -74,6 +86,8 @@ const App = () => (
           {/* Toasters must be inside BrowserRouter to allow <Link> in toast descriptions */}
           <Toaster />
           <Sonner position="top-center" />
+          <OfflineSyncManager />
+          <StudyReminderManager />
           <div className="overflow-x-hidden min-h-screen">
           
           <Routes>
@@ -81,14 +95,20 @@ const App = () => (
             <Route path="/auth" element={<Auth />} />
             <Route path="/onboarding" element={<Onboarding />} />
             <Route path="/settings" element={<Settings />} />
+            <Route path="/checkout/return" element={<CheckoutReturn />} />
             <Route path="/reading/cambridge-ielts-a" element={<ReadingTestList />} />
+            <Route path="/reading/cambridge-ielts-g" element={<ReadingTestList />} />
             <Route path="/reading/test/:testId" element={<ReadingTest />} />
             <Route path="/reading/study/:testId" element={<PassageStudy />} />
             <Route path="/listening/cambridge-ielts-a" element={<ListeningTestList />} />
             <Route path="/listening/test/:testId" element={<ListeningTest />} />
+            <Route path="/listening/dictation/:testId" element={<ListeningDictation />} />
+            <Route path="/listening/dictation/preset/:presetId" element={<ListeningDictation />} />
             <Route path="/writing/cambridge-ielts-a" element={<WritingTestList />} />
+            <Route path="/writing/cambridge-ielts-g" element={<WritingTestList />} />
             <Route path="/writing/test/:testId" element={<WritingTest />} />
             <Route path="/writing/test/:testId/new-submission" element={<WritingTest />} />
+            <Route path="/writing/test/:testId/revise/:reviseSubmissionId" element={<WritingTest />} />
             <Route path="/writing/evaluation/:testId/:submissionId?" element={<WritingEvaluationReport />} />
             <Route path="/speaking/cambridge-ielts-a" element={<SpeakingTestList />} />
             <Route path="/speaking/test/:testId" element={<SpeakingTest />} />
@@ -98,6 +118,7 @@ const App = () => (
             
             {/* Full Mock Test */}
             <Route path="/full-mock-test" element={<FullMockTest />} />
+            <Route path="/full-mock-test/session/:sessionId" element={<MockExamSession />} />
             
             {/* Test Results */}
             <Route path="/results/:submissionId" element={<TestResults />} />
@@ -125,6 +146,11 @@ const App = () => (
             <Route path="/ai-practice/results/:testId" element={<AIPracticeResults />} />
             <Route path="/ai-practice/speaking/results/:testId" element={<AISpeakingResults />} />
             <Route path="/ai-practice/writing/results/:testId" element={<AIWritingResults />} />
+            {/* Classes */}
+            <Route path="/classes" element={<Classes />} />
+            <Route path="/teacher" element={<TeacherClasses />} />
+            <Route path="/teacher/classes/:classId" element={<ClassDetail />} />
+            <Route path="/teacher/reviews" element={<TeacherReviews />} />
             {/* Admin Routes */}
             <Route path="/admin" element={<AdminLayout />}>
               <Route index element={<AdminDashboard />} />
@@ -142,6 +168,8 @@ const App = () => (
               <Route path="speaking/edit/:testId" element={<SpeakingTestEditor />} />
               <Route path="speaking/shared-audio" element={<SpeakingSharedAudioAdmin />} />
               <Route path="promotions" element={<PromotionCodesAdmin />} />
+              <Route path="reviews" element={<ResultReviewsAdmin />} />
+              <Route path="prompts" element={<PromptTemplatesAdmin />} />
               <Route path="testbank" element={<TestBankAdmin />} />
               <Route path="test-factory" element={<TestFactoryAdmin />} />
               <Route path="settings" element={<AdminSettings />} />
@@ -1,8 +1,9 @@
 import { useState } from 'react';
-import { ChevronDown, Menu, X, User, LogOut, Settings as SettingsIcon, BarChart3, Layers, Brain, Sparkles, Shield } from 'lucide-react';
+import { ChevronDown, Menu, X, User, LogOut, Settings as SettingsIcon, BarChart3, Layers, Brain, Sparkles, Shield, GraduationCap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useAdminAccess } from '@/hooks/useAdminAccess';
+import { useTeacherAccess } from '@/hooks/useTeacherAccess';
 import { useNavigate, Link } from 'react-router-dom';
 
 interface NavSubItem {
@@ -29,7 +30,7 @@ const navItems: NavItem[] = [
     items: [
       { label: 'Cambridge IELTS-A', href: '/writing/cambridge-ielts-a' },
       { label: 'Past Exam Paper-A', href: '#' },
-      { label: 'Cambridge IELTS-G', href: '#' },
+      { label: 'Cambridge IELTS-G', href: '/writing/cambridge-ielts-g' },
     ],
   },
   {
@@ -46,7 +47,7 @@ const navItems: NavItem[] = [
     items: [
       { label: 'Cambridge IELTS-A', href: '/reading/cambridge-ielts-a' },
       { label: 'Past Exam Paper-A', href: '#' },
-      { label: 'Cambridge IELTS-G', href: '#' },
+      { label: 'Cambridge IELTS-G', href: '/reading/cambridge-ielts-g' },
     ],
   },
   {
@@ -64,6 +65,7 @@ export const Navbar = () => {
   const [activeDropdown, setActiveDropdown] = useState<string | null>(null);
   const { user, signOut } = useAuth();
   const { isAdmin } = useAdminAccess();
+  const { isTeacher } = useTeacherAccess();
   const navigate = useNavigate();
 
   const handleAuthClick = () => {
@@ -116,6 +118,12 @@ export const Navbar = () => {
                     </Button>
                   </Link>
                 )}
+                <Link to={isTeacher ? '/teacher' : '/classes'}>
+                  <Button variant="ghost" size="sm" className="flex items-center gap-2">
+                    <GraduationCap size={16} />
+                    Classes
+                  </Button>
+                </Link>
                 <Link to="/settings">
                   <Button variant="ghost" size="sm" className="flex items-center gap-2">
                     <SettingsIcon size={16} />
@@ -274,6 +282,12 @@ export const Navbar = () => {
                     </Button>
                   </Link>
                 )}
+                <Link to={isTeacher ? '/teacher' : '/classes'} className="block py-2">
+                  <Button variant="ghost" className="w-full justify-start flex items-center gap-2">
+                    <GraduationCap size={18} />
+                    Classes
+                  </Button>
+                </Link>
                 <Link to="/settings" className="block py-2">
                   <Button variant="ghost" className="w-full justify-start flex items-center gap-2">
                     <SettingsIcon size={18} />
@@ -1,8 +1,27 @@
-import { Check, X, Crown, Zap, Gem } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Check, X, Crown, Zap, Gem, Loader2, Tag, LucideIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAuth } from '@/hooks/useAuth';
+import { useCheckout } from '@/hooks/useCheckout';
+import { PlanFeature, PlanTier, loadPublicPlanTiers, parseFeatures } from '@/lib/planTiers';
 
-const plans = [
+interface PricingPlan {
+  slug: string;
+  name: string;
+  price: string;
+  period: string;
+  icon: LucideIcon;
+  features: PlanFeature[];
+  cta: string;
+  featured: boolean;
+}
+
+// Shown until the plans load from plan_tiers (and if they cannot be loaded)
+const defaultPlans: PricingPlan[] = [
   {
+    slug: 'free',
     name: 'Free Plan',
     price: 'Free',
     period: '',
@@ -19,6 +38,7 @@ const plans = [
     featured: false,
   },
   {
+    slug: 'weekly',
     name: 'Weekly',
     price: '৳50',
     period: '/week',
@@ -35,6 +55,7 @@ const plans = [
     featured: false,
   },
   {
+    slug: 'monthly',
     name: 'Monthly',
     price: '৳150',
     period: '/month',
@@ -51,6 +72,7 @@ const plans = [
     featured: true,
   },
   {
+    slug: 'six_months',
     name: 'Six Months',
     price: '৳600',
     period: '/6 months',
@@ -68,7 +90,41 @@ const plans = [
   },
 ];
 
+const toPricingPlan = (tier: PlanTier): PricingPlan => ({
+  slug: tier.slug,
+  name: tier.name,
+  price: tier.price === 0 ? 'Free' : `${tier.currency === 'BDT' ? '৳' : `${tier.currency} `}${tier.price}`,
+  period: tier.period_label ?? '',
+  icon: tier.is_featured ? Crown : (tier.duration_days ?? 0) >= 180 ? Gem : Zap,
+  features: parseFeatures(tier.features),
+  cta: tier.price === 0 ? 'Get Started Free' : `Choose ${tier.name}`,
+  featured: tier.is_featured,
+});
+
 export const Pricing = () => {
+  const [plans, setPlans] = useState<PricingPlan[]>(defaultPlans);
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { startCheckout, pendingItem } = useCheckout();
+  const [promoCode, setPromoCode] = useState('');
+
+  useEffect(() => {
+    loadPublicPlanTiers()
+      .then(tiers => {
+        if (tiers.length > 0) setPlans(tiers.map(toPricingPlan));
+      })
+      .catch(error => console.error('Error loading plans:', error));
+  }, []);
+
+  // Paid plans go to checkout; the free plan needs nothing but an account
+  const choosePlan = (plan: PricingPlan) => {
+    if (plan.price === 'Free') {
+      navigate(user ? '/ai-practice' : '/auth');
+    } else {
+      startCheckout({ kind: 'subscription', planSlug: plan.slug, promoCode: promoCode.trim() || undefined });
+    }
+  };
+
   return (
     <section className="py-20 bg-secondary">
       <div className="container mx-auto px-4">
@@ -79,6 +135,16 @@ export const Pricing = () => {
           <h2 className="section-title text-foreground">
             Flexible Options for Every Learner
           </h2>
+          <div className="mt-6 flex items-center justify-center gap-2">
+            <Tag size={16} className="text-muted-foreground" />
+            <Input
+              value={promoCode}
+              onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+              placeholder="Promotion code (optional)"
+              className="w-60 font-mono"
+              aria-label="Promotion code"
+            />
+          </div>
         </div>
 
         <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 max-w-7xl mx-auto items-stretch">
@@ -125,7 +191,10 @@ export const Pricing = () => {
                 </ul>
                 <Button
                   className={`w-full ${plan.featured ? 'bg-white text-primary hover:bg-white/90' : 'btn-outline'}`}
+                  disabled={pendingItem !== null}
+                  onClick={() => choosePlan(plan)}
                 >
+                  {pendingItem === plan.slug && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                   {plan.cta}
                 </Button>
               </div>
@@ -0,0 +1,617 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { useToast } from '@/hooks/use-toast';
+import { useAuth } from '@/hooks/useAuth';
+import { cn } from '@/lib/utils';
+import { Play, Square, RefreshCw, Trash2, Upload, Target } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  CALIBRATION_CRITERIA,
+  CALIBRATION_EVALUATORS,
+  CalibrationEvaluator,
+  CalibrationItem,
+  CalibrationMode,
+  CalibrationModule,
+  CalibrationResult,
+  CalibrationRun,
+  OVERALL_KEY,
+  bandPairs,
+  calibrationMetrics,
+  cancelCalibrationRun,
+  confusionMatrix,
+  createCalibrationItems,
+  deleteCalibrationItem,
+  deleteCalibrationRun,
+  groupCalibrationResults,
+  loadCalibrationHistory,
+  loadCalibrationItems,
+  parseCalibrationImport,
+  runCalibration,
+  setCalibrationItemActive,
+  startCalibrationRun,
+} from '@/lib/calibration';
+import { BUILTIN_VERSION, PromptTemplate, loadPromptTemplates } from '@/lib/promptTemplates';
+
+const IMPORT_EXAMPLES: Record<CalibrationModule, string> = {
+  writing: `[{ "title": "...", "task_type": "task2", "instruction": "...", "response_text": "...", "examiner_overall": 6.5,
+  "examiner_bands": { "task_achievement_response": 6, "coherence_and_cohesion": 7, "lexical_resource": 6.5, "grammatical_range_and_accuracy": 6.5 } }]`,
+  speaking: `[{ "title": "...", "transcripts": [{ "part": 1, "question": "...", "transcript": "..." }], "examiner_overall": 6,
+  "examiner_bands": { "fluency_coherence": 6, "lexical_resource": 6, "grammatical_range": 5.5, "pronunciation": 6 } }]`,
+};
+
+const formatBand = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+const formatBias = (value: number | null) => (value === null ? '-' : `${value > 0 ? '+' : ''}${value.toFixed(2)}`);
+const formatShare = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+
+const getMaeColor = (mae: number | null) => {
+  if (mae === null) return 'text-muted-foreground';
+  if (mae <= 0.5) return 'text-green-600';
+  if (mae <= 1) return 'text-amber-600';
+  return 'text-red-600';
+};
+
+export default function CalibrationHarness() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [module, setModule] = useState<CalibrationModule>('writing');
+  const [items, setItems] = useState<CalibrationItem[]>([]);
+  const [runs, setRuns] = useState<CalibrationRun[]>([]);
+  const [results, setResults] = useState<CalibrationResult[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const [evaluator, setEvaluator] = useState<CalibrationEvaluator>('writing_submission');
+  const [model, setModel] = useState('gemini-2.5-flash');
+  const [mode, setMode] = useState<CalibrationMode>('live');
+  const [promptVersions, setPromptVersions] = useState<PromptTemplate[]>([]);
+  const [promptVersion, setPromptVersion] = useState(BUILTIN_VERSION);
+  const [activeRun, setActiveRun] = useState<CalibrationRun | null>(null);
+  const stopRequested = useRef(false);
+
+  const [selectedGroup, setSelectedGroup] = useState<string | null>(null);
+  const [matrixKey, setMatrixKey] = useState(OVERALL_KEY);
+
+  const [importOpen, setImportOpen] = useState(false);
+  const [importText, setImportText] = useState('');
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [loadedItems, history] = await Promise.all([loadCalibrationItems(module), loadCalibrationHistory(module)]);
+      setItems(loadedItems);
+      setRuns(history.runs);
+      setResults(history.results);
+    } catch (error) {
+      console.error('Error loading calibration data:', error);
+      toast({ title: 'Error', description: 'Failed to load calibration data', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [module, toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    setEvaluator(CALIBRATION_EVALUATORS.find(e => e.module === module)!.value);
+    setSelectedGroup(null);
+    setMatrixKey(OVERALL_KEY);
+  }, [module]);
+
+  const promptKey = CALIBRATION_EVALUATORS.find(e => e.value === evaluator)!.promptKey;
+  useEffect(() => {
+    setPromptVersion(BUILTIN_VERSION);
+    loadPromptTemplates(promptKey)
+      .then(setPromptVersions)
+      .catch(error => console.error('Error loading prompt versions:', error));
+  }, [promptKey]);
+
+  const groups = useMemo(() => groupCalibrationResults(runs, results), [runs, results]);
+  const group = groups.find(g => g.key === selectedGroup) ?? groups[0] ?? null;
+  const metrics = useMemo(() => (group ? calibrationMetrics(module, group.samples) : []), [group, module]);
+  const matrix = useMemo(() => (group ? confusionMatrix(bandPairs(group.samples, matrixKey)) : null), [group, matrixKey]);
+  const matrixMax = matrix ? Math.max(1, ...matrix.counts.flat()) : 1;
+  const activeItemCount = items.filter(item => item.is_active).length;
+
+  const process = async (runId: string) => {
+    stopRequested.current = false;
+    try {
+      const run = await runCalibration(runId, setActiveRun, () => stopRequested.current);
+      toast({
+        title: run.status === 'completed' ? 'Calibration complete' : 'Calibration paused',
+        description: `${run.scored_count} scored, ${run.error_count} failed of ${run.item_count}`,
+      });
+    } catch (error) {
+      console.error('Error running calibration:', error);
+      toast({ title: 'Calibration failed', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+    } finally {
+      setActiveRun(null);
+      load();
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      const { run } = await startCalibrationRun({
+        evaluator,
+        model: model.trim(),
+        mode,
+        promptVersion: promptVersion === BUILTIN_VERSION ? undefined : Number(promptVersion),
+      });
+      setActiveRun(run);
+      await process(run.id);
+    } catch (error) {
+      console.error('Error starting calibration:', error);
+      toast({ title: 'Could not start', description: error instanceof Error ? error.message : 'Unknown error', variant: 'destructive' });
+    }
+  };
+
+  const handleCancel = async (runId: string) => {
+    stopRequested.current = true;
+    try {
+      await cancelCalibrationRun(runId);
+    } catch (error) {
+      console.error('Error cancelling calibration:', error);
+    }
+    load();
+  };
+
+  const handleDeleteRun = async (runId: string) => {
+    if (!confirm('Delete this run and its results?')) return;
+    try {
+      await deleteCalibrationRun(runId);
+      load();
+    } catch (error) {
+      console.error('Error deleting run:', error);
+      toast({ title: 'Error', description: 'Failed to delete run', variant: 'destructive' });
+    }
+  };
+
+  const handleImport = async () => {
+    if (!user) return;
+    const { items: parsed, errors } = parseCalibrationImport(importText, module);
+    if (errors.length > 0) {
+      toast({ title: `${errors.length} item${errors.length > 1 ? 's' : ''} rejected`, description: errors.slice(0, 3).join('\n'), variant: 'destructive' });
+      if (parsed.length === 0) return;
+    }
+    try {
+      await createCalibrationItems(parsed, user.id);
+      toast({ title: 'Items imported', description: `${parsed.length} ${module} item${parsed.length > 1 ? 's' : ''} added` });
+      setImportOpen(false);
+      setImportText('');
+      load();
+    } catch (error) {
+      console.error('Error importing calibration items:', error);
+      toast({ title: 'Error', description: 'Failed to import items', variant: 'destructive' });
+    }
+  };
+
+  const handleToggleItem = async (item: CalibrationItem) => {
+    try {
+      await setCalibrationItemActive(item.id, !item.is_active);
+      setItems(prev => prev.map(i => (i.id === item.id ? { ...i, is_active: !item.is_active } : i)));
+    } catch (error) {
+      console.error('Error updating calibration item:', error);
+      toast({ title: 'Error', description: 'Failed to update item', variant: 'destructive' });
+    }
+  };
+
+  const handleDeleteItem = async (item: CalibrationItem) => {
+    if (!confirm(`Delete "${item.title}"? Its results in past runs are deleted too.`)) return;
+    try {
+      await deleteCalibrationItem(item.id);
+      load();
+    } catch (error) {
+      console.error('Error deleting calibration item:', error);
+      toast({ title: 'Error', description: 'Failed to delete item', variant: 'destructive' });
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (file) setImportText(await file.text());
+  };
+
+  const evaluatorLabel = (value: string) => CALIBRATION_EVALUATORS.find(e => e.value === value)?.label ?? value;
+  const criterionLabel = (key: string) =>
+    key === OVERALL_KEY ? 'Overall' : CALIBRATION_CRITERIA[module].find(c => c.key === key)?.label ?? key;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-semibold flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            Scoring Calibration
+          </h2>
+          <p className="text-sm text-muted-foreground">AI bands against examiner bands on a gold-standard set</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={module} onValueChange={value => setModule(value as CalibrationModule)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="writing">Writing</SelectItem>
+              <SelectItem value="speaking">Speaking</SelectItem>
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Run controls */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Run Calibration</CardTitle>
+          <CardDescription>
+            Scores every active item with one prompt version and model. Replay serves recorded fixtures instead of calling the model.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label>Prompt</Label>
+              <Select value={evaluator} onValueChange={value => setEvaluator(value as CalibrationEvaluator)} disabled={!!activeRun}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CALIBRATION_EVALUATORS.filter(e => e.module === module).map(e => (
+                    <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Prompt version</Label>
+              <Select value={promptVersion} onValueChange={setPromptVersion} disabled={!!activeRun}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={BUILTIN_VERSION}>Built-in</SelectItem>
+                  {promptVersions.map(t => (
+                    <SelectItem key={t.id} value={String(t.version)}>
+                      v{t.version}{t.is_active ? ' (live)' : ''}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="calibration-model">Model</Label>
+              <Input
+                id="calibration-model"
+                value={model}
+                onChange={e => setModel(e.target.value)}
+                placeholder="gemini-2.5-flash or openai:gpt-4o-mini"
+                className="font-mono"
+                disabled={!!activeRun}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Mode</Label>
+              <Select value={mode} onValueChange={value => setMode(value as CalibrationMode)} disabled={!!activeRun}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="live">Live model calls</SelectItem>
+                  <SelectItem value="replay">Recorded fixtures</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {activeRun ? (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span>
+                  Scoring {activeRun.scored_count + activeRun.error_count} of {activeRun.item_count}
+                  {activeRun.error_count > 0 && <span className="text-red-600"> · {activeRun.error_count} failed</span>}
+                </span>
+                <Button variant="outline" size="sm" onClick={() => handleCancel(activeRun.id)}>
+                  <Square className="w-4 h-4 mr-2" />
+                  Stop
+                </Button>
+              </div>
+              <Progress value={((activeRun.scored_count + activeRun.error_count) / Math.max(1, activeRun.item_count)) * 100} className="h-2" />
+            </div>
+          ) : (
+            <Button onClick={handleStart} disabled={activeItemCount === 0 || !model.trim()}>
+              <Play className="w-4 h-4 mr-2" />
+              Run on {activeItemCount} item{activeItemCount === 1 ? '' : 's'}
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Accuracy by model and prompt version */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Accuracy by Model and Prompt Version</CardTitle>
+          <CardDescription>
+            Mean absolute error and bias in bands (positive bias means the AI scores higher than the examiner). Repeated runs count each item once, from the latest run.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {groups.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Target className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No calibration results yet</p>
+              <p className="text-sm">Import gold-standard items and start a run</p>
+            </div>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Prompt</TableHead>
+                    <TableHead>Model</TableHead>
+                    <TableHead>Version</TableHead>
+                    <TableHead className="text-center">Items</TableHead>
+                    <TableHead className="text-center">Overall MAE</TableHead>
+                    <TableHead className="text-center">Overall Bias</TableHead>
+                    <TableHead className="text-center">Within ½ Band</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {groups.map(g => {
+                    const overall = calibrationMetrics(module, g.samples)[0];
+                    return (
+                      <TableRow
+                        key={g.key}
+                        onClick={() => setSelectedGroup(g.key)}
+                        className={cn('cursor-pointer', g.key === group?.key && 'bg-muted/50')}
+                      >
+                        <TableCell className="text-sm">{evaluatorLabel(g.evaluator)}</TableCell>
+                        <TableCell className="font-mono text-sm">{g.modelName}</TableCell>
+                        <TableCell><Badge variant="outline">{g.promptVersion}</Badge></TableCell>
+                        <TableCell className="text-center">{overall.n}</TableCell>
+                        <TableCell className={cn('text-center font-medium', getMaeColor(overall.mae))}>{formatBand(overall.mae)}</TableCell>
+                        <TableCell className="text-center">{formatBias(overall.bias)}</TableCell>
+                        <TableCell className="text-center">{formatShare(overall.withinHalfBand)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+
+              {group && (
+                <div className="grid gap-6 lg:grid-cols-2">
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">
+                      By criterion · <span className="font-mono font-normal">{group.modelName}</span> · {group.promptVersion}
+                    </h3>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Criterion</TableHead>
+                          <TableHead className="text-center">n</TableHead>
+                          <TableHead className="text-center">MAE</TableHead>
+                          <TableHead className="text-center">Bias</TableHead>
+                          <TableHead className="text-center">Within ½</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {metrics.map(m => (
+                          <TableRow
+                            key={m.key}
+                            onClick={() => setMatrixKey(m.key)}
+                            className={cn('cursor-pointer', m.key === matrixKey && 'bg-muted/50')}
+                          >
+                            <TableCell className={cn('text-sm', m.key === OVERALL_KEY && 'font-semibold')}>{m.label}</TableCell>
+                            <TableCell className="text-center">{m.n}</TableCell>
+                            <TableCell className={cn('text-center font-medium', getMaeColor(m.mae))}>{formatBand(m.mae)}</TableCell>
+                            <TableCell className="text-center">{formatBias(m.bias)}</TableCell>
+                            <TableCell className="text-center">{formatShare(m.withinHalfBand)}</TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+
+                  <div className="space-y-2">
+                    <h3 className="text-sm font-semibold">Confusion matrix · {criterionLabel(matrixKey)}</h3>
+                    {!matrix || matrix.bands.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">No scored items for this criterion.</p>
+                    ) : (
+                      <div className="overflow-x-auto">
+                        <table className="text-xs border-collapse">
+                          <thead>
+                            <tr>
+                              <th className="p-1 text-left text-muted-foreground font-normal">Examiner ↓ / AI →</th>
+                              {matrix.bands.map(band => (
+                                <th key={band} className="p-1 w-9 text-center font-medium">{band}</th>
+                              ))}
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {matrix.bands.map((examinerBand, row) => (
+                              <tr key={examinerBand}>
+                                <th className="p-1 text-right font-medium">{examinerBand}</th>
+                                {matrix.counts[row].map((count, col) => (
+                                  <td
+                                    key={col}
+                                    className={cn(
+                                      'p-1 w-9 h-9 text-center border',
+                                      row === col ? 'bg-green-500/20' : count > 0 && 'bg-red-500/10',
+                                      count === 0 && 'text-muted-foreground/40'
+                                    )}
+                                    style={count > 0 && row !== col ? { opacity: 0.4 + 0.6 * (count / matrixMax) } : undefined}
+                                  >
+                                    {count}
+                                  </td>
+                                ))}
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        <p className="text-xs text-muted-foreground mt-2">Whole bands; a half band counts with the band below.</p>
+                      </div>
+                    )}
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Recent runs */}
+      {runs.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Runs</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Started</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead className="text-center">Scored</TableHead>
+                  <TableHead className="text-center">Failed</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="text-sm text-muted-foreground">{new Date(run.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="font-mono text-sm">{run.model_name}</TableCell>
+                    <TableCell className="text-sm">{run.prompt_version}</TableCell>
+                    <TableCell className="text-sm">{run.mode === 'replay' ? 'Fixtures' : 'Live'}</TableCell>
+                    <TableCell className="text-center">{run.scored_count}/{run.item_count}</TableCell>
+                    <TableCell className="text-center text-red-600">{run.error_count || ''}</TableCell>
+                    <TableCell>
+                      <Badge variant={run.status === 'completed' ? 'default' : 'secondary'}>{run.status}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {run.status === 'running' && !activeRun && (
+                        <Button variant="outline" size="sm" onClick={() => { setActiveRun(run); process(run.id); }}>
+                          Resume
+                        </Button>
+                      )}
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteRun(run.id)} disabled={activeRun?.id === run.id}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Gold-standard set */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle>Gold-Standard {module === 'writing' ? 'Essays' : 'Transcripts'}</CardTitle>
+            <CardDescription>{activeItemCount} of {items.length} items are included in new runs</CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setImportOpen(true)}>
+            <Upload className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {items.length === 0 ? (
+            <p className="text-center py-8 text-muted-foreground">No {module} items yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Title</TableHead>
+                  <TableHead>{module === 'writing' ? 'Task' : 'Answers'}</TableHead>
+                  <TableHead className="text-center">Examiner Band</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-center">Active</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {items.map(item => (
+                  <TableRow key={item.id}>
+                    <TableCell className="font-medium">{item.title}</TableCell>
+                    <TableCell className="text-sm">
+                      {module === 'writing'
+                        ? item.task_type === 'letter' ? 'GT letter' : item.task_type === 'task1' ? 'Task 1' : 'Task 2'
+                        : Array.isArray(item.transcripts) ? item.transcripts.length : 0}
+                    </TableCell>
+                    <TableCell className="text-center font-medium">{Number(item.examiner_overall).toFixed(1)}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{item.source || '-'}</TableCell>
+                    <TableCell className="text-center">
+                      <Switch checked={item.is_active} onCheckedChange={() => handleToggleItem(item)} />
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteItem(item)}>
+                        <Trash2 className="w-4 h-4 text-destructive" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={importOpen} onOpenChange={setImportOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import {module} items</DialogTitle>
+            <DialogDescription>
+              Paste or upload a JSON array. Every item needs examiner_overall and a band for each criterion.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3">
+            <pre className="rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">{IMPORT_EXAMPLES[module]}</pre>
+            <Input type="file" accept="application/json,.json" onChange={e => handleFile(e.target.files?.[0])} />
+            <Textarea value={importText} onChange={e => setImportText(e.target.value)} rows={10} className="font-mono text-xs" />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setImportOpen(false)}>Cancel</Button>
+            <Button onClick={handleImport} disabled={!importText.trim()}>Import</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
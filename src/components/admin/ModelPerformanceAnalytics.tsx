@@ -59,6 +59,7 @@ const TASK_TYPE_LABELS: Record<string, string> = {
   evaluate_writing: 'Writing Evaluation',
   evaluate_speaking: 'Speaking Evaluation',
   tts: 'Text-to-Speech',
+  calibrate: 'Calibration',
 };
 
 const TASK_TYPE_COLORS: Record<string, string> = {
@@ -67,6 +68,7 @@ const TASK_TYPE_COLORS: Record<string, string> = {
   evaluate_writing: 'bg-emerald-500',
   evaluate_speaking: 'bg-orange-500',
   tts: 'bg-rose-500',
+  calibrate: 'bg-slate-500',
 };
 
 export default function ModelPerformanceAnalytics() {
@@ -89,10 +91,11 @@ export default function ModelPerformanceAnalytics() {
 
       if (statsError) throw statsError;
 
-      // Fetch recent logs
+      // Fetch recent logs (human review rows are calibration data, not API calls)
       const { data: logsData, error: logsError } = await supabase
         .from('model_performance_logs')
         .select('*')
+        .neq('status', 'human_review')
         .order('created_at', { ascending: false })
         .limit(50);
 
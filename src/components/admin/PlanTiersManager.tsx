@@ -0,0 +1,350 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { useToast } from '@/hooks/use-toast';
+import { Layers, Pencil, Plus, RefreshCw } from 'lucide-react';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  MODEL_TIER_LABELS,
+  ModelTier,
+  PLAN_MODULES,
+  PRICED_OPERATIONS,
+  PlanModule,
+  PlanTier,
+  PlanTierDraft,
+  emptyPlanTierDraft,
+  formatFeatureLines,
+  loadPlanTiers,
+  operationLabel,
+  parseFeatureLines,
+  savePlanTier,
+  toPlanTierDraft,
+  validatePlanTier,
+} from '@/lib/planTiers';
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const formatPrice = (tier: Pick<PlanTier, 'price' | 'currency' | 'period_label'>) =>
+  tier.price === 0 ? 'Free' : `${tier.currency === 'BDT' ? '৳' : `${tier.currency} `}${tier.price}${tier.period_label ?? ''}`;
+
+/** Admin editor for plan tiers: limits, costs, modules and model tiers take effect on the next request */
+export default function PlanTiersManager() {
+  const { toast } = useToast();
+  const [tiers, setTiers] = useState<PlanTier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState<PlanTierDraft | null>(null);
+  const [featureText, setFeatureText] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setTiers(await loadPlanTiers());
+    } catch (error) {
+      console.error('Error loading plan tiers:', error);
+      toast({ title: 'Error', description: 'Failed to load plan tiers', variant: 'destructive' });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const openEditor = (next: PlanTierDraft) => {
+    setDraft(next);
+    setFeatureText(formatFeatureLines(next.features));
+  };
+
+  const update = (changes: Partial<PlanTierDraft>) => setDraft(current => (current ? { ...current, ...changes } : current));
+
+  const toggleModule = (module: PlanModule, checked: boolean) => {
+    if (!draft) return;
+    update({ allowed_modules: PLAN_MODULES.filter(m => (m === module ? checked : draft.allowed_modules.includes(m))) });
+  };
+
+  const toggleModelTier = (modelTier: ModelTier, checked: boolean) => {
+    if (!draft) return;
+    const tiersOrder: ModelTier[] = ['flash', 'pro'];
+    update({ model_tiers: tiersOrder.filter(t => (t === modelTier ? checked : draft.model_tiers.includes(t))) });
+  };
+
+  const setCost = (operation: string, value: string) => {
+    if (!draft) return;
+    const costs = { ...draft.operation_costs };
+    if (value === '') delete costs[operation];
+    else costs[operation] = Number(value);
+    update({ operation_costs: costs });
+  };
+
+  const completeDraft = draft ? { ...draft, features: parseFeatureLines(featureText) } : null;
+  const errors = completeDraft ? validatePlanTier(completeDraft, tiers) : [];
+
+  const save = async () => {
+    if (!completeDraft || errors.length > 0) return;
+    setSaving(true);
+    try {
+      const saved = await savePlanTier(completeDraft);
+      toast({ title: 'Plan saved', description: `${saved.name} applies from the next request.` });
+      setDraft(null);
+      load();
+    } catch (error) {
+      console.error('Error saving plan tier:', error);
+      toast({ title: 'Error', description: error instanceof Error ? error.message : 'Failed to save plan', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Layers className="text-primary" />
+            Plan Tiers
+          </CardTitle>
+          <CardDescription>
+            Daily credit limit, credit costs, modules and models for each plan. Users without a subscription get the default plan.
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={load} disabled={loading}>
+            <RefreshCw className="w-3 h-3 mr-1" />
+            Refresh
+          </Button>
+          <Button size="sm" onClick={() => openEditor(emptyPlanTierDraft(tiers.length))}>
+            <Plus className="w-4 h-4 mr-1" />
+            New Plan
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="text-center py-8 text-muted-foreground">Loading...</div>
+        ) : tiers.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">No plans configured</div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Plan</TableHead>
+                <TableHead>Price</TableHead>
+                <TableHead>Daily credits</TableHead>
+                <TableHead>Modules</TableHead>
+                <TableHead>Models</TableHead>
+                <TableHead className="w-16" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {tiers.map(tier => (
+                <TableRow key={tier.id} className={tier.is_active ? undefined : 'opacity-60'}>
+                  <TableCell>
+                    <div className="font-medium">{tier.name}</div>
+                    <div className="flex items-center gap-1 mt-1">
+                      <span className="text-xs font-mono text-muted-foreground">{tier.slug}</span>
+                      {tier.is_default && <Badge variant="secondary">Default</Badge>}
+                      {tier.is_featured && <Badge variant="outline">Featured</Badge>}
+                      {!tier.is_active && <Badge variant="outline">Hidden</Badge>}
+                    </div>
+                  </TableCell>
+                  <TableCell>{formatPrice(tier)}</TableCell>
+                  <TableCell>{tier.daily_credit_limit}</TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {tier.allowed_modules.map(module => (
+                        <Badge key={module} variant="outline">{capitalize(module)}</Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>{tier.model_tiers.map(capitalize).join(', ')}</TableCell>
+                  <TableCell>
+                    <Button variant="ghost" size="sm" onClick={() => openEditor(toPlanTierDraft(tier))}>
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!draft} onOpenChange={open => !open && setDraft(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft?.id ? `Edit ${draft.name}` : 'New Plan'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to every user on this plan from their next request.
+            </DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-5">
+              <div className="grid grid-cols-2 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="plan-name">Name</Label>
+                  <Input id="plan-name" value={draft.name} onChange={e => update({ name: e.target.value })} placeholder="Speaking Pro" />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="plan-slug">Slug</Label>
+                  <Input id="plan-slug" value={draft.slug} onChange={e => update({ slug: e.target.value })} placeholder="speaking_pro" className="font-mono" />
+                </div>
+                <div className="col-span-2 space-y-1">
+                  <Label htmlFor="plan-description">Description</Label>
+                  <Input id="plan-description" value={draft.description} onChange={e => update({ description: e.target.value })} />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-4 gap-3">
+                <div className="space-y-1">
+                  <Label htmlFor="plan-price">Price</Label>
+                  <Input id="plan-price" type="number" min={0} value={draft.price} onChange={e => update({ price: Number(e.target.value) })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="plan-currency">Currency</Label>
+                  <Input id="plan-currency" value={draft.currency} onChange={e => update({ currency: e.target.value.toUpperCase() })} />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="plan-duration">Duration (days)</Label>
+                  <Input
+                    id="plan-duration"
+                    type="number"
+                    min={1}
+                    value={draft.duration_days ?? ''}
+                    onChange={e => update({ duration_days: e.target.value === '' ? null : Number(e.target.value) })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="plan-period">Period label</Label>
+                  <Input id="plan-period" value={draft.period_label} onChange={e => update({ period_label: e.target.value })} placeholder="/month" />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Credits</Label>
+                <div className="grid grid-cols-2 gap-x-4 gap-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-medium">Daily limit</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-24"
+                      value={draft.daily_credit_limit}
+                      onChange={e => update({ daily_credit_limit: Number(e.target.value) })}
+                    />
+                  </div>
+                  {PRICED_OPERATIONS.map(operation => (
+                    <div key={operation} className="flex items-center justify-between gap-2">
+                      <span className="text-sm">{operationLabel(operation)}</span>
+                      <Input
+                        type="number"
+                        min={0}
+                        className="w-24"
+                        placeholder="Free"
+                        value={draft.operation_costs[operation] ?? ''}
+                        onChange={e => setCost(operation, e.target.value)}
+                      />
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>Modules</Label>
+                  {PLAN_MODULES.map(module => (
+                    <label key={module} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.allowed_modules.includes(module)}
+                        onCheckedChange={checked => toggleModule(module, checked === true)}
+                      />
+                      {capitalize(module)}
+                    </label>
+                  ))}
+                </div>
+                <div className="space-y-2">
+                  <Label>Models</Label>
+                  {(Object.keys(MODEL_TIER_LABELS) as ModelTier[]).map(modelTier => (
+                    <label key={modelTier} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={draft.model_tiers.includes(modelTier)}
+                        onCheckedChange={checked => toggleModelTier(modelTier, checked === true)}
+                      />
+                      {MODEL_TIER_LABELS[modelTier]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <Label htmlFor="plan-features">Pricing page features</Label>
+                <Textarea
+                  id="plan-features"
+                  rows={5}
+                  value={featureText}
+                  onChange={e => setFeatureText(e.target.value)}
+                  placeholder={'One per line; start with "-" for a feature the plan does not include'}
+                />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-6">
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={draft.is_active} onCheckedChange={checked => update({ is_active: checked })} />
+                  On pricing page
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={draft.is_featured} onCheckedChange={checked => update({ is_featured: checked })} />
+                  Featured
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={draft.is_default} onCheckedChange={checked => update({ is_default: checked })} />
+                  Default plan
+                </label>
+                <div className="flex items-center gap-2 text-sm">
+                  <span>Order</span>
+                  <Input type="number" className="w-16" value={draft.sort_order} onChange={e => update({ sort_order: Number(e.target.value) })} />
+                </div>
+              </div>
+
+              {errors.length > 0 && (
+                <ul className="text-sm text-destructive list-disc pl-5 space-y-0.5">
+                  {errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDraft(null)}>Cancel</Button>
+            <Button onClick={save} disabled={saving || errors.length > 0}>
+              {saving ? 'Saving...' : 'Save Plan'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
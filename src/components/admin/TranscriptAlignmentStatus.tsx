@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AudioLines, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '@/integrations/supabase/client';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { sanitizeAlignment, transcriptHash } from '@/lib/transcriptAlignment';
+
+interface TranscriptAlignmentStatusProps {
+  testId?: string;
+  part: number;
+  transcript?: string | null;
+  audioUrl?: string | null;
+}
+
+interface StoredAlignment {
+  hash: string;
+  audioUrl: string;
+  method: string;
+  sentences: number;
+  updatedAt: string;
+}
+
+/**
+ * Whether a listening test part's transcript is synced with its audio for
+ * review-mode play-along, and a button to (re)sync it. Syncing uses the saved
+ * transcript and audio, so the test must be saved first.
+ */
+export function TranscriptAlignmentStatus({ testId, part, transcript, audioUrl }: TranscriptAlignmentStatusProps) {
+  const [stored, setStored] = useState<StoredAlignment | null>(null);
+  const [syncing, setSyncing] = useState(false);
+
+  const loadStatus = useCallback(async () => {
+    if (!testId) return;
+    const { data, error } = await supabase
+      .from('transcript_alignments')
+      .select('transcript_hash, audio_url, method, alignment, updated_at')
+      .eq('source_type', 'listening_test')
+      .eq('source_id', testId)
+      .eq('part', part)
+      .maybeSingle();
+    if (error) {
+      console.error('Error loading transcript alignment:', error);
+      return;
+    }
+    setStored(data ? {
+      hash: data.transcript_hash,
+      audioUrl: data.audio_url,
+      method: data.method,
+      sentences: sanitizeAlignment(data.alignment)?.sentences.length ?? 0,
+      updatedAt: data.updated_at,
+    } : null);
+  }, [testId, part]);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  const sync = async () => {
+    if (!testId) return;
+    setSyncing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('align-transcript', {
+        body: { sourceType: 'listening_test', sourceId: testId, part, force: true },
+      });
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+      toast.success(`Part ${part} transcript synced with the audio`);
+      await loadStatus();
+    } catch (error) {
+      console.error('Error syncing transcript:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to sync transcript');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  const ready = !!testId && !!transcript?.trim() && !!audioUrl;
+  const current = stored && transcript && stored.hash === transcriptHash(transcript) && stored.audioUrl === audioUrl;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+      {!ready ? (
+        <span>Save the test with this part's transcript and audio to sync them for play-along review.</span>
+      ) : current ? (
+        <Badge variant="secondary" className="text-xs">
+          Synced ({stored.method === 'transcript' ? 'from timestamps' : 'from audio'}) · {stored.sentences} sentences · {new Date(stored.updatedAt).toLocaleDateString()}
+        </Badge>
+      ) : stored ? (
+        <Badge variant="outline" className="text-xs text-amber-600 border-amber-500/40">
+          Transcript or audio changed since the last sync
+        </Badge>
+      ) : (
+        <span>Not synced with the audio yet - students see estimated timings until it is.</span>
+      )}
+      {ready && (
+        <Button variant="outline" size="sm" className="h-7 gap-1 text-xs" onClick={sync} disabled={syncing}>
+          {syncing ? <Loader2 size={12} className="animate-spin" /> : <AudioLines size={12} />}
+          {current ? 'Re-sync' : 'Sync with audio'}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,335 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { useBrowserNotifications } from '@/hooks/useBrowserNotifications';
+import { STUDY_REMINDER_CHANGED_EVENT } from '@/components/common/StudyReminderManager';
+import { cn } from '@/lib/utils';
+import { Bell, CalendarClock, CheckCircle2, Circle, Flame, Loader2, Pencil, Save } from 'lucide-react';
+import {
+  ExamPlanState,
+  ExamProfile,
+  PLANNER_MODULES,
+  TARGET_BANDS,
+  addDays,
+  daysUntilExam,
+  goalLabel,
+  goalStatus,
+  loadExamProfile,
+  saveExamProfile,
+  sessionLabel,
+  studyStreak,
+  syncExamSchedule,
+} from '@/lib/examPlanner';
+import { toDateKey } from '@/lib/studyPlan';
+
+interface ExamPlannerPanelProps {
+  userId: string;
+}
+
+const DEFAULT_REMINDER_TIME = '19:00';
+const UPCOMING_DAYS = 7;
+
+function formatDay(dateKey: string): string {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+/** Exam date and target band, today's goal with streak, the coming week and reminders */
+export function ExamPlannerPanel({ userId }: ExamPlannerPanelProps) {
+  const { isSupported, requestPermission } = useBrowserNotifications();
+  const [profile, setProfile] = useState<ExamProfile | null>(null);
+  const [plan, setPlan] = useState<ExamPlanState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [examDate, setExamDate] = useState('');
+  const [targetBand, setTargetBand] = useState('7');
+  const [reminderTime, setReminderTime] = useState(DEFAULT_REMINDER_TIME);
+
+  const load = useCallback(async () => {
+    try {
+      const examProfile = await loadExamProfile(userId);
+      setProfile(examProfile);
+      setExamDate(examProfile.examDate ?? '');
+      setTargetBand(String(examProfile.targetBand ?? 7));
+      setReminderTime(examProfile.reminderTime ?? DEFAULT_REMINDER_TIME);
+
+      const state = await syncExamSchedule(userId, examProfile);
+      setPlan(state);
+      if (state.carried > 0 || state.dropped > 0) {
+        toast({
+          title: 'Plan Adjusted',
+          description: state.dropped > 0
+            ? `${state.carried} missed sessions moved to the coming days; ${state.dropped} no longer fit before your exam.`
+            : `${state.carried} missed sessions moved to the coming days.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error loading exam plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const today = toDateKey(new Date());
+  const schedule = plan?.schedule ?? null;
+  const todayStatus = useMemo(() => {
+    const goal = schedule?.days.find(d => d.date === today);
+    return goal && plan ? goalStatus(goal, plan.progress.get(today)) : null;
+  }, [schedule, plan, today]);
+  const streak = useMemo(
+    () => (schedule && plan ? studyStreak(schedule, plan.progress) : { current: 0, best: 0 }),
+    [schedule, plan]
+  );
+  const upcoming = useMemo(
+    () => (schedule?.days ?? []).filter(d => d.date > today && d.date <= addDays(today, UPCOMING_DAYS)),
+    [schedule, today]
+  );
+  const daysLeft = profile?.examDate ? daysUntilExam(profile.examDate) : null;
+
+  const handleSaveExam = async () => {
+    if (!examDate || examDate <= today) {
+      toast({ title: 'Pick a future exam date', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      await saveExamProfile(userId, { examDate, targetBand: Number(targetBand) });
+      setEditing(false);
+      await load();
+      window.dispatchEvent(new CustomEvent(STUDY_REMINDER_CHANGED_EVENT));
+    } catch (error) {
+      console.error('Error saving exam date:', error);
+      toast({ title: 'Could not save your exam date', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const saveReminder = async (time: string | null) => {
+    try {
+      await saveExamProfile(userId, { reminderTime: time });
+      setProfile(prev => (prev ? { ...prev, reminderTime: time } : prev));
+      window.dispatchEvent(new CustomEvent(STUDY_REMINDER_CHANGED_EVENT));
+    } catch (error) {
+      console.error('Error saving reminder:', error);
+      toast({ title: 'Could not save your reminder', variant: 'destructive' });
+    }
+  };
+
+  const handleReminderToggle = async (enabled: boolean) => {
+    if (!enabled) {
+      await saveReminder(null);
+      return;
+    }
+    const granted = await requestPermission();
+    if (!granted) {
+      toast({
+        title: 'Notifications are blocked',
+        description: 'Allow notifications for this site in your browser to get study reminders.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    await saveReminder(reminderTime);
+  };
+
+  // Only an enabled reminder is saved on edit; a new time is picked up when it is switched on
+  const handleReminderTimeBlur = () => {
+    if (profile?.reminderTime && reminderTime && reminderTime !== profile.reminderTime) saveReminder(reminderTime);
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const showForm = editing || !profile?.examDate || (daysLeft !== null && daysLeft < 0);
+
+  return (
+    <Card className="card-ai">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between gap-2">
+          <span className="flex items-center gap-2">
+            <CalendarClock className="text-primary" />
+            Exam Planner
+          </span>
+          {!showForm && (
+            <Button onClick={() => setEditing(true)} variant="ghost" size="sm" className="gap-2">
+              <Pencil size={14} />
+              Edit
+            </Button>
+          )}
+        </CardTitle>
+        <CardDescription>
+          {!showForm && profile?.examDate && daysLeft !== null
+            ? `${daysLeft === 0 ? 'Exam day' : `${daysLeft} day${daysLeft === 1 ? '' : 's'} to your exam`} · target band ${profile.targetBand?.toFixed(1)}`
+            : 'Tell us when your exam is and we will plan every day until then.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {showForm ? (
+          <div className="flex flex-col sm:flex-row sm:items-end gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="exam-date">Exam date</Label>
+              <Input
+                id="exam-date"
+                type="date"
+                min={addDays(today, 1)}
+                value={examDate}
+                onChange={e => setExamDate(e.target.value)}
+                className="w-44"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="target-band">Target band</Label>
+              <Select value={targetBand} onValueChange={setTargetBand}>
+                <SelectTrigger id="target-band" className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TARGET_BANDS.map(band => (
+                    <SelectItem key={band} value={String(band)}>
+                      {band.toFixed(1)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleSaveExam} disabled={saving} className="gap-2">
+                {saving ? <Loader2 size={16} className="animate-spin" /> : <Save size={16} />}
+                Save Plan
+              </Button>
+              {editing && (
+                <Button variant="outline" onClick={() => setEditing(false)} disabled={saving}>
+                  Cancel
+                </Button>
+              )}
+            </div>
+          </div>
+        ) : (
+          <div className="grid md:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <h3 className="font-semibold">Today</h3>
+                <div className="flex items-center gap-1 text-sm" title={`Best streak: ${streak.best} days`}>
+                  <Flame size={16} className={streak.current > 0 ? 'text-orange-500' : 'text-muted-foreground'} />
+                  <span className="font-semibold">{streak.current}</span>
+                  <span className="text-muted-foreground">day streak</span>
+                </div>
+              </div>
+
+              {!todayStatus || todayStatus.rest ? (
+                <p className="text-sm text-muted-foreground">Nothing planned today - rest up.</p>
+              ) : (
+                <div className="space-y-2">
+                  {PLANNER_MODULES.filter(module => todayStatus.goal.sessions[module] > 0).map(module => {
+                    const target = todayStatus.goal.sessions[module];
+                    const complete = todayStatus.remaining[module] === 0;
+                    return (
+                      <div key={module} className="flex items-center justify-between gap-2 text-sm">
+                        <span className="flex items-center gap-2">
+                          {complete
+                            ? <CheckCircle2 size={14} className="text-success" />
+                            : <Circle size={14} className="text-muted-foreground" />}
+                          <span className={cn(complete && 'text-muted-foreground line-through')}>
+                            {sessionLabel(module, target)}
+                          </span>
+                        </span>
+                        {!complete && (
+                          <Link to={`/ai-practice?module=${module}`} className="text-xs text-primary hover:underline">
+                            Start
+                          </Link>
+                        )}
+                      </div>
+                    );
+                  })}
+                  {todayStatus.goal.flashcards > 0 && (
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-between gap-2 text-sm">
+                        <span className="flex items-center gap-2">
+                          {todayStatus.flashcardsLeft === 0
+                            ? <CheckCircle2 size={14} className="text-success" />
+                            : <Circle size={14} className="text-muted-foreground" />}
+                          <span className={cn(todayStatus.flashcardsLeft === 0 && 'text-muted-foreground line-through')}>
+                            {todayStatus.goal.flashcards} flashcards
+                          </span>
+                        </span>
+                        {todayStatus.flashcardsLeft > 0 && (
+                          <Link to="/flashcards" className="text-xs text-primary hover:underline">
+                            {todayStatus.done.flashcards}/{todayStatus.goal.flashcards}
+                          </Link>
+                        )}
+                      </div>
+                      <Progress
+                        value={Math.min(100, (todayStatus.done.flashcards / todayStatus.goal.flashcards) * 100)}
+                        className="h-1.5"
+                      />
+                    </div>
+                  )}
+                  {todayStatus.goal.carried > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Includes {todayStatus.goal.carried} session{todayStatus.goal.carried === 1 ? '' : 's'} moved from missed days.
+                    </p>
+                  )}
+                  {todayStatus.met && (
+                    <p className="text-sm text-success font-medium">Today's goal is done.</p>
+                  )}
+                </div>
+              )}
+
+              {isSupported && (
+                <div className="flex items-center gap-3 pt-2 border-t border-border">
+                  <Bell size={16} className="text-muted-foreground" />
+                  <Label htmlFor="study-reminder" className="text-sm font-normal flex-1">Daily reminder</Label>
+                  <Input
+                    type="time"
+                    value={reminderTime}
+                    onChange={e => setReminderTime(e.target.value)}
+                    onBlur={handleReminderTimeBlur}
+                    className="w-28 h-8"
+                    aria-label="Reminder time"
+                  />
+                  <Switch id="study-reminder" checked={!!profile?.reminderTime} onCheckedChange={handleReminderToggle} />
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <h3 className="font-semibold">Coming up</h3>
+              {upcoming.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Nothing left to plan before your exam. Good luck!</p>
+              ) : (
+                upcoming.map(day => (
+                  <div key={day.date} className="flex items-start justify-between gap-3 text-sm">
+                    <span className="w-24 shrink-0 text-muted-foreground">{formatDay(day.date)}</span>
+                    <span className="flex-1">{goalLabel(day.sessions, day.flashcards)}</span>
+                    {day.carried > 0 && (
+                      <Badge variant="secondary" className="text-xs shrink-0">+{day.carried} carried</Badge>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { toast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  CalendarCheck,
+  CheckCircle2,
+  Circle,
+  Layers,
+  Loader2,
+  Minus,
+  RefreshCw,
+  Target,
+  TrendingDown,
+  TrendingUp,
+} from 'lucide-react';
+import {
+  PLAN_DAY_LABELS,
+  PlanActivity,
+  QuestionTypeStats,
+  StudyPlan,
+  StudyPlanItem,
+  MIN_QUESTIONS_FOR_DIAGNOSIS,
+  buildWeeklyPlan,
+  drillLink,
+  findWeaknesses,
+  formatQuestionType,
+  getWeekStart,
+  loadFlashcardCounts,
+  loadPlanActivity,
+  loadQuestionTypeAttempts,
+  loadStudyPlan,
+  planProgress,
+  questionTypeStats,
+  saveStudyPlan,
+} from '@/lib/studyPlan';
+
+interface StudyPlanPanelProps {
+  userId: string;
+}
+
+const trendIcons = {
+  up: TrendingUp,
+  down: TrendingDown,
+  stable: Minus,
+};
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+function itemLabel(item: StudyPlanItem): string {
+  return item.kind === 'drill'
+    ? `${formatQuestionType(item.questionType ?? '')} drill (${item.module})`
+    : `Review ${item.target} flashcards`;
+}
+
+/** Question-type accuracy trends and this week's drill plan with progress */
+export function StudyPlanPanel({ userId }: StudyPlanPanelProps) {
+  const weekStart = useMemo(() => getWeekStart(), []);
+  const [stats, setStats] = useState<QuestionTypeStats[]>([]);
+  const [plan, setPlan] = useState<StudyPlan | null>(null);
+  const [activity, setActivity] = useState<PlanActivity>({ drills: [], reviews: [] });
+  const [loading, setLoading] = useState(true);
+  const [building, setBuilding] = useState(false);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const [attempts, savedPlan, weekActivity] = await Promise.all([
+        loadQuestionTypeAttempts(userId),
+        loadStudyPlan(userId, weekStart),
+        loadPlanActivity(userId, weekStart),
+      ]);
+      setStats(questionTypeStats(attempts));
+      setPlan(savedPlan);
+      setActivity(weekActivity);
+    } catch (error) {
+      console.error('Error loading study plan:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, weekStart]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const weaknesses = useMemo(() => findWeaknesses(stats), [stats]);
+  const rankedStats = useMemo(
+    () => [...stats].sort((a, b) => a.module.localeCompare(b.module) || a.accuracy - b.accuracy),
+    [stats]
+  );
+  const progress = useMemo(() => (plan ? planProgress(plan, activity) : null), [plan, activity]);
+  const today = (new Date().getDay() + 6) % 7;
+
+  const handleBuildPlan = async () => {
+    setBuilding(true);
+    try {
+      const flashcards = await loadFlashcardCounts(userId);
+      const saved = await saveStudyPlan(userId, buildWeeklyPlan(weaknesses, flashcards, weekStart));
+      setPlan(saved);
+      toast({
+        title: plan ? 'Plan Updated' : 'Plan Ready',
+        description: saved.focus.length > 0
+          ? `This week focuses on ${saved.focus.map(f => formatQuestionType(f.questionType)).join(', ')}.`
+          : 'Not enough results to pick drills yet, so this week is flashcard reviews.',
+      });
+    } catch (error) {
+      console.error('Error saving study plan:', error);
+      toast({ title: 'Could not save your plan', description: 'Please try again.', variant: 'destructive' });
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="grid md:grid-cols-2 gap-6">
+      <Card className="card-ai">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="text-primary" />
+            Question Types
+          </CardTitle>
+          <CardDescription>Accuracy per question type across Cambridge and AI practice tests.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {rankedStats.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Finish a reading or listening test to see how you do on each question type.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {rankedStats.map(s => {
+                const TrendIcon = trendIcons[s.trend];
+                const isWeak = weaknesses.some(w => w.module === s.module && w.questionType === s.questionType);
+                return (
+                  <div key={`${s.module}:${s.questionType}`} className="space-y-1">
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <div className="flex items-center gap-2 min-w-0">
+                        <span className="font-medium truncate">{formatQuestionType(s.questionType)}</span>
+                        <Badge variant="outline" className="capitalize text-xs">{s.module}</Badge>
+                        {isWeak && <Badge variant="destructive" className="text-xs">Focus</Badge>}
+                      </div>
+                      <div className="flex items-center gap-2 shrink-0">
+                        <TrendIcon
+                          size={14}
+                          className={cn(
+                            s.trend === 'up' && 'text-success',
+                            s.trend === 'down' && 'text-destructive',
+                            s.trend === 'stable' && 'text-muted-foreground'
+                          )}
+                        />
+                        <span className="font-semibold">{percent(s.accuracy)}</span>
+                      </div>
+                    </div>
+                    <Progress value={s.accuracy * 100} className="h-2" />
+                    <div className="flex items-center justify-between text-xs text-muted-foreground">
+                      <span>{s.correct}/{s.total} correct · {s.sessions} {s.sessions === 1 ? 'test' : 'tests'}</span>
+                      <div className="flex items-end gap-0.5 h-4" aria-label="Weekly accuracy">
+                        {s.weekly.map(w => (
+                          <div
+                            key={w.weekStart}
+                            title={`Week of ${w.weekStart}: ${percent(w.accuracy)}`}
+                            className="w-1.5 rounded-sm bg-primary/60"
+                            style={{ height: `${Math.max(10, w.accuracy * 100)}%` }}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+              {weaknesses.length === 0 && (
+                <p className="text-xs text-muted-foreground">
+                  No weak spots yet - a type needs at least {MIN_QUESTIONS_FOR_DIAGNOSIS} answered questions to be diagnosed.
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="card-ai">
+        <CardHeader>
+          <CardTitle className="flex items-center justify-between gap-2">
+            <span className="flex items-center gap-2">
+              <CalendarCheck className="text-primary" />
+              This Week's Plan
+            </span>
+            <Button onClick={handleBuildPlan} variant="outline" size="sm" className="gap-2" disabled={building}>
+              {building ? <Loader2 size={14} className="animate-spin" /> : <RefreshCw size={14} />}
+              {plan ? 'Rebuild' : 'Build Plan'}
+            </Button>
+          </CardTitle>
+          <CardDescription>Drills for your weakest question types plus daily flashcard reviews.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {!plan || !progress ? (
+            <p className="text-sm text-muted-foreground">
+              Build a plan to get drills scheduled across the week from your question-type results.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div>
+                <div className="flex items-center justify-between text-sm mb-2">
+                  <span className="font-medium">{progress.done} of {progress.target} done</span>
+                  <span className="text-muted-foreground">{progress.percent}%</span>
+                </div>
+                <Progress value={progress.percent} className="h-2" />
+              </div>
+
+              {plan.focus.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {plan.focus.map(f => (
+                    <Badge key={`${f.module}:${f.questionType}`} variant="secondary" className="text-xs">
+                      {formatQuestionType(f.questionType)} · {percent(f.accuracy)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-3">
+                {PLAN_DAY_LABELS.map((label, day) => {
+                  const dayItems = progress.items.filter(p => p.item.day === day);
+                  if (dayItems.length === 0) return null;
+                  return (
+                    <div key={label} className="flex gap-3">
+                      <span className={cn('w-10 text-xs font-medium pt-1', day === today ? 'text-primary' : 'text-muted-foreground')}>
+                        {label}
+                      </span>
+                      <div className="flex-1 space-y-1">
+                        {dayItems.map(({ item, done, complete }) => (
+                          <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                            <span className="flex items-center gap-2 min-w-0">
+                              {complete
+                                ? <CheckCircle2 size={14} className="text-success shrink-0" />
+                                : <Circle size={14} className="text-muted-foreground shrink-0" />}
+                              <span className={cn('truncate', complete && 'text-muted-foreground line-through')}>
+                                {itemLabel(item)}
+                              </span>
+                            </span>
+                            {!complete && (
+                              item.kind === 'drill' ? (
+                                <Link to={drillLink(item)} className="text-xs text-primary hover:underline shrink-0">
+                                  Start
+                                </Link>
+                              ) : (
+                                <Link to="/flashcards" className="text-xs text-primary hover:underline shrink-0 flex items-center gap-1">
+                                  <Layers size={12} />
+                                  {done}/{item.target}
+                                </Link>
+                              )
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
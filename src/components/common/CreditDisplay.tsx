@@ -3,8 +3,9 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { Zap, Key, Crown } from 'lucide-react';
+import { Zap, Key, Crown, Wallet } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { CreditHistoryDialog } from './CreditHistoryDialog';
 
 interface CreditDisplayProps {
   className?: string;
@@ -16,6 +17,7 @@ interface CreditStatus {
   credits_used: number;
   credits_remaining: number;
   limit: number;
+  purchased_credits?: number;
   is_admin?: boolean;
 }
 
@@ -25,6 +27,7 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
   const [loading, setLoading] = useState(true);
   const [hasUserKey, setHasUserKey] = useState(false);
   const [userKeyPoolCount, setUserKeyPoolCount] = useState(0);
+  const [historyOpen, setHistoryOpen] = useState(false);
 
   useEffect(() => {
     if (user) {
@@ -120,16 +123,31 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
 
   if (!status) return null;
 
+  const purchasedCredits = status.purchased_credits ?? 0;
   const percentUsed = (status.credits_used / status.limit) * 100;
-  const isLow = status.credits_remaining <= 20;
-  const isCritical = status.credits_remaining <= 5;
+  const isLow = status.credits_remaining + purchasedCredits <= 20;
+  const isCritical = status.credits_remaining + purchasedCredits <= 5;
+
+  const historyDialog = (
+    <CreditHistoryDialog
+      open={historyOpen}
+      onOpenChange={setHistoryOpen}
+      creditsRemaining={status.credits_remaining}
+      limit={status.limit}
+      purchasedCredits={purchasedCredits}
+    />
+  );
 
   if (compact) {
     return (
       <div className={cn("flex items-center gap-2", className)}>
         <Badge 
           variant="outline" 
+          role="button"
+          title="View credit history"
+          onClick={() => setHistoryOpen(true)}
           className={cn(
+            "cursor-pointer",
             isCritical ? "bg-destructive/10 text-destructive border-destructive/30" :
             isLow ? "bg-amber-500/10 text-amber-600 border-amber-500/30" :
             "bg-primary/10 text-primary border-primary/30"
@@ -137,7 +155,9 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
         >
           <Zap className="w-3 h-3 mr-1" />
           {status.credits_remaining}/{status.limit}
+          {purchasedCredits > 0 && <span className="ml-1 opacity-75">+{purchasedCredits}</span>}
         </Badge>
+        {historyDialog}
       </div>
     );
   }
@@ -149,14 +169,18 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
           <Zap className="w-4 h-4" />
           Daily Credits
         </span>
-        <span className={cn(
-          "font-medium",
-          isCritical ? "text-destructive" :
-          isLow ? "text-amber-600" :
-          "text-foreground"
-        )}>
+        <button
+          type="button"
+          onClick={() => setHistoryOpen(true)}
+          className={cn(
+            "font-medium hover:underline",
+            isCritical ? "text-destructive" :
+            isLow ? "text-amber-600" :
+            "text-foreground"
+          )}
+        >
           {status.credits_remaining} / {status.limit} remaining
-        </span>
+        </button>
       </div>
       <Progress 
         value={100 - percentUsed} 
@@ -167,6 +191,12 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
           "[&>div]:bg-primary"
         )}
       />
+      {purchasedCredits > 0 && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground">
+          <Wallet className="w-3 h-3" />
+          {purchasedCredits} top-up credits, used after your daily allowance
+        </p>
+      )}
       {isLow && (
         <p className="text-xs text-muted-foreground">
           {isCritical 
@@ -175,6 +205,7 @@ export function CreditDisplay({ className, compact = false, refreshTrigger = 0 }
           }
         </p>
       )}
+      {historyDialog}
     </div>
   );
 }
@@ -0,0 +1,226 @@
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/hooks/useAuth';
+import { useCheckout } from '@/hooks/useCheckout';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Separator } from '@/components/ui/separator';
+import { Loader2, Zap, Wallet } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  CreditLedgerEntry,
+  CreditPack,
+  LEDGER_PAGE_SIZE,
+  describeEntry,
+  entryAmount,
+  fetchCreditPacks,
+  fetchLedgerPage,
+  fetchTodaysEntries,
+  summarizeSpending,
+} from '@/lib/creditLedger';
+
+interface CreditHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  creditsRemaining: number;
+  limit: number;
+  purchasedCredits: number;
+}
+
+/** Where the user's credits went: today's spend by operation and the full ledger */
+export function CreditHistoryDialog({
+  open,
+  onOpenChange,
+  creditsRemaining,
+  limit,
+  purchasedCredits,
+}: CreditHistoryDialogProps) {
+  const { user } = useAuth();
+  const { startCheckout, pendingItem } = useCheckout();
+  const [entries, setEntries] = useState<CreditLedgerEntry[]>([]);
+  const [todaysEntries, setTodaysEntries] = useState<CreditLedgerEntry[]>([]);
+  const [packs, setPacks] = useState<CreditPack[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+
+    const load = async () => {
+      setLoading(true);
+      try {
+        const [firstPage, today, activePacks] = await Promise.all([
+          fetchLedgerPage(user.id, 0),
+          fetchTodaysEntries(user.id),
+          fetchCreditPacks(),
+        ]);
+        setEntries(firstPage);
+        setTodaysEntries(today);
+        setPacks(activePacks);
+        setPage(0);
+        setHasMore(firstPage.length === LEDGER_PAGE_SIZE);
+      } catch (error) {
+        console.error('Error loading credit history:', error);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [open, user]);
+
+  const loadMore = async () => {
+    if (!user) return;
+    setLoading(true);
+    try {
+      const next = await fetchLedgerPage(user.id, page + 1);
+      setEntries(prev => [...prev, ...next]);
+      setPage(page + 1);
+      setHasMore(next.length === LEDGER_PAGE_SIZE);
+    } catch (error) {
+      console.error('Error loading credit history:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const spending = summarizeSpending(todaysEntries);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Zap className="w-5 h-5 text-primary" />
+            Credit History
+          </DialogTitle>
+          <DialogDescription>
+            Every credit used, refunded or added to your account.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="rounded-lg bg-muted/50 p-3">
+            <p className="text-xs text-muted-foreground">Daily allowance</p>
+            <p className="text-lg font-semibold">{creditsRemaining} / {limit}</p>
+          </div>
+          <div className="rounded-lg bg-muted/50 p-3">
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              <Wallet className="w-3 h-3" />
+              Purchased credits
+            </p>
+            <p className="text-lg font-semibold">{purchasedCredits}</p>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">Used today</h4>
+          {spending.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No credits used today.</p>
+          ) : (
+            spending.map(spend => (
+              <div key={spend.operationType} className="flex items-center justify-between text-sm">
+                <span>
+                  {spend.label}
+                  {spend.count > 1 && <span className="text-muted-foreground"> ×{spend.count}</span>}
+                </span>
+                <span className="font-medium">{spend.credits}</span>
+              </div>
+            ))
+          )}
+        </div>
+
+        <Separator />
+
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium">All activity</h4>
+          <ScrollArea className="h-64 pr-3">
+            {entries.length === 0 && !loading ? (
+              <p className="text-sm text-muted-foreground">No credit activity yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {entries.map(entry => (
+                  <LedgerRow key={entry.id} entry={entry} />
+                ))}
+                {hasMore && (
+                  <Button variant="ghost" size="sm" className="w-full" onClick={loadMore} disabled={loading}>
+                    Load more
+                  </Button>
+                )}
+              </div>
+            )}
+            {loading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+              </div>
+            )}
+          </ScrollArea>
+        </div>
+
+        {packs.length > 0 && (
+          <>
+            <Separator />
+            <div className="space-y-2">
+              <h4 className="text-sm font-medium">Credit top-ups</h4>
+              <p className="text-xs text-muted-foreground">
+                Top-up credits never expire and are only used once your daily allowance runs out.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {packs.map(pack => (
+                  <Button
+                    key={pack.id}
+                    variant="outline"
+                    size="sm"
+                    disabled={pendingItem !== null}
+                    onClick={() => startCheckout({ kind: 'credit_pack', packId: pack.id })}
+                  >
+                    {pendingItem === pack.id && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                    Buy {pack.credits} credits · {pack.currency === 'BDT' ? '৳' : `${pack.currency} `}{pack.price}
+                  </Button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function LedgerRow({ entry }: { entry: CreditLedgerEntry }) {
+  const amount = entryAmount(entry);
+  const isReset = entry.entry_type === 'reset';
+
+  return (
+    <div className="flex items-start justify-between gap-3 text-sm">
+      <div className="min-w-0">
+        <p className="truncate">{describeEntry(entry)}</p>
+        <p className="text-xs text-muted-foreground">
+          {format(new Date(entry.created_at), 'MMM d, HH:mm')}
+          {entry.reference_id && <span className="font-mono"> · {entry.reference_id.slice(0, 8)}</span>}
+        </p>
+      </div>
+      <div className="text-right shrink-0">
+        <p className={cn(
+          'font-medium',
+          isReset ? 'text-muted-foreground' : amount < 0 ? 'text-foreground' : 'text-emerald-600'
+        )}>
+          {isReset ? `${amount} restored` : amount > 0 ? `+${amount}` : amount}
+        </p>
+        {entry.purchased_credits !== 0 && (
+          <p className="text-xs text-muted-foreground">
+            {entry.daily_credits !== 0 ? `${Math.abs(entry.purchased_credits)} from top-up` : 'top-up balance'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
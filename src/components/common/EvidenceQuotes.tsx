@@ -0,0 +1,42 @@
+import { BookOpen, Headphones, Quote } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { EvidenceSpan, evidenceLocation } from '@/lib/answerEvidence';
+import { cn } from '@/lib/utils';
+
+interface EvidenceQuotesProps {
+  evidence: EvidenceSpan[];
+  module: 'reading' | 'listening';
+  /** Scroll the passage / transcript viewer to this span */
+  onShow?: (span: EvidenceSpan) => void;
+  className?: string;
+}
+
+/** The passage sentences or transcript lines an explanation relies on */
+export function EvidenceQuotes({ evidence, module, onShow, className }: EvidenceQuotesProps) {
+  if (evidence.length === 0) return null;
+
+  const ShowIcon = module === 'listening' ? Headphones : BookOpen;
+
+  return (
+    <div className={cn('space-y-2', className)}>
+      <div className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground">
+        <Quote size={12} />
+        Evidence from the {module === 'listening' ? 'recording' : 'passage'}
+      </div>
+      {evidence.map(span => (
+        <div key={span.id} className="border-l-2 border-amber-400 pl-3 py-1">
+          <p className="text-sm italic text-foreground/90">“{span.quote}”</p>
+          <div className="flex items-center gap-2 mt-1">
+            <span className="text-xs text-muted-foreground">{evidenceLocation(span, module)}</span>
+            {onShow && (
+              <Button variant="ghost" size="sm" className="h-6 px-2 gap-1 text-xs" onClick={() => onShow(span)}>
+                <ShowIcon size={12} />
+                Show in {module === 'listening' ? 'transcript' : 'passage'}
+              </Button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
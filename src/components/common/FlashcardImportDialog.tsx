@@ -0,0 +1,250 @@
+import { useState, useRef } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Loader2, Upload, FileSpreadsheet, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { toast } from '@/hooks/use-toast';
+import {
+  ImportPreviewRow,
+  ImportRowIssue,
+  buildImportPreview,
+  parseFlashcardFile,
+} from '@/lib/flashcardImportExport';
+
+interface FlashcardImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  deckId: string;
+  existingWords: string[];
+  onImported: () => void;
+}
+
+const ISSUE_LABELS: Record<ImportRowIssue, string> = {
+  duplicate_in_deck: 'Already in deck',
+  duplicate_in_file: 'Repeated in file',
+  missing_meaning: 'No meaning',
+  missing_word: 'No word',
+};
+
+const INSERT_BATCH_SIZE = 200;
+
+export function FlashcardImportDialog({ open, onOpenChange, deckId, existingWords, onImported }: FlashcardImportDialogProps) {
+  const { user } = useAuth();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState('');
+  const [preview, setPreview] = useState<ImportPreviewRow[]>([]);
+  const [parsing, setParsing] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+
+  const reset = () => {
+    setFileName('');
+    setPreview([]);
+    setParseError(null);
+    setIncludeDuplicates(false);
+    if (fileInputRef.current) fileInputRef.current.value = '';
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    if (!value) reset();
+    onOpenChange(value);
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!file) return;
+
+    setParsing(true);
+    setParseError(null);
+    setFileName(file.name);
+
+    try {
+      const rows = await parseFlashcardFile(file);
+      if (rows.length === 0) {
+        setParseError('No cards found in this file.');
+        setPreview([]);
+        return;
+      }
+      setPreview(buildImportPreview(rows, existingWords));
+    } catch (error) {
+      console.error('Error parsing flashcard file:', error);
+      setParseError(error instanceof Error ? error.message : 'Could not read this file.');
+      setPreview([]);
+    } finally {
+      setParsing(false);
+    }
+  };
+
+  const isImportable = (row: ImportPreviewRow) => {
+    if (row.issue === null) return true;
+    if (!includeDuplicates) return false;
+    return row.issue === 'duplicate_in_deck' || row.issue === 'duplicate_in_file';
+  };
+
+  const importableRows = preview.filter(isImportable);
+  const duplicateCount = preview.filter(r => r.issue === 'duplicate_in_deck' || r.issue === 'duplicate_in_file').length;
+  const invalidCount = preview.filter(r => r.issue === 'missing_word' || r.issue === 'missing_meaning').length;
+
+  const handleImport = async () => {
+    if (!user || importableRows.length === 0) return;
+
+    setImporting(true);
+    try {
+      const records = importableRows.map(row => ({
+        deck_id: deckId,
+        user_id: user.id,
+        word: row.word.trim(),
+        meaning: row.meaning.trim(),
+        example: row.example?.trim() || null,
+        translation: row.translation?.trim() || null,
+        status: 'learning',
+      }));
+
+      for (let i = 0; i < records.length; i += INSERT_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('flashcard_cards')
+          .insert(records.slice(i, i + INSERT_BATCH_SIZE));
+        if (error) throw error;
+      }
+
+      toast({ title: 'Import complete', description: `${records.length} cards added to this deck` });
+      onImported();
+      handleOpenChange(false);
+    } catch (error) {
+      console.error('Error importing flashcards:', error);
+      toast({ title: 'Import failed', description: 'Some cards may not have been added', variant: 'destructive' });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Import Flashcards</DialogTitle>
+          <DialogDescription>
+            CSV or TSV with word, meaning, example and translation columns, or an Anki package (.apkg).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tsv,.txt,.apkg"
+            className="hidden"
+            onChange={(e) => handleFileSelected(e.target.files?.[0])}
+          />
+          <Button
+            variant="outline"
+            className="w-full gap-2 h-20 border-dashed"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={parsing || importing}
+          >
+            {parsing ? (
+              <Loader2 size={18} className="animate-spin" />
+            ) : fileName ? (
+              <FileSpreadsheet size={18} />
+            ) : (
+              <Upload size={18} />
+            )}
+            {parsing ? 'Reading file...' : fileName || 'Choose a file'}
+          </Button>
+
+          {parseError && (
+            <div className="flex items-start gap-2 text-sm text-destructive">
+              <AlertTriangle size={16} className="mt-0.5 shrink-0" />
+              <span>{parseError}</span>
+            </div>
+          )}
+
+          {preview.length > 0 && (
+            <>
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant="secondary">{preview.length} rows</Badge>
+                <Badge variant="outline" className="border-emerald-500 text-emerald-600">
+                  {importableRows.length} to import
+                </Badge>
+                {duplicateCount > 0 && (
+                  <Badge variant="outline" className="border-amber-500 text-amber-600">
+                    {duplicateCount} duplicates
+                  </Badge>
+                )}
+                {invalidCount > 0 && (
+                  <Badge variant="outline" className="border-rose-500 text-rose-600">
+                    {invalidCount} incomplete
+                  </Badge>
+                )}
+              </div>
+
+              {duplicateCount > 0 && (
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="include-duplicates"
+                    checked={includeDuplicates}
+                    onCheckedChange={setIncludeDuplicates}
+                  />
+                  <Label htmlFor="include-duplicates" className="text-sm">Import duplicates anyway</Label>
+                </div>
+              )}
+
+              <ScrollArea className="h-72 rounded-md border">
+                <div className="divide-y">
+                  {preview.map((row) => (
+                    <div
+                      key={row.line}
+                      className={cn(
+                        "flex items-start justify-between gap-3 px-3 py-2 text-sm",
+                        !isImportable(row) && "opacity-50"
+                      )}
+                    >
+                      <div className="min-w-0 flex-1">
+                        <p className="font-medium truncate">{row.word || '—'}</p>
+                        <p className="text-muted-foreground truncate">{row.meaning || '—'}</p>
+                        {row.example && (
+                          <p className="text-xs text-muted-foreground italic truncate">"{row.example}"</p>
+                        )}
+                      </div>
+                      {row.issue && (
+                        <Badge
+                          variant="outline"
+                          className={cn(
+                            "text-[10px] shrink-0",
+                            row.issue.startsWith('duplicate') ? "border-amber-500 text-amber-600" : "border-rose-500 text-rose-600"
+                          )}
+                        >
+                          {ISSUE_LABELS[row.issue]}
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            </>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleImport} disabled={importing || importableRows.length === 0}>
+            {importing ? (
+              <>
+                <Loader2 size={14} className="animate-spin mr-2" />
+                Importing...
+              </>
+            ) : (
+              `Import ${importableRows.length} Cards`
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
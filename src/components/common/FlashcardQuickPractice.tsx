@@ -6,8 +6,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Check, X, Brain, Layers } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { endOfDay, ReviewGrade, scheduleReview, SchedulingState } from '@/lib/spacedRepetition';
 
-interface Flashcard {
+interface Flashcard extends SchedulingState {
   id: string;
   word: string;
   meaning: string;
@@ -28,7 +29,7 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
   const [loading, setLoading] = useState(true);
   const [sessionStats, setSessionStats] = useState({ correct: 0, incorrect: 0 });
 
-  // Load user's flashcards that need review (learning and reviewing status)
+  // Load user's flashcards that are due for review today
   useEffect(() => {
     const loadCards = async () => {
       if (!user) {
@@ -39,10 +40,10 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
       try {
         const { data, error } = await supabase
           .from('flashcard_cards')
-          .select('id, word, meaning, status, review_count, correct_count')
+          .select('id, word, meaning, status, review_count, correct_count, ease_factor, interval_days, repetitions, lapses, next_review_at')
           .eq('user_id', user.id)
-          .in('status', ['learning', 'reviewing'])
-          .order('correct_count', { ascending: true })
+          .or(`next_review_at.is.null,next_review_at.lte.${endOfDay().toISOString()}`)
+          .order('next_review_at', { ascending: true, nullsFirst: false })
           .limit(20);
 
         if (error) throw error;
@@ -67,7 +68,7 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
 
   const handleResponse = useCallback(async (knewIt: boolean) => {
     const currentCard = cards[currentIndex];
-    if (!currentCard) return;
+    if (!currentCard || !user) return;
 
     // Update session stats
     setSessionStats(prev => ({
@@ -75,37 +76,43 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
       incorrect: prev.incorrect + (knewIt ? 0 : 1),
     }));
 
-    // Update card in database
-    let newStatus: 'learning' | 'reviewing' | 'mastered' = currentCard.status;
+    // Update card in database - quick practice maps the two buttons onto
+    // the scheduler's "again" and "good" grades
+    const grade: ReviewGrade = knewIt ? 'good' : 'again';
+    const schedule = scheduleReview(currentCard, grade);
     const newReviewCount = currentCard.review_count + 1;
     const newCorrectCount = knewIt ? currentCard.correct_count + 1 : currentCard.correct_count;
 
-    if (knewIt) {
-      if (currentCard.status === 'learning') {
-        newStatus = 'reviewing';
-      } else if (currentCard.status === 'reviewing' && newCorrectCount >= 3) {
-        newStatus = 'mastered';
-      }
-    } else {
-      if (currentCard.status === 'mastered' || currentCard.status === 'reviewing') {
-        newStatus = 'learning';
-      }
-    }
-
     try {
-      await supabase
+      const { error } = await supabase
         .from('flashcard_cards')
         .update({
-          status: newStatus,
+          ...schedule,
           review_count: newReviewCount,
           correct_count: newCorrectCount,
         })
         .eq('id', currentCard.id);
 
+      if (error) throw error;
+
+      // Logged like a review on the Flashcards page, so history and stats include it
+      supabase
+        .from('flashcard_reviews')
+        .insert({
+          card_id: currentCard.id,
+          user_id: user.id,
+          grade,
+          interval_days: schedule.interval_days,
+          ease_factor: schedule.ease_factor,
+        })
+        .then(({ error: logError }) => {
+          if (logError) console.error('Error logging flashcard review:', logError);
+        });
+
       // Update local state
       setCards(prev => prev.map(c => 
         c.id === currentCard.id 
-          ? { ...c, status: newStatus, review_count: newReviewCount, correct_count: newCorrectCount }
+          ? { ...c, ...schedule, review_count: newReviewCount, correct_count: newCorrectCount }
           : c
       ));
     } catch (err) {
@@ -122,7 +129,7 @@ export function FlashcardQuickPractice({ className }: FlashcardQuickPracticeProp
       setCurrentIndex(0);
       setIsFlipped(false);
     }
-  }, [cards, currentIndex]);
+  }, [cards, currentIndex, user]);
 
   // If no cards or still loading, return null (parent will show tips instead)
   if (loading || cards.length === 0) {
@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  AlertDialog,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { CloudUpload, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useNetworkStatus } from '@/hooks/useNetworkStatus';
+import { OfflineAttempt } from '@/lib/offlineStore';
+import { getConflictedAttempts, resolveConflict, syncPendingAttempts } from '@/lib/offlineTests';
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+/**
+ * Background sync for test attempts submitted while offline. Runs on sign-in
+ * and whenever the connection comes back, and asks the user what to do when
+ * the same test was also submitted from another device.
+ */
+export function OfflineSyncManager() {
+  const { user } = useAuth();
+  const { isOnline } = useNetworkStatus();
+  const [conflicts, setConflicts] = useState<OfflineAttempt[]>([]);
+  const [resolving, setResolving] = useState<'keep' | 'discard' | null>(null);
+  const isSyncingRef = useRef(false);
+
+  const runSync = useCallback(async () => {
+    if (!user || isSyncingRef.current) return;
+    isSyncingRef.current = true;
+    try {
+      const { synced, failed } = await syncPendingAttempts();
+      if (synced.length > 0) {
+        toast.success(`Submitted ${synced.length} offline test${synced.length > 1 ? 's' : ''}`, {
+          description: synced.map(a => a.testTitle).join(', '),
+          id: 'offline-sync',
+        });
+      }
+      if (failed > 0) {
+        toast.error('Some offline answers could not be submitted yet', {
+          description: 'They are still saved on this device and will be retried.',
+          id: 'offline-sync-error',
+        });
+      }
+      setConflicts(await getConflictedAttempts());
+    } catch (error) {
+      console.error('Error syncing offline attempts:', error);
+    } finally {
+      isSyncingRef.current = false;
+    }
+  }, [user]);
+
+  // Runs on sign-in and again each time the connection comes back
+  useEffect(() => {
+    if (isOnline) runSync();
+  }, [isOnline, runSync]);
+
+  const current = conflicts[0];
+
+  const handleResolve = async (choice: 'keep' | 'discard') => {
+    if (!current) return;
+    setResolving(choice);
+    try {
+      await resolveConflict(current, choice);
+      toast.success(choice === 'keep' ? 'Offline attempt submitted' : 'Offline attempt discarded');
+      setConflicts(prev => prev.slice(1));
+    } catch (error) {
+      console.error('Error resolving offline conflict:', error);
+      toast.error('Could not resolve the conflict', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  if (!current?.conflict || !current.submission) return null;
+
+  return (
+    <AlertDialog open>
+      <AlertDialogContent className="max-w-md">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="flex items-center gap-2">
+            <CloudUpload className="h-5 w-5 text-primary" />
+            Test Submitted Elsewhere
+          </AlertDialogTitle>
+          <AlertDialogDescription className="space-y-3">
+            <p>
+              While you were offline, <strong>{current.testTitle}</strong> was also submitted from another device.
+              Which attempt do you want to keep?
+            </p>
+            <div className="bg-muted/50 rounded-lg p-4 space-y-2 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Other device ({formatDate(current.conflict.completedAt)}):</span>
+                <span className="font-medium">{current.conflict.score} / {current.conflict.totalQuestions}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">This device ({formatDate(current.submission.completedAt)}):</span>
+                <span className="font-medium">{current.submission.score} / {current.submission.totalQuestions}</span>
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Keeping this attempt adds it to your history next to the other one.
+            </p>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <Button variant="outline" disabled={!!resolving} onClick={() => handleResolve('discard')}>
+            {resolving === 'discard' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Discard This Attempt
+          </Button>
+          <Button disabled={!!resolving || !isOnline} onClick={() => handleResolve('keep')}>
+            {resolving === 'keep' && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Keep Both
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
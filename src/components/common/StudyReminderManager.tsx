@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '@/hooks/useAuth';
+import { useBrowserNotifications } from '@/hooks/useBrowserNotifications';
+import { goalLabel, goalStatus, loadExamProfile, reminderDelay, syncExamSchedule } from '@/lib/examPlanner';
+import { toDateKey } from '@/lib/studyPlan';
+
+/** Fired by the exam planner after the reminder time changes */
+export const STUDY_REMINDER_CHANGED_EVENT = 'study-reminder-changed';
+
+const LAST_REMINDER_KEY = 'ieltsai_study_reminder_shown';
+
+/**
+ * Daily study reminder for the exam planner. At the learner's reminder time
+ * (or on opening the app later that day) it shows a browser notification with
+ * what is left of today's goal, at most once a day and only when the goal is
+ * not met yet.
+ */
+export function StudyReminderManager() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { permission, showNotification } = useBrowserNotifications();
+  const [reminderTime, setReminderTime] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    const reload = () => setVersion(v => v + 1);
+    window.addEventListener(STUDY_REMINDER_CHANGED_EVENT, reload);
+    return () => window.removeEventListener(STUDY_REMINDER_CHANGED_EVENT, reload);
+  }, []);
+
+  useEffect(() => {
+    if (!user) {
+      setReminderTime(null);
+      return;
+    }
+    loadExamProfile(user.id)
+      .then(profile => setReminderTime(profile.examDate ? profile.reminderTime : null))
+      .catch(error => console.error('Error loading study reminder:', error));
+  }, [user, version]);
+
+  const remind = useCallback(async () => {
+    if (!user || permission !== 'granted') return;
+    const today = toDateKey(new Date());
+    if (localStorage.getItem(LAST_REMINDER_KEY) === today) return;
+
+    try {
+      const profile = await loadExamProfile(user.id);
+      const { schedule, progress } = await syncExamSchedule(user.id, profile);
+      const goal = schedule?.days.find(d => d.date === today);
+      if (!goal) return;
+      const status = goalStatus(goal, progress.get(today));
+      if (status.met || status.rest) return;
+
+      localStorage.setItem(LAST_REMINDER_KEY, today);
+      showNotification({
+        title: '📚 Time to study',
+        body: `Still to do today: ${goalLabel(status.remaining, status.flashcardsLeft)}`,
+        tag: 'study-reminder',
+        onClick: () => navigate('/analytics'),
+      });
+    } catch (error) {
+      console.error('Error sending study reminder:', error);
+    }
+  }, [user, permission, showNotification, navigate]);
+
+  useEffect(() => {
+    if (!reminderTime) return;
+    // Past the reminder time already: remind now rather than tomorrow
+    const timer = window.setTimeout(remind, Math.max(0, reminderDelay(reminderTime)));
+    return () => window.clearTimeout(timer);
+  }, [reminderTime, remind]);
+
+  return null;
+}
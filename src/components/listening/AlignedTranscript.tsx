@@ -0,0 +1,212 @@
+import { Fragment, useEffect, useRef, useState } from 'react';
+import { Loader2, Repeat, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { formatTimestamp } from '@/lib/answerEvidence';
+import { findTimedIndex } from '@/lib/transcriptAlignment';
+import { AlignmentSource, useTranscriptAlignment } from '@/hooks/useTranscriptAlignment';
+
+interface AlignedTranscriptProps {
+  transcript: string;
+  audioUrl: string;
+  source?: AlignmentSource | null;
+  className?: string;
+}
+
+const PLAYBACK_RATES = [0.75, 1];
+
+/**
+ * Review-mode transcript that follows the audio: the sentence being played is
+ * highlighted word by word, clicking a sentence replays it, and a sentence can
+ * be looped for dictation practice.
+ */
+export function AlignedTranscript({ transcript, audioUrl, source, className }: AlignedTranscriptProps) {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const sentenceRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [duration, setDuration] = useState<number | null>(null);
+  const [active, setActive] = useState({ sentence: -1, word: -1 });
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [loopIndex, setLoopIndex] = useState<number | null>(null);
+  const [rate, setRate] = useState(1);
+  const loopRef = useRef<number | null>(null);
+  loopRef.current = loopIndex;
+
+  const { alignment, loading } = useTranscriptAlignment({ transcript, audioUrl, source, duration });
+
+  // Follow playback every frame; re-render only when the word changes
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !alignment) return;
+    let frame = 0;
+
+    const tick = () => {
+      const loop = loopRef.current !== null ? alignment.sentences[loopRef.current] : undefined;
+      if (loop && (audio.currentTime >= loop.end || audio.currentTime < loop.start - 0.25)) {
+        audio.currentTime = loop.start;
+      }
+      const sentence = findTimedIndex(alignment.sentences, audio.currentTime);
+      const word = sentence >= 0 ? findTimedIndex(alignment.sentences[sentence].words, audio.currentTime) : -1;
+      setActive(prev => (prev.sentence === sentence && prev.word === word ? prev : { sentence, word }));
+      if (!audio.paused) frame = requestAnimationFrame(tick);
+    };
+    const handlePlay = () => {
+      setIsPlaying(true);
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const handlePause = () => setIsPlaying(false);
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    audio.addEventListener('seeked', tick);
+    if (!audio.paused) handlePlay();
+
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+      audio.removeEventListener('seeked', tick);
+    };
+  }, [alignment]);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  // Keep the sentence being played in view
+  useEffect(() => {
+    if (!isPlaying || active.sentence < 0) return;
+    sentenceRefs.current[active.sentence]?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [active.sentence, isPlaying]);
+
+  const playSentence = (index: number) => {
+    const audio = audioRef.current;
+    const sentence = alignment?.sentences[index];
+    if (!audio || !sentence) return;
+    audio.currentTime = sentence.start;
+    audio.play().catch(error => console.error('Error playing audio:', error));
+  };
+
+  const handleSentenceClick = (index: number) => {
+    // Selecting words (e.g. for a flashcard) should not jump the audio
+    if (window.getSelection()?.toString().trim()) return;
+    playSentence(index);
+  };
+
+  const toggleLoop = (index: number) => {
+    if (loopIndex === index) {
+      setLoopIndex(null);
+      return;
+    }
+    setLoopIndex(index);
+    playSentence(index);
+  };
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        controls
+        preload="metadata"
+        className="w-full"
+        onLoadedMetadata={e => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : null)}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        {loading ? (
+          <span className="flex items-center gap-1">
+            <Loader2 size={12} className="animate-spin" />
+            Syncing transcript with the audio...
+          </span>
+        ) : alignment?.method === 'proportional' ? (
+          <Badge variant="outline" className="text-xs">Estimated timing</Badge>
+        ) : null}
+        {loopIndex !== null && (
+          <Badge variant="secondary" className="gap-1 text-xs">
+            <Repeat size={12} />
+            Looping sentence {loopIndex + 1}
+            <button type="button" onClick={() => setLoopIndex(null)} aria-label="Stop looping">
+              <X size={12} />
+            </button>
+          </Badge>
+        )}
+        <div className="ml-auto flex gap-1">
+          {PLAYBACK_RATES.map(value => (
+            <Button
+              key={value}
+              variant={rate === value ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={() => setRate(value)}
+            >
+              {value}x
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {!alignment ? (
+        loading ? null : (
+          <p className="text-sm text-muted-foreground text-center py-6">Loading the audio...</p>
+        )
+      ) : (
+        <div className="space-y-1">
+          {alignment.sentences.map((sentence, i) => {
+            const isActive = i === active.sentence;
+            const showSpeaker = sentence.speaker && sentence.speaker !== alignment.sentences[i - 1]?.speaker;
+            return (
+              <Fragment key={i}>
+                {showSpeaker && (
+                  <p className="text-xs font-medium text-muted-foreground pt-2 pl-12">{sentence.speaker}</p>
+                )}
+                <div
+                  ref={el => (sentenceRefs.current[i] = el)}
+                  onClick={() => handleSentenceClick(i)}
+                  className={cn(
+                    'group flex items-start gap-2 rounded-md px-2 py-1 cursor-pointer transition-colors hover:bg-muted/50',
+                    isActive && 'bg-primary/10 hover:bg-primary/10',
+                    loopIndex === i && 'ring-1 ring-primary/50'
+                  )}
+                >
+                  <span className="w-10 shrink-0 pt-0.5 text-xs tabular-nums text-muted-foreground">
+                    {formatTimestamp(sentence.start)}
+                  </span>
+                  <p className="flex-1 text-sm leading-relaxed">
+                    {sentence.words.map((word, w) => (
+                      <span
+                        key={w}
+                        className={cn(
+                          'transition-colors',
+                          isActive && w < active.word && 'text-primary',
+                          isActive && w === active.word && 'text-primary font-semibold underline decoration-primary/40 underline-offset-4'
+                        )}
+                      >
+                        {word.text}{' '}
+                      </span>
+                    ))}
+                  </p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className={cn('h-6 w-6 shrink-0 opacity-0 group-hover:opacity-100', loopIndex === i && 'opacity-100 text-primary')}
+                    onClick={e => {
+                      e.stopPropagation();
+                      toggleLoop(i);
+                    }}
+                    title={loopIndex === i ? 'Stop looping' : 'Loop this sentence'}
+                  >
+                    <Repeat size={14} />
+                  </Button>
+                </div>
+              </Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AlignedTranscript;
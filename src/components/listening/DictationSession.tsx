@@ -0,0 +1,475 @@
+import { Fragment, KeyboardEvent, useEffect, useMemo, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowRight, Check, Layers, Loader2, Play, RotateCcw, Volume2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Textarea } from '@/components/ui/textarea';
+import { cn } from '@/lib/utils';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { AlignmentSource, useTranscriptAlignment } from '@/hooks/useTranscriptAlignment';
+import {
+  DictationMode,
+  DictationToken,
+  chooseGaps,
+  misheardWords,
+  scoreDictation,
+  scoreGaps,
+  summarizeDictation,
+} from '@/lib/dictation';
+
+interface DictationSessionProps {
+  transcript: string;
+  audioUrl: string;
+  source?: AlignmentSource | null;
+  className?: string;
+}
+
+const DICTATION_DECK = 'Dictation';
+/** Sentences shorter than this ("Yes.", "Right, OK.") are skipped */
+const MIN_SEGMENT_WORDS = 3;
+/** Seconds played past a sentence's end so its last word is not cut off */
+const SEGMENT_TAIL = 0.3;
+const PLAYBACK_RATES = [0.75, 1];
+
+/** One marked token of a checked answer */
+function TokenMark({ token }: { token: DictationToken }) {
+  if (token.given) return <span className="text-muted-foreground">{token.expected} </span>;
+  if (token.status === 'correct') {
+    return <span className="text-green-700 dark:text-green-400 font-medium">{token.expected} </span>;
+  }
+  if (token.status === 'extra') {
+    return <span className="text-muted-foreground line-through">{token.typed} </span>;
+  }
+  return (
+    <span className="inline-flex items-baseline gap-1 mr-1">
+      {token.typed && <span className="text-destructive line-through">{token.typed}</span>}
+      <span
+        className={cn(
+          'font-medium underline decoration-2 underline-offset-4',
+          token.status === 'missing' ? 'text-amber-700 dark:text-amber-400 decoration-dotted' : 'text-destructive'
+        )}
+      >
+        {token.expected}
+      </span>
+    </span>
+  );
+}
+
+/**
+ * Dictation practice on a listening transcript: each sentence is played on its
+ * own and the student types it (or only the gapped words), then sees it marked
+ * word by word. Misheard words go to the student's "Dictation" flashcard deck.
+ */
+export function DictationSession({ transcript, audioUrl, source, className }: DictationSessionProps) {
+  const { user } = useAuth();
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const stopAtRef = useRef<number | null>(null);
+  const deckRef = useRef<Promise<string> | null>(null);
+
+  const [duration, setDuration] = useState<number | null>(null);
+  const [mode, setMode] = useState<DictationMode>('dictation');
+  const [queue, setQueue] = useState<number[] | null>(null);
+  const [step, setStep] = useState(0);
+  const [answer, setAnswer] = useState('');
+  const [gapAnswers, setGapAnswers] = useState<string[]>([]);
+  const [results, setResults] = useState<Record<number, DictationToken[]>>({});
+  const [plays, setPlays] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [savedWords, setSavedWords] = useState<string[]>([]);
+
+  const { alignment, loading } = useTranscriptAlignment({ transcript, audioUrl, source, duration });
+
+  const segments = useMemo(
+    () => (alignment?.sentences ?? []).filter(sentence => sentence.words.length >= MIN_SEGMENT_WORDS),
+    [alignment]
+  );
+  const order = queue ?? segments.map((_, i) => i);
+  const position = order[step];
+  const segment = position !== undefined ? segments[position] : undefined;
+  const segmentWords = useMemo(() => segment?.words.map(word => word.text) ?? [], [segment]);
+  const gaps = useMemo(() => chooseGaps(segmentWords), [segmentWords]);
+  const result = position !== undefined ? results[position] : undefined;
+  const finished = segments.length > 0 && step >= order.length;
+  const summary = useMemo(() => summarizeDictation(Object.values(results)), [results]);
+
+  // Stop at the end of the sentence being played
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    let frame = 0;
+
+    const tick = () => {
+      if (stopAtRef.current !== null && audio.currentTime >= stopAtRef.current) {
+        audio.pause();
+        stopAtRef.current = null;
+        return;
+      }
+      if (!audio.paused) frame = requestAnimationFrame(tick);
+    };
+    const handlePlay = () => {
+      setIsPlaying(true);
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const handlePause = () => setIsPlaying(false);
+
+    audio.addEventListener('play', handlePlay);
+    audio.addEventListener('pause', handlePause);
+    return () => {
+      cancelAnimationFrame(frame);
+      audio.removeEventListener('play', handlePlay);
+      audio.removeEventListener('pause', handlePause);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (audioRef.current) audioRef.current.playbackRate = rate;
+  }, [rate]);
+
+  const playSegment = () => {
+    const audio = audioRef.current;
+    if (!audio || !segment) return;
+    audio.currentTime = segment.start;
+    stopAtRef.current = Math.min(segment.end + SEGMENT_TAIL, duration ?? Infinity);
+    setPlays(prev => prev + 1);
+    audio.play().catch(error => console.error('Error playing audio:', error));
+  };
+
+  // Ctrl + Space replays the sentence without leaving the answer box
+  useEffect(() => {
+    const handleKeyDown = (e: globalThis.KeyboardEvent) => {
+      if (e.ctrlKey && e.code === 'Space') {
+        e.preventDefault();
+        playSegment();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const getDeckId = (userId: string) => {
+    if (!deckRef.current) {
+      deckRef.current = (async () => {
+        const { data: decks, error } = await supabase
+          .from('flashcard_decks')
+          .select('id')
+          .eq('user_id', userId)
+          .eq('name', DICTATION_DECK)
+          .limit(1);
+        if (error) throw error;
+        if (decks?.[0]) return decks[0].id;
+
+        const { data: deck, error: createError } = await supabase
+          .from('flashcard_decks')
+          .insert({ user_id: userId, name: DICTATION_DECK, description: 'Words misheard in dictation practice' })
+          .select('id')
+          .single();
+        if (createError) throw createError;
+        return deck.id;
+      })();
+      // Let the next misheard word try again after a failure
+      deckRef.current.catch(() => {
+        deckRef.current = null;
+      });
+    }
+    return deckRef.current;
+  };
+
+  const logMisheardWords = async (words: string[], sentence: string) => {
+    if (!user || words.length === 0) return;
+    try {
+      const deckId = await getDeckId(user.id);
+      const { data: existing } = await supabase
+        .from('flashcard_cards')
+        .select('word')
+        .eq('deck_id', deckId);
+      const known = new Set((existing ?? []).map(card => card.word.toLowerCase()));
+      const fresh = words.filter(word => !known.has(word.toLowerCase()));
+      if (fresh.length === 0) return;
+
+      const translations = await Promise.all(
+        fresh.map(async word => {
+          try {
+            const response = await supabase.functions.invoke('translate-word', {
+              body: { word, targetLanguage: 'bn' },
+            });
+            return (response.data?.translation as string | undefined) || null;
+          } catch (error) {
+            console.error(`Translation error for "${word}":`, error);
+            return null;
+          }
+        })
+      );
+
+      const { error } = await supabase.from('flashcard_cards').insert(
+        fresh.map((word, i) => ({
+          user_id: user.id,
+          deck_id: deckId,
+          word,
+          meaning: translations[i] || 'Translation pending',
+          translation: translations[i],
+          example: sentence,
+          status: 'learning',
+        }))
+      );
+      if (error) throw error;
+      setSavedWords(prev => [...prev, ...fresh.filter(word => !prev.includes(word))]);
+    } catch (error) {
+      console.error('Error saving misheard words:', error);
+    }
+  };
+
+  const checkAnswer = () => {
+    if (!segment || position === undefined || result) return;
+    const tokens = mode === 'dictation'
+      ? scoreDictation(segment.text, answer)
+      : scoreGaps(segmentWords, gaps, gapAnswers);
+    setResults(prev => ({ ...prev, [position]: tokens }));
+    logMisheardWords(misheardWords(tokens), segment.text);
+  };
+
+  const goTo = (nextStep: number, nextQueue = queue) => {
+    audioRef.current?.pause();
+    setQueue(nextQueue);
+    setStep(nextStep);
+    setAnswer('');
+    setGapAnswers([]);
+    setPlays(0);
+  };
+
+  const retrySentence = () => {
+    if (position === undefined) return;
+    setResults(prev => {
+      const next = { ...prev };
+      delete next[position];
+      return next;
+    });
+    setAnswer('');
+    setGapAnswers([]);
+  };
+
+  const retryMistakes = () => {
+    const missed = order.filter(i => results[i]?.some(token => token.status !== 'correct'));
+    setResults(prev => Object.fromEntries(Object.entries(prev).filter(([i]) => !missed.includes(Number(i)))));
+    goTo(0, missed);
+  };
+
+  const restart = () => {
+    setResults({});
+    goTo(0, null);
+  };
+
+  const changeMode = (value: string) => {
+    setMode(value as DictationMode);
+    restart();
+  };
+
+  const handleAnswerKeyDown = (e: KeyboardEvent<HTMLElement>) => {
+    if (e.key !== 'Enter' || e.shiftKey) return;
+    e.preventDefault();
+    if (result) goTo(step + 1);
+    else checkAnswer();
+  };
+
+  const answered = order.filter(i => results[i]).length;
+
+  return (
+    <Card className={className}>
+      <CardHeader className="pb-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="text-base flex items-center gap-2">
+            <Volume2 className="w-5 h-5 text-primary" />
+            {segments.length > 0 && !finished
+              ? `Sentence ${step + 1} of ${order.length}`
+              : 'Dictation'}
+          </CardTitle>
+          <Tabs value={mode} onValueChange={changeMode}>
+            <TabsList>
+              <TabsTrigger value="dictation">Full sentence</TabsTrigger>
+              <TabsTrigger value="gaps">Fill the gaps</TabsTrigger>
+            </TabsList>
+          </Tabs>
+        </div>
+        {segments.length > 0 && <Progress value={(answered / order.length) * 100} className="h-1.5 mt-3" />}
+      </CardHeader>
+
+      <CardContent className="space-y-5">
+        <audio
+          ref={audioRef}
+          src={audioUrl}
+          preload="metadata"
+          onLoadedMetadata={e => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : null)}
+        />
+
+        {segments.length === 0 ? (
+          <div className="flex flex-col items-center gap-2 py-10 text-sm text-muted-foreground">
+            {loading || !alignment ? (
+              <>
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                Cutting the audio into sentences...
+              </>
+            ) : (
+              'This transcript has no sentences long enough for dictation.'
+            )}
+          </div>
+        ) : finished ? (
+          <div className="space-y-5">
+            <div className="grid grid-cols-3 gap-3 text-center">
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{summary.accuracy}%</p>
+                <p className="text-xs text-muted-foreground">Words right</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">
+                  {summary.numbers.correct}/{summary.numbers.total}
+                </p>
+                <p className="text-xs text-muted-foreground">Numbers & dates</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{summary.spellingSlips}</p>
+                <p className="text-xs text-muted-foreground">Spelling slips</p>
+              </div>
+            </div>
+
+            {savedWords.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-sm font-medium flex items-center gap-2">
+                  <Layers className="w-4 h-4 text-primary" />
+                  Added to your {DICTATION_DECK} flashcards
+                </p>
+                <div className="flex flex-wrap gap-1.5">
+                  {savedWords.map(word => (
+                    <Badge key={word} variant="secondary">{word}</Badge>
+                  ))}
+                </div>
+                <Link to="/flashcards" className="text-sm text-primary hover:underline">
+                  Review them now
+                </Link>
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {order.some(i => results[i]?.some(token => token.status !== 'correct')) && (
+                <Button onClick={retryMistakes} className="gap-2">
+                  <RotateCcw className="w-4 h-4" />
+                  Retry sentences with mistakes
+                </Button>
+              )}
+              <Button variant="outline" onClick={restart}>
+                Start again
+              </Button>
+            </div>
+          </div>
+        ) : (
+          segment && (
+            <>
+              <div className="flex flex-wrap items-center gap-2">
+                <Button onClick={playSegment} disabled={isPlaying} className="gap-2">
+                  <Play className="w-4 h-4" />
+                  {plays === 0 ? 'Play sentence' : 'Play again'}
+                </Button>
+                {plays > 1 && <span className="text-xs text-muted-foreground">Played {plays} times</span>}
+                <span className="hidden sm:inline text-xs text-muted-foreground">Ctrl + Space to replay</span>
+                <div className="ml-auto flex gap-1">
+                  {PLAYBACK_RATES.map(value => (
+                    <Button
+                      key={value}
+                      variant={rate === value ? 'secondary' : 'ghost'}
+                      size="sm"
+                      className="h-7 px-2 text-xs"
+                      onClick={() => setRate(value)}
+                    >
+                      {value}x
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
+              {result ? (
+                <p className="text-base leading-loose rounded-lg border bg-muted/30 p-4">
+                  {result.map((token, i) => (
+                    <TokenMark key={i} token={token} />
+                  ))}
+                </p>
+              ) : mode === 'dictation' ? (
+                <Textarea
+                  autoFocus
+                  value={answer}
+                  onChange={e => setAnswer(e.target.value)}
+                  onKeyDown={handleAnswerKeyDown}
+                  placeholder="Type what you hear, then press Enter"
+                  className="min-h-[90px] text-base"
+                  spellCheck={false}
+                  autoComplete="off"
+                />
+              ) : (
+                <p className="text-base leading-loose rounded-lg border p-4">
+                  {segmentWords.map((word, i) => {
+                    const gap = gaps.indexOf(i);
+                    if (gap < 0) return <Fragment key={i}>{word} </Fragment>;
+                    return (
+                      <Fragment key={i}>
+                        <Input
+                          autoFocus={gap === 0}
+                          value={gapAnswers[gap] ?? ''}
+                          onChange={e =>
+                            setGapAnswers(prev => {
+                              const next = [...prev];
+                              next[gap] = e.target.value;
+                              return next;
+                            })
+                          }
+                          onKeyDown={handleAnswerKeyDown}
+                          aria-label={`Gap ${gap + 1}`}
+                          className="inline-flex h-8 px-2 py-0 text-base align-baseline"
+                          style={{ width: `${Math.max(word.length, 4) + 3}ch` }}
+                          spellCheck={false}
+                          autoComplete="off"
+                        />{' '}
+                      </Fragment>
+                    );
+                  })}
+                </p>
+              )}
+
+              <div className="flex flex-wrap items-center gap-2">
+                {result ? (
+                  <>
+                    <Button autoFocus onClick={() => goTo(step + 1)} className="gap-2">
+                      {step + 1 < order.length ? 'Next sentence' : 'See results'}
+                      <ArrowRight className="w-4 h-4" />
+                    </Button>
+                    <Button variant="ghost" onClick={retrySentence} className="gap-2">
+                      <RotateCcw className="w-4 h-4" />
+                      Try again
+                    </Button>
+                  </>
+                ) : (
+                  <Button onClick={checkAnswer} disabled={plays === 0} className="gap-2">
+                    <Check className="w-4 h-4" />
+                    Check
+                  </Button>
+                )}
+                <span className="ml-auto text-xs text-muted-foreground">
+                  {answered > 0 && `${summary.accuracy}% of words right so far`}
+                </span>
+              </div>
+
+              {!user && (
+                <p className="text-xs text-muted-foreground">Sign in to save misheard words to your flashcards.</p>
+              )}
+            </>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+export default DictationSession;
@@ -1,13 +1,16 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { FileText, ChevronDown, ChevronUp, User, Users, BookOpen } from 'lucide-react';
+import { FileText, ChevronDown, ChevronUp, User, Users, BookOpen, Clock, AudioLines } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
+import { EvidenceSpan, evidenceMatches, evidenceQuotePattern, formatTimestamp } from '@/lib/answerEvidence';
+import { AlignmentSourceType } from '@/hooks/useTranscriptAlignment';
+import { AlignedTranscript } from './AlignedTranscript';
 
 interface TranscriptLine {
   speaker: string;
@@ -24,6 +27,33 @@ interface TranscriptViewerProps {
   };
   defaultExpanded?: boolean;
   className?: string;
+  /** Answer evidence to highlight; changing focusKey opens its part and scrolls to it again */
+  evidence?: EvidenceSpan[];
+  focusKey?: string | number;
+  /** Per-part audio; parts with audio get a "Play along" mode */
+  audioUrls?: {
+    part1?: string | null;
+    part2?: string | null;
+    part3?: string | null;
+    part4?: string | null;
+  };
+  /** Where the transcripts are stored, so their audio alignment can be loaded */
+  alignmentSource?: { type: AlignmentSourceType; id: string };
+}
+
+const NO_EVIDENCE: EvidenceSpan[] = [];
+
+/** The line's text with the first occurrence of the quote marked */
+function EvidenceText({ text, quote }: { text: string; quote: string }) {
+  const match = evidenceQuotePattern(quote)?.exec(text);
+  if (!match) return <>{text}</>;
+  return (
+    <>
+      {text.slice(0, match.index)}
+      <mark className="bg-amber-200/80 dark:bg-amber-500/40 rounded-sm px-0.5">{match[0]}</mark>
+      {text.slice(match.index + match[0].length)}
+    </>
+  );
 }
 
 const SPEAKER_COLORS = [
@@ -94,8 +124,24 @@ function parseTranscript(transcript: string): TranscriptLine[] {
   return lines;
 }
 
-function TranscriptPart({ transcript, partNumber }: { transcript: string; partNumber: number }) {
+function TranscriptPart({
+  transcript,
+  partNumber,
+  evidence = NO_EVIDENCE,
+  focusKey,
+  audioUrl,
+  alignmentSource,
+}: {
+  transcript: string;
+  partNumber: number;
+  evidence?: EvidenceSpan[];
+  focusKey?: string | number;
+  audioUrl?: string | null;
+  alignmentSource?: TranscriptViewerProps['alignmentSource'];
+}) {
   const lines = parseTranscript(transcript);
+  const [playAlong, setPlayAlong] = useState(false);
+  const firstEvidenceRef = useRef<HTMLDivElement>(null);
   const [selectedText, setSelectedText] = useState<string>('');
   const [showFlashcardButton, setShowFlashcardButton] = useState(false);
   const [buttonPosition, setButtonPosition] = useState({ x: 0, y: 0 });
@@ -121,6 +167,18 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
     setShowFlashcardButton(false);
     window.getSelection()?.removeAllRanges();
   }, []);
+
+  // Evidence is shown on the plain transcript
+  const evidenceIds = evidence.map(span => span.id).join(',');
+  useEffect(() => {
+    if (!evidenceIds) return;
+    setPlayAlong(false);
+    firstEvidenceRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [evidenceIds, focusKey]);
+
+  // Viewer lines merge continuation lines, so match by containment
+  const evidenceFor = (text: string) => evidence.find(span => evidenceMatches(text, span.text) || evidenceMatches(text, span.quote));
+  const firstEvidenceLine = lines.findIndex(line => evidenceFor(line.text));
   
   if (lines.length === 0) {
     return (
@@ -155,57 +213,90 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
         </div>
       )}
       
-      {/* Speaker Legend */}
-      {uniqueSpeakers.length > 1 && (
-        <div className="flex flex-wrap gap-2 pb-3 border-b border-border/50">
-          <span className="text-xs text-muted-foreground flex items-center gap-1">
-            <Users size={14} />
-            Speakers:
-          </span>
-          {uniqueSpeakers.map((speaker, idx) => {
-            const colorIdx = idx % SPEAKER_COLORS.length;
+      {audioUrl && (
+        <div className="flex justify-end">
+          <Button
+            variant={playAlong ? 'secondary' : 'outline'}
+            size="sm"
+            className="gap-1 h-7 text-xs"
+            onClick={() => setPlayAlong(on => !on)}
+          >
+            <AudioLines size={14} />
+            {playAlong ? 'Plain transcript' : 'Play along'}
+          </Button>
+        </div>
+      )}
+
+      {playAlong && audioUrl ? (
+        <AlignedTranscript
+          transcript={transcript}
+          audioUrl={audioUrl}
+          source={alignmentSource ? { ...alignmentSource, part: partNumber } : null}
+        />
+      ) : (
+        <>
+        {/* Speaker Legend */}
+        {uniqueSpeakers.length > 1 && (
+          <div className="flex flex-wrap gap-2 pb-3 border-b border-border/50">
+            <span className="text-xs text-muted-foreground flex items-center gap-1">
+              <Users size={14} />
+              Speakers:
+            </span>
+            {uniqueSpeakers.map((speaker, idx) => {
+              const colorIdx = idx % SPEAKER_COLORS.length;
+              return (
+                <Badge 
+                  key={speaker} 
+                  variant="outline" 
+                  className={cn("text-xs", SPEAKER_COLORS[colorIdx].badge)}
+                >
+                  {speaker}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
+      
+        {/* Transcript Lines */}
+        <div className="space-y-3">
+          {lines.map((line, idx) => {
+            const colorIdx = line.speakerIndex % SPEAKER_COLORS.length;
+            const colors = SPEAKER_COLORS[colorIdx];
+            const span = evidenceFor(line.text);
+          
             return (
-              <Badge 
-                key={speaker} 
-                variant="outline" 
-                className={cn("text-xs", SPEAKER_COLORS[colorIdx].badge)}
+              <div 
+                key={idx} 
+                ref={idx === firstEvidenceLine ? firstEvidenceRef : undefined}
+                className={cn(
+                  "p-3 rounded-lg border-l-4 transition-colors",
+                  colors.bg,
+                  colors.border,
+                  span && "ring-2 ring-amber-400/70"
+                )}
               >
-                {speaker}
-              </Badge>
+                <div className="flex items-center gap-2 mb-1">
+                  <User size={14} className={colors.text} />
+                  <span className={cn("text-sm font-medium", colors.text)}>
+                    {line.speaker}
+                  </span>
+                  {span?.start !== undefined && (
+                    <Badge variant="outline" className="ml-auto text-xs gap-1">
+                      <Clock size={12} />
+                      {span.estimated ? '~' : ''}{formatTimestamp(span.start)}
+                    </Badge>
+                  )}
+                </div>
+                <p className="text-sm text-foreground/90 leading-relaxed pl-6">
+                  {span ? <EvidenceText text={line.text} quote={span.quote} /> : line.text}
+                </p>
+              </div>
             );
           })}
         </div>
+        </>
       )}
       
-      {/* Transcript Lines */}
-      <div className="space-y-3">
-        {lines.map((line, idx) => {
-          const colorIdx = line.speakerIndex % SPEAKER_COLORS.length;
-          const colors = SPEAKER_COLORS[colorIdx];
-          
-          return (
-            <div 
-              key={idx} 
-              className={cn(
-                "p-3 rounded-lg border-l-4 transition-colors",
-                colors.bg,
-                colors.border
-              )}
-            >
-              <div className="flex items-center gap-2 mb-1">
-                <User size={14} className={colors.text} />
-                <span className={cn("text-sm font-medium", colors.text)}>
-                  {line.speaker}
-                </span>
-              </div>
-              <p className="text-sm text-foreground/90 leading-relaxed pl-6">
-                {line.text}
-              </p>
-            </div>
-          );
-        })}
-      </div>
-      
       {/* Tip for adding to flashcards */}
       <div className="flex items-center justify-center gap-2 pt-2 text-xs text-muted-foreground">
         <BookOpen size={12} />
@@ -215,14 +306,31 @@ function TranscriptPart({ transcript, partNumber }: { transcript: string; partNu
   );
 }
 
-export function TranscriptViewer({ transcripts, defaultExpanded = false, className }: TranscriptViewerProps) {
+export function TranscriptViewer({
+  transcripts,
+  defaultExpanded = false,
+  className,
+  evidence = NO_EVIDENCE,
+  focusKey,
+  audioUrls,
+  alignmentSource,
+}: TranscriptViewerProps) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const [activeTab, setActiveTab] = useState<string | null>(null);
+  const evidencePart = evidence[0]?.part;
+
+  // Open the part holding the evidence
+  useEffect(() => {
+    if (evidencePart === undefined) return;
+    setIsExpanded(true);
+    setActiveTab(`part${evidencePart}`);
+  }, [evidencePart, focusKey]);
   
   const availableParts = [
-    { key: 'part1', label: 'Part 1', transcript: transcripts.part1 },
-    { key: 'part2', label: 'Part 2', transcript: transcripts.part2 },
-    { key: 'part3', label: 'Part 3', transcript: transcripts.part3 },
-    { key: 'part4', label: 'Part 4', transcript: transcripts.part4 },
+    { key: 'part1', label: 'Part 1', transcript: transcripts.part1, audioUrl: audioUrls?.part1 },
+    { key: 'part2', label: 'Part 2', transcript: transcripts.part2, audioUrl: audioUrls?.part2 },
+    { key: 'part3', label: 'Part 3', transcript: transcripts.part3, audioUrl: audioUrls?.part3 },
+    { key: 'part4', label: 'Part 4', transcript: transcripts.part4, audioUrl: audioUrls?.part4 },
   ].filter(p => p.transcript);
   
   if (availableParts.length === 0) {
@@ -263,7 +371,7 @@ export function TranscriptViewer({ transcripts, defaultExpanded = false, classNa
         
         <CollapsibleContent>
           <CardContent className="pt-0">
-            <Tabs defaultValue={defaultTab} className="w-full">
+            <Tabs value={activeTab ?? defaultTab} onValueChange={setActiveTab} className="w-full">
               <TabsList className="grid w-full" style={{ gridTemplateColumns: `repeat(${availableParts.length}, 1fr)` }}>
                 {availableParts.map(part => (
                   <TabsTrigger key={part.key} value={part.key}>
@@ -278,6 +386,10 @@ export function TranscriptViewer({ transcripts, defaultExpanded = false, classNa
                     <TranscriptPart 
                       transcript={part.transcript!} 
                       partNumber={parseInt(part.key.replace('part', ''))} 
+                      evidence={evidence.filter(span => `part${span.part}` === part.key)}
+                      focusKey={focusKey}
+                      audioUrl={part.audioUrl}
+                      alignmentSource={alignmentSource}
                     />
                   </ScrollArea>
                 </TabsContent>
@@ -0,0 +1,133 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BookOpen, ChevronDown, ChevronUp } from 'lucide-react';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { renderRichText } from '@/components/admin/RichTextEditor';
+import { EvidenceSpan } from '@/lib/answerEvidence';
+import { ReadingPassage } from './ReadingPassage';
+
+interface ViewerPassage {
+  id: string;
+  passage_number: number;
+  title: string;
+  content: string;
+}
+
+interface PassageViewerProps {
+  testId: string;
+  passages: ViewerPassage[];
+  defaultExpanded?: boolean;
+  className?: string;
+  /** Answer evidence to highlight; changing focusKey opens its passage and scrolls to it again */
+  evidence?: EvidenceSpan[];
+  focusKey?: string | number;
+}
+
+const NO_EVIDENCE: EvidenceSpan[] = [];
+
+/** Collapsible read-only view of a test's passages for the results pages */
+export function PassageViewer({
+  testId,
+  passages,
+  defaultExpanded = false,
+  className,
+  evidence = NO_EVIDENCE,
+  focusKey,
+}: PassageViewerProps) {
+  const [isExpanded, setIsExpanded] = useState(defaultExpanded);
+  const [activeTab, setActiveTab] = useState<string | null>(null);
+  const evidencePart = evidence[0]?.part;
+
+  // Open the passage holding the evidence
+  useEffect(() => {
+    if (evidencePart === undefined) return;
+    setIsExpanded(true);
+    setActiveTab(`passage${evidencePart}`);
+  }, [evidencePart, focusKey]);
+
+  const evidenceByPassage = useMemo(() => {
+    const byPassage = new Map<number, EvidenceSpan[]>();
+    for (const span of evidence) {
+      byPassage.set(span.part, [...(byPassage.get(span.part) ?? []), span]);
+    }
+    return byPassage;
+  }, [evidence]);
+
+  if (passages.length === 0) {
+    return null;
+  }
+
+  const sorted = [...passages].sort((a, b) => a.passage_number - b.passage_number);
+  const defaultTab = `passage${sorted[0].passage_number}`;
+
+  return (
+    <Collapsible open={isExpanded} onOpenChange={setIsExpanded} className={className}>
+      <Card className="border-border/50">
+        <CollapsibleTrigger asChild>
+          <CardHeader className="cursor-pointer hover:bg-muted/30 transition-colors py-4">
+            <div className="flex items-center justify-between">
+              <CardTitle className="text-lg flex items-center gap-2">
+                <BookOpen size={20} />
+                Reading {sorted.length === 1 ? 'Passage' : 'Passages'}
+                {sorted.length > 1 && (
+                  <Badge variant="secondary" className="ml-2">
+                    {sorted.length} passages
+                  </Badge>
+                )}
+              </CardTitle>
+              <Button variant="ghost" size="sm" className="gap-1">
+                {isExpanded ? (
+                  <>
+                    <ChevronUp size={16} />
+                    <span className="text-xs">Hide</span>
+                  </>
+                ) : (
+                  <>
+                    <ChevronDown size={16} />
+                    <span className="text-xs">Show</span>
+                  </>
+                )}
+              </Button>
+            </div>
+          </CardHeader>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <CardContent className="pt-0">
+            <Tabs value={activeTab ?? defaultTab} onValueChange={setActiveTab} className="w-full">
+              {sorted.length > 1 && (
+                <TabsList className="grid w-full mb-4" style={{ gridTemplateColumns: `repeat(${sorted.length}, 1fr)` }}>
+                  {sorted.map(passage => (
+                    <TabsTrigger key={passage.id} value={`passage${passage.passage_number}`}>
+                      Passage {passage.passage_number}
+                    </TabsTrigger>
+                  ))}
+                </TabsList>
+              )}
+
+              {sorted.map(passage => (
+                <TabsContent key={passage.id} value={`passage${passage.passage_number}`} className="mt-0">
+                  <ScrollArea className="h-[500px] pr-4">
+                    <ReadingPassage
+                      testId={testId}
+                      passage={passage}
+                      renderRichText={renderRichText}
+                      evidence={evidenceByPassage.get(passage.passage_number)}
+                      evidenceKey={focusKey}
+                    />
+                  </ScrollArea>
+                </TabsContent>
+              ))}
+            </Tabs>
+          </CardContent>
+        </CollapsibleContent>
+      </Card>
+    </Collapsible>
+  );
+}
+
+export default PassageViewer;
@@ -1,8 +1,10 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { Clock } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { ParagraphDropZone } from './questions/MatchingHeadingsDragDrop';
 import { QuestionTextWithTools } from '@/components/common/QuestionTextWithTools';
+import { EvidenceSpan, evidenceMatches, evidenceQuotePattern, splitPassageParagraphs } from '@/lib/answerEvidence';
+import { cn } from '@/lib/utils';
 
 interface Passage {
   id: string;
@@ -43,6 +45,30 @@ interface ReadingPassageProps {
   showLabels?: boolean;
   // Question focus callback for navigation
   onQuestionFocus?: (questionNumber: number) => void;
+  // Answer evidence to highlight; changing evidenceKey scrolls to it again
+  evidence?: EvidenceSpan[];
+  evidenceKey?: string | number;
+}
+
+// Support both "[A]" format (AI-generated) and "A " format (traditional)
+function parseContentParagraphs(content: string): Paragraph[] {
+  return splitPassageParagraphs(content).map((p, idx) => ({
+    id: `temp-${idx}`,
+    label: p.label,
+    content: p.content,
+    is_heading: false,
+    order_index: idx,
+  }));
+}
+
+const NO_EVIDENCE: EvidenceSpan[] = [];
+
+function markEvidence(html: string, quotes: string[]): string {
+  return quotes.reduce((result, quote) => {
+    const pattern = evidenceQuotePattern(quote);
+    if (!pattern) return result;
+    return result.replace(pattern, match => `<mark class="answer-evidence bg-amber-200/80 dark:bg-amber-500/40 rounded-sm px-0.5" data-evidence>${match}</mark>`);
+  }, html);
 }
 
 export function ReadingPassage({ 
@@ -59,10 +85,19 @@ export function ReadingPassage({
   selectedHeading,
   onSelectPlace,
   showLabels = true,
-  onQuestionFocus
+  onQuestionFocus,
+  evidence = NO_EVIDENCE,
+  evidenceKey
 }: ReadingPassageProps) {
   const [paragraphs, setParagraphs] = useState<Paragraph[]>([]);
   const [loading, setLoading] = useState(true);
+  const articleRef = useRef<HTMLElement>(null);
+
+  const evidenceQuotes = useMemo(() => evidence.map(span => span.quote), [evidence]);
+  const renderWithEvidence = useCallback(
+    (text: string) => markEvidence(renderRichText(text), evidenceQuotes),
+    [renderRichText, evidenceQuotes]
+  );
 
   // Fetch paragraphs from database
   useEffect(() => {
@@ -80,99 +115,11 @@ export function ReadingPassage({
           setParagraphs(data);
         } else {
           // Fallback: parse from content if no paragraphs in DB
-          // Support both "[A]" format (AI-generated) and "A " format (traditional)
-          const contentParagraphs = passage.content.split(/\n\n+/);
-          const parsed: Paragraph[] = [];
-          
-          contentParagraphs.forEach((p, idx) => {
-            const trimmed = p.trim();
-            if (!trimmed) return;
-            
-            // Try to match [A] format first (AI-generated passages)
-            let match = trimmed.match(/^\[([A-Z])\]\s*(.*)$/s);
-            if (match) {
-              parsed.push({
-                id: `temp-${idx}`,
-                label: match[1],
-                content: match[2].trim(),
-                is_heading: false,
-                order_index: idx
-              });
-              return;
-            }
-            
-            // Try to match "A " format (traditional)
-            match = trimmed.match(/^([A-Z])\s+(.*)$/s);
-            if (match) {
-              parsed.push({
-                id: `temp-${idx}`,
-                label: match[1],
-                content: match[2].trim(),
-                is_heading: false,
-                order_index: idx
-              });
-              return;
-            }
-            
-            // No label found - could be title or unlabeled paragraph
-            parsed.push({
-              id: `temp-${idx}`,
-              label: '',
-              content: trimmed,
-              is_heading: false,
-              order_index: idx
-            });
-          });
-          
-          setParagraphs(parsed.filter(p => p.content));
+          setParagraphs(parseContentParagraphs(passage.content));
         }
       } catch (error) {
         console.error('Error fetching paragraphs:', error);
-        // Fallback to parsing content with same improved logic
-        const contentParagraphs = passage.content.split(/\n\n+/);
-        const parsed: Paragraph[] = [];
-        
-        contentParagraphs.forEach((p, idx) => {
-          const trimmed = p.trim();
-          if (!trimmed) return;
-          
-          // Try to match [A] format first (AI-generated passages)
-          let match = trimmed.match(/^\[([A-Z])\]\s*(.*)$/s);
-          if (match) {
-            parsed.push({
-              id: `temp-${idx}`,
-              label: match[1],
-              content: match[2].trim(),
-              is_heading: false,
-              order_index: idx
-            });
-            return;
-          }
-          
-          // Try to match "A " format (traditional)
-          match = trimmed.match(/^([A-Z])\s+(.*)$/s);
-          if (match) {
-            parsed.push({
-              id: `temp-${idx}`,
-              label: match[1],
-              content: match[2].trim(),
-              is_heading: false,
-              order_index: idx
-            });
-            return;
-          }
-          
-          // No label found
-          parsed.push({
-            id: `temp-${idx}`,
-            label: '',
-            content: trimmed,
-            is_heading: false,
-            order_index: idx
-          });
-        });
-        
-        setParagraphs(parsed.filter(p => p.content));
+        setParagraphs(parseContentParagraphs(passage.content));
       } finally {
         setLoading(false);
       }
@@ -181,6 +128,17 @@ export function ReadingPassage({
     fetchParagraphs();
   }, [passage.id, passage.content]);
 
+  // Bring the first piece of evidence into view
+  const evidenceIds = evidence.map(span => span.id).join(',');
+  useEffect(() => {
+    if (loading || !evidenceIds || !articleRef.current) return;
+    const target = articleRef.current.querySelector('[data-evidence]') ?? articleRef.current.querySelector('[data-evidence-paragraph]');
+    target?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, evidenceIds, evidenceKey]);
+
+  const isEvidenceParagraph = (content: string) =>
+    evidence.some(span => evidenceMatches(content, span.text) || evidenceMatches(content, span.quote));
+
   const getAssignedHeading = (label: string) => {
     const headingId = headingAnswers[label];
     if (!headingId) return null;
@@ -199,6 +157,7 @@ export function ReadingPassage({
 
   return (
     <article 
+      ref={articleRef}
       className="prose prose-sm max-w-none relative passage-content" 
       style={{ fontSize: `var(--ielts-text-base, ${fontSize}px)` }}
     >
@@ -223,6 +182,7 @@ export function ReadingPassage({
         {paragraphs.map((paragraph, index) => {
           const hasLabel = !!paragraph.label && showLabels;
           const assignedHeading = getAssignedHeading(paragraph.label);
+          const hasEvidence = evidence.length > 0 && isEvidenceParagraph(paragraph.content);
           
           // Show drop zone if:
           // 1. This passage has matching headings questions
@@ -250,7 +210,13 @@ export function ReadingPassage({
               )}
               
               {/* Paragraph with label */}
-              <div className="flex items-start gap-3">
+              <div
+                className={cn(
+                  "flex items-start gap-3",
+                  hasEvidence && "rounded-lg bg-amber-50/60 dark:bg-amber-500/10 ring-1 ring-amber-300/70 -mx-2 px-2 py-1"
+                )}
+                data-evidence-paragraph={hasEvidence || undefined}
+              >
                 {hasLabel && (
                   <span className="flex-shrink-0 w-8 h-8 rounded-full bg-primary/10 text-primary flex items-center justify-center font-bold text-sm">
                     {paragraph.label}
@@ -262,7 +228,7 @@ export function ReadingPassage({
                     contentId={paragraph.id || `passage-${passage.id}-paragraph-${index}`} // Unique ID for this content
                     text={paragraph.content} // Use raw content, renderRichText will handle formatting
                     fontSize={fontSize}
-                    renderRichText={renderRichText} // Use the passed renderRichText
+                    renderRichText={hasEvidence ? renderWithEvidence : renderRichText} // Use the passed renderRichText
                   />
                 </div>
               </div>
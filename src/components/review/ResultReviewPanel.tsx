@@ -0,0 +1,176 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Flag, Loader2, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import {
+  REVIEW_CRITERIA,
+  REVIEW_STATUS_LABELS,
+  ReviewSourceType,
+  ReviewStatus,
+  ReviewWithVersion,
+  getAiCriterionBands,
+  loadReviewForSource,
+  parseVersionCriteria,
+  requestResultReview,
+  withdrawResultReview,
+} from '@/lib/resultReviews';
+
+interface ResultReviewPanelProps {
+  sourceType: ReviewSourceType;
+  sourceId: string;
+  className?: string;
+}
+
+const formatDelta = (delta: number) => (delta > 0 ? `+${delta.toFixed(1)}` : delta.toFixed(1));
+
+/** Student side of a human review: flag the AI band, follow the request and read the examiner's bands */
+export function ResultReviewPanel({ sourceType, sourceId, className }: ResultReviewPanelProps) {
+  const [state, setState] = useState<ReviewWithVersion | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setState(await loadReviewForSource(sourceType, sourceId));
+    } catch (error) {
+      console.error('Error loading review:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [sourceType, sourceId]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleRequest = async () => {
+    setSaving(true);
+    try {
+      await requestResultReview(sourceType, sourceId, reason);
+      toast.success('Review requested. An examiner will look at your result.');
+      setDialogOpen(false);
+      setReason('');
+      await load();
+    } catch (error) {
+      console.error('Error requesting review:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not request a review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async () => {
+    if (!state || !confirm('Withdraw your review request?')) return;
+    try {
+      await withdrawResultReview(state.review.id);
+      setState(null);
+    } catch (error) {
+      console.error('Error withdrawing review:', error);
+      toast.error('Could not withdraw the request');
+    }
+  };
+
+  if (loading) return null;
+
+  const review = state?.review;
+  const latest = state?.latest;
+
+  return (
+    <div className={cn('rounded-lg border bg-muted/20 p-4 space-y-3', className)}>
+      {!review ? (
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-muted-foreground">Think the AI band is wrong? An examiner can re-mark this result.</p>
+          <Button variant="outline" size="sm" className="gap-2" onClick={() => setDialogOpen(true)}>
+            <Flag className="w-4 h-4" />
+            Request human review
+          </Button>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2">
+            <UserCheck className="w-4 h-4 text-primary" />
+            <span className="font-medium text-sm">Examiner review</span>
+            <Badge variant={review.status === 'completed' ? 'default' : 'secondary'}>
+              {REVIEW_STATUS_LABELS[review.status as ReviewStatus]}
+            </Badge>
+            {review.status === 'pending' && (
+              <Button variant="ghost" size="sm" className="ml-auto" onClick={handleWithdraw}>
+                Withdraw
+              </Button>
+            )}
+          </div>
+
+          {review.status === 'dismissed' && (
+            <p className="text-sm text-muted-foreground">The examiner kept the AI band for this result.</p>
+          )}
+
+          {latest && (
+            <div className="space-y-3">
+              <div className="flex items-baseline gap-3">
+                <span className="text-2xl font-bold text-primary">{Number(latest.overall_band).toFixed(1)}</span>
+                <span className="text-sm text-muted-foreground">
+                  examiner band{review.ai_band !== null && ` (AI ${Number(review.ai_band).toFixed(1)})`}
+                  {latest.version > 1 && ` · revision ${latest.version}`}
+                </span>
+              </div>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {REVIEW_CRITERIA[sourceType].map(({ key, label }) => {
+                  const adjusted = parseVersionCriteria(latest.criteria)[key];
+                  if (!adjusted) return null;
+                  const aiBand = getAiCriterionBands(review)[key];
+                  const delta = aiBand !== undefined ? adjusted.band - aiBand : 0;
+                  return (
+                    <div key={key} className="rounded-md border bg-background p-3 text-sm">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-medium">{label}</span>
+                        <span className="tabular-nums">
+                          {adjusted.band.toFixed(1)}
+                          {delta !== 0 && (
+                            <span className={cn('ml-1 text-xs', delta > 0 ? 'text-success' : 'text-destructive')}>
+                              {formatDelta(delta)}
+                            </span>
+                          )}
+                        </span>
+                      </div>
+                      {adjusted.comment && <p className="text-muted-foreground mt-1">{adjusted.comment}</p>}
+                    </div>
+                  );
+                })}
+              </div>
+              {latest.comment && <p className="text-sm whitespace-pre-wrap">{latest.comment}</p>}
+            </div>
+          )}
+        </>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Request a human review</DialogTitle>
+            <DialogDescription>
+              An examiner re-marks each criterion and can change your band. The AI report stays available for comparison.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="review-reason">What do you think the AI got wrong? (optional)</Label>
+            <Textarea id="review-reason" value={reason} onChange={e => setReason(e.target.value)} rows={4} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleRequest} disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Loader2, Mic, PenTool } from 'lucide-react';
+import { toast } from 'sonner';
+import { ReviewWorkspaceDialog } from './ReviewWorkspaceDialog';
+import {
+  REVIEW_STATUS_LABELS,
+  ResultReview,
+  ReviewStatus,
+  claimReview,
+  loadReviewQueue,
+} from '@/lib/resultReviews';
+
+const QUEUE_TABS: Record<string, ReviewStatus[]> = {
+  open: ['pending', 'in_review'],
+  completed: ['completed'],
+  dismissed: ['dismissed'],
+};
+
+/** Review requests visible to the signed-in admin or teacher; RLS limits teachers to their students */
+export function ReviewQueue() {
+  const [tab, setTab] = useState('open');
+  const [reviews, setReviews] = useState<ResultReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [active, setActive] = useState<ResultReview | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      setReviews(await loadReviewQueue(QUEUE_TABS[tab]));
+    } catch (error) {
+      console.error('Error loading review queue:', error);
+      toast.error('Could not load review requests');
+    } finally {
+      setLoading(false);
+    }
+  }, [tab]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const handleOpen = async (review: ResultReview) => {
+    if (review.status !== 'pending') {
+      setActive(review);
+      return;
+    }
+    try {
+      setActive(await claimReview(review.id));
+      load();
+    } catch (error) {
+      console.error('Error claiming review:', error);
+      toast.error('Could not open this review');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Tabs value={tab} onValueChange={setTab}>
+        <TabsList>
+          <TabsTrigger value="open">Open</TabsTrigger>
+          <TabsTrigger value="completed">Completed</TabsTrigger>
+          <TabsTrigger value="dismissed">Dismissed</TabsTrigger>
+        </TabsList>
+      </Tabs>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : reviews.length === 0 ? (
+        <p className="text-center text-muted-foreground py-12">No review requests here.</p>
+      ) : (
+        <div className="space-y-2">
+          {reviews.map(review => {
+            const Icon = review.source_type === 'writing_submission' ? PenTool : Mic;
+            return (
+              <Card key={review.id}>
+                <CardContent className="p-4 flex items-center gap-4">
+                  <Icon className="w-5 h-5 text-muted-foreground shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium">{review.student_name || 'Student'}</span>
+                      <Badge variant={review.status === 'in_review' ? 'default' : 'secondary'}>
+                        {REVIEW_STATUS_LABELS[review.status as ReviewStatus]}
+                      </Badge>
+                      {review.current_version > 1 && <Badge variant="outline">v{review.current_version}</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground truncate">
+                      AI band {review.ai_band !== null ? Number(review.ai_band).toFixed(1) : '-'} · {new Date(review.created_at).toLocaleDateString()}
+                      {review.reason && ` · "${review.reason}"`}
+                    </p>
+                  </div>
+                  <Button variant={review.status === 'pending' ? 'default' : 'outline'} size="sm" onClick={() => handleOpen(review)}>
+                    {review.status === 'pending' ? 'Start review' : review.status === 'in_review' ? 'Continue' : 'Re-review'}
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ReviewWorkspaceDialog review={active} onClose={() => setActive(null)} onSaved={load} />
+    </div>
+  );
+}
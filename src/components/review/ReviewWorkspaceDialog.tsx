@@ -0,0 +1,250 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { renderRichText } from '@/components/admin/RichTextEditor';
+import {
+  CriterionAdjustments,
+  REVIEW_CRITERIA,
+  ResultReview,
+  ResultReviewVersion,
+  ReviewSourceType,
+  completeReview,
+  criterionDeltas,
+  dismissReview,
+  getAiCriterionBands,
+  getAiCriterionFeedback,
+  initialAdjustments,
+  loadReviewVersions,
+  overallFromAdjustments,
+  parseReviewSnapshot,
+  parseVersionCriteria,
+} from '@/lib/resultReviews';
+
+// 0-9 in half bands, highest first
+const BAND_OPTIONS = Array.from({ length: 19 }, (_, i) => (9 - i * 0.5).toFixed(1));
+
+interface ReviewWorkspaceDialogProps {
+  review: ResultReview | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+/** Essay or recordings on the left, the AI rubric with the reviewer's bands on the right */
+export function ReviewWorkspaceDialog({ review, onClose, onSaved }: ReviewWorkspaceDialogProps) {
+  const [adjustments, setAdjustments] = useState<CriterionAdjustments>({});
+  const [comment, setComment] = useState('');
+  const [versions, setVersions] = useState<ResultReviewVersion[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const sourceType = review?.source_type as ReviewSourceType | undefined;
+  const snapshot = useMemo(() => (review ? parseReviewSnapshot(review.snapshot) : null), [review]);
+  const aiBands = useMemo(() => (review ? getAiCriterionBands(review) : {}), [review]);
+
+  useEffect(() => {
+    if (!review) return;
+    let cancelled = false;
+    setAdjustments(initialAdjustments(review));
+    setComment('');
+    loadReviewVersions(review.id)
+      .then(data => {
+        if (cancelled) return;
+        setVersions(data);
+        // Re-reviews start from the last examiner version rather than the AI bands
+        if (data[0]) {
+          setAdjustments({ ...initialAdjustments(review), ...parseVersionCriteria(data[0].criteria) });
+          setComment(data[0].comment ?? '');
+        }
+      })
+      .catch(error => console.error('Error loading review versions:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [review]);
+
+  if (!review || !sourceType || !snapshot) return null;
+
+  const criteria = REVIEW_CRITERIA[sourceType];
+  const overall = overallFromAdjustments(sourceType, adjustments);
+  const deltas = criterionDeltas(aiBands, adjustments);
+
+  const updateCriterion = (key: string, patch: Partial<CriterionAdjustments[string]>) => {
+    setAdjustments(prev => ({ ...prev, [key]: { band: prev[key]?.band ?? 0, comment: prev[key]?.comment ?? '', ...patch } }));
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string) => {
+    setSaving(true);
+    try {
+      await action();
+      toast.success(success);
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving review:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not save the review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComplete = () => {
+    if (overall === null) return;
+    run(() => completeReview(review.id, overall, adjustments, comment), 'Review saved');
+  };
+
+  const handleDismiss = () => {
+    if (!confirm('Keep the AI band and close this request?')) return;
+    run(() => dismissReview(review.id), 'Request dismissed');
+  };
+
+  const audioEntries = Object.entries(snapshot.audioUrls).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+  const transcriptEntries = Object.entries(snapshot.transcriptsByPart).sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }));
+
+  return (
+    <Dialog open={!!review} onOpenChange={open => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {review.student_name || 'Student'} · {sourceType === 'writing_submission' ? 'Writing' : 'Speaking'}
+          </DialogTitle>
+          <DialogDescription>
+            AI band {review.ai_band !== null ? Number(review.ai_band).toFixed(1) : '-'} · requested {new Date(review.created_at).toLocaleString()}
+            {versions.length > 0 && ` · ${versions.length} earlier review${versions.length > 1 ? 's' : ''}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {review.reason && (
+          <div className="rounded-md border border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30 p-3 text-sm">
+            <span className="font-medium">Student's note: </span>
+            {review.reason}
+          </div>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Source */}
+          <div className="space-y-4 min-w-0">
+            {sourceType === 'writing_submission' ? (
+              <>
+                {snapshot.instruction && (
+                  <div className="space-y-1">
+                    <h3 className="text-sm font-semibold">
+                      Prompt {snapshot.taskType && <Badge variant="outline" className="ml-1">{snapshot.taskType === 'task1' ? 'Task 1' : 'Task 2'}</Badge>}
+                    </h3>
+                    <div className="prose prose-sm max-w-none text-muted-foreground" dangerouslySetInnerHTML={{ __html: renderRichText(snapshot.instruction) }} />
+                    {snapshot.imageUrl && <img src={snapshot.imageUrl} alt="Task visual" className="max-h-64 rounded border" />}
+                  </div>
+                )}
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold">Essay{snapshot.wordCount !== null && ` · ${snapshot.wordCount} words`}</h3>
+                  <div className="rounded-md border bg-muted/30 p-4 text-sm whitespace-pre-wrap leading-relaxed">
+                    {snapshot.submissionText}
+                  </div>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold">Recordings</h3>
+                  {audioEntries.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No recordings were saved with this result.</p>
+                  ) : (
+                    audioEntries.map(([key, url]) => (
+                      <div key={key} className="space-y-1">
+                        <p className="text-xs text-muted-foreground">{key}</p>
+                        <audio controls preload="none" src={url} className="w-full" />
+                      </div>
+                    ))
+                  )}
+                </div>
+                {transcriptEntries.map(([part, transcript]) => (
+                  <div key={part} className="space-y-1">
+                    <h3 className="text-sm font-semibold">Part {part.replace(/^part/, '')} transcript</h3>
+                    <p className="rounded-md border bg-muted/30 p-3 text-sm whitespace-pre-wrap">{transcript}</p>
+                  </div>
+                ))}
+              </>
+            )}
+          </div>
+
+          {/* Rubric */}
+          <div className="space-y-4 min-w-0">
+            {criteria.map(({ key, label }) => {
+              const aiBand = aiBands[key];
+              const notes = getAiCriterionFeedback(sourceType, snapshot.report, key);
+              const delta = deltas[key] ?? 0;
+              return (
+                <div key={key} className="rounded-lg border p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium text-sm">{label}</span>
+                    <div className="flex items-center gap-2">
+                      <span className="text-xs text-muted-foreground">AI {aiBand !== undefined ? aiBand.toFixed(1) : '-'}</span>
+                      <Select
+                        value={adjustments[key] ? adjustments[key].band.toFixed(1) : ''}
+                        onValueChange={value => updateCriterion(key, { band: Number(value) })}
+                      >
+                        <SelectTrigger className={cn('w-20 h-8', delta !== 0 && 'border-primary text-primary font-semibold')}>
+                          <SelectValue placeholder="-" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {BAND_OPTIONS.map(option => (
+                            <SelectItem key={option} value={option}>{option}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  {notes.length > 0 && (
+                    <details className="text-xs text-muted-foreground">
+                      <summary className="cursor-pointer">AI feedback</summary>
+                      <div className="mt-1 space-y-1">
+                        {notes.map((note, i) => (
+                          <div key={i} className="prose prose-xs max-w-none" dangerouslySetInnerHTML={{ __html: renderRichText(note) }} />
+                        ))}
+                      </div>
+                    </details>
+                  )}
+                  <Textarea
+                    value={adjustments[key]?.comment ?? ''}
+                    onChange={e => updateCriterion(key, { comment: e.target.value })}
+                    placeholder="Comment on this criterion (optional)"
+                    rows={2}
+                    className="text-sm"
+                  />
+                </div>
+              );
+            })}
+
+            <div className="space-y-2">
+              <Label htmlFor="review-comment">Overall comment for the student</Label>
+              <Textarea id="review-comment" value={comment} onChange={e => setComment(e.target.value)} rows={3} />
+            </div>
+
+            <div className="flex items-baseline gap-2">
+              <span className="text-sm text-muted-foreground">Examiner band</span>
+              <span className="text-2xl font-bold text-primary">{overall !== null ? overall.toFixed(1) : '-'}</span>
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          {review.status !== 'completed' && (
+            <Button variant="ghost" onClick={handleDismiss} disabled={saving} className="sm:mr-auto">
+              Keep AI band
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleComplete} disabled={saving || overall === null}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {versions.length > 0 ? 'Save new version' : 'Complete review'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
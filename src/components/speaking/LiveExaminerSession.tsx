@@ -0,0 +1,362 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { ArrowLeft, Clock, Loader2, Mic, Volume2, AlertTriangle, Square } from 'lucide-react';
+import { ExitTestConfirmDialog } from '@/components/common/ExitTestConfirmDialog';
+import { AIExaminerAvatar } from './AIExaminerAvatar';
+import { useGeminiLiveAudio, GeminiFunctionCall } from '@/hooks/useGeminiLiveAudio';
+import { pcmToWav } from '@/lib/audio/pcmToWav';
+import { cn } from '@/lib/utils';
+import { GeneratedSpeakingPart, GeneratedTest } from '@/types/aiPractice';
+import {
+  LIVE_PART2_PREP_SECONDS,
+  LIVE_PART2_SPEAK_SECONDS,
+  LiveQuestion,
+  LivePartNumber,
+  VAD_SETTINGS,
+  addAskedQuestion,
+  buildExaminerScript,
+  liveSegmentKey,
+  parseExaminerToolCall,
+  toSpeakingParts,
+} from '@/lib/liveExaminer';
+
+const SAMPLE_RATE = 16000;
+// Lets the examiner finish its goodbye before the microphone closes
+const END_GRACE_MS = 1500;
+
+export interface LiveExaminerRecording {
+  key: string;
+  partNumber: LivePartNumber;
+  questionId: string;
+  questionNumber: number;
+  questionText: string;
+  blob: Blob;
+  duration: number;
+}
+
+export interface LiveExaminerResult {
+  recordings: LiveExaminerRecording[];
+  speakingParts: GeneratedSpeakingPart[];
+}
+
+interface LiveExaminerSessionProps {
+  test: GeneratedTest;
+  onComplete: (result: LiveExaminerResult) => void;
+  onExit: () => void;
+}
+
+type SessionStage = 'connecting' | 'live' | 'part2_prep' | 'part2_speaking' | 'ending' | 'error';
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`;
+
+/**
+ * A spoken test with the live examiner. Each candidate turn is recorded
+ * against the question the examiner last asked; when the examiner ends the
+ * test (or the candidate does) the recordings and the questions actually
+ * asked are handed to the page, which submits them like any speaking test.
+ */
+export function LiveExaminerSession({ test, onComplete, onExit }: LiveExaminerSessionProps) {
+  const [stage, setStage] = useState<SessionStage>('connecting');
+  const [part, setPart] = useState<LivePartNumber>(1);
+  const [currentQuestion, setCurrentQuestion] = useState<LiveQuestion | null>(null);
+  const [cueCard, setCueCard] = useState<{ topic: string; points: string[] } | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [caption, setCaption] = useState('');
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [showExitDialog, setShowExitDialog] = useState(false);
+
+  const questionsRef = useRef<LiveQuestion[]>([]);
+  const currentQuestionRef = useRef<LiveQuestion | null>(null);
+  const answersRef = useRef<Record<string, Int16Array[]>>({});
+  const cueCardRef = useRef<{ topic: string; points: string[] } | null>(null);
+  const prepCallRef = useRef<GeminiFunctionCall | null>(null);
+  const stageRef = useRef<SessionStage>('connecting');
+  const finishedRef = useRef(false);
+  const liveRef = useRef<ReturnType<typeof useGeminiLiveAudio> | null>(null);
+
+  const moveTo = useCallback((next: SessionStage) => {
+    stageRef.current = next;
+    setStage(next);
+  }, []);
+
+  const askQuestion = useCallback((partNumber: LivePartNumber, text: string, isFollowUp: boolean) => {
+    questionsRef.current = addAskedQuestion(questionsRef.current, partNumber, text, isFollowUp);
+    const question = questionsRef.current[questionsRef.current.length - 1];
+    currentQuestionRef.current = question;
+    setCurrentQuestion(question);
+    setPart(partNumber);
+    setCaption('');
+  }, []);
+
+  const handleToolCall = useCallback((call: GeminiFunctionCall) => {
+    const live = liveRef.current;
+    const tool = parseExaminerToolCall(call);
+    if (!live) return;
+    if (!tool) {
+      live.sendToolResponse(call, { ok: false, error: 'Unknown tool or missing arguments' });
+      return;
+    }
+
+    switch (tool.name) {
+      case 'ask_question':
+        // A rounding-off question means the long turn is over, even before the time is up
+        if (stageRef.current === 'part2_speaking') moveTo('live');
+        askQuestion(tool.part, tool.question, tool.followUp);
+        live.setVadOptions(VAD_SETTINGS[tool.part === 3 ? 3 : 1]);
+        live.sendToolResponse(call, { ok: true });
+        break;
+      case 'start_part2_preparation': {
+        const card = { topic: tool.topic, points: tool.points };
+        cueCardRef.current = card;
+        setCueCard(card);
+        askQuestion(2, tool.topic, false);
+        // The examiner waits for the response, which is sent when preparation ends
+        prepCallRef.current = call;
+        live.setMicMuted(true);
+        setSecondsLeft(LIVE_PART2_PREP_SECONDS);
+        moveTo('part2_prep');
+        break;
+      }
+      case 'end_test':
+        live.sendToolResponse(call, { ok: true });
+        moveTo('ending');
+        break;
+    }
+  }, [moveTo, askQuestion]);
+
+  const handleUserTurn = useCallback((pcm: Int16Array) => {
+    const question = currentQuestionRef.current;
+    // Answers to the greeting and identity check are not part of the evaluation
+    if (!question) return;
+    (answersRef.current[question.id] ??= []).push(pcm);
+  }, []);
+
+  const config = useMemo(() => ({
+    partType: 'FULL_TEST' as const,
+    difficulty: test.difficulty,
+    topic: test.topic,
+    script: buildExaminerScript(test.speakingParts),
+    onToolCall: handleToolCall,
+    onUserTurn: handleUserTurn,
+    onInputTranscript: (text: string) => setCaption(prev => prev + text),
+    onError: (error: Error) => {
+      if (finishedRef.current) return;
+      setErrorMessage(error.message);
+      moveTo('error');
+    },
+  }), [test, handleToolCall, handleUserTurn, moveTo]);
+
+  const live = useGeminiLiveAudio(config);
+  liveRef.current = live;
+  // Stable as long as the config is
+  const { connect, isConnected, startListening, stopListening, disconnect, sendText, sendToolResponse, setMicMuted, setVadOptions } = live;
+
+  const finish = useCallback(() => {
+    if (finishedRef.current) return;
+    finishedRef.current = true;
+    stopListening();
+    disconnect();
+
+    const recordings: LiveExaminerRecording[] = [];
+    for (const question of questionsRef.current) {
+      const chunks = answersRef.current[question.id];
+      if (!chunks?.length) continue;
+      const samples = chunks.reduce((total, chunk) => total + chunk.length, 0);
+      const pcm = new Int16Array(samples);
+      let offset = 0;
+      for (const chunk of chunks) {
+        pcm.set(chunk, offset);
+        offset += chunk.length;
+      }
+      recordings.push({
+        key: liveSegmentKey(question),
+        partNumber: question.partNumber,
+        questionId: question.id,
+        questionNumber: question.questionNumber,
+        questionText: question.questionText,
+        blob: pcmToWav(new Uint8Array(pcm.buffer), SAMPLE_RATE),
+        duration: Math.round(samples / SAMPLE_RATE),
+      });
+    }
+
+    const answered = new Set(recordings.map(r => r.questionId));
+    onComplete({ recordings, speakingParts: toSpeakingParts(questionsRef.current, answered, cueCardRef.current) });
+  }, [stopListening, disconnect, onComplete]);
+
+  // Connect once, then open the microphone and let the examiner begin
+  useEffect(() => {
+    connect();
+  }, [connect]);
+
+  useEffect(() => {
+    if (!isConnected || stageRef.current !== 'connecting') return;
+    startListening()
+      .then(() => {
+        moveTo('live');
+        sendText('[START]');
+      })
+      .catch(() => {
+        setErrorMessage('Microphone access is needed for the live examiner.');
+        moveTo('error');
+      });
+  }, [isConnected, startListening, sendText, moveTo]);
+
+  const endPreparation = useCallback(() => {
+    const call = prepCallRef.current;
+    if (!call) return;
+    prepCallRef.current = null;
+    setMicMuted(false);
+    setVadOptions(VAD_SETTINGS[2]);
+    sendToolResponse(call, { preparation_over: true });
+    setSecondsLeft(LIVE_PART2_SPEAK_SECONDS);
+    moveTo('part2_speaking');
+  }, [setMicMuted, setVadOptions, sendToolResponse, moveTo]);
+
+  const endLongTurn = useCallback(() => {
+    // Close any open turn first so the examiner hears the end of the answer
+    setMicMuted(true);
+    sendText('[TIME_UP]');
+    setMicMuted(false);
+    setVadOptions(VAD_SETTINGS[1]);
+    moveTo('live');
+  }, [setMicMuted, sendText, setVadOptions, moveTo]);
+
+  // Part 2 countdowns
+  useEffect(() => {
+    if (stage !== 'part2_prep' && stage !== 'part2_speaking') return;
+    if (secondsLeft <= 0) {
+      if (stage === 'part2_prep') endPreparation();
+      else endLongTurn();
+      return;
+    }
+    const timer = window.setTimeout(() => setSecondsLeft(s => s - 1), 1000);
+    return () => window.clearTimeout(timer);
+  }, [stage, secondsLeft, endPreparation, endLongTurn]);
+
+  // After end_test, finish once the examiner has said goodbye
+  useEffect(() => {
+    if (stage !== 'ending' || live.isSpeaking) return;
+    const timer = window.setTimeout(finish, END_GRACE_MS);
+    return () => window.clearTimeout(timer);
+  }, [stage, live.isSpeaking, finish]);
+
+  const status = live.isSpeaking
+    ? { icon: Volume2, text: 'Examiner is speaking' }
+    : stage === 'part2_prep'
+      ? { icon: Clock, text: 'Prepare your answer' }
+      : { icon: Mic, text: 'Listening - speak when you are ready' };
+
+  if (stage === 'error') {
+    return (
+      <Card className="w-full max-w-lg">
+        <CardContent className="p-6 space-y-4 text-center">
+          <AlertTriangle className="w-10 h-10 text-destructive mx-auto" />
+          <h2 className="text-lg font-semibold">The live examiner stopped</h2>
+          <p className="text-sm text-muted-foreground">{errorMessage}</p>
+          <div className="flex justify-center gap-2">
+            <Button variant="outline" onClick={onExit}>Back to practice</Button>
+            {questionsRef.current.length > 0 && (
+              <Button onClick={finish}>Submit answers so far</Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-2xl space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Button variant="ghost" size="icon" onClick={() => setShowExitDialog(true)} title="Exit Test">
+            <ArrowLeft className="w-4 h-4" />
+          </Button>
+          <ExitTestConfirmDialog
+            open={showExitDialog}
+            onOpenChange={setShowExitDialog}
+            onConfirm={() => {
+              finishedRef.current = true;
+              stopListening();
+              disconnect();
+              onExit();
+            }}
+            testType="Speaking Test"
+          />
+          <Badge variant="outline">Part {part}</Badge>
+          <span className="text-sm text-muted-foreground truncate">{test.topic}</span>
+        </div>
+        {(stage === 'part2_prep' || stage === 'part2_speaking') && (
+          <div className={cn(
+            'flex items-center gap-2 px-3 py-1 rounded-full font-mono',
+            secondsLeft <= 10 ? 'bg-destructive/20 text-destructive' : 'bg-muted'
+          )}>
+            <Clock className="w-4 h-4" />
+            {formatTime(secondsLeft)}
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-6">
+          <AIExaminerAvatar
+            isSpeaking={live.isSpeaking}
+            isListening={live.isListening && !live.isSpeaking && stage !== 'part2_prep'}
+            className="h-40"
+          />
+
+          {stage === 'connecting' ? (
+            <div className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Connecting to the examiner...
+            </div>
+          ) : (
+            <div className="flex items-center justify-center gap-2 text-sm text-muted-foreground">
+              <status.icon className="w-4 h-4" />
+              {status.text}
+            </div>
+          )}
+
+          {cueCard && (stage === 'part2_prep' || stage === 'part2_speaking') ? (
+            <div className="rounded-lg border bg-muted/30 p-4 space-y-2">
+              <p className="font-medium">{cueCard.topic}</p>
+              {cueCard.points.length > 0 && (
+                <>
+                  <p className="text-sm text-muted-foreground">You should say:</p>
+                  <ul className="list-disc pl-5 text-sm space-y-1">
+                    {cueCard.points.map(point => <li key={point}>{point}</li>)}
+                  </ul>
+                </>
+              )}
+              {stage === 'part2_prep' && (
+                <div className="space-y-2 pt-2">
+                  <Progress value={((LIVE_PART2_PREP_SECONDS - secondsLeft) / LIVE_PART2_PREP_SECONDS) * 100} />
+                  <Button size="sm" variant="outline" onClick={endPreparation}>I'm ready</Button>
+                </div>
+              )}
+            </div>
+          ) : currentQuestion && (
+            <p className="text-center text-lg">{currentQuestion.questionText}</p>
+          )}
+
+          {caption && !live.isSpeaking && (
+            <p className="text-center text-sm text-muted-foreground italic line-clamp-3">{caption}</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-center">
+        <Button
+          variant="outline"
+          onClick={finish}
+          disabled={stage === 'connecting' || questionsRef.current.length === 0}
+        >
+          <Square className="w-4 h-4 mr-2" />
+          Finish and submit
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
-import { Mic, Play, Square, Loader2, CheckCircle2, XCircle, Volume2, VolumeX, ArrowLeft, Globe, Info, AlertTriangle, Headphones, Radio } from 'lucide-react';
+import { Mic, Play, Square, Loader2, CheckCircle2, XCircle, Volume2, VolumeX, ArrowLeft, Globe, Info, AlertTriangle, Headphones, Radio, MessagesSquare } from 'lucide-react';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { Slider } from '@/components/ui/slider';
@@ -27,12 +27,16 @@ import { detectBrowser, ACCENT_OPTIONS, getStoredAccent, setStoredAccent, getSto
 export { ACCENT_OPTIONS };
 export type AccentCode = typeof ACCENT_OPTIONS[number]['value'];
 export type EvaluationMode = 'basic' | 'accuracy';
+// 'recorded': pre-generated questions and timed answers; 'live': a Gemini Live examiner
+export type ExaminerMode = 'recorded' | 'live';
 
 interface MicrophoneTestProps {
-  onTestComplete: (selectedAccent: AccentCode, evaluationMode: EvaluationMode) => void;
+  onTestComplete: (selectedAccent: AccentCode, evaluationMode: EvaluationMode, examinerMode: ExaminerMode) => void;
   onBack?: () => void;
   initialAccent?: AccentCode;
   initialEvaluationMode?: EvaluationMode;
+  /** Offer the live examiner (AI practice tests only) */
+  allowLiveExaminer?: boolean;
 }
 
 // Helper to check if microphone permission is already granted
@@ -66,7 +70,7 @@ const OPTIMIZED_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
   sampleRate: { ideal: 48000 },
 };
 
-export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialEvaluationMode }: MicrophoneTestProps) {
+export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialEvaluationMode, allowLiveExaminer }: MicrophoneTestProps) {
   // Browser detection for conditional UI
   const [browser] = useState(() => detectBrowser());
   
@@ -90,6 +94,7 @@ export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialE
   
   // Evaluation mode selection - DEFAULT to 'accuracy' (more reliable)
   const [evaluationMode, setEvaluationMode] = useState<EvaluationMode>(initialEvaluationMode || 'accuracy');
+  const [examinerMode, setExaminerMode] = useState<ExaminerMode>('recorded');
   
   // Accent selection - use stored accent or default based on browser
   const [selectedAccent, setSelectedAccent] = useState<AccentCode>(() => {
@@ -444,7 +449,73 @@ export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialE
         )}
       </div>
 
+      {/* Examiner Section */}
+      {allowLiveExaminer && (
+        <div className="bg-card border border-border rounded-xl p-6 mb-4">
+          <div className="flex items-center gap-3 mb-4">
+            <div className="w-10 h-10 rounded-full bg-primary/10 text-primary flex items-center justify-center shrink-0">
+              <MessagesSquare className="w-5 h-5" />
+            </div>
+            <div>
+              <h3 className="font-medium text-sm">Examiner</h3>
+              <p className="text-xs text-muted-foreground">Choose how the questions are asked</p>
+            </div>
+          </div>
+
+          <RadioGroup
+            value={examinerMode}
+            onValueChange={(v) => setExaminerMode(v as ExaminerMode)}
+            className="space-y-2"
+          >
+            <label 
+              className={cn(
+                "flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors",
+                examinerMode === 'recorded' 
+                  ? "border-primary bg-primary/5" 
+                  : "border-border hover:bg-muted/50"
+              )}
+              onClick={() => setExaminerMode('recorded')}
+            >
+              <RadioGroupItem value="recorded" className="mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <span className="font-medium text-sm">Recorded Questions</span>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Questions are played in turn and each answer has a fixed time
+                </p>
+              </div>
+            </label>
+
+            <label 
+              className={cn(
+                "flex items-start gap-3 p-3 rounded-lg border cursor-pointer transition-colors",
+                examinerMode === 'live' 
+                  ? "border-primary bg-primary/5" 
+                  : "border-border hover:bg-muted/50"
+              )}
+              onClick={() => setExaminerMode('live')}
+            >
+              <RadioGroupItem value="live" className="mt-0.5" />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium text-sm">Live Examiner</span>
+                  <span className="text-xs px-1.5 py-0.5 rounded bg-primary/10 text-primary">Beta</span>
+                </div>
+                <p className="text-xs text-muted-foreground mt-0.5">
+                  Talk with an AI examiner who listens and asks follow-ups. Needs your own Gemini API key and headphones are recommended.
+                </p>
+              </div>
+            </label>
+          </RadioGroup>
+        </div>
+      )}
+
       {/* Evaluation Mode Section */}
+      {examinerMode === 'live' ? (
+        <div className="flex items-start gap-2 mb-4 p-3 bg-primary/5 border border-primary/20 rounded-lg text-xs text-muted-foreground">
+          <Info className="w-3.5 h-3.5 mt-0.5 shrink-0 text-primary" />
+          <p>Live examiner answers are evaluated from your audio (Accuracy Mode).</p>
+        </div>
+      ) : (
       <div className="bg-card border border-border rounded-xl p-6 mb-4">
         <div className="flex items-center gap-3 mb-4">
           <div className="w-10 h-10 rounded-full bg-primary/10 text-primary flex items-center justify-center shrink-0">
@@ -563,10 +634,11 @@ export function MicrophoneTest({ onTestComplete, onBack, initialAccent, initialE
           </div>
         )}
       </div>
+      )}
 
       {/* Start Button */}
       <Button
-        onClick={() => onTestComplete(selectedAccent, evaluationMode)}
+        onClick={() => onTestComplete(selectedAccent, examinerMode === 'live' ? 'accuracy' : evaluationMode, examinerMode)}
         disabled={!micAccessGranted && testPassed !== true}
         className="w-full h-12 text-base"
         size="lg"
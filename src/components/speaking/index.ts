@@ -8,6 +8,7 @@ export { AudioVolumeControl } from './AudioVolumeControl';
 export { MicrophoneTest, ACCENT_OPTIONS as MIC_TEST_ACCENT_OPTIONS } from './MicrophoneTest';
 export type { AccentCode as MicTestAccentCode } from './MicrophoneTest';
 export { BrowserCompatibilityCheck } from './BrowserCompatibilityCheck';
+export { LiveExaminerSession } from './LiveExaminerSession';
 export { ModelAnswersAccordion } from './ModelAnswersAccordion';
 export { AccentSelector, BrowserSpeechModeBadge, ACCENT_OPTIONS } from './AccentSelector';
 export type { AccentCode } from './AccentSelector';
\ No newline at end of file
@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  AssignableTest,
+  CLASSROOM_MODULES,
+  ClassAssignment,
+  ClassroomModule,
+  createAssignment,
+  loadAssignableTests,
+} from '@/lib/classroom';
+
+interface AssignmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  classId: string;
+  teacherId: string;
+  onCreated: (assignment: ClassAssignment) => void;
+}
+
+// datetime-local wants local time without a zone; default to a week from now at 23:59
+function defaultDueValue(): string {
+  const due = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000);
+  due.setHours(23, 59, 0, 0);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${due.getFullYear()}-${pad(due.getMonth() + 1)}-${pad(due.getDate())}T${pad(due.getHours())}:${pad(due.getMinutes())}`;
+}
+
+export function AssignmentDialog({ open, onOpenChange, classId, teacherId, onCreated }: AssignmentDialogProps) {
+  const [module, setModule] = useState<ClassroomModule>('reading');
+  const [tests, setTests] = useState<AssignableTest[]>([]);
+  const [loadingTests, setLoadingTests] = useState(false);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [title, setTitle] = useState('');
+  const [instructions, setInstructions] = useState('');
+  const [dueAt, setDueAt] = useState(defaultDueValue);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setLoadingTests(true);
+    setSelectedKey('');
+    loadAssignableTests(module)
+      .then(data => {
+        if (!cancelled) setTests(data);
+      })
+      .catch(error => {
+        console.error('Error loading tests:', error);
+        toast.error('Could not load tests');
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingTests(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [open, module]);
+
+  const selected = tests.find(t => `${t.kind}:${t.id}` === selectedKey);
+
+  const handleSelect = (key: string) => {
+    setSelectedKey(key);
+    const test = tests.find(t => `${t.kind}:${t.id}` === key);
+    if (test && !title.trim()) setTitle(test.label);
+  };
+
+  const handleSave = async () => {
+    if (!selected || !title.trim() || !dueAt) return;
+    setSaving(true);
+    try {
+      const assignment = await createAssignment({
+        class_id: classId,
+        created_by: teacherId,
+        title: title.trim(),
+        instructions: instructions.trim() || null,
+        module,
+        test_id: selected.kind === 'test' ? selected.id : null,
+        preset_id: selected.kind === 'preset' ? selected.id : null,
+        due_at: new Date(dueAt).toISOString(),
+      });
+      onCreated(assignment);
+      onOpenChange(false);
+      setTitle('');
+      setInstructions('');
+      setDueAt(defaultDueValue());
+    } catch (error) {
+      console.error('Error creating assignment:', error);
+      toast.error('Could not create the assignment');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const officialTests = tests.filter(t => t.kind === 'test');
+  const presets = tests.filter(t => t.kind === 'preset');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New assignment</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Module</Label>
+            <Select value={module} onValueChange={value => setModule(value as ClassroomModule)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLASSROOM_MODULES.map(m => (
+                  <SelectItem key={m} value={m} className="capitalize">{m}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Test</Label>
+            <Select value={selectedKey} onValueChange={handleSelect} disabled={loadingTests}>
+              <SelectTrigger>
+                <SelectValue placeholder={loadingTests ? 'Loading tests...' : 'Choose a test or AI practice preset'} />
+              </SelectTrigger>
+              <SelectContent>
+                {officialTests.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Tests</SelectLabel>
+                    {officialTests.map(t => (
+                      <SelectItem key={t.id} value={`test:${t.id}`}>{t.label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+                {presets.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>AI practice presets</SelectLabel>
+                    {presets.map(t => (
+                      <SelectItem key={t.id} value={`preset:${t.id}`}>{t.label}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assignment-title">Title</Label>
+            <Input id="assignment-title" value={title} onChange={e => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assignment-due">Due</Label>
+            <Input id="assignment-due" type="datetime-local" value={dueAt} onChange={e => setDueAt(e.target.value)} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="assignment-instructions">Instructions (optional)</Label>
+            <Textarea id="assignment-instructions" value={instructions} onChange={e => setInstructions(e.target.value)} rows={3} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !selected || !title.trim() || !dueAt}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Assign
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { ClassAssignment, ClassStudent, GradeCell, clearBandOverride, saveBandOverride } from '@/lib/classroom';
+
+// 0-9 in half bands, highest first
+const BAND_OPTIONS = Array.from({ length: 19 }, (_, i) => (9 - i * 0.5).toFixed(1));
+
+export interface BandOverrideTarget {
+  assignment: ClassAssignment;
+  student: ClassStudent;
+  cell: GradeCell;
+}
+
+interface BandOverrideDialogProps {
+  target: BandOverrideTarget | null;
+  teacherId: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+export function BandOverrideDialog({ target, teacherId, onClose, onSaved }: BandOverrideDialogProps) {
+  const [band, setBand] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!target) return;
+    setBand(target.cell.band !== null ? target.cell.band.toFixed(1) : '');
+    setComment(target.cell.comment ?? '');
+  }, [target]);
+
+  const run = async (action: () => Promise<void>) => {
+    setSaving(true);
+    try {
+      await action();
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error('Error saving band override:', error);
+      toast.error('Could not save the grade');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!target || !band) return;
+    run(() =>
+      saveBandOverride({
+        assignmentId: target.assignment.id,
+        studentId: target.student.id,
+        teacherId,
+        band: Number(band),
+        aiBand: target.cell.aiBand,
+        comment,
+      })
+    );
+  };
+
+  const handleClear = () => {
+    if (!target) return;
+    run(() => clearBandOverride(target.assignment.id, target.student.id));
+  };
+
+  return (
+    <Dialog open={!!target} onOpenChange={open => !open && onClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{target?.student.name}</DialogTitle>
+          <DialogDescription>
+            {target?.assignment.title}
+            {target && (
+              <span className="block mt-1">
+                AI band: {target.cell.aiBand !== null ? target.cell.aiBand.toFixed(1) : target.cell.status === 'missing' ? 'not submitted' : 'evaluating'}
+              </span>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Your band</Label>
+            <Select value={band} onValueChange={setBand}>
+              <SelectTrigger className="w-32">
+                <SelectValue placeholder="Band" />
+              </SelectTrigger>
+              <SelectContent>
+                {BAND_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="override-comment">Comment for the student</Label>
+            <Textarea id="override-comment" value={comment} onChange={e => setComment(e.target.value)} rows={4} />
+          </div>
+        </div>
+        <DialogFooter className="gap-2">
+          {target?.cell.overridden && (
+            <Button variant="ghost" onClick={handleClear} disabled={saving} className="sm:mr-auto">
+              Restore AI band
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || !band}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save grade
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,92 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { ClassAssignment, GradeCell, GradebookRow, isAssignmentOverdue } from '@/lib/classroom';
+
+interface GradebookTableProps {
+  rows: GradebookRow[];
+  assignments: ClassAssignment[];
+  onSelectCell: (row: GradebookRow, assignment: ClassAssignment, cell: GradeCell) => void;
+}
+
+function cellLabel(cell: GradeCell, assignment: ClassAssignment): string {
+  if (cell.band !== null) return cell.band.toFixed(1);
+  if (cell.status === 'awaiting_band') return '...';
+  return isAssignmentOverdue(assignment) ? 'missing' : '-';
+}
+
+export function GradebookTable({ rows, assignments, onSelectCell }: GradebookTableProps) {
+  if (rows.length === 0) {
+    return <p className="text-center text-muted-foreground py-12">No students have joined yet. Share the invite code.</p>;
+  }
+  if (assignments.length === 0) {
+    return <p className="text-center text-muted-foreground py-12">Set an assignment to start the gradebook.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto rounded-lg border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="sticky left-0 bg-background min-w-[180px]">Student</TableHead>
+            {assignments.map(assignment => (
+              <TableHead key={assignment.id} className="text-center min-w-[110px]">
+                <div className="font-medium text-foreground truncate max-w-[140px]" title={assignment.title}>{assignment.title}</div>
+                <div className="text-xs font-normal capitalize">{assignment.module}</div>
+              </TableHead>
+            ))}
+            <TableHead className="text-center">Average</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map(row => (
+            <TableRow key={row.student.id}>
+              <TableCell className="sticky left-0 bg-background">
+                <div className="font-medium">{row.student.name}</div>
+                {row.student.email && row.student.email !== row.student.name && (
+                  <div className="text-xs text-muted-foreground">{row.student.email}</div>
+                )}
+              </TableCell>
+              {assignments.map(assignment => {
+                const cell = row.cells[assignment.id];
+                return (
+                  <TableCell key={assignment.id} className="text-center p-1">
+                    <Tooltip>
+                      <TooltipTrigger asChild>
+                        <button
+                          type="button"
+                          onClick={() => onSelectCell(row, assignment, cell)}
+                          className={cn(
+                            'w-full rounded-md px-2 py-1.5 text-sm tabular-nums hover:bg-muted transition-colors',
+                            cell.overridden && 'text-primary font-semibold',
+                            cell.band === null && cell.status === 'missing' && isAssignmentOverdue(assignment) && 'text-destructive',
+                            cell.late && 'underline decoration-amber-500 decoration-dotted underline-offset-4'
+                          )}
+                        >
+                          {cellLabel(cell, assignment)}
+                        </button>
+                      </TooltipTrigger>
+                      <TooltipContent>
+                        {cell.overridden
+                          ? `Teacher band${cell.aiBand !== null ? ` (AI ${cell.aiBand.toFixed(1)})` : ''}`
+                          : cell.status === 'awaiting_band'
+                            ? 'Submitted, AI evaluation pending'
+                            : cell.status === 'graded'
+                              ? 'AI band - click to override'
+                              : 'Not submitted'}
+                        {cell.late && ' · late'}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TableCell>
+                );
+              })}
+              <TableCell className="text-center font-semibold tabular-nums">
+                {row.averageBand !== null ? row.averageBand.toFixed(1) : '-'}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
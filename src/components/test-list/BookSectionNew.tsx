@@ -4,6 +4,7 @@ import { Clock, Headphones, BookOpen, Play, CheckCircle2, Circle, Loader2 } from
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
 import { QuestionTypeBadge } from './QuestionTypeBadge';
+import { OfflineDownloadButton } from './OfflineDownloadButton';
 
 interface QuestionGroup {
   id: string;
@@ -313,15 +314,16 @@ function TestCard({ test, testType, score }: TestCardProps) {
       </div>
 
       {/* Footer - Start Button */}
-      <div className="p-3 pt-2 border-t border-border/50">
+      <div className="p-3 pt-2 border-t border-border/50 flex gap-2">
         <Button 
           onClick={handleStart}
           size="sm"
-          className="w-full h-8 text-xs font-semibold"
+          className="flex-1 h-8 text-xs font-semibold"
         >
           <Play className="w-3 h-3 mr-1.5" />
           {hasScore ? 'Retry Full Test' : 'Start Full Test'}
         </Button>
+        <OfflineDownloadButton testType={testType} testId={test.id} />
       </div>
     </div>
   );
@@ -0,0 +1,90 @@
+import { useEffect, useState } from 'react';
+import { CheckCircle2, Download, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { cn } from '@/lib/utils';
+import { OfflineModule, deleteTestBundle, getTestBundle, isOfflineStorageSupported } from '@/lib/offlineStore';
+import { downloadTestForOffline } from '@/lib/offlineTests';
+
+interface OfflineDownloadButtonProps {
+  testType: OfflineModule;
+  testId: string;
+  className?: string;
+}
+
+type DownloadState = 'checking' | 'none' | 'downloading' | 'downloaded';
+
+/** Downloads a test (content and audio) so it can be taken with no connection */
+export function OfflineDownloadButton({ testType, testId, className }: OfflineDownloadButtonProps) {
+  const [state, setState] = useState<DownloadState>('checking');
+  const [progress, setProgress] = useState(0);
+
+  useEffect(() => {
+    if (!isOfflineStorageSupported()) return;
+    getTestBundle(testType, testId)
+      .then(bundle => setState(bundle ? 'downloaded' : 'none'))
+      .catch(() => setState('none'));
+  }, [testType, testId]);
+
+  if (!isOfflineStorageSupported()) return null;
+
+  const handleDownload = async () => {
+    setState('downloading');
+    setProgress(0);
+    try {
+      await downloadTestForOffline(testType, testId, setProgress);
+      setState('downloaded');
+      toast.success('Available offline', { description: 'You can take this test without an internet connection.' });
+    } catch (error) {
+      console.error('Error downloading test for offline use:', error);
+      setState('none');
+      toast.error('Download failed', { description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      await deleteTestBundle(testType, testId);
+      setState('none');
+      toast.success('Offline copy removed');
+    } catch (error) {
+      console.error('Error removing offline test:', error);
+      toast.error('Could not remove offline copy', { description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  const label = {
+    checking: 'Checking offline copy...',
+    none: 'Download for offline use',
+    downloading: `Downloading... ${Math.round(progress * 100)}%`,
+    downloaded: 'Available offline - click to remove',
+  }[state];
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Button
+          variant="outline"
+          size="icon"
+          aria-label={label}
+          disabled={state === 'checking' || state === 'downloading'}
+          onClick={state === 'downloaded' ? handleRemove : handleDownload}
+          className={cn("h-8 w-8 shrink-0 group", state === 'downloaded' && "text-success border-success/40", className)}
+        >
+          {state === 'downloading' || state === 'checking' ? (
+            <Loader2 className="w-3.5 h-3.5 animate-spin" />
+          ) : state === 'downloaded' ? (
+            <>
+              <CheckCircle2 className="w-3.5 h-3.5 group-hover:hidden" />
+              <Trash2 className="w-3.5 h-3.5 hidden group-hover:block" />
+            </>
+          ) : (
+            <Download className="w-3.5 h-3.5" />
+          )}
+        </Button>
+      </TooltipTrigger>
+      <TooltipContent>{label}</TooltipContent>
+    </Tooltip>
+  );
+}
@@ -1,6 +1,6 @@
 import { Link } from 'react-router-dom';
 import { cn } from '@/lib/utils';
-import { Check, ChevronRight, Lock, BookOpen } from 'lucide-react';
+import { Check, ChevronRight, Lock, BookOpen, PenLine } from 'lucide-react';
 
 interface QuestionGroup {
   id: string;
@@ -156,7 +156,7 @@ export function TestPartCard({
       {/* Action Buttons */}
       <div className={cn(
         "flex border-t border-border/40",
-        testType === 'reading' ? "divide-x divide-border/40" : ""
+        !isLocked ? "divide-x divide-border/40" : ""
       )}>
         {/* Study Button - Only for Reading */}
         {testType === 'reading' && !isLocked && (
@@ -172,6 +172,21 @@ export function TestPartCard({
             Study
           </Link>
         )}
+
+        {/* Dictation Button - Only for Listening */}
+        {testType === 'listening' && !isLocked && (
+          <Link
+            to={`/listening/dictation/${testId}?part=${partNumber}`}
+            className={cn(
+              "flex-1 flex items-center justify-center gap-2 py-3",
+              "text-sm font-medium transition-all",
+              "text-muted-foreground hover:text-primary hover:bg-primary/5"
+            )}
+          >
+            <PenLine className="w-4 h-4" />
+            Dictation
+          </Link>
+        )}
         
         {/* Start Part CTA */}
         <Link
@@ -4,3 +4,4 @@ export { QuestionTypeFilter } from './QuestionTypeFilter';
 export { BookSection } from './BookSection';
 export { BookSectionNew } from './BookSectionNew';
 export { QuestionTypeBadge, QUESTION_TYPE_ABBR, getQuestionTypeInfo, toUrlFormat } from './QuestionTypeBadge';
+export { OfflineDownloadButton } from './OfflineDownloadButton';
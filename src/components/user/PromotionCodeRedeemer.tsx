@@ -0,0 +1,69 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { Gift, Loader2 } from 'lucide-react';
+import { promotionErrorMessage, redeemPromotionCode } from '@/lib/promotionCodes';
+
+/** Redeems promotion codes that grant credits or plan access; discounts are entered at checkout */
+export function PromotionCodeRedeemer() {
+  const { toast } = useToast();
+  const [code, setCode] = useState('');
+  const [redeeming, setRedeeming] = useState(false);
+
+  const handleRedeem = async () => {
+    if (!code.trim()) return;
+    setRedeeming(true);
+    try {
+      const result = await redeemPromotionCode(code);
+      if (!result.ok) {
+        toast({ title: 'Code not redeemed', description: promotionErrorMessage(result.error_type), variant: 'destructive' });
+        return;
+      }
+      toast({
+        title: 'Code redeemed',
+        description: result.grant_type === 'credits'
+          ? `${result.credits} credits were added to your account.`
+          : `You have ${result.plan_name} until ${format(new Date(result.end_date ?? Date.now()), 'MMM d, yyyy')}.`,
+      });
+      setCode('');
+    } catch (error) {
+      console.error('Error redeeming promotion code:', error);
+      toast({ title: 'Code not redeemed', description: promotionErrorMessage(null), variant: 'destructive' });
+    } finally {
+      setRedeeming(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift size={20} className="text-primary" />
+          Promotion Code
+        </CardTitle>
+        <CardDescription>
+          Redeem a code for free credits or plan access. Discount codes are entered when you choose a plan.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex gap-2 max-w-md">
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value.toUpperCase())}
+            onKeyDown={(e) => e.key === 'Enter' && handleRedeem()}
+            placeholder="e.g. IELTS-AB12CD34"
+            className="font-mono"
+            aria-label="Promotion code"
+          />
+          <Button onClick={handleRedeem} disabled={redeeming || !code.trim()}>
+            {redeeming && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Redeem
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
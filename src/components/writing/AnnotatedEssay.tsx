@@ -0,0 +1,161 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { ArrowRight, Highlighter } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  AnnotationCategory,
+  AnnotationCriterion,
+  WritingAnnotation,
+  ANNOTATION_CATEGORIES,
+  ANNOTATION_CRITERIA,
+  CATEGORY_HIGHLIGHT_CLASSES,
+  CATEGORY_LABELS,
+  CRITERION_LABELS,
+  countByCategory,
+  countByCriterion,
+  normalizeAnnotations,
+  segmentText,
+} from '@/lib/writingAnnotations';
+
+interface AnnotatedEssayProps {
+  text: string;
+  /** Raw `annotations` array from an evaluation report */
+  annotations: unknown;
+  className?: string;
+}
+
+type Filter =
+  | { type: 'all' }
+  | { type: 'criterion'; value: AnnotationCriterion }
+  | { type: 'category'; value: AnnotationCategory };
+
+export function AnnotatedEssay({ text, annotations, className }: AnnotatedEssayProps) {
+  const [filter, setFilter] = useState<Filter>({ type: 'all' });
+
+  const allAnnotations = useMemo(() => normalizeAnnotations(annotations, text), [annotations, text]);
+
+  const visibleAnnotations = useMemo(() => {
+    if (filter.type === 'criterion') return allAnnotations.filter(a => a.criterion === filter.value);
+    if (filter.type === 'category') return allAnnotations.filter(a => a.category === filter.value);
+    return allAnnotations;
+  }, [allAnnotations, filter]);
+
+  const segments = useMemo(() => segmentText(text, visibleAnnotations), [text, visibleAnnotations]);
+  const criterionCounts = useMemo(() => countByCriterion(allAnnotations), [allAnnotations]);
+  const categoryCounts = useMemo(() => countByCategory(allAnnotations), [allAnnotations]);
+
+  const isActive = (f: Filter) =>
+    f.type === filter.type && (f.type === 'all' || (filter.type !== 'all' && f.value === filter.value));
+
+  const toggleFilter = (f: Filter) => setFilter(isActive(f) ? { type: 'all' } : f);
+
+  if (allAnnotations.length === 0) {
+    return (
+      <p className={cn("whitespace-pre-wrap text-sm", className)}>{text}</p>
+    );
+  }
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      {/* Criterion summary - where the points were lost */}
+      <div className="flex flex-wrap items-center gap-2">
+        <Highlighter className="w-4 h-4 text-muted-foreground" />
+        <Badge
+          variant={filter.type === 'all' ? 'default' : 'outline'}
+          className="cursor-pointer"
+          onClick={() => setFilter({ type: 'all' })}
+        >
+          All ({allAnnotations.length})
+        </Badge>
+        {ANNOTATION_CRITERIA.filter(c => criterionCounts[c] > 0).map(criterion => (
+          <Badge
+            key={criterion}
+            variant={isActive({ type: 'criterion', value: criterion }) ? 'default' : 'outline'}
+            className="cursor-pointer"
+            title={CRITERION_LABELS[criterion]}
+            onClick={() => toggleFilter({ type: 'criterion', value: criterion })}
+          >
+            {criterion} ({criterionCounts[criterion]})
+          </Badge>
+        ))}
+      </div>
+
+      {/* Category legend */}
+      <div className="flex flex-wrap gap-2 text-xs">
+        {ANNOTATION_CATEGORIES.filter(c => categoryCounts[c] > 0).map(category => (
+          <button
+            key={category}
+            type="button"
+            onClick={() => toggleFilter({ type: 'category', value: category })}
+            className={cn(
+              "px-2 py-0.5 rounded border transition-opacity",
+              CATEGORY_HIGHLIGHT_CLASSES[category],
+              filter.type !== 'all' && !isActive({ type: 'category', value: category }) && "opacity-50"
+            )}
+          >
+            {CATEGORY_LABELS[category]} · {categoryCounts[category]}
+          </button>
+        ))}
+      </div>
+
+      {/* Annotated text */}
+      <p className="whitespace-pre-wrap text-sm leading-7" style={{ fontSize: '14px' }}>
+        {segments.map(segment =>
+          segment.annotations.length === 0 ? (
+            <span key={segment.start}>{segment.text}</span>
+          ) : (
+            <AnnotatedSpan key={segment.start} text={segment.text} annotations={segment.annotations} />
+          )
+        )}
+      </p>
+    </div>
+  );
+}
+
+function AnnotatedSpan({ text, annotations }: { text: string; annotations: WritingAnnotation[] }) {
+  const primary = annotations[0];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <mark
+          className={cn(
+            "rounded-sm px-0.5 cursor-pointer text-foreground underline decoration-2 underline-offset-4",
+            CATEGORY_HIGHLIGHT_CLASSES[primary.category],
+            primary.severity === 'major' ? 'decoration-solid' : 'decoration-dotted'
+          )}
+        >
+          {text}
+        </mark>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="start">
+        {annotations.map(annotation => (
+          <div key={annotation.id} className="space-y-1.5">
+            <div className="flex flex-wrap items-center gap-1.5">
+              <Badge variant="outline" className={cn("text-[10px]", CATEGORY_HIGHLIGHT_CLASSES[annotation.category])}>
+                {CATEGORY_LABELS[annotation.category]}
+              </Badge>
+              <Badge variant="secondary" className="text-[10px]" title={CRITERION_LABELS[annotation.criterion]}>
+                {annotation.criterion}
+              </Badge>
+              {annotation.severity === 'major' && (
+                <Badge variant="destructive" className="text-[10px]">Major</Badge>
+              )}
+            </div>
+            {annotation.correction && (
+              <div className="flex items-center gap-2 text-sm">
+                <span className="line-through text-destructive">{annotation.quote}</span>
+                <ArrowRight className="w-3 h-3 shrink-0 text-muted-foreground" />
+                <span className="font-medium text-success">{annotation.correction}</span>
+              </div>
+            )}
+            {annotation.explanation && (
+              <p className="text-xs text-muted-foreground">{annotation.explanation}</p>
+            )}
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
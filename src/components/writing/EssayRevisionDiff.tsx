@@ -0,0 +1,130 @@
+import { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { GitCompare, TrendingDown, TrendingUp, Minus } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { Tables } from '@/integrations/supabase/types';
+import { criterionBandDeltas, diffStats, diffWords, formatBandDelta } from '@/lib/essayRevision';
+
+type WritingSubmission = Tables<'writing_submissions'>;
+
+interface EssayRevisionDiffProps {
+  /** Version chain from the original draft to the submission being viewed */
+  versions: WritingSubmission[];
+}
+
+function DeltaBadge({ delta }: { delta: number | null }) {
+  if (delta === null) return <span className="text-xs text-muted-foreground">—</span>;
+  const Icon = delta > 0 ? TrendingUp : delta < 0 ? TrendingDown : Minus;
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "gap-1 text-xs",
+        delta > 0 && "border-success/40 text-success",
+        delta < 0 && "border-destructive/40 text-destructive"
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      {formatBandDelta(delta)}
+    </Badge>
+  );
+}
+
+export function EssayRevisionDiff({ versions }: EssayRevisionDiffProps) {
+  const current = versions[versions.length - 1];
+  const earlier = versions.slice(0, -1);
+  const [baseId, setBaseId] = useState<string>(earlier[earlier.length - 1]?.id ?? '');
+
+  const base = earlier.find(v => v.id === baseId) ?? earlier[earlier.length - 1];
+
+  const segments = useMemo(
+    () => (base ? diffWords(base.submission_text, current.submission_text) : []),
+    [base, current]
+  );
+  const stats = useMemo(() => diffStats(segments), [segments]);
+  const deltas = useMemo(
+    () => (base ? criterionBandDeltas(base.evaluation_report, current.evaluation_report) : []),
+    [base, current]
+  );
+
+  if (!base) return null;
+
+  const overallDelta = base.overall_band !== null && current.overall_band !== null
+    ? current.overall_band - base.overall_band
+    : null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-semibold flex items-center gap-2">
+          <GitCompare size={18} className="text-primary" />
+          Changes Since Draft {base.revision_number}
+        </h3>
+        {earlier.length > 1 && (
+          <Select value={base.id} onValueChange={setBaseId}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Compare with" />
+            </SelectTrigger>
+            <SelectContent>
+              {earlier.map(version => (
+                <SelectItem key={version.id} value={version.id}>
+                  Compare with Draft {version.revision_number}
+                  {version.overall_band !== null && ` (Band ${version.overall_band.toFixed(1)})`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {/* Band deltas */}
+      <div className="rounded-md border divide-y text-sm">
+        <div className="flex items-center justify-between px-3 py-2 font-medium">
+          <span>Overall Band</span>
+          <span className="flex items-center gap-3">
+            <span className="text-muted-foreground">
+              {base.overall_band?.toFixed(1) ?? '—'} → {current.overall_band?.toFixed(1) ?? '—'}
+            </span>
+            <DeltaBadge delta={overallDelta} />
+          </span>
+        </div>
+        {deltas.map(d => (
+          <div key={d.key} className="flex items-center justify-between px-3 py-2">
+            <span>{d.label}</span>
+            <span className="flex items-center gap-3">
+              <span className="text-muted-foreground">
+                {d.previous ?? '—'} → {d.current ?? '—'}
+              </span>
+              <DeltaBadge delta={d.delta} />
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {/* Word-level diff */}
+      <div className="space-y-2">
+        <div className="flex flex-wrap gap-2 text-xs">
+          <Badge variant="outline" className="border-success/40 text-success">+{stats.wordsAdded} words</Badge>
+          <Badge variant="outline" className="border-destructive/40 text-destructive">−{stats.wordsRemoved} words</Badge>
+          <Badge variant="outline">{stats.wordsUnchanged} unchanged</Badge>
+        </div>
+        <p className="whitespace-pre-wrap text-sm leading-7 bg-muted/30 p-4 rounded-md border">
+          {segments.map((segment, index) =>
+            segment.op === 'equal' ? (
+              <span key={index}>{segment.text}</span>
+            ) : segment.op === 'added' ? (
+              <ins key={index} className="no-underline rounded-sm bg-emerald-200/70 dark:bg-emerald-900/50 px-0.5">
+                {segment.text}
+              </ins>
+            ) : (
+              <del key={index} className="rounded-sm bg-rose-200/70 dark:bg-rose-900/50 px-0.5 text-muted-foreground">
+                {segment.text}
+              </del>
+            )
+          )}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import {
   calculateBandScoreFromPercentage,
   calculateListeningBandScoreFromRaw,
+  calculateReadingBandScoreFromRaw40,
   processMCMAGroup,
   normalizeAnswer,
   checkAnswerWithAlternatives,
@@ -142,6 +143,34 @@ describe('calculateListeningBandScoreFromRaw', () => {
   });
 });
 
+describe('calculateReadingBandScoreFromRaw40', () => {
+  it('uses the Academic table by default', () => {
+    expect(calculateReadingBandScoreFromRaw40(39)).toBe(9);
+    expect(calculateReadingBandScoreFromRaw40(30)).toBe(7);
+    expect(calculateReadingBandScoreFromRaw40(23)).toBe(6);
+    expect(calculateReadingBandScoreFromRaw40(15)).toBe(5);
+  });
+
+  it('needs more correct answers for the same band in General Training', () => {
+    expect(calculateReadingBandScoreFromRaw40(39, 'general')).toBe(8.5);
+    expect(calculateReadingBandScoreFromRaw40(40, 'general')).toBe(9);
+    expect(calculateReadingBandScoreFromRaw40(34, 'general')).toBe(7);
+    expect(calculateReadingBandScoreFromRaw40(30, 'general')).toBe(6);
+    expect(calculateReadingBandScoreFromRaw40(23, 'general')).toBe(5);
+    expect(calculateReadingBandScoreFromRaw40(15, 'general')).toBe(4);
+  });
+
+  it('follows the General Training boundaries exactly', () => {
+    expect(calculateReadingBandScoreFromRaw40(36, 'general')).toBe(7.5);
+    expect(calculateReadingBandScoreFromRaw40(33, 'general')).toBe(6.5);
+    expect(calculateReadingBandScoreFromRaw40(29, 'general')).toBe(5.5);
+    expect(calculateReadingBandScoreFromRaw40(26, 'general')).toBe(5);
+    expect(calculateReadingBandScoreFromRaw40(14, 'general')).toBe(3.5);
+    expect(calculateReadingBandScoreFromRaw40(6, 'general')).toBe(2.5);
+    expect(calculateReadingBandScoreFromRaw40(0, 'general')).toBe(0);
+  });
+});
+
 describe('processMCMAGroup', () => {
   it('returns correct result when all answers match', () => {
     const result = processMCMAGroup(1, 3, 'A,B,C', 'A,B,C', 'Test explanation');
@@ -1,18 +1,21 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { PlanTier, canUseModule as planAllowsModule, getUserPlan } from '@/lib/planTiers';
 
 interface AccessStatus {
   canSubmit: boolean;
   isSubscribed: boolean;
-  isPromotionActive: boolean;
+  // Plan tier that applies now (subscription tier or the default); null while loading or signed out
+  plan: PlanTier | null;
+  canUseModule: (module: string) => boolean;
   loading: boolean;
 }
 
 export const useAccessControl = (): AccessStatus => {
   const { user, loading: authLoading } = useAuth();
   const [isSubscribed, setIsSubscribed] = useState(false);
-  const [isPromotionActive, setIsPromotionActive] = useState(false);
+  const [plan, setPlan] = useState<PlanTier | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -22,27 +25,16 @@ export const useAccessControl = (): AccessStatus => {
       setLoading(true);
       
       try {
-        // Check if promotion is active (public query)
-        const { data: promotions } = await supabase
-          .from('promotions')
-          .select('id')
-          .limit(1);
-        
-        setIsPromotionActive(!!(promotions && promotions.length > 0));
-
         // Check subscription if user is logged in
         if (user) {
-          const { data: subscriptions } = await supabase
-            .from('subscriptions')
-            .select('id, status, end_date')
-            .eq('user_id', user.id)
-            .eq('status', 'active')
-            .gte('end_date', new Date().toISOString())
-            .limit(1);
-          
-          setIsSubscribed(!!(subscriptions && subscriptions.length > 0));
+          // Counts the grace period after a failed renewal and the rest of a cancelled period
+          const { data: hasSubscription } = await supabase.rpc('has_active_subscription', { p_user_id: user.id });
+
+          setIsSubscribed(!!hasSubscription);
+          setPlan(await getUserPlan());
         } else {
           setIsSubscribed(false);
+          setPlan(null);
         }
       } catch (error) {
         console.error('Error checking access:', error);
@@ -54,13 +46,16 @@ export const useAccessControl = (): AccessStatus => {
     checkAccess();
   }, [user, authLoading]);
 
-  // User can submit if logged in AND (subscribed OR promotion active)
-  const canSubmit = !!user && (isSubscribed || isPromotionActive);
+  // User can submit if logged in AND subscribed; a plan access promotion code creates a subscription
+  const canSubmit = !!user && isSubscribed;
+
+  const canUseModule = useCallback((module: string) => planAllowsModule(plan, module), [plan]);
 
   return {
     canSubmit,
     isSubscribed,
-    isPromotionActive,
+    plan,
+    canUseModule,
     loading: loading || authLoading
   };
 };
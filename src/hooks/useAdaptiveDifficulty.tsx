@@ -0,0 +1,110 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+import {
+  ADAPTIVE_LEVELS,
+  AbilityObservation,
+  AbilityProfile,
+  AdaptiveLevel,
+  AdaptiveModule,
+  AdaptiveRecommendation,
+  bandToAccuracy,
+  estimateAbilities,
+  recommendPractice,
+} from '@/lib/adaptiveDifficulty';
+
+// Same window as the edge functions (supabase/functions/_shared/learnerAbility.ts)
+const OBSERVATION_LIMIT = 200;
+
+function isAdaptiveLevel(value: string): value is AdaptiveLevel {
+  return (ADAPTIVE_LEVELS as string[]).includes(value);
+}
+
+/**
+ * The learner's ability estimate for one module, for previewing what adaptive
+ * mode will pick. The edge functions resolve 'adaptive' requests themselves
+ * from the same results.
+ */
+export function useAdaptiveDifficulty(module: AdaptiveModule) {
+  const { user } = useAuth();
+  const [profile, setProfile] = useState<AbilityProfile | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const fetchProfile = useCallback(async () => {
+    if (!user) {
+      setProfile(null);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      const [practice, official] = await Promise.all([
+        supabase
+          .from('ai_practice_results')
+          .select('score, total_questions, completed_at, ai_practice_tests!inner(difficulty, question_type)')
+          .eq('user_id', user.id)
+          .eq('module', module)
+          .order('completed_at', { ascending: false })
+          .limit(OBSERVATION_LIMIT),
+        supabase
+          .from('test_results')
+          .select('band_score, completed_at')
+          .eq('user_id', user.id)
+          .eq('test_type', module)
+          .not('band_score', 'is', null)
+          .order('completed_at', { ascending: false })
+          .limit(OBSERVATION_LIMIT),
+      ]);
+
+      if (practice.error || official.error) {
+        console.error('Error fetching ability observations:', practice.error || official.error);
+        return;
+      }
+
+      const observations: AbilityObservation[] = [];
+      practice.data?.forEach(row => {
+        const test = row.ai_practice_tests;
+        if (!test || !isAdaptiveLevel(test.difficulty) || row.total_questions <= 0) return;
+        observations.push({
+          module,
+          questionType: test.question_type,
+          difficulty: test.difficulty,
+          accuracy: row.score / row.total_questions,
+          completedAt: row.completed_at,
+        });
+      });
+      official.data?.forEach(row => {
+        observations.push({
+          module,
+          questionType: null,
+          difficulty: 'exam',
+          accuracy: bandToAccuracy(Number(row.band_score)),
+          completedAt: row.completed_at,
+        });
+      });
+
+      setProfile(estimateAbilities(observations));
+    } catch (err) {
+      console.error('Error fetching ability observations:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [user, module]);
+
+  useEffect(() => {
+    fetchProfile();
+  }, [fetchProfile]);
+
+  const recommend = useCallback(
+    (questionTypes: string[]): AdaptiveRecommendation | null =>
+      profile ? recommendPractice(profile, module, questionTypes) : null,
+    [profile, module]
+  );
+
+  return {
+    profile,
+    loading,
+    recommend,
+    refetch: fetchProfile,
+  };
+}
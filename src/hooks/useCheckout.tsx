@@ -0,0 +1,62 @@
+import { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { promotionErrorMessage } from '@/lib/promotionCodes';
+
+export type CheckoutItem =
+  | { kind: 'subscription'; planSlug: string; promoCode?: string }
+  | { kind: 'credit_pack'; packId: string };
+
+export const CHECKOUT_RETURN_PATH = '/checkout/return';
+
+/**
+ * Sends the user to the billing provider's checkout for a plan or credit pack
+ * (via create-checkout). Signed-out users go to sign in first and come back to
+ * the page they were on. The provider returns them to /checkout/return. A
+ * promotion code that cannot be used is reported without leaving the page.
+ */
+export function useCheckout() {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  // Plan slug or pack id of the checkout being opened
+  const [pendingItem, setPendingItem] = useState<string | null>(null);
+
+  const startCheckout = useCallback(async (item: CheckoutItem) => {
+    if (!user) {
+      navigate(`/auth?redirect=${encodeURIComponent(window.location.pathname)}`);
+      return;
+    }
+
+    setPendingItem(item.kind === 'subscription' ? item.planSlug : item.packId);
+    try {
+      const { data, error } = await supabase.functions.invoke('create-checkout', {
+        body: { ...item, returnUrl: `${window.location.origin}${CHECKOUT_RETURN_PATH}` },
+      });
+      if (error) {
+        const body = error instanceof FunctionsHttpError ? await error.context.json().catch(() => null) : null;
+        if (body?.errorType) {
+          toast({ title: 'Promotion code not applied', description: promotionErrorMessage(body.errorType), variant: 'destructive' });
+          setPendingItem(null);
+          return;
+        }
+        throw error;
+      }
+      if (!data?.url) throw new Error(data?.error ?? 'No checkout URL returned');
+      window.location.assign(data.url);
+    } catch (error) {
+      console.error('Error starting checkout:', error);
+      toast({
+        title: 'Checkout unavailable',
+        description: 'We could not start the payment. Please try again in a moment.',
+        variant: 'destructive',
+      });
+      setPendingItem(null);
+    }
+  }, [user, navigate, toast]);
+
+  return { startCheckout, pendingItem };
+}
@@ -1,13 +1,34 @@
 import { useState, useRef, useCallback, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import {
+  BARGE_IN_THRESHOLD_FACTOR,
+  ExaminerScript,
+  VAD_SETTINGS,
+  VadOptions,
+  createVoiceActivityDetector,
+  rmsLevel,
+} from '@/lib/liveExaminer';
+
+export interface GeminiFunctionCall {
+  id: string;
+  name: string;
+  args?: Record<string, unknown>;
+}
 
 interface GeminiLiveConfig {
   partType: 'PART_1' | 'PART_2' | 'PART_3' | 'FULL_TEST';
   difficulty: string;
   topic?: string;
   voiceName?: string;
+  /** Planned questions for the examiner to work from */
+  script?: ExaminerScript;
   onAudioReceived?: (audioData: ArrayBuffer) => void;
   onTranscriptReceived?: (text: string, isFinal: boolean) => void;
+  /** Live transcription of what the candidate says */
+  onInputTranscript?: (text: string) => void;
+  onToolCall?: (call: GeminiFunctionCall) => void;
+  /** One candidate turn (voice activity start to end), 16 kHz PCM16 */
+  onUserTurn?: (pcm: Int16Array) => void;
   onError?: (error: Error) => void;
   onConnectionChange?: (connected: boolean) => void;
 }
@@ -25,11 +46,21 @@ interface GeminiMessage {
     };
     interrupted?: boolean;
     turnComplete?: boolean;
+    inputTranscription?: { text?: string };
+    outputTranscription?: { text?: string };
   };
+  toolCall?: { functionCalls?: GeminiFunctionCall[] };
   setupComplete?: boolean;
   error?: { message: string };
 }
 
+interface MicrophoneGraph {
+  stream: MediaStream;
+  audioContext: AudioContext;
+  processor: ScriptProcessorNode;
+  source: MediaStreamAudioSourceNode;
+}
+
 export function useGeminiLiveAudio(config: GeminiLiveConfig) {
   const [isConnected, setIsConnected] = useState(false);
   const [isSpeaking, setIsSpeaking] = useState(false);
@@ -39,11 +70,18 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
 
   const wsRef = useRef<WebSocket | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
-  const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const microphoneRef = useRef<MicrophoneGraph | null>(null);
   const audioQueueRef = useRef<ArrayBuffer[]>([]);
   const isPlayingRef = useRef(false);
   const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
 
+  // Voice activity detection: the browser decides when the candidate's turn starts and ends
+  const vadRef = useRef(createVoiceActivityDetector(VAD_SETTINGS[1]));
+  const micMutedRef = useRef(false);
+  // Chunks heard just before speech was detected, so the first syllable is not lost
+  const prerollRef = useRef<Int16Array[]>([]);
+  const turnChunksRef = useRef<Int16Array[]>([]);
+
   // Initialize audio context
   const initAudioContext = useCallback(() => {
     if (!audioContextRef.current) {
@@ -128,6 +166,23 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
         return;
       }
 
+      if (message.toolCall?.functionCalls) {
+        for (const call of message.toolCall.functionCalls) {
+          config.onToolCall?.(call);
+        }
+        return;
+      }
+
+      if (message.serverContent?.inputTranscription?.text) {
+        config.onInputTranscript?.(message.serverContent.inputTranscription.text);
+      }
+
+      if (message.serverContent?.outputTranscription?.text) {
+        const text = message.serverContent.outputTranscription.text;
+        setTranscript(prev => prev + text);
+        config.onTranscriptReceived?.(text, false);
+      }
+
       if (message.serverContent?.modelTurn?.parts) {
         for (const part of message.serverContent.modelTurn.parts) {
           if (part.inlineData?.data) {
@@ -163,7 +218,9 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
           partType: config.partType,
           difficulty: config.difficulty,
           topic: config.topic,
-          voiceName: config.voiceName
+          voiceName: config.voiceName,
+          script: config.script,
+          mode: 'live'
         }
       });
 
@@ -226,10 +283,17 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
       wsRef.current.close();
       wsRef.current = null;
     }
-    if (mediaRecorderRef.current) {
-      mediaRecorderRef.current.stop();
-      mediaRecorderRef.current = null;
+    const recorder = microphoneRef.current;
+    if (recorder) {
+      recorder.stream.getTracks().forEach((t: MediaStreamTrack) => t.stop());
+      recorder.processor.disconnect();
+      recorder.source.disconnect();
+      recorder.audioContext.close();
+      microphoneRef.current = null;
     }
+    vadRef.current.reset();
+    prerollRef.current = [];
+    turnChunksRef.current = [];
     if (audioContextRef.current) {
       audioContextRef.current.close();
       audioContextRef.current = null;
@@ -240,6 +304,48 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
     audioQueueRef.current = [];
   }, []);
 
+  // Interrupt AI (barge-in)
+  const interrupt = useCallback(() => {
+    audioQueueRef.current = [];
+    if (currentSourceRef.current) {
+      currentSourceRef.current.stop();
+      currentSourceRef.current = null;
+    }
+    setIsSpeaking(false);
+  }, []);
+
+  const sendAudioChunk = useCallback((int16Data: Int16Array) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    // Send as base64
+    const base64 = btoa(String.fromCharCode(...new Uint8Array(int16Data.buffer)));
+    wsRef.current.send(JSON.stringify({
+      realtimeInput: {
+        mediaChunks: [{
+          data: base64,
+          mimeType: 'audio/pcm;rate=16000'
+        }]
+      }
+    }));
+  }, []);
+
+  // Close the candidate's turn: the model answers after activityEnd
+  const endUserTurn = useCallback(() => {
+    if (wsRef.current?.readyState === WebSocket.OPEN) {
+      wsRef.current.send(JSON.stringify({ realtimeInput: { activityEnd: {} } }));
+    }
+    const chunks = turnChunksRef.current;
+    turnChunksRef.current = [];
+    if (chunks.length === 0) return;
+
+    const pcm = new Int16Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      pcm.set(chunk, offset);
+      offset += chunk.length;
+    }
+    config.onUserTurn?.(pcm);
+  }, [config]);
+
   // Start listening (microphone)
   const startListening = useCallback(async () => {
     if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) {
@@ -260,6 +366,7 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
       const audioContext = new AudioContext({ sampleRate: 16000 });
       const source = audioContext.createMediaStreamSource(stream);
       const processor = audioContext.createScriptProcessor(4096, 1, 1);
+      vadRef.current.reset();
 
       processor.onaudioprocess = (e) => {
         if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
@@ -272,16 +379,31 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
           int16Data[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
         }
 
-        // Send as base64
-        const base64 = btoa(String.fromCharCode(...new Uint8Array(int16Data.buffer)));
-        wsRef.current.send(JSON.stringify({
-          realtimeInput: {
-            mediaChunks: [{
-              data: base64,
-              mimeType: 'audio/pcm;rate=16000'
-            }]
-          }
-        }));
+        if (micMutedRef.current) return;
+
+        // While the examiner talks only clearly louder speech counts, so its echo is not taken for the candidate
+        const event = vadRef.current.push(
+          rmsLevel(inputData),
+          performance.now(),
+          isPlayingRef.current ? BARGE_IN_THRESHOLD_FACTOR : 1
+        );
+
+        if (event === 'speech_start') {
+          interrupt();
+          wsRef.current.send(JSON.stringify({ realtimeInput: { activityStart: {} } }));
+          turnChunksRef.current = [...prerollRef.current];
+          prerollRef.current.forEach(sendAudioChunk);
+          prerollRef.current = [];
+        }
+
+        if (event === 'speech_start' || vadRef.current.isSpeaking() || event === 'speech_end') {
+          turnChunksRef.current.push(int16Data);
+          sendAudioChunk(int16Data);
+        } else {
+          prerollRef.current = [...prerollRef.current.slice(-1), int16Data];
+        }
+
+        if (event === 'speech_end') endUserTurn();
       };
 
       source.connect(processor);
@@ -290,25 +412,43 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
       setIsListening(true);
 
       // Store for cleanup
-      (mediaRecorderRef as any).current = { stream, audioContext, processor, source };
+      microphoneRef.current = { stream, audioContext, processor, source };
 
     } catch (err) {
       console.error('Microphone error:', err);
       throw err;
     }
-  }, []);
+  }, [interrupt, sendAudioChunk, endUserTurn]);
 
   // Stop listening
   const stopListening = useCallback(() => {
-    const recorder = (mediaRecorderRef as any).current;
+    const recorder = microphoneRef.current;
     if (recorder) {
       recorder.stream.getTracks().forEach((t: MediaStreamTrack) => t.stop());
       recorder.processor.disconnect();
       recorder.source.disconnect();
       recorder.audioContext.close();
-      mediaRecorderRef.current = null;
+      microphoneRef.current = null;
     }
+    if (vadRef.current.isSpeaking()) endUserTurn();
+    vadRef.current.reset();
+    prerollRef.current = [];
     setIsListening(false);
+  }, [endUserTurn]);
+
+  // Mute the microphone without closing it (e.g. Part 2 preparation); an open turn is closed
+  const setMicMuted = useCallback((muted: boolean) => {
+    micMutedRef.current = muted;
+    if (muted && vadRef.current.isSpeaking()) {
+      vadRef.current.reset();
+      endUserTurn();
+    }
+    prerollRef.current = [];
+  }, [endUserTurn]);
+
+  // Part 2 allows longer pauses than Parts 1 and 3
+  const setVadOptions = useCallback((options: VadOptions) => {
+    vadRef.current.setOptions(options);
   }, []);
 
   // Send text message
@@ -328,14 +468,14 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
     }));
   }, []);
 
-  // Interrupt AI (barge-in)
-  const interrupt = useCallback(() => {
-    audioQueueRef.current = [];
-    if (currentSourceRef.current) {
-      currentSourceRef.current.stop();
-      currentSourceRef.current = null;
-    }
-    setIsSpeaking(false);
+  // Answer a function call from the model
+  const sendToolResponse = useCallback((call: Pick<GeminiFunctionCall, 'id' | 'name'>, response: Record<string, unknown>) => {
+    if (!wsRef.current || wsRef.current.readyState !== WebSocket.OPEN) return;
+    wsRef.current.send(JSON.stringify({
+      toolResponse: {
+        functionResponses: [{ id: call.id, name: call.name, response }]
+      }
+    }));
   }, []);
 
   // Cleanup on unmount
@@ -356,6 +496,9 @@ export function useGeminiLiveAudio(config: GeminiLiveConfig) {
     startListening,
     stopListening,
     sendText,
+    sendToolResponse,
+    setMicMuted,
+    setVadOptions,
     interrupt
   };
 }
@@ -0,0 +1,80 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { OfflineAttempt, OfflineModule, OfflineSubmission, getAttempt, getTestBundle } from '@/lib/offlineStore';
+import { clearAttemptProgress, queueOfflineSubmission, saveAttemptProgress } from '@/lib/offlineTests';
+
+interface UseOfflineTestAttemptOptions {
+  module: OfflineModule;
+  testId: string | undefined;
+  testTitle: string;
+  answers: Record<number, string>;
+  currentQuestion: number;
+  timeLeft: number;
+  /** Test content has loaded; progress is only restored after this */
+  ready: boolean;
+  /** Called once if an unfinished attempt for this downloaded test is found */
+  onRestore?: (attempt: OfflineAttempt) => void;
+}
+
+const AUTOSAVE_DELAY_MS = 1000;
+
+/**
+ * Keeps an in-progress attempt at a downloaded test in IndexedDB so it
+ * survives reloads while offline, and queues submissions for background sync.
+ */
+export function useOfflineTestAttempt({
+  module,
+  testId,
+  testTitle,
+  answers,
+  currentQuestion,
+  timeLeft,
+  ready,
+  onRestore,
+}: UseOfflineTestAttemptOptions) {
+  const [isDownloaded, setIsDownloaded] = useState(false);
+  const hasRestoredRef = useRef(false);
+  const latestRef = useRef({ testTitle, currentQuestion, timeLeft });
+  latestRef.current = { testTitle, currentQuestion, timeLeft };
+  const onRestoreRef = useRef(onRestore);
+  onRestoreRef.current = onRestore;
+
+  useEffect(() => {
+    if (!testId) return;
+    getTestBundle(module, testId)
+      .then(bundle => setIsDownloaded(!!bundle))
+      .catch(err => console.error('Error checking offline download:', err));
+  }, [module, testId]);
+
+  // Restore unfinished progress once the test content is on screen
+  useEffect(() => {
+    if (!testId || !ready || !isDownloaded || hasRestoredRef.current) return;
+    hasRestoredRef.current = true;
+    getAttempt(module, testId)
+      .then(attempt => {
+        if (attempt && Object.keys(attempt.answers).length > 0) onRestoreRef.current?.(attempt);
+      })
+      .catch(err => console.error('Error restoring offline progress:', err));
+  }, [module, testId, ready, isDownloaded]);
+
+  // Autosave answers (debounced); timer and position ride along with each save
+  useEffect(() => {
+    if (!testId || !isDownloaded || !hasRestoredRef.current || Object.keys(answers).length === 0) return;
+    const timeout = setTimeout(() => {
+      saveAttemptProgress(module, testId, { ...latestRef.current, answers })
+        .catch(err => console.error('Error saving offline progress:', err));
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [module, testId, isDownloaded, answers]);
+
+  const queueSubmission = useCallback(async (submission: OfflineSubmission) => {
+    if (!testId) return;
+    await queueOfflineSubmission(module, testId, { ...latestRef.current, answers }, submission);
+  }, [module, testId, answers]);
+
+  const clearProgress = useCallback(async () => {
+    if (!testId) return;
+    await clearAttemptProgress(module, testId).catch(err => console.error('Error clearing offline progress:', err));
+  }, [module, testId]);
+
+  return { isDownloaded, queueSubmission, clearProgress };
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect, useCallback } from "react";
 import { supabase } from "@/integrations/supabase/client";
+import type { AdaptiveRecommendation } from "@/lib/adaptiveDifficulty";
 
 interface SmartTestSelection {
   test: any | null;
+  /** What adaptive mode picked, when difficulty was ADAPTIVE_DIFFICULTY */
+  adaptive: AdaptiveRecommendation | null;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
@@ -11,7 +14,7 @@ interface SmartTestSelection {
 interface UseSmartTestSelectionOptions {
   module: "listening" | "speaking" | "reading" | "writing";
   topic?: string;
-  difficulty?: string;
+  difficulty?: string; // ADAPTIVE_DIFFICULTY to pick the level from the learner's results
   questionType?: string;
   excludeTestIds?: string[];
   preferredAccent?: string;
@@ -28,6 +31,7 @@ export function useSmartTestSelection({
   autoFetch = true,
 }: UseSmartTestSelectionOptions): SmartTestSelection {
   const [test, setTest] = useState<any | null>(null);
+  const [adaptive, setAdaptive] = useState<AdaptiveRecommendation | null>(null);
   const [loading, setLoading] = useState(autoFetch);
   const [error, setError] = useState<string | null>(null);
 
@@ -68,6 +72,7 @@ export function useSmartTestSelection({
         setTest(null);
       } else if (data.success && data.test) {
         setTest(data.test);
+        setAdaptive(data.adaptive ?? null);
       } else {
         setError("Invalid response from server");
         setTest(null);
@@ -89,6 +94,7 @@ export function useSmartTestSelection({
 
   return {
     test,
+    adaptive,
     loading,
     error,
     refetch: fetchTest,
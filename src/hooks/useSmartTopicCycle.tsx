@@ -2,6 +2,7 @@ import { useState, useEffect, useCallback, useMemo } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
 import { getTopicsForModule } from '@/lib/ieltsTopics';
+import type { TestVariant } from '@/lib/testVariant';
 
 export type ModuleType = 'reading' | 'listening' | 'writing' | 'speaking';
 
@@ -38,10 +39,12 @@ interface SmartTopicCycleResult {
  * 
  * @param module - The IELTS module (reading, listening, writing, speaking)
  * @param subtype - Optional subtype for writing/speaking (e.g., 'TASK_1', 'PART_1')
+ * @param variant - Academic or General Training topic list (reading/writing only)
  */
 export function useSmartTopicCycle(
   module: ModuleType,
-  subtype?: string
+  subtype?: string,
+  variant: TestVariant = 'academic'
 ): SmartTopicCycleResult {
   const { user } = useAuth();
   const [completions, setCompletions] = useState<Record<string, number>>({});
@@ -49,8 +52,8 @@ export function useSmartTopicCycle(
 
   // Get the list of all available topics for this module/subtype
   const allTopics = useMemo(() => {
-    return [...getTopicsForModule(module, subtype)];
-  }, [module, subtype]);
+    return [...getTopicsForModule(module, subtype, variant)];
+  }, [module, subtype, variant]);
 
   // Fetch completions from database
   const fetchCompletions = useCallback(async () => {
@@ -0,0 +1,56 @@
+import { useState, useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+interface TeacherStatus {
+  isTeacher: boolean;
+  loading: boolean;
+}
+
+export const useTeacherAccess = (): TeacherStatus => {
+  const { user, loading: authLoading } = useAuth();
+  const [isTeacher, setIsTeacher] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const checkedUserIdRef = useRef<string | null>(null);
+
+  useEffect(() => {
+    const checkTeacherStatus = async () => {
+      if (authLoading) return;
+
+      if (!user) {
+        setIsTeacher(false);
+        setLoading(false);
+        checkedUserIdRef.current = null;
+        return;
+      }
+
+      // Skip if we've already checked this user
+      if (checkedUserIdRef.current === user.id) {
+        return;
+      }
+
+      setLoading(true);
+
+      try {
+        const { data, error } = await supabase.rpc('is_teacher', { check_user_id: user.id });
+
+        if (error) {
+          console.error('Error checking teacher status:', error);
+          setIsTeacher(false);
+        } else {
+          setIsTeacher(data === true);
+        }
+        checkedUserIdRef.current = user.id;
+      } catch (error) {
+        console.error('Error checking teacher status:', error);
+        setIsTeacher(false);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    checkTeacherStatus();
+  }, [user, authLoading]);
+
+  return { isTeacher, loading: loading || authLoading };
+};
@@ -15,6 +15,7 @@ import { toast } from 'sonner';
 import { supabase } from '@/integrations/supabase/client';
 import { describeApiError, ApiErrorDescriptor } from '@/lib/apiErrors';
 import { safeLocalStorageSetItem, safeLocalStorageGetItem } from '@/lib/storage';
+import type { TestVariant } from '@/lib/testVariant';
 
 // ============================================================================
 // Types
@@ -200,6 +201,58 @@ export function calculateBandScoreFromRaw40(correctCount: number): number {
   return 0;
 }
 
+/**
+ * Calculate a General Training Reading band from a raw score (out of 40).
+ * GT texts are easier, so more correct answers are needed for the same band.
+ * Below 6 correct the official table stops; it is extended in the same steps.
+ *
+ * Official IELTS General Training Reading Conversion Table:
+ * Raw Score | Band Score
+ * 40        | 9
+ * 39        | 8.5
+ * 37-38     | 8
+ * 36        | 7.5
+ * 34-35     | 7
+ * 32-33     | 6.5
+ * 30-31     | 6
+ * 27-29     | 5.5
+ * 23-26     | 5
+ * 19-22     | 4.5
+ * 15-18     | 4
+ * 12-14     | 3.5
+ * 9-11      | 3
+ * 6-8       | 2.5
+ */
+export function calculateGeneralReadingBandScoreFromRaw40(correctCount: number): number {
+  if (correctCount >= 40) return 9;
+  if (correctCount >= 39) return 8.5;
+  if (correctCount >= 37) return 8;
+  if (correctCount >= 36) return 7.5;
+  if (correctCount >= 34) return 7;
+  if (correctCount >= 32) return 6.5;
+  if (correctCount >= 30) return 6;
+  if (correctCount >= 27) return 5.5;
+  if (correctCount >= 23) return 5;
+  if (correctCount >= 19) return 4.5;
+  if (correctCount >= 15) return 4;
+  if (correctCount >= 12) return 3.5;
+  if (correctCount >= 9) return 3;
+  if (correctCount >= 6) return 2.5;
+  if (correctCount >= 3) return 2;
+  if (correctCount >= 1) return 1.5;
+  return 0;
+}
+
+/**
+ * Reading band for a full 40-question test, using the table for the test's
+ * variant (Academic or General Training).
+ */
+export function calculateReadingBandScoreFromRaw40(correctCount: number, variant: TestVariant = 'academic'): number {
+  return variant === 'general'
+    ? calculateGeneralReadingBandScoreFromRaw40(correctCount)
+    : calculateBandScoreFromRaw40(correctCount);
+}
+
 /**
  * Calculate band score based on raw listening score (out of 40).
  * Uses official IELTS listening band score table.
@@ -0,0 +1,110 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { splitTranscriptLines } from '@/lib/answerEvidence';
+import {
+  TranscriptAlignment,
+  alignmentSentences,
+  buildAlignment,
+  proportionalAlignment,
+  sanitizeAlignment,
+  transcriptHash,
+  transcriptTimings,
+} from '@/lib/transcriptAlignment';
+
+export type AlignmentSourceType = 'generated_test_audio' | 'listening_test';
+
+export interface AlignmentSource {
+  type: AlignmentSourceType;
+  id: string;
+  /** Listening test part (1-4) */
+  part?: number;
+}
+
+interface UseTranscriptAlignmentOptions {
+  transcript: string;
+  audioUrl: string;
+  /** Where the transcript is stored; without one only the local estimate is used */
+  source?: AlignmentSource | null;
+  /** Audio length once the player has read it */
+  duration: number | null;
+  enabled?: boolean;
+}
+
+/**
+ * Sentence and word timings for a transcript. Uses the stored alignment when
+ * it matches the transcript and audio, otherwise asks align-transcript for
+ * one. Without a source, or when that fails, it falls back to "[mm:ss]"
+ * timestamps in the transcript, or spreads the text over the audio's length.
+ */
+export function useTranscriptAlignment({
+  transcript,
+  audioUrl,
+  source,
+  duration,
+  enabled = true,
+}: UseTranscriptAlignmentOptions) {
+  const [stored, setStored] = useState<TranscriptAlignment | null>(null);
+  const [loading, setLoading] = useState(false);
+  const durationRef = useRef(duration);
+  durationRef.current = duration;
+
+  const sourceType = source?.type;
+  const sourceId = source?.id;
+  const part = source?.part ?? 1;
+
+  useEffect(() => {
+    setStored(null);
+    if (!enabled || !sourceType || !sourceId) return;
+
+    let cancelled = false;
+    setLoading(true);
+
+    const load = async () => {
+      try {
+        const { data: row } = await supabase
+          .from('transcript_alignments')
+          .select('alignment, transcript_hash, audio_url')
+          .eq('source_type', sourceType)
+          .eq('source_id', sourceId)
+          .eq('part', part)
+          .maybeSingle();
+
+        let alignment = row && row.transcript_hash === transcriptHash(transcript) && row.audio_url === audioUrl
+          ? sanitizeAlignment(row.alignment)
+          : null;
+
+        if (!alignment) {
+          const { data, error } = await supabase.functions.invoke('align-transcript', {
+            body: { sourceType, sourceId, part, durationSeconds: durationRef.current ?? undefined },
+          });
+          if (error) throw error;
+          alignment = sanitizeAlignment(data?.alignment);
+        }
+
+        if (!cancelled) setStored(alignment);
+      } catch (error) {
+        console.error('Error loading transcript alignment:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, sourceType, sourceId, part, transcript, audioUrl]);
+
+  const estimate = useMemo<TranscriptAlignment | null>(() => {
+    if (!duration) return null;
+    const sentences = alignmentSentences(transcript);
+    const lines = splitTranscriptLines(transcript);
+    if (lines.length > 0 && lines.every(line => line.start !== undefined)) {
+      return buildAlignment(sentences, transcriptTimings(sentences), duration, 'transcript');
+    }
+    return proportionalAlignment(sentences, duration);
+  }, [transcript, duration]);
+
+  return { alignment: stored ?? (loading ? null : estimate), loading };
+}
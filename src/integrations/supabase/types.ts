@@ -48,6 +48,7 @@ export type Database = {
           created_at: string
           id: string
           module: string
+          prompt_version: string | null
           question_results: Json
           score: number
           test_id: string
@@ -62,6 +63,7 @@ export type Database = {
           created_at?: string
           id?: string
           module: string
+          prompt_version?: string | null
           question_results?: Json
           score?: number
           test_id: string
@@ -76,6 +78,7 @@ export type Database = {
           created_at?: string
           id?: string
           module?: string
+          prompt_version?: string | null
           question_results?: Json
           score?: number
           test_id?: string
@@ -95,6 +98,7 @@ export type Database = {
       }
       ai_practice_tests: {
         Row: {
+          assignment_id: string | null
           audio_format: string | null
           audio_url: string | null
           difficulty: string
@@ -112,6 +116,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          assignment_id?: string | null
           audio_format?: string | null
           audio_url?: string | null
           difficulty: string
@@ -129,6 +134,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          assignment_id?: string | null
           audio_format?: string | null
           audio_url?: string | null
           difficulty?: string
@@ -145,7 +151,15 @@ export type Database = {
           total_questions?: number
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "ai_practice_tests_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "class_assignments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       ai_practice_topic_completions: {
         Row: {
@@ -279,6 +293,89 @@ export type Database = {
         }
         Relationships: []
       }
+      assignment_band_overrides: {
+        Row: {
+          ai_band: number | null
+          assignment_id: string
+          band_score: number
+          comment: string | null
+          created_at: string
+          id: string
+          student_id: string
+          teacher_id: string
+          updated_at: string
+        }
+        Insert: {
+          ai_band?: number | null
+          assignment_id: string
+          band_score: number
+          comment?: string | null
+          created_at?: string
+          id?: string
+          student_id: string
+          teacher_id: string
+          updated_at?: string
+        }
+        Update: {
+          ai_band?: number | null
+          assignment_id?: string
+          band_score?: number
+          comment?: string | null
+          created_at?: string
+          id?: string
+          student_id?: string
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assignment_band_overrides_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "class_assignments"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      billing_events: {
+        Row: {
+          created_at: string
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          payload: Json
+          processed_at: string | null
+          provider: string
+          reference: string | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          payload: Json
+          processed_at?: string | null
+          provider: string
+          reference?: string | null
+          status?: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          reference?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
       bulk_generation_jobs: {
         Row: {
           admin_user_id: string
@@ -336,15 +433,473 @@ export type Database = {
         }
         Relationships: []
       }
+      calibration_items: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          examiner_bands: Json
+          examiner_overall: number
+          id: string
+          instruction: string | null
+          is_active: boolean
+          module: string
+          response_text: string | null
+          source: string | null
+          task_type: string | null
+          title: string
+          transcripts: Json
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          examiner_bands?: Json
+          examiner_overall: number
+          id?: string
+          instruction?: string | null
+          is_active?: boolean
+          module: string
+          response_text?: string | null
+          source?: string | null
+          task_type?: string | null
+          title: string
+          transcripts?: Json
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          examiner_bands?: Json
+          examiner_overall?: number
+          id?: string
+          instruction?: string | null
+          is_active?: boolean
+          module?: string
+          response_text?: string | null
+          source?: string | null
+          task_type?: string | null
+          title?: string
+          transcripts?: Json
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      calibration_results: {
+        Row: {
+          ai_bands: Json
+          ai_overall: number | null
+          created_at: string
+          error_message: string | null
+          examiner_bands: Json
+          examiner_overall: number
+          id: string
+          item_id: string
+          response_time_ms: number | null
+          run_id: string
+          scored_at: string | null
+          status: string
+        }
+        Insert: {
+          ai_bands?: Json
+          ai_overall?: number | null
+          created_at?: string
+          error_message?: string | null
+          examiner_bands?: Json
+          examiner_overall: number
+          id?: string
+          item_id: string
+          response_time_ms?: number | null
+          run_id: string
+          scored_at?: string | null
+          status?: string
+        }
+        Update: {
+          ai_bands?: Json
+          ai_overall?: number | null
+          created_at?: string
+          error_message?: string | null
+          examiner_bands?: Json
+          examiner_overall?: number
+          id?: string
+          item_id?: string
+          response_time_ms?: number | null
+          run_id?: string
+          scored_at?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calibration_results_item_id_fkey"
+            columns: ["item_id"]
+            isOneToOne: false
+            referencedRelation: "calibration_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "calibration_results_run_id_fkey"
+            columns: ["run_id"]
+            isOneToOne: false
+            referencedRelation: "calibration_runs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calibration_runs: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          error_count: number
+          evaluator: string
+          id: string
+          item_count: number
+          mode: string
+          model_name: string
+          module: string
+          prompt_version: string
+          scored_count: number
+          status: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_count?: number
+          evaluator: string
+          id?: string
+          item_count?: number
+          mode?: string
+          model_name: string
+          module: string
+          prompt_version: string
+          scored_count?: number
+          status?: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          error_count?: number
+          evaluator?: string
+          id?: string
+          item_count?: number
+          mode?: string
+          model_name?: string
+          module?: string
+          prompt_version?: string
+          scored_count?: number
+          status?: string
+        }
+        Relationships: []
+      }
+      class_assignments: {
+        Row: {
+          class_id: string
+          created_at: string
+          created_by: string
+          due_at: string
+          id: string
+          instructions: string | null
+          module: string
+          preset_id: string | null
+          test_id: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          class_id: string
+          created_at?: string
+          created_by: string
+          due_at: string
+          id?: string
+          instructions?: string | null
+          module: string
+          preset_id?: string | null
+          test_id?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          class_id?: string
+          created_at?: string
+          created_by?: string
+          due_at?: string
+          id?: string
+          instructions?: string | null
+          module?: string
+          preset_id?: string | null
+          test_id?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_assignments_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_assignments_preset_id_fkey"
+            columns: ["preset_id"]
+            isOneToOne: false
+            referencedRelation: "generated_test_audio"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_members: {
+        Row: {
+          class_id: string
+          id: string
+          joined_at: string
+          student_id: string
+        }
+        Insert: {
+          class_id: string
+          id?: string
+          joined_at?: string
+          student_id: string
+        }
+        Update: {
+          class_id?: string
+          id?: string
+          joined_at?: string
+          student_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_members_class_id_fkey"
+            columns: ["class_id"]
+            isOneToOne: false
+            referencedRelation: "classes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classes: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          invite_code: string
+          is_archived: boolean
+          name: string
+          teacher_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          invite_code?: string
+          is_archived?: boolean
+          name: string
+          teacher_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          invite_code?: string
+          is_archived?: boolean
+          name?: string
+          teacher_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      credit_ledger: {
+        Row: {
+          created_at: string
+          daily_credits: number
+          daily_used_after: number
+          entry_type: string
+          id: string
+          operation_type: string | null
+          purchased_balance_after: number
+          purchased_credits: number
+          reference_id: string | null
+          refund_of: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          daily_credits?: number
+          daily_used_after: number
+          entry_type: string
+          id?: string
+          operation_type?: string | null
+          purchased_balance_after: number
+          purchased_credits?: number
+          reference_id?: string | null
+          refund_of?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          daily_credits?: number
+          daily_used_after?: number
+          entry_type?: string
+          id?: string
+          operation_type?: string | null
+          purchased_balance_after?: number
+          purchased_credits?: number
+          reference_id?: string | null
+          refund_of?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_ledger_refund_of_fkey"
+            columns: ["refund_of"]
+            isOneToOne: false
+            referencedRelation: "credit_ledger"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      credit_packs: {
+        Row: {
+          created_at: string
+          credits: number
+          currency: string
+          id: string
+          is_active: boolean
+          name: string
+          price: number
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          credits: number
+          currency?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          price: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          credits?: number
+          currency?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          price?: number
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      credit_purchases: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          credits: number
+          currency: string
+          id: string
+          pack_id: string | null
+          price: number
+          provider: string | null
+          provider_checkout_id: string | null
+          provider_reference: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          credits: number
+          currency: string
+          id?: string
+          pack_id?: string | null
+          price: number
+          provider?: string | null
+          provider_checkout_id?: string | null
+          provider_reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          credits?: number
+          currency?: string
+          id?: string
+          pack_id?: string | null
+          price?: number
+          provider?: string | null
+          provider_checkout_id?: string | null
+          provider_reference?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "credit_purchases_pack_id_fkey"
+            columns: ["pack_id"]
+            isOneToOne: false
+            referencedRelation: "credit_packs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exam_schedules: {
+        Row: {
+          checked_through: string | null
+          created_at: string
+          days: Json
+          exam_date: string
+          id: string
+          target_band: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          checked_through?: string | null
+          created_at?: string
+          days?: Json
+          exam_date: string
+          id?: string
+          target_band: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          checked_through?: string | null
+          created_at?: string
+          days?: Json
+          exam_date?: string
+          id?: string
+          target_band?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       flashcard_cards: {
         Row: {
           correct_count: number
           created_at: string
           deck_id: string
+          ease_factor: number
           example: string | null
           id: string
+          interval_days: number
+          lapses: number
+          last_reviewed_at: string | null
           meaning: string
           next_review_at: string | null
+          repetitions: number
           review_count: number
           status: string
           translation: string | null
@@ -356,10 +911,15 @@ export type Database = {
           correct_count?: number
           created_at?: string
           deck_id: string
+          ease_factor?: number
           example?: string | null
           id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
           meaning: string
           next_review_at?: string | null
+          repetitions?: number
           review_count?: number
           status?: string
           translation?: string | null
@@ -371,10 +931,15 @@ export type Database = {
           correct_count?: number
           created_at?: string
           deck_id?: string
+          ease_factor?: number
           example?: string | null
           id?: string
+          interval_days?: number
+          lapses?: number
+          last_reviewed_at?: string | null
           meaning?: string
           next_review_at?: string | null
+          repetitions?: number
           review_count?: number
           status?: string
           translation?: string | null
@@ -419,6 +984,44 @@ export type Database = {
         }
         Relationships: []
       }
+      flashcard_reviews: {
+        Row: {
+          card_id: string
+          ease_factor: number
+          grade: string
+          id: string
+          interval_days: number
+          reviewed_at: string
+          user_id: string
+        }
+        Insert: {
+          card_id: string
+          ease_factor: number
+          grade: string
+          id?: string
+          interval_days: number
+          reviewed_at?: string
+          user_id: string
+        }
+        Update: {
+          card_id?: string
+          ease_factor?: number
+          grade?: string
+          id?: string
+          interval_days?: number
+          reviewed_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "flashcard_reviews_card_id_fkey"
+            columns: ["card_id"]
+            isOneToOne: false
+            referencedRelation: "flashcard_cards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       generated_test_audio: {
         Row: {
           accent: string | null
@@ -600,6 +1203,7 @@ export type Database = {
           completed_at: string
           created_at: string
           id: string
+          question_results: Json | null
           score: number
           test_id: string
           total_questions: number
@@ -611,6 +1215,7 @@ export type Database = {
           completed_at?: string
           created_at?: string
           id?: string
+          question_results?: Json | null
           score?: number
           test_id: string
           total_questions?: number
@@ -622,6 +1227,7 @@ export type Database = {
           completed_at?: string
           created_at?: string
           id?: string
+          question_results?: Json | null
           score?: number
           test_id?: string
           total_questions?: number
@@ -703,46 +1309,285 @@ export type Database = {
         }
         Relationships: []
       }
+      mock_exam_sessions: {
+        Row: {
+          book_name: string | null
+          break_ends_at: string | null
+          completed_at: string | null
+          created_at: string
+          current_stage: string
+          id: string
+          listening_band: number | null
+          listening_submission_id: string | null
+          listening_test_id: string | null
+          overall_band: number | null
+          reading_band: number | null
+          reading_submission_id: string | null
+          reading_test_id: string | null
+          speaking_band: number | null
+          speaking_submission_id: string | null
+          speaking_test_id: string | null
+          started_at: string
+          status: string
+          test_number: number | null
+          updated_at: string
+          user_id: string
+          writing_band: number | null
+          writing_task1_submission_id: string | null
+          writing_task2_submission_id: string | null
+          writing_test_id: string | null
+        }
+        Insert: {
+          book_name?: string | null
+          break_ends_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_stage?: string
+          id?: string
+          listening_band?: number | null
+          listening_submission_id?: string | null
+          listening_test_id?: string | null
+          overall_band?: number | null
+          reading_band?: number | null
+          reading_submission_id?: string | null
+          reading_test_id?: string | null
+          speaking_band?: number | null
+          speaking_submission_id?: string | null
+          speaking_test_id?: string | null
+          started_at?: string
+          status?: string
+          test_number?: number | null
+          updated_at?: string
+          user_id: string
+          writing_band?: number | null
+          writing_task1_submission_id?: string | null
+          writing_task2_submission_id?: string | null
+          writing_test_id?: string | null
+        }
+        Update: {
+          book_name?: string | null
+          break_ends_at?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_stage?: string
+          id?: string
+          listening_band?: number | null
+          listening_submission_id?: string | null
+          listening_test_id?: string | null
+          overall_band?: number | null
+          reading_band?: number | null
+          reading_submission_id?: string | null
+          reading_test_id?: string | null
+          speaking_band?: number | null
+          speaking_submission_id?: string | null
+          speaking_test_id?: string | null
+          started_at?: string
+          status?: string
+          test_number?: number | null
+          updated_at?: string
+          user_id?: string
+          writing_band?: number | null
+          writing_task1_submission_id?: string | null
+          writing_task2_submission_id?: string | null
+          writing_test_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "mock_exam_sessions_listening_submission_id_fkey"
+            columns: ["listening_submission_id"]
+            isOneToOne: false
+            referencedRelation: "listening_test_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_listening_test_id_fkey"
+            columns: ["listening_test_id"]
+            isOneToOne: false
+            referencedRelation: "listening_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_reading_submission_id_fkey"
+            columns: ["reading_submission_id"]
+            isOneToOne: false
+            referencedRelation: "reading_test_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_reading_test_id_fkey"
+            columns: ["reading_test_id"]
+            isOneToOne: false
+            referencedRelation: "reading_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_speaking_submission_id_fkey"
+            columns: ["speaking_submission_id"]
+            isOneToOne: false
+            referencedRelation: "speaking_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_speaking_test_id_fkey"
+            columns: ["speaking_test_id"]
+            isOneToOne: false
+            referencedRelation: "speaking_tests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_writing_task1_submission_id_fkey"
+            columns: ["writing_task1_submission_id"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_writing_task2_submission_id_fkey"
+            columns: ["writing_task2_submission_id"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mock_exam_sessions_writing_test_id_fkey"
+            columns: ["writing_test_id"]
+            isOneToOne: false
+            referencedRelation: "writing_tests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       model_performance_logs: {
         Row: {
+          ai_band: number | null
           api_key_id: string | null
+          band_delta: number | null
           created_at: string
+          criteria_deltas: Json | null
           error_message: string | null
+          human_band: number | null
           id: string
           model_name: string
+          prompt_version: string | null
           response_time_ms: number | null
+          review_id: string | null
           status: string
           task_type: string
         }
         Insert: {
+          ai_band?: number | null
           api_key_id?: string | null
+          band_delta?: never
           created_at?: string
+          criteria_deltas?: Json | null
           error_message?: string | null
+          human_band?: number | null
           id?: string
           model_name: string
+          prompt_version?: string | null
           response_time_ms?: number | null
+          review_id?: string | null
           status: string
           task_type: string
         }
         Update: {
-          api_key_id?: string | null
+          ai_band?: number | null
+          api_key_id?: string | null
+          band_delta?: never
+          created_at?: string
+          criteria_deltas?: Json | null
+          error_message?: string | null
+          human_band?: number | null
+          id?: string
+          model_name?: string
+          prompt_version?: string | null
+          response_time_ms?: number | null
+          review_id?: string | null
+          status?: string
+          task_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "model_performance_logs_api_key_id_fkey"
+            columns: ["api_key_id"]
+            isOneToOne: false
+            referencedRelation: "api_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "model_performance_logs_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "result_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      plan_tiers: {
+        Row: {
+          allowed_modules: string[]
+          created_at: string
+          currency: string
+          daily_credit_limit: number
+          description: string | null
+          duration_days: number | null
+          features: Json
+          id: string
+          is_active: boolean
+          is_default: boolean
+          is_featured: boolean
+          model_tiers: string[]
+          name: string
+          operation_costs: Json
+          period_label: string | null
+          price: number
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          allowed_modules?: string[]
+          created_at?: string
+          currency?: string
+          daily_credit_limit?: number
+          description?: string | null
+          duration_days?: number | null
+          features?: Json
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          is_featured?: boolean
+          model_tiers?: string[]
+          name: string
+          operation_costs?: Json
+          period_label?: string | null
+          price?: number
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          allowed_modules?: string[]
           created_at?: string
-          error_message?: string | null
+          currency?: string
+          daily_credit_limit?: number
+          description?: string | null
+          duration_days?: number | null
+          features?: Json
           id?: string
-          model_name?: string
-          response_time_ms?: number | null
-          status?: string
-          task_type?: string
+          is_active?: boolean
+          is_default?: boolean
+          is_featured?: boolean
+          model_tiers?: string[]
+          name?: string
+          operation_costs?: Json
+          period_label?: string | null
+          price?: number
+          slug?: string
+          sort_order?: number
+          updated_at?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "model_performance_logs_api_key_id_fkey"
-            columns: ["api_key_id"]
-            isOneToOne: false
-            referencedRelation: "api_keys"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       profiles: {
         Row: {
@@ -750,9 +1595,13 @@ export type Database = {
           created_at: string
           daily_credits_used: number
           email: string | null
+          exam_date: string | null
           full_name: string | null
           id: string
           last_reset_date: string
+          purchased_credits: number
+          study_reminder_time: string | null
+          target_band: number | null
           updated_at: string
         }
         Insert: {
@@ -760,9 +1609,13 @@ export type Database = {
           created_at?: string
           daily_credits_used?: number
           email?: string | null
+          exam_date?: string | null
           full_name?: string | null
           id: string
           last_reset_date?: string
+          purchased_credits?: number
+          study_reminder_time?: string | null
+          target_band?: number | null
           updated_at?: string
         }
         Update: {
@@ -770,13 +1623,139 @@ export type Database = {
           created_at?: string
           daily_credits_used?: number
           email?: string | null
+          exam_date?: string | null
           full_name?: string | null
           id?: string
           last_reset_date?: string
+          purchased_credits?: number
+          study_reminder_time?: string | null
+          target_band?: number | null
           updated_at?: string
         }
         Relationships: []
       }
+      promotion_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          credits: number | null
+          description: string | null
+          duration_days: number | null
+          eligible_modules: string[]
+          eligible_plan_ids: string[]
+          expires_at: string | null
+          grant_type: string
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          per_user_limit: number
+          percent_off: number | null
+          plan_tier_id: string | null
+          starts_at: string
+          updated_at: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          credits?: number | null
+          description?: string | null
+          duration_days?: number | null
+          eligible_modules?: string[]
+          eligible_plan_ids?: string[]
+          expires_at?: string | null
+          grant_type: string
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          per_user_limit?: number
+          percent_off?: number | null
+          plan_tier_id?: string | null
+          starts_at?: string
+          updated_at?: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          credits?: number | null
+          description?: string | null
+          duration_days?: number | null
+          eligible_modules?: string[]
+          eligible_plan_ids?: string[]
+          expires_at?: string | null
+          grant_type?: string
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          per_user_limit?: number
+          percent_off?: number | null
+          plan_tier_id?: string | null
+          starts_at?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_codes_plan_tier_id_fkey"
+            columns: ["plan_tier_id"]
+            isOneToOne: false
+            referencedRelation: "plan_tiers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      promotion_redemptions: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          credits_granted: number | null
+          discount_amount: number | null
+          id: string
+          promotion_code_id: string
+          status: string
+          subscription_id: string | null
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          credits_granted?: number | null
+          discount_amount?: number | null
+          id?: string
+          promotion_code_id: string
+          status?: string
+          subscription_id?: string | null
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          credits_granted?: number | null
+          discount_amount?: number | null
+          id?: string
+          promotion_code_id?: string
+          status?: string
+          subscription_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "promotion_redemptions_promotion_code_id_fkey"
+            columns: ["promotion_code_id"]
+            isOneToOne: false
+            referencedRelation: "promotion_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "promotion_redemptions_subscription_id_fkey"
+            columns: ["subscription_id"]
+            isOneToOne: false
+            referencedRelation: "subscriptions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       promotions: {
         Row: {
           created_at: string
@@ -807,6 +1786,45 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          notes: string | null
+          prompt_key: string
+          template: string
+          updated_at: string
+          version: number
+          weight: number
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          prompt_key: string
+          template: string
+          updated_at?: string
+          version: number
+          weight?: number
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          notes?: string | null
+          prompt_key?: string
+          template?: string
+          updated_at?: string
+          version?: number
+          weight?: number
+        }
+        Relationships: []
+      }
       reading_paragraphs: {
         Row: {
           content: string
@@ -999,6 +2017,7 @@ export type Database = {
           completed_at: string
           created_at: string
           id: string
+          question_results: Json | null
           score: number
           test_id: string
           total_questions: number
@@ -1010,6 +2029,7 @@ export type Database = {
           completed_at?: string
           created_at?: string
           id?: string
+          question_results?: Json | null
           score?: number
           test_id: string
           total_questions?: number
@@ -1021,6 +2041,7 @@ export type Database = {
           completed_at?: string
           created_at?: string
           id?: string
+          question_results?: Json | null
           score?: number
           test_id?: string
           total_questions?: number
@@ -1075,8 +2096,104 @@ export type Database = {
         }
         Relationships: []
       }
+      result_review_versions: {
+        Row: {
+          comment: string | null
+          created_at: string
+          criteria: Json
+          id: string
+          overall_band: number
+          review_id: string
+          reviewer_id: string | null
+          version: number
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          criteria?: Json
+          id?: string
+          overall_band: number
+          review_id: string
+          reviewer_id?: string | null
+          version: number
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          criteria?: Json
+          id?: string
+          overall_band?: number
+          review_id?: string
+          reviewer_id?: string | null
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "result_review_versions_review_id_fkey"
+            columns: ["review_id"]
+            isOneToOne: false
+            referencedRelation: "result_reviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      result_reviews: {
+        Row: {
+          ai_band: number | null
+          ai_criteria: Json
+          assigned_to: string | null
+          completed_at: string | null
+          created_at: string
+          current_version: number
+          id: string
+          reason: string | null
+          snapshot: Json
+          source_id: string
+          source_type: string
+          status: string
+          student_name: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ai_band?: number | null
+          ai_criteria?: Json
+          assigned_to?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_version?: number
+          id?: string
+          reason?: string | null
+          snapshot?: Json
+          source_id: string
+          source_type: string
+          status?: string
+          student_name?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ai_band?: number | null
+          ai_criteria?: Json
+          assigned_to?: string | null
+          completed_at?: string | null
+          created_at?: string
+          current_version?: number
+          id?: string
+          reason?: string | null
+          snapshot?: Json
+          source_id?: string
+          source_type?: string
+          status?: string
+          student_name?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       speaking_evaluation_jobs: {
         Row: {
+          asked_questions: Json | null | null
           completed_at: string | null
           created_at: string
           current_part: number | null
@@ -1107,6 +2224,7 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          asked_questions?: Json | null | null
           completed_at?: string | null
           created_at?: string
           current_part?: number | null
@@ -1137,6 +2255,7 @@ export type Database = {
           user_id: string
         }
         Update: {
+          asked_questions?: Json | null | null
           completed_at?: string | null
           created_at?: string
           current_part?: number | null
@@ -1393,41 +2512,96 @@ export type Database = {
         }
         Relationships: []
       }
+      study_plans: {
+        Row: {
+          created_at: string
+          focus: Json
+          id: string
+          items: Json
+          updated_at: string
+          user_id: string
+          week_start: string
+        }
+        Insert: {
+          created_at?: string
+          focus?: Json
+          id?: string
+          items?: Json
+          updated_at?: string
+          user_id: string
+          week_start: string
+        }
+        Update: {
+          created_at?: string
+          focus?: Json
+          id?: string
+          items?: Json
+          updated_at?: string
+          user_id?: string
+          week_start?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
+          cancelled_at: string | null
           created_at: string
           end_date: string
+          grace_until: string | null
           id: string
           plan_name: string
+          plan_tier_id: string | null
           price: number
+          provider: string | null
+          provider_checkout_id: string | null
+          provider_subscription_id: string | null
           start_date: string
           status: Database["public"]["Enums"]["subscription_status"]
           updated_at: string
           user_id: string
         }
         Insert: {
+          cancelled_at?: string | null
           created_at?: string
           end_date: string
+          grace_until?: string | null
           id?: string
           plan_name: string
+          plan_tier_id?: string | null
           price: number
+          provider?: string | null
+          provider_checkout_id?: string | null
+          provider_subscription_id?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["subscription_status"]
           updated_at?: string
           user_id: string
         }
         Update: {
+          cancelled_at?: string | null
           created_at?: string
           end_date?: string
+          grace_until?: string | null
           id?: string
           plan_name?: string
+          plan_tier_id?: string | null
           price?: number
+          provider?: string | null
+          provider_checkout_id?: string | null
+          provider_subscription_id?: string | null
           start_date?: string
           status?: Database["public"]["Enums"]["subscription_status"]
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "subscriptions_plan_tier_id_fkey"
+            columns: ["plan_tier_id"]
+            isOneToOne: false
+            referencedRelation: "plan_tiers"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "subscriptions_user_id_fkey"
             columns: ["user_id"]
@@ -1437,6 +2611,27 @@ export type Database = {
           },
         ]
       }
+      teachers: {
+        Row: {
+          created_at: string
+          id: string
+          organization: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          organization?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          organization?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       test_presets: {
         Row: {
           created_at: string
@@ -1470,38 +2665,54 @@ export type Database = {
       test_results: {
         Row: {
           answers: Json | null
+          assignment_id: string | null
           band_score: number | null
           completed_at: string
           created_at: string
           feedback: Json | null
           id: string
           score: number | null
+          submission_id: string | null
+          test_id: string | null
           test_type: string
           user_id: string
         }
         Insert: {
           answers?: Json | null
+          assignment_id?: string | null
           band_score?: number | null
           completed_at?: string
           created_at?: string
           feedback?: Json | null
           id?: string
           score?: number | null
+          submission_id?: string | null
+          test_id?: string | null
           test_type: string
           user_id: string
         }
         Update: {
           answers?: Json | null
+          assignment_id?: string | null
           band_score?: number | null
           completed_at?: string
           created_at?: string
           feedback?: Json | null
           id?: string
           score?: number | null
+          submission_id?: string | null
+          test_id?: string | null
           test_type?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "test_results_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "class_assignments"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "test_results_user_id_fkey"
             columns: ["user_id"]
@@ -1511,6 +2722,48 @@ export type Database = {
           },
         ]
       }
+      transcript_alignments: {
+        Row: {
+          alignment: Json
+          audio_url: string
+          created_at: string
+          id: string
+          method: string
+          model_name: string | null
+          part: number
+          source_id: string
+          source_type: string
+          transcript_hash: string
+          updated_at: string
+        }
+        Insert: {
+          alignment: Json
+          audio_url: string
+          created_at?: string
+          id?: string
+          method: string
+          model_name?: string | null
+          part?: number
+          source_id: string
+          source_type: string
+          transcript_hash: string
+          updated_at?: string
+        }
+        Update: {
+          alignment?: Json
+          audio_url?: string
+          created_at?: string
+          id?: string
+          method?: string
+          model_name?: string | null
+          part?: number
+          source_id?: string
+          source_type?: string
+          transcript_hash?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       user_analytics: {
         Row: {
           analysis_data: Json
@@ -1641,9 +2894,13 @@ export type Database = {
       }
       writing_submissions: {
         Row: {
+          assignment_id: string | null | null
           evaluation_report: Json | null
           id: string
           overall_band: number | null
+          parent_submission_id: string | null
+          prompt_version: string | null
+          revision_number: number
           submission_text: string
           submitted_at: string | null
           task_id: string
@@ -1651,9 +2908,13 @@ export type Database = {
           word_count: number
         }
         Insert: {
+          assignment_id?: string | null | null
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          parent_submission_id?: string | null
+          prompt_version?: string | null
+          revision_number?: number
           submission_text: string
           submitted_at?: string | null
           task_id: string
@@ -1661,9 +2922,13 @@ export type Database = {
           word_count: number
         }
         Update: {
+          assignment_id?: string | null | null
           evaluation_report?: Json | null
           id?: string
           overall_band?: number | null
+          parent_submission_id?: string | null
+          prompt_version?: string | null
+          revision_number?: number
           submission_text?: string
           submitted_at?: string | null
           task_id?: string
@@ -1671,6 +2936,20 @@ export type Database = {
           word_count?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "writing_submissions_assignment_id_fkey"
+            columns: ["assignment_id"]
+            isOneToOne: false
+            referencedRelation: "class_assignments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "writing_submissions_parent_submission_id_fkey"
+            columns: ["parent_submission_id"]
+            isOneToOne: false
+            referencedRelation: "writing_submissions"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "writing_submissions_task_id_fkey"
             columns: ["task_id"]
@@ -1739,6 +3018,7 @@ export type Database = {
           description: string | null
           id: string
           is_published: boolean
+          test_type: string
           time_limit: number
           title: string
           updated_at: string
@@ -1748,6 +3028,7 @@ export type Database = {
           description?: string | null
           id?: string
           is_published?: boolean
+          test_type?: string
           time_limit?: number
           title: string
           updated_at?: string
@@ -1757,6 +3038,7 @@ export type Database = {
           description?: string | null
           id?: string
           is_published?: boolean
+          test_type?: string
           time_limit?: number
           title?: string
           updated_at?: string
@@ -1768,12 +3050,41 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      can_review_student: {
+        Args: { check_student_id: string; check_user_id: string }
+        Returns: boolean
+      }
       can_user_submit: { Args: { p_user_id: string }; Returns: boolean }
       check_and_reserve_credits: {
-        Args: { p_cost: number; p_user_id: string }
+        Args: {
+          p_cost?: number
+          p_operation_type?: string
+          p_reference_id?: string
+          p_user_id: string
+        }
         Returns: Json
       }
+      claim_promotion_code: {
+        Args: { p_code: string; p_plan_tier_id: string; p_user_id: string }
+        Returns: Json
+      }
+      claim_result_review: { Args: { p_review_id: string }; Returns: Json }
       cleanup_old_data: { Args: never; Returns: Json }
+      complete_credit_purchase: {
+        Args: { p_provider_reference?: string; p_purchase_id: string }
+        Returns: Json
+      }
+      complete_result_review: {
+        Args: {
+          p_comment?: string
+          p_criteria: Json
+          p_overall_band: number
+          p_review_id: string
+        }
+        Returns: Json
+      }
+      dismiss_result_review: { Args: { p_review_id: string }; Returns: Json }
+      expire_subscriptions: { Args: never; Returns: number }
       get_credit_status: { Args: { p_user_id: string }; Returns: Json }
       get_model_performance_stats: {
         Args: { p_hours?: number }
@@ -1788,34 +3099,91 @@ export type Database = {
           total_calls: number
         }[]
       }
+      get_promotion_code_stats: {
+        Args: never
+        Returns: {
+          converted_users: number
+          credits_granted: number
+          discount_given: number
+          last_redeemed_at: string
+          pending_redemptions: number
+          promotion_code_id: string
+          redemptions: number
+          revenue: number
+          unique_users: number
+        }[]
+      }
+      get_prompt_version_stats: {
+        Args: { p_days?: number }
+        Returns: {
+          avg_response_time_ms: number
+          error_count: number
+          last_used_at: string
+          mean_abs_band_delta: number
+          mean_band_delta: number
+          prompt_version: string
+          quota_exceeded_count: number
+          review_count: number
+          success_count: number
+          success_rate: number
+          total_calls: number
+        }[]
+      }
+      get_user_plan: { Args: never; Returns: Json }
       has_active_subscription: { Args: { p_user_id: string }; Returns: boolean }
       increment_topic_completion: {
         Args: { p_module: string; p_topic: string; p_user_id: string }
         Returns: undefined
       }
       is_admin: { Args: { check_user_id: string }; Returns: boolean }
+      is_class_member: {
+        Args: { p_class_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      is_class_teacher: {
+        Args: { p_class_id: string; p_user_id: string }
+        Returns: boolean
+      }
       is_promotion_active: { Args: never; Returns: boolean }
+      is_teacher: { Args: { check_user_id: string }; Returns: boolean }
+      is_teacher_of_student: {
+        Args: { p_student_id: string; p_teacher_id: string }
+        Returns: boolean
+      }
+      join_class_by_code: { Args: { p_invite_code: string }; Returns: Json }
       log_model_performance: {
         Args: {
           p_api_key_id: string
           p_error_message?: string
           p_model_name: string
+          p_prompt_version?: string
           p_response_time_ms?: number
           p_status: string
           p_task_type: string
         }
         Returns: undefined
       }
+      redeem_promotion_code: { Args: { p_code: string }; Returns: Json }
+      refund_credit_purchase: {
+        Args: { p_purchase_id: string }
+        Returns: Json
+      }
       refund_credits: {
-        Args: { p_cost: number; p_user_id: string }
+        Args: { p_cost?: number; p_reservation_id?: string; p_user_id: string }
         Returns: undefined
       }
+      request_result_review: {
+        Args: { p_reason?: string; p_source_id: string; p_source_type: string }
+        Returns: Json
+      }
       reset_api_key_model_quotas: {
         Args: { p_key_id?: string }
         Returns: undefined
       }
       reset_api_key_quotas: { Args: never; Returns: undefined }
+      reset_daily_credits: { Args: never; Returns: number }
       reset_user_api_key_quotas: { Args: never; Returns: undefined }
+      user_plan_tier_id: { Args: { p_user_id: string }; Returns: string }
     }
     Enums: {
       subscription_status: "active" | "cancelled" | "expired" | "pending"
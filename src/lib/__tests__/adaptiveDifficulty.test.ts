@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AbilityObservation,
+  TARGET_ACCURACY,
+  bandToAccuracy,
+  estimateAbilities,
+  expectedAccuracy,
+  pickDifficulty,
+  questionTypeAbility,
+  recommendPractice,
+} from '../adaptiveDifficulty';
+
+function practice(questionType: string, difficulty: AbilityObservation['difficulty'], accuracy: number, day: number): AbilityObservation {
+  return {
+    module: 'reading',
+    questionType,
+    difficulty,
+    accuracy,
+    completedAt: `2026-01-${String(day).padStart(2, '0')}T10:00:00Z`,
+  };
+}
+
+describe('expectedAccuracy', () => {
+  it('is one half when ability matches the level', () => {
+    expect(expectedAccuracy(-0.5, 'medium')).toBeCloseTo(0.5);
+    expect(expectedAccuracy(0, 'easy')).toBeGreaterThan(expectedAccuracy(0, 'hard'));
+  });
+});
+
+describe('bandToAccuracy', () => {
+  it('reads accuracy back off the band table', () => {
+    expect(bandToAccuracy(0)).toBe(0);
+    expect(bandToAccuracy(7)).toBeCloseTo(0.76);
+    expect(bandToAccuracy(6.25)).toBeCloseTo(0.645);
+    expect(bandToAccuracy(9)).toBeCloseTo(0.975);
+  });
+});
+
+describe('pickDifficulty', () => {
+  it('starts a new learner at medium', () => {
+    expect(pickDifficulty(0).difficulty).toBe('medium');
+  });
+
+  it('picks the level closest to the target accuracy', () => {
+    const { difficulty, expectedAccuracy: accuracy } = pickDifficulty(1.4);
+    expect(difficulty).toBe('hard');
+    expect(Math.abs(accuracy - TARGET_ACCURACY)).toBeLessThan(0.1);
+  });
+
+  it('only considers the levels offered', () => {
+    expect(pickDifficulty(3, ['easy', 'medium']).difficulty).toBe('medium');
+  });
+});
+
+describe('estimateAbilities', () => {
+  it('raises ability after scores above expectation and lowers it after scores below', () => {
+    const strong = estimateAbilities([practice('TRUE_FALSE_NOT_GIVEN', 'medium', 1, 1), practice('TRUE_FALSE_NOT_GIVEN', 'hard', 0.9, 2)]);
+    const weak = estimateAbilities([practice('TRUE_FALSE_NOT_GIVEN', 'medium', 0.2, 1), practice('TRUE_FALSE_NOT_GIVEN', 'easy', 0.3, 2)]);
+    expect(strong.modules.reading.ability).toBeGreaterThan(0);
+    expect(weak.modules.reading.ability).toBeLessThan(0);
+    expect(strong.modules.reading.attempts).toBe(2);
+  });
+
+  it('moves only the module ability for official tests', () => {
+    const profile = estimateAbilities([{ ...practice('x', 'exam', bandToAccuracy(8), 1), questionType: null }]);
+    expect(profile.modules.reading.ability).toBeGreaterThan(0);
+    expect(profile.questionTypes).toEqual({});
+  });
+
+  it('keeps a weaker question type below the module ability', () => {
+    const profile = estimateAbilities([
+      practice('MATCHING_HEADINGS', 'medium', 0.3, 1),
+      practice('TRUE_FALSE_NOT_GIVEN', 'medium', 0.9, 2),
+      practice('MATCHING_HEADINGS', 'medium', 0.3, 3),
+      practice('TRUE_FALSE_NOT_GIVEN', 'medium', 0.9, 4),
+    ]);
+    const headings = questionTypeAbility(profile, 'reading', 'MATCHING_HEADINGS');
+    const tfng = questionTypeAbility(profile, 'reading', 'TRUE_FALSE_NOT_GIVEN');
+    expect(headings.ability).toBeLessThan(tfng.ability);
+    expect(headings.attempts).toBe(2);
+    expect(questionTypeAbility(profile, 'reading', 'FILL_IN_BLANK')).toEqual({ ability: profile.modules.reading.ability, attempts: 0 });
+  });
+});
+
+describe('recommendPractice', () => {
+  it('adapts only the level for a single question type', () => {
+    const profile = estimateAbilities(Array.from({ length: 6 }, (_, i) => practice('MATCHING_HEADINGS', 'easy', 0.2, i + 1)));
+    const recommendation = recommendPractice(profile, 'reading', ['MATCHING_HEADINGS']);
+    expect(recommendation?.questionType).toBe('MATCHING_HEADINGS');
+    expect(recommendation?.difficulty).toBe('easy');
+  });
+
+  it('explores an untried type when the fit is equally good', () => {
+    const profile = estimateAbilities([practice('TRUE_FALSE_NOT_GIVEN', 'medium', expectedAccuracy(0, 'medium'), 1)]);
+    expect(recommendPractice(profile, 'reading', ['TRUE_FALSE_NOT_GIVEN', 'FILL_IN_BLANK'])?.questionType).toBe('FILL_IN_BLANK');
+  });
+
+  it('returns null without candidates', () => {
+    expect(recommendPractice(estimateAbilities([]), 'reading', [])).toBeNull();
+  });
+});
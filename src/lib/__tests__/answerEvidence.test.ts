@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EvidenceUnit,
+  buildPassageEvidence,
+  buildTranscriptEvidence,
+  evidenceLocation,
+  evidenceQuotePattern,
+  parseGroundedExplanation,
+  sanitizeEvidenceUnits,
+  splitPassageParagraphs,
+  splitSentences,
+  splitTranscriptLines,
+} from '../answerEvidence';
+
+describe('splitSentences', () => {
+  it('splits on sentence ends but not abbreviations', () => {
+    expect(splitSentences('Dr. Smith arrived at 9 a.m. on Monday. He left early! Did he return?')).toEqual([
+      'Dr. Smith arrived at 9 a.m. on Monday.',
+      'He left early!',
+      'Did he return?',
+    ]);
+  });
+});
+
+describe('splitPassageParagraphs', () => {
+  it('reads both label formats', () => {
+    expect(splitPassageParagraphs('[A] First one.\n\nB Second one.\n\nUnlabelled.')).toEqual([
+      { label: 'A', content: 'First one.' },
+      { label: 'B', content: 'Second one.' },
+      { label: '', content: 'Unlabelled.' },
+    ]);
+  });
+});
+
+describe('buildPassageEvidence', () => {
+  it('numbers sentences within paragraphs', () => {
+    const units = buildPassageEvidence(2, [{ label: 'C', content: 'One. Two.' }]);
+    expect(units.map(u => u.id)).toEqual(['2p1s1', '2p1s2']);
+    expect(evidenceLocation(units[1], 'reading')).toBe('Passage 2, paragraph C');
+  });
+});
+
+describe('splitTranscriptLines', () => {
+  it('strips timestamps and speakers', () => {
+    expect(splitTranscriptLines('[01:05] Anna (receptionist): Good morning.\nNo speaker here')).toEqual([
+      { text: 'Good morning.', speaker: 'Anna', start: 65 },
+      { text: 'No speaker here', speaker: undefined, start: undefined },
+    ]);
+  });
+});
+
+describe('buildTranscriptEvidence', () => {
+  it('estimates starts from the audio length when lines have no timestamp', () => {
+    const units = buildTranscriptEvidence(3, 'Man: aaaa\nWoman: bbbb', 100);
+    expect(units.map(u => [u.id, u.start, u.estimated])).toEqual([
+      ['3t1', 0, true],
+      ['3t2', 50, true],
+    ]);
+    expect(evidenceLocation(units[1], 'listening')).toBe('Part 3, ~0:50');
+  });
+
+  it('leaves starts out without timestamps or audio length', () => {
+    expect(buildTranscriptEvidence(1, 'Hello')[0].start).toBeUndefined();
+  });
+});
+
+describe('sanitizeEvidenceUnits', () => {
+  it('drops malformed units', () => {
+    expect(sanitizeEvidenceUnits([{ id: '1t1', text: 'Hi', part: 1, extra: true }, { id: 2 }, null])).toEqual([
+      { id: '1t1', text: 'Hi', part: 1 },
+    ]);
+    expect(sanitizeEvidenceUnits('nope')).toEqual([]);
+  });
+});
+
+describe('evidenceQuotePattern', () => {
+  it('matches across markup, spacing and curly quotes', () => {
+    const pattern = evidenceQuotePattern("the museum's  new wing");
+    expect(pattern?.exec('The <strong>museum’s</strong> new wing opened.')?.[0]).toBe('The <strong>museum’s</strong> new wing');
+  });
+});
+
+describe('parseGroundedExplanation', () => {
+  const units: EvidenceUnit[] = [
+    { id: '1p1s1', text: 'The bridge opened in 1932.', part: 1, paragraphLabel: 'A' },
+    { id: '1p1s2', text: 'It cost far more than planned.', part: 1, paragraphLabel: 'A' },
+  ];
+
+  it('keeps verified citations and moves misattributed quotes', () => {
+    const raw = JSON.stringify({
+      explanation: 'The passage gives the year.',
+      evidence: [
+        { id: '1p1s1', quote: 'opened in 1932' },
+        { id: '1p1s1', quote: 'far more than planned' },
+        { id: '1p1s2', quote: 'not in the passage' },
+      ],
+    });
+    const { explanation, evidence } = parseGroundedExplanation(raw, units);
+    expect(explanation).toBe('The passage gives the year.');
+    expect(evidence.map(span => [span.id, span.quote])).toEqual([
+      ['1p1s1', 'opened in 1932'],
+      ['1p1s2', 'far more than planned'],
+    ]);
+  });
+
+  it('falls back to the cited text when the quote is missing', () => {
+    const raw = '```json\n{"response": "See paragraph A.", "evidence": [{"id": "1p1s2"}]}\n```';
+    expect(parseGroundedExplanation(raw, units, 'response')).toEqual({
+      explanation: 'See paragraph A.',
+      evidence: [{ ...units[1], quote: units[1].text }],
+    });
+  });
+
+  it('treats a plain reply as an ungrounded explanation', () => {
+    expect(parseGroundedExplanation(' Just text. ', units)).toEqual({ explanation: 'Just text.', evidence: [] });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applySubscriptionEvent,
+  checkoutReference,
+  GRACE_PERIOD_DAYS,
+  parseCheckoutReference,
+  subscriptionAccessUntil,
+  SubscriptionBillingState,
+} from '../billing';
+// Provider selection and webhook signing only exist in the edge-function module
+import {
+  BillingConfigError,
+  BillingSignatureError,
+  createFakeBillingProvider,
+  FAKE_SIGNATURE_HEADER,
+  getBillingProvider,
+} from '../../../supabase/functions/_shared/billing.ts';
+
+const SUBSCRIPTION_ID = '6f1c2a9e-3b4d-4e8f-9a1b-2c3d4e5f6a7b';
+const NOW = new Date('2026-03-01T12:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const paidEvent = {
+  id: 'evt_1',
+  type: 'payment_succeeded' as const,
+  reference: checkoutReference('subscription', SUBSCRIPTION_ID),
+  occurredAt: NOW.toISOString(),
+};
+
+describe('checkout references', () => {
+  it('round-trips kind and id and rejects anything else', () => {
+    expect(parseCheckoutReference(checkoutReference('credit_pack', SUBSCRIPTION_ID))).toEqual({
+      kind: 'credit_pack',
+      id: SUBSCRIPTION_ID,
+    });
+    expect(parseCheckoutReference('invoice:123')).toBeNull();
+  });
+});
+
+describe('getBillingProvider', () => {
+  it('refuses a missing provider and the fake provider unless explicitly allowed', () => {
+    expect(() => getBillingProvider(undefined, 'secret')).toThrow(BillingConfigError);
+    expect(() => getBillingProvider('fake', 'secret')).toThrow(BillingConfigError);
+    expect(() => getBillingProvider('stripe', 'secret', true)).toThrow(BillingConfigError);
+    expect(getBillingProvider('fake', 'secret', true).name).toBe('fake');
+  });
+});
+
+describe('fake provider webhooks', () => {
+  it('accepts its own signed events', async () => {
+    const provider = createFakeBillingProvider('secret', () => NOW.getTime());
+    const { body, headers } = await provider.signWebhook(paidEvent);
+    await expect(provider.parseWebhook(body, headers)).resolves.toMatchObject({ id: 'evt_1', type: 'payment_succeeded' });
+  });
+
+  it('rejects tampered, foreign, unsigned and stale payloads', async () => {
+    const provider = createFakeBillingProvider('secret', () => NOW.getTime());
+    const { body, headers } = await provider.signWebhook(paidEvent);
+
+    const tampered = body.replace('payment_succeeded', 'refunded');
+    await expect(provider.parseWebhook(tampered, headers)).rejects.toBeInstanceOf(BillingSignatureError);
+
+    const other = await createFakeBillingProvider('other-secret', () => NOW.getTime()).signWebhook(paidEvent);
+    await expect(provider.parseWebhook(other.body, other.headers)).rejects.toThrow('Invalid signature');
+
+    await expect(provider.parseWebhook(body, new Headers())).rejects.toThrow('Missing signature');
+
+    const later = createFakeBillingProvider('secret', () => NOW.getTime() + 10 * 60 * 1000);
+    await expect(later.parseWebhook(body, headers)).rejects.toThrow('Signature expired');
+    expect(headers.get(FAKE_SIGNATURE_HEADER)).toMatch(/^t=\d+,v1=[0-9a-f]{64}$/);
+  });
+
+  it('sends checkout straight to the success URL', async () => {
+    const provider = createFakeBillingProvider('secret');
+    const session = await provider.createCheckoutSession({
+      reference: paidEvent.reference,
+      itemName: 'Monthly',
+      amount: 150,
+      currency: 'BDT',
+      intervalDays: 30,
+      successUrl: 'https://app.test/checkout/return?status=success',
+      cancelUrl: 'https://app.test/checkout/return?status=cancelled',
+    });
+    expect(session.url).toBe(`https://app.test/checkout/return?status=success&session_id=${session.id}`);
+  });
+});
+
+describe('applySubscriptionEvent', () => {
+  const active: SubscriptionBillingState = {
+    status: 'active',
+    start_date: '2026-02-01T12:00:00Z',
+    end_date: '2026-03-03T12:00:00Z',
+    grace_until: null,
+    cancelled_at: null,
+  };
+
+  it('activates a pending subscription from now', () => {
+    const pending = { ...active, status: 'pending' as const, start_date: '2026-02-28T00:00:00Z', end_date: '2026-02-28T00:00:00Z' };
+    expect(applySubscriptionEvent(pending, paidEvent, 30, NOW)).toEqual({
+      status: 'active',
+      start_date: NOW.toISOString(),
+      end_date: new Date(NOW.getTime() + 30 * DAY_MS).toISOString(),
+      grace_until: null,
+      cancelled_at: null,
+    });
+  });
+
+  it('extends a renewal from the current end date and clears the grace period', () => {
+    const patch = applySubscriptionEvent({ ...active, grace_until: '2026-03-06T12:00:00Z' }, { type: 'subscription_renewed' }, 30, NOW);
+    expect(patch).toMatchObject({ status: 'active', end_date: '2026-04-02T12:00:00.000Z', grace_until: null });
+    expect(patch).not.toHaveProperty('start_date');
+  });
+
+  it('keeps access through the grace period after a failed renewal', () => {
+    const patch = applySubscriptionEvent(active, { type: 'payment_failed' }, 30, NOW);
+    const graceUntil = new Date(Date.parse(active.end_date) + GRACE_PERIOD_DAYS * DAY_MS);
+    expect(patch).toEqual({ grace_until: graceUntil.toISOString() });
+    expect(subscriptionAccessUntil({ ...active, ...patch })).toEqual(graceUntil);
+
+    // Retries do not push the grace period further out, and a failed first payment grants nothing
+    expect(applySubscriptionEvent({ ...active, ...patch }, { type: 'payment_failed' }, 30, NOW)).toBeNull();
+    expect(applySubscriptionEvent({ ...active, status: 'pending' }, { type: 'payment_failed' }, 30, NOW)).toBeNull();
+  });
+
+  it('keeps the paid period on cancellation and ends access on refund', () => {
+    const cancelled = { ...active, ...applySubscriptionEvent(active, { type: 'subscription_cancelled' }, 30, NOW) };
+    expect(cancelled).toMatchObject({ status: 'cancelled', end_date: active.end_date, cancelled_at: NOW.toISOString() });
+    expect(subscriptionAccessUntil(cancelled)).toEqual(new Date(active.end_date));
+
+    const refunded = { ...cancelled, ...applySubscriptionEvent(cancelled, { type: 'refunded' }, 30, NOW) };
+    expect(refunded).toMatchObject({ status: 'expired', end_date: NOW.toISOString() });
+    expect(subscriptionAccessUntil(refunded)).toBeNull();
+    expect(applySubscriptionEvent(refunded, { type: 'refunded' }, 30, NOW)).toBeNull();
+  });
+});
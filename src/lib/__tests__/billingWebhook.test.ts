@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeAll } from 'vitest';
+import { checkoutReference, createFakeBillingProvider } from '../../../supabase/functions/_shared/billing.ts';
+
+// Runs the billing-webhook edge function handler with serve(), createClient()
+// and Deno.env replaced, so a signed delivery goes through the real handler.
+
+type Handler = (req: Request) => Promise<Response>;
+type Result = { data?: unknown; error?: { code?: string; message?: string } | null };
+
+const { serve, createClient } = vi.hoisted(() => ({ serve: vi.fn(), createClient: vi.fn() }));
+
+vi.mock('https://deno.land/std@0.168.0/http/server.ts', () => ({ serve }));
+vi.mock('https://esm.sh/@supabase/supabase-js@2.45.0', () => ({ createClient }));
+
+const ENV: Record<string, string> = {
+  BILLING_PROVIDER: 'fake',
+  BILLING_ALLOW_FAKE: 'true',
+  BILLING_WEBHOOK_SECRET: 'secret',
+};
+
+// Variable specifier keeps the type-check out of the Deno-only entry point
+const WEBHOOK_ENTRY = '../../../supabase/functions/billing-webhook/index.ts';
+
+const SUBSCRIPTION_ID = '6f1c2a9e-3b4d-4e8f-9a1b-2c3d4e5f6a7b';
+
+// Chainable query builder: filters return the builder, maybeSingle() and await resolve to `result`
+interface QueryBuilder extends PromiseLike<Result> {
+  select: ReturnType<typeof vi.fn>;
+  insert: ReturnType<typeof vi.fn>;
+  update: ReturnType<typeof vi.fn>;
+  eq: ReturnType<typeof vi.fn>;
+  maybeSingle: ReturnType<typeof vi.fn>;
+}
+
+function query(result: Result): QueryBuilder {
+  const builder: QueryBuilder = {
+    select: vi.fn(() => builder),
+    insert: vi.fn(() => builder),
+    update: vi.fn(() => builder),
+    eq: vi.fn(() => builder),
+    maybeSingle: vi.fn(() => Promise.resolve(result)),
+    then: (resolve, reject) => Promise.resolve(result).then(resolve, reject),
+  };
+  return builder;
+}
+
+let handler: Handler;
+
+beforeAll(async () => {
+  vi.stubGlobal('Deno', { env: { get: (name: string) => ENV[name] } });
+  await import(/* @vite-ignore */ WEBHOOK_ENTRY);
+  handler = serve.mock.calls[0][0];
+});
+
+describe('billing-webhook', () => {
+  it('records and applies a signed payment for a pending subscription', async () => {
+    const billingEvents = query({ data: { id: 'rec_1' }, error: null });
+    const subscriptions = query({
+      data: {
+        id: SUBSCRIPTION_ID,
+        status: 'pending',
+        start_date: '2026-03-01T00:00:00Z',
+        end_date: '2026-03-01T00:00:00Z',
+        grace_until: null,
+        cancelled_at: null,
+        plan_tier_id: 'tier_1',
+        provider_subscription_id: null,
+      },
+      error: null,
+    });
+    const tables: Record<string, QueryBuilder> = {
+      billing_events: billingEvents,
+      subscriptions,
+      plan_tiers: query({ data: { duration_days: 30 }, error: null }),
+      promotion_redemptions: query({ error: null }),
+    };
+    createClient.mockReturnValue({ from: (table: string) => tables[table] });
+
+    const { body, headers } = await createFakeBillingProvider('secret').signWebhook({
+      id: 'evt_1',
+      type: 'payment_succeeded',
+      reference: checkoutReference('subscription', SUBSCRIPTION_ID),
+      occurredAt: new Date().toISOString(),
+    });
+    const response = await handler(new Request('https://functions.test/billing-webhook', { method: 'POST', body, headers }));
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ received: true, applied: true });
+    expect(billingEvents.insert).toHaveBeenCalledWith(expect.objectContaining({
+      provider: 'fake',
+      event_id: 'evt_1',
+      event_type: 'payment_succeeded',
+    }));
+    expect(subscriptions.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'active' }));
+    expect(billingEvents.update).toHaveBeenCalledWith(expect.objectContaining({ status: 'processed', error: null }));
+  });
+
+  it('rejects unsigned deliveries before touching the database', async () => {
+    createClient.mockClear();
+    const response = await handler(new Request('https://functions.test/billing-webhook', { method: 'POST', body: '{}' }));
+
+    expect(response.status).toBe(401);
+    expect(createClient).not.toHaveBeenCalled();
+  });
+});
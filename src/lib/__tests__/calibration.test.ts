@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CalibrationResult,
+  CalibrationRun,
+  bandPairs,
+  calibrationMetrics,
+  confusionMatrix,
+  criterionMetrics,
+  groupCalibrationResults,
+  parseCalibrationImport,
+  toSample,
+} from '../calibration';
+
+const speakingBands = { fluency_coherence: 6, lexical_resource: 6, grammatical_range: 5.5, pronunciation: 6 };
+
+function run(id: string, createdAt: string, promptVersion = 'speaking-text-v1'): CalibrationRun {
+  return {
+    id,
+    module: 'speaking',
+    evaluator: 'speaking_text',
+    model_name: 'gemini-2.5-flash',
+    prompt_version: promptVersion,
+    mode: 'live',
+    status: 'completed',
+    item_count: 2,
+    scored_count: 2,
+    error_count: 0,
+    created_by: null,
+    created_at: createdAt,
+    completed_at: createdAt,
+  };
+}
+
+function result(runId: string, itemId: string, aiOverall: number | null, status = 'scored'): CalibrationResult {
+  return {
+    id: `${runId}-${itemId}`,
+    run_id: runId,
+    item_id: itemId,
+    status,
+    examiner_overall: 6,
+    examiner_bands: speakingBands,
+    ai_overall: aiOverall,
+    ai_bands: { ...speakingBands, pronunciation: 7 },
+    error_message: null,
+    response_time_ms: 1200,
+    created_at: '2026-01-20T10:00:00Z',
+    scored_at: '2026-01-20T10:00:05Z',
+  };
+}
+
+describe('criterionMetrics', () => {
+  it('reports MAE, signed bias and half-band agreement', () => {
+    // AI - examiner: +1, -0.5, 0, +0.5
+    const metrics = criterionMetrics('overall', 'Overall', [[6, 7], [6.5, 6], [5, 5], [7, 7.5]]);
+    expect(metrics).toEqual({ key: 'overall', label: 'Overall', n: 4, mae: 0.5, bias: 0.25, withinHalfBand: 0.75 });
+  });
+
+  it('is empty without pairs', () => {
+    expect(criterionMetrics('pronunciation', 'Pronunciation', [])).toMatchObject({ n: 0, mae: null, bias: null });
+  });
+
+  it('covers the overall band and every criterion of the module', () => {
+    const metrics = calibrationMetrics('speaking', [toSample(result('r1', 'a', 6.5))]);
+    expect(metrics.map(m => m.key)).toEqual(['overall', 'fluency_coherence', 'lexical_resource', 'grammatical_range', 'pronunciation']);
+    expect(metrics.find(m => m.key === 'pronunciation')?.bias).toBe(1);
+  });
+});
+
+describe('bandPairs', () => {
+  it('skips items the AI did not score', () => {
+    const samples = [toSample(result('r1', 'a', 6.5)), toSample(result('r1', 'b', null))];
+    expect(bandPairs(samples, 'overall')).toEqual([[6, 6.5]]);
+    expect(bandPairs(samples, 'pronunciation')).toHaveLength(2);
+  });
+});
+
+describe('confusionMatrix', () => {
+  it('bins half bands with the whole band below', () => {
+    const matrix = confusionMatrix([[6, 6.5], [6.5, 7], [7, 7], [5.5, 7]]);
+    expect(matrix.bands).toEqual([5, 6, 7]);
+    // rows are examiner bands, columns AI bands
+    expect(matrix.counts).toEqual([
+      [0, 0, 1],
+      [0, 1, 1],
+      [0, 0, 1],
+    ]);
+  });
+});
+
+describe('groupCalibrationResults', () => {
+  it('groups by prompt version and keeps the latest result per item', () => {
+    const runs = [run('old', '2026-01-01T00:00:00Z'), run('new', '2026-01-05T00:00:00Z'), run('v2', '2026-01-06T00:00:00Z', 'speaking-text-v2')];
+    const groups = groupCalibrationResults(runs, [
+      result('old', 'a', 5),
+      result('new', 'a', 6.5),
+      result('new', 'b', 6, 'error'),
+      result('v2', 'a', 6),
+    ]);
+
+    expect(groups.map(g => g.promptVersion)).toEqual(['speaking-text-v2', 'speaking-text-v1']);
+    const v1 = groups[1];
+    expect(v1.runCount).toBe(2);
+    expect(v1.samples).toHaveLength(1);
+    expect(v1.samples[0].aiOverall).toBe(6.5);
+  });
+});
+
+describe('parseCalibrationImport', () => {
+  it('accepts complete writing items and reports bad ones', () => {
+    const { items, errors } = parseCalibrationImport(JSON.stringify([
+      {
+        title: 'Cities essay',
+        task_type: 'task2',
+        instruction: 'Discuss both views.',
+        response_text: 'Some people believe...',
+        examiner_overall: 6.5,
+        examiner_bands: { task_achievement_response: 6, coherence_and_cohesion: 7, lexical_resource: 6.5, grammatical_range_and_accuracy: 6.5 },
+      },
+      { title: 'No bands', task_type: 'task2', response_text: 'Essay', examiner_overall: 6, examiner_bands: { lexical_resource: 6 } },
+      { title: 'Bad overall', task_type: 'task1', response_text: 'Report', examiner_overall: 6.3 },
+    ]), 'writing');
+
+    expect(items).toHaveLength(1);
+    expect(items[0]).toMatchObject({ module: 'writing', task_type: 'task2', examiner_overall: 6.5 });
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('task_achievement_response');
+  });
+
+  it('keeps only usable speaking answers', () => {
+    const { items, errors } = parseCalibrationImport(JSON.stringify([{
+      title: 'Hometown',
+      examiner_overall: 6,
+      examiner_bands: speakingBands,
+      transcripts: [
+        { part: 1, question: 'Where are you from?', transcript: ' I come from a small town. ' },
+        { part: 4, transcript: 'Ignored' },
+        { part: 2, transcript: '' },
+      ],
+    }]), 'speaking');
+
+    expect(errors).toEqual([]);
+    expect(items[0].transcripts).toEqual([{ part: 1, question: 'Where are you from?', transcript: 'I come from a small town.' }]);
+  });
+
+  it('rejects anything that is not a JSON array', () => {
+    expect(parseCalibrationImport('{', 'writing').errors).toEqual(['The file is not valid JSON']);
+    expect(parseCalibrationImport('{}', 'writing').errors).toEqual(['Expected a JSON array of items']);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  ClassAssignment,
+  GradebookInput,
+  buildGradebook,
+  generateInviteCode,
+  getAssignmentTestPath,
+  isAssignmentOverdue,
+  normalizeInviteCode,
+} from '../classroom';
+
+const assignment = (overrides: Partial<ClassAssignment> = {}): ClassAssignment => ({
+  id: 'a1',
+  class_id: 'c1',
+  created_by: 't1',
+  title: 'Reading homework',
+  instructions: null,
+  module: 'reading',
+  test_id: 'rt1',
+  preset_id: null,
+  due_at: '2026-03-10T23:59:00.000Z',
+  created_at: '2026-03-01T09:00:00.000Z',
+  updated_at: '2026-03-01T09:00:00.000Z',
+  ...overrides,
+});
+
+const student = { id: 's1', name: 'Ana', email: 'ana@example.com', joinedAt: '2026-02-28T10:00:00.000Z' };
+
+const input = (overrides: Partial<GradebookInput> = {}): GradebookInput => ({
+  students: [student],
+  assignments: [assignment()],
+  results: [],
+  writingTasks: [],
+  writingSubmissions: [],
+  overrides: [],
+  ...overrides,
+});
+
+describe('invite codes', () => {
+  it('generates codes without look-alike characters', () => {
+    const code = generateInviteCode();
+    expect(code).toHaveLength(8);
+    expect(code).toMatch(/^[A-HJ-KM-NP-Z2-9]+$/);
+  });
+
+  it('normalizes codes typed with spaces, dashes and lower case', () => {
+    expect(normalizeInviteCode(' k7qm-4tzp ')).toBe('K7QM4TZP');
+  });
+});
+
+describe('isAssignmentOverdue', () => {
+  it('compares the due date with now', () => {
+    expect(isAssignmentOverdue(assignment(), new Date('2026-03-11T00:00:00Z'))).toBe(true);
+    expect(isAssignmentOverdue(assignment(), new Date('2026-03-10T12:00:00Z'))).toBe(false);
+  });
+});
+
+describe('buildGradebook', () => {
+  it('marks missing work and uses the latest recorded result', () => {
+    expect(buildGradebook(input())[0].cells.a1.status).toBe('missing');
+
+    const [row] = buildGradebook(input({
+      results: [
+        { user_id: 's1', assignment_id: 'a1', band_score: 5.5, completed_at: '2026-03-05T10:00:00Z' },
+        { user_id: 's1', assignment_id: 'a1', band_score: 6.5, completed_at: '2026-03-08T10:00:00Z' },
+      ],
+    }));
+    expect(row.cells.a1).toMatchObject({ status: 'graded', aiBand: 6.5, band: 6.5, late: false, overridden: false });
+    expect(row.averageBand).toBe(6.5);
+  });
+
+  it('flags late submissions and results still awaiting a band', () => {
+    const [row] = buildGradebook(input({
+      results: [{ user_id: 's1', assignment_id: 'a1', band_score: null, completed_at: '2026-03-12T10:00:00Z' }],
+    }));
+    expect(row.cells.a1).toMatchObject({ status: 'awaiting_band', band: null, late: true });
+    expect(row.averageBand).toBeNull();
+  });
+
+  it('layers the teacher override over the AI band', () => {
+    const [row] = buildGradebook(input({
+      results: [{ user_id: 's1', assignment_id: 'a1', band_score: 6, completed_at: '2026-03-05T10:00:00Z' }],
+      overrides: [{ assignment_id: 'a1', student_id: 's1', band_score: 6.5, comment: 'Good paraphrasing' }],
+    }));
+    expect(row.cells.a1).toMatchObject({ aiBand: 6, band: 6.5, overridden: true, comment: 'Good paraphrasing' });
+  });
+
+  it('grades official writing tests from submissions written for the assignment', () => {
+    const writing = assignment({ id: 'w1', module: 'writing', test_id: 'wt1' });
+    const base = input({
+      assignments: [writing],
+      writingTasks: [
+        { id: 'task1', writing_test_id: 'wt1', task_type: 'task1' },
+        { id: 'task2', writing_test_id: 'wt1', task_type: 'task2' },
+      ],
+    });
+
+    // Not written for this assignment, even if saved after it was set: does not count
+    const unlinked = buildGradebook({
+      ...base,
+      writingSubmissions: [{ user_id: 's1', task_id: 'task2', assignment_id: null, overall_band: 7, submitted_at: '2026-03-04T10:00:00Z' }],
+    });
+    expect(unlinked[0].cells.w1.status).toBe('missing');
+
+    // Task 2 weighs double: (6 + 7 * 2) / 3 = 6.67 -> 6.5
+    const [row] = buildGradebook({
+      ...base,
+      writingSubmissions: [
+        { user_id: 's1', task_id: 'task1', assignment_id: 'w1', overall_band: 6, submitted_at: '2026-03-04T10:00:00Z' },
+        { user_id: 's1', task_id: 'task2', assignment_id: 'w1', overall_band: 7, submitted_at: '2026-03-04T10:05:00Z' },
+      ],
+    });
+    expect(row.cells.w1).toMatchObject({ status: 'graded', aiBand: 6.5 });
+
+    const pending = buildGradebook({
+      ...base,
+      writingSubmissions: [
+        { user_id: 's1', task_id: 'task1', assignment_id: 'w1', overall_band: 6, submitted_at: '2026-03-04T10:00:00Z' },
+        { user_id: 's1', task_id: 'task2', assignment_id: 'w1', overall_band: null, submitted_at: '2026-03-04T10:05:00Z' },
+      ],
+    });
+    expect(pending[0].cells.w1.status).toBe('awaiting_band');
+  });
+
+  it('averages graded assignments to the nearest half band', () => {
+    const [row] = buildGradebook(input({
+      assignments: [assignment(), assignment({ id: 'a2' }), assignment({ id: 'a3' })],
+      results: [
+        { user_id: 's1', assignment_id: 'a1', band_score: 6, completed_at: '2026-03-05T10:00:00Z' },
+        { user_id: 's1', assignment_id: 'a2', band_score: 6.5, completed_at: '2026-03-05T10:00:00Z' },
+      ],
+    }));
+    // (6 + 6.5) / 2 = 6.25 -> 6.5; the missing assignment is not counted
+    expect(row.averageBand).toBe(6.5);
+  });
+});
+
+describe('getAssignmentTestPath', () => {
+  it('starts a new submission for Writing and Speaking', () => {
+    expect(getAssignmentTestPath(assignment())).toBe('/reading/test/rt1?assignment=a1');
+    expect(getAssignmentTestPath(assignment({ module: 'writing', test_id: 'wt1' }))).toBe('/writing/test/wt1/new-submission?assignment=a1');
+    expect(getAssignmentTestPath(assignment({ module: 'speaking', test_id: 'st1' }))).toBe('/speaking/test/st1/new-submission?assignment=a1');
+    expect(getAssignmentTestPath(assignment({ test_id: null, preset_id: 'p1' }))).toBeNull();
+  });
+});
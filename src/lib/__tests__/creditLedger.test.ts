@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { CreditLedgerEntry, describeEntry, entryAmount, summarizeSpending } from '../creditLedger';
+
+let nextId = 0;
+const entry = (overrides: Partial<CreditLedgerEntry>): CreditLedgerEntry => ({
+  id: `entry-${nextId++}`,
+  user_id: 'user-1',
+  entry_type: 'reserve',
+  operation_type: null,
+  reference_id: null,
+  daily_credits: 0,
+  purchased_credits: 0,
+  daily_used_after: 0,
+  purchased_balance_after: 0,
+  refund_of: null,
+  created_at: '2026-01-31T10:00:00Z',
+  ...overrides,
+});
+
+describe('describeEntry', () => {
+  it('names the operation a credit was spent or refunded on', () => {
+    expect(describeEntry({ entry_type: 'reserve', operation_type: 'generate_listening' })).toBe('Listening test generated');
+    expect(describeEntry({ entry_type: 'refund', operation_type: 'evaluate_writing' })).toBe('Refund: Writing evaluated');
+    expect(describeEntry({ entry_type: 'reset', operation_type: null })).toBe('Daily allowance reset');
+    expect(describeEntry({ entry_type: 'reserve', operation_type: 'new_feature' })).toBe('new feature');
+  });
+});
+
+describe('entryAmount', () => {
+  it('adds the daily and purchased parts', () => {
+    expect(entryAmount({ daily_credits: -5, purchased_credits: -15 })).toBe(-20);
+    expect(entryAmount({ daily_credits: 0, purchased_credits: 150 })).toBe(150);
+  });
+});
+
+describe('summarizeSpending', () => {
+  it('nets refunds against reserves per operation, most expensive first', () => {
+    const summary = summarizeSpending([
+      entry({ operation_type: 'generate_reading', daily_credits: -20 }),
+      entry({ operation_type: 'generate_reading', daily_credits: -10, purchased_credits: -10 }),
+      entry({ entry_type: 'refund', operation_type: 'generate_reading', daily_credits: 10, purchased_credits: 10 }),
+      entry({ operation_type: 'evaluate_writing', daily_credits: -10 }),
+      entry({ operation_type: 'generate_speaking', daily_credits: -5 }),
+      entry({ entry_type: 'refund', operation_type: 'generate_speaking', daily_credits: 5 }),
+      entry({ entry_type: 'purchase', operation_type: 'credit_pack', purchased_credits: 50 }),
+    ]);
+    expect(summary).toEqual([
+      { operationType: 'generate_reading', label: 'Reading test generated', credits: 20, count: 1 },
+      { operationType: 'evaluate_writing', label: 'Writing evaluated', credits: 10, count: 1 },
+    ]);
+  });
+});
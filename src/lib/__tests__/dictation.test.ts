@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import {
+  chooseGaps,
+  isNumberWord,
+  misheardWords,
+  scoreDictation,
+  scoreGaps,
+  summarizeDictation,
+} from '../dictation';
+
+const statuses = (expected: string, typed: string) =>
+  scoreDictation(expected, typed).map(token => [token.expected ?? null, token.status]);
+
+describe('scoreDictation', () => {
+  it('accepts spelling variants, case and punctuation', () => {
+    expect(statuses('The Colour of the theatre.', 'the color of the Theater')).toEqual([
+      ['The', 'correct'],
+      ['Colour', 'correct'],
+      ['of', 'correct'],
+      ['the', 'correct'],
+      ['theatre.', 'correct'],
+    ]);
+  });
+
+  it('matches numbers and dates written another way as one answer', () => {
+    const tokens = scoreDictation('It starts on 15th March at 9.30', 'it starts on March 15 at 9:30');
+    expect(tokens.filter(token => token.status !== 'correct')).toEqual([]);
+    expect(tokens.find(token => token.typed === 'March 15')?.words).toBe(2);
+  });
+
+  it('marks wrong, missing and extra words and tells spelling slips from mishearing', () => {
+    const tokens = scoreDictation('We need accommodation for fifteen people', 'we need acommodation for fifty the people');
+    expect(tokens.map(token => [token.status, token.kind])).toEqual([
+      ['correct', undefined],
+      ['correct', undefined],
+      ['wrong', 'spelling'],
+      ['correct', undefined],
+      ['wrong', 'number'],
+      ['extra', undefined],
+      ['correct', undefined],
+    ]);
+  });
+
+  it('does not hide a dropped article inside a number match', () => {
+    expect(statuses('the 15th', '15th')).toEqual([
+      ['the', 'missing'],
+      ['15th', 'correct'],
+    ]);
+  });
+});
+
+describe('chooseGaps', () => {
+  it('prefers numbers, then names, then long words', () => {
+    const words = 'Please call Maria about the conference on 21 June'.split(' ');
+    expect(chooseGaps(words, 2)).toEqual([7, 8]);
+    expect(chooseGaps(words)).toEqual([2, 7, 8]);
+    expect(chooseGaps('I see it now'.split(' '))).toEqual([1]);
+  });
+});
+
+describe('scoreGaps', () => {
+  it('scores only the blanked words', () => {
+    const tokens = scoreGaps(['Room', '25', 'please.'], [1], ['twenty-five']);
+    expect(tokens.map(token => token.status)).toEqual(['correct', 'correct', 'correct']);
+    expect(summarizeDictation([tokens])).toMatchObject({ words: 1, correct: 1, accuracy: 100 });
+  });
+});
+
+describe('summarizeDictation', () => {
+  it('counts extra words against the score and tracks numbers', () => {
+    const summary = summarizeDictation([scoreDictation('Book two tickets', 'book to tickets now')]);
+    expect(summary).toMatchObject({ words: 3, correct: 2, extra: 1, accuracy: 50, numbers: { total: 1, correct: 0 } });
+  });
+});
+
+describe('misheardWords', () => {
+  it('keeps content words and names, not numbers or function words', () => {
+    const tokens = scoreDictation('Luckily the Thompson family arrived on 3 May', 'lucky a Tomson family arrive on 13');
+    expect(misheardWords(tokens)).toEqual(['luckily', 'Thompson', 'arrived']);
+    expect(isNumberWord('thirteen')).toBe(true);
+    expect(isNumberWord('May')).toBe(true);
+    expect(isNumberWord('may')).toBe(false);
+  });
+});
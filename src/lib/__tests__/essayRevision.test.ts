@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diffWords,
+  diffStats,
+  criterionBandDeltas,
+  formatBandDelta,
+  getRevisionChain,
+} from '../essayRevision';
+
+const render = (segments: { op: string; text: string }[], side: 'previous' | 'current') =>
+  segments.filter(s => s.op === 'equal' || s.op === (side === 'current' ? 'added' : 'removed')).map(s => s.text).join('');
+
+describe('diffWords', () => {
+  it('returns a single equal segment for identical drafts', () => {
+    expect(diffWords('Cities are growing.', 'Cities are growing.')).toEqual([
+      { op: 'equal', text: 'Cities are growing.' },
+    ]);
+  });
+
+  it('groups a rewritten phrase into one removal and one addition', () => {
+    const segments = diffWords('In my opinion the big cat sat here.', 'In my opinion a small dog sat here.');
+    expect(segments).toEqual([
+      { op: 'equal', text: 'In my opinion ' },
+      { op: 'removed', text: 'the big cat' },
+      { op: 'added', text: 'a small dog' },
+      { op: 'equal', text: ' sat here.' },
+    ]);
+  });
+
+  it('treats punctuation as separate tokens', () => {
+    const segments = diffWords('People should make effort', 'People should make more effort.');
+    expect(segments.filter(s => s.op === 'added').map(s => s.text)).toEqual(['more ', '.']);
+  });
+
+  it('reconstructs both drafts from the segments', () => {
+    const previous = 'Firstly, pollution are a problem.\n\nSecondly, traffic is bad.';
+    const current = 'Firstly, pollution is a serious problem.\n\nSecondly,   traffic congestion is worsening.';
+    const segments = diffWords(previous, current);
+    expect(render(segments, 'current')).toBe(current);
+    expect(render(segments, 'previous').replace(/\s+/g, ' ')).toBe(previous.replace(/\s+/g, ' '));
+  });
+});
+
+describe('diffStats', () => {
+  it('counts words but not whitespace or punctuation', () => {
+    const stats = diffStats(diffWords('The cat sat.', 'The black cat sat down.'));
+    expect(stats).toEqual({ wordsAdded: 2, wordsRemoved: 0, wordsUnchanged: 3 });
+  });
+});
+
+describe('criterionBandDeltas', () => {
+  it('reports per-criterion changes and tolerates missing criteria', () => {
+    const deltas = criterionBandDeltas(
+      { task_achievement_response: { band: 6 }, coherence_and_cohesion: { band: 6.5 }, lexical_resource: { band: 6 } },
+      { task_achievement_response: { band: 6.5 }, coherence_and_cohesion: { band: 6 }, lexical_resource: { band: 6 }, grammatical_range_and_accuracy: { band: 7 } },
+    );
+    expect(deltas.map(d => [d.criterion, d.delta])).toEqual([
+      ['TA', 0.5],
+      ['CC', -0.5],
+      ['LR', 0],
+      ['GRA', null],
+    ]);
+  });
+
+  it('formats deltas with a sign', () => {
+    expect(formatBandDelta(0.5)).toBe('+0.5');
+    expect(formatBandDelta(-1)).toBe('−1.0');
+    expect(formatBandDelta(0)).toBe('±0');
+  });
+});
+
+describe('getRevisionChain', () => {
+  const node = (id: string, parent: string | null, revision: number) => ({ id, parent_submission_id: parent, revision_number: revision });
+
+  it('walks from the original draft to the given submission', () => {
+    const all = [node('c', 'b', 3), node('a', null, 1), node('b', 'a', 2), node('x', null, 1)];
+    expect(getRevisionChain(all[0], all).map(s => s.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('stops at a missing ancestor or a loop', () => {
+    expect(getRevisionChain(node('b', 'gone', 2), []).map(s => s.id)).toEqual(['b']);
+    const loop = [node('a', 'b', 1), node('b', 'a', 2)];
+    expect(getRevisionChain(loop[1], loop).map(s => s.id)).toEqual(['a', 'b']);
+  });
+});
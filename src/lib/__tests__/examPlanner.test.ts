@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DailyGoal,
+  DayProgress,
+  ExamSchedule,
+  MAX_SESSIONS_PER_DAY,
+  buildExamSchedule,
+  currentBands,
+  daysUntilExam,
+  emptySessions,
+  goalLabel,
+  moduleWeights,
+  needsReplan,
+  progressByDay,
+  reminderDelay,
+  replanSchedule,
+  studyStreak,
+} from '../examPlanner';
+
+// Local noon keeps the calendar day stable in any time zone
+const at = (date: string) => new Date(`${date}T12:00:00`);
+
+function goal(date: string, sessions: Partial<DailyGoal['sessions']>, flashcards = 20): DailyGoal {
+  return { date, sessions: { ...emptySessions(), ...sessions }, flashcards, carried: 0 };
+}
+
+function done(sessions: Partial<DayProgress['sessions']>, flashcards = 20): DayProgress {
+  return { sessions: { ...emptySessions(), ...sessions }, flashcards };
+}
+
+describe('daysUntilExam', () => {
+  it('counts calendar days', () => {
+    expect(daysUntilExam('2026-03-10', at('2026-03-01'))).toBe(9);
+    expect(daysUntilExam('2026-03-01', at('2026-03-01'))).toBe(0);
+  });
+});
+
+describe('moduleWeights', () => {
+  it('weights modules by their gap to the target band', () => {
+    expect(moduleWeights(7, { listening: 7.5, reading: 6, writing: 5.5 })).toEqual({
+      listening: 1,
+      reading: 2,
+      writing: 2.5,
+      speaking: 2,
+    });
+  });
+});
+
+describe('currentBands', () => {
+  it('averages the most recent bands per module', () => {
+    expect(currentBands([
+      { module: 'reading', completedAt: '2026-03-01T10:00:00Z', band: 6 },
+      { module: 'reading', completedAt: '2026-03-02T10:00:00Z', band: 7 },
+      { module: 'writing', completedAt: '2026-03-02T10:00:00Z', band: null },
+    ])).toEqual({ reading: 6.5 });
+  });
+});
+
+describe('buildExamSchedule', () => {
+  it('plans two sessions a day up to a flashcards-only day before the exam', () => {
+    const schedule = buildExamSchedule('2026-03-15', 7, {}, { today: at('2026-03-01') });
+    expect(schedule.days).toHaveLength(14);
+    expect(schedule.days[0].date).toBe('2026-03-01');
+    for (const day of schedule.days.slice(0, -1)) {
+      expect(Object.values(day.sessions).reduce((a, b) => a + b, 0)).toBe(2);
+    }
+    expect(schedule.days[13]).toEqual(goal('2026-03-14', {}));
+  });
+
+  it('gives weaker modules more sessions', () => {
+    const schedule = buildExamSchedule('2026-03-29', 7, { listening: 7, reading: 7, writing: 5, speaking: 7 }, { today: at('2026-03-01') });
+    const totals = emptySessions();
+    for (const day of schedule.days) {
+      for (const module of ['listening', 'reading', 'writing', 'speaking'] as const) totals[module] += day.sessions[module];
+    }
+    expect(totals.writing).toBeGreaterThan(totals.listening * 2);
+  });
+
+  it('keeps past days of the previous schedule', () => {
+    const previous: ExamSchedule = {
+      examDate: '2026-03-20',
+      targetBand: 7,
+      days: [goal('2026-02-27', { reading: 1 }), goal('2026-02-28', { listening: 1 }), goal('2026-03-01', { writing: 1 })],
+      checkedThrough: '2026-02-28',
+    };
+    const schedule = buildExamSchedule('2026-03-10', 7, {}, { previous, today: at('2026-03-01') });
+    expect(schedule.days.slice(0, 3).map(d => d.date)).toEqual(['2026-02-27', '2026-02-28', '2026-03-01']);
+    expect(schedule.days[2].sessions.writing).toBe(0);
+  });
+});
+
+describe('replanSchedule', () => {
+  const schedule: ExamSchedule = {
+    examDate: '2026-03-08',
+    targetBand: 7,
+    days: [
+      goal('2026-03-01', { listening: 1, reading: 1 }),
+      goal('2026-03-02', { writing: 1, speaking: 1 }),
+      goal('2026-03-03', { listening: 1, reading: 1 }),
+      goal('2026-03-04', { writing: 1, speaking: 1 }),
+      goal('2026-03-05', { listening: 1, reading: 1 }),
+      goal('2026-03-06', { writing: 1, speaking: 1 }),
+      goal('2026-03-07', {}),
+    ],
+    checkedThrough: '2026-02-28',
+  };
+
+  it('spreads missed sessions over the coming days, not the day before the exam', () => {
+    const progress = new Map([
+      ['2026-03-01', done({ listening: 1, reading: 1 })],
+      ['2026-03-02', done({ writing: 1 })],
+    ]);
+    const { schedule: next, carried, dropped } = replanSchedule(schedule, progress, at('2026-03-04'));
+    // Missed: speaking on the 2nd, listening + reading on the 3rd
+    expect(carried).toBe(3);
+    expect(dropped).toBe(0);
+    expect(next.days[3]).toMatchObject({ sessions: { writing: 1, speaking: 2 }, carried: 1 });
+    expect(next.days[4]).toMatchObject({ sessions: { listening: 2, reading: 1 }, carried: 1 });
+    expect(next.days[5]).toMatchObject({ sessions: { reading: 1, writing: 1, speaking: 1 }, carried: 1 });
+    expect(next.days[6].sessions).toEqual(emptySessions());
+    expect(next.days[1]).toEqual(schedule.days[1]);
+    expect(next.checkedThrough).toBe('2026-03-03');
+  });
+
+  it('drops what no longer fits before the exam', () => {
+    const { carried, dropped, schedule: next } = replanSchedule(schedule, new Map(), at('2026-03-06'));
+    expect(carried).toBe(MAX_SESSIONS_PER_DAY - 2);
+    expect(dropped).toBe(10 - carried);
+    expect(needsReplan(next, at('2026-03-06'))).toBe(false);
+  });
+});
+
+describe('studyStreak', () => {
+  it('counts met days, skips rest days and waits for today', () => {
+    const schedule: ExamSchedule = {
+      examDate: '2026-03-10',
+      targetBand: 7,
+      days: [
+        goal('2026-03-01', { reading: 1 }),
+        goal('2026-03-02', { reading: 1 }),
+        goal('2026-03-03', { reading: 1 }),
+        goal('2026-03-04', {}, 0),
+        goal('2026-03-05', { reading: 1 }),
+        goal('2026-03-06', { reading: 1 }),
+      ],
+      checkedThrough: null,
+    };
+    const progress = progressByDay({
+      sessions: ['2026-03-01', '2026-03-03', '2026-03-05'].map(d => ({ module: 'reading' as const, completedAt: at(d).toISOString(), band: null })),
+      reviews: ['2026-03-01', '2026-03-03', '2026-03-05'].flatMap(d => Array(20).fill(at(d).toISOString())),
+    });
+    expect(studyStreak(schedule, progress, at('2026-03-06'))).toEqual({ current: 2, best: 2 });
+  });
+});
+
+describe('goalLabel', () => {
+  it('describes the day in units', () => {
+    expect(goalLabel({ ...emptySessions(), listening: 1, reading: 2 }, 20)).toBe(
+      '1 listening section + 2 reading passages + 20 flashcards'
+    );
+    expect(goalLabel(emptySessions(), 0)).toBe('Rest day');
+  });
+});
+
+describe('reminderDelay', () => {
+  it('measures to today\'s reminder time', () => {
+    const now = new Date('2026-03-01T18:30:00');
+    expect(reminderDelay('19:00', now)).toBe(30 * 60 * 1000);
+    expect(reminderDelay('18:00', now)).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectDelimiter,
+  parseDelimitedRows,
+  parseDelimitedFlashcards,
+  toDelimited,
+  buildImportPreview,
+  ankiFieldToText,
+  detectFileFormat,
+  mapColumns,
+} from '../flashcardImportExport';
+
+describe('detectDelimiter', () => {
+  it('detects tabs, commas and semicolons', () => {
+    expect(detectDelimiter('word\tmeaning\n')).toBe('\t');
+    expect(detectDelimiter('word,meaning\n')).toBe(',');
+    expect(detectDelimiter('word;meaning\n')).toBe(';');
+  });
+
+  it('falls back to comma for a single column', () => {
+    expect(detectDelimiter('ubiquitous\n')).toBe(',');
+  });
+});
+
+describe('parseDelimitedRows', () => {
+  it('handles quoted fields with delimiters, quotes and newlines', () => {
+    const text = 'word,meaning\n"mitigate","to make ""less"" severe, milder"\n"line","one\ntwo"\n';
+    expect(parseDelimitedRows(text)).toEqual([
+      ['word', 'meaning'],
+      ['mitigate', 'to make "less" severe, milder'],
+      ['line', 'one\ntwo'],
+    ]);
+  });
+
+  it('handles CRLF line endings, a BOM and blank lines', () => {
+    expect(parseDelimitedRows('\uFEFFa,b\r\n\r\nc,d\r\n')).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+});
+
+describe('parseDelimitedFlashcards', () => {
+  it('maps columns by header name in any order', () => {
+    const text = 'Definition,Term,Translation\nfound everywhere,ubiquitous,সর্বব্যাপী\n';
+    expect(parseDelimitedFlashcards(text)).toEqual([
+      { word: 'ubiquitous', meaning: 'found everywhere', example: null, translation: 'সর্বব্যাপী' },
+    ]);
+  });
+
+  it('reads columns positionally when there is no header', () => {
+    const text = 'ubiquitous\tfound everywhere\tPhones are ubiquitous.\n';
+    expect(parseDelimitedFlashcards(text)).toEqual([
+      { word: 'ubiquitous', meaning: 'found everywhere', example: 'Phones are ubiquitous.', translation: null },
+    ]);
+  });
+});
+
+describe('toDelimited', () => {
+  it('round-trips through the parser', () => {
+    const cards = [
+      { word: 'mitigate', meaning: 'to make less severe, milder', example: 'He said "no"', translation: null },
+      { word: 'ubiquitous', meaning: 'found everywhere', example: null, translation: 'সর্বব্যাপী' },
+    ];
+    for (const format of ['csv', 'tsv'] as const) {
+      expect(parseDelimitedFlashcards(toDelimited(cards, format))).toEqual(cards);
+    }
+  });
+});
+
+describe('buildImportPreview', () => {
+  it('flags duplicates against the deck and within the file', () => {
+    const preview = buildImportPreview(
+      [
+        { word: 'Ubiquitous', meaning: 'everywhere' },
+        { word: 'mitigate', meaning: 'lessen' },
+        { word: ' mitigate ', meaning: 'reduce' },
+        { word: 'empty', meaning: '' },
+        { word: '', meaning: 'orphan' },
+      ],
+      ['ubiquitous']
+    );
+    expect(preview.map(r => r.issue)).toEqual([
+      'duplicate_in_deck',
+      null,
+      'duplicate_in_file',
+      'missing_meaning',
+      'missing_word',
+    ]);
+    expect(preview.map(r => r.line)).toEqual([1, 2, 3, 4, 5]);
+  });
+});
+
+describe('ankiFieldToText', () => {
+  it('strips HTML, sound tags and entities', () => {
+    expect(ankiFieldToText('<b>to&nbsp;lessen</b><br>[sound:a.mp3]reduce &amp; ease')).toBe('to lessen\nreduce & ease');
+  });
+
+  it('unwraps cloze deletions', () => {
+    expect(ankiFieldToText('It is {{c1::ubiquitous::hint}} now')).toBe('It is ubiquitous now');
+  });
+});
+
+describe('mapColumns / detectFileFormat', () => {
+  it('recognises Anki Basic field names', () => {
+    expect(mapColumns(['Front', 'Back'])).toEqual({ word: 0, meaning: 1 });
+  });
+
+  it('detects formats from the extension', () => {
+    expect(detectFileFormat('deck.apkg')).toBe('apkg');
+    expect(detectFileFormat('words.CSV')).toBe('csv');
+    expect(detectFileFormat('anki-export.txt')).toBe('tsv');
+    expect(detectFileFormat('notes.docx')).toBeNull();
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatGeneratedTestIssues,
+  GENERATED_TEST_SCHEMA_VERSION,
+  validateGeneratedTest,
+  validateQuestionGroup,
+  validateStoredGeneratedTest,
+} from '../generatedTestSchema';
+
+const question = (n: number, overrides: Record<string, unknown> = {}) => ({
+  id: `q${n}`,
+  question_number: n,
+  question_text: `Statement ${n}`,
+  correct_answer: 'TRUE',
+  explanation: '',
+  ...overrides,
+});
+
+const group = (overrides: Record<string, unknown> = {}) => ({
+  id: 'g1',
+  instruction: 'Questions 1-3',
+  question_type: 'TRUE_FALSE_NOT_GIVEN',
+  start_question: 1,
+  end_question: 3,
+  questions: [question(1), question(2), question(3)],
+  ...overrides,
+});
+
+const readingPayload = (groups: unknown[]) => ({
+  passage: { id: 'p1', title: 'Bees', content: 'Bees are important pollinators.' },
+  questionGroups: groups,
+});
+
+describe('validateGeneratedTest - reading and listening', () => {
+  it('accepts a well-formed payload', () => {
+    const result = validateGeneratedTest('reading', readingPayload([group()]));
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([]);
+    expect(result.invalidGroups).toEqual([]);
+  });
+
+  it('reports precise paths and the failing group index', () => {
+    const result = validateGeneratedTest('reading', readingPayload([
+      group(),
+      group({ id: 'g2', questions: [question(4), question(5, { correct_answer: ' ' })] }),
+    ]));
+
+    expect(result.valid).toBe(false);
+    expect(result.invalidGroups).toEqual([1]);
+    expect(result.issues).toEqual([
+      { path: 'questionGroups[1].questions[1].correct_answer', message: 'Answer is empty', groupIndex: 1 },
+    ]);
+  });
+
+  it('requires a passage for reading but not for listening', () => {
+    const noPassage = { questionGroups: [group()] };
+    expect(validateGeneratedTest('reading', noPassage).issues[0].path).toBe('passage');
+    expect(validateGeneratedTest('listening', noPassage).valid).toBe(true);
+  });
+
+  it('rejects payloads without question groups', () => {
+    const result = validateGeneratedTest('listening', { transcript: 'Hello', questionGroups: [] });
+    expect(result.valid).toBe(false);
+    expect(result.issues[0]).toMatchObject({ path: 'questionGroups', message: 'No question groups' });
+  });
+});
+
+describe('validateQuestionGroup', () => {
+  it('flags duplicate question numbers', () => {
+    const issues = validateQuestionGroup(group({ questions: [question(1), question(1)] }));
+    expect(issues).toEqual([{ path: 'questions[1].question_number', message: 'Duplicate question number 1' }]);
+  });
+
+  it('needs options for multiple choice questions', () => {
+    const mc = group({ question_type: 'MULTIPLE_CHOICE', questions: [question(1, { options: ['A one'] })] });
+    expect(validateQuestionGroup(mc).map((i) => i.path)).toEqual(['questions[0].options']);
+
+    const withGroupOptions = { ...mc, options: { options: ['A one', 'B two', 'C three'] } };
+    expect(validateQuestionGroup(withGroupOptions)).toEqual([]);
+  });
+
+  it('allows empty question text only for completion types', () => {
+    const blank = [question(1, { question_text: '' })];
+    expect(validateQuestionGroup(group({ questions: blank }))).toHaveLength(1);
+    expect(validateQuestionGroup(group({
+      question_type: 'TABLE_COMPLETION',
+      options: { table_data: [['Year', '____']] },
+      questions: blank,
+    }))).toEqual([]);
+  });
+
+  it('checks the options each renderer depends on', () => {
+    expect(validateQuestionGroup(group({ question_type: 'TABLE_COMPLETION' }))[0].path).toBe('options.table_data');
+    expect(validateQuestionGroup(group({ question_type: 'MATCHING_HEADINGS' }))[0].path).toBe('options.headings');
+    expect(validateQuestionGroup(group({
+      question_type: 'DRAG_AND_DROP_OPTIONS',
+      options: { options: ['A', 'B'] },
+    }))[0].message).toBe('Needs at least one option per question');
+  });
+
+  it('accepts numeric answers', () => {
+    expect(validateQuestionGroup(group({ questions: [question(1, { correct_answer: 42 })] }))).toEqual([]);
+  });
+});
+
+describe('validateGeneratedTest - writing and speaking', () => {
+  const task = (taskType: 'task1' | 'task2', instruction = 'Write about the chart.') => ({
+    id: taskType,
+    task_type: taskType,
+    instruction,
+    word_limit_min: taskType === 'task1' ? 150 : 250,
+  });
+
+  it('validates single tasks and full tests with precise paths', () => {
+    expect(validateGeneratedTest('writing', { writingTask: task('task2') }).valid).toBe(true);
+
+    const result = validateGeneratedTest('writing', {
+      writingTask: { id: 'w', test_type: 'full_test', task1: task('task1'), task2: task('task2', '  ') },
+    });
+    expect(result.issues).toEqual([{ path: 'writingTask.task2.instruction', message: 'Task instruction is empty' }]);
+  });
+
+  it('needs a cue card for Part 2 and questions for Parts 1 and 3', () => {
+    const result = validateGeneratedTest('speaking', {
+      speakingParts: [
+        { part_number: 1, questions: [] },
+        { part_number: 2, questions: [], cue_card_topic: '' },
+        { part_number: 3, questions: [{ question_number: 1, question_text: 'Why?' }] },
+      ],
+    });
+    expect(result.issues.map((i) => i.path)).toEqual(['speakingParts[0].questions', 'speakingParts[1].cue_card_topic']);
+  });
+
+  it('rejects unknown modules', () => {
+    expect(validateGeneratedTest('maths', {}).valid).toBe(false);
+  });
+});
+
+describe('validateStoredGeneratedTest', () => {
+  it('rejects a stored test with any invalid group, even when other groups are valid', () => {
+    const payload = readingPayload([group(), group({ id: 'g2', questions: [] })]);
+    expect(validateStoredGeneratedTest('reading', payload, GENERATED_TEST_SCHEMA_VERSION)).toMatchObject({
+      valid: false,
+      invalidGroups: [1],
+    });
+  });
+
+  it('rejects top-level errors outside the question groups', () => {
+    const { passage: _passage, ...noPassage } = readingPayload([group()]);
+    const result = validateStoredGeneratedTest('reading', noPassage);
+    expect(result.valid).toBe(false);
+    expect(result.invalidGroups).toEqual([]);
+  });
+
+  it('trusts payloads checked by a newer schema', () => {
+    expect(validateStoredGeneratedTest('reading', { questionGroups: [] }, GENERATED_TEST_SCHEMA_VERSION + 1).valid).toBe(true);
+  });
+});
+
+describe('formatGeneratedTestIssues', () => {
+  it('prints one line per issue and truncates long lists', () => {
+    const issues = Array.from({ length: 4 }, (_, i) => ({ path: `questions[${i}]`, message: 'Bad' }));
+    expect(formatGeneratedTestIssues(issues, 2)).toBe('questions[0]: Bad\nquestions[1]: Bad\n...and 2 more');
+  });
+});
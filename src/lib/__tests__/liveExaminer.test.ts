@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import {
+  addAskedQuestion,
+  buildExaminerScript,
+  createVoiceActivityDetector,
+  liveSegmentKey,
+  parseExaminerToolCall,
+  rmsLevel,
+  toSpeakingParts,
+  VAD_SETTINGS,
+} from '../liveExaminer';
+
+/** Feeds levels 100 ms apart and returns the events with their times */
+const run = (levels: number[], thresholdFactor = 1) => {
+  const vad = createVoiceActivityDetector(VAD_SETTINGS[1]);
+  return levels
+    .map((level, i) => [i * 100, vad.push(level, i * 100, thresholdFactor)] as const)
+    .filter(([, event]) => event !== null);
+};
+
+describe('createVoiceActivityDetector', () => {
+  it('starts after sustained speech and ends after the silence window', () => {
+    const levels = [0, 0.1, 0.1, 0.1, 0.1, ...Array(13).fill(0.001), 0.1];
+    expect(run(levels)).toEqual([
+      [400, 'speech_start'],
+      [1700, 'speech_end'],
+    ]);
+  });
+
+  it('ignores short noises and short pauses', () => {
+    expect(run([0.1, 0, 0.1, 0])).toEqual([]);
+    const levels = [0.1, 0.1, 0.1, 0.1, 0, 0, 0, 0.1, ...Array(5).fill(0)];
+    expect(run(levels)).toEqual([[300, 'speech_start']]);
+  });
+
+  it('needs louder speech to interrupt the examiner', () => {
+    expect(run([0.04, 0.04, 0.04, 0.04])).toHaveLength(1);
+    expect(run([0.04, 0.04, 0.04, 0.04], 2.5)).toEqual([]);
+  });
+
+  it('waits longer before ending a Part 2 long turn', () => {
+    const vad = createVoiceActivityDetector(VAD_SETTINGS[2]);
+    vad.push(0.1, 0);
+    expect(vad.push(0.1, 300)).toBe('speech_start');
+    expect(vad.push(0, 400)).toBeNull();
+    expect(vad.push(0, 3000)).toBeNull();
+    expect(vad.push(0, 3900)).toBe('speech_end');
+  });
+});
+
+describe('rmsLevel', () => {
+  it('is the root mean square of the chunk', () => {
+    expect(rmsLevel(new Float32Array([0.5, -0.5, 0.5, -0.5]))).toBeCloseTo(0.5);
+    expect(rmsLevel(new Float32Array())).toBe(0);
+  });
+});
+
+describe('parseExaminerToolCall', () => {
+  it('reads the examiner tools', () => {
+    expect(parseExaminerToolCall({ id: '1', name: 'ask_question', args: { part: 3, question: ' Why? ', follow_up: true } }))
+      .toEqual({ id: '1', name: 'ask_question', part: 3, question: 'Why?', followUp: true });
+    expect(parseExaminerToolCall({ id: '2', name: 'start_part2_preparation', args: { topic: 'A trip', points: ['where', 3, ''] } }))
+      .toEqual({ id: '2', name: 'start_part2_preparation', topic: 'A trip', points: ['where'] });
+    expect(parseExaminerToolCall({ id: '3', name: 'end_test' })).toEqual({ id: '3', name: 'end_test' });
+  });
+
+  it('rejects unknown tools and missing arguments', () => {
+    expect(parseExaminerToolCall({ name: 'ask_question', args: { part: 4, question: 'Hi' } })).toBeNull();
+    expect(parseExaminerToolCall({ name: 'ask_question', args: { part: 1 } })).toBeNull();
+    expect(parseExaminerToolCall({ name: 'open_door' })).toBeNull();
+  });
+});
+
+describe('buildExaminerScript', () => {
+  it('orders the planned questions and splits the cue card points', () => {
+    const script = buildExaminerScript([
+      {
+        id: 'p1',
+        part_number: 1,
+        instruction: '',
+        questions: [
+          { id: 'b', question_number: 2, question_text: 'Do you like it?' },
+          { id: 'a', question_number: 1, question_text: 'Where do you live?' },
+        ],
+      },
+      {
+        id: 'p2',
+        part_number: 2,
+        instruction: '',
+        questions: [{ id: 'c', question_number: 1, question_text: 'Describe a trip' }],
+        cue_card_topic: 'Describe a memorable trip',
+        cue_card_content: '- where you went\n- who you went with\n\n• why it was memorable',
+      },
+    ]);
+    expect(script).toEqual({
+      part1: ['Where do you live?', 'Do you like it?'],
+      part2: { topic: 'Describe a memorable trip', points: ['where you went', 'who you went with', 'why it was memorable'] },
+      part3: [],
+    });
+  });
+});
+
+describe('asked questions', () => {
+  it('numbers questions per part and keeps only answered ones for evaluation', () => {
+    let asked = addAskedQuestion([], 1, 'Where do you live?', false);
+    asked = addAskedQuestion(asked, 1, 'Why do you like it there?', true);
+    asked = addAskedQuestion(asked, 2, 'Describe a memorable trip', false);
+    asked = addAskedQuestion(asked, 3, 'Why do people travel?', false);
+
+    expect(asked.map(liveSegmentKey)).toEqual([
+      'part1-qlive-p1-q1',
+      'part1-qlive-p1-q2',
+      'part2-qlive-p2-q1',
+      'part3-qlive-p3-q1',
+    ]);
+
+    const parts = toSpeakingParts(asked, new Set(['live-p1-q1', 'live-p1-q2', 'live-p2-q1']), {
+      topic: 'Describe a memorable trip',
+      points: ['where', 'when'],
+    });
+    expect(parts.map(p => p.part_number)).toEqual([1, 2]);
+    expect(parts[0].questions.map(q => q.question_text)).toEqual(['Where do you live?', 'Why do you like it there? (follow-up)']);
+    expect(parts[1]).toMatchObject({ cue_card_topic: 'Describe a memorable trip', cue_card_content: 'where\nwhen' });
+  });
+});
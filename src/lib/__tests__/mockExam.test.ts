@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateOverallBand,
+  calculateWritingBand,
+  getNextStage,
+  getSectionPath,
+  getSectionSeconds,
+  getWritingTaskBand,
+  isSectionComplete,
+  roundToHalfBand,
+} from '../mockExam';
+
+describe('roundToHalfBand', () => {
+  it('keeps whole and half bands unchanged', () => {
+    expect(roundToHalfBand(6)).toBe(6);
+    expect(roundToHalfBand(6.5)).toBe(6.5);
+  });
+
+  it('rounds .25 up to the half band and .75 up to the next whole band', () => {
+    expect(roundToHalfBand(6.25)).toBe(6.5);
+    expect(roundToHalfBand(6.75)).toBe(7);
+  });
+
+  it('rounds other fractions to the nearest half band', () => {
+    expect(roundToHalfBand(6.125)).toBe(6);
+    expect(roundToHalfBand(6.375)).toBe(6.5);
+    expect(roundToHalfBand(6.625)).toBe(6.5);
+    expect(roundToHalfBand(6.875)).toBe(7);
+  });
+
+  it('is not thrown off by floating point drift', () => {
+    expect(roundToHalfBand(6.2499999999999)).toBe(6.5);
+    expect(roundToHalfBand(6.7499999999999)).toBe(7);
+  });
+});
+
+describe('calculateOverallBand', () => {
+  it('matches the official examples', () => {
+    // 6.5 + 6.5 + 5.0 + 7.0 = 25 / 4 = 6.25 -> 6.5
+    expect(calculateOverallBand([6.5, 6.5, 5, 7])).toBe(6.5);
+    // 4.0 + 3.5 + 4.0 + 4.0 = 15.5 / 4 = 3.875 -> 4.0
+    expect(calculateOverallBand([4, 3.5, 4, 4])).toBe(4);
+    // 6.5 + 6.5 + 5.5 + 6.0 = 24.5 / 4 = 6.125 -> 6.0
+    expect(calculateOverallBand([6.5, 6.5, 5.5, 6])).toBe(6);
+    // 7.0 + 7.5 + 7.0 + 7.5 = 29 / 4 = 7.25 -> 7.5
+    expect(calculateOverallBand([7, 7.5, 7, 7.5])).toBe(7.5);
+  });
+
+  it('returns null until every skill has a band', () => {
+    expect(calculateOverallBand([6.5, 7, null, 6])).toBeNull();
+    expect(calculateOverallBand([6.5, 7, undefined, 6])).toBeNull();
+    expect(calculateOverallBand([])).toBeNull();
+  });
+});
+
+describe('calculateWritingBand', () => {
+  it('weights Task 2 twice as heavily as Task 1', () => {
+    // (5 + 7 * 2) / 3 = 6.33 -> 6.5
+    expect(calculateWritingBand(5, 7)).toBe(6.5);
+    // (7 + 5 * 2) / 3 = 5.67 -> 5.5
+    expect(calculateWritingBand(7, 5)).toBe(5.5);
+  });
+
+  it('returns null while either task is unscored', () => {
+    expect(calculateWritingBand(6, null)).toBeNull();
+    expect(calculateWritingBand(undefined, 6)).toBeNull();
+  });
+});
+
+describe('getWritingTaskBand', () => {
+  const now = new Date('2026-03-01T12:00:00Z');
+  const task = { overall_band: null, word_count: 260, submitted_at: '2026-03-01T11:55:00Z' };
+
+  it('uses the evaluated band and waits for a pending evaluation', () => {
+    expect(getWritingTaskBand({ ...task, overall_band: 6.5 }, now)).toBe(6.5);
+    expect(getWritingTaskBand(task, now)).toBeNull();
+  });
+
+  it('scores a missing, blank or failed task as 0 so the session can complete', () => {
+    expect(getWritingTaskBand(null, now)).toBe(0);
+    expect(getWritingTaskBand({ ...task, word_count: 0 }, now)).toBe(0);
+    expect(getWritingTaskBand({ ...task, submitted_at: '2026-03-01T11:30:00Z' }, now)).toBe(0);
+    // (0 + 6 * 2) / 3 = 4
+    expect(calculateWritingBand(getWritingTaskBand(null, now), 6)).toBe(4);
+  });
+});
+
+describe('stages', () => {
+  it('follows the official order with a break before Speaking', () => {
+    expect(getNextStage('listening')).toBe('reading');
+    expect(getNextStage('reading')).toBe('writing');
+    expect(getNextStage('writing')).toBe('break');
+    expect(getNextStage('break')).toBe('speaking');
+    expect(getNextStage('speaking')).toBe('completed');
+    expect(getNextStage('completed')).toBe('completed');
+  });
+
+  it('reports which sections are finished', () => {
+    expect(isSectionComplete('listening', 'reading')).toBe(true);
+    expect(isSectionComplete('reading', 'reading')).toBe(false);
+    expect(isSectionComplete('writing', 'break')).toBe(true);
+    expect(isSectionComplete('speaking', 'completed')).toBe(true);
+  });
+});
+
+describe('getSectionPath', () => {
+  it('starts a new submission for Writing and Speaking', () => {
+    expect(getSectionPath('reading', 't1', 's1')).toBe('/reading/test/t1?mockSession=s1');
+    expect(getSectionPath('writing', 't2', 's1')).toBe('/writing/test/t2/new-submission?mockSession=s1');
+    expect(getSectionPath('speaking', 't3', 's1')).toBe('/speaking/test/t3/new-submission?mockSession=s1');
+  });
+});
+
+describe('getSectionSeconds', () => {
+  it('uses the official section timings', () => {
+    expect(getSectionSeconds('listening')).toBe(30 * 60);
+    expect(getSectionSeconds('reading')).toBe(60 * 60);
+    expect(getSectionSeconds('writing')).toBe(60 * 60);
+  });
+});
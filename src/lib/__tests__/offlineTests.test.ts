@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { OfflineAttempt } from '../offlineStore';
+
+const { from, getUser, listAttempts, saveAttempt, deleteAttempt } = vi.hoisted(() => ({
+  from: vi.fn(),
+  getUser: vi.fn(),
+  listAttempts: vi.fn(),
+  saveAttempt: vi.fn(),
+  deleteAttempt: vi.fn(),
+}));
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { from, auth: { getUser } },
+}));
+
+vi.mock('../offlineStore', async importOriginal => ({
+  ...(await importOriginal<typeof import('../offlineStore')>()),
+  listAttempts,
+  saveAttempt,
+  deleteAttempt,
+}));
+
+import { findConflictingSubmission, resolveConflict, syncPendingAttempts } from '../offlineTests';
+
+const attempt = (overrides: Partial<OfflineAttempt> = {}): OfflineAttempt => ({
+  key: 'reading:t1:sub1',
+  module: 'reading',
+  testId: 't1',
+  testTitle: 'Reading Test 1',
+  status: 'pending_sync',
+  answers: { 1: 'A' },
+  currentQuestion: 1,
+  timeLeft: 600,
+  startedAt: '2026-03-01T09:00:00.000Z',
+  updatedAt: '2026-03-01T10:00:00.000Z',
+  submission: {
+    id: 'sub1',
+    userId: 'u1',
+    score: 30,
+    totalQuestions: 40,
+    bandScore: 7,
+    completedAt: '2026-03-01T10:00:00.000Z',
+    questionResults: { '1': { correct: true } },
+  },
+  ...overrides,
+});
+
+const remote = (id: string, completedAt: string) => ({ id, score: 25, total_questions: 40, completed_at: completedAt });
+
+// Submission table: the conflict query resolves to `rows`, inserts to `insertError`
+function mockTable(rows: ReturnType<typeof remote>[] = [], insertError: { code: string } | null = null) {
+  const query = { eq: () => query, gte: () => Promise.resolve({ data: rows, error: null }) };
+  const table = { select: vi.fn(() => query), insert: vi.fn().mockResolvedValue({ error: insertError }) };
+  from.mockReturnValue(table);
+  return table;
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  getUser.mockResolvedValue({ data: { user: { id: 'u1' } } });
+});
+
+describe('findConflictingSubmission', () => {
+  it('ignores submissions completed before the attempt started and the attempt itself', () => {
+    expect(findConflictingSubmission(attempt(), [
+      remote('old', '2026-03-01T08:59:59.000Z'),
+      remote('sub1', '2026-03-01T10:00:00.000Z'),
+    ])).toBeNull();
+  });
+
+  it('returns the latest submission made after the attempt started', () => {
+    expect(findConflictingSubmission(attempt(), [
+      remote('r1', '2026-03-01T09:30:00.000Z'),
+      remote('r2', '2026-03-01T09:45:00.000Z'),
+    ])).toEqual({ id: 'r2', score: 25, totalQuestions: 40, completedAt: '2026-03-01T09:45:00.000Z' });
+  });
+});
+
+describe('syncPendingAttempts', () => {
+  it('inserts the signed-in user\'s queued attempts and removes them from the device', async () => {
+    const queued = attempt();
+    listAttempts.mockResolvedValue([
+      queued,
+      attempt({ key: 'reading:t2', status: 'in_progress', submission: undefined }),
+      attempt({ key: 'reading:t1:sub2', submission: { ...queued.submission!, id: 'sub2', userId: 'u2' } }),
+    ]);
+    const table = mockTable();
+
+    const summary = await syncPendingAttempts();
+
+    expect(summary).toEqual({ synced: [queued], conflicts: [], failed: 0 });
+    expect(from).toHaveBeenCalledWith('reading_test_submissions');
+    expect(table.insert).toHaveBeenCalledTimes(1);
+    expect(table.insert).toHaveBeenCalledWith(expect.objectContaining({
+      id: 'sub1',
+      user_id: 'u1',
+      test_id: 't1',
+      band_score: 7,
+      question_results: { '1': { correct: true } },
+    }));
+    expect(deleteAttempt).toHaveBeenCalledWith('reading:t1:sub1');
+  });
+
+  it('flags an attempt as a conflict when the test was submitted elsewhere meanwhile', async () => {
+    listAttempts.mockResolvedValue([attempt()]);
+    const table = mockTable([remote('r1', '2026-03-01T09:30:00.000Z')]);
+
+    const summary = await syncPendingAttempts();
+
+    expect(summary.conflicts).toHaveLength(1);
+    expect(saveAttempt).toHaveBeenCalledWith(expect.objectContaining({
+      key: 'reading:t1:sub1',
+      status: 'conflict',
+      conflict: { id: 'r1', score: 25, totalQuestions: 40, completedAt: '2026-03-01T09:30:00.000Z' },
+    }));
+    expect(table.insert).not.toHaveBeenCalled();
+    expect(deleteAttempt).not.toHaveBeenCalled();
+  });
+
+  it('treats an attempt inserted by an interrupted sync as synced', async () => {
+    listAttempts.mockResolvedValue([attempt()]);
+    mockTable([], { code: '23505' });
+
+    const summary = await syncPendingAttempts();
+
+    expect(summary.synced).toHaveLength(1);
+    expect(deleteAttempt).toHaveBeenCalledWith('reading:t1:sub1');
+  });
+
+  it('keeps attempts that fail to insert for the next sync', async () => {
+    listAttempts.mockResolvedValue([attempt()]);
+    mockTable([], { code: '42501' });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    const summary = await syncPendingAttempts();
+
+    expect(summary).toEqual({ synced: [], conflicts: [], failed: 1 });
+    expect(deleteAttempt).not.toHaveBeenCalled();
+  });
+
+  it('does nothing when signed out', async () => {
+    getUser.mockResolvedValue({ data: { user: null } });
+
+    expect(await syncPendingAttempts()).toEqual({ synced: [], conflicts: [], failed: 0 });
+    expect(listAttempts).not.toHaveBeenCalled();
+  });
+});
+
+describe('resolveConflict', () => {
+  it('submits the offline attempt when kept', async () => {
+    const table = mockTable();
+
+    await resolveConflict(attempt({ status: 'conflict' }), 'keep');
+
+    expect(table.insert).toHaveBeenCalledWith(expect.objectContaining({ id: 'sub1' }));
+    expect(deleteAttempt).toHaveBeenCalledWith('reading:t1:sub1');
+  });
+
+  it('only removes the offline attempt when discarded', async () => {
+    const table = mockTable();
+
+    await resolveConflict(attempt({ status: 'conflict' }), 'discard');
+
+    expect(table.insert).not.toHaveBeenCalled();
+    expect(deleteAttempt).toHaveBeenCalledWith('reading:t1:sub1');
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canUseModule,
+  emptyPlanTierDraft,
+  formatFeatureLines,
+  operationCost,
+  operationModule,
+  parseFeatureLines,
+  parseFeatures,
+  validatePlanTier,
+} from '../planTiers';
+
+describe('operationModule', () => {
+  it('maps generation and evaluation operations to their module', () => {
+    expect(operationModule('generate_speaking')).toBe('speaking');
+    expect(operationModule('evaluate_writing')).toBe('writing');
+    expect(operationModule('explain_answer')).toBeNull();
+  });
+});
+
+describe('canUseModule', () => {
+  it('locks modules outside the plan but nothing before a plan is known', () => {
+    const speakingPro = { allowed_modules: ['speaking'] };
+    expect(canUseModule(speakingPro, 'speaking')).toBe(true);
+    expect(canUseModule(speakingPro, 'reading')).toBe(false);
+    expect(canUseModule(null, 'reading')).toBe(true);
+  });
+});
+
+describe('operationCost', () => {
+  it('reads the plan price and treats unlisted operations as free', () => {
+    const plan = { operation_costs: { generate_listening: 20, explain_answer: 'two' } };
+    expect(operationCost(plan, 'generate_listening')).toBe(20);
+    expect(operationCost(plan, 'explain_answer')).toBe(0);
+    expect(operationCost(plan, 'evaluate_reading')).toBe(0);
+  });
+});
+
+describe('features', () => {
+  it('round-trips through the one-per-line editor format', () => {
+    const features = parseFeatureLines('Speaking mock tests\n\n- Reading practice\n  Live examiner ');
+    expect(features).toEqual([
+      { text: 'Speaking mock tests', included: true },
+      { text: 'Reading practice', included: false },
+      { text: 'Live examiner', included: true },
+    ]);
+    expect(parseFeatureLines(formatFeatureLines(features))).toEqual(features);
+    expect(parseFeatures([{ text: 'Ok' }, { nope: true }, 'text'])).toEqual([{ text: 'Ok', included: true }]);
+  });
+});
+
+describe('validatePlanTier', () => {
+  const existing = [{ id: 'free-id', slug: 'free' }];
+
+  it('accepts a new paid plan', () => {
+    const draft = { ...emptyPlanTierDraft(4), slug: 'speaking_pro', name: 'Speaking Pro', price: 200, allowed_modules: ['speaking' as const] };
+    expect(validatePlanTier(draft, existing)).toEqual([]);
+  });
+
+  it('reports duplicate slugs, missing durations and bad costs', () => {
+    const draft = {
+      ...emptyPlanTierDraft(4),
+      slug: 'free',
+      name: 'Copy',
+      price: 100,
+      duration_days: null,
+      operation_costs: { generate_reading: -1 },
+      model_tiers: [],
+    };
+    expect(validatePlanTier(draft, existing)).toEqual([
+      'Another plan already uses "free"',
+      'A paid plan needs a duration in days',
+      'Reading test generated: cost must be a whole number of 0 or more',
+      'Allow at least one model tier',
+    ]);
+    expect(validatePlanTier({ ...draft, id: 'free-id', price: 0, operation_costs: {}, model_tiers: ['flash'] }, existing)).toEqual([]);
+  });
+});
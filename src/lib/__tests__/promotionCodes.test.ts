@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  conversionRate,
+  describeGrant,
+  emptyPromotionCodeDraft,
+  normalizeCode,
+  promotionErrorMessage,
+  promotionStatus,
+  validatePromotionCodeDraft,
+} from '../promotionCodes';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+describe('promotionStatus', () => {
+  const code = { is_active: true, starts_at: '2026-02-01T00:00:00Z', expires_at: '2026-04-01T00:00:00Z', max_redemptions: 10 };
+
+  it('follows the validity window and the active switch', () => {
+    expect(promotionStatus(code, undefined, NOW)).toBe('active');
+    expect(promotionStatus({ ...code, starts_at: '2026-03-02T00:00:00Z' }, undefined, NOW)).toBe('scheduled');
+    expect(promotionStatus({ ...code, expires_at: '2026-03-01T00:00:00Z' }, undefined, NOW)).toBe('expired');
+    expect(promotionStatus({ ...code, is_active: false }, undefined, NOW)).toBe('inactive');
+  });
+
+  it('counts unpaid checkouts towards the redemption limit', () => {
+    expect(promotionStatus(code, { redemptions: 8, pending_redemptions: 2 }, NOW)).toBe('used_up');
+    expect(promotionStatus({ ...code, max_redemptions: null }, { redemptions: 80, pending_redemptions: 2 }, NOW)).toBe('active');
+  });
+});
+
+describe('describeGrant', () => {
+  it('describes each kind of grant', () => {
+    const plans = [{ id: 'monthly-id', name: 'Monthly' }];
+    const base = { percent_off: null, credits: null, plan_tier_id: null, duration_days: null };
+    expect(describeGrant({ ...base, grant_type: 'percent_off', percent_off: 25 }, plans)).toBe('25% off first payment');
+    expect(describeGrant({ ...base, grant_type: 'credits', credits: 200 }, plans)).toBe('200 credits');
+    expect(describeGrant({ ...base, grant_type: 'plan_access', plan_tier_id: 'monthly-id', duration_days: 14 }, plans)).toBe('Monthly for 14 days');
+  });
+});
+
+describe('conversionRate', () => {
+  it('is the share of redeemers who paid, and unknown before any redemption', () => {
+    expect(conversionRate({ unique_users: 8, converted_users: 2 })).toBe(0.25);
+    expect(conversionRate({ unique_users: 0, converted_users: 0 })).toBeNull();
+  });
+});
+
+describe('codes and errors', () => {
+  it('normalizes typed codes and explains server errors', () => {
+    expect(normalizeCode('  spring-25 ')).toBe('SPRING-25');
+    expect(promotionErrorMessage('USER_LIMIT_REACHED')).toBe('You have already used this code.');
+    expect(promotionErrorMessage('SOMETHING_NEW')).toBe('This code could not be used.');
+  });
+});
+
+describe('validatePromotionCodeDraft', () => {
+  it('accepts a discount code', () => {
+    const draft = { ...emptyPromotionCodeDraft(), code: 'spring25', max_redemptions: 100 };
+    expect(validatePromotionCodeDraft(draft, ['WELCOME'])).toEqual([]);
+  });
+
+  it('reports duplicates, missing grant settings and bad limits', () => {
+    const draft = {
+      ...emptyPromotionCodeDraft(),
+      code: 'welcome',
+      grant_type: 'plan_access' as const,
+      duration_days: 0,
+      max_redemptions: 0,
+      starts_at: '2026-03-10',
+      expires_at: '2026-03-01',
+    };
+    expect(validatePromotionCodeDraft(draft, ['WELCOME'])).toEqual([
+      '"WELCOME" already exists',
+      'Choose the plan the code gives access to',
+      'Access must last at least 1 day',
+      'Total redemptions must be a whole number above 0, or empty for no limit',
+      'Expiry must be after the start date',
+    ]);
+  });
+
+  it('does not need a code when generating several', () => {
+    const draft = { ...emptyPromotionCodeDraft(), grant_type: 'credits' as const };
+    expect(validatePromotionCodeDraft(draft, [], 10)).toEqual([]);
+    expect(validatePromotionCodeDraft(draft, [], 51)).toEqual(['Generate between 1 and 50 codes at a time']);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PromptDefinition,
+  checkTemplate,
+  formatPromptVersion,
+  nextVersionNumber,
+  parsePromptVersion,
+  rolloutShares,
+  templateVariables,
+} from '../promptTemplates';
+
+const definition: PromptDefinition = {
+  key: 'speaking_text_evaluation',
+  label: 'Speaking evaluation (transcripts)',
+  variables: { topic: 'Test topic', segments: 'Answers', fluency_note: 'Penalty line' },
+  builtin: 'Topic: {{topic}}\n{{fluency_note}}\n{{segments}}',
+};
+
+describe('templateVariables', () => {
+  it('lists each placeholder once and skips numbered gap markers', () => {
+    expect(templateVariables('{{topic}} and {{ topic }} then {{1}} and {{segments}}')).toEqual(['topic', 'segments']);
+  });
+});
+
+describe('checkTemplate', () => {
+  it('flags variables the code does not supply and ones the template dropped', () => {
+    expect(checkTemplate('Topic: {{topic}}\n{{segments}}\n{{band_hint}}', definition)).toEqual({
+      unknown: ['band_hint'],
+      unused: ['fluency_note'],
+    });
+  });
+
+  it('accepts the built-in template', () => {
+    expect(checkTemplate(definition.builtin, definition)).toEqual({ unknown: [], unused: [] });
+  });
+});
+
+describe('prompt version strings', () => {
+  it('round-trips numbered and built-in versions', () => {
+    expect(formatPromptVersion('reading_generation', 3)).toBe('reading_generation@v3');
+    expect(parsePromptVersion('reading_generation@v3')).toEqual({ key: 'reading_generation', version: 3 });
+    expect(parsePromptVersion(formatPromptVersion('reading_generation', null))).toEqual({ key: 'reading_generation', version: null });
+  });
+
+  it('ignores versions recorded before templates existed', () => {
+    expect(parsePromptVersion('speaking-text-v1')).toBeNull();
+  });
+});
+
+describe('rolloutShares', () => {
+  it('splits traffic between active versions by weight', () => {
+    expect(rolloutShares([
+      { version: 1, weight: 75, is_active: true },
+      { version: 2, weight: 25, is_active: true },
+      { version: 3, weight: 50, is_active: false },
+      { version: 4, weight: 0, is_active: true },
+    ])).toEqual([
+      { version: 1, share: 0.75 },
+      { version: 2, share: 0.25 },
+    ]);
+  });
+
+  it('falls back to the built-in template when nothing is rolled out', () => {
+    expect(rolloutShares([{ version: 1, weight: 50, is_active: false }])).toEqual([{ version: null, share: 1 }]);
+  });
+});
+
+describe('nextVersionNumber', () => {
+  it('numbers after the highest existing version', () => {
+    expect(nextVersionNumber([])).toBe(1);
+    expect(nextVersionNumber([{ version: 2 }, { version: 5 }])).toBe(6);
+  });
+});
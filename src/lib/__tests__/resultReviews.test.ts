@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  criterionDeltas,
+  getAiCriterionBands,
+  getAiCriterionFeedback,
+  initialAdjustments,
+  overallFromAdjustments,
+  parseReviewSnapshot,
+  parseVersionCriteria,
+} from '../resultReviews';
+
+const writingCriteria = {
+  task_achievement_response: 6,
+  coherence_and_cohesion: 6.5,
+  lexical_resource: 6,
+  grammatical_range_and_accuracy: 5.5,
+};
+
+describe('AI criterion bands', () => {
+  it('reads numeric bands and skips missing ones', () => {
+    expect(getAiCriterionBands({ ai_criteria: { lexical_resource: 6, pronunciation: null } })).toEqual({ lexical_resource: 6 });
+    expect(getAiCriterionBands({ ai_criteria: [] })).toEqual({});
+  });
+
+  it('pre-fills the reviewer form with the AI bands', () => {
+    const adjustments = initialAdjustments({ source_type: 'writing_submission', ai_criteria: writingCriteria });
+    expect(adjustments.coherence_and_cohesion).toEqual({ band: 6.5, comment: '' });
+    expect(Object.keys(adjustments)).toHaveLength(4);
+  });
+});
+
+describe('overallFromAdjustments', () => {
+  it('averages the four criteria to the nearest half band', () => {
+    const adjustments = initialAdjustments({ source_type: 'writing_submission', ai_criteria: writingCriteria });
+    // (6 + 6.5 + 6 + 5.5) / 4 = 6
+    expect(overallFromAdjustments('writing_submission', adjustments)).toBe(6);
+
+    adjustments.lexical_resource = { band: 7, comment: 'Good range' };
+    // (6 + 6.5 + 7 + 5.5) / 4 = 6.25 -> 6.5
+    expect(overallFromAdjustments('writing_submission', adjustments)).toBe(6.5);
+  });
+
+  it('is null until every criterion has a band', () => {
+    expect(overallFromAdjustments('speaking_result', { pronunciation: { band: 7, comment: '' } })).toBeNull();
+  });
+});
+
+describe('criterionDeltas', () => {
+  it('reports human minus AI for criteria the AI scored', () => {
+    expect(criterionDeltas(
+      { lexical_resource: 6, pronunciation: 7 },
+      { lexical_resource: { band: 6.5, comment: '' }, pronunciation: { band: 6, comment: '' }, fluency_coherence: { band: 7, comment: '' } }
+    )).toEqual({ lexical_resource: 0.5, pronunciation: -1 });
+  });
+});
+
+describe('snapshots', () => {
+  it('parses writing and speaking snapshots', () => {
+    const writing = parseReviewSnapshot({ task_type: 'task2', instruction: 'Discuss both views.', submission_text: 'Essay', word_count: 265 });
+    expect(writing).toMatchObject({ taskType: 'task2', submissionText: 'Essay', wordCount: 265, audioUrls: {} });
+
+    const speaking = parseReviewSnapshot({ audio_urls: { part1: 'https://cdn/p1.webm', part2: '' }, transcripts_by_part: { 1: 'Hello' } });
+    expect(speaking.audioUrls).toEqual({ part1: 'https://cdn/p1.webm' });
+    expect(speaking.transcriptsByPart).toEqual({ 1: 'Hello' });
+    expect(speaking.report).toBeNull();
+  });
+
+  it('finds the AI notes for writing and speaking criteria', () => {
+    expect(getAiCriterionFeedback('writing_submission', {
+      lexical_resource: { band: 6, strengths: 'Some **collocations**', weaknesses: 'Repetition', suggestions_for_improvement: 'Vary' },
+    }, 'lexical_resource')).toEqual(['Some **collocations**', 'Repetition']);
+
+    expect(getAiCriterionFeedback('speaking_result', {
+      criteria: { pronunciation: { band: 6, feedback: 'Mostly clear', strengths: [], weaknesses: ['Word stress'] } },
+    }, 'pronunciation')).toEqual(['Mostly clear', 'Word stress']);
+  });
+
+  it('reads stored version criteria', () => {
+    expect(parseVersionCriteria({ lexical_resource: { band: 6.5, comment: 'Better than AI said' }, bad: { band: 'x' } }))
+      .toEqual({ lexical_resource: { band: 6.5, comment: 'Better than AI said' } });
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { shellAssetUrls } from '../offlineStore';
+
+// Runs public/sw.js against in-memory caches and a stubbed network
+
+const SW_SOURCE = readFileSync(resolve(__dirname, '../../../public/sw.js'), 'utf8');
+
+const SHELL_HTML = `<!doctype html><html><head>
+<script type="module" crossorigin src="/assets/index-abc123.js"></script>
+<link rel="stylesheet" crossorigin href="/assets/index-def456.css">
+<link rel="icon" href="/favicon.svg">
+</head><body><div id="root"></div></body></html>`;
+
+type Listener = (event: { request?: Request; waitUntil(p: Promise<unknown>): void; respondWith(r: Promise<Response>): void }) => void;
+
+function keyOf(request: RequestInfo | URL): string {
+  const url = typeof request === 'string' ? request : request instanceof URL ? request.href : request.url;
+  return new URL(url, 'https://app.test').href;
+}
+
+function createCaches(network: (url: string) => Promise<Response>) {
+  const stores = new Map<string, Map<string, Response>>();
+  const open = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    const store = stores.get(name)!;
+    return {
+      match: async (request: RequestInfo) => store.get(keyOf(request))?.clone(),
+      put: async (request: RequestInfo, response: Response) => { store.set(keyOf(request), response); },
+      add: async (request: RequestInfo) => { store.set(keyOf(request), await network(keyOf(request))); },
+      delete: async (request: RequestInfo) => store.delete(keyOf(request)),
+    };
+  };
+  return {
+    stores,
+    open: async (name: string) => open(name),
+    match: async (request: RequestInfo) => {
+      for (const store of stores.values()) {
+        const hit = store.get(keyOf(request));
+        if (hit) return hit.clone();
+      }
+      return undefined;
+    },
+    keys: async () => [...stores.keys()],
+    delete: async (name: string) => stores.delete(name),
+  };
+}
+
+let listeners: Record<string, Listener>;
+let caches: ReturnType<typeof createCaches>;
+let online: boolean;
+
+const network = vi.fn(async (url: string) => {
+  if (!online) throw new TypeError('Failed to fetch');
+  if (url.endsWith('/index.html') || !url.includes('.')) return new Response(SHELL_HTML, { headers: { 'Content-Type': 'text/html' } });
+  return new Response(`asset ${url}`);
+});
+
+async function dispatch(type: string, request?: Request): Promise<Response | undefined> {
+  const pending: Promise<unknown>[] = [];
+  let response: Promise<Response> | undefined;
+  listeners[type]({ request, waitUntil: p => pending.push(p), respondWith: r => { response = r; } });
+  const result = await response;
+  await Promise.all(pending);
+  return result;
+}
+
+beforeEach(() => {
+  listeners = {};
+  online = true;
+  network.mockClear();
+  caches = createCaches(network);
+  const self = {
+    location: new URL('https://app.test/'),
+    addEventListener: (type: string, listener: Listener) => { listeners[type] = listener; },
+    skipWaiting: vi.fn(),
+    clients: { claim: vi.fn() },
+  };
+  const fetch = (request: RequestInfo) => network(keyOf(request));
+  new Function('self', 'caches', 'fetch', SW_SOURCE)(self, caches, fetch);
+});
+
+describe('service worker', () => {
+  it('caches the shell and the bundles it loads on install', async () => {
+    await dispatch('install');
+
+    expect([...caches.stores.get('ielts-assets-v1')!.keys()]).toEqual([
+      'https://app.test/assets/index-abc123.js',
+      'https://app.test/assets/index-def456.css',
+    ]);
+    expect(caches.stores.get('ielts-shell-v1')!.has('https://app.test/index.html')).toBe(true);
+  });
+
+  it('boots offline from the install cache alone', async () => {
+    await dispatch('install');
+    online = false;
+
+    // Request() cannot be constructed with mode 'navigate' outside a browser
+    const navigation = { url: 'https://app.test/reading/test/1', method: 'GET', mode: 'navigate' } as Request;
+    const page = await dispatch('fetch', navigation);
+    expect(await page!.text()).toBe(SHELL_HTML);
+
+    const bundle = await dispatch('fetch', new Request('https://app.test/assets/index-abc123.js'));
+    expect(bundle!.ok).toBe(true);
+  });
+
+  it('answers range requests for downloaded audio', async () => {
+    const audio = await caches.open('ielts-offline-audio-v1');
+    await audio.put('https://cdn.test/part1.mp3', new Response('0123456789', { headers: { 'Content-Type': 'audio/mpeg' } }));
+
+    const partial = await dispatch('fetch', new Request('https://cdn.test/part1.mp3', { headers: { Range: 'bytes=2-5' } }));
+    expect(partial!.status).toBe(206);
+    expect(partial!.headers.get('Content-Range')).toBe('bytes 2-5/10');
+    expect(await partial!.text()).toBe('2345');
+
+    const outside = await dispatch('fetch', new Request('https://cdn.test/part1.mp3', { headers: { Range: 'bytes=20-' } }));
+    expect(outside!.status).toBe(416);
+  });
+});
+
+describe('shellAssetUrls', () => {
+  it('lists the built bundles an index.html loads, matching the service worker', () => {
+    expect(shellAssetUrls(SHELL_HTML)).toEqual(['/assets/index-abc123.js', '/assets/index-def456.css']);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+// Client modules that copy an edge-function module in supabase/functions/_shared.
+// The header comment and imports differ (Deno specifiers); the code after them
+// must not. `from` marks where the shared part starts when only a section is copied.
+const COPIES: [module: string, from?: string][] = [
+  ['generatedTestSchema'],
+  ['adaptiveDifficulty'],
+  ['answerEvidence'],
+  ['transcriptAlignment'],
+  ['billing', '// SUBSCRIPTION LIFECYCLE'],
+];
+
+function sharedPart(path: string, from?: string): string {
+  const lines = readFileSync(path, 'utf8').split('\n');
+  const start = from
+    ? lines.indexOf(from) - 1
+    : lines.findIndex(line => line.trim() !== '' && !/^(\/\/|\/\*\*|\s*\*|import )/.test(line));
+  expect(start).toBeGreaterThan(0);
+  return lines.slice(start).join('\n');
+}
+
+describe('shared module copies', () => {
+  it.each(COPIES)('src/lib/%s.ts matches the edge-function copy', (module, from) => {
+    const client = sharedPart(resolve(__dirname, `../${module}.ts`), from);
+    const server = sharedPart(resolve(__dirname, `../../../supabase/functions/_shared/${module}.ts`), from);
+    expect(client).toBe(server);
+  });
+});
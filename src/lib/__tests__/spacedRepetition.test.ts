@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scheduleReview,
+  getNextInterval,
+  getDueCards,
+  isCardDue,
+  statusFromInterval,
+  formatInterval,
+  DEFAULT_EASE_FACTOR,
+  MIN_EASE_FACTOR,
+  MAX_INTERVAL_DAYS,
+} from '../spacedRepetition';
+
+const NOW = new Date('2026-03-10T09:00:00');
+
+describe('scheduleReview', () => {
+  it('schedules a new card answered "hard" for tomorrow', () => {
+    const result = scheduleReview({}, 'hard', NOW);
+    expect(result.interval_days).toBe(1);
+    expect(result.repetitions).toBe(1);
+    expect(result.status).toBe('learning');
+    expect(new Date(result.next_review_at!).getDate()).toBe(11);
+  });
+
+  it('schedules a new card answered "good" for the day after tomorrow', () => {
+    const result = scheduleReview({}, 'good', NOW);
+    expect(result.interval_days).toBe(2);
+    expect(result.repetitions).toBe(1);
+    expect(result.ease_factor).toBe(DEFAULT_EASE_FACTOR);
+    expect(new Date(result.next_review_at!).getDate()).toBe(12);
+  });
+
+  it('gives a new card answered "easy" a longer first interval', () => {
+    const result = scheduleReview({}, 'easy', NOW);
+    expect(result.interval_days).toBe(4);
+    expect(result.ease_factor).toBeCloseTo(2.65);
+    expect(result.status).toBe('reviewing');
+  });
+
+  it('uses a 6 day interval on the second successful review', () => {
+    const result = scheduleReview({ repetitions: 1, interval_days: 1, ease_factor: 2.5 }, 'good', NOW);
+    expect(result.interval_days).toBe(6);
+    expect(result.repetitions).toBe(2);
+  });
+
+  it('multiplies the interval by the ease factor after that', () => {
+    const result = scheduleReview({ repetitions: 2, interval_days: 6, ease_factor: 2.5 }, 'good', NOW);
+    expect(result.interval_days).toBe(15);
+  });
+
+  it('grows the interval slowly and lowers ease on "hard"', () => {
+    const result = scheduleReview({ repetitions: 3, interval_days: 10, ease_factor: 2.5 }, 'hard', NOW);
+    expect(result.interval_days).toBe(12);
+    expect(result.ease_factor).toBeCloseTo(2.35);
+  });
+
+  it('resets repetitions and counts a lapse on "again"', () => {
+    const result = scheduleReview({ repetitions: 4, interval_days: 30, ease_factor: 2.5, lapses: 1 }, 'again', NOW);
+    expect(result.interval_days).toBe(1);
+    expect(result.repetitions).toBe(0);
+    expect(result.lapses).toBe(2);
+    expect(result.ease_factor).toBeCloseTo(2.3);
+    expect(result.status).toBe('learning');
+  });
+
+  it('does not count a lapse for a card that was never learned', () => {
+    const result = scheduleReview({}, 'again', NOW);
+    expect(result.lapses).toBe(0);
+  });
+
+  it('never drops the ease factor below the minimum', () => {
+    const result = scheduleReview({ repetitions: 3, interval_days: 5, ease_factor: MIN_EASE_FACTOR }, 'again', NOW);
+    expect(result.ease_factor).toBe(MIN_EASE_FACTOR);
+  });
+
+  it('caps intervals at the maximum', () => {
+    const result = scheduleReview({ repetitions: 10, interval_days: 300, ease_factor: 3 }, 'easy', NOW);
+    expect(result.interval_days).toBe(MAX_INTERVAL_DAYS);
+    expect(result.status).toBe('mastered');
+  });
+});
+
+describe('getNextInterval', () => {
+  it('orders intervals hard < good < easy for a new card', () => {
+    expect(getNextInterval({}, 'hard')).toBeLessThan(getNextInterval({}, 'good'));
+    expect(getNextInterval({}, 'good')).toBeLessThan(getNextInterval({}, 'easy'));
+  });
+
+  it('orders intervals again < hard <= good < easy for a mature card', () => {
+    const card = { repetitions: 3, interval_days: 10, ease_factor: 2.5 };
+    const again = getNextInterval(card, 'again');
+    const hard = getNextInterval(card, 'hard');
+    const good = getNextInterval(card, 'good');
+    const easy = getNextInterval(card, 'easy');
+    expect(again).toBeLessThan(hard);
+    expect(hard).toBeLessThanOrEqual(good);
+    expect(good).toBeLessThan(easy);
+  });
+});
+
+describe('isCardDue / getDueCards', () => {
+  it('treats unscheduled cards as due', () => {
+    expect(isCardDue({ next_review_at: null }, NOW)).toBe(true);
+  });
+
+  it('treats cards due later today as due', () => {
+    expect(isCardDue({ next_review_at: '2026-03-10T20:00:00' }, NOW)).toBe(true);
+  });
+
+  it('does not treat cards due tomorrow as due', () => {
+    expect(isCardDue({ next_review_at: '2026-03-11T08:00:00' }, NOW)).toBe(false);
+  });
+
+  it('puts most overdue cards first and new cards last', () => {
+    const cards = [
+      { id: 'new', next_review_at: null },
+      { id: 'future', next_review_at: '2026-03-15T09:00:00' },
+      { id: 'yesterday', next_review_at: '2026-03-09T09:00:00' },
+      { id: 'last-week', next_review_at: '2026-03-03T09:00:00' },
+    ];
+    expect(getDueCards(cards, NOW).map(c => c.id)).toEqual(['last-week', 'yesterday', 'new']);
+  });
+});
+
+describe('statusFromInterval', () => {
+  it('maps intervals onto the legacy statuses', () => {
+    expect(statusFromInterval(0, 0)).toBe('learning');
+    expect(statusFromInterval(6, 2)).toBe('reviewing');
+    expect(statusFromInterval(21, 4)).toBe('mastered');
+  });
+});
+
+describe('formatInterval', () => {
+  it('formats days, weeks, months and years', () => {
+    expect(formatInterval(1)).toBe('1d');
+    expect(formatInterval(14)).toBe('2w');
+    expect(formatInterval(90)).toBe('3mo');
+    expect(formatInterval(365)).toBe('1y');
+  });
+});
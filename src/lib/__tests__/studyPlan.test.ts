@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest';
+import {
+  QuestionTypeAttempt,
+  attemptsFromQuestionResults,
+  buildWeeklyPlan,
+  drillQuestionType,
+  findWeaknesses,
+  getWeekStart,
+  planDay,
+  planProgress,
+  questionTypeStats,
+} from '../studyPlan';
+
+const NOW = new Date(2026, 2, 18, 12); // Wednesday 18 March 2026
+
+function daysAgo(days: number): string {
+  return new Date(NOW.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+}
+
+function attempt(questionType: string, correct: number, total: number, ago: number): QuestionTypeAttempt {
+  return { module: 'reading', questionType, correct, total, completedAt: daysAgo(ago), source: 'ai' };
+}
+
+describe('attemptsFromQuestionResults', () => {
+  it('groups results by type, falling back to the test type and counting partial marks', () => {
+    const attempts = attemptsFromQuestionResults('reading', [
+      { isCorrect: true, questionType: 'MATCHING_HEADINGS' },
+      { isCorrect: false, questionType: 'matching_headings' },
+      { isCorrect: true },
+      { isCorrect: false, partialScore: 2, maxScore: 3, questionType: 'MULTIPLE_CHOICE_MULTIPLE' },
+    ], 'TRUE_FALSE_NOT_GIVEN', '2026-03-01T10:00:00Z', 'cambridge');
+
+    expect(attempts).toEqual([
+      { module: 'reading', questionType: 'MATCHING_HEADINGS', correct: 1, total: 2, completedAt: '2026-03-01T10:00:00Z', source: 'cambridge' },
+      { module: 'reading', questionType: 'TRUE_FALSE_NOT_GIVEN', correct: 1, total: 1, completedAt: '2026-03-01T10:00:00Z', source: 'cambridge' },
+      { module: 'reading', questionType: 'MULTIPLE_CHOICE_MULTIPLE', correct: 2, total: 3, completedAt: '2026-03-01T10:00:00Z', source: 'cambridge' },
+    ]);
+  });
+
+  it('ignores results that are not an array', () => {
+    expect(attemptsFromQuestionResults('listening', null, 'FILL_IN_BLANK', '2026-03-01', 'ai')).toEqual([]);
+  });
+});
+
+describe('questionTypeStats', () => {
+  it('reports accuracy and the trend between the last two windows', () => {
+    const [stats] = questionTypeStats([
+      attempt('MATCHING_HEADINGS', 2, 10, 20),
+      attempt('MATCHING_HEADINGS', 6, 10, 3),
+    ], NOW);
+    expect(stats.accuracy).toBeCloseTo(0.4);
+    expect(stats.recentAccuracy).toBeCloseTo(0.6);
+    expect(stats.previousAccuracy).toBeCloseTo(0.2);
+    expect(stats.trend).toBe('up');
+    expect(stats.sessions).toBe(2);
+    expect(stats.weekly.map(w => w.accuracy)).toEqual([0.2, 0.6]);
+  });
+});
+
+describe('findWeaknesses', () => {
+  it('skips types with too few questions or high accuracy', () => {
+    const stats = questionTypeStats([
+      attempt('MATCHING_HEADINGS', 3, 10, 1),
+      attempt('TRUE_FALSE_NOT_GIVEN', 6, 10, 1),
+      attempt('YES_NO_NOT_GIVEN', 9, 10, 1),
+      attempt('MAP_LABELING', 0, 2, 1),
+    ], NOW);
+    expect(findWeaknesses(stats).map(s => s.questionType)).toEqual(['MATCHING_HEADINGS', 'TRUE_FALSE_NOT_GIVEN']);
+  });
+});
+
+describe('drillQuestionType', () => {
+  it('drills Cambridge-only types with the closest AI-practice type', () => {
+    expect(drillQuestionType('listening', 'NOTE_COMPLETION')).toBe('FILL_IN_BLANK');
+    expect(drillQuestionType('reading', 'MATCHING_HEADINGS')).toBe('MATCHING_HEADINGS');
+    expect(drillQuestionType('listening', 'MATCHING_HEADINGS')).toBeNull();
+  });
+});
+
+describe('buildWeeklyPlan', () => {
+  const stats = questionTypeStats([
+    attempt('MATCHING_HEADINGS', 2, 10, 1),
+    attempt('SENTENCE_COMPLETION', 3, 10, 1),
+    attempt('NOTE_COMPLETION', 4, 10, 1),
+    attempt('TRUE_FALSE_NOT_GIVEN', 5, 10, 1),
+  ], NOW);
+
+  it('schedules 3, 2 and 1 drills for the weakest distinct drill types', () => {
+    const plan = buildWeeklyPlan(findWeaknesses(stats), { dueCards: 0, totalCards: 0 }, '2026-03-16');
+    const drills = plan.items.filter(i => i.kind === 'drill');
+    expect(drills.map(i => [i.day, i.questionType])).toEqual([
+      [0, 'MATCHING_HEADINGS'],
+      [1, 'FILL_IN_BLANK'],
+      [2, 'MATCHING_HEADINGS'],
+      [3, 'FILL_IN_BLANK'],
+      [4, 'MATCHING_HEADINGS'],
+      [5, 'TRUE_FALSE_NOT_GIVEN'],
+    ]);
+    expect(plan.focus.map(f => f.questionType)).toEqual(['MATCHING_HEADINGS', 'SENTENCE_COMPLETION', 'TRUE_FALSE_NOT_GIVEN']);
+  });
+
+  it('adds a daily flashcard review sized to the cards due', () => {
+    const plan = buildWeeklyPlan([], { dueCards: 70, totalCards: 200 }, '2026-03-16');
+    expect(plan.items).toHaveLength(7);
+    expect(plan.items.every(i => i.kind === 'flashcards' && i.target === 10)).toBe(true);
+    expect(buildWeeklyPlan([], { dueCards: 0, totalCards: 30 }, '2026-03-16').items[0].target).toBe(5);
+  });
+});
+
+describe('planProgress', () => {
+  it('fills drill sessions in day order and counts reviews on their own day', () => {
+    const weekStart = getWeekStart(NOW);
+    const plan = buildWeeklyPlan(
+      questionTypeStats([attempt('MATCHING_HEADINGS', 2, 10, 1)], NOW),
+      { dueCards: 35, totalCards: 35 },
+      weekStart
+    );
+    const monday = new Date(2026, 2, 16, 9).toISOString();
+    const wednesday = new Date(2026, 2, 18, 9).toISOString();
+
+    const progress = planProgress(plan, {
+      drills: [
+        { module: 'reading', questionType: 'MATCHING_HEADINGS', completedAt: wednesday },
+        { module: 'reading', questionType: 'MATCHING_HEADINGS', completedAt: wednesday },
+        { module: 'reading', questionType: 'MATCHING_HEADINGS', completedAt: new Date(2026, 2, 10).toISOString() },
+      ],
+      reviews: Array.from({ length: 8 }, () => ({ reviewedAt: monday })),
+    });
+
+    const drills = progress.items.filter(p => p.item.kind === 'drill');
+    expect(drills.map(p => p.done)).toEqual([1, 1, 0]);
+    expect(progress.items.find(p => p.item.kind === 'flashcards' && p.item.day === 0)?.done).toBe(5);
+    expect(progress.done).toBe(7);
+    expect(progress.target).toBe(3 + 7 * 5);
+  });
+
+  it('places timestamps on local days of the plan week', () => {
+    expect(getWeekStart(NOW)).toBe('2026-03-16');
+    expect(planDay('2026-03-16', new Date(2026, 2, 22, 23, 30).toISOString())).toBe(6);
+    expect(planDay('2026-03-16', new Date(2026, 2, 23, 0, 30).toISOString())).toBeNull();
+  });
+});
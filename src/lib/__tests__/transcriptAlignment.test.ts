@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import {
+  alignmentSentences,
+  buildAlignment,
+  distributeWords,
+  findTimedIndex,
+  parseSeconds,
+  parseSentenceTimings,
+  proportionalAlignment,
+  sanitizeAlignment,
+  transcriptHash,
+  transcriptTimings,
+} from '../transcriptAlignment';
+
+describe('alignmentSentences', () => {
+  it('splits lines into sentences and keeps speakers and line timestamps', () => {
+    const sentences = alignmentSentences('[0:05] Anna: Hello there. How can I help?\nTom: I need a room.');
+    expect(sentences).toEqual([
+      { text: 'Hello there.', speaker: 'Anna', start: 5 },
+      { text: 'How can I help?', speaker: 'Anna' },
+      { text: 'I need a room.', speaker: 'Tom' },
+    ]);
+    expect(transcriptTimings(sentences)).toEqual([{ index: 0, start: 5 }]);
+  });
+});
+
+describe('transcriptHash', () => {
+  it('ignores spacing but not wording', () => {
+    expect(transcriptHash('Hello  there.\n')).toBe(transcriptHash('Hello there.'));
+    expect(transcriptHash('Hello there.')).not.toBe(transcriptHash('Hello where.'));
+  });
+});
+
+describe('distributeWords', () => {
+  it('fills the sentence in order with longer words taking longer', () => {
+    const words = distributeWords('I understand', 10, 12);
+    expect(words[0]).toMatchObject({ text: 'I', start: 10 });
+    expect(words[1].end).toBe(12);
+    expect(words[1].end - words[1].start).toBeGreaterThan(words[0].end - words[0].start);
+  });
+});
+
+describe('buildAlignment', () => {
+  const sentences = [{ text: 'One two.' }, { text: 'Three four.' }, { text: 'Five six.' }, { text: 'Seven.' }];
+
+  it('keeps anchors and places untimed sentences between them', () => {
+    const alignment = buildAlignment(sentences, [{ index: 0, start: 2, end: 3 }, { index: 2, start: 10 }], 20);
+    expect(alignment.sentences.map(s => [s.start, s.end])[0]).toEqual([2, 3]);
+    expect(alignment.sentences[1].start).toBeGreaterThan(2);
+    expect(alignment.sentences[1].end).toBe(10);
+    expect(alignment.sentences[2].start).toBe(10);
+    expect(alignment.sentences[3].end).toBe(20);
+    expect(alignment.method).toBe('model');
+  });
+
+  it('ignores timings that go backwards or past the audio', () => {
+    const alignment = buildAlignment(sentences, [{ index: 1, start: 8 }, { index: 2, start: 5 }, { index: 3, start: 99 }], 20);
+    expect(alignment.sentences.map(s => s.start)).toEqual([0, 8, expect.any(Number), expect.any(Number)]);
+    expect(alignment.sentences[2].start).toBeGreaterThan(8);
+  });
+
+  it('spreads sentences over the whole audio without timings', () => {
+    const alignment = proportionalAlignment(sentences, 30);
+    expect(alignment.sentences[0].start).toBe(0);
+    expect(alignment.sentences[3].end).toBe(30);
+    expect(alignment.method).toBe('proportional');
+  });
+});
+
+describe('parseSentenceTimings', () => {
+  it('reads 1-based numbers and time strings', () => {
+    expect(parseSentenceTimings({ sentences: [{ i: 1, start: '0:03.5', end: 5 }, { i: 0, start: 1 }, { i: 2, start: 'soon' }] })).toEqual([
+      { index: 0, start: 3.5, end: 5 },
+    ]);
+    expect(parseSeconds('1:02:03')).toBe(3723);
+  });
+});
+
+describe('sanitizeAlignment', () => {
+  it('rejects malformed alignments', () => {
+    expect(sanitizeAlignment({ sentences: [], duration: 10 })).toBeNull();
+    expect(sanitizeAlignment(proportionalAlignment([{ text: 'Hi.' }], 2))?.method).toBe('proportional');
+  });
+});
+
+describe('findTimedIndex', () => {
+  it('finds the item playing at a time', () => {
+    const items = [{ start: 0 }, { start: 2 }, { start: 5 }];
+    expect(findTimedIndex(items, 3)).toBe(1);
+    expect(findTimedIndex(items, 5)).toBe(2);
+    expect(findTimedIndex([{ start: 1 }], 0.5)).toBe(-1);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeAnnotations, segmentText, countByCriterion, WritingAnnotation } from '../writingAnnotations';
+
+const TEXT = 'In conclusion, peoples should making more effort.';
+
+const annotation = (overrides: Partial<WritingAnnotation>): WritingAnnotation => ({
+  id: 'a1',
+  start: 0,
+  end: 0,
+  quote: '',
+  category: 'grammar',
+  criterion: 'GRA',
+  correction: '',
+  explanation: '',
+  severity: 'minor',
+  ...overrides,
+});
+
+describe('normalizeAnnotations', () => {
+  it('keeps ranges that match their quote', () => {
+    const result = normalizeAnnotations([annotation({ start: 15, end: 22, quote: 'peoples' })], TEXT);
+    expect(result).toHaveLength(1);
+    expect(TEXT.slice(result[0].start, result[0].end)).toBe('peoples');
+  });
+
+  it('re-locates annotations whose range has drifted', () => {
+    const result = normalizeAnnotations([annotation({ start: 3, end: 10, quote: 'should making' })], TEXT);
+    expect(result[0].start).toBe(TEXT.indexOf('should making'));
+    expect(result[0].quote).toBe('should making');
+  });
+
+  it('drops annotations whose quote is not in the text', () => {
+    expect(normalizeAnnotations([annotation({ start: -1, end: 4, quote: 'nowhere' })], TEXT)).toEqual([]);
+  });
+
+  it('falls back to safe defaults for unknown categories and criteria', () => {
+    const [result] = normalizeAnnotations([{ quote: 'peoples', category: 'style', criterion: 'XYZ' }], TEXT);
+    expect(result.category).toBe('grammar');
+    expect(result.criterion).toBe('GRA');
+  });
+});
+
+describe('segmentText', () => {
+  it('splits text at annotation boundaries and preserves all characters', () => {
+    const annotations = normalizeAnnotations([
+      annotation({ id: 'x', quote: 'peoples', category: 'grammar' }),
+      annotation({ id: 'y', quote: 'should making more', category: 'collocation', criterion: 'LR' }),
+    ], TEXT);
+    const segments = segmentText(TEXT, annotations);
+
+    expect(segments.map(s => s.text).join('')).toBe(TEXT);
+    expect(segments.filter(s => s.annotations.length > 0).map(s => s.text)).toEqual(['peoples', 'should making more']);
+  });
+
+  it('attaches every covering annotation to overlapping segments', () => {
+    const annotations = normalizeAnnotations([
+      annotation({ id: 'x', quote: 'should making' }),
+      annotation({ id: 'y', quote: 'making more', criterion: 'LR' }),
+    ], TEXT);
+    const overlap = segmentText(TEXT, annotations).find(s => s.text === 'making');
+
+    expect(overlap?.annotations.map(a => a.id).sort()).toEqual(['x', 'y']);
+  });
+});
+
+describe('countByCriterion', () => {
+  it('counts annotations per criterion', () => {
+    const counts = countByCriterion([
+      annotation({ criterion: 'GRA' }),
+      annotation({ criterion: 'GRA' }),
+      annotation({ criterion: 'LR' }),
+    ]);
+    expect(counts).toEqual({ TA: 0, CC: 0, LR: 1, GRA: 2 });
+  });
+});
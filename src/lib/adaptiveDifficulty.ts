@@ -0,0 +1,210 @@
+/**
+ * Adaptive Difficulty
+ *
+ * Estimates a learner's reading and listening ability per module and question
+ * type with an Elo-style Rasch model, then picks the practice level expected
+ * to give about 70% accuracy. Shared with the edge functions (see
+ * supabase/functions/_shared/adaptiveDifficulty.ts - keep the two copies
+ * identical below this header; sharedModuleCopies.test.ts fails on drift).
+ * Observations come from `ai_practice_results` (level and type from the
+ * practice test) and `test_results` (official tests).
+ */
+
+export type AdaptiveModule = 'reading' | 'listening';
+export type AdaptiveLevel = 'easy' | 'medium' | 'hard' | 'expert';
+
+export const ADAPTIVE_MODULES: AdaptiveModule[] = ['reading', 'listening'];
+export const ADAPTIVE_LEVELS: AdaptiveLevel[] = ['easy', 'medium', 'hard', 'expert'];
+
+/** Sent as the difficulty to have generate-ai-practice or get-smart-test pick the level */
+export const ADAPTIVE_DIFFICULTY = 'adaptive';
+
+/** One scored attempt: a practice test or an official test */
+export interface AbilityObservation {
+  module: AdaptiveModule;
+  /** null for official tests, which mix question types */
+  questionType: string | null;
+  /** 'exam' for official tests */
+  difficulty: AdaptiveLevel | 'exam';
+  /** Proportion correct, 0-1 */
+  accuracy: number;
+  completedAt: string;
+}
+
+export interface SkillEstimate {
+  /** Logit scale: 0 answers 'medium' items correctly a little over half the time */
+  ability: number;
+  attempts: number;
+}
+
+export interface AbilityProfile {
+  modules: Record<AdaptiveModule, SkillEstimate>;
+  /** Offset from the module ability, keyed by `${module}:${questionType}` */
+  questionTypes: Record<string, SkillEstimate>;
+}
+
+export interface AdaptiveRecommendation {
+  module: AdaptiveModule;
+  questionType: string;
+  difficulty: AdaptiveLevel;
+  ability: number;
+  expectedAccuracy: number;
+  /** Scored attempts behind the estimate for this question type */
+  attempts: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+export const TARGET_ACCURACY = 0.7;
+
+/** Item difficulty of each level on the ability scale */
+export const LEVEL_DIFFICULTY: Record<AdaptiveLevel | 'exam', number> = {
+  easy: -1.5,
+  medium: -0.5,
+  hard: 0.5,
+  expert: 1.5,
+  exam: 0, // Official tests sit between the medium and hard practice levels
+};
+
+// Elo step size: large while there is little data, settling as attempts accumulate
+const K_START = 1.2;
+const K_MIN = 0.25;
+// Question-type offsets move half as fast as the module ability they adjust
+const TYPE_SHARE = 0.5;
+
+// Official results only keep the band, so accuracy is read back off the
+// 40-question band table (midpoint of each band's raw score range)
+const BAND_ACCURACY: [number, number][] = [
+  [0, 0],
+  [4, 0.26],
+  [5, 0.4],
+  [5.5, 0.5],
+  [6, 0.6],
+  [6.5, 0.69],
+  [7, 0.76],
+  [7.5, 0.825],
+  [8, 0.875],
+  [8.5, 0.925],
+  [9, 0.975],
+];
+
+// ============================================================================
+// MODEL
+// ============================================================================
+
+export function skillKey(module: AdaptiveModule, questionType: string): string {
+  return `${module}:${questionType}`;
+}
+
+/** Rasch probability of a correct answer */
+export function expectedAccuracy(ability: number, difficulty: AdaptiveLevel | 'exam'): number {
+  return 1 / (1 + Math.exp(-(ability - LEVEL_DIFFICULTY[difficulty])));
+}
+
+export function bandToAccuracy(band: number): number {
+  if (band <= 0) return 0;
+  for (let i = 1; i < BAND_ACCURACY.length; i++) {
+    const [upperBand, upperAccuracy] = BAND_ACCURACY[i];
+    if (band <= upperBand) {
+      const [lowerBand, lowerAccuracy] = BAND_ACCURACY[i - 1];
+      return lowerAccuracy + ((band - lowerBand) / (upperBand - lowerBand)) * (upperAccuracy - lowerAccuracy);
+    }
+  }
+  return BAND_ACCURACY[BAND_ACCURACY.length - 1][1];
+}
+
+function stepSize(attempts: number): number {
+  return Math.max(K_MIN, K_START / Math.sqrt(1 + attempts));
+}
+
+function emptyEstimate(): SkillEstimate {
+  return { ability: 0, attempts: 0 };
+}
+
+/**
+ * Replays the observations oldest first. Each result moves the module ability
+ * by the gap between the observed and expected accuracy; practice results also
+ * move the question type's offset, so a type the learner has never practised
+ * starts from the module ability.
+ */
+export function estimateAbilities(observations: AbilityObservation[]): AbilityProfile {
+  const profile: AbilityProfile = {
+    modules: { reading: emptyEstimate(), listening: emptyEstimate() },
+    questionTypes: {},
+  };
+
+  const ordered = [...observations].sort((a, b) => a.completedAt.localeCompare(b.completedAt));
+  for (const observation of ordered) {
+    const moduleEstimate = profile.modules[observation.module];
+    if (!moduleEstimate) continue;
+
+    const key = observation.questionType ? skillKey(observation.module, observation.questionType) : null;
+    const typeEstimate = key ? (profile.questionTypes[key] ??= emptyEstimate()) : null;
+
+    const ability = moduleEstimate.ability + (typeEstimate?.ability ?? 0);
+    const error = Math.min(1, Math.max(0, observation.accuracy)) - expectedAccuracy(ability, observation.difficulty);
+
+    moduleEstimate.ability += stepSize(moduleEstimate.attempts) * error;
+    moduleEstimate.attempts += 1;
+    if (typeEstimate) {
+      typeEstimate.ability += stepSize(typeEstimate.attempts) * TYPE_SHARE * error;
+      typeEstimate.attempts += 1;
+    }
+  }
+
+  return profile;
+}
+
+/** The learner's ability on one question type: module ability plus the type's offset */
+export function questionTypeAbility(profile: AbilityProfile, module: AdaptiveModule, questionType: string): SkillEstimate {
+  const typeEstimate = profile.questionTypes[skillKey(module, questionType)];
+  return {
+    ability: profile.modules[module].ability + (typeEstimate?.ability ?? 0),
+    attempts: typeEstimate?.attempts ?? 0,
+  };
+}
+
+/** The level whose expected accuracy is closest to the target */
+export function pickDifficulty(
+  ability: number,
+  levels: AdaptiveLevel[] = ADAPTIVE_LEVELS
+): { difficulty: AdaptiveLevel; expectedAccuracy: number } {
+  let best = { difficulty: levels[0], expectedAccuracy: expectedAccuracy(ability, levels[0]) };
+  for (const level of levels.slice(1)) {
+    const accuracy = expectedAccuracy(ability, level);
+    if (Math.abs(accuracy - TARGET_ACCURACY) < Math.abs(best.expectedAccuracy - TARGET_ACCURACY)) {
+      best = { difficulty: level, expectedAccuracy: accuracy };
+    }
+  }
+  return best;
+}
+
+/**
+ * Picks the question type and level for the next session. With one candidate
+ * type only the level is chosen. With several, the type whose best level lands
+ * closest to the target accuracy wins; ties go to the least practised type and
+ * then the weaker one, so untried types get explored.
+ */
+export function recommendPractice(
+  profile: AbilityProfile,
+  module: AdaptiveModule,
+  questionTypes: string[],
+  levels: AdaptiveLevel[] = ADAPTIVE_LEVELS
+): AdaptiveRecommendation | null {
+  const candidates = questionTypes.map((questionType) => {
+    const estimate = questionTypeAbility(profile, module, questionType);
+    return {
+      module,
+      questionType,
+      ...pickDifficulty(estimate.ability, levels),
+      ability: estimate.ability,
+      attempts: estimate.attempts,
+    };
+  });
+  if (candidates.length === 0 || levels.length === 0) return null;
+
+  const gap = (c: AdaptiveRecommendation) => Math.round(Math.abs(c.expectedAccuracy - TARGET_ACCURACY) * 100);
+  candidates.sort((a, b) => gap(a) - gap(b) || a.attempts - b.attempts || a.ability - b.ability);
+  return candidates[0];
+}
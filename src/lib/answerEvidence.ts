@@ -0,0 +1,276 @@
+/**
+ * Answer Evidence
+ *
+ * Grounds answer explanations in the passage or transcript. The client splits
+ * the reading passage into sentences (or the listening transcript into lines)
+ * and sends them with ids to `explain-answer` / `explain-answer-followup`; the
+ * model cites ids and exact quotes, and only citations whose quote is found in
+ * the cited text (or elsewhere in the sent text) are returned. Shared with the
+ * edge functions (see supabase/functions/_shared/answerEvidence.ts - keep the
+ * two copies identical below this header; sharedModuleCopies.test.ts fails on
+ * drift).
+ */
+
+export interface EvidenceUnit {
+  /** "p<paragraph>s<sentence>" in passages, "t<line>" in transcripts, prefixed with the part */
+  id: string;
+  text: string;
+  /** Reading passage number or listening part */
+  part: number;
+  /** Reading: paragraph label (A, B, ...) when the passage has them */
+  paragraphLabel?: string;
+  /** Listening: who says the line */
+  speaker?: string;
+  /** Listening: seconds into the part's audio */
+  start?: number;
+  /** start was estimated from the line's position in the transcript */
+  estimated?: boolean;
+}
+
+export interface EvidenceSpan extends EvidenceUnit {
+  /** The words the explanation relies on, found within text */
+  quote: string;
+}
+
+export interface GroundedExplanation {
+  explanation: string;
+  evidence: EvidenceSpan[];
+}
+
+export const MAX_EVIDENCE_SPANS = 3;
+
+const MAX_UNITS = 250;
+const MAX_PROMPT_CHARS = 9000;
+
+// Periods that do not end a sentence
+const ABBREVIATION = /(?:\b(?:Mr|Mrs|Ms|Dr|Prof|St|Jr|Sr|vs|etc|approx|No|e\.g|i\.e)|\b[A-Z])\.$/;
+const LINE_TIMESTAMP = /^\[?(\d{1,2}):(\d{2})\]?\s+/;
+const LINE_SPEAKER = /^([A-Z][A-Za-z .'-]{0,30}?)\s*(?:\([^)]*\))?\s*:\s+/;
+
+// ============================================================================
+// TEXT
+// ============================================================================
+
+/** Lowercase, markup-free, single-spaced text for comparing quotes */
+export function normalizeEvidenceText(text: string): string {
+  return text
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\*\*|==|__/g, '')
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/** Whether a quote appears in a text, ignoring case, markup and spacing */
+export function evidenceMatches(text: string, quote: string): boolean {
+  const needle = normalizeEvidenceText(quote).replace(/^["']|["'.]$/g, '');
+  return needle.length > 0 && normalizeEvidenceText(text).includes(needle);
+}
+
+/**
+ * Case-insensitive pattern for a quote as it appears in text or rendered HTML:
+ * any run of spaces or tags may sit between words and curly/straight quotes
+ * and dashes are interchangeable.
+ */
+export function evidenceQuotePattern(quote: string): RegExp | null {
+  const words = quote.trim().replace(/^["'“‘]+|["'.”’]+$/g, '').split(/\s+/).filter(Boolean);
+  if (words.length === 0) return null;
+  const escaped = words.map(word =>
+    word
+      .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+      .replace(/['‘’]/g, "['‘’]")
+      .replace(/["“”]/g, '["“”]')
+      .replace(/[-–—]/g, '[-–—]')
+  );
+  return new RegExp(escaped.join('(?:\\s|<[^>]+>)+'), 'i');
+}
+
+export function splitSentences(text: string): string[] {
+  const sentences: string[] = [];
+  for (const line of text.split(/\n+/)) {
+    let current = '';
+    // A lowercase word after the stop means it did not end the sentence
+    for (const piece of line.split(/(?<=[.!?]["'”’)\]]?)\s+(?![a-z])/)) {
+      current = current ? `${current} ${piece}` : piece;
+      if (!ABBREVIATION.test(current)) {
+        if (current.trim()) sentences.push(current.trim());
+        current = '';
+      }
+    }
+    if (current.trim()) sentences.push(current.trim());
+  }
+  return sentences;
+}
+
+/** Paragraphs of a passage stored as text: "[A] ..." or "A ..." labels, blank-line separated */
+export function splitPassageParagraphs(content: string): { label: string; content: string }[] {
+  return content
+    .split(/\n\n+/)
+    .map(p => p.trim())
+    .filter(Boolean)
+    .map(p => {
+      const match = p.match(/^\[([A-Z])\]\s*(.*)$/s) ?? p.match(/^([A-Z])\s+(.*)$/s);
+      return match ? { label: match[1], content: match[2].trim() } : { label: '', content: p };
+    })
+    .filter(p => p.content);
+}
+
+/** Transcript lines with an optional "[mm:ss]" start and "Name:" speaker prefix removed */
+export function splitTranscriptLines(transcript: string): { text: string; speaker?: string; start?: number }[] {
+  return transcript
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => {
+      let text = line;
+      let start: number | undefined;
+      const time = text.match(LINE_TIMESTAMP);
+      if (time) {
+        start = Number(time[1]) * 60 + Number(time[2]);
+        text = text.slice(time[0].length);
+      }
+      const speaker = text.match(LINE_SPEAKER);
+      if (speaker) text = text.slice(speaker[0].length);
+      return { text: text.trim(), speaker: speaker?.[1].trim(), start };
+    })
+    .filter(line => line.text);
+}
+
+// ============================================================================
+// UNITS
+// ============================================================================
+
+export function buildPassageEvidence(part: number, paragraphs: { label: string; content: string }[]): EvidenceUnit[] {
+  return paragraphs.flatMap((paragraph, p) =>
+    splitSentences(paragraph.content).map((text, s) => ({
+      id: `${part}p${p + 1}s${s + 1}`,
+      text,
+      part,
+      ...(paragraph.label ? { paragraphLabel: paragraph.label } : {}),
+    }))
+  );
+}
+
+/**
+ * Transcript lines as evidence. Lines with their own "[mm:ss]" keep it;
+ * otherwise, when the part's audio length is known, the start is estimated
+ * from how far into the transcript the line begins.
+ */
+export function buildTranscriptEvidence(part: number, transcript: string, durationSeconds?: number | null): EvidenceUnit[] {
+  const lines = splitTranscriptLines(transcript);
+  const totalChars = lines.reduce((sum, line) => sum + line.text.length, 0);
+  let offset = 0;
+  return lines.map((line, i) => {
+    const unit: EvidenceUnit = { id: `${part}t${i + 1}`, text: line.text, part };
+    if (line.speaker) unit.speaker = line.speaker;
+    if (line.start !== undefined) {
+      unit.start = line.start;
+    } else if (durationSeconds && totalChars > 0) {
+      unit.start = Math.floor((offset / totalChars) * durationSeconds);
+      unit.estimated = true;
+    }
+    offset += line.text.length;
+    return unit;
+  });
+}
+
+/** Keep only well-formed units from a request body */
+export function sanitizeEvidenceUnits(value: unknown): EvidenceUnit[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((u): u is Record<string, unknown> => !!u && typeof u === 'object')
+    .filter(u => typeof u.id === 'string' && typeof u.text === 'string')
+    .slice(0, MAX_UNITS)
+    .map(u => ({
+      id: u.id as string,
+      text: u.text as string,
+      part: typeof u.part === 'number' ? u.part : 1,
+      ...(typeof u.paragraphLabel === 'string' ? { paragraphLabel: u.paragraphLabel } : {}),
+      ...(typeof u.speaker === 'string' ? { speaker: u.speaker } : {}),
+      ...(typeof u.start === 'number' ? { start: u.start } : {}),
+      ...(u.estimated === true ? { estimated: true } : {}),
+    }));
+}
+
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`;
+}
+
+/** "Passage 2, paragraph C" / "Part 3, 1:24" */
+export function evidenceLocation(unit: EvidenceUnit, module: 'reading' | 'listening'): string {
+  if (module === 'reading') {
+    return unit.paragraphLabel ? `Passage ${unit.part}, paragraph ${unit.paragraphLabel}` : `Passage ${unit.part}`;
+  }
+  if (unit.start === undefined) return `Part ${unit.part}`;
+  return `Part ${unit.part}, ${unit.estimated ? '~' : ''}${formatTimestamp(unit.start)}`;
+}
+
+/** One line per unit for the prompt: "[2p3s1] (paragraph C) text" */
+export function formatEvidenceUnits(units: EvidenceUnit[]): string {
+  const lines: string[] = [];
+  let length = 0;
+  for (const unit of units) {
+    const where = unit.paragraphLabel ? ` (paragraph ${unit.paragraphLabel})` : unit.speaker ? ` ${unit.speaker}:` : '';
+    const line = `[${unit.id}]${where} ${unit.text}`;
+    if (length + line.length > MAX_PROMPT_CHARS) break;
+    lines.push(line);
+    length += line.length + 1;
+  }
+  return lines.join('\n');
+}
+
+// ============================================================================
+// CITATIONS
+// ============================================================================
+
+function parseJsonObject(raw: string): Record<string, unknown> | null {
+  const cleaned = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  try {
+    const parsed = JSON.parse(cleaned);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the model's `{ "<textKey>": "...", "evidence": [{ "id", "quote" }] }`
+ * reply. A citation is kept when its quote is in the cited unit; a quote found
+ * in a different unit is moved there; anything else is dropped. Replies that
+ * are not JSON are returned as plain text with no evidence; a JSON reply
+ * without the text key gives an empty explanation.
+ */
+export function parseGroundedExplanation(
+  raw: string,
+  units: EvidenceUnit[],
+  textKey = 'explanation'
+): GroundedExplanation {
+  const parsed = parseJsonObject(raw);
+  if (!parsed) return { explanation: raw.trim(), evidence: [] };
+
+  const explanation = typeof parsed[textKey] === 'string' ? (parsed[textKey] as string).trim() : '';
+  const cited = Array.isArray(parsed.evidence) ? parsed.evidence : [];
+  const byId = new Map(units.map(unit => [unit.id, unit]));
+  const evidence: EvidenceSpan[] = [];
+
+  for (const item of cited) {
+    if (!item || typeof item !== 'object') continue;
+    const { id, quote } = item as { id?: unknown; quote?: unknown };
+    const quoteText = typeof quote === 'string' ? quote.trim() : '';
+    let unit = typeof id === 'string' ? byId.get(id) : undefined;
+
+    if (quoteText && (!unit || !evidenceMatches(unit.text, quoteText))) {
+      unit = units.find(u => evidenceMatches(u.text, quoteText));
+    }
+    if (!unit || evidence.some(span => span.id === unit!.id)) continue;
+
+    evidence.push({ ...unit, quote: quoteText && evidenceMatches(unit.text, quoteText) ? quoteText : unit.text });
+    if (evidence.length === MAX_EVIDENCE_SPANS) break;
+  }
+
+  return { explanation, evidence };
+}
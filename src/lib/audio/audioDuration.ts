@@ -0,0 +1,21 @@
+/**
+ * Length of an audio file in seconds from its metadata, or null when it cannot
+ * be read in time (bad URL, CORS, live stream).
+ */
+export function loadAudioDuration(url: string, timeoutMs = 8000): Promise<number | null> {
+  return new Promise(resolve => {
+    const audio = new Audio();
+    const finish = (duration: number | null) => {
+      window.clearTimeout(timer);
+      audio.onloadedmetadata = null;
+      audio.onerror = null;
+      audio.removeAttribute('src');
+      resolve(duration);
+    };
+    const timer = window.setTimeout(() => finish(null), timeoutMs);
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(Number.isFinite(audio.duration) && audio.duration > 0 ? audio.duration : null);
+    audio.onerror = () => finish(null);
+    audio.src = url;
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * Billing
+ *
+ * Client-side view of the subscription lifecycle. Checkout and webhooks are
+ * handled by the `create-checkout` and `billing-webhook` edge functions behind
+ * the provider interface in supabase/functions/_shared/billing.ts; the
+ * subscription lifecycle section below is a copy of the one there (kept
+ * identical by sharedModuleCopies.test.ts), so the client reads access dates
+ * the same way the webhook writes them.
+ */
+
+// ============================================================================
+// BILLING EVENTS
+// ============================================================================
+
+export type CheckoutKind = 'subscription' | 'credit_pack';
+
+export type BillingEventType =
+  | 'payment_succeeded'
+  | 'subscription_renewed'
+  | 'payment_failed'
+  | 'subscription_cancelled'
+  | 'refunded';
+
+export interface BillingEvent {
+  // Provider's event id; webhooks are retried, so each id is applied once
+  id: string;
+  type: BillingEventType;
+  reference: string;
+  providerSubscriptionId?: string;
+  // Paid-through date reported with a payment, if the provider sends one
+  periodEnd?: string;
+  occurredAt: string;
+}
+
+export function checkoutReference(kind: CheckoutKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+export function parseCheckoutReference(reference: string): { kind: CheckoutKind; id: string } | null {
+  const match = reference.match(/^(subscription|credit_pack):([0-9a-f-]{36})$/i);
+  return match ? { kind: match[1] as CheckoutKind, id: match[2] } : null;
+}
+
+// ============================================================================
+// SUBSCRIPTION LIFECYCLE
+// ============================================================================
+
+// Access continues this long after a failed renewal while the provider retries
+export const GRACE_PERIOD_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'pending';
+
+export interface SubscriptionBillingState {
+  status: SubscriptionStatus;
+  start_date: string;
+  end_date: string;
+  grace_until: string | null;
+  cancelled_at: string | null;
+}
+
+/**
+ * What an event changes on a subscription, or null when it changes nothing.
+ *   payment_succeeded / subscription_renewed: active, paid through the
+ *     provider's period end or one more interval from the later of now and
+ *     the current end date
+ *   payment_failed: a renewal failed; access continues until the grace period
+ *     after the end date runs out (a failed first payment leaves it pending)
+ *   subscription_cancelled: no more renewals; the paid period is kept
+ *   refunded: access ends now
+ */
+export function applySubscriptionEvent(
+  state: SubscriptionBillingState,
+  event: Pick<BillingEvent, 'type' | 'periodEnd'>,
+  durationDays: number,
+  now: Date = new Date()
+): Partial<SubscriptionBillingState> | null {
+  switch (event.type) {
+    case 'payment_succeeded':
+    case 'subscription_renewed': {
+      const isFirstPayment = state.status === 'pending';
+      const from = isFirstPayment ? now.getTime() : Math.max(now.getTime(), Date.parse(state.end_date));
+      const endDate = event.periodEnd ? new Date(event.periodEnd) : new Date(from + durationDays * DAY_MS);
+      return {
+        status: 'active',
+        ...(isFirstPayment ? { start_date: now.toISOString() } : {}),
+        end_date: endDate.toISOString(),
+        grace_until: null,
+        cancelled_at: null,
+      };
+    }
+    case 'payment_failed': {
+      if (state.status !== 'active' || state.grace_until) return null;
+      const from = Math.max(now.getTime(), Date.parse(state.end_date));
+      return { grace_until: new Date(from + GRACE_PERIOD_DAYS * DAY_MS).toISOString() };
+    }
+    case 'subscription_cancelled':
+      if (state.status === 'cancelled' || state.status === 'expired') return null;
+      return {
+        status: state.status === 'pending' ? 'expired' : 'cancelled',
+        grace_until: null,
+        cancelled_at: now.toISOString(),
+      };
+    case 'refunded':
+      if (state.status === 'expired') return null;
+      return { status: 'expired', end_date: now.toISOString(), grace_until: null };
+  }
+}
+
+/** When access from a subscription ends, or null if it gives none */
+export function subscriptionAccessUntil(state: SubscriptionBillingState): Date | null {
+  if (state.status === 'active') {
+    const end = Math.max(Date.parse(state.end_date), state.grace_until ? Date.parse(state.grace_until) : 0);
+    return new Date(end);
+  }
+  if (state.status === 'cancelled') return new Date(state.end_date);
+  return null;
+}
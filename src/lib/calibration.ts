@@ -0,0 +1,409 @@
+/**
+ * Scoring Calibration
+ *
+ * A gold-standard set of essays and speaking transcripts with
+ * examiner-assigned bands. The `run-calibration` edge function scores them
+ * with one evaluation prompt and model per run; this module computes how far
+ * the AI bands are from the examiner bands, per criterion, for each model and
+ * prompt version.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { REVIEW_CRITERIA, ReviewCriterionDefinition } from './resultReviews';
+import type { PromptKey } from './promptTemplates';
+
+export type CalibrationModule = 'writing' | 'speaking';
+export type CalibrationEvaluator = 'writing_submission' | 'practice_writing' | 'speaking_text';
+export type CalibrationMode = 'live' | 'replay';
+export type CalibrationItem = Tables<'calibration_items'>;
+export type CalibrationRun = Tables<'calibration_runs'>;
+export type CalibrationResult = Tables<'calibration_results'>;
+
+export const CALIBRATION_CRITERIA: Record<CalibrationModule, ReviewCriterionDefinition[]> = {
+  writing: REVIEW_CRITERIA.writing_submission,
+  speaking: REVIEW_CRITERIA.speaking_result,
+};
+
+export const CALIBRATION_EVALUATORS: { value: CalibrationEvaluator; module: CalibrationModule; label: string; promptKey: PromptKey }[] = [
+  { value: 'writing_submission', module: 'writing', label: 'Test submissions (evaluate-writing-submission)', promptKey: 'writing_submission_evaluation' },
+  { value: 'practice_writing', module: 'writing', label: 'AI practice (evaluate-ai-practice-writing)', promptKey: 'practice_writing_evaluation' },
+  { value: 'speaking_text', module: 'speaking', label: 'Speaking transcripts (process-speaking-job)', promptKey: 'speaking_text_evaluation' },
+];
+
+export const OVERALL_KEY = 'overall';
+
+// ============================================================================
+// METRICS
+// ============================================================================
+
+/** One scored item: the AI's bands next to the examiner's */
+export interface CalibrationSample {
+  itemId: string;
+  aiOverall: number | null;
+  aiBands: Record<string, number>;
+  examinerOverall: number;
+  examinerBands: Record<string, number>;
+}
+
+/** Examiner and AI band for the same item */
+export type BandPair = [examiner: number, ai: number];
+
+export interface CriterionMetrics {
+  key: string;
+  label: string;
+  n: number;
+  /** Mean absolute error in bands */
+  mae: number | null;
+  /** Mean of AI minus examiner; positive means the AI scores too high */
+  bias: number | null;
+  /** Share of items where the AI is within half a band of the examiner */
+  withinHalfBand: number | null;
+}
+
+const asBandMap = (value: Json | undefined): Record<string, number> => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const bands: Record<string, number> = {};
+  for (const [key, raw] of Object.entries(value)) {
+    const band = Number(raw);
+    if (raw !== null && Number.isFinite(band)) bands[key] = band;
+  }
+  return bands;
+};
+
+export function toSample(result: CalibrationResult): CalibrationSample {
+  return {
+    itemId: result.item_id,
+    aiOverall: result.ai_overall === null ? null : Number(result.ai_overall),
+    aiBands: asBandMap(result.ai_bands),
+    examinerOverall: Number(result.examiner_overall),
+    examinerBands: asBandMap(result.examiner_bands),
+  };
+}
+
+/** Pairs for one criterion (or OVERALL_KEY), skipping items either side left unscored */
+export function bandPairs(samples: CalibrationSample[], key: string): BandPair[] {
+  const pairs: BandPair[] = [];
+  for (const sample of samples) {
+    const examiner = key === OVERALL_KEY ? sample.examinerOverall : sample.examinerBands[key];
+    const ai = key === OVERALL_KEY ? sample.aiOverall : sample.aiBands[key];
+    if (examiner !== undefined && ai !== null && ai !== undefined) pairs.push([examiner, ai]);
+  }
+  return pairs;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+export function criterionMetrics(key: string, label: string, pairs: BandPair[]): CriterionMetrics {
+  if (pairs.length === 0) return { key, label, n: 0, mae: null, bias: null, withinHalfBand: null };
+  const diffs = pairs.map(([examiner, ai]) => ai - examiner);
+  return {
+    key,
+    label,
+    n: pairs.length,
+    mae: round2(diffs.reduce((sum, d) => sum + Math.abs(d), 0) / diffs.length),
+    bias: round2(diffs.reduce((sum, d) => sum + d, 0) / diffs.length),
+    withinHalfBand: round2(diffs.filter(d => Math.abs(d) <= 0.5).length / diffs.length),
+  };
+}
+
+/** Overall band first, then each criterion of the module */
+export function calibrationMetrics(module: CalibrationModule, samples: CalibrationSample[]): CriterionMetrics[] {
+  return [
+    criterionMetrics(OVERALL_KEY, 'Overall', bandPairs(samples, OVERALL_KEY)),
+    ...CALIBRATION_CRITERIA[module].map(({ key, label }) => criterionMetrics(key, label, bandPairs(samples, key))),
+  ];
+}
+
+export interface ConfusionMatrix {
+  /** Whole-band bins; a half band counts with the band below (6.5 is in 6) */
+  bands: number[];
+  /** counts[examinerBin][aiBin] */
+  counts: number[][];
+}
+
+export function confusionMatrix(pairs: BandPair[]): ConfusionMatrix {
+  if (pairs.length === 0) return { bands: [], counts: [] };
+  const bins = pairs.map(([examiner, ai]) => [Math.floor(examiner), Math.floor(ai)]);
+  const all = bins.flat();
+  const min = Math.min(...all);
+  const max = Math.max(...all);
+  const bands = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+  const counts = bands.map(() => bands.map(() => 0));
+  for (const [examiner, ai] of bins) counts[examiner - min][ai - min] += 1;
+  return { bands, counts };
+}
+
+// ============================================================================
+// GROUPING
+// ============================================================================
+
+/** All scored results for one evaluator, model and prompt version */
+export interface CalibrationGroup {
+  key: string;
+  evaluator: CalibrationEvaluator;
+  modelName: string;
+  promptVersion: string;
+  runCount: number;
+  lastRunAt: string;
+  samples: CalibrationSample[];
+}
+
+/**
+ * Group scored results by evaluator, model and prompt version. When a
+ * configuration was run more than once, each item counts once, using its
+ * result from the most recent run.
+ */
+export function groupCalibrationResults(runs: CalibrationRun[], results: CalibrationResult[]): CalibrationGroup[] {
+  const runsById = new Map(runs.map(run => [run.id, run]));
+  const groups = new Map<string, CalibrationGroup & { latest: Map<string, { at: string; sample: CalibrationSample }>; runIds: Set<string> }>();
+
+  for (const result of results) {
+    const run = runsById.get(result.run_id);
+    if (!run || result.status !== 'scored') continue;
+
+    const key = `${run.evaluator}|${run.model_name}|${run.prompt_version}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = {
+        key,
+        evaluator: run.evaluator as CalibrationEvaluator,
+        modelName: run.model_name,
+        promptVersion: run.prompt_version,
+        runCount: 0,
+        lastRunAt: run.created_at,
+        samples: [],
+        latest: new Map(),
+        runIds: new Set(),
+      };
+      groups.set(key, group);
+    }
+    group.runIds.add(run.id);
+    if (run.created_at > group.lastRunAt) group.lastRunAt = run.created_at;
+
+    const existing = group.latest.get(result.item_id);
+    if (!existing || run.created_at > existing.at) {
+      group.latest.set(result.item_id, { at: run.created_at, sample: toSample(result) });
+    }
+  }
+
+  return Array.from(groups.values())
+    .map(({ latest, runIds, ...group }) => ({
+      ...group,
+      runCount: runIds.size,
+      samples: Array.from(latest.values(), entry => entry.sample),
+    }))
+    .sort((a, b) => b.lastRunAt.localeCompare(a.lastRunAt));
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+export interface CalibrationImport {
+  items: TablesInsert<'calibration_items'>[];
+  errors: string[];
+}
+
+const isHalfBand = (value: unknown): value is number =>
+  typeof value === 'number' && value >= 0 && value <= 9 && Number.isInteger(value * 2);
+
+/**
+ * Parse a JSON array of gold-standard items. Writing items need task_type
+ * (task1, task2 or letter) and response_text; speaking items need
+ * transcripts as [{ part, question, transcript }]. Every item needs
+ * examiner_overall and a band for each criterion in examiner_bands.
+ */
+export function parseCalibrationImport(text: string, module: CalibrationModule): CalibrationImport {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { items: [], errors: ['The file is not valid JSON'] };
+  }
+  if (!Array.isArray(raw)) return { items: [], errors: ['Expected a JSON array of items'] };
+
+  const criteria = CALIBRATION_CRITERIA[module];
+  const items: TablesInsert<'calibration_items'>[] = [];
+  const errors: string[] = [];
+
+  raw.forEach((entry, index) => {
+    const label = `Item ${index + 1}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) {
+      errors.push(`${label}: not an object`);
+      return;
+    }
+    const record = entry as Record<string, unknown>;
+    const title = typeof record.title === 'string' ? record.title.trim() : '';
+    if (!title) {
+      errors.push(`${label}: missing title`);
+      return;
+    }
+    if (!isHalfBand(record.examiner_overall)) {
+      errors.push(`${title}: examiner_overall must be a band from 0 to 9 in half bands`);
+      return;
+    }
+
+    const rawBands = record.examiner_bands && typeof record.examiner_bands === 'object' ? record.examiner_bands as Record<string, unknown> : {};
+    const examinerBands: Record<string, number> = {};
+    const missing = criteria.filter(({ key }) => {
+      if (!isHalfBand(rawBands[key])) return true;
+      examinerBands[key] = rawBands[key] as number;
+      return false;
+    });
+    if (missing.length > 0) {
+      errors.push(`${title}: examiner_bands needs ${missing.map(c => c.key).join(', ')}`);
+      return;
+    }
+
+    const base = {
+      module,
+      title,
+      instruction: typeof record.instruction === 'string' ? record.instruction : null,
+      examiner_overall: record.examiner_overall,
+      examiner_bands: examinerBands,
+      source: typeof record.source === 'string' ? record.source : null,
+    };
+
+    if (module === 'writing') {
+      const taskType = record.task_type;
+      if (taskType !== 'task1' && taskType !== 'task2' && taskType !== 'letter') {
+        errors.push(`${title}: task_type must be task1, task2 or letter`);
+        return;
+      }
+      if (typeof record.response_text !== 'string' || !record.response_text.trim()) {
+        errors.push(`${title}: missing response_text`);
+        return;
+      }
+      items.push({ ...base, task_type: taskType, response_text: record.response_text });
+      return;
+    }
+
+    const transcripts = Array.isArray(record.transcripts)
+      ? record.transcripts.flatMap(answer => {
+          const { part, question, transcript } = (answer ?? {}) as Record<string, unknown>;
+          const partNumber = Number(part);
+          if (![1, 2, 3].includes(partNumber) || typeof transcript !== 'string' || !transcript.trim()) return [];
+          return [{ part: partNumber, question: typeof question === 'string' ? question : '', transcript: transcript.trim() }];
+        })
+      : [];
+    if (transcripts.length === 0) {
+      errors.push(`${title}: transcripts needs at least one { part, question, transcript } answer`);
+      return;
+    }
+    items.push({ ...base, transcripts });
+  });
+
+  return { items, errors };
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+export async function loadCalibrationItems(module: CalibrationModule): Promise<CalibrationItem[]> {
+  const { data, error } = await supabase
+    .from('calibration_items')
+    .select('*')
+    .eq('module', module)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createCalibrationItems(items: TablesInsert<'calibration_items'>[], createdBy: string): Promise<void> {
+  const { error } = await supabase
+    .from('calibration_items')
+    .insert(items.map(item => ({ ...item, created_by: createdBy })));
+  if (error) throw error;
+}
+
+export async function setCalibrationItemActive(itemId: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase.from('calibration_items').update({ is_active: isActive }).eq('id', itemId);
+  if (error) throw error;
+}
+
+export async function deleteCalibrationItem(itemId: string): Promise<void> {
+  const { error } = await supabase.from('calibration_items').delete().eq('id', itemId);
+  if (error) throw error;
+}
+
+export interface CalibrationHistory {
+  runs: CalibrationRun[];
+  results: CalibrationResult[];
+}
+
+export async function loadCalibrationHistory(module: CalibrationModule): Promise<CalibrationHistory> {
+  const { data: runs, error } = await supabase
+    .from('calibration_runs')
+    .select('*')
+    .eq('module', module)
+    .order('created_at', { ascending: false })
+    .limit(50);
+  if (error) throw error;
+  if (!runs || runs.length === 0) return { runs: [], results: [] };
+
+  const { data: results, error: resultsError } = await supabase
+    .from('calibration_results')
+    .select('*')
+    .in('run_id', runs.map(run => run.id));
+  if (resultsError) throw resultsError;
+  return { runs, results: results ?? [] };
+}
+
+export async function deleteCalibrationRun(runId: string): Promise<void> {
+  const { error } = await supabase.from('calibration_runs').delete().eq('id', runId);
+  if (error) throw error;
+}
+
+// ============================================================================
+// RUNNING
+// ============================================================================
+
+interface RunResponse {
+  run?: CalibrationRun | null;
+  remaining?: number;
+  error?: string;
+}
+
+async function invokeRunner(body: Record<string, unknown>): Promise<{ run: CalibrationRun; remaining: number }> {
+  const { data, error } = await supabase.functions.invoke('run-calibration', { body });
+  if (error) throw error;
+  const response = data as RunResponse | null;
+  if (!response?.run) throw new Error(response?.error || 'Calibration run failed');
+  return { run: response.run, remaining: response.remaining ?? 0 };
+}
+
+export interface StartCalibrationOptions {
+  evaluator: CalibrationEvaluator;
+  /** One model, as in LLM_MODELS: a bare Gemini name or provider:model */
+  model: string;
+  mode: CalibrationMode;
+  /** prompt_templates version to score with; the built-in template when omitted */
+  promptVersion?: number;
+}
+
+export function startCalibrationRun(options: StartCalibrationOptions) {
+  return invokeRunner({ action: 'start', ...options });
+}
+
+export function cancelCalibrationRun(runId: string) {
+  return invokeRunner({ action: 'cancel', runId });
+}
+
+/**
+ * Score a run batch by batch until nothing is pending. Each call to the edge
+ * function scores a few items; onProgress gets the run after every batch.
+ * Stops early, leaving the run resumable, when shouldStop returns true.
+ */
+export async function runCalibration(
+  runId: string,
+  onProgress: (run: CalibrationRun) => void,
+  shouldStop: () => boolean = () => false
+): Promise<CalibrationRun> {
+  for (;;) {
+    const { run, remaining } = await invokeRunner({ action: 'continue', runId });
+    onProgress(run);
+    if (remaining === 0 || run.status !== 'running' || shouldStop()) return run;
+  }
+}
@@ -0,0 +1,615 @@
+/**
+ * Classroom
+ *
+ * Teacher-run classes: rosters joined by invite code, assignments that point
+ * at an official test or an AI-practice preset with a due date, and the
+ * gradebook built from `test_results` (reading, listening, speaking and
+ * assigned presets) and `writing_submissions` (official writing tests), with
+ * the teacher's band overrides layered on top.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import {
+  DifficultyLevel,
+  GeneratedTest,
+  QUESTION_COUNTS,
+  QuestionType,
+  WRITING_DEFAULT_TIMES,
+  getDefaultTime,
+  saveGeneratedTestAsync,
+} from '@/types/aiPractice';
+import { calculateWritingBand, roundToHalfBand } from './mockExam';
+
+export type ClassroomModule = 'reading' | 'listening' | 'writing' | 'speaking';
+export type Classroom = Tables<'classes'>;
+export type ClassAssignment = Tables<'class_assignments'>;
+export type BandOverride = Tables<'assignment_band_overrides'>;
+
+export const CLASSROOM_MODULES: ClassroomModule[] = ['reading', 'listening', 'writing', 'speaking'];
+
+export interface ClassStudent {
+  id: string;
+  name: string;
+  email: string | null;
+  joinedAt: string;
+}
+
+/** A test a teacher can assign: an official test or a published test bank preset */
+export interface AssignableTest {
+  id: string;
+  kind: 'test' | 'preset';
+  module: ClassroomModule;
+  label: string;
+}
+
+export type GradeStatus = 'missing' | 'awaiting_band' | 'graded';
+
+export interface GradeCell {
+  status: GradeStatus;
+  aiBand: number | null;
+  band: number | null; // Teacher override when present, otherwise the AI band
+  overridden: boolean;
+  comment: string | null;
+  completedAt: string | null;
+  late: boolean;
+}
+
+export interface GradebookRow {
+  student: ClassStudent;
+  cells: Record<string, GradeCell>; // Keyed by assignment id
+  averageBand: number | null;
+}
+
+// Subsets of the rows the gradebook reads, so it can be built from any query shape
+export type GradebookResult = Pick<Tables<'test_results'>, 'user_id' | 'assignment_id' | 'band_score' | 'completed_at'>;
+export type GradebookWritingTask = Pick<Tables<'writing_tasks'>, 'id' | 'writing_test_id' | 'task_type'>;
+export type GradebookWritingSubmission = Pick<Tables<'writing_submissions'>, 'user_id' | 'task_id' | 'assignment_id' | 'overall_band' | 'submitted_at'>;
+
+export interface GradebookInput {
+  students: ClassStudent[];
+  assignments: ClassAssignment[];
+  results: GradebookResult[];
+  writingTasks: GradebookWritingTask[];
+  writingSubmissions: GradebookWritingSubmission[];
+  overrides: Pick<BandOverride, 'assignment_id' | 'student_id' | 'band_score' | 'comment'>[];
+}
+
+// ============================================================================
+// INVITE CODES
+// ============================================================================
+
+// No 0/O or 1/I/L, so codes read out in class are not mistyped
+const INVITE_CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+export const INVITE_CODE_LENGTH = 8;
+
+export function generateInviteCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+    code += INVITE_CODE_ALPHABET[Math.floor(random() * INVITE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Accepts codes typed with spaces, dashes or lower case */
+export function normalizeInviteCode(code: string): string {
+  return code.replace(/[\s-]/g, '').toUpperCase();
+}
+
+// ============================================================================
+// GRADEBOOK
+// ============================================================================
+
+export function isAssignmentOverdue(assignment: Pick<ClassAssignment, 'due_at'>, now: Date = new Date()): boolean {
+  return new Date(assignment.due_at).getTime() < now.getTime();
+}
+
+const emptyCell = (): GradeCell => ({
+  status: 'missing',
+  aiBand: null,
+  band: null,
+  overridden: false,
+  comment: null,
+  completedAt: null,
+  late: false,
+});
+
+function latest<T>(items: T[], dateOf: (item: T) => string | null): T | undefined {
+  return items.reduce<T | undefined>((best, item) => {
+    if (!best) return item;
+    return (dateOf(item) ?? '') > (dateOf(best) ?? '') ? item : best;
+  }, undefined);
+}
+
+// Official writing tests are graded from the student's latest submission for
+// each task written for the assignment; Task 2 counts double
+function writingCell(
+  assignment: ClassAssignment,
+  studentId: string,
+  input: GradebookInput
+): Pick<GradeCell, 'status' | 'aiBand' | 'completedAt'> {
+  const tasks = input.writingTasks.filter(t => t.writing_test_id === assignment.test_id);
+  const submissions = tasks.map(task =>
+    latest(
+      input.writingSubmissions.filter(
+        s => s.user_id === studentId && s.task_id === task.id && s.assignment_id === assignment.id
+      ),
+      s => s.submitted_at
+    )
+  );
+
+  const submitted = submissions.filter((s): s is GradebookWritingSubmission => !!s);
+  if (submitted.length === 0) return { status: 'missing', aiBand: null, completedAt: null };
+
+  const completedAt = latest(submitted, s => s.submitted_at)?.submitted_at ?? null;
+  const bandFor = (type: 'task1' | 'task2') => {
+    const index = tasks.findIndex(t => t.task_type === type);
+    return index === -1 ? undefined : submissions[index]?.overall_band ?? null;
+  };
+  const task1 = bandFor('task1');
+  const task2 = bandFor('task2');
+
+  let aiBand: number | null;
+  if (task1 !== undefined && task2 !== undefined) {
+    aiBand = calculateWritingBand(task1, task2);
+  } else {
+    const single = task1 ?? task2 ?? null;
+    aiBand = single === null ? null : roundToHalfBand(single);
+  }
+
+  return { status: aiBand === null ? 'awaiting_band' : 'graded', aiBand, completedAt };
+}
+
+function resultCell(
+  assignment: ClassAssignment,
+  studentId: string,
+  input: GradebookInput
+): Pick<GradeCell, 'status' | 'aiBand' | 'completedAt'> {
+  const result = latest(
+    input.results.filter(r => r.assignment_id === assignment.id && r.user_id === studentId),
+    r => r.completed_at
+  );
+  if (!result) return { status: 'missing', aiBand: null, completedAt: null };
+  const aiBand = result.band_score === null ? null : roundToHalfBand(Number(result.band_score));
+  return { status: aiBand === null ? 'awaiting_band' : 'graded', aiBand, completedAt: result.completed_at };
+}
+
+/** One row per student with a cell per assignment and the student's average band */
+export function buildGradebook(input: GradebookInput): GradebookRow[] {
+  return input.students.map(student => {
+    const cells: Record<string, GradeCell> = {};
+    const bands: number[] = [];
+
+    for (const assignment of input.assignments) {
+      const isOfficialWriting = assignment.module === 'writing' && !!assignment.test_id;
+      const base = isOfficialWriting
+        ? writingCell(assignment, student.id, input)
+        : resultCell(assignment, student.id, input);
+
+      const cell: GradeCell = {
+        ...emptyCell(),
+        ...base,
+        band: base.aiBand,
+        late: !!base.completedAt && new Date(base.completedAt).getTime() > new Date(assignment.due_at).getTime(),
+      };
+
+      const override = input.overrides.find(o => o.assignment_id === assignment.id && o.student_id === student.id);
+      if (override) {
+        cell.band = Number(override.band_score);
+        cell.overridden = true;
+        cell.comment = override.comment;
+        cell.status = 'graded';
+      }
+
+      if (cell.band !== null) bands.push(cell.band);
+      cells[assignment.id] = cell;
+    }
+
+    const averageBand = bands.length > 0 ? roundToHalfBand(bands.reduce((sum, b) => sum + b, 0) / bands.length) : null;
+    return { student, cells, averageBand };
+  });
+}
+
+// ============================================================================
+// CLASSES
+// ============================================================================
+
+export async function loadTeacherClasses(teacherId: string): Promise<Classroom[]> {
+  const { data, error } = await supabase
+    .from('classes')
+    .select('*')
+    .eq('teacher_id', teacherId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createClass(teacherId: string, name: string, description?: string): Promise<Classroom> {
+  const { data, error } = await supabase
+    .from('classes')
+    .insert({
+      teacher_id: teacherId,
+      name: name.trim(),
+      description: description?.trim() || null,
+      invite_code: generateInviteCode(),
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updateClass(classId: string, changes: Partial<Pick<Classroom, 'name' | 'description' | 'is_archived' | 'invite_code'>>): Promise<Classroom> {
+  const { data, error } = await supabase
+    .from('classes')
+    .update(changes)
+    .eq('id', classId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Issue a new invite code; the old one stops working immediately */
+export function regenerateInviteCode(classId: string): Promise<Classroom> {
+  return updateClass(classId, { invite_code: generateInviteCode() });
+}
+
+export async function getClass(classId: string): Promise<Classroom> {
+  const { data, error } = await supabase
+    .from('classes')
+    .select('*')
+    .eq('id', classId)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function loadClassStudents(classId: string): Promise<ClassStudent[]> {
+  const { data: members, error } = await supabase
+    .from('class_members')
+    .select('student_id, joined_at')
+    .eq('class_id', classId)
+    .order('joined_at', { ascending: true });
+  if (error) throw error;
+  if (!members || members.length === 0) return [];
+
+  const { data: profiles, error: profileError } = await supabase
+    .from('profiles')
+    .select('id, full_name, email')
+    .in('id', members.map(m => m.student_id));
+  if (profileError) throw profileError;
+
+  return members.map(member => {
+    const profile = profiles?.find(p => p.id === member.student_id);
+    return {
+      id: member.student_id,
+      name: profile?.full_name || profile?.email || 'Student',
+      email: profile?.email ?? null,
+      joinedAt: member.joined_at,
+    };
+  });
+}
+
+export async function removeStudent(classId: string, studentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('class_members')
+    .delete()
+    .eq('class_id', classId)
+    .eq('student_id', studentId);
+  if (error) throw error;
+}
+
+interface JoinClassResponse {
+  ok: boolean;
+  error?: string;
+  class_id?: string;
+  class_name?: string;
+}
+
+export async function joinClassByCode(code: string): Promise<{ classId: string; className: string }> {
+  const { data, error } = await supabase.rpc('join_class_by_code', { p_invite_code: normalizeInviteCode(code) });
+  if (error) throw error;
+  const response = data as unknown as JoinClassResponse;
+  if (!response?.ok || !response.class_id) {
+    throw new Error(response?.error || 'Could not join the class');
+  }
+  return { classId: response.class_id, className: response.class_name ?? '' };
+}
+
+export async function leaveClass(classId: string, studentId: string): Promise<void> {
+  return removeStudent(classId, studentId);
+}
+
+// ============================================================================
+// ASSIGNMENTS
+// ============================================================================
+
+export async function loadClassAssignments(classIds: string[]): Promise<ClassAssignment[]> {
+  if (classIds.length === 0) return [];
+  const { data, error } = await supabase
+    .from('class_assignments')
+    .select('*')
+    .in('class_id', classIds)
+    .order('due_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function createAssignment(
+  assignment: Pick<TablesInsert<'class_assignments'>, 'class_id' | 'created_by' | 'title' | 'instructions' | 'module' | 'test_id' | 'preset_id' | 'due_at'>
+): Promise<ClassAssignment> {
+  const { data, error } = await supabase
+    .from('class_assignments')
+    .insert(assignment)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteAssignment(assignmentId: string): Promise<void> {
+  const { error } = await supabase.from('class_assignments').delete().eq('id', assignmentId);
+  if (error) throw error;
+}
+
+/** Published official tests and test bank presets for a module */
+export async function loadAssignableTests(module: ClassroomModule): Promise<AssignableTest[]> {
+  const official = async (): Promise<{ id: string; label: string }[]> => {
+    switch (module) {
+      case 'reading':
+      case 'listening': {
+        const { data, error } = await supabase
+          .from(module === 'reading' ? 'reading_tests' : 'listening_tests')
+          .select('id, title, book_name, test_number')
+          .eq('is_published', true)
+          .order('book_name')
+          .order('test_number');
+        if (error) throw error;
+        return (data ?? []).map(t => ({ id: t.id, label: `${t.book_name} - Test ${t.test_number}: ${t.title}` }));
+      }
+      case 'writing': {
+        const { data, error } = await supabase
+          .from('writing_tests')
+          .select('id, title')
+          .eq('is_published', true)
+          .order('title');
+        if (error) throw error;
+        return (data ?? []).map(t => ({ id: t.id, label: t.title }));
+      }
+      case 'speaking': {
+        const { data, error } = await supabase
+          .from('speaking_tests')
+          .select('id, name')
+          .eq('is_published', true)
+          .order('name');
+        if (error) throw error;
+        return (data ?? []).map(t => ({ id: t.id, label: t.name }));
+      }
+    }
+  };
+
+  const [tests, presets] = await Promise.all([
+    official(),
+    supabase
+      .from('generated_test_audio')
+      .select('id, topic, question_type, difficulty')
+      .eq('module', module)
+      .eq('is_published', true)
+      .order('topic')
+      .limit(200),
+  ]);
+  if (presets.error) throw presets.error;
+
+  return [
+    ...tests.map(t => ({ ...t, kind: 'test' as const, module })),
+    ...(presets.data ?? []).map(p => ({
+      id: p.id,
+      kind: 'preset' as const,
+      module,
+      label: `AI practice: ${p.topic}${p.question_type ? ` (${p.question_type.replace(/_/g, ' ').toLowerCase()})` : ''} - ${p.difficulty}`,
+    })),
+  ];
+}
+
+/**
+ * Route for an official test, flagged so the attempt is recorded against the
+ * assignment. Writing and Speaking open a new submission so earlier attempts
+ * are not loaded as drafts and overwritten.
+ */
+export function getAssignmentTestPath(assignment: Pick<ClassAssignment, 'id' | 'module' | 'test_id'>): string | null {
+  if (!assignment.test_id) return null;
+  const newSubmission = assignment.module === 'writing' || assignment.module === 'speaking' ? '/new-submission' : '';
+  return `/${assignment.module}/test/${assignment.test_id}${newSubmission}?assignment=${assignment.id}`;
+}
+
+/**
+ * Create the student's AI practice test for a preset assignment. The test row
+ * carries the assignment, so its result is copied into test_results when saved.
+ * Returns the route of the practice page.
+ */
+export async function startPresetAssignment(assignment: ClassAssignment, userId: string): Promise<string> {
+  if (!assignment.preset_id) throw new Error('This assignment has no practice test');
+
+  const { data: preset, error } = await supabase
+    .from('generated_test_audio')
+    .select('id, module, topic, question_type, difficulty, audio_url, content_payload')
+    .eq('id', assignment.preset_id)
+    .single();
+  if (error) throw error;
+
+  const module = assignment.module as ClassroomModule;
+  const questionType = (preset.question_type || (module === 'speaking' ? 'FULL_TEST' : module === 'writing' ? 'TASK_2' : 'MULTIPLE_CHOICE')) as QuestionType;
+  const payload = preset.content_payload as { questionGroups?: { questions?: unknown[] }[] } | null;
+  const countedQuestions = (payload?.questionGroups ?? []).reduce((sum, g) => sum + (g.questions?.length ?? 0), 0);
+  const totalQuestions = countedQuestions || QUESTION_COUNTS[questionType] || 1;
+
+  const test: GeneratedTest = {
+    id: crypto.randomUUID(),
+    module,
+    questionType,
+    difficulty: preset.difficulty as DifficultyLevel,
+    topic: preset.topic,
+    timeMinutes:
+      module === 'writing' ? WRITING_DEFAULT_TIMES[questionType] ?? 40 :
+      module === 'speaking' ? (questionType === 'FULL_TEST' ? 15 : 5) :
+      getDefaultTime(totalQuestions),
+    audioUrl: preset.audio_url ?? undefined,
+    totalQuestions,
+    generatedAt: new Date().toISOString(),
+    isPreset: true,
+    presetId: preset.id,
+    assignmentId: assignment.id,
+  };
+
+  await saveGeneratedTestAsync(test, userId);
+  return `/ai-practice/${module}/${test.id}`;
+}
+
+/** Record an official test attempt made from an assignment */
+export async function recordAssignmentResult(
+  assignmentId: string,
+  userId: string,
+  attempt: { module: ClassroomModule; testId: string; submissionId: string; score?: number; band: number | null }
+): Promise<void> {
+  const { error } = await supabase.from('test_results').insert({
+    user_id: userId,
+    test_type: attempt.module,
+    assignment_id: assignmentId,
+    test_id: attempt.testId,
+    submission_id: attempt.submissionId,
+    score: attempt.score ?? null,
+    band_score: attempt.band,
+  });
+  if (error) throw error;
+}
+
+// ============================================================================
+// GRADES
+// ============================================================================
+
+/** Everything the gradebook needs for the given students and assignments */
+export async function loadGradebook(students: ClassStudent[], assignments: ClassAssignment[]): Promise<GradebookRow[]> {
+  const studentIds = students.map(s => s.id);
+  const assignmentIds = assignments.map(a => a.id);
+  if (studentIds.length === 0 || assignmentIds.length === 0) {
+    return buildGradebook({ students, assignments, results: [], writingTasks: [], writingSubmissions: [], overrides: [] });
+  }
+
+  const writingTestIds = assignments
+    .filter(a => a.module === 'writing' && a.test_id)
+    .map(a => a.test_id as string);
+
+  const [results, overrides, writingTasks] = await Promise.all([
+    supabase
+      .from('test_results')
+      .select('user_id, assignment_id, band_score, completed_at')
+      .in('assignment_id', assignmentIds)
+      .in('user_id', studentIds),
+    supabase
+      .from('assignment_band_overrides')
+      .select('assignment_id, student_id, band_score, comment')
+      .in('assignment_id', assignmentIds)
+      .in('student_id', studentIds),
+    writingTestIds.length > 0
+      ? supabase.from('writing_tasks').select('id, writing_test_id, task_type').in('writing_test_id', writingTestIds)
+      : Promise.resolve({ data: [] as GradebookWritingTask[], error: null }),
+  ]);
+  if (results.error) throw results.error;
+  if (overrides.error) throw overrides.error;
+  if (writingTasks.error) throw writingTasks.error;
+
+  const taskIds = (writingTasks.data ?? []).map(t => t.id);
+  let writingSubmissions: GradebookWritingSubmission[] = [];
+  if (taskIds.length > 0) {
+    const { data, error } = await supabase
+      .from('writing_submissions')
+      .select('user_id, task_id, assignment_id, overall_band, submitted_at')
+      .in('assignment_id', assignmentIds)
+      .in('task_id', taskIds)
+      .in('user_id', studentIds);
+    if (error) throw error;
+    writingSubmissions = data ?? [];
+  }
+
+  return buildGradebook({
+    students,
+    assignments,
+    results: results.data ?? [],
+    writingTasks: writingTasks.data ?? [],
+    writingSubmissions,
+    overrides: overrides.data ?? [],
+  });
+}
+
+export async function saveBandOverride(override: {
+  assignmentId: string;
+  studentId: string;
+  teacherId: string;
+  band: number;
+  aiBand: number | null;
+  comment: string;
+}): Promise<void> {
+  const { error } = await supabase.from('assignment_band_overrides').upsert(
+    {
+      assignment_id: override.assignmentId,
+      student_id: override.studentId,
+      teacher_id: override.teacherId,
+      band_score: override.band,
+      ai_band: override.aiBand,
+      comment: override.comment.trim() || null,
+    },
+    { onConflict: 'assignment_id,student_id' }
+  );
+  if (error) throw error;
+}
+
+export async function clearBandOverride(assignmentId: string, studentId: string): Promise<void> {
+  const { error } = await supabase
+    .from('assignment_band_overrides')
+    .delete()
+    .eq('assignment_id', assignmentId)
+    .eq('student_id', studentId);
+  if (error) throw error;
+}
+
+// ============================================================================
+// STUDENTS
+// ============================================================================
+
+export interface StudentAssignment {
+  assignment: ClassAssignment;
+  className: string;
+  grade: GradeCell;
+}
+
+/** The signed-in student's classes and their assignments with the student's own grades */
+export async function loadStudentClassroom(student: ClassStudent): Promise<{ classes: Classroom[]; assignments: StudentAssignment[] }> {
+  const { data: memberships, error } = await supabase
+    .from('class_members')
+    .select('class_id')
+    .eq('student_id', student.id);
+  if (error) throw error;
+
+  const classIds = (memberships ?? []).map(m => m.class_id);
+  if (classIds.length === 0) return { classes: [], assignments: [] };
+
+  const { data: classes, error: classError } = await supabase
+    .from('classes')
+    .select('*')
+    .in('id', classIds)
+    .order('name');
+  if (classError) throw classError;
+
+  const assignments = await loadClassAssignments(classIds);
+  const [row] = await loadGradebook([student], assignments);
+
+  return {
+    classes: classes ?? [],
+    assignments: assignments.map(assignment => ({
+      assignment,
+      className: classes?.find(c => c.id === assignment.class_id)?.name ?? '',
+      grade: row.cells[assignment.id],
+    })),
+  };
+}
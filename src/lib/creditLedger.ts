@@ -0,0 +1,118 @@
+/**
+ * Credit Ledger
+ *
+ * Every change to a user's credits is an append-only row in `credit_ledger`:
+ * a reserve when an AI operation starts, a refund if it fails, the daily
+ * reset, purchased top-ups and promotion code credits. Amounts are split between the daily allowance
+ * and the non-expiring purchased balance; negative means spent.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type CreditLedgerEntry = Tables<'credit_ledger'>;
+export type CreditPack = Tables<'credit_packs'>;
+export type CreditEntryType = 'reserve' | 'refund' | 'reset' | 'purchase' | 'promotion';
+
+export const LEDGER_PAGE_SIZE = 20;
+
+export const OPERATION_LABELS: Record<string, string> = {
+  generate_reading: 'Reading test generated',
+  generate_listening: 'Listening test generated',
+  generate_writing: 'Writing task generated',
+  generate_speaking: 'Speaking test generated',
+  evaluate_writing: 'Writing evaluated',
+  evaluate_speaking: 'Speaking evaluated',
+  explain_answer: 'Answer explained',
+  credit_pack: 'Credit top-up',
+};
+
+const ENTRY_LABELS: Record<CreditEntryType, string> = {
+  reserve: 'Credits used',
+  refund: 'Refund',
+  reset: 'Daily allowance reset',
+  purchase: 'Credit top-up',
+  promotion: 'Promotion code',
+};
+
+/** Human label for an entry, e.g. "Listening test generated" or "Refund: Writing evaluated" */
+export function describeEntry(entry: Pick<CreditLedgerEntry, 'entry_type' | 'operation_type'>): string {
+  const operation = entry.operation_type
+    ? OPERATION_LABELS[entry.operation_type] ?? entry.operation_type.replace(/_/g, ' ')
+    : null;
+  if (entry.entry_type === 'refund') return operation ? `Refund: ${operation}` : ENTRY_LABELS.refund;
+  if (entry.entry_type === 'reserve') return operation ?? ENTRY_LABELS.reserve;
+  return ENTRY_LABELS[entry.entry_type as CreditEntryType] ?? entry.entry_type;
+}
+
+/** Total change across both pools (negative = spent) */
+export function entryAmount(entry: Pick<CreditLedgerEntry, 'daily_credits' | 'purchased_credits'>): number {
+  return entry.daily_credits + entry.purchased_credits;
+}
+
+export interface OperationSpend {
+  operationType: string;
+  label: string;
+  credits: number;
+  count: number;
+}
+
+/**
+ * Net credits spent per operation (reserves less their refunds), most
+ * expensive first. Operations refunded in full are left out.
+ */
+export function summarizeSpending(entries: CreditLedgerEntry[]): OperationSpend[] {
+  const byOperation = new Map<string, OperationSpend>();
+  for (const entry of entries) {
+    if (entry.entry_type !== 'reserve' && entry.entry_type !== 'refund') continue;
+    const operationType = entry.operation_type ?? 'other';
+    const spend = byOperation.get(operationType) ?? {
+      operationType,
+      label: OPERATION_LABELS[operationType] ?? operationType.replace(/_/g, ' '),
+      credits: 0,
+      count: 0,
+    };
+    spend.credits -= entryAmount(entry);
+    spend.count += entry.entry_type === 'reserve' ? 1 : -1;
+    byOperation.set(operationType, spend);
+  }
+  return [...byOperation.values()]
+    .filter(spend => spend.credits > 0)
+    .sort((a, b) => b.credits - a.credits);
+}
+
+/** One page of the user's ledger, newest first */
+export async function fetchLedgerPage(userId: string, page: number): Promise<CreditLedgerEntry[]> {
+  const from = page * LEDGER_PAGE_SIZE;
+  const { data, error } = await supabase
+    .from('credit_ledger')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .range(from, from + LEDGER_PAGE_SIZE - 1);
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Everything since the start of today (UTC, matching the daily reset) */
+export async function fetchTodaysEntries(userId: string): Promise<CreditLedgerEntry[]> {
+  const today = new Date().toISOString().split('T')[0];
+  const { data, error } = await supabase
+    .from('credit_ledger')
+    .select('*')
+    .eq('user_id', userId)
+    .gte('created_at', `${today}T00:00:00Z`)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function fetchCreditPacks(): Promise<CreditPack[]> {
+  const { data, error } = await supabase
+    .from('credit_packs')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order');
+  if (error) throw error;
+  return data ?? [];
+}
@@ -0,0 +1,310 @@
+/**
+ * Listening Dictation
+ *
+ * Scores a typed sentence against the transcript word by word. Words are
+ * lined up with a small edit-distance alignment in which two words (or short
+ * runs of words, for numbers, dates and times) count as the same when
+ * `checkIeltsAnswer` accepts them - so spelling variants, "15th March" for
+ * "March 15" and "twenty-five" for "25" are marked right, exactly as in a
+ * listening test. Gap mode scores only the blanked words the same way.
+ */
+
+import { checkIeltsAnswer, MONTH_VARIATIONS, NUMBER_WORDS, ORDINAL_MAP } from './ieltsAnswerValidation';
+
+export type DictationMode = 'dictation' | 'gaps';
+
+export type DictationTokenStatus = 'correct' | 'wrong' | 'missing' | 'extra';
+
+/** What kind of mistake a wrong or missing word is */
+export type DictationErrorKind = 'number' | 'spelling' | 'word';
+
+export interface DictationToken {
+  /** The transcript word(s) as written, punctuation included */
+  expected?: string;
+  /** What the student typed for them */
+  typed?: string;
+  status: DictationTokenStatus;
+  kind?: DictationErrorKind;
+  /** Number of transcript words the token covers */
+  words: number;
+  /** Gap mode: shown to the student, not scored */
+  given?: boolean;
+}
+
+export interface DictationSummary {
+  words: number;
+  correct: number;
+  extra: number;
+  accuracy: number;
+  numbers: { total: number; correct: number };
+  spellingSlips: number;
+}
+
+/** Longest run of words on either side that may be matched as one answer */
+const MAX_SPAN = 3;
+const MAX_GAPS = 3;
+
+// Words not worth a flashcard or a gap
+const FUNCTION_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'but', 'so', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'from', 'with',
+  'as', 'is', 'am', 'are', 'was', 'were', 'be', 'been', 'it', 'its', "it's", 'this', 'that', 'these', 'those',
+  'i', 'you', 'he', 'she', 'we', 'they', 'me', 'him', 'her', 'us', 'them', 'my', 'your', 'his', 'our', 'their',
+  'do', 'does', 'did', 'have', 'has', 'had', 'not', 'no', 'yes', 'oh', 'well', 'ok', 'okay', 'um', 'er',
+  'there', 'here', 'what', 'which', 'who', 'can', 'will', 'would', 'could', 'should', 'just', 'very',
+]);
+
+// Number, ordinal and month words ("a", "o" and "oh" are left out on purpose)
+const NUMBER_TERMS = new Set(
+  [
+    ...Object.values(NUMBER_WORDS).flat(),
+    ...Object.values(ORDINAL_MAP).flat(),
+    ...Object.keys(MONTH_VARIATIONS).filter(month => month !== 'may'),
+    'double', 'triple', 'half', 'quarter', 'dozen',
+  ].filter(term => /^[a-z-]{3,}$/.test(term))
+);
+
+// ============================================================================
+// WORDS
+// ============================================================================
+
+export function dictationWords(text: string): string[] {
+  return text.split(/\s+/).filter(word => cleanWord(word));
+}
+
+/** A word without surrounding punctuation; currency signs and % are kept */
+export function cleanWord(word: string): string {
+  return word.replace(/^[^\p{L}\p{N}£$€]+|[^\p{L}\p{N}%]+$/gu, '');
+}
+
+/** Digits, or a number, ordinal or month word such as "fifteen", "third" or "March" */
+export function isNumberWord(word: string): boolean {
+  const clean = cleanWord(word);
+  // "May" only with a capital, so the verb is not taken for the month
+  return /\d/.test(clean) || NUMBER_TERMS.has(clean.toLowerCase()) || clean === 'May';
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 0 for the same word up to 1 for nothing in common */
+function wordDifference(typed: string, expected: string): number {
+  const a = cleanWord(typed).toLowerCase();
+  const b = cleanWord(expected).toLowerCase();
+  return editDistance(a, b) / Math.max(a.length, b.length, 1);
+}
+
+/** Whether the student heard the word but spelled it wrong */
+function isSpellingSlip(typed: string, expected: string): boolean {
+  const a = cleanWord(typed).toLowerCase();
+  const b = cleanWord(expected).toLowerCase();
+  return a.length > 0 && editDistance(a, b) <= Math.max(1, Math.floor(b.length / 4));
+}
+
+function errorKind(expected: string, typed?: string): DictationErrorKind {
+  if (expected.split(/\s+/).some(isNumberWord)) return 'number';
+  return typed && isSpellingSlip(typed, expected) ? 'spelling' : 'word';
+}
+
+/** Whether typed words are an acceptable answer for transcript words */
+function wordsMatch(typed: string[], expected: string[]): boolean {
+  const user = typed.map(cleanWord).join(' ');
+  const correct = expected.map(cleanWord).join(' ');
+  if (user.toLowerCase() === correct.toLowerCase()) return true;
+  // "/" and brackets mean alternatives and optional words in an answer key
+  if (/[/()]/.test(correct)) return false;
+
+  if (typed.length > 1 || expected.length > 1) {
+    // Runs of words are the same word split differently ("twenty five" /
+    // "twenty-five") or a number, date or time that starts with the number or
+    // month on both sides ("15th March" / "March 15"), so a dropped article or
+    // an extra word is never hidden inside a match
+    const squash = (s: string) => s.toLowerCase().replace(/[\s-]+/g, '');
+    if (squash(user) === squash(correct)) return true;
+    if (!isNumberWord(typed[0]) || !isNumberWord(expected[0])) return false;
+  }
+  return checkIeltsAnswer(user, correct);
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+/**
+ * Line up what was typed with the transcript sentence: matched words cost
+ * nothing, a missing or extra word costs one and a wrong word a little more
+ * the less it looks like the right one, so a misheard word is paired with the
+ * word it was heard as. The cheapest alignment decides which words are marked.
+ */
+export function scoreDictation(expectedText: string, typedText: string): DictationToken[] {
+  const expected = dictationWords(expectedText);
+  const typed = dictationWords(typedText);
+  const n = expected.length;
+  const m = typed.length;
+
+  const matches = new Map<string, boolean>();
+  const spanMatches = (i: number, a: number, j: number, b: number) => {
+    const said = typed.slice(j, j + b);
+    const words = expected.slice(i, i + a);
+    const key = `${said.join(' ')}|${words.join(' ')}`;
+    if (!matches.has(key)) matches.set(key, wordsMatch(said, words));
+    return matches.get(key)!;
+  };
+
+  // cost[i][j]: cheapest alignment of the first i transcript words with the first j typed words
+  const cost = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(Infinity));
+  const step = Array.from({ length: n + 1 }, () => new Array<[number, number, boolean]>(m + 1));
+  cost[0][0] = 0;
+
+  for (let i = 0; i <= n; i++) {
+    for (let j = 0; j <= m; j++) {
+      if (cost[i][j] === Infinity) continue;
+      const relax = (a: number, b: number, matched: boolean, price: number) => {
+        if (i + a > n || j + b > m || cost[i][j] + price >= cost[i + a][j + b]) return;
+        cost[i + a][j + b] = cost[i][j] + price;
+        step[i + a][j + b] = [a, b, matched];
+      };
+      // Runs of words are only tried where the single words do not match, and
+      // cost a little more the longer they are so a lenient date or number
+      // match does not swallow the words around it
+      if (i < n && j < m && spanMatches(i, 1, j, 1)) {
+        relax(1, 1, true, 0);
+      } else {
+        for (let a = 1; a <= MAX_SPAN; a++) {
+          for (let b = 1; b <= MAX_SPAN; b++) {
+            if ((a > 1 || b > 1) && i + a <= n && j + b <= m && spanMatches(i, a, j, b)) {
+              relax(a, b, true, (a + b - 2) / 100);
+            }
+          }
+        }
+      }
+      if (i < n && j < m) relax(1, 1, false, 1 + wordDifference(typed[j], expected[i]) / 2);
+      relax(1, 0, false, 1);
+      relax(0, 1, false, 1);
+    }
+  }
+
+  const tokens: DictationToken[] = [];
+  for (let i = n, j = m; i > 0 || j > 0; ) {
+    const [a, b, matched] = step[i][j];
+    const words = expected.slice(i - a, i).join(' ');
+    const said = typed.slice(j - b, j).join(' ');
+    if (matched) {
+      tokens.push({ expected: words, typed: said, status: 'correct', words: a });
+    } else if (a && b) {
+      tokens.push({ expected: words, typed: said, status: 'wrong', kind: errorKind(words, said), words: 1 });
+    } else if (a) {
+      tokens.push({ expected: words, status: 'missing', kind: errorKind(words), words: 1 });
+    } else {
+      tokens.push({ typed: said, status: 'extra', words: 0 });
+    }
+    i -= a;
+    j -= b;
+  }
+  return tokens.reverse();
+}
+
+/**
+ * Words to blank out in gap mode: numbers and dates first, then names, then
+ * long words (the usual spelling traps). Returns word indexes in order.
+ */
+export function chooseGaps(words: string[], max = MAX_GAPS): number[] {
+  const priority = (word: string, index: number): number | null => {
+    const clean = cleanWord(word);
+    if (!clean || FUNCTION_WORDS.has(clean.toLowerCase())) return null;
+    if (isNumberWord(clean)) return 0;
+    if (index > 0 && /^\p{Lu}/u.test(clean)) return 1;
+    if (clean.length >= 7) return 2;
+    return null;
+  };
+
+  const candidates = words
+    .map((word, index) => ({ index, rank: priority(word, index) }))
+    .filter((c): c is { index: number; rank: number } => c.rank !== null)
+    .sort((a, b) => a.rank - b.rank || a.index - b.index)
+    .map(c => c.index);
+
+  if (candidates.length === 0) {
+    // Fall back to the longest content word
+    const longest = words
+      .map((word, index) => ({ index, clean: cleanWord(word) }))
+      .filter(w => w.clean && !FUNCTION_WORDS.has(w.clean.toLowerCase()))
+      .sort((a, b) => b.clean.length - a.clean.length)[0];
+    return longest ? [longest.index] : [];
+  }
+  return candidates.slice(0, max).sort((a, b) => a - b);
+}
+
+/** Gap mode: the blanked words are scored, the rest are given */
+export function scoreGaps(words: string[], gaps: number[], answers: string[]): DictationToken[] {
+  return words.map((word, index) => {
+    const gap = gaps.indexOf(index);
+    if (gap < 0) return { expected: word, status: 'correct', words: 1, given: true };
+    const typed = (answers[gap] ?? '').trim();
+    if (!typed) return { expected: word, status: 'missing', kind: errorKind(word), words: 1 };
+    return wordsMatch(dictationWords(typed), [word])
+      ? { expected: word, typed, status: 'correct', words: 1 }
+      : { expected: word, typed, status: 'wrong', kind: errorKind(word, typed), words: 1 };
+  });
+}
+
+// ============================================================================
+// RESULTS
+// ============================================================================
+
+export function summarizeDictation(results: DictationToken[][]): DictationSummary {
+  const summary: DictationSummary = {
+    words: 0,
+    correct: 0,
+    extra: 0,
+    accuracy: 0,
+    numbers: { total: 0, correct: 0 },
+    spellingSlips: 0,
+  };
+  for (const token of results.flat()) {
+    if (token.given) continue;
+    if (token.status === 'extra') {
+      summary.extra++;
+      continue;
+    }
+    summary.words += token.words;
+    if (token.status === 'correct') summary.correct += token.words;
+    if (token.expected && token.expected.split(/\s+/).some(isNumberWord)) {
+      summary.numbers.total++;
+      if (token.status === 'correct') summary.numbers.correct++;
+    }
+    if (token.kind === 'spelling') summary.spellingSlips++;
+  }
+  // Extra words count against the score, so typing everything twice does not pay
+  const attempted = summary.words + summary.extra;
+  summary.accuracy = attempted > 0 ? Math.round((summary.correct / attempted) * 100) : 0;
+  return summary;
+}
+
+/**
+ * Wrong or missing words worth a flashcard: no numbers (they are drilled by
+ * the next dictation, not a card) and no function words. Names keep their
+ * capital; other words are lowercased.
+ */
+export function misheardWords(tokens: DictationToken[]): string[] {
+  const words: string[] = [];
+  const first = tokens.find(token => token.expected);
+  for (const token of tokens) {
+    if ((token.status !== 'wrong' && token.status !== 'missing') || token.kind === 'number' || !token.expected) continue;
+    for (const word of token.expected.split(/\s+/)) {
+      const clean = cleanWord(word);
+      if (clean.length < 3 || !/\p{L}/u.test(clean) || FUNCTION_WORDS.has(clean.toLowerCase())) continue;
+      const card = /^\p{Lu}\p{Ll}*$/u.test(clean) && token === first ? clean.toLowerCase() : clean;
+      if (!words.some(w => w.toLowerCase() === card.toLowerCase())) words.push(card);
+    }
+  }
+  return words;
+}
@@ -0,0 +1,223 @@
+/**
+ * Essay Revision
+ *
+ * Helpers for the "revise this essay" loop: walking a submission's version
+ * chain, a word-level diff between two drafts and per-criterion band deltas
+ * between their evaluation reports.
+ */
+
+import { AnnotationCriterion, CRITERION_LABELS } from './writingAnnotations';
+
+export type DiffOp = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  op: DiffOp;
+  text: string;
+}
+
+export interface DiffStats {
+  wordsAdded: number;
+  wordsRemoved: number;
+  wordsUnchanged: number;
+}
+
+export interface CriterionDelta {
+  key: string;
+  criterion: AnnotationCriterion;
+  label: string;
+  previous: number | null;
+  current: number | null;
+  delta: number | null;
+}
+
+/** Minimal shape needed to follow a version chain */
+export interface RevisionNode {
+  id: string;
+  parent_submission_id: string | null;
+  revision_number: number;
+}
+
+// ============================================================================
+// VERSION CHAIN
+// ============================================================================
+
+/**
+ * Versions of a submission from the original draft to `submission` itself.
+ * Stops early if an ancestor is missing (e.g. deleted) or the chain loops.
+ */
+export function getRevisionChain<T extends RevisionNode>(submission: T, all: T[]): T[] {
+  const byId = new Map(all.map(s => [s.id, s]));
+  const chain: T[] = [submission];
+  const seen = new Set<string>([submission.id]);
+
+  let parentId = submission.parent_submission_id;
+  while (parentId && !seen.has(parentId)) {
+    const parent = byId.get(parentId);
+    if (!parent) break;
+    chain.unshift(parent);
+    seen.add(parentId);
+    parentId = parent.parent_submission_id;
+  }
+  return chain;
+}
+
+// ============================================================================
+// WORD DIFF
+// ============================================================================
+
+// Words (letters, digits, apostrophes, hyphens), single punctuation marks and runs of whitespace
+const TOKEN_PATTERN = /\s+|[\p{L}\p{N}'’-]+|[^\s\p{L}\p{N}]/gu;
+
+function tokenize(text: string): string[] {
+  return text.match(TOKEN_PATTERN) ?? [];
+}
+
+const isWhitespace = (token: string) => /^\s+$/.test(token);
+
+// Whitespace only matters for whether it breaks a paragraph
+function tokenKey(token: string): string {
+  if (!isWhitespace(token)) return token;
+  return token.includes('\n') ? '\n' : ' ';
+}
+
+function pushSegment(segments: DiffSegment[], op: DiffOp, text: string) {
+  const last = segments[segments.length - 1];
+  if (last && last.op === op) last.text += text;
+  else segments.push({ op, text });
+}
+
+/**
+ * Word-level diff from `previous` to `current` (LCS over word, punctuation
+ * and whitespace tokens). Consecutive tokens with the same operation are
+ * merged so each edited stretch is one removal followed by one addition.
+ */
+export function diffWords(previous: string, current: string): DiffSegment[] {
+  const a = tokenize(previous);
+  const b = tokenize(current);
+  const aKeys = a.map(tokenKey);
+  const bKeys = b.map(tokenKey);
+
+  // Trim the common prefix and suffix so the LCS table only covers the edited middle
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && aKeys[prefix] === bKeys[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    aKeys[a.length - 1 - suffix] === bKeys[b.length - 1 - suffix]
+  ) suffix++;
+
+  const n = a.length - prefix - suffix;
+  const m = b.length - prefix - suffix;
+  const width = m + 1;
+  const lcs = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lcs[i * width + j] = aKeys[prefix + i] === bKeys[prefix + j]
+        ? lcs[(i + 1) * width + j + 1] + 1
+        : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+    }
+  }
+
+  const ops: { op: DiffOp; token: string }[] = [];
+  for (let k = 0; k < prefix; k++) ops.push({ op: 'equal', token: b[k] });
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (aKeys[prefix + i] === bKeys[prefix + j]) {
+      ops.push({ op: 'equal', token: b[prefix + j] });
+      i++;
+      j++;
+    } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+      ops.push({ op: 'removed', token: a[prefix + i++] });
+    } else {
+      ops.push({ op: 'added', token: b[prefix + j++] });
+    }
+  }
+  while (i < n) ops.push({ op: 'removed', token: a[prefix + i++] });
+  while (j < m) ops.push({ op: 'added', token: b[prefix + j++] });
+  for (let k = b.length - suffix; k < b.length; k++) ops.push({ op: 'equal', token: b[k] });
+
+  // Group each edited stretch into one removal followed by one addition. A
+  // single unchanged space between two edits belongs to both sides so a
+  // rewritten phrase reads as one block instead of word-by-word swaps.
+  const segments: DiffSegment[] = [];
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].op === 'equal') {
+      pushSegment(segments, 'equal', ops[k++].token);
+      continue;
+    }
+    let removed = '';
+    let added = '';
+    while (k < ops.length) {
+      const { op, token } = ops[k];
+      if (op === 'removed') removed += token;
+      else if (op === 'added') added += token;
+      else if (tokenKey(token) === ' ' && k + 1 < ops.length && ops[k + 1].op !== 'equal') {
+        removed += token;
+        added += token;
+      } else break;
+      k++;
+    }
+    if (removed.trim()) pushSegment(segments, 'removed', removed);
+    // Whitespace-only changes (e.g. a re-flowed line) are not worth highlighting
+    if (added.trim()) pushSegment(segments, 'added', added);
+    else if (added) pushSegment(segments, 'equal', added);
+  }
+  return segments;
+}
+
+/** Word counts for each side of a diff (whitespace and punctuation excluded) */
+export function diffStats(segments: DiffSegment[]): DiffStats {
+  const stats: DiffStats = { wordsAdded: 0, wordsRemoved: 0, wordsUnchanged: 0 };
+  for (const segment of segments) {
+    const words = tokenize(segment.text).filter(t => /[\p{L}\p{N}]/u.test(t)).length;
+    if (segment.op === 'added') stats.wordsAdded += words;
+    else if (segment.op === 'removed') stats.wordsRemoved += words;
+    else stats.wordsUnchanged += words;
+  }
+  return stats;
+}
+
+// ============================================================================
+// BAND DELTAS
+// ============================================================================
+
+/** Evaluation report keys for the four criteria, in report order */
+export const REPORT_CRITERIA: { key: string; criterion: AnnotationCriterion }[] = [
+  { key: 'task_achievement_response', criterion: 'TA' },
+  { key: 'coherence_and_cohesion', criterion: 'CC' },
+  { key: 'lexical_resource', criterion: 'LR' },
+  { key: 'grammatical_range_and_accuracy', criterion: 'GRA' },
+];
+
+function criterionBand(report: unknown, key: string): number | null {
+  if (!report || typeof report !== 'object') return null;
+  const entry = (report as Record<string, unknown>)[key];
+  if (!entry || typeof entry !== 'object') return null;
+  const band = Number((entry as Record<string, unknown>).band);
+  return Number.isFinite(band) ? band : null;
+}
+
+/** Change in each criterion's band from one evaluation report to the next */
+export function criterionBandDeltas(previousReport: unknown, currentReport: unknown): CriterionDelta[] {
+  return REPORT_CRITERIA.map(({ key, criterion }) => {
+    const previous = criterionBand(previousReport, key);
+    const current = criterionBand(currentReport, key);
+    return {
+      key,
+      criterion,
+      label: CRITERION_LABELS[criterion],
+      previous,
+      current,
+      delta: previous !== null && current !== null ? current - previous : null,
+    };
+  });
+}
+
+/** "+0.5", "−1.0", "±0" */
+export function formatBandDelta(delta: number): string {
+  if (delta === 0) return '±0';
+  return `${delta > 0 ? '+' : '−'}${Math.abs(delta).toFixed(1)}`;
+}
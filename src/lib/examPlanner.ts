@@ -0,0 +1,498 @@
+/**
+ * Exam Planner
+ *
+ * Turns the days left before the learner's exam (`profiles.exam_date`,
+ * `profiles.target_band`) into daily goals across the four modules, e.g.
+ * "1 listening section + 1 reading passage + 20 flashcards". Modules further
+ * below the target band get more sessions. The schedule is stored in
+ * `exam_schedules`; progress and streaks are derived from results and
+ * flashcard reviews. Sessions missed on past days are moved onto the coming
+ * days the next time the plan is opened, so the plan re-balances itself.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { loadFlashcardCounts, parseDateKey, toDateKey } from './studyPlan';
+
+export type PlannerModule = 'listening' | 'reading' | 'writing' | 'speaking';
+export type ModuleSessions = Record<PlannerModule, number>;
+
+export const PLANNER_MODULES: PlannerModule[] = ['listening', 'reading', 'writing', 'speaking'];
+
+export interface DailyGoal {
+  /** Local YYYY-MM-DD */
+  date: string;
+  sessions: ModuleSessions;
+  flashcards: number;
+  /** Sessions moved onto this day from missed days */
+  carried: number;
+}
+
+export interface ExamSchedule {
+  id?: string;
+  examDate: string;
+  targetBand: number;
+  days: DailyGoal[];
+  /** Last day whose missed sessions have been moved forward */
+  checkedThrough: string | null;
+}
+
+export interface ExamProfile {
+  examDate: string | null;
+  targetBand: number | null;
+  /** HH:MM, or null when reminders are off */
+  reminderTime: string | null;
+}
+
+export interface StudySession {
+  module: PlannerModule;
+  completedAt: string;
+  band: number | null;
+}
+
+export interface StudyActivity {
+  sessions: StudySession[];
+  reviews: string[];
+}
+
+export interface DayProgress {
+  sessions: ModuleSessions;
+  flashcards: number;
+}
+
+export interface GoalStatus {
+  goal: DailyGoal;
+  done: DayProgress;
+  remaining: ModuleSessions;
+  flashcardsLeft: number;
+  met: boolean;
+  /** Nothing scheduled: neither counts towards nor breaks a streak */
+  rest: boolean;
+}
+
+export interface StudyStreak {
+  current: number;
+  best: number;
+}
+
+export interface ReplanResult {
+  schedule: ExamSchedule;
+  /** Missed sessions moved onto the coming days */
+  carried: number;
+  /** Missed sessions that no longer fit before the exam */
+  dropped: number;
+}
+
+export interface ExamPlanState {
+  /** null until an exam date and target band are set */
+  schedule: ExamSchedule | null;
+  progress: Map<string, DayProgress>;
+  carried: number;
+  dropped: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const SESSIONS_PER_DAY = 2;
+/** Carried-over sessions never push a day past this */
+export const MAX_SESSIONS_PER_DAY = 4;
+export const FLASHCARDS_PER_DAY = 20;
+/** Misses older than this are dropped rather than carried forward */
+export const CARRY_WINDOW_DAYS = 7;
+export const TARGET_BANDS = [5, 5.5, 6, 6.5, 7, 7.5, 8, 8.5, 9];
+
+const MAX_SCHEDULE_DAYS = 365;
+const ACTIVITY_WINDOW_DAYS = 60;
+/** Assumed gap to the target for a module with no band yet */
+const UNKNOWN_BAND_GAP = 1;
+const RECENT_BANDS = 5;
+const ACTIVITY_LIMIT = 500;
+
+const MODULE_UNITS: Record<PlannerModule, [string, string]> = {
+  listening: ['listening section', 'listening sections'],
+  reading: ['reading passage', 'reading passages'],
+  writing: ['writing task', 'writing tasks'],
+  speaking: ['speaking session', 'speaking sessions'],
+};
+
+// ============================================================================
+// SCHEDULE
+// ============================================================================
+
+export function emptySessions(): ModuleSessions {
+  return { listening: 0, reading: 0, writing: 0, speaking: 0 };
+}
+
+function totalSessions(sessions: ModuleSessions): number {
+  return PLANNER_MODULES.reduce((sum, module) => sum + sessions[module], 0);
+}
+
+export function addDays(dateKey: string, days: number): string {
+  const date = parseDateKey(dateKey);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+}
+
+/** Calendar days from today to the exam (0 on exam day, negative once it has passed) */
+export function daysUntilExam(examDate: string, today: Date = new Date()): number {
+  const start = parseDateKey(toDateKey(today));
+  return Math.round((parseDateKey(examDate).getTime() - start.getTime()) / (24 * 60 * 60 * 1000));
+}
+
+/** Mean of the most recent bands per module */
+export function currentBands(sessions: StudySession[]): Partial<ModuleSessions> {
+  const bands: Partial<ModuleSessions> = {};
+  for (const module of PLANNER_MODULES) {
+    const recent = sessions
+      .filter(s => s.module === module && s.band !== null)
+      .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+      .slice(0, RECENT_BANDS);
+    if (recent.length > 0) bands[module] = recent.reduce((sum, s) => sum + (s.band ?? 0), 0) / recent.length;
+  }
+  return bands;
+}
+
+/** Share of sessions per module: 1 plus the gap to the target band */
+export function moduleWeights(targetBand: number, bands: Partial<ModuleSessions>): ModuleSessions {
+  const weights = emptySessions();
+  for (const module of PLANNER_MODULES) {
+    const band = bands[module];
+    weights[module] = 1 + (band === undefined ? UNKNOWN_BAND_GAP : Math.max(0, targetBand - band));
+  }
+  return weights;
+}
+
+/**
+ * Daily goals from today up to the day before the exam. Each day gets
+ * SESSIONS_PER_DAY sessions in different modules, handed out in proportion to
+ * the module weights; the day before the exam is flashcards only. Past days of
+ * a previous schedule are kept so streaks survive a change of exam date.
+ */
+export function buildExamSchedule(
+  examDate: string,
+  targetBand: number,
+  bands: Partial<ModuleSessions>,
+  options: { flashcardsPerDay?: number; previous?: ExamSchedule | null; today?: Date } = {}
+): ExamSchedule {
+  const { flashcardsPerDay = FLASHCARDS_PER_DAY, previous = null, today = new Date() } = options;
+  const todayKey = toDateKey(today);
+  const dayCount = Math.min(MAX_SCHEDULE_DAYS, daysUntilExam(examDate, today));
+  const weights = moduleWeights(targetBand, bands);
+  const totalWeight = totalSessions(weights);
+  const credit = emptySessions();
+
+  const days: DailyGoal[] = (previous?.days ?? []).filter(d => d.date < todayKey);
+  for (let i = 0; i < dayCount; i++) {
+    const date = addDays(todayKey, i);
+    const sessions = emptySessions();
+    if (date !== addDays(examDate, -1)) {
+      for (const module of PLANNER_MODULES) credit[module] += (weights[module] / totalWeight) * SESSIONS_PER_DAY;
+      const picks = [...PLANNER_MODULES].sort((a, b) => credit[b] - credit[a]).slice(0, SESSIONS_PER_DAY);
+      for (const module of picks) {
+        sessions[module] = 1;
+        credit[module] -= 1;
+      }
+    }
+    days.push({ date, sessions, flashcards: flashcardsPerDay, carried: 0 });
+  }
+
+  return { examDate, targetBand, days, checkedThrough: addDays(todayKey, -1) };
+}
+
+export function needsNewSchedule(schedule: ExamSchedule, profile: ExamProfile): boolean {
+  return schedule.examDate !== profile.examDate || schedule.targetBand !== profile.targetBand;
+}
+
+export function needsReplan(schedule: ExamSchedule, today: Date = new Date()): boolean {
+  const yesterday = addDays(toDateKey(today), -1);
+  return (schedule.checkedThrough ?? '') < yesterday && (schedule.days[0]?.date ?? yesterday) <= yesterday;
+}
+
+/**
+ * Move sessions missed since the last check onto the days from today up to
+ * the day before the exam, one at a time onto the least loaded day (earliest
+ * first) without going over MAX_SESSIONS_PER_DAY. Past days keep their goals,
+ * so a missed day still breaks the streak.
+ */
+export function replanSchedule(
+  schedule: ExamSchedule,
+  progress: Map<string, DayProgress>,
+  today: Date = new Date()
+): ReplanResult {
+  const todayKey = toDateKey(today);
+  const carryFrom = addDays(todayKey, -CARRY_WINDOW_DAYS);
+  const lastStudyDay = addDays(schedule.examDate, -2);
+  const days = schedule.days.map(d => ({ ...d, sessions: { ...d.sessions } }));
+  const missed: PlannerModule[] = [];
+  let dropped = 0;
+
+  for (const goal of days) {
+    if (goal.date >= todayKey) break;
+    if (schedule.checkedThrough && goal.date <= schedule.checkedThrough) continue;
+    const { remaining } = goalStatus(goal, progress.get(goal.date));
+    for (const module of PLANNER_MODULES) {
+      for (let i = 0; i < remaining[module]; i++) {
+        if (goal.date < carryFrom) dropped++;
+        else missed.push(module);
+      }
+    }
+  }
+
+  const open = days.filter(d => d.date >= todayKey && d.date <= lastStudyDay);
+  let carried = 0;
+  for (const module of missed) {
+    const target = open
+      .filter(d => totalSessions(d.sessions) < MAX_SESSIONS_PER_DAY)
+      .reduce<DailyGoal | null>((best, d) => (!best || totalSessions(d.sessions) < totalSessions(best.sessions) ? d : best), null);
+    if (!target) {
+      dropped++;
+      continue;
+    }
+    target.sessions[module]++;
+    target.carried++;
+    carried++;
+  }
+
+  return { schedule: { ...schedule, days, checkedThrough: addDays(todayKey, -1) }, carried, dropped };
+}
+
+// ============================================================================
+// PROGRESS
+// ============================================================================
+
+export function progressByDay(activity: StudyActivity): Map<string, DayProgress> {
+  const byDay = new Map<string, DayProgress>();
+  const dayOf = (timestamp: string) => {
+    const key = toDateKey(new Date(timestamp));
+    const day = byDay.get(key) ?? { sessions: emptySessions(), flashcards: 0 };
+    byDay.set(key, day);
+    return day;
+  };
+  for (const session of activity.sessions) dayOf(session.completedAt).sessions[session.module]++;
+  for (const reviewedAt of activity.reviews) dayOf(reviewedAt).flashcards++;
+  return byDay;
+}
+
+export function goalStatus(goal: DailyGoal, done: DayProgress = { sessions: emptySessions(), flashcards: 0 }): GoalStatus {
+  const remaining = emptySessions();
+  for (const module of PLANNER_MODULES) remaining[module] = Math.max(0, goal.sessions[module] - done.sessions[module]);
+  const flashcardsLeft = Math.max(0, goal.flashcards - done.flashcards);
+  const rest = totalSessions(goal.sessions) === 0 && goal.flashcards === 0;
+  return {
+    goal,
+    done,
+    remaining,
+    flashcardsLeft,
+    met: !rest && totalSessions(remaining) === 0 && flashcardsLeft === 0,
+    rest,
+  };
+}
+
+/** Consecutive days with the goal met; today only counts once it is met, and rest days are skipped */
+export function studyStreak(
+  schedule: ExamSchedule,
+  progress: Map<string, DayProgress>,
+  today: Date = new Date()
+): StudyStreak {
+  const todayKey = toDateKey(today);
+  let current = 0;
+  let best = 0;
+  for (const goal of schedule.days) {
+    if (goal.date > todayKey) break;
+    const status = goalStatus(goal, progress.get(goal.date));
+    if (status.rest) continue;
+    if (status.met) {
+      current++;
+      best = Math.max(best, current);
+    } else if (goal.date < todayKey) {
+      current = 0;
+    }
+  }
+  return { current, best };
+}
+
+/** "2 reading passages" */
+export function sessionLabel(module: PlannerModule, count: number): string {
+  const [one, many] = MODULE_UNITS[module];
+  return `${count} ${count === 1 ? one : many}`;
+}
+
+/** "1 listening section + 20 flashcards" */
+export function goalLabel(sessions: ModuleSessions, flashcards: number): string {
+  const parts = PLANNER_MODULES.filter(module => sessions[module] > 0).map(module => sessionLabel(module, sessions[module]));
+  if (flashcards > 0) parts.push(`${flashcards} flashcards`);
+  return parts.length > 0 ? parts.join(' + ') : 'Rest day';
+}
+
+/** Milliseconds until today's reminder time (negative once it has passed) */
+export function reminderDelay(reminderTime: string, now: Date = new Date()): number {
+  const [hours, minutes] = reminderTime.split(':').map(Number);
+  const at = new Date(now);
+  at.setHours(hours, minutes, 0, 0);
+  return at.getTime() - now.getTime();
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+export async function loadExamProfile(userId: string): Promise<ExamProfile> {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('exam_date, target_band, study_reminder_time')
+    .eq('id', userId)
+    .maybeSingle();
+  if (error) throw error;
+  return {
+    examDate: data?.exam_date ?? null,
+    targetBand: data?.target_band ?? null,
+    reminderTime: data?.study_reminder_time?.slice(0, 5) ?? null,
+  };
+}
+
+export async function saveExamProfile(userId: string, profile: Partial<ExamProfile>): Promise<void> {
+  const { error } = await supabase
+    .from('profiles')
+    .update({
+      ...(profile.examDate !== undefined ? { exam_date: profile.examDate } : {}),
+      ...(profile.targetBand !== undefined ? { target_band: profile.targetBand } : {}),
+      ...(profile.reminderTime !== undefined ? { study_reminder_time: profile.reminderTime } : {}),
+    })
+    .eq('id', userId);
+  if (error) throw error;
+}
+
+function toExamSchedule(row: Tables<'exam_schedules'>): ExamSchedule {
+  return {
+    id: row.id,
+    examDate: row.exam_date,
+    targetBand: row.target_band,
+    days: row.days as unknown as DailyGoal[],
+    checkedThrough: row.checked_through,
+  };
+}
+
+export async function loadExamSchedule(userId: string): Promise<ExamSchedule | null> {
+  const { data, error } = await supabase.from('exam_schedules').select('*').eq('user_id', userId).maybeSingle();
+  if (error) throw error;
+  return data ? toExamSchedule(data) : null;
+}
+
+export async function saveExamSchedule(userId: string, schedule: ExamSchedule): Promise<ExamSchedule> {
+  const { data, error } = await supabase
+    .from('exam_schedules')
+    .upsert(
+      {
+        user_id: userId,
+        exam_date: schedule.examDate,
+        target_band: schedule.targetBand,
+        days: schedule.days as unknown as Json,
+        checked_through: schedule.checkedThrough,
+      },
+      { onConflict: 'user_id' }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return toExamSchedule(data);
+}
+
+/** Completed sessions in every module (AI practice and official tests) plus flashcard reviews since a date */
+export async function loadStudyActivity(userId: string, since: string): Promise<StudyActivity> {
+  const from = parseDateKey(since).toISOString();
+  const [practice, reading, listening, writing, speaking, reviews] = await Promise.all([
+    supabase
+      .from('ai_practice_results')
+      .select('module, band_score, completed_at')
+      .eq('user_id', userId)
+      .gte('completed_at', from)
+      .limit(ACTIVITY_LIMIT),
+    supabase
+      .from('reading_test_submissions')
+      .select('band_score, completed_at')
+      .eq('user_id', userId)
+      .gte('completed_at', from)
+      .limit(ACTIVITY_LIMIT),
+    supabase
+      .from('listening_test_submissions')
+      .select('band_score, completed_at')
+      .eq('user_id', userId)
+      .gte('completed_at', from)
+      .limit(ACTIVITY_LIMIT),
+    supabase
+      .from('writing_submissions')
+      .select('overall_band, submitted_at')
+      .eq('user_id', userId)
+      .gte('submitted_at', from)
+      .limit(ACTIVITY_LIMIT),
+    supabase
+      .from('speaking_submissions')
+      .select('overall_band, submitted_at')
+      .eq('user_id', userId)
+      .gte('submitted_at', from)
+      .limit(ACTIVITY_LIMIT),
+    supabase
+      .from('flashcard_reviews')
+      .select('reviewed_at')
+      .eq('user_id', userId)
+      .gte('reviewed_at', from)
+      .limit(ACTIVITY_LIMIT * 10),
+  ]);
+  for (const result of [practice, reading, listening, writing, speaking, reviews]) {
+    if (result.error) throw result.error;
+  }
+
+  const sessions: StudySession[] = [
+    ...(practice.data ?? [])
+      .filter(row => PLANNER_MODULES.includes(row.module as PlannerModule))
+      .map(row => ({ module: row.module as PlannerModule, completedAt: row.completed_at, band: row.band_score })),
+    ...(reading.data ?? []).map(row => ({ module: 'reading' as const, completedAt: row.completed_at, band: row.band_score })),
+    ...(listening.data ?? []).map(row => ({ module: 'listening' as const, completedAt: row.completed_at, band: row.band_score })),
+    ...(writing.data ?? [])
+      .filter(row => row.submitted_at)
+      .map(row => ({ module: 'writing' as const, completedAt: row.submitted_at as string, band: row.overall_band })),
+    ...(speaking.data ?? [])
+      .filter(row => row.submitted_at)
+      .map(row => ({ module: 'speaking' as const, completedAt: row.submitted_at as string, band: row.overall_band })),
+  ];
+  return { sessions, reviews: (reviews.data ?? []).map(row => row.reviewed_at) };
+}
+
+/**
+ * Load the learner's schedule, building a new one when there is none or the
+ * exam date or target band changed, and carrying missed sessions forward when
+ * days have passed since the last check.
+ */
+export async function syncExamSchedule(
+  userId: string,
+  profile: ExamProfile,
+  today: Date = new Date()
+): Promise<ExamPlanState> {
+  if (!profile.examDate || profile.targetBand === null) {
+    return { schedule: null, progress: new Map(), carried: 0, dropped: 0 };
+  }
+
+  const todayKey = toDateKey(today);
+  const existing = await loadExamSchedule(userId);
+  const windowStart = addDays(todayKey, -ACTIVITY_WINDOW_DAYS);
+  const firstDay = existing?.days[0]?.date;
+  const since = firstDay && firstDay < windowStart ? firstDay : windowStart;
+  const activity = await loadStudyActivity(userId, since);
+  const progress = progressByDay(activity);
+
+  if (!existing || needsNewSchedule(existing, profile)) {
+    const { totalCards } = await loadFlashcardCounts(userId);
+    const schedule = buildExamSchedule(profile.examDate, profile.targetBand, currentBands(activity.sessions), {
+      flashcardsPerDay: totalCards > 0 ? FLASHCARDS_PER_DAY : 0,
+      previous: existing,
+      today,
+    });
+    return { schedule: await saveExamSchedule(userId, schedule), progress, carried: 0, dropped: 0 };
+  }
+
+  if (!needsReplan(existing, today)) return { schedule: existing, progress, carried: 0, dropped: 0 };
+  const result = replanSchedule(existing, progress, today);
+  return { ...result, schedule: await saveExamSchedule(userId, result.schedule), progress };
+}
@@ -0,0 +1,450 @@
+/**
+ * Flashcard Import / Export
+ *
+ * Bulk transfer of flashcard decks to and from:
+ * - CSV / TSV spreadsheets (word, meaning, example, translation)
+ * - Anki packages (.apkg) - a zip holding a SQLite collection
+ *
+ * Anki parsing and building is done in the browser with JSZip and sql.js,
+ * both loaded lazily so they stay out of the main bundle.
+ */
+
+export interface FlashcardRow {
+  word: string;
+  meaning: string;
+  example?: string | null;
+  translation?: string | null;
+}
+
+export type ImportRowIssue = 'duplicate_in_deck' | 'duplicate_in_file' | 'missing_meaning' | 'missing_word';
+
+export interface ImportPreviewRow extends FlashcardRow {
+  /** 1-based row number in the source file, for error messages */
+  line: number;
+  issue: ImportRowIssue | null;
+}
+
+export type DelimitedFormat = 'csv' | 'tsv';
+
+const FIELD_SEPARATOR = '\x1f';
+
+// ============================================================================
+// HEADER DETECTION
+// ============================================================================
+const HEADER_ALIASES: Record<keyof FlashcardRow, RegExp> = {
+  word: /^(word|term|front|expression|vocab(ulary)?|phrase|question)$/i,
+  meaning: /^(meaning|definition|back|answer|gloss)$/i,
+  example: /^(example|example sentence|sentence|usage|context)$/i,
+  translation: /^(translation|native|bangla|bengali|bn|l1)$/i,
+};
+
+const POSITIONAL_FIELDS: (keyof FlashcardRow)[] = ['word', 'meaning', 'example', 'translation'];
+
+/**
+ * Map column names onto flashcard fields. Returns null when no column is
+ * recognised, in which case columns are read positionally.
+ */
+export function mapColumns(names: string[]): Partial<Record<keyof FlashcardRow, number>> | null {
+  const mapping: Partial<Record<keyof FlashcardRow, number>> = {};
+
+  names.forEach((raw, index) => {
+    const name = raw.trim();
+    for (const field of POSITIONAL_FIELDS) {
+      if (mapping[field] === undefined && HEADER_ALIASES[field].test(name)) {
+        mapping[field] = index;
+        return;
+      }
+    }
+  });
+
+  if (mapping.word === undefined) return null;
+  return mapping;
+}
+
+function rowFromColumns(cells: string[], mapping: Partial<Record<keyof FlashcardRow, number>> | null): FlashcardRow {
+  const pick = (field: keyof FlashcardRow, position: number) => {
+    const index = mapping ? mapping[field] : position;
+    if (index === undefined) return '';
+    return (cells[index] ?? '').trim();
+  };
+
+  return {
+    word: pick('word', 0),
+    meaning: pick('meaning', 1),
+    example: pick('example', 2) || null,
+    translation: pick('translation', 3) || null,
+  };
+}
+
+// ============================================================================
+// CSV / TSV
+// ============================================================================
+
+/** Guess the delimiter from the first non-empty line */
+export function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/).find(l => l.trim().length > 0) ?? '';
+  const counts = ['\t', ',', ';'].map(d => ({ d, n: firstLine.split(d).length - 1 }));
+  counts.sort((a, b) => b.n - a.n);
+  return counts[0].n > 0 ? counts[0].d : ',';
+}
+
+/**
+ * Parse RFC 4180 style delimited text. Handles quoted fields containing
+ * delimiters, newlines and escaped quotes ("").
+ */
+export function parseDelimitedRows(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell.length === 0) {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(c => c.trim().length > 0));
+}
+
+/** Parse a CSV/TSV file into flashcard rows, using a header row when present */
+export function parseDelimitedFlashcards(text: string): FlashcardRow[] {
+  const rows = parseDelimitedRows(text);
+  if (rows.length === 0) return [];
+
+  const mapping = mapColumns(rows[0]);
+  const dataRows = mapping ? rows.slice(1) : rows;
+
+  return dataRows.map(cells => rowFromColumns(cells, mapping));
+}
+
+function escapeCell(value: string, delimiter: string): string {
+  if (value.includes('"') || value.includes(delimiter) || /[\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/** Serialise cards to CSV or TSV with a header row */
+export function toDelimited(cards: FlashcardRow[], format: DelimitedFormat = 'csv'): string {
+  const delimiter = format === 'tsv' ? '\t' : ',';
+  const lines = [POSITIONAL_FIELDS.join(delimiter)];
+
+  for (const card of cards) {
+    lines.push(
+      POSITIONAL_FIELDS
+        .map(field => escapeCell(card[field] ?? '', delimiter))
+        .join(delimiter)
+    );
+  }
+
+  return lines.join('\r\n') + '\r\n';
+}
+
+// ============================================================================
+// DUPLICATE DETECTION / PREVIEW
+// ============================================================================
+
+export function normalizeWord(word: string): string {
+  return word.trim().toLowerCase().replace(/\s+/g, ' ');
+}
+
+/**
+ * Flag each parsed row with the first problem that would stop it being
+ * imported. Rows with `issue === null` are safe to insert.
+ */
+export function buildImportPreview(rows: FlashcardRow[], existingWords: string[]): ImportPreviewRow[] {
+  const existing = new Set(existingWords.map(normalizeWord));
+  const seen = new Set<string>();
+
+  return rows.map((row, index) => {
+    const key = normalizeWord(row.word);
+    let issue: ImportRowIssue | null = null;
+
+    if (!key) {
+      issue = 'missing_word';
+    } else if (!row.meaning.trim()) {
+      issue = 'missing_meaning';
+    } else if (existing.has(key)) {
+      issue = 'duplicate_in_deck';
+    } else if (seen.has(key)) {
+      issue = 'duplicate_in_file';
+    }
+
+    if (key) seen.add(key);
+    return { ...row, line: index + 1, issue };
+  });
+}
+
+// ============================================================================
+// ANKI (.apkg)
+// ============================================================================
+
+async function loadSqlJs() {
+  const [{ default: initSqlJs }, { default: wasmUrl }] = await Promise.all([
+    import('sql.js'),
+    import('sql.js/dist/sql-wasm.wasm?url'),
+  ]);
+  return initSqlJs({ locateFile: () => wasmUrl });
+}
+
+async function loadJsZip() {
+  const { default: JSZip } = await import('jszip');
+  return JSZip;
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  '&nbsp;': ' ',
+  '&amp;': '&',
+  '&lt;': '<',
+  '&gt;': '>',
+  '&quot;': '"',
+  '&#39;': "'",
+};
+
+/** Strip Anki field markup (HTML, sound tags, cloze braces) down to text */
+export function ankiFieldToText(field: string): string {
+  return field
+    .replace(/\[sound:[^\]]*\]/g, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(nbsp|amp|lt|gt|quot|#39);/g, m => HTML_ENTITIES[m] ?? m)
+    .replace(/\{\{c\d+::(.*?)(::.*?)?\}\}/g, '$1')
+    .replace(/\n{2,}/g, '\n')
+    .trim();
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n/g, '<br>');
+}
+
+/**
+ * Read the notes of an Anki package. Field roles come from the note type's
+ * field names when they are recognisable, otherwise by position.
+ */
+export async function parseApkg(data: ArrayBuffer): Promise<FlashcardRow[]> {
+  const JSZip = await loadJsZip();
+  const zip = await JSZip.loadAsync(data);
+
+  const collectionFile = zip.file('collection.anki21') ?? zip.file('collection.anki2');
+  if (!collectionFile) {
+    if (zip.file('collection.anki21b')) {
+      throw new Error('This deck uses the newest Anki format. Re-export it from Anki with "Support older Anki versions" ticked.');
+    }
+    throw new Error('Not a valid Anki package: no collection found.');
+  }
+
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database(new Uint8Array(await collectionFile.async('arraybuffer')));
+
+  try {
+    const modelFieldMaps = new Map<string, Partial<Record<keyof FlashcardRow, number>> | null>();
+    const colResult = db.exec('SELECT models FROM col LIMIT 1');
+    if (colResult.length > 0) {
+      const models = JSON.parse(String(colResult[0].values[0][0] || '{}')) as Record<string, { flds?: { name: string; ord: number }[] }>;
+      for (const [mid, model] of Object.entries(models)) {
+        const names = [...(model.flds ?? [])].sort((a, b) => a.ord - b.ord).map(f => f.name);
+        modelFieldMaps.set(String(mid), mapColumns(names));
+      }
+    }
+
+    const notes = db.exec('SELECT mid, flds FROM notes ORDER BY id');
+    if (notes.length === 0) return [];
+
+    return notes[0].values.map(([mid, flds]) => {
+      const cells = String(flds).split(FIELD_SEPARATOR).map(ankiFieldToText);
+      return rowFromColumns(cells, modelFieldMaps.get(String(mid)) ?? null);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+async function fieldChecksum(text: string): Promise<number> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  const hex = Array.from(new Uint8Array(digest).slice(0, 4))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+  return parseInt(hex, 16);
+}
+
+function randomGuid(): string {
+  return crypto.randomUUID().replace(/-/g, '').slice(0, 10);
+}
+
+const ANKI_SCHEMA = `
+CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, scm integer not null, ver integer not null, dty integer not null, usn integer not null, ls integer not null, conf text not null, models text not null, decks text not null, dconf text not null, tags text not null);
+CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, mod integer not null, usn integer not null, tags text not null, flds text not null, sfld integer not null, csum integer not null, flags integer not null, data text not null);
+CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ord integer not null, mod integer not null, usn integer not null, type integer not null, queue integer not null, due integer not null, ivl integer not null, factor integer not null, reps integer not null, lapses integer not null, left integer not null, odue integer not null, odid integer not null, flags integer not null, data text not null);
+CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, time integer not null, type integer not null);
+CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null);
+`;
+
+/** Build an Anki package with one "IELTS Vocabulary" note type and one deck */
+export async function buildApkg(deckName: string, cards: FlashcardRow[]): Promise<Blob> {
+  const SQL = await loadSqlJs();
+  const db = new SQL.Database();
+
+  try {
+    db.run(ANKI_SCHEMA);
+
+    const nowMs = Date.now();
+    const nowSec = Math.floor(nowMs / 1000);
+    const modelId = nowMs;
+    const deckId = nowMs + 1;
+
+    const fieldNames = ['Word', 'Meaning', 'Example', 'Translation'];
+    const models = {
+      [modelId]: {
+        id: modelId,
+        name: 'IELTS Vocabulary',
+        type: 0,
+        mod: nowSec,
+        usn: -1,
+        sortf: 0,
+        did: deckId,
+        tmpls: [{
+          name: 'Card 1',
+          ord: 0,
+          qfmt: '{{Word}}',
+          afmt: '{{FrontSide}}<hr id=answer>{{Meaning}}{{#Example}}<br><i>{{Example}}</i>{{/Example}}{{#Translation}}<br>{{Translation}}{{/Translation}}',
+          did: null,
+          bqfmt: '',
+          bafmt: '',
+        }],
+        flds: fieldNames.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+        css: '.card { font-family: arial; font-size: 20px; text-align: center; }',
+        latexPre: '',
+        latexPost: '',
+        req: [[0, 'all', [0]]],
+        tags: [],
+        vers: [],
+      },
+    };
+
+    const deckDefaults = { mod: nowSec, usn: -1, lrnToday: [0, 0], revToday: [0, 0], newToday: [0, 0], timeToday: [0, 0], collapsed: false, desc: '', dyn: 0, conf: 1, extendNew: 10, extendRev: 50 };
+    const decks = {
+      1: { ...deckDefaults, id: 1, name: 'Default' },
+      [deckId]: { ...deckDefaults, id: deckId, name: deckName },
+    };
+    const dconf = {
+      1: {
+        id: 1, name: 'Default', mod: 0, usn: 0, maxTaken: 60, autoplay: true, timer: 0, replayq: true, dyn: false,
+        new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: true, separate: true },
+        rev: { perDay: 100, ease4: 1.3, fuzz: 0.05, ivlFct: 1, maxIvl: 36500, bury: true, minSpace: 1 },
+        lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 0 },
+      },
+    };
+    const conf = { nextPos: cards.length + 1, estTimes: true, activeDecks: [deckId], sortType: 'noteFld', timeLim: 0, sortBackwards: false, addToCur: true, curDeck: deckId, newSpread: 0, dueCounts: true, curModel: modelId, collapseTime: 1200 };
+
+    db.run(
+      'INSERT INTO col VALUES (1, ?, ?, ?, 11, 0, 0, 0, ?, ?, ?, ?, ?)',
+      [nowSec, nowMs, nowMs, JSON.stringify(conf), JSON.stringify(models), JSON.stringify(decks), JSON.stringify(dconf), '{}']
+    );
+
+    for (let i = 0; i < cards.length; i++) {
+      const card = cards[i];
+      const noteId = nowMs + 10 + i;
+      const fields = [card.word, card.meaning, card.example ?? '', card.translation ?? ''].map(escapeHtml);
+      const csum = await fieldChecksum(card.word);
+
+      db.run(
+        'INSERT INTO notes VALUES (?, ?, ?, ?, -1, ?, ?, ?, ?, 0, ?)',
+        [noteId, randomGuid(), modelId, nowSec, '', fields.join(FIELD_SEPARATOR), card.word, csum, '']
+      );
+      db.run(
+        'INSERT INTO cards VALUES (?, ?, ?, 0, ?, -1, 0, 0, ?, 0, 0, 0, 0, 0, 0, 0, 0, ?)',
+        [noteId, noteId, deckId, nowSec, i + 1, '']
+      );
+    }
+
+    const JSZip = await loadJsZip();
+    const zip = new JSZip();
+    zip.file('collection.anki2', db.export());
+    zip.file('media', '{}');
+
+    return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+  } finally {
+    db.close();
+  }
+}
+
+// ============================================================================
+// FILE HELPERS
+// ============================================================================
+
+export type FlashcardFileFormat = 'csv' | 'tsv' | 'apkg';
+
+export function detectFileFormat(fileName: string): FlashcardFileFormat | null {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  if (ext === 'apkg' || ext === 'colpkg') return 'apkg';
+  if (ext === 'tsv' || ext === 'txt') return 'tsv';
+  if (ext === 'csv') return 'csv';
+  return null;
+}
+
+/** Read any supported file into flashcard rows */
+export async function parseFlashcardFile(file: File): Promise<FlashcardRow[]> {
+  const format = detectFileFormat(file.name);
+  if (!format) {
+    throw new Error('Unsupported file type. Use .csv, .tsv, .txt or .apkg');
+  }
+  if (format === 'apkg') {
+    return parseApkg(await file.arrayBuffer());
+  }
+  return parseDelimitedFlashcards(await file.text());
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** Turn a deck name into a safe file name stem */
+export function deckFileName(deckName: string): string {
+  return deckName.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '_') || 'flashcards';
+}
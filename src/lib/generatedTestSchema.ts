@@ -0,0 +1,299 @@
+/**
+ * Generated Test Schema
+ *
+ * Versioned structural schema for AI-generated test payloads, shared with the
+ * generators (see supabase/functions/_shared/generatedTestSchema.ts - keep the
+ * two copies identical below the imports; sharedModuleCopies.test.ts fails on
+ * drift). The server validates before a payload is returned or saved and asks
+ * the model to repair failing question groups; the client validates again on
+ * load so a malformed stored payload never reaches the
+ * ReadingQuestions/ListeningQuestions renderers.
+ *
+ * Bump GENERATED_TEST_SCHEMA_VERSION whenever a rule is tightened so payloads
+ * can be traced back to the rules they were checked against.
+ */
+
+import { z } from 'zod';
+
+export const GENERATED_TEST_SCHEMA_VERSION = 1;
+
+export type GeneratedTestModule = 'reading' | 'listening' | 'writing' | 'speaking';
+
+export interface GeneratedTestIssue {
+  path: string; // e.g. questionGroups[0].questions[2].correct_answer
+  message: string;
+  groupIndex?: number; // Set when the issue is inside questionGroups[groupIndex]
+}
+
+export interface GeneratedTestValidation {
+  valid: boolean;
+  issues: GeneratedTestIssue[];
+  invalidGroups: number[]; // Indexes into questionGroups, for targeted repair
+}
+
+// ============================================================================
+// QUESTION GROUPS
+// ============================================================================
+
+// Types whose questions live inside a table, diagram, note or summary, so the
+// individual question_text may legitimately be empty
+const TEXTLESS_QUESTION_TYPES = new Set([
+  'TABLE_COMPLETION',
+  'FLOWCHART_COMPLETION',
+  'NOTE_COMPLETION',
+  'SUMMARY_COMPLETION',
+  'SUMMARY_WORD_BANK',
+  'MAP_LABELING',
+  'MAPS',
+  'FILL_IN_BLANK',
+]);
+
+const SINGLE_CHOICE_TYPES = new Set(['MULTIPLE_CHOICE', 'MULTIPLE_CHOICE_SINGLE']);
+
+const answerSchema = z.union([z.string(), z.number()]).refine((value) => String(value).trim().length > 0, {
+  message: 'Answer is empty',
+});
+
+const stringList = z.array(z.string());
+
+export const generatedQuestionSchema = z
+  .object({
+    id: z.string().min(1).optional(),
+    question_number: z.number().int().positive(),
+    question_text: z.string().nullable().optional(),
+    correct_answer: answerSchema,
+    explanation: z.string().nullable().optional(),
+    options: stringList.nullable().optional(),
+  })
+  .passthrough();
+
+export const generatedQuestionGroupSchema = z
+  .object({
+    id: z.string().min(1),
+    instruction: z.string(),
+    question_type: z.string().min(1),
+    start_question: z.number().int().positive(),
+    end_question: z.number().int().positive(),
+    options: z.record(z.unknown()).nullable().optional(),
+    questions: z.array(generatedQuestionSchema).min(1, 'Group has no questions'),
+  })
+  .passthrough()
+  .superRefine((group, ctx) => {
+    const type = group.question_type.trim().toUpperCase();
+    const options = group.options ?? {};
+    const groupChoices = Array.isArray(options.options) ? options.options : [];
+
+    if (group.end_question < group.start_question) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['end_question'], message: 'end_question is before start_question' });
+    }
+
+    const seen = new Set<number>();
+    group.questions.forEach((question, index) => {
+      if (seen.has(question.question_number)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ['questions', index, 'question_number'],
+          message: `Duplicate question number ${question.question_number}`,
+        });
+      }
+      seen.add(question.question_number);
+
+      if (!TEXTLESS_QUESTION_TYPES.has(type) && !String(question.question_text ?? '').trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', index, 'question_text'], message: 'Question text is empty' });
+      }
+
+      if (SINGLE_CHOICE_TYPES.has(type) && (question.options?.length ?? 0) < 2 && groupChoices.length < 2) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions', index, 'options'], message: 'Multiple choice question needs at least 2 options' });
+      }
+    });
+
+    const requireList = (key: string, min: number, message: string) => {
+      const value = options[key];
+      if (!Array.isArray(value) || value.length < min) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', key], message });
+      }
+    };
+
+    switch (type) {
+      case 'MULTIPLE_CHOICE_MULTIPLE':
+        if (groupChoices.length < 3 && (group.questions[0]?.options?.length ?? 0) < 3) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', 'options'], message: 'Multiple answer question needs at least 3 options' });
+        }
+        break;
+      case 'MATCHING_HEADINGS':
+        if (groupChoices.length === 0) requireList('headings', 1, 'Matching headings needs a headings list');
+        break;
+      case 'MATCHING_SENTENCE_ENDINGS':
+        requireList('sentence_endings', group.questions.length, 'Needs at least one sentence ending per question');
+        break;
+      case 'DRAG_AND_DROP_OPTIONS':
+        requireList('options', group.questions.length, 'Needs at least one option per question');
+        break;
+      case 'TABLE_COMPLETION':
+        if (!options.table_data && !group.questions.some((question) => question.table_data)) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', 'table_data'], message: 'Table completion needs table_data' });
+        }
+        break;
+    }
+  });
+
+// ============================================================================
+// MODULE PAYLOADS
+// ============================================================================
+
+const passageSchema = z
+  .object({
+    title: z.string().optional(),
+    content: z.string().trim().min(1, 'Passage is empty'),
+  })
+  .passthrough();
+
+const readingPayloadSchema = z
+  .object({
+    passage: passageSchema,
+    questionGroups: z.array(z.unknown()).min(1, 'No question groups'),
+  })
+  .passthrough();
+
+const listeningPayloadSchema = z
+  .object({
+    transcript: z.string().nullable().optional(),
+    questionGroups: z.array(z.unknown()).min(1, 'No question groups'),
+  })
+  .passthrough();
+
+const writingSingleTaskSchema = z
+  .object({
+    task_type: z.enum(['task1', 'task2']),
+    instruction: z.string().trim().min(1, 'Task instruction is empty'),
+    word_limit_min: z.number().positive().optional(),
+  })
+  .passthrough();
+
+const writingFullTestSchema = z
+  .object({
+    test_type: z.literal('full_test'),
+    task1: writingSingleTaskSchema,
+    task2: writingSingleTaskSchema,
+  })
+  .passthrough();
+
+// Picks the variant explicitly so issues keep their precise paths (a z.union only reports "Invalid input")
+const writingTaskSchema = z.unknown().superRefine((task, ctx) => {
+  const isFullTest = Boolean(task) && typeof task === 'object' && (task as { test_type?: unknown }).test_type === 'full_test';
+  const result = (isFullTest ? writingFullTestSchema : writingSingleTaskSchema).safeParse(task);
+  if (!result.success) {
+    for (const issue of result.error.issues) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message });
+    }
+  }
+});
+
+const writingPayloadSchema = z
+  .object({
+    writingTask: writingTaskSchema,
+  })
+  .passthrough();
+
+const speakingQuestionSchema = z
+  .object({
+    question_number: z.number().int().positive().optional(),
+    question_text: z.string().trim().min(1, 'Question text is empty'),
+  })
+  .passthrough();
+
+const speakingPartSchema = z
+  .object({
+    part_number: z.union([z.literal(1), z.literal(2), z.literal(3)]),
+    questions: z.array(speakingQuestionSchema),
+    cue_card_topic: z.string().nullable().optional(),
+  })
+  .passthrough()
+  .superRefine((part, ctx) => {
+    if (part.part_number === 2) {
+      if (!String(part.cue_card_topic ?? '').trim() && part.questions.length === 0) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['cue_card_topic'], message: 'Part 2 needs a cue card' });
+      }
+    } else if (part.questions.length === 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['questions'], message: `Part ${part.part_number} has no questions` });
+    }
+  });
+
+const speakingPayloadSchema = z
+  .object({
+    speakingParts: z.array(speakingPartSchema).min(1, 'No speaking parts'),
+  })
+  .passthrough();
+
+const PAYLOAD_SCHEMAS: Record<GeneratedTestModule, z.ZodTypeAny> = {
+  reading: readingPayloadSchema,
+  listening: listeningPayloadSchema,
+  writing: writingPayloadSchema,
+  speaking: speakingPayloadSchema,
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+function formatPath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, part) => (typeof part === 'number' ? `${acc}[${part}]` : acc ? `${acc}.${part}` : part), '');
+}
+
+function toIssues(error: z.ZodError, prefix: (string | number)[] = [], groupIndex?: number): GeneratedTestIssue[] {
+  return error.issues.map((issue) => ({
+    path: formatPath([...prefix, ...issue.path]),
+    message: issue.message,
+    ...(groupIndex !== undefined ? { groupIndex } : {}),
+  }));
+}
+
+/** Issues for a single question group; empty when the group is renderable */
+export function validateQuestionGroup(group: unknown, groupIndex?: number): GeneratedTestIssue[] {
+  const result = generatedQuestionGroupSchema.safeParse(group);
+  if (result.success) return [];
+  return toIssues(result.error, groupIndex !== undefined ? ['questionGroups', groupIndex] : [], groupIndex);
+}
+
+/** Validate a generated test payload (server response or stored payload) for a module */
+export function validateGeneratedTest(module: string, payload: unknown): GeneratedTestValidation {
+  const schema = PAYLOAD_SCHEMAS[module as GeneratedTestModule];
+  if (!schema) {
+    return { valid: false, issues: [{ path: '', message: `Unknown module "${module}"` }], invalidGroups: [] };
+  }
+
+  const result = schema.safeParse(payload);
+  const issues = result.success ? [] : toIssues(result.error);
+  const invalidGroups: number[] = [];
+
+  const groups = (payload as { questionGroups?: unknown })?.questionGroups;
+  if ((module === 'reading' || module === 'listening') && Array.isArray(groups)) {
+    groups.forEach((group, index) => {
+      const groupIssues = validateQuestionGroup(group, index);
+      if (groupIssues.length > 0) {
+        invalidGroups.push(index);
+        issues.push(...groupIssues);
+      }
+    });
+  }
+
+  return { valid: issues.length === 0, issues, invalidGroups };
+}
+
+/**
+ * Validate a test loaded from storage before it reaches the renderers. Any
+ * issue rejects the whole test: dropping a bad group would change the
+ * questions the result is scored against. Payloads checked by a newer server
+ * schema are trusted as-is, since this bundle's rules may be out of date.
+ */
+export function validateStoredGeneratedTest(module: string, payload: unknown, schemaVersion = 0): GeneratedTestValidation {
+  if (schemaVersion > GENERATED_TEST_SCHEMA_VERSION) return { valid: true, issues: [], invalidGroups: [] };
+  return validateGeneratedTest(module, payload);
+}
+
+/** One line per issue, for logs and error details */
+export function formatGeneratedTestIssues(issues: GeneratedTestIssue[], limit = 10): string {
+  const lines = issues.slice(0, limit).map((issue) => (issue.path ? `${issue.path}: ${issue.message}` : issue.message));
+  if (issues.length > limit) lines.push(`...and ${issues.length - limit} more`);
+  return lines.join('\n');
+}
@@ -157,7 +157,7 @@ export const MONTH_VARIATIONS: Record<string, string[]> = {
 // ============================================================================
 // NUMBER WORDS (including large numbers)
 // ============================================================================
-const NUMBER_WORDS: Record<string, string[]> = {
+export const NUMBER_WORDS: Record<string, string[]> = {
   '0': ['zero', 'o', 'oh', '0', 'nil', 'nought'],
   '1': ['one', '1', 'a'],
   '2': ['two', '2'],
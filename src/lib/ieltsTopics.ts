@@ -1,6 +1,8 @@
 // Common IELTS topics for each module
 // These are based on frequently appearing topics in official IELTS tests
 
+import type { TestVariant } from './testVariant';
+
 export const READING_TOPICS = [
   'Climate Change & Environment',
   'Technology & Innovation',
@@ -65,6 +67,48 @@ export const WRITING_TASK1_TOPICS = [
   'Natural Phenomena',
 ] as const;
 
+// General Training Reading: Section 1 everyday texts, Section 2 workplace
+// texts, Section 3 one longer text on a topic of general interest
+export const GT_READING_TOPICS = [
+  'Community Notices & Events',
+  'Advertisements & Offers',
+  'Timetables & Travel Information',
+  'Product Instructions & Safety',
+  'Accommodation & Tenancy',
+  'Leisure Centres & Courses',
+  'Job Descriptions & Vacancies',
+  'Staff Training & Development',
+  'Workplace Policies & Procedures',
+  'Employment Contracts & Benefits',
+  'Health & Safety at Work',
+  'Customer Service Guidelines',
+  'Hobbies & Pastimes',
+  'Nature & Wildlife',
+  'Everyday Science',
+  'History of Everyday Objects',
+  'Food & Cooking Traditions',
+  'Travel & Exploration',
+] as const;
+
+// General Training Task 1 is a letter; topics are situations to write about
+export const GT_WRITING_TASK1_TOPICS = [
+  'Complaint to a Company',
+  'Request for Information',
+  'Apology to a Friend',
+  'Invitation to an Event',
+  'Thanking a Host',
+  'Problem with Accommodation',
+  'Job Application',
+  'Request to an Employer',
+  'Lost Property',
+  'Suggestion to a Local Council',
+  'Recommendation to a Friend',
+  'Changing an Arrangement',
+  'Neighbour Issue',
+  'Course Enquiry',
+  'Travel Problem',
+] as const;
+
 export const WRITING_TASK2_TOPICS = [
   'Education System',
   'Technology in Society',
@@ -178,15 +222,18 @@ export const SPEAKING_TOPICS_FULL = [
 // Helper to get topics by module and subtype
 export function getTopicsForModule(
   module: 'reading' | 'listening' | 'writing' | 'speaking',
-  subtype?: string
+  subtype?: string,
+  variant: TestVariant = 'academic'
 ): readonly string[] {
+  const isGeneral = variant === 'general';
   switch (module) {
     case 'reading':
-      return READING_TOPICS;
+      return isGeneral ? GT_READING_TOPICS : READING_TOPICS;
     case 'listening':
       return LISTENING_TOPICS;
     case 'writing':
-      return subtype === 'TASK_1' ? WRITING_TASK1_TOPICS : WRITING_TASK2_TOPICS;
+      if (subtype === 'TASK_1') return isGeneral ? GT_WRITING_TASK1_TOPICS : WRITING_TASK1_TOPICS;
+      return WRITING_TASK2_TOPICS;
     case 'speaking':
       switch (subtype) {
         case 'PART_1': return SPEAKING_TOPICS_PART1;
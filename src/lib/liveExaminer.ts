@@ -0,0 +1,225 @@
+/**
+ * Live Speaking Examiner
+ *
+ * Turn-taking and bookkeeping for a live conversation with the Gemini Live
+ * examiner (`useGeminiLiveAudio`, `ai-speaking-session`). The browser decides
+ * when the candidate starts and stops talking with an energy-based voice
+ * activity detector and tells the model with activityStart / activityEnd, so
+ * each answer is also one recording. The examiner reports every question it
+ * asks, follow-ups included, through tool calls; those questions are written
+ * in the `speakingParts` shape so `speaking-evaluate-job` can match each
+ * recording (`part{N}-q{id}`) to the question it answers.
+ */
+
+import type { GeneratedSpeakingPart } from '@/types/aiPractice';
+
+export type LivePartNumber = 1 | 2 | 3;
+
+export const LIVE_PART2_PREP_SECONDS = 60;
+export const LIVE_PART2_SPEAK_SECONDS = 120;
+
+export interface VadOptions {
+  /** RMS level (0-1) that counts as speech */
+  threshold: number;
+  /** Speech shorter than this is treated as noise */
+  minSpeechMs: number;
+  /** Silence that ends the candidate's turn */
+  silenceMs: number;
+}
+
+/** Part 2 is a long turn: thinking pauses must not hand the turn back to the examiner */
+export const VAD_SETTINGS: Record<LivePartNumber, VadOptions> = {
+  1: { threshold: 0.02, minSpeechMs: 250, silenceMs: 1200 },
+  2: { threshold: 0.02, minSpeechMs: 250, silenceMs: 3500 },
+  3: { threshold: 0.02, minSpeechMs: 250, silenceMs: 1500 },
+};
+
+/** While the examiner is talking, speech must be this much louder to count as an interruption (echo) */
+export const BARGE_IN_THRESHOLD_FACTOR = 2.5;
+
+export type VadEvent = 'speech_start' | 'speech_end';
+
+export interface VoiceActivityDetector {
+  /** Feeds the level of one audio chunk captured at `at` (ms); returns a change of state, if any */
+  push(level: number, at: number, thresholdFactor?: number): VadEvent | null;
+  setOptions(options: VadOptions): void;
+  isSpeaking(): boolean;
+  reset(): void;
+}
+
+export function createVoiceActivityDetector(initial: VadOptions): VoiceActivityDetector {
+  let options = initial;
+  let speaking = false;
+  let loudSince: number | null = null;
+  let quietSince: number | null = null;
+
+  return {
+    push(level, at, thresholdFactor = 1) {
+      const loud = level >= options.threshold * thresholdFactor;
+      if (!speaking) {
+        if (!loud) {
+          loudSince = null;
+          return null;
+        }
+        loudSince ??= at;
+        if (at - loudSince < options.minSpeechMs) return null;
+        speaking = true;
+        quietSince = null;
+        return 'speech_start';
+      }
+
+      if (loud) {
+        quietSince = null;
+        return null;
+      }
+      quietSince ??= at;
+      if (at - quietSince < options.silenceMs) return null;
+      speaking = false;
+      loudSince = null;
+      quietSince = null;
+      return 'speech_end';
+    },
+    setOptions(next) {
+      options = next;
+    },
+    isSpeaking: () => speaking,
+    reset() {
+      speaking = false;
+      loudSince = null;
+      quietSince = null;
+    },
+  };
+}
+
+/** Root mean square of a chunk of samples in [-1, 1] */
+export function rmsLevel(samples: Float32Array): number {
+  if (samples.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) sum += samples[i] * samples[i];
+  return Math.sqrt(sum / samples.length);
+}
+
+// ---------------------------------------------------------------------------
+// Examiner tool calls
+// ---------------------------------------------------------------------------
+
+export type ExaminerToolCall =
+  | { id: string; name: 'ask_question'; part: LivePartNumber; question: string; followUp: boolean }
+  | { id: string; name: 'start_part2_preparation'; topic: string; points: string[] }
+  | { id: string; name: 'end_test' };
+
+const asPart = (value: unknown): LivePartNumber | null => {
+  const part = Number(value);
+  return part === 1 || part === 2 || part === 3 ? part : null;
+};
+
+/** Validates a function call from the Live API; unknown or malformed calls return null */
+export function parseExaminerToolCall(call: { id?: string; name?: string; args?: Record<string, unknown> }): ExaminerToolCall | null {
+  const id = call.id ?? '';
+  const args = call.args ?? {};
+  switch (call.name) {
+    case 'ask_question': {
+      const part = asPart(args.part);
+      const question = typeof args.question === 'string' ? args.question.trim() : '';
+      if (!part || !question) return null;
+      return { id, name: 'ask_question', part, question, followUp: args.follow_up === true };
+    }
+    case 'start_part2_preparation': {
+      const topic = typeof args.topic === 'string' ? args.topic.trim() : '';
+      if (!topic) return null;
+      const points = Array.isArray(args.points) ? args.points.filter((p): p is string => typeof p === 'string' && p.trim() !== '') : [];
+      return { id, name: 'start_part2_preparation', topic, points };
+    }
+    case 'end_test':
+      return { id, name: 'end_test' };
+    default:
+      return null;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Script and asked questions
+// ---------------------------------------------------------------------------
+
+/** The planned questions the examiner works from; it adds its own follow-ups */
+export interface ExaminerScript {
+  part1: string[];
+  part2: { topic: string; points: string[] } | null;
+  part3: string[];
+}
+
+export function buildExaminerScript(parts: GeneratedSpeakingPart[] | undefined): ExaminerScript {
+  const byNumber = (n: number) => (parts ?? []).find(p => p.part_number === n);
+  const questionTexts = (n: number) =>
+    [...(byNumber(n)?.questions ?? [])]
+      .sort((a, b) => a.question_number - b.question_number)
+      .map(q => q.question_text.trim())
+      .filter(Boolean);
+
+  const part2 = byNumber(2);
+  const topic = part2?.cue_card_topic?.trim() || part2?.questions?.[0]?.question_text?.trim() || '';
+  const points = (part2?.cue_card_content ?? '')
+    .split('\n')
+    .map(line => line.replace(/^[-•*\s]+/, '').trim())
+    .filter(Boolean);
+
+  return {
+    part1: questionTexts(1),
+    part2: topic ? { topic, points } : null,
+    part3: questionTexts(3),
+  };
+}
+
+export interface LiveQuestion {
+  id: string;
+  partNumber: LivePartNumber;
+  questionNumber: number;
+  questionText: string;
+  isFollowUp: boolean;
+}
+
+/** Adds a question the examiner just asked; numbering runs per part */
+export function addAskedQuestion(
+  questions: LiveQuestion[],
+  partNumber: LivePartNumber,
+  questionText: string,
+  isFollowUp: boolean
+): LiveQuestion[] {
+  const questionNumber = questions.filter(q => q.partNumber === partNumber).length + 1;
+  return [
+    ...questions,
+    { id: `live-p${partNumber}-q${questionNumber}`, partNumber, questionNumber, questionText, isFollowUp },
+  ];
+}
+
+/** Recording key in the format the speaking evaluation pipeline parses */
+export const liveSegmentKey = (question: Pick<LiveQuestion, 'id' | 'partNumber'>) =>
+  `part${question.partNumber}-q${question.id}`;
+
+/** The asked questions that were answered, as the `speakingParts` the evaluation reads */
+export function toSpeakingParts(
+  questions: LiveQuestion[],
+  answeredIds: Set<string>,
+  cueCard: { topic: string; points: string[] } | null
+): GeneratedSpeakingPart[] {
+  return ([1, 2, 3] as LivePartNumber[])
+    .map(partNumber => {
+      const asked = questions.filter(q => q.partNumber === partNumber && answeredIds.has(q.id));
+      const part: GeneratedSpeakingPart = {
+        id: `live-part${partNumber}`,
+        part_number: partNumber,
+        instruction: 'Live examiner',
+        questions: asked.map(q => ({
+          id: q.id,
+          question_number: q.questionNumber,
+          question_text: q.isFollowUp ? `${q.questionText} (follow-up)` : q.questionText,
+        })),
+      };
+      if (partNumber === 2 && cueCard) {
+        part.cue_card_topic = cueCard.topic;
+        part.cue_card_content = cueCard.points.join('\n');
+      }
+      return part;
+    })
+    .filter(part => part.questions.length > 0);
+}
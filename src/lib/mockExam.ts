@@ -0,0 +1,302 @@
+/**
+ * Mock Exam
+ *
+ * Orchestration for a full four-skill mock exam: the official section order
+ * and timings, the session stored in `mock_exam_sessions` that ties the four
+ * submissions together, and the official overall-band rounding.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+
+export type MockExamModule = 'listening' | 'reading' | 'writing' | 'speaking';
+export type MockExamStage = MockExamModule | 'break' | 'completed';
+export type MockExamSession = Tables<'mock_exam_sessions'>;
+
+export interface MockExamSection {
+  module: MockExamModule;
+  label: string;
+  minutes: number;
+  description: string;
+}
+
+/** Official order and timings. Listening, Reading and Writing run back to back. */
+export const MOCK_EXAM_SECTIONS: MockExamSection[] = [
+  { module: 'listening', label: 'Listening', minutes: 30, description: '4 parts, 40 questions. Each recording is played once.' },
+  { module: 'reading', label: 'Reading', minutes: 60, description: '3 passages, 40 questions. There is no extra time to transfer answers.' },
+  { module: 'writing', label: 'Writing', minutes: 60, description: 'Task 1 (at least 150 words) and Task 2 (at least 250 words). Task 2 carries twice the weight.' },
+  { module: 'speaking', label: 'Speaking', minutes: 14, description: '3 parts, 11-14 minutes: interview, long turn with 1 minute preparation, discussion.' },
+];
+
+/**
+ * Official time for a section in seconds. Test pages opened as a mock exam
+ * section use it in place of the test's own time limit, and lock the timer.
+ */
+export function getSectionSeconds(module: MockExamModule): number {
+  const section = MOCK_EXAM_SECTIONS.find(s => s.module === module);
+  return (section?.minutes ?? 0) * 60;
+}
+
+/** Rest before Speaking, which is taken separately from the written papers */
+export const MOCK_EXAM_BREAK_MINUTES = 10;
+
+export interface MockExamTests {
+  listening: string;
+  reading: string;
+  writing: string;
+  speaking: string;
+}
+
+export type MockExamSubmission =
+  | { module: 'listening' | 'reading'; submissionId: string; band: number }
+  | { module: 'writing'; task1SubmissionId: string | null; task2SubmissionId: string | null }
+  | { module: 'speaking'; submissionId: string };
+
+// ============================================================================
+// STAGES
+// ============================================================================
+
+const STAGE_ORDER: MockExamStage[] = ['listening', 'reading', 'writing', 'break', 'speaking', 'completed'];
+
+export function getNextStage(stage: MockExamStage): MockExamStage {
+  const index = STAGE_ORDER.indexOf(stage);
+  return STAGE_ORDER[Math.min(index + 1, STAGE_ORDER.length - 1)];
+}
+
+/** Whether `module`'s section is finished at the given stage */
+export function isSectionComplete(module: MockExamModule, stage: MockExamStage): boolean {
+  return STAGE_ORDER.indexOf(stage) > STAGE_ORDER.indexOf(module);
+}
+
+/**
+ * Route for a section's test page, flagged so it reports back to the session.
+ * Writing and Speaking open a new submission so earlier attempts are not
+ * loaded as drafts and overwritten.
+ */
+export function getSectionPath(module: MockExamModule, testId: string, sessionId: string): string {
+  const newSubmission = module === 'writing' || module === 'speaking' ? '/new-submission' : '';
+  return `/${module}/test/${testId}${newSubmission}?mockSession=${sessionId}`;
+}
+
+export function getSessionPath(sessionId: string): string {
+  return `/full-mock-test/session/${sessionId}`;
+}
+
+// ============================================================================
+// BAND SCORES
+// ============================================================================
+
+// Averages are multiples of 1/8, so this only guards against float drift
+const EPSILON = 1e-9;
+
+/**
+ * Official IELTS rounding to the nearest half band: a fraction of .25 rounds
+ * up to .5 and .75 rounds up to the next whole band (6.25 -> 6.5,
+ * 6.75 -> 7.0, 6.125 -> 6.0).
+ */
+export function roundToHalfBand(value: number): number {
+  const whole = Math.floor(value + EPSILON);
+  const fraction = value - whole;
+  if (fraction < 0.25 - EPSILON) return whole;
+  if (fraction < 0.75 - EPSILON) return whole + 0.5;
+  return whole + 1;
+}
+
+/** Overall band from the four skill bands; null until all four are known */
+export function calculateOverallBand(bands: (number | null | undefined)[]): number | null {
+  if (bands.length === 0 || bands.some(b => b === null || b === undefined)) return null;
+  const average = (bands as number[]).reduce((sum, b) => sum + b, 0) / bands.length;
+  return roundToHalfBand(average);
+}
+
+// A task evaluation that has not landed by then is treated as failed
+export const WRITING_EVALUATION_TIMEOUT_MINUTES = 15;
+
+export type WritingTaskSubmission = Pick<Tables<'writing_submissions'>, 'overall_band' | 'word_count' | 'submitted_at'>;
+
+/**
+ * Band for one Writing task of a mock exam: its evaluated band, 0 when the
+ * task was left blank or its evaluation failed (no band after
+ * WRITING_EVALUATION_TIMEOUT_MINUTES), and null while it is still being
+ * evaluated. Scoring those as 0, as an examiner would an unanswered task,
+ * lets the session complete.
+ */
+export function getWritingTaskBand(
+  submission: WritingTaskSubmission | null | undefined,
+  now: Date = new Date()
+): number | null {
+  if (!submission || submission.word_count === 0) return 0;
+  if (submission.overall_band !== null) return submission.overall_band;
+  const submittedAt = submission.submitted_at ? Date.parse(submission.submitted_at) : NaN;
+  if (Number.isNaN(submittedAt)) return 0;
+  return now.getTime() - submittedAt > WRITING_EVALUATION_TIMEOUT_MINUTES * 60 * 1000 ? 0 : null;
+}
+
+/** Writing band with Task 2 counting twice as much as Task 1 */
+export function calculateWritingBand(task1: number | null | undefined, task2: number | null | undefined): number | null {
+  if (task1 === null || task1 === undefined || task2 === null || task2 === undefined) return null;
+  return roundToHalfBand((task1 + task2 * 2) / 3);
+}
+
+// ============================================================================
+// SESSIONS
+// ============================================================================
+
+export async function createMockExamSession(
+  userId: string,
+  tests: MockExamTests,
+  source: { bookName?: string; testNumber?: number } = {}
+): Promise<MockExamSession> {
+  const { data, error } = await supabase
+    .from('mock_exam_sessions')
+    .insert({
+      user_id: userId,
+      book_name: source.bookName ?? null,
+      test_number: source.testNumber ?? null,
+      listening_test_id: tests.listening,
+      reading_test_id: tests.reading,
+      writing_test_id: tests.writing,
+      speaking_test_id: tests.speaking,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function getMockExamSession(sessionId: string): Promise<MockExamSession> {
+  const { data, error } = await supabase
+    .from('mock_exam_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** The user's unfinished session, if any, so it can be resumed */
+export async function getActiveMockExamSession(userId: string): Promise<MockExamSession | null> {
+  const { data, error } = await supabase
+    .from('mock_exam_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('status', 'in_progress')
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+}
+
+async function updateSession(
+  sessionId: string,
+  changes: Partial<MockExamSession>
+): Promise<MockExamSession> {
+  const { data, error } = await supabase
+    .from('mock_exam_sessions')
+    .update(changes)
+    .eq('id', sessionId)
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+/** Attach a finished section's submission to the session and move to the next stage */
+export async function recordMockExamSubmission(
+  sessionId: string,
+  submission: MockExamSubmission
+): Promise<MockExamSession> {
+  const nextStage = getNextStage(submission.module);
+  const changes: Partial<MockExamSession> = { current_stage: nextStage };
+
+  switch (submission.module) {
+    case 'listening':
+      changes.listening_submission_id = submission.submissionId;
+      changes.listening_band = submission.band;
+      break;
+    case 'reading':
+      changes.reading_submission_id = submission.submissionId;
+      changes.reading_band = submission.band;
+      break;
+    case 'writing':
+      changes.writing_task1_submission_id = submission.task1SubmissionId;
+      changes.writing_task2_submission_id = submission.task2SubmissionId;
+      break;
+    case 'speaking':
+      changes.speaking_submission_id = submission.submissionId;
+      break;
+  }
+
+  if (nextStage === 'break') {
+    changes.break_ends_at = new Date(Date.now() + MOCK_EXAM_BREAK_MINUTES * 60 * 1000).toISOString();
+  }
+
+  return updateSession(sessionId, changes);
+}
+
+export function endMockExamBreak(sessionId: string): Promise<MockExamSession> {
+  return updateSession(sessionId, { current_stage: 'speaking', break_ends_at: null });
+}
+
+export function abandonMockExamSession(sessionId: string): Promise<MockExamSession> {
+  return updateSession(sessionId, { status: 'abandoned' });
+}
+
+/**
+ * Pull in Writing and Speaking bands once their AI evaluations finish (a
+ * blank or failed Writing task counts as 0, see getWritingTaskBand), and
+ * store the overall band when all four skills are scored.
+ */
+export async function refreshMockExamBands(session: MockExamSession): Promise<MockExamSession> {
+  const changes: Partial<MockExamSession> = {};
+
+  const writingIds = [session.writing_task1_submission_id, session.writing_task2_submission_id].filter(
+    (id): id is string => !!id
+  );
+  if (session.writing_band === null && isSectionComplete('writing', session.current_stage as MockExamStage)) {
+    let submissions: (WritingTaskSubmission & { id: string })[] = [];
+    if (writingIds.length > 0) {
+      const { data, error } = await supabase
+        .from('writing_submissions')
+        .select('id, overall_band, word_count, submitted_at')
+        .in('id', writingIds);
+      if (error) throw error;
+      submissions = data ?? [];
+    }
+    const bandFor = (id: string | null) => getWritingTaskBand(submissions.find(s => s.id === id));
+    const writingBand = calculateWritingBand(
+      bandFor(session.writing_task1_submission_id),
+      bandFor(session.writing_task2_submission_id)
+    );
+    if (writingBand !== null) changes.writing_band = writingBand;
+  }
+
+  if (session.speaking_band === null && session.speaking_submission_id) {
+    const { data, error } = await supabase
+      .from('speaking_submissions')
+      .select('overall_band')
+      .eq('id', session.speaking_submission_id)
+      .maybeSingle();
+    if (error) throw error;
+    if (data?.overall_band !== null && data?.overall_band !== undefined) {
+      changes.speaking_band = roundToHalfBand(data.overall_band);
+    }
+  }
+
+  const merged = { ...session, ...changes };
+  const overall = calculateOverallBand([
+    merged.listening_band,
+    merged.reading_band,
+    merged.writing_band,
+    merged.speaking_band,
+  ]);
+  if (overall !== null && merged.current_stage === 'completed' && merged.status !== 'completed') {
+    changes.overall_band = overall;
+    changes.status = 'completed';
+    changes.completed_at = new Date().toISOString();
+  }
+
+  if (Object.keys(changes).length === 0) return session;
+  return updateSession(session.id, changes);
+}
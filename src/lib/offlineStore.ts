@@ -0,0 +1,224 @@
+/**
+ * Offline Test Store
+ *
+ * IndexedDB storage for tests downloaded for offline use and for attempts
+ * taken while offline. Audio files are kept in the Cache API (shared with
+ * the service worker in public/sw.js) so large blobs stay out of IndexedDB.
+ */
+
+import type { Json } from '@/integrations/supabase/types';
+
+export type OfflineModule = 'reading' | 'listening';
+
+export interface OfflineTestBundle<T = unknown> {
+  key: string;
+  module: OfflineModule;
+  testId: string;
+  title: string;
+  downloadedAt: string;
+  audioUrls: string[];
+  data: T;
+}
+
+export type OfflineAttemptStatus = 'in_progress' | 'pending_sync' | 'conflict';
+
+/** Submission computed on the device, inserted on reconnect */
+export interface OfflineSubmission {
+  id: string;
+  userId: string;
+  score: number;
+  totalQuestions: number;
+  bandScore: number;
+  completedAt: string;
+  // Per-question results for the question-type diagnosis; missing on attempts queued by older versions
+  questionResults?: Json;
+}
+
+/** A submission for the same test that reached the server from somewhere else */
+export interface OfflineConflict {
+  id: string;
+  score: number;
+  totalQuestions: number;
+  completedAt: string;
+}
+
+export interface OfflineAttempt {
+  key: string;
+  module: OfflineModule;
+  testId: string;
+  testTitle: string;
+  status: OfflineAttemptStatus;
+  answers: Record<number, string>;
+  currentQuestion: number;
+  timeLeft: number;
+  startedAt: string;
+  updatedAt: string;
+  submission?: OfflineSubmission;
+  conflict?: OfflineConflict;
+}
+
+const DB_NAME = 'ielts-offline';
+const DB_VERSION = 1;
+const TESTS_STORE = 'tests';
+const ATTEMPTS_STORE = 'attempts';
+
+/** Cache names must match AUDIO_CACHE, SHELL_CACHE and ASSET_CACHE in public/sw.js */
+export const OFFLINE_AUDIO_CACHE = 'ielts-offline-audio-v1';
+const SHELL_CACHE = 'ielts-shell-v1';
+const ASSET_CACHE = 'ielts-assets-v1';
+const SHELL_URL = '/index.html';
+
+export const offlineKey = (module: OfflineModule, testId: string) => `${module}:${testId}`;
+
+// ============================================================================
+// INDEXEDDB HELPERS
+// ============================================================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageSupported(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(TESTS_STORE)) db.createObjectStore(TESTS_STORE, { keyPath: 'key' });
+        if (!db.objectStoreNames.contains(ATTEMPTS_STORE)) db.createObjectStore(ATTEMPTS_STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+// ============================================================================
+// DOWNLOADED TESTS
+// ============================================================================
+
+export async function saveTestBundle<T>(bundle: OfflineTestBundle<T>): Promise<void> {
+  await withStore(TESTS_STORE, 'readwrite', store => store.put(bundle));
+}
+
+export async function getTestBundle<T>(module: OfflineModule, testId: string): Promise<OfflineTestBundle<T> | null> {
+  if (!isOfflineStorageSupported()) return null;
+  const bundle = await withStore<OfflineTestBundle<T> | undefined>(TESTS_STORE, 'readonly', store =>
+    store.get(offlineKey(module, testId))
+  );
+  return bundle ?? null;
+}
+
+export async function listTestBundles(): Promise<OfflineTestBundle[]> {
+  if (!isOfflineStorageSupported()) return [];
+  return withStore<OfflineTestBundle[]>(TESTS_STORE, 'readonly', store => store.getAll());
+}
+
+/** Remove a downloaded test and any audio that no other download uses */
+export async function deleteTestBundle(module: OfflineModule, testId: string): Promise<void> {
+  const bundle = await getTestBundle(module, testId);
+  await withStore(TESTS_STORE, 'readwrite', store => store.delete(offlineKey(module, testId)));
+  if (!bundle?.audioUrls.length || typeof caches === 'undefined') return;
+
+  const remaining = await listTestBundles();
+  const stillUsed = new Set(remaining.flatMap(b => b.audioUrls));
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  await Promise.all(bundle.audioUrls.filter(url => !stillUsed.has(url)).map(url => cache.delete(url)));
+}
+
+// ============================================================================
+// APP SHELL
+// ============================================================================
+
+/** The built /assets/ files an index.html loads (same pattern as public/sw.js) */
+export function shellAssetUrls(html: string): string[] {
+  return [...new Set(Array.from(html.matchAll(/(?:src|href)="(\/assets\/[^"]+)"/g), match => match[1]))];
+}
+
+/**
+ * Cache index.html and the bundles it loads. The service worker does the same
+ * when it installs, but it registers after the first page load, so this makes
+ * sure a test downloaded on the first visit can also be opened offline.
+ */
+export async function cacheAppShell(): Promise<void> {
+  if (typeof caches === 'undefined') return;
+  const response = await fetch(SHELL_URL, { cache: 'no-cache' });
+  if (!response.ok) throw new Error(`Failed to download the app (HTTP ${response.status})`);
+
+  const assetCache = await caches.open(ASSET_CACHE);
+  for (const url of shellAssetUrls(await response.clone().text())) {
+    if (!(await assetCache.match(url))) await assetCache.add(url);
+  }
+  const shellCache = await caches.open(SHELL_CACHE);
+  await shellCache.put(SHELL_URL, response);
+}
+
+// ============================================================================
+// AUDIO
+// ============================================================================
+
+export async function cacheAudio(url: string): Promise<void> {
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  if (await cache.match(url)) return;
+  const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+  if (!response.ok) throw new Error(`Failed to download audio (HTTP ${response.status})`);
+  await cache.put(url, response);
+}
+
+/**
+ * Object URL for a cached audio file, or null if it was not downloaded.
+ * Used when the page is not (yet) controlled by the service worker.
+ */
+export async function getCachedAudioObjectUrl(url: string): Promise<string | null> {
+  if (typeof caches === 'undefined') return null;
+  const cache = await caches.open(OFFLINE_AUDIO_CACHE);
+  const response = await cache.match(url);
+  if (!response) return null;
+  return URL.createObjectURL(await response.blob());
+}
+
+// ============================================================================
+// ATTEMPTS
+// ============================================================================
+
+export async function saveAttempt(attempt: OfflineAttempt): Promise<void> {
+  await withStore(ATTEMPTS_STORE, 'readwrite', store => store.put(attempt));
+}
+
+export async function getAttempt(module: OfflineModule, testId: string): Promise<OfflineAttempt | null> {
+  if (!isOfflineStorageSupported()) return null;
+  const attempt = await withStore<OfflineAttempt | undefined>(ATTEMPTS_STORE, 'readonly', store =>
+    store.get(offlineKey(module, testId))
+  );
+  return attempt ?? null;
+}
+
+export async function listAttempts(): Promise<OfflineAttempt[]> {
+  if (!isOfflineStorageSupported()) return [];
+  return withStore<OfflineAttempt[]>(ATTEMPTS_STORE, 'readonly', store => store.getAll());
+}
+
+export async function deleteAttempt(key: string): Promise<void> {
+  await withStore(ATTEMPTS_STORE, 'readwrite', store => store.delete(key));
+}
@@ -0,0 +1,392 @@
+/**
+ * Offline Tests
+ *
+ * Downloading Reading/Listening tests for offline use, loading test content
+ * with an offline fallback, queueing submissions made without a connection
+ * and syncing them through the normal submission tables on reconnect.
+ */
+
+import type { User } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import {
+  OfflineAttempt,
+  OfflineConflict,
+  OfflineModule,
+  OfflineSubmission,
+  cacheAppShell,
+  cacheAudio,
+  deleteAttempt,
+  getAttempt,
+  getCachedAudioObjectUrl,
+  getTestBundle,
+  listAttempts,
+  offlineKey,
+  saveAttempt,
+  saveTestBundle,
+} from './offlineStore';
+
+export interface ReadingTestData {
+  test: Tables<'reading_tests'>;
+  passages: Tables<'reading_passages'>[];
+  paragraphs: Tables<'reading_paragraphs'>[];
+  questionGroups: Tables<'reading_question_groups'>[];
+  questions: Tables<'reading_questions'>[];
+}
+
+export type ListeningGroupWithQuestions = Tables<'listening_question_groups'> & {
+  listening_questions: Tables<'listening_questions'>[];
+};
+
+export interface ListeningTestData {
+  test: Tables<'listening_tests'>;
+  groups: ListeningGroupWithQuestions[];
+}
+
+export interface LoadedTestData<T> {
+  data: T;
+  /** True when the content came from the offline download instead of the network */
+  fromOffline: boolean;
+}
+
+export class OfflineUnavailableError extends Error {
+  constructor() {
+    super('This test has not been downloaded for offline use.');
+    this.name = 'OfflineUnavailableError';
+  }
+}
+
+const SUBMISSION_TABLES = {
+  reading: 'reading_test_submissions',
+  listening: 'listening_test_submissions',
+} as const;
+
+// ============================================================================
+// FETCHING TEST CONTENT
+// ============================================================================
+
+async function fetchReadingTestData(testId: string): Promise<ReadingTestData> {
+  const { data: test, error: testError } = await supabase
+    .from('reading_tests')
+    .select('*')
+    .eq('id', testId)
+    .single();
+  if (testError) throw testError;
+
+  const { data: passages, error: passageError } = await supabase
+    .from('reading_passages')
+    .select('*')
+    .eq('test_id', testId)
+    .order('passage_number');
+  if (passageError) throw passageError;
+
+  if (passages.length === 0) {
+    return { test, passages, paragraphs: [], questionGroups: [], questions: [] };
+  }
+
+  const passageIds = passages.map(p => p.id);
+  const [paragraphsResult, groupsResult, questionsResult] = await Promise.all([
+    supabase.from('reading_paragraphs').select('*').in('passage_id', passageIds).order('order_index'),
+    supabase.from('reading_question_groups').select('*').in('passage_id', passageIds).order('start_question'),
+    supabase.from('reading_questions').select('*').in('passage_id', passageIds).order('question_number'),
+  ]);
+  if (questionsResult.error) throw questionsResult.error;
+
+  return {
+    test,
+    passages,
+    paragraphs: paragraphsResult.data || [],
+    questionGroups: groupsResult.data || [],
+    questions: questionsResult.data,
+  };
+}
+
+async function fetchListeningTestData(testId: string): Promise<ListeningTestData> {
+  const { data: test, error: testError } = await supabase
+    .from('listening_tests')
+    .select('*')
+    .eq('id', testId)
+    .single();
+  if (testError) throw testError;
+
+  const { data: groups, error: groupsError } = await supabase
+    .from('listening_question_groups')
+    .select('*, listening_questions(*)')
+    .eq('test_id', testId)
+    .order('start_question');
+  if (groupsError) throw groupsError;
+
+  return { test, groups: groups || [] };
+}
+
+/** Every audio file a listening test can play */
+export function getListeningAudioUrls(test: Tables<'listening_tests'>): string[] {
+  const urls = [test.audio_url, test.audio_url_part1, test.audio_url_part2, test.audio_url_part3, test.audio_url_part4];
+  return [...new Set(urls.filter((url): url is string => !!url))];
+}
+
+/**
+ * Point a listening test's audio at the downloaded copies where they exist,
+ * so playback works offline even before the service worker takes control.
+ */
+export async function withCachedAudio(test: Tables<'listening_tests'>): Promise<Tables<'listening_tests'>> {
+  const fields = ['audio_url', 'audio_url_part1', 'audio_url_part2', 'audio_url_part3', 'audio_url_part4'] as const;
+  const resolved = { ...test };
+  for (const field of fields) {
+    const url = test[field];
+    if (!url) continue;
+    const objectUrl = await getCachedAudioObjectUrl(url).catch(() => null);
+    if (objectUrl) resolved[field] = objectUrl;
+  }
+  return resolved;
+}
+
+async function loadWithOfflineFallback<T>(
+  module: OfflineModule,
+  testId: string,
+  fetchOnline: (testId: string) => Promise<T>
+): Promise<LoadedTestData<T>> {
+  if (navigator.onLine) {
+    try {
+      return { data: await fetchOnline(testId), fromOffline: false };
+    } catch (error) {
+      const bundle = await getTestBundle<T>(module, testId).catch(() => null);
+      if (bundle) {
+        console.warn(`[offlineTests] Network load failed, using downloaded ${module} test`, error);
+        return { data: bundle.data, fromOffline: true };
+      }
+      throw error;
+    }
+  }
+
+  const bundle = await getTestBundle<T>(module, testId);
+  if (!bundle) throw new OfflineUnavailableError();
+  return { data: bundle.data, fromOffline: true };
+}
+
+export function loadReadingTestData(testId: string): Promise<LoadedTestData<ReadingTestData>> {
+  return loadWithOfflineFallback('reading', testId, fetchReadingTestData);
+}
+
+export function loadListeningTestData(testId: string): Promise<LoadedTestData<ListeningTestData>> {
+  return loadWithOfflineFallback('listening', testId, fetchListeningTestData);
+}
+
+// ============================================================================
+// DOWNLOADING
+// ============================================================================
+
+/**
+ * Download a test's passages, questions and audio so it can be taken with
+ * no connection. `onProgress` receives a 0-1 fraction.
+ */
+export async function downloadTestForOffline(
+  module: OfflineModule,
+  testId: string,
+  onProgress?: (fraction: number) => void
+): Promise<void> {
+  onProgress?.(0);
+  // Vite dev serves modules, not /assets/ bundles; there is no service worker there either
+  if (import.meta.env.PROD) await cacheAppShell();
+
+  if (module === 'reading') {
+    const data = await fetchReadingTestData(testId);
+    await saveTestBundle({
+      key: offlineKey(module, testId),
+      module,
+      testId,
+      title: data.test.title,
+      downloadedAt: new Date().toISOString(),
+      audioUrls: [],
+      data,
+    });
+    onProgress?.(1);
+    return;
+  }
+
+  const data = await fetchListeningTestData(testId);
+  const audioUrls = getListeningAudioUrls(data.test);
+  const steps = audioUrls.length + 1;
+  onProgress?.(1 / steps);
+
+  // Sequential so progress is meaningful and mobile connections are not saturated
+  for (let i = 0; i < audioUrls.length; i++) {
+    await cacheAudio(audioUrls[i]);
+    onProgress?.((i + 2) / steps);
+  }
+
+  await saveTestBundle({
+    key: offlineKey(module, testId),
+    module,
+    testId,
+    title: data.test.title,
+    downloadedAt: new Date().toISOString(),
+    audioUrls,
+    data,
+  });
+}
+
+// ============================================================================
+// ATTEMPTS
+// ============================================================================
+
+/**
+ * The signed-in user. Offline, `getUser()` cannot reach the auth server, so
+ * fall back to the locally stored session.
+ */
+export async function getSignedInUser(): Promise<User | null> {
+  if (navigator.onLine) {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (user) return user;
+  }
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user ?? null;
+}
+
+/** Persist in-progress answers for a downloaded test so a reload does not lose them */
+export async function saveAttemptProgress(
+  module: OfflineModule,
+  testId: string,
+  progress: Pick<OfflineAttempt, 'testTitle' | 'answers' | 'currentQuestion' | 'timeLeft'>
+): Promise<void> {
+  const existing = await getAttempt(module, testId);
+  const now = new Date().toISOString();
+  await saveAttempt({
+    key: offlineKey(module, testId),
+    module,
+    testId,
+    status: 'in_progress',
+    startedAt: existing?.startedAt ?? now,
+    updatedAt: now,
+    ...progress,
+  });
+}
+
+export async function clearAttemptProgress(module: OfflineModule, testId: string): Promise<void> {
+  await deleteAttempt(offlineKey(module, testId));
+}
+
+/**
+ * Queue a submission scored on the device. It is stored under its own key so
+ * a new attempt at the same test cannot overwrite it before it syncs.
+ */
+export async function queueOfflineSubmission(
+  module: OfflineModule,
+  testId: string,
+  attempt: Pick<OfflineAttempt, 'testTitle' | 'answers' | 'currentQuestion' | 'timeLeft'>,
+  submission: OfflineSubmission
+): Promise<void> {
+  const inProgress = await getAttempt(module, testId);
+  await saveAttempt({
+    key: `${offlineKey(module, testId)}:${submission.id}`,
+    module,
+    testId,
+    status: 'pending_sync',
+    startedAt: inProgress?.startedAt ?? submission.completedAt,
+    updatedAt: new Date().toISOString(),
+    submission,
+    ...attempt,
+  });
+  if (inProgress) await deleteAttempt(inProgress.key);
+}
+
+// ============================================================================
+// SYNC
+// ============================================================================
+
+export interface SyncSummary {
+  synced: OfflineAttempt[];
+  conflicts: OfflineAttempt[];
+  failed: number;
+}
+
+/**
+ * A server-side submission for the same test completed after this attempt
+ * started means it was also taken somewhere else in the meantime.
+ */
+export function findConflictingSubmission(
+  attempt: Pick<OfflineAttempt, 'startedAt' | 'submission'>,
+  remote: { id: string; score: number; total_questions: number; completed_at: string }[]
+): OfflineConflict | null {
+  const startedAt = new Date(attempt.startedAt).getTime();
+  const match = remote
+    .filter(r => r.id !== attempt.submission?.id && new Date(r.completed_at).getTime() >= startedAt)
+    .sort((a, b) => new Date(b.completed_at).getTime() - new Date(a.completed_at).getTime())[0];
+  return match
+    ? { id: match.id, score: match.score, totalQuestions: match.total_questions, completedAt: match.completed_at }
+    : null;
+}
+
+async function insertSubmission(attempt: OfflineAttempt): Promise<void> {
+  const submission = attempt.submission!;
+  const { error } = await supabase.from(SUBMISSION_TABLES[attempt.module]).insert({
+    id: submission.id,
+    user_id: submission.userId,
+    test_id: attempt.testId,
+    answers: attempt.answers,
+    score: submission.score,
+    total_questions: submission.totalQuestions,
+    band_score: submission.bandScore,
+    completed_at: submission.completedAt,
+    question_results: submission.questionResults ?? null,
+  });
+  // Unique violation: an earlier sync already inserted it before being interrupted
+  if (error && error.code !== '23505') throw error;
+}
+
+/**
+ * Submit every queued attempt belonging to the signed-in user. Attempts that
+ * clash with a submission made elsewhere are marked as conflicts and left
+ * for the user to resolve.
+ */
+export async function syncPendingAttempts(): Promise<SyncSummary> {
+  const summary: SyncSummary = { synced: [], conflicts: [], failed: 0 };
+  if (!navigator.onLine) return summary;
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return summary;
+
+  const pending = (await listAttempts()).filter(
+    a => a.status === 'pending_sync' && a.submission?.userId === user.id
+  );
+
+  for (const attempt of pending) {
+    try {
+      const { data: remote, error } = await supabase
+        .from(SUBMISSION_TABLES[attempt.module])
+        .select('id, score, total_questions, completed_at')
+        .eq('user_id', user.id)
+        .eq('test_id', attempt.testId)
+        .gte('completed_at', attempt.startedAt);
+      if (error) throw error;
+
+      const conflict = findConflictingSubmission(attempt, remote || []);
+      if (conflict) {
+        const flagged: OfflineAttempt = { ...attempt, status: 'conflict', conflict };
+        await saveAttempt(flagged);
+        summary.conflicts.push(flagged);
+        continue;
+      }
+
+      await insertSubmission(attempt);
+      await deleteAttempt(attempt.key);
+      summary.synced.push(attempt);
+    } catch (error) {
+      console.error(`[offlineTests] Failed to sync ${attempt.key}:`, error);
+      summary.failed++;
+    }
+  }
+
+  return summary;
+}
+
+/** Conflicted attempts waiting for the user to choose what to keep */
+export async function getConflictedAttempts(): Promise<OfflineAttempt[]> {
+  return (await listAttempts()).filter(a => a.status === 'conflict');
+}
+
+/** "keep" submits the offline attempt alongside the other one; "discard" drops it */
+export async function resolveConflict(attempt: OfflineAttempt, choice: 'keep' | 'discard'): Promise<void> {
+  if (choice === 'keep') await insertSubmission(attempt);
+  await deleteAttempt(attempt.key);
+}
@@ -0,0 +1,240 @@
+/**
+ * Plan Tiers
+ *
+ * What each plan includes lives in `plan_tiers` rather than in code: the daily
+ * credit limit, the credit cost of each AI operation, the modules it unlocks and
+ * the model tiers it may use. A user's plan is the tier of their active
+ * subscription, else the default tier (`get_user_plan`).
+ * `check_and_reserve_credits` enforces it on the server; `useAccessControl`
+ * exposes it to the UI. Admins edit tiers in Admin Settings.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { OPERATION_LABELS } from './creditLedger';
+
+export type PlanTier = Tables<'plan_tiers'>;
+export type PlanModule = 'reading' | 'listening' | 'writing' | 'speaking';
+export type ModelTier = 'flash' | 'pro';
+
+export const PLAN_MODULES: PlanModule[] = ['reading', 'listening', 'writing', 'speaking'];
+
+export const MODEL_TIER_LABELS: Record<ModelTier, string> = {
+  flash: 'Flash models',
+  pro: 'Pro models',
+};
+
+/** Operations with a configurable cost; anything not priced by a plan is free */
+export const PRICED_OPERATIONS = [
+  'generate_reading',
+  'generate_listening',
+  'generate_writing',
+  'generate_speaking',
+  'evaluate_writing',
+  'evaluate_speaking',
+  'explain_answer',
+] as const;
+
+export type PricedOperation = typeof PRICED_OPERATIONS[number];
+
+export const operationLabel = (operation: string) => OPERATION_LABELS[operation] ?? operation;
+
+export interface PlanFeature {
+  text: string;
+  included: boolean;
+}
+
+/** Module an operation belongs to, e.g. generate_speaking → speaking */
+export function operationModule(operation: string): PlanModule | null {
+  const match = operation.match(/^(?:generate|evaluate)_(reading|listening|writing|speaking)$/);
+  return match ? (match[1] as PlanModule) : null;
+}
+
+/** No plan (still loading, or none configured) does not lock anything */
+export function canUseModule(plan: Pick<PlanTier, 'allowed_modules'> | null, module: string): boolean {
+  return !plan || plan.allowed_modules.includes(module);
+}
+
+export function parseOperationCosts(value: Json): Record<string, number> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return {};
+  const costs: Record<string, number> = {};
+  for (const [operation, cost] of Object.entries(value)) {
+    if (typeof cost === 'number' && Number.isFinite(cost)) costs[operation] = cost;
+  }
+  return costs;
+}
+
+export function operationCost(plan: Pick<PlanTier, 'operation_costs'>, operation: string): number {
+  return parseOperationCosts(plan.operation_costs)[operation] ?? 0;
+}
+
+export function parseFeatures(value: Json): PlanFeature[] {
+  if (!Array.isArray(value)) return [];
+  return value.flatMap(item => {
+    if (!item || typeof item !== 'object' || Array.isArray(item) || typeof item.text !== 'string') return [];
+    return [{ text: item.text, included: item.included !== false }];
+  });
+}
+
+/** Features as edited in a textarea: one per line, "-" in front for not included */
+export function formatFeatureLines(features: PlanFeature[]): string {
+  return features.map(feature => (feature.included ? feature.text : `- ${feature.text}`)).join('\n');
+}
+
+export function parseFeatureLines(text: string): PlanFeature[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => (line.startsWith('-') ? { text: line.slice(1).trim(), included: false } : { text: line, included: true }));
+}
+
+/** A tier as edited in the admin form */
+export interface PlanTierDraft {
+  id?: string;
+  slug: string;
+  name: string;
+  description: string;
+  price: number;
+  currency: string;
+  duration_days: number | null;
+  period_label: string;
+  daily_credit_limit: number;
+  operation_costs: Record<string, number>;
+  allowed_modules: PlanModule[];
+  model_tiers: ModelTier[];
+  features: PlanFeature[];
+  is_default: boolean;
+  is_featured: boolean;
+  is_active: boolean;
+  sort_order: number;
+}
+
+export function emptyPlanTierDraft(sortOrder: number): PlanTierDraft {
+  return {
+    slug: '',
+    name: '',
+    description: '',
+    price: 0,
+    currency: 'BDT',
+    duration_days: 30,
+    period_label: '/month',
+    daily_credit_limit: 100,
+    operation_costs: {},
+    allowed_modules: [...PLAN_MODULES],
+    model_tiers: ['flash', 'pro'],
+    features: [],
+    is_default: false,
+    is_featured: false,
+    is_active: true,
+    sort_order: sortOrder,
+  };
+}
+
+export function toPlanTierDraft(tier: PlanTier): PlanTierDraft {
+  return {
+    id: tier.id,
+    slug: tier.slug,
+    name: tier.name,
+    description: tier.description ?? '',
+    price: tier.price,
+    currency: tier.currency,
+    duration_days: tier.duration_days,
+    period_label: tier.period_label ?? '',
+    daily_credit_limit: tier.daily_credit_limit,
+    operation_costs: parseOperationCosts(tier.operation_costs),
+    allowed_modules: PLAN_MODULES.filter(module => tier.allowed_modules.includes(module)),
+    model_tiers: (['flash', 'pro'] as ModelTier[]).filter(modelTier => tier.model_tiers.includes(modelTier)),
+    features: parseFeatures(tier.features),
+    is_default: tier.is_default,
+    is_featured: tier.is_featured,
+    is_active: tier.is_active,
+    sort_order: tier.sort_order,
+  };
+}
+
+/** Problems that would stop the draft from being saved; empty when it is valid */
+export function validatePlanTier(draft: PlanTierDraft, others: Pick<PlanTier, 'id' | 'slug'>[]): string[] {
+  const errors: string[] = [];
+  if (!/^[a-z0-9_]+$/.test(draft.slug)) errors.push('Slug must be lowercase letters, numbers and underscores');
+  if (others.some(tier => tier.id !== draft.id && tier.slug === draft.slug)) errors.push(`Another plan already uses "${draft.slug}"`);
+  if (!draft.name.trim()) errors.push('Name is required');
+  if (!(draft.price >= 0)) errors.push('Price cannot be negative');
+  if (draft.price > 0 && !(draft.duration_days && draft.duration_days > 0)) errors.push('A paid plan needs a duration in days');
+  if (!Number.isInteger(draft.daily_credit_limit) || draft.daily_credit_limit < 0) {
+    errors.push('Daily credit limit must be a whole number of 0 or more');
+  }
+  for (const [operation, cost] of Object.entries(draft.operation_costs)) {
+    if (!Number.isInteger(cost) || cost < 0) errors.push(`${operationLabel(operation)}: cost must be a whole number of 0 or more`);
+  }
+  if (draft.allowed_modules.length === 0) errors.push('Allow at least one module');
+  if (draft.model_tiers.length === 0) errors.push('Allow at least one model tier');
+  return errors;
+}
+
+function fromPlanTierDraft(draft: PlanTierDraft): TablesInsert<'plan_tiers'> {
+  return {
+    slug: draft.slug,
+    name: draft.name.trim(),
+    description: draft.description.trim() || null,
+    price: draft.price,
+    currency: draft.currency,
+    duration_days: draft.price > 0 ? draft.duration_days : null,
+    period_label: draft.period_label.trim() || null,
+    daily_credit_limit: draft.daily_credit_limit,
+    operation_costs: draft.operation_costs,
+    allowed_modules: draft.allowed_modules,
+    model_tiers: draft.model_tiers,
+    features: draft.features as unknown as Json,
+    is_default: draft.is_default,
+    is_featured: draft.is_featured,
+    is_active: draft.is_active,
+    sort_order: draft.sort_order,
+  };
+}
+
+export async function loadPlanTiers(): Promise<PlanTier[]> {
+  const { data, error } = await supabase
+    .from('plan_tiers')
+    .select('*')
+    .order('sort_order');
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Plans on sale, for the pricing page */
+export async function loadPublicPlanTiers(): Promise<PlanTier[]> {
+  const { data, error } = await supabase
+    .from('plan_tiers')
+    .select('*')
+    .eq('is_active', true)
+    .order('sort_order');
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function savePlanTier(draft: PlanTierDraft): Promise<PlanTier> {
+  // Only one default tier is allowed, so hand it over before saving the new one
+  if (draft.is_default) {
+    const { error } = await supabase
+      .from('plan_tiers')
+      .update({ is_default: false })
+      .eq('is_default', true)
+      .neq('id', draft.id ?? '00000000-0000-0000-0000-000000000000');
+    if (error) throw error;
+  }
+
+  const row = fromPlanTierDraft(draft);
+  const { data, error } = draft.id
+    ? await supabase.from('plan_tiers').update(row).eq('id', draft.id).select().single()
+    : await supabase.from('plan_tiers').insert(row).select().single();
+  if (error) throw error;
+  return data;
+}
+
+/** The plan that applies to the signed-in user now */
+export async function getUserPlan(): Promise<PlanTier | null> {
+  const { data, error } = await supabase.rpc('get_user_plan');
+  if (error) throw error;
+  return (data as unknown as PlanTier | null) ?? null;
+}
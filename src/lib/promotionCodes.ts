@@ -0,0 +1,232 @@
+/**
+ * Promotion Codes
+ *
+ * A code grants a percentage off a plan's first payment (entered at checkout
+ * and applied by `create-checkout`), purchased credits, or free access to a
+ * plan for a number of days (both redeemed in Settings through
+ * `redeem_promotion_code`). Codes have a validity window, total and per-user
+ * redemption limits, and may be restricted to plans or to plans with certain
+ * modules. Every use is a row in `promotion_redemptions`;
+ * `get_promotion_code_stats` sums them per code for the admin page.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Database, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { PLAN_MODULES, PlanModule, PlanTier } from './planTiers';
+
+export type PromotionCode = Tables<'promotion_codes'>;
+export type PromotionCodeStats = Database['public']['Functions']['get_promotion_code_stats']['Returns'][number];
+export type PromotionGrantType = 'percent_off' | 'credits' | 'plan_access';
+export type PromotionCodeStatus = 'active' | 'scheduled' | 'expired' | 'used_up' | 'inactive';
+
+export const GRANT_TYPE_LABELS: Record<PromotionGrantType, string> = {
+  percent_off: 'Discount',
+  credits: 'Credits',
+  plan_access: 'Plan access',
+};
+
+const ERROR_MESSAGES: Record<string, string> = {
+  NOT_SIGNED_IN: 'Sign in to use a promotion code.',
+  CODE_NOT_FOUND: 'That code does not exist. Check it and try again.',
+  CODE_INACTIVE: 'This code is no longer available.',
+  CODE_NOT_STARTED: 'This code cannot be used yet.',
+  CODE_EXPIRED: 'This code has expired.',
+  CODE_EXHAUSTED: 'This code has been fully redeemed.',
+  USER_LIMIT_REACHED: 'You have already used this code.',
+  PLAN_NOT_ELIGIBLE: 'This code does not apply to this plan.',
+  USE_AT_CHECKOUT: 'This is a discount code. Enter it when you choose a plan.',
+  REDEEM_IN_SETTINGS: 'This code is not a discount. Redeem it in Settings.',
+};
+
+export function promotionErrorMessage(errorType: string | null | undefined): string {
+  return (errorType && ERROR_MESSAGES[errorType]) || 'This code could not be used.';
+}
+
+/** Codes are stored upper case; users may type them any way */
+export const normalizeCode = (code: string) => code.trim().toUpperCase();
+
+export function generateCode(prefix = 'IELTS'): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+  let code = `${prefix}-`;
+  for (let i = 0; i < 8; i++) {
+    code += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return code;
+}
+
+/** Where a code stands now; stats are needed to tell when it is used up */
+export function promotionStatus(
+  code: Pick<PromotionCode, 'is_active' | 'starts_at' | 'expires_at' | 'max_redemptions'>,
+  stats: Pick<PromotionCodeStats, 'redemptions' | 'pending_redemptions'> | undefined,
+  now: Date = new Date()
+): PromotionCodeStatus {
+  if (!code.is_active) return 'inactive';
+  if (code.expires_at && new Date(code.expires_at) <= now) return 'expired';
+  if (new Date(code.starts_at) > now) return 'scheduled';
+  const used = (stats?.redemptions ?? 0) + (stats?.pending_redemptions ?? 0);
+  if (code.max_redemptions !== null && used >= code.max_redemptions) return 'used_up';
+  return 'active';
+}
+
+export function describeGrant(
+  code: Pick<PromotionCode, 'grant_type' | 'percent_off' | 'credits' | 'plan_tier_id' | 'duration_days'>,
+  plans: Pick<PlanTier, 'id' | 'name'>[]
+): string {
+  switch (code.grant_type) {
+    case 'percent_off':
+      return `${code.percent_off}% off first payment`;
+    case 'credits':
+      return `${code.credits} credits`;
+    default: {
+      const plan = plans.find(p => p.id === code.plan_tier_id);
+      return `${plan?.name ?? 'Plan'} for ${code.duration_days} days`;
+    }
+  }
+}
+
+/** Share of redeemers who went on to buy a paid plan, or null before anyone redeemed */
+export function conversionRate(stats: Pick<PromotionCodeStats, 'unique_users' | 'converted_users'> | undefined): number | null {
+  if (!stats || stats.unique_users === 0) return null;
+  return stats.converted_users / stats.unique_users;
+}
+
+/** A code as edited in the admin form */
+export interface PromotionCodeDraft {
+  code: string;
+  description: string;
+  grant_type: PromotionGrantType;
+  percent_off: number;
+  credits: number;
+  plan_tier_id: string;
+  duration_days: number;
+  max_redemptions: number | null;
+  per_user_limit: number;
+  starts_at: string;
+  expires_at: string;
+  eligible_plan_ids: string[];
+  eligible_modules: PlanModule[];
+}
+
+export function emptyPromotionCodeDraft(): PromotionCodeDraft {
+  return {
+    code: '',
+    description: '',
+    grant_type: 'percent_off',
+    percent_off: 20,
+    credits: 100,
+    plan_tier_id: '',
+    duration_days: 30,
+    max_redemptions: null,
+    per_user_limit: 1,
+    starts_at: '',
+    expires_at: '',
+    eligible_plan_ids: [],
+    eligible_modules: [],
+  };
+}
+
+const isWhole = (value: number, min: number) => Number.isInteger(value) && value >= min;
+
+/** Problems that would stop the draft from being saved; empty when it is valid */
+export function validatePromotionCodeDraft(draft: PromotionCodeDraft, existingCodes: string[], count = 1): string[] {
+  const errors: string[] = [];
+  const code = normalizeCode(draft.code);
+  if (count === 1 && !/^[A-Z0-9_-]{3,32}$/.test(code)) {
+    errors.push('Code must be 3-32 letters, numbers, dashes or underscores');
+  }
+  if (count === 1 && existingCodes.includes(code)) errors.push(`"${code}" already exists`);
+  if (!isWhole(count, 1) || count > 50) errors.push('Generate between 1 and 50 codes at a time');
+
+  if (draft.grant_type === 'percent_off' && !(isWhole(draft.percent_off, 1) && draft.percent_off <= 99)) {
+    errors.push('Discount must be a whole percentage from 1 to 99');
+  }
+  if (draft.grant_type === 'credits' && !isWhole(draft.credits, 1)) errors.push('Credits must be a whole number above 0');
+  if (draft.grant_type === 'plan_access') {
+    if (!draft.plan_tier_id) errors.push('Choose the plan the code gives access to');
+    if (!isWhole(draft.duration_days, 1)) errors.push('Access must last at least 1 day');
+  }
+
+  if (draft.max_redemptions !== null && !isWhole(draft.max_redemptions, 1)) {
+    errors.push('Total redemptions must be a whole number above 0, or empty for no limit');
+  }
+  if (!isWhole(draft.per_user_limit, 1)) errors.push('Uses per user must be a whole number above 0');
+  if (draft.starts_at && draft.expires_at && new Date(draft.expires_at) <= new Date(draft.starts_at)) {
+    errors.push('Expiry must be after the start date');
+  }
+  if (draft.eligible_modules.some(module => !PLAN_MODULES.includes(module))) errors.push('Unknown module');
+  return errors;
+}
+
+function fromDraft(draft: PromotionCodeDraft, code: string, createdBy: string): TablesInsert<'promotion_codes'> {
+  return {
+    code,
+    description: draft.description.trim() || null,
+    grant_type: draft.grant_type,
+    percent_off: draft.grant_type === 'percent_off' ? draft.percent_off : null,
+    credits: draft.grant_type === 'credits' ? draft.credits : null,
+    plan_tier_id: draft.grant_type === 'plan_access' ? draft.plan_tier_id : null,
+    duration_days: draft.grant_type === 'plan_access' ? draft.duration_days : null,
+    max_redemptions: draft.max_redemptions,
+    per_user_limit: draft.per_user_limit,
+    ...(draft.starts_at ? { starts_at: new Date(draft.starts_at).toISOString() } : {}),
+    expires_at: draft.expires_at ? new Date(draft.expires_at).toISOString() : null,
+    eligible_plan_ids: draft.eligible_plan_ids,
+    eligible_modules: draft.eligible_modules,
+    created_by: createdBy,
+  };
+}
+
+export async function loadPromotionCodes(): Promise<PromotionCode[]> {
+  const { data, error } = await supabase
+    .from('promotion_codes')
+    .select('*')
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function loadPromotionStats(): Promise<Record<string, PromotionCodeStats>> {
+  const { data, error } = await supabase.rpc('get_promotion_code_stats');
+  if (error) throw error;
+  return Object.fromEntries((data ?? []).map(row => [row.promotion_code_id, row]));
+}
+
+/** Creates the draft's code, or `count` random codes with the same settings */
+export async function createPromotionCodes(draft: PromotionCodeDraft, count: number, createdBy: string): Promise<PromotionCode[]> {
+  const codes = count === 1 && draft.code.trim()
+    ? [normalizeCode(draft.code)]
+    : Array.from({ length: count }, () => generateCode());
+  const { data, error } = await supabase
+    .from('promotion_codes')
+    .insert(codes.map(code => fromDraft(draft, code, createdBy)))
+    .select();
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function setPromotionCodeActive(id: string, isActive: boolean): Promise<void> {
+  const { error } = await supabase.from('promotion_codes').update({ is_active: isActive }).eq('id', id);
+  if (error) throw error;
+}
+
+/** Only codes nobody has used can be deleted; the rest are deactivated */
+export async function deletePromotionCode(id: string): Promise<void> {
+  const { error } = await supabase.from('promotion_codes').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export interface RedeemResult {
+  ok: boolean;
+  error_type?: string;
+  grant_type?: PromotionGrantType;
+  credits?: number | null;
+  plan_name?: string | null;
+  end_date?: string | null;
+}
+
+/** Redeems a credit or plan access code for the signed-in user */
+export async function redeemPromotionCode(code: string): Promise<RedeemResult> {
+  const { data, error } = await supabase.rpc('redeem_promotion_code', { p_code: normalizeCode(code) });
+  if (error) throw error;
+  return data as unknown as RedeemResult;
+}
@@ -0,0 +1,168 @@
+/**
+ * Prompt Templates
+ *
+ * Versioned prompt templates for the AI edge functions. Every templated
+ * prompt has a built-in template in code; admins add numbered versions and
+ * roll them out by weight. Each request picks one active version in
+ * proportion to its weight (supabase/functions/_shared/promptTemplates.ts),
+ * falling back to the built-in template when none is active, and records it
+ * as "<key>@v<n>" or "<key>@builtin" on model_performance_logs and on the
+ * evaluation result. Rolling back is deactivating a version.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Database, Tables } from '@/integrations/supabase/types';
+
+export type PromptKey =
+  | 'reading_generation'
+  | 'listening_generation'
+  | 'speaking_text_evaluation'
+  | 'speaking_audio_evaluation'
+  | 'writing_submission_evaluation'
+  | 'practice_writing_evaluation'
+  | 'full_writing_test_evaluation';
+
+export type PromptTemplate = Tables<'prompt_templates'>;
+export type PromptVersionStats = Database['public']['Functions']['get_prompt_version_stats']['Returns'][number];
+
+/** A templated prompt as defined in the edge function code */
+export interface PromptDefinition {
+  key: PromptKey;
+  label: string;
+  /** Variables the calling code supplies, with a short description */
+  variables: Record<string, string>;
+  builtin: string;
+}
+
+export const BUILTIN_VERSION = 'builtin';
+
+// ============================================================================
+// TEMPLATES
+// ============================================================================
+
+// Same placeholder syntax as the edge functions; numbered gap markers like {{1}} are not variables
+const PLACEHOLDER = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/g;
+
+export function templateVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER), match => match[1]))];
+}
+
+export interface TemplateCheck {
+  /** Used in the template but not supplied by the code: the version would never render */
+  unknown: string[];
+  /** Supplied by the code but not used: usually a dropped section */
+  unused: string[];
+}
+
+export function checkTemplate(template: string, definition: PromptDefinition): TemplateCheck {
+  const used = templateVariables(template);
+  const offered = Object.keys(definition.variables);
+  return {
+    unknown: used.filter(name => !offered.includes(name)),
+    unused: offered.filter(name => !used.includes(name)),
+  };
+}
+
+export function formatPromptVersion(key: string, version: number | null): string {
+  return `${key}@${version === null ? BUILTIN_VERSION : `v${version}`}`;
+}
+
+/** Inverse of formatPromptVersion; null for versions recorded before prompt templates */
+export function parsePromptVersion(value: string): { key: string; version: number | null } | null {
+  const match = value.match(/^([a-z_]+)@(?:v(\d+)|(builtin))$/);
+  if (!match) return null;
+  return { key: match[1], version: match[3] ? null : Number(match[2]) };
+}
+
+export function nextVersionNumber(templates: Pick<PromptTemplate, 'version'>[]): number {
+  return templates.reduce((max, t) => Math.max(max, t.version), 0) + 1;
+}
+
+export interface RolloutShare {
+  /** null for the built-in template */
+  version: number | null;
+  share: number;
+}
+
+/**
+ * The share of requests each version gets: active versions in proportion to
+ * their weight, or everything to the built-in template when no active version
+ * has weight.
+ */
+export function rolloutShares(templates: Pick<PromptTemplate, 'version' | 'weight' | 'is_active'>[]): RolloutShare[] {
+  const live = templates.filter(t => t.is_active && t.weight > 0);
+  const total = live.reduce((sum, t) => sum + t.weight, 0);
+  if (total === 0) return [{ version: null, share: 1 }];
+  return live
+    .map(t => ({ version: t.version, share: t.weight / total }))
+    .sort((a, b) => b.share - a.share || b.version - a.version);
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+export async function loadPromptDefinitions(): Promise<PromptDefinition[]> {
+  const { data, error } = await supabase.functions.invoke('prompt-templates', { body: {} });
+  if (error) throw error;
+  const response = data as { definitions?: PromptDefinition[]; error?: string } | null;
+  if (!response?.definitions) throw new Error(response?.error || 'Failed to load prompt definitions');
+  return response.definitions;
+}
+
+export async function loadPromptTemplates(key?: PromptKey): Promise<PromptTemplate[]> {
+  let query = supabase.from('prompt_templates').select('*');
+  if (key) query = query.eq('prompt_key', key);
+  const { data, error } = await query.order('version', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Saved inactive with no weight; it takes traffic once an admin rolls it out */
+export async function createPromptTemplate(
+  key: PromptKey,
+  template: string,
+  notes: string,
+  createdBy: string
+): Promise<PromptTemplate> {
+  const existing = await loadPromptTemplates(key);
+  const { data, error } = await supabase
+    .from('prompt_templates')
+    .insert({
+      prompt_key: key,
+      version: nextVersionNumber(existing),
+      template,
+      notes: notes.trim() || null,
+      created_by: createdBy,
+    })
+    .select()
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function updatePromptRollout(templateId: string, rollout: { weight?: number; is_active?: boolean }): Promise<void> {
+  const { error } = await supabase.from('prompt_templates').update(rollout).eq('id', templateId);
+  if (error) throw error;
+}
+
+/** Send every request for the prompt back to the built-in template */
+export async function rollBackToBuiltin(key: PromptKey): Promise<void> {
+  const { error } = await supabase
+    .from('prompt_templates')
+    .update({ is_active: false })
+    .eq('prompt_key', key)
+    .eq('is_active', true);
+  if (error) throw error;
+}
+
+export async function deletePromptTemplate(templateId: string): Promise<void> {
+  const { error } = await supabase.from('prompt_templates').delete().eq('id', templateId);
+  if (error) throw error;
+}
+
+export async function loadPromptVersionStats(days = 30): Promise<PromptVersionStats[]> {
+  const { data, error } = await supabase.rpc('get_prompt_version_stats', { p_days: days });
+  if (error) throw error;
+  return data ?? [];
+}
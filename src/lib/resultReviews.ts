@@ -0,0 +1,285 @@
+/**
+ * Result Reviews
+ *
+ * Human examiner review of AI-scored writing submissions and speaking
+ * results. A student flags a result, an admin or the student's teacher
+ * re-scores each criterion next to the AI rubric, and each completed review
+ * is stored as a new version in `result_review_versions`. The AI-vs-human
+ * gap is logged to `model_performance_logs` by `complete_result_review`.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import { Json, Tables } from '@/integrations/supabase/types';
+import { calculateOverallBand } from './mockExam';
+
+export type ReviewSourceType = 'writing_submission' | 'speaking_result';
+export type ReviewStatus = 'pending' | 'in_review' | 'completed' | 'dismissed';
+export type ResultReview = Tables<'result_reviews'>;
+export type ResultReviewVersion = Tables<'result_review_versions'>;
+
+export interface ReviewCriterionDefinition {
+  key: string;
+  label: string;
+}
+
+export const REVIEW_CRITERIA: Record<ReviewSourceType, ReviewCriterionDefinition[]> = {
+  writing_submission: [
+    { key: 'task_achievement_response', label: 'Task Achievement / Response' },
+    { key: 'coherence_and_cohesion', label: 'Coherence & Cohesion' },
+    { key: 'lexical_resource', label: 'Lexical Resource' },
+    { key: 'grammatical_range_and_accuracy', label: 'Grammatical Range & Accuracy' },
+  ],
+  speaking_result: [
+    { key: 'fluency_coherence', label: 'Fluency & Coherence' },
+    { key: 'lexical_resource', label: 'Lexical Resource' },
+    { key: 'grammatical_range', label: 'Grammatical Range & Accuracy' },
+    { key: 'pronunciation', label: 'Pronunciation' },
+  ],
+};
+
+export const REVIEW_STATUS_LABELS: Record<ReviewStatus, string> = {
+  pending: 'Waiting for an examiner',
+  in_review: 'Being reviewed',
+  completed: 'Reviewed',
+  dismissed: 'Dismissed',
+};
+
+/** One criterion as the reviewer scores it */
+export interface CriterionAdjustment {
+  band: number;
+  comment: string;
+}
+
+export type CriterionAdjustments = Record<string, CriterionAdjustment>;
+
+/** AI band per criterion key, as snapshotted when the review was requested */
+export function getAiCriterionBands(review: Pick<ResultReview, 'ai_criteria'>): Record<string, number> {
+  const raw = review.ai_criteria;
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return {};
+  const bands: Record<string, number> = {};
+  for (const [key, value] of Object.entries(raw)) {
+    const band = Number(value);
+    if (value !== null && Number.isFinite(band)) bands[key] = band;
+  }
+  return bands;
+}
+
+/** Reviewer's starting point: every criterion pre-filled with the AI band */
+export function initialAdjustments(review: Pick<ResultReview, 'source_type' | 'ai_criteria'>): CriterionAdjustments {
+  const aiBands = getAiCriterionBands(review);
+  const adjustments: CriterionAdjustments = {};
+  for (const { key } of REVIEW_CRITERIA[review.source_type as ReviewSourceType] ?? []) {
+    if (aiBands[key] !== undefined) adjustments[key] = { band: aiBands[key], comment: '' };
+  }
+  return adjustments;
+}
+
+/** Overall band from the criterion bands; null until every criterion is scored */
+export function overallFromAdjustments(sourceType: ReviewSourceType, adjustments: CriterionAdjustments): number | null {
+  return calculateOverallBand(REVIEW_CRITERIA[sourceType].map(({ key }) => adjustments[key]?.band));
+}
+
+/** Human minus AI band for each criterion the AI scored */
+export function criterionDeltas(aiBands: Record<string, number>, adjustments: CriterionAdjustments): Record<string, number> {
+  const deltas: Record<string, number> = {};
+  for (const [key, adjustment] of Object.entries(adjustments)) {
+    if (aiBands[key] !== undefined) deltas[key] = adjustment.band - aiBands[key];
+  }
+  return deltas;
+}
+
+/** Read back a stored version's criteria */
+export function parseVersionCriteria(criteria: Json): CriterionAdjustments {
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) return {};
+  const adjustments: CriterionAdjustments = {};
+  for (const [key, value] of Object.entries(criteria)) {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) continue;
+    const band = Number(value.band);
+    if (!Number.isFinite(band)) continue;
+    adjustments[key] = { band, comment: typeof value.comment === 'string' ? value.comment : '' };
+  }
+  return adjustments;
+}
+
+// ============================================================================
+// SNAPSHOT
+// ============================================================================
+
+type JsonRecord = Record<string, unknown>;
+
+const asRecord = (value: unknown): JsonRecord | null =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as JsonRecord) : null;
+
+const asString = (value: unknown): string | null => (typeof value === 'string' && value.trim() ? value : null);
+
+const asStringMap = (value: unknown): Record<string, string> => {
+  const record = asRecord(value) ?? {};
+  return Object.fromEntries(
+    Object.entries(record).filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+  );
+};
+
+/** What the reviewer sees next to the rubric, copied from the source by `request_result_review` */
+export interface ReviewSnapshot {
+  taskType: string | null;
+  instruction: string | null;
+  imageUrl: string | null;
+  submissionText: string | null;
+  wordCount: number | null;
+  audioUrls: Record<string, string>;
+  transcriptsByPart: Record<string, string>;
+  report: JsonRecord | null;
+}
+
+export function parseReviewSnapshot(snapshot: Json): ReviewSnapshot {
+  const raw = asRecord(snapshot) ?? {};
+  return {
+    taskType: asString(raw.task_type),
+    instruction: asString(raw.instruction),
+    imageUrl: asString(raw.image_url),
+    submissionText: asString(raw.submission_text),
+    wordCount: typeof raw.word_count === 'number' ? raw.word_count : null,
+    audioUrls: asStringMap(raw.audio_urls),
+    transcriptsByPart: asStringMap(raw.transcripts_by_part),
+    report: asRecord(raw.report),
+  };
+}
+
+/**
+ * The AI's notes on one criterion. Writing reports keep criteria at the top
+ * level with strengths / weaknesses as text; speaking reports nest them under
+ * `criteria` with a feedback string and lists.
+ */
+export function getAiCriterionFeedback(sourceType: ReviewSourceType, report: JsonRecord | null, key: string): string[] {
+  if (!report) return [];
+  const criterion = asRecord(sourceType === 'writing_submission' ? report[key] : asRecord(report.criteria)?.[key]);
+  if (!criterion) return [];
+
+  const notes: string[] = [];
+  for (const field of ['feedback', 'strengths', 'weaknesses']) {
+    const value = criterion[field];
+    if (Array.isArray(value)) {
+      notes.push(...value.filter((item): item is string => typeof item === 'string' && item.trim() !== ''));
+    } else if (asString(value)) {
+      notes.push(value as string);
+    }
+  }
+  return notes;
+}
+
+// ============================================================================
+// STUDENT
+// ============================================================================
+
+interface RpcResponse {
+  ok: boolean;
+  error?: string;
+  review_id?: string;
+  version?: number;
+}
+
+export async function requestResultReview(sourceType: ReviewSourceType, sourceId: string, reason: string): Promise<string> {
+  const { data, error } = await supabase.rpc('request_result_review', {
+    p_source_type: sourceType,
+    p_source_id: sourceId,
+    p_reason: reason,
+  });
+  if (error) throw error;
+  const response = data as unknown as RpcResponse;
+  if (!response?.ok || !response.review_id) {
+    throw new Error(response?.error || 'Could not request a review');
+  }
+  return response.review_id;
+}
+
+export async function withdrawResultReview(reviewId: string): Promise<void> {
+  const { error } = await supabase.from('result_reviews').delete().eq('id', reviewId);
+  if (error) throw error;
+}
+
+export interface ReviewWithVersion {
+  review: ResultReview;
+  latest: ResultReviewVersion | null;
+}
+
+export async function loadReviewForSource(sourceType: ReviewSourceType, sourceId: string): Promise<ReviewWithVersion | null> {
+  const { data: review, error } = await supabase
+    .from('result_reviews')
+    .select('*')
+    .eq('source_type', sourceType)
+    .eq('source_id', sourceId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!review) return null;
+
+  const versions = await loadReviewVersions(review.id);
+  return { review, latest: versions[0] ?? null };
+}
+
+// ============================================================================
+// REVIEWERS
+// ============================================================================
+
+/** Open reviews first, oldest first, so the queue is worked in order */
+export async function loadReviewQueue(statuses: ReviewStatus[]): Promise<ResultReview[]> {
+  const { data, error } = await supabase
+    .from('result_reviews')
+    .select('*')
+    .in('status', statuses)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return data ?? [];
+}
+
+export async function loadReviewVersions(reviewId: string): Promise<ResultReviewVersion[]> {
+  const { data, error } = await supabase
+    .from('result_review_versions')
+    .select('*')
+    .eq('review_id', reviewId)
+    .order('version', { ascending: false });
+  if (error) throw error;
+  return data ?? [];
+}
+
+/** Assigns a pending request to the signed-in reviewer and returns it as it now stands */
+export async function claimReview(reviewId: string): Promise<ResultReview> {
+  const { data: claimed, error: claimError } = await supabase.rpc('claim_result_review', { p_review_id: reviewId });
+  if (claimError) throw claimError;
+  const response = claimed as unknown as RpcResponse;
+  if (!response?.ok) throw new Error(response?.error || 'Could not open this review');
+
+  const { data, error } = await supabase
+    .from('result_reviews')
+    .select('*')
+    .eq('id', reviewId)
+    .single();
+  if (error) throw error;
+  return data;
+}
+
+export async function dismissReview(reviewId: string): Promise<void> {
+  const { data, error } = await supabase.rpc('dismiss_result_review', { p_review_id: reviewId });
+  if (error) throw error;
+  const response = data as unknown as RpcResponse;
+  if (!response?.ok) throw new Error(response?.error || 'Could not dismiss the request');
+}
+
+export async function completeReview(
+  reviewId: string,
+  overallBand: number,
+  adjustments: CriterionAdjustments,
+  comment: string
+): Promise<number> {
+  const { data, error } = await supabase.rpc('complete_result_review', {
+    p_review_id: reviewId,
+    p_overall_band: overallBand,
+    p_criteria: adjustments as unknown as Json,
+    p_comment: comment,
+  });
+  if (error) throw error;
+  const response = data as unknown as RpcResponse;
+  if (!response?.ok || !response.version) {
+    throw new Error(response?.error || 'Could not save the review');
+  }
+  return response.version;
+}
@@ -0,0 +1,189 @@
+/**
+ * Spaced Repetition Scheduler (SM-2 variant)
+ *
+ * Schedules flashcard reviews using the SuperMemo-2 algorithm with the
+ * four-button grading used by Anki:
+ * - again: forgot the card (lapse), relearn tomorrow
+ * - hard:  recalled with difficulty, interval grows slowly
+ * - good:  normal recall, interval grows by the ease factor
+ * - easy:  effortless recall, interval grows faster
+ *
+ * The scheduling state lives on `flashcard_cards` (ease_factor, interval_days,
+ * repetitions, lapses, next_review_at). The legacy `status` column is derived
+ * from the interval so existing deck stats keep working.
+ */
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export type CardStatus = 'learning' | 'reviewing' | 'mastered';
+
+export interface SchedulingState {
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  next_review_at: string | null;
+  last_reviewed_at?: string | null;
+}
+
+export interface ScheduleResult extends SchedulingState {
+  status: CardStatus;
+  last_reviewed_at: string;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+export const DEFAULT_EASE_FACTOR = 2.5;
+export const MIN_EASE_FACTOR = 1.3;
+export const MAX_INTERVAL_DAYS = 365;
+
+/** Cards with an interval at or above this are considered mastered */
+export const MASTERED_INTERVAL_DAYS = 21;
+
+const EASE_DELTA: Record<ReviewGrade, number> = {
+  again: -0.2,
+  hard: -0.15,
+  good: 0,
+  easy: 0.15,
+};
+
+const HARD_INTERVAL_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const REVIEW_GRADES: ReviewGrade[] = ['again', 'hard', 'good', 'easy'];
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * Normalise a (possibly legacy) card row into a full scheduling state.
+ * Cards created before the scheduler existed have null SRS columns.
+ */
+export function getSchedulingState(card: Partial<SchedulingState>): SchedulingState {
+  return {
+    ease_factor: card.ease_factor ?? DEFAULT_EASE_FACTOR,
+    interval_days: card.interval_days ?? 0,
+    repetitions: card.repetitions ?? 0,
+    lapses: card.lapses ?? 0,
+    next_review_at: card.next_review_at ?? null,
+    last_reviewed_at: card.last_reviewed_at ?? null,
+  };
+}
+
+/** Derive the legacy learning/reviewing/mastered status from an interval */
+export function statusFromInterval(intervalDays: number, repetitions: number): CardStatus {
+  if (repetitions === 0 || intervalDays <= 1) return 'learning';
+  if (intervalDays >= MASTERED_INTERVAL_DAYS) return 'mastered';
+  return 'reviewing';
+}
+
+/** End of the local calendar day, used as the "due today" cutoff */
+export function endOfDay(now: Date = new Date()): Date {
+  const end = new Date(now);
+  end.setHours(23, 59, 59, 999);
+  return end;
+}
+
+/**
+ * A card is due when it has never been scheduled or its next review falls
+ * on or before the end of today.
+ */
+export function isCardDue(card: Pick<SchedulingState, 'next_review_at'>, now: Date = new Date()): boolean {
+  if (!card.next_review_at) return true;
+  return new Date(card.next_review_at).getTime() <= endOfDay(now).getTime();
+}
+
+/**
+ * Build the review queue for a deck: overdue cards first (most overdue at
+ * the front), followed by new cards that have never been reviewed.
+ */
+export function getDueCards<T extends Partial<SchedulingState>>(cards: T[], now: Date = new Date()): T[] {
+  const due = cards.filter(c => isCardDue({ next_review_at: c.next_review_at ?? null }, now));
+
+  const scheduled = due
+    .filter(c => c.next_review_at)
+    .sort((a, b) => new Date(a.next_review_at!).getTime() - new Date(b.next_review_at!).getTime());
+  const unseen = due.filter(c => !c.next_review_at);
+
+  return [...scheduled, ...unseen];
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+function clampInterval(days: number): number {
+  return Math.min(MAX_INTERVAL_DAYS, Math.max(1, Math.round(days)));
+}
+
+// ============================================================================
+// SCHEDULER
+// ============================================================================
+
+/**
+ * Compute the next interval (in days) for a grade without touching the
+ * rest of the state. Used for the "1d / 3d / 8d" hints under each button.
+ */
+export function getNextInterval(card: Partial<SchedulingState>, grade: ReviewGrade): number {
+  const state = getSchedulingState(card);
+
+  if (grade === 'again') return 1;
+
+  // First review: hard comes back tomorrow, good the day after
+  if (state.repetitions === 0) {
+    if (grade === 'hard') return 1;
+    if (grade === 'good') return 2;
+    return 4;
+  }
+
+  if (state.repetitions === 1) {
+    if (grade === 'hard') return clampInterval(Math.max(2, state.interval_days * HARD_INTERVAL_MULTIPLIER));
+    if (grade === 'good') return 6;
+    return clampInterval(6 * EASY_BONUS);
+  }
+
+  const ease = Math.max(MIN_EASE_FACTOR, state.ease_factor + EASE_DELTA[grade]);
+  const base = Math.max(1, state.interval_days);
+
+  if (grade === 'hard') return clampInterval(base * HARD_INTERVAL_MULTIPLIER);
+  if (grade === 'good') return clampInterval(base * ease);
+  return clampInterval(base * ease * EASY_BONUS);
+}
+
+/**
+ * Apply a review grade to a card and return the new scheduling state,
+ * ready to be written back to `flashcard_cards`.
+ */
+export function scheduleReview(
+  card: Partial<SchedulingState>,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ScheduleResult {
+  const state = getSchedulingState(card);
+  const interval = getNextInterval(state, grade);
+  const ease = Math.max(MIN_EASE_FACTOR, state.ease_factor + EASE_DELTA[grade]);
+
+  const repetitions = grade === 'again' ? 0 : state.repetitions + 1;
+  const lapses = grade === 'again' && state.repetitions > 0 ? state.lapses + 1 : state.lapses;
+
+  return {
+    ease_factor: Math.round(ease * 100) / 100,
+    interval_days: interval,
+    repetitions,
+    lapses,
+    next_review_at: addDays(now, interval).toISOString(),
+    last_reviewed_at: now.toISOString(),
+    status: statusFromInterval(interval, repetitions),
+  };
+}
+
+/** Human-readable interval for grade buttons, e.g. "1d", "3w", "4mo" */
+export function formatInterval(days: number): string {
+  if (days < 7) return `${days}d`;
+  if (days < 30) return `${Math.round(days / 7)}w`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${Math.round((days / 365) * 10) / 10}y`;
+}
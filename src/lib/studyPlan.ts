@@ -0,0 +1,529 @@
+/**
+ * Study Plan
+ *
+ * Question-type diagnosis and weekly drill plans. Per-question results from
+ * Cambridge submissions (`reading_test_submissions` / `listening_test_submissions`
+ * `question_results`) and AI practice (`ai_practice_results.question_results`)
+ * are grouped by question type into accuracy trends; the weakest types become
+ * a week of AI-practice drills plus daily flashcard reviews, stored in
+ * `study_plans`. Progress is derived from the week's practice results and
+ * flashcard reviews, so it never drifts from what was actually done.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Json, Tables } from '@/integrations/supabase/types';
+import { endOfDay } from './spacedRepetition';
+
+export type DiagnosisModule = 'reading' | 'listening';
+export type AttemptSource = 'cambridge' | 'ai';
+
+export const DIAGNOSIS_MODULES: DiagnosisModule[] = ['reading', 'listening'];
+
+/** One submission's results for one question type */
+export interface QuestionTypeAttempt {
+  module: DiagnosisModule;
+  questionType: string;
+  correct: number;
+  total: number;
+  completedAt: string;
+  source: AttemptSource;
+}
+
+export interface WeeklyAccuracy {
+  weekStart: string;
+  accuracy: number;
+}
+
+export interface QuestionTypeStats {
+  module: DiagnosisModule;
+  questionType: string;
+  correct: number;
+  total: number;
+  accuracy: number;
+  sessions: number;
+  /** Accuracy over the last TREND_WINDOW_DAYS, and the window before it */
+  recentAccuracy: number | null;
+  previousAccuracy: number | null;
+  trend: 'up' | 'down' | 'stable';
+  weekly: WeeklyAccuracy[];
+}
+
+export type StudyPlanItemKind = 'drill' | 'flashcards';
+
+export interface StudyPlanItem {
+  id: string;
+  kind: StudyPlanItemKind;
+  /** 0 = Monday ... 6 = Sunday */
+  day: number;
+  module?: DiagnosisModule;
+  questionType?: string;
+  /** Drill sessions, or flashcards to review */
+  target: number;
+}
+
+export interface StudyPlanFocus {
+  module: DiagnosisModule;
+  questionType: string;
+  accuracy: number;
+}
+
+export interface StudyPlan {
+  id?: string;
+  weekStart: string;
+  items: StudyPlanItem[];
+  focus: StudyPlanFocus[];
+}
+
+export interface PlanActivity {
+  drills: { module: DiagnosisModule; questionType: string; completedAt: string }[];
+  reviews: { reviewedAt: string }[];
+}
+
+export interface PlanItemProgress {
+  item: StudyPlanItem;
+  done: number;
+  complete: boolean;
+}
+
+export interface PlanProgress {
+  items: PlanItemProgress[];
+  done: number;
+  target: number;
+  percent: number;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+/** Fewer questions than this is too little to call a type weak */
+export const MIN_QUESTIONS_FOR_DIAGNOSIS = 5;
+/** Types at or above this accuracy are not drilled */
+export const STRONG_ACCURACY = 0.85;
+export const TREND_WINDOW_DAYS = 14;
+const TREND_THRESHOLD = 0.05;
+const TREND_WEEKS = 8;
+
+/** Drill days for the first, second and third weakest type */
+const DRILL_DAYS: number[][] = [[0, 2, 4], [1, 3], [5]];
+const FLASHCARD_DAILY_MIN = 5;
+const FLASHCARD_DAILY_MAX = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RESULT_LIMIT = 100;
+
+export const PLAN_DAY_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/** Question types AI practice can generate, i.e. the ones a drill can target */
+const DRILL_QUESTION_TYPES: Record<DiagnosisModule, string[]> = {
+  reading: [
+    'TRUE_FALSE_NOT_GIVEN', 'YES_NO_NOT_GIVEN', 'MATCHING_HEADINGS', 'MATCHING_INFORMATION',
+    'MATCHING_SENTENCE_ENDINGS', 'MULTIPLE_CHOICE', 'MULTIPLE_CHOICE_MULTIPLE', 'FILL_IN_BLANK',
+    'SUMMARY_COMPLETION', 'TABLE_COMPLETION', 'FLOWCHART_COMPLETION', 'MAP_LABELING',
+  ],
+  listening: [
+    'FILL_IN_BLANK', 'MULTIPLE_CHOICE_SINGLE', 'MULTIPLE_CHOICE_MULTIPLE', 'MATCHING_CORRECT_LETTER',
+    'TABLE_COMPLETION', 'FLOWCHART_COMPLETION', 'DRAG_AND_DROP_OPTIONS', 'MAP_LABELING',
+  ],
+};
+
+// Cambridge types with no AI-practice generator of their own are drilled with the closest one
+const DRILL_ALIASES: Record<DiagnosisModule, Record<string, string>> = {
+  reading: {
+    NOTE_COMPLETION: 'FILL_IN_BLANK',
+    SENTENCE_COMPLETION: 'FILL_IN_BLANK',
+    SHORT_ANSWER: 'FILL_IN_BLANK',
+    SUMMARY_WORD_BANK: 'SUMMARY_COMPLETION',
+  },
+  listening: {
+    NOTE_COMPLETION: 'FILL_IN_BLANK',
+    SENTENCE_COMPLETION: 'FILL_IN_BLANK',
+    SHORT_ANSWER: 'FILL_IN_BLANK',
+    FORM_COMPLETION: 'FILL_IN_BLANK',
+    SUMMARY_COMPLETION: 'FILL_IN_BLANK',
+    MATCHING: 'MATCHING_CORRECT_LETTER',
+  },
+};
+
+// ============================================================================
+// DIAGNOSIS
+// ============================================================================
+
+/** Map historical and per-module spellings onto the AI-practice question types */
+export function normalizeQuestionType(module: DiagnosisModule, raw: unknown): string | null {
+  const upper = String(raw ?? '').trim().toUpperCase();
+  if (!upper) return null;
+  if (upper === 'MAP_LABELLING') return 'MAP_LABELING';
+  if (upper === 'DRAG_AND_DROP') return 'DRAG_AND_DROP_OPTIONS';
+  if (module === 'reading' && upper === 'MULTIPLE_CHOICE_SINGLE') return 'MULTIPLE_CHOICE';
+  if (module === 'listening' && upper === 'MULTIPLE_CHOICE') return 'MULTIPLE_CHOICE_SINGLE';
+  return upper;
+}
+
+/** The AI-practice type that drills a diagnosed type, or null when none fits */
+export function drillQuestionType(module: DiagnosisModule, questionType: string): string | null {
+  const drillType = DRILL_ALIASES[module][questionType] ?? questionType;
+  return DRILL_QUESTION_TYPES[module].includes(drillType) ? drillType : null;
+}
+
+export function formatQuestionType(questionType: string): string {
+  return questionType
+    .toLowerCase()
+    .split('_')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+}
+
+interface StoredQuestionResult {
+  isCorrect?: boolean;
+  partialScore?: number;
+  maxScore?: number;
+  questionType?: string;
+}
+
+/**
+ * Split one submission's stored question results by question type. Results
+ * without their own type use the test's type; partial marks (MCMA) count as
+ * partialScore out of maxScore.
+ */
+export function attemptsFromQuestionResults(
+  module: DiagnosisModule,
+  questionResults: unknown,
+  fallbackType: string | null,
+  completedAt: string,
+  source: AttemptSource
+): QuestionTypeAttempt[] {
+  if (!Array.isArray(questionResults)) return [];
+
+  const byType = new Map<string, QuestionTypeAttempt>();
+  for (const raw of questionResults as StoredQuestionResult[]) {
+    if (!raw || typeof raw !== 'object') continue;
+    const questionType = normalizeQuestionType(module, raw.questionType ?? fallbackType);
+    if (!questionType) continue;
+
+    const total = typeof raw.maxScore === 'number' ? raw.maxScore : 1;
+    const correct = typeof raw.partialScore === 'number' ? raw.partialScore : raw.isCorrect ? total : 0;
+    const attempt = byType.get(questionType) ?? { module, questionType, correct: 0, total: 0, completedAt, source };
+    attempt.correct += correct;
+    attempt.total += total;
+    byType.set(questionType, attempt);
+  }
+  return [...byType.values()].filter(a => a.total > 0);
+}
+
+/** Monday of the date's week, as a local YYYY-MM-DD */
+export function getWeekStart(date: Date = new Date()): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return toDateKey(monday);
+}
+
+/** Local calendar date as YYYY-MM-DD */
+export function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Local midnight of a YYYY-MM-DD date */
+export function parseDateKey(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+function accuracyOf(attempts: QuestionTypeAttempt[]): number | null {
+  const total = attempts.reduce((sum, a) => sum + a.total, 0);
+  return total > 0 ? attempts.reduce((sum, a) => sum + a.correct, 0) / total : null;
+}
+
+/** Accuracy per module and question type, with a recent-vs-previous trend and weekly series */
+export function questionTypeStats(attempts: QuestionTypeAttempt[], now: Date = new Date()): QuestionTypeStats[] {
+  const groups = new Map<string, QuestionTypeAttempt[]>();
+  for (const attempt of attempts) {
+    const key = `${attempt.module}:${attempt.questionType}`;
+    groups.set(key, [...(groups.get(key) ?? []), attempt]);
+  }
+
+  const recentFrom = now.getTime() - TREND_WINDOW_DAYS * DAY_MS;
+  const previousFrom = recentFrom - TREND_WINDOW_DAYS * DAY_MS;
+  const firstWeek = parseDateKey(getWeekStart(now));
+  firstWeek.setDate(firstWeek.getDate() - (TREND_WEEKS - 1) * 7);
+
+  return [...groups.values()].map((group): QuestionTypeStats => {
+    const time = (a: QuestionTypeAttempt) => new Date(a.completedAt).getTime();
+    const recentAccuracy = accuracyOf(group.filter(a => time(a) >= recentFrom));
+    const previousAccuracy = accuracyOf(group.filter(a => time(a) >= previousFrom && time(a) < recentFrom));
+    const delta = recentAccuracy !== null && previousAccuracy !== null ? recentAccuracy - previousAccuracy : 0;
+
+    const weekly: WeeklyAccuracy[] = [];
+    for (let week = 0; week < TREND_WEEKS; week++) {
+      const start = new Date(firstWeek);
+      start.setDate(start.getDate() + week * 7);
+      const end = new Date(start);
+      end.setDate(end.getDate() + 7);
+      const accuracy = accuracyOf(group.filter(a => time(a) >= start.getTime() && time(a) < end.getTime()));
+      if (accuracy !== null) weekly.push({ weekStart: toDateKey(start), accuracy });
+    }
+
+    const correct = group.reduce((sum, a) => sum + a.correct, 0);
+    const total = group.reduce((sum, a) => sum + a.total, 0);
+    return {
+      module: group[0].module,
+      questionType: group[0].questionType,
+      correct,
+      total,
+      accuracy: correct / total,
+      sessions: group.length,
+      recentAccuracy,
+      previousAccuracy,
+      trend: delta >= TREND_THRESHOLD ? 'up' : delta <= -TREND_THRESHOLD ? 'down' : 'stable',
+      weekly,
+    };
+  });
+}
+
+/** The weak types with enough data, weakest first */
+export function findWeaknesses(stats: QuestionTypeStats[], limit = Infinity): QuestionTypeStats[] {
+  return stats
+    .filter(s => s.total >= MIN_QUESTIONS_FOR_DIAGNOSIS && s.accuracy < STRONG_ACCURACY)
+    .sort((a, b) => a.accuracy - b.accuracy || b.total - a.total)
+    .slice(0, limit);
+}
+
+// ============================================================================
+// PLANS
+// ============================================================================
+
+/**
+ * A week of drills for the weakest drillable types (three sessions for the
+ * weakest, two for the next, one for the third) plus a daily flashcard review
+ * sized to clear the cards due this week.
+ */
+export function buildWeeklyPlan(
+  weaknesses: QuestionTypeStats[],
+  flashcards: { dueCards: number; totalCards: number },
+  weekStart: string
+): StudyPlan {
+  const items: StudyPlanItem[] = [];
+  const focus: StudyPlanFocus[] = [];
+  const drilled = new Set<string>();
+
+  for (const weakness of weaknesses) {
+    if (focus.length === DRILL_DAYS.length) break;
+    const questionType = drillQuestionType(weakness.module, weakness.questionType);
+    if (!questionType || drilled.has(`${weakness.module}:${questionType}`)) continue;
+    drilled.add(`${weakness.module}:${questionType}`);
+
+    for (const day of DRILL_DAYS[focus.length]) {
+      items.push({
+        id: `drill-${weakness.module}-${questionType}-${day}`,
+        kind: 'drill',
+        day,
+        module: weakness.module,
+        questionType,
+        target: 1,
+      });
+    }
+    focus.push({ module: weakness.module, questionType: weakness.questionType, accuracy: weakness.accuracy });
+  }
+
+  if (flashcards.totalCards > 0) {
+    const daily = Math.min(FLASHCARD_DAILY_MAX, Math.max(FLASHCARD_DAILY_MIN, Math.ceil(flashcards.dueCards / 7)));
+    for (let day = 0; day < 7; day++) {
+      items.push({ id: `flashcards-${day}`, kind: 'flashcards', day, target: daily });
+    }
+  }
+
+  items.sort((a, b) => a.day - b.day || (a.kind === b.kind ? 0 : a.kind === 'drill' ? -1 : 1));
+  return { weekStart, items, focus };
+}
+
+/** Day of the plan week (0 = Monday) a timestamp falls on, or null outside the week */
+export function planDay(weekStart: string, timestamp: string): number | null {
+  const date = new Date(timestamp);
+  const localDay = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  const day = Math.round((localDay.getTime() - parseDateKey(weekStart).getTime()) / DAY_MS);
+  return day >= 0 && day < 7 ? day : null;
+}
+
+/**
+ * Drills completed any day of the week fill that type's scheduled sessions in
+ * day order; flashcard reviews count toward the day they were done.
+ */
+export function planProgress(plan: Pick<StudyPlan, 'items' | 'weekStart'>, activity: PlanActivity): PlanProgress {
+  const drillsDone = new Map<string, number>();
+  for (const drill of activity.drills) {
+    if (planDay(plan.weekStart, drill.completedAt) === null) continue;
+    const key = `${drill.module}:${normalizeQuestionType(drill.module, drill.questionType)}`;
+    drillsDone.set(key, (drillsDone.get(key) ?? 0) + 1);
+  }
+
+  const reviewsByDay = new Array(7).fill(0);
+  for (const review of activity.reviews) {
+    const day = planDay(plan.weekStart, review.reviewedAt);
+    if (day !== null) reviewsByDay[day] += 1;
+  }
+
+  const items = [...plan.items]
+    .sort((a, b) => a.day - b.day)
+    .map(item => {
+      let done = 0;
+      if (item.kind === 'drill') {
+        const key = `${item.module}:${item.questionType}`;
+        const available = drillsDone.get(key) ?? 0;
+        done = Math.min(item.target, available);
+        drillsDone.set(key, available - done);
+      } else {
+        done = Math.min(item.target, reviewsByDay[item.day]);
+      }
+      return { item, done, complete: done >= item.target };
+    });
+
+  const done = items.reduce((sum, p) => sum + p.done, 0);
+  const target = items.reduce((sum, p) => sum + p.item.target, 0);
+  return { items, done, target, percent: target > 0 ? Math.round((done / target) * 100) : 0 };
+}
+
+/** Where a drill item sends the learner */
+export function drillLink(item: Pick<StudyPlanItem, 'module' | 'questionType'>): string {
+  const params = new URLSearchParams({ module: item.module ?? 'reading', questionType: item.questionType ?? '' });
+  return `/ai-practice?${params.toString()}`;
+}
+
+// ============================================================================
+// DATA
+// ============================================================================
+
+export async function loadQuestionTypeAttempts(userId: string): Promise<QuestionTypeAttempt[]> {
+  const [reading, listening, practice] = await Promise.all([
+    supabase
+      .from('reading_test_submissions')
+      .select('question_results, completed_at')
+      .eq('user_id', userId)
+      .not('question_results', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(RESULT_LIMIT),
+    supabase
+      .from('listening_test_submissions')
+      .select('question_results, completed_at')
+      .eq('user_id', userId)
+      .not('question_results', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(RESULT_LIMIT),
+    supabase
+      .from('ai_practice_results')
+      .select('module, question_results, completed_at, ai_practice_tests!inner(question_type)')
+      .eq('user_id', userId)
+      .in('module', DIAGNOSIS_MODULES)
+      .order('completed_at', { ascending: false })
+      .limit(RESULT_LIMIT),
+  ]);
+  if (reading.error) throw reading.error;
+  if (listening.error) throw listening.error;
+  if (practice.error) throw practice.error;
+
+  return [
+    ...(reading.data ?? []).flatMap(row =>
+      attemptsFromQuestionResults('reading', row.question_results, null, row.completed_at, 'cambridge')
+    ),
+    ...(listening.data ?? []).flatMap(row =>
+      attemptsFromQuestionResults('listening', row.question_results, null, row.completed_at, 'cambridge')
+    ),
+    ...(practice.data ?? []).flatMap(row =>
+      attemptsFromQuestionResults(
+        row.module as DiagnosisModule,
+        row.question_results,
+        row.ai_practice_tests?.question_type ?? null,
+        row.completed_at,
+        'ai'
+      )
+    ),
+  ];
+}
+
+export async function loadFlashcardCounts(userId: string): Promise<{ dueCards: number; totalCards: number }> {
+  const weekEnd = endOfDay(new Date(Date.now() + 6 * DAY_MS)).toISOString();
+  const [total, due] = await Promise.all([
+    supabase.from('flashcard_cards').select('id', { count: 'exact', head: true }).eq('user_id', userId),
+    supabase
+      .from('flashcard_cards')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .or(`next_review_at.is.null,next_review_at.lte.${weekEnd}`),
+  ]);
+  if (total.error) throw total.error;
+  if (due.error) throw due.error;
+  return { dueCards: due.count ?? 0, totalCards: total.count ?? 0 };
+}
+
+function toStudyPlan(row: Tables<'study_plans'>): StudyPlan {
+  return {
+    id: row.id,
+    weekStart: row.week_start,
+    items: row.items as unknown as StudyPlanItem[],
+    focus: row.focus as unknown as StudyPlanFocus[],
+  };
+}
+
+export async function loadStudyPlan(userId: string, weekStart: string): Promise<StudyPlan | null> {
+  const { data, error } = await supabase
+    .from('study_plans')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('week_start', weekStart)
+    .maybeSingle();
+  if (error) throw error;
+  return data ? toStudyPlan(data) : null;
+}
+
+/** Create or replace the learner's plan for the week */
+export async function saveStudyPlan(userId: string, plan: StudyPlan): Promise<StudyPlan> {
+  const { data, error } = await supabase
+    .from('study_plans')
+    .upsert(
+      {
+        user_id: userId,
+        week_start: plan.weekStart,
+        items: plan.items as unknown as Json,
+        focus: plan.focus as unknown as Json,
+      },
+      { onConflict: 'user_id,week_start' }
+    )
+    .select()
+    .single();
+  if (error) throw error;
+  return toStudyPlan(data);
+}
+
+export async function loadPlanActivity(userId: string, weekStart: string): Promise<PlanActivity> {
+  const from = parseDateKey(weekStart);
+  const to = new Date(from);
+  to.setDate(to.getDate() + 7);
+
+  const [practice, reviews] = await Promise.all([
+    supabase
+      .from('ai_practice_results')
+      .select('module, completed_at, ai_practice_tests!inner(question_type)')
+      .eq('user_id', userId)
+      .in('module', DIAGNOSIS_MODULES)
+      .gte('completed_at', from.toISOString())
+      .lt('completed_at', to.toISOString()),
+    supabase
+      .from('flashcard_reviews')
+      .select('reviewed_at')
+      .eq('user_id', userId)
+      .gte('reviewed_at', from.toISOString())
+      .lt('reviewed_at', to.toISOString()),
+  ]);
+  if (practice.error) throw practice.error;
+  if (reviews.error) throw reviews.error;
+
+  return {
+    drills: (practice.data ?? []).map(row => ({
+      module: row.module as DiagnosisModule,
+      questionType: row.ai_practice_tests?.question_type ?? '',
+      completedAt: row.completed_at,
+    })),
+    reviews: (reviews.data ?? []).map(row => ({ reviewedAt: row.reviewed_at })),
+  };
+}
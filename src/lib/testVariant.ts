@@ -0,0 +1,44 @@
+/**
+ * Test Variant
+ *
+ * IELTS Academic vs General Training. Stored in the `test_type` column of
+ * the test tables ('academic' | 'general'). Listening and Speaking are the
+ * same for both; Reading (texts and band table) and Writing Task 1 differ.
+ */
+
+export type TestVariant = 'academic' | 'general';
+
+export const TEST_VARIANTS: TestVariant[] = ['academic', 'general'];
+
+export const TEST_VARIANT_LABELS: Record<TestVariant, string> = {
+  academic: 'Academic',
+  general: 'General Training',
+};
+
+/** Modules whose content differs between Academic and General Training */
+export const VARIANT_MODULES = ['reading', 'writing'] as const;
+
+const LIST_ROUTE_SLUGS: Record<TestVariant, string> = {
+  academic: 'cambridge-ielts-a',
+  general: 'cambridge-ielts-g',
+};
+
+/** Normalise a stored `test_type`; anything that is not General Training is Academic */
+export function toTestVariant(value: string | null | undefined): TestVariant {
+  return value === 'general' ? 'general' : 'academic';
+}
+
+export function isVariantModule(module: string): boolean {
+  return (VARIANT_MODULES as readonly string[]).includes(module);
+}
+
+/** Test list route for a module, e.g. /reading/cambridge-ielts-g */
+export function getTestListPath(module: string, variant: TestVariant = 'academic'): string {
+  const slug = LIST_ROUTE_SLUGS[isVariantModule(module) ? variant : 'academic'];
+  return `/${module}/${slug}`;
+}
+
+/** Variant implied by a test list route */
+export function getVariantFromPath(pathname: string): TestVariant {
+  return pathname.replace(/\/$/, '').endsWith(`/${LIST_ROUTE_SLUGS.general}`) ? 'general' : 'academic';
+}
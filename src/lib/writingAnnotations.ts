@@ -0,0 +1,167 @@
+/**
+ * Writing Inline Annotations
+ *
+ * Client-side model for the per-criterion error annotations returned by
+ * the writing evaluators (see supabase/functions/_shared/writingAnnotations.ts).
+ * Each annotation is a character range in the student's text tagged with an
+ * error category, the IELTS criterion it affects and a suggested correction.
+ */
+
+export type AnnotationCategory =
+  | 'grammar'
+  | 'collocation'
+  | 'cohesion_device'
+  | 'spelling'
+  | 'register';
+
+export type AnnotationCriterion = 'TA' | 'CC' | 'LR' | 'GRA';
+
+export type AnnotationSeverity = 'minor' | 'major';
+
+export interface WritingAnnotation {
+  id: string;
+  start: number;
+  end: number;
+  quote: string;
+  category: AnnotationCategory;
+  criterion: AnnotationCriterion;
+  correction: string;
+  explanation: string;
+  severity: AnnotationSeverity;
+}
+
+export interface AnnotatedSegment {
+  text: string;
+  start: number;
+  end: number;
+  annotations: WritingAnnotation[];
+}
+
+// ============================================================================
+// DISPLAY METADATA
+// ============================================================================
+export const CATEGORY_LABELS: Record<AnnotationCategory, string> = {
+  grammar: 'Grammar',
+  collocation: 'Collocation',
+  cohesion_device: 'Cohesion Device',
+  spelling: 'Spelling',
+  register: 'Register',
+};
+
+export const CRITERION_LABELS: Record<AnnotationCriterion, string> = {
+  TA: 'Task Achievement / Response',
+  CC: 'Coherence & Cohesion',
+  LR: 'Lexical Resource',
+  GRA: 'Grammatical Range & Accuracy',
+};
+
+/** Tailwind classes for the highlight behind each category */
+export const CATEGORY_HIGHLIGHT_CLASSES: Record<AnnotationCategory, string> = {
+  grammar: 'bg-rose-200/70 dark:bg-rose-900/50 decoration-rose-500',
+  collocation: 'bg-violet-200/70 dark:bg-violet-900/50 decoration-violet-500',
+  cohesion_device: 'bg-sky-200/70 dark:bg-sky-900/50 decoration-sky-500',
+  spelling: 'bg-amber-200/70 dark:bg-amber-900/50 decoration-amber-500',
+  register: 'bg-emerald-200/70 dark:bg-emerald-900/50 decoration-emerald-500',
+};
+
+export const ANNOTATION_CATEGORIES = Object.keys(CATEGORY_LABELS) as AnnotationCategory[];
+export const ANNOTATION_CRITERIA = Object.keys(CRITERION_LABELS) as AnnotationCriterion[];
+
+// ============================================================================
+// NORMALISATION
+// ============================================================================
+
+function findQuote(text: string, quote: string): [number, number] | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  let index = text.indexOf(trimmed);
+  if (index === -1) index = text.toLowerCase().indexOf(trimmed.toLowerCase());
+  return index === -1 ? null : [index, index + trimmed.length];
+}
+
+/**
+ * Validate annotations loaded from a stored report against the text being
+ * shown. Ranges that no longer line up with their quote (e.g. the text was
+ * trimmed before saving) are re-located by quote; unmatchable ones are dropped.
+ */
+export function normalizeAnnotations(raw: unknown, text: string): WritingAnnotation[] {
+  if (!Array.isArray(raw) || !text) return [];
+
+  const result: WritingAnnotation[] = [];
+
+  raw.forEach((item, index) => {
+    if (!item || typeof item !== 'object') return;
+    const a = item as Partial<WritingAnnotation>;
+    const quote = String(a.quote ?? '');
+    let start = Number(a.start);
+    let end = Number(a.end);
+
+    const rangeValid = Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end <= text.length && start < end;
+    if (!rangeValid || (quote && text.slice(start, end).toLowerCase() !== quote.toLowerCase())) {
+      const located = findQuote(text, quote);
+      if (!located) return;
+      [start, end] = located;
+    }
+
+    result.push({
+      id: a.id || `a${index + 1}`,
+      start,
+      end,
+      quote: text.slice(start, end),
+      category: ANNOTATION_CATEGORIES.includes(a.category as AnnotationCategory) ? a.category as AnnotationCategory : 'grammar',
+      criterion: ANNOTATION_CRITERIA.includes(a.criterion as AnnotationCriterion) ? a.criterion as AnnotationCriterion : 'GRA',
+      correction: String(a.correction ?? ''),
+      explanation: String(a.explanation ?? ''),
+      severity: a.severity === 'major' ? 'major' : 'minor',
+    });
+  });
+
+  return result.sort((x, y) => x.start - y.start);
+}
+
+// ============================================================================
+// SEGMENTATION
+// ============================================================================
+
+/**
+ * Split text into consecutive segments at every annotation boundary. Each
+ * segment lists the annotations covering it, so overlapping annotations
+ * render as a single highlight with several notes.
+ */
+export function segmentText(text: string, annotations: WritingAnnotation[]): AnnotatedSegment[] {
+  if (!text) return [];
+
+  const boundaries = new Set<number>([0, text.length]);
+  for (const a of annotations) {
+    boundaries.add(Math.max(0, Math.min(text.length, a.start)));
+    boundaries.add(Math.max(0, Math.min(text.length, a.end)));
+  }
+  const points = [...boundaries].sort((x, y) => x - y);
+
+  const segments: AnnotatedSegment[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const start = points[i];
+    const end = points[i + 1];
+    if (start === end) continue;
+    segments.push({
+      text: text.slice(start, end),
+      start,
+      end,
+      annotations: annotations.filter(a => a.start <= start && a.end >= end),
+    });
+  }
+  return segments;
+}
+
+/** Number of annotations per criterion, for the "where you lost points" summary */
+export function countByCriterion(annotations: WritingAnnotation[]): Record<AnnotationCriterion, number> {
+  const counts: Record<AnnotationCriterion, number> = { TA: 0, CC: 0, LR: 0, GRA: 0 };
+  for (const a of annotations) counts[a.criterion]++;
+  return counts;
+}
+
+export function countByCategory(annotations: WritingAnnotation[]): Record<AnnotationCategory, number> {
+  const counts: Record<AnnotationCategory, number> = { grammar: 0, collocation: 0, cohesion_device: 0, spelling: 0, register: 0 };
+  for (const a of annotations) counts[a.category]++;
+  return counts;
+}
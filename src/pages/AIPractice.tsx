@@ -1,5 +1,5 @@
 import { useState, useMemo, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
 import { Button } from '@/components/ui/button';
@@ -9,6 +9,7 @@ import { Input } from '@/components/ui/input';
 import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
 
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
@@ -17,20 +18,26 @@ import { SelectableCard } from '@/components/common/SelectableCard';
 import { useToast } from '@/hooks/use-toast';
 import { describeApiError } from '@/lib/apiErrors';
 import { useAuth } from '@/hooks/useAuth';
+import { useAccessControl } from '@/hooks/useAccessControl';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
 import { useSmartTopicCycle } from '@/hooks/useSmartTopicCycle';
+import { useAdaptiveDifficulty } from '@/hooks/useAdaptiveDifficulty';
+import { ADAPTIVE_DIFFICULTY, TARGET_ACCURACY } from '@/lib/adaptiveDifficulty';
 import { supabase } from '@/integrations/supabase/client';
 import { playCompletionSound, playErrorSound } from '@/lib/sounds';
 import { 
   READING_TOPICS, 
   LISTENING_TOPICS, 
   WRITING_TASK1_TOPICS, 
+  GT_READING_TOPICS,
+  GT_WRITING_TASK1_TOPICS,
   WRITING_TASK2_TOPICS,
   SPEAKING_TOPICS_PART1,
   SPEAKING_TOPICS_PART2,
   SPEAKING_TOPICS_PART3,
   SPEAKING_TOPICS_FULL,
 } from '@/lib/ieltsTopics';
+import { TestVariant, TEST_VARIANTS, TEST_VARIANT_LABELS, isVariantModule } from '@/lib/testVariant';
 import { 
   BookOpen, 
   Headphones, 
@@ -41,7 +48,8 @@ import {
   Brain,
   Settings2,
   PenTool,
-  Mic
+  Mic,
+  TrendingUp
 } from 'lucide-react';
 import { 
   PracticeModule, 
@@ -104,6 +112,21 @@ const WRITING_TASK1_VISUAL_TYPES = [
   { value: 'COMPARISON_DIAGRAM', label: 'Comparison Diagram', description: 'Comparing two items' },
 ];
 
+// General Training Task 1 letter registers for dropdown
+const WRITING_TASK1_LETTER_TYPES = [
+  { value: 'RANDOM', label: 'Random', description: 'Any letter type' },
+  { value: 'FORMAL', label: 'Formal', description: 'To a company or official you do not know' },
+  { value: 'SEMI_FORMAL', label: 'Semi-formal', description: 'To someone you know in a formal role' },
+  { value: 'INFORMAL', label: 'Informal', description: 'To a friend or family member' },
+];
+
+// General Training Reading sections - each uses a different kind of text
+const GT_READING_SECTIONS: { value: 1 | 2 | 3; label: string; description: string }[] = [
+  { value: 1, label: 'Section 1', description: 'Short everyday texts: notices, adverts, timetables' },
+  { value: 2, label: 'Section 2', description: 'Workplace texts: job descriptions, policies, training' },
+  { value: 3, label: 'Section 3', description: 'One longer text on a topic of general interest' },
+];
+
 // Task 2 essay types for dropdown  
 const WRITING_TASK2_ESSAY_TYPES = [
   { value: 'RANDOM', label: 'Random', description: 'Any essay type' },
@@ -149,20 +172,39 @@ export default function AIPractice() {
   const navigate = useNavigate();
   const { toast } = useToast();
   const { user } = useAuth();
+  const { plan, canUseModule } = useAccessControl();
+  // Study plan drills and exam planner goals link here with ?module=...&questionType=... preselected
+  const [searchParams] = useSearchParams();
+  const linkedModule = searchParams.get('module');
+  const linkedQuestionType = searchParams.get('questionType');
 
   // Form state
-  const [activeModule, setActiveModule] = useState<PracticeModule>('reading');
-  const [readingQuestionType, setReadingQuestionType] = useState<ReadingQuestionType>('TRUE_FALSE_NOT_GIVEN');
-  const [listeningQuestionType, setListeningQuestionType] = useState<ListeningQuestionType>('FILL_IN_BLANK');
+  const [activeModule, setActiveModule] = useState<PracticeModule>(
+    linkedModule === 'listening' || linkedModule === 'writing' || linkedModule === 'speaking' ? linkedModule : 'reading'
+  );
+  const [readingQuestionType, setReadingQuestionType] = useState<ReadingQuestionType>(
+    () => READING_QUESTION_TYPES.find(t => linkedModule === 'reading' && t.value === linkedQuestionType)?.value ?? 'TRUE_FALSE_NOT_GIVEN'
+  );
+  const [listeningQuestionType, setListeningQuestionType] = useState<ListeningQuestionType>(
+    () => LISTENING_QUESTION_TYPES.find(t => linkedModule === 'listening' && t.value === linkedQuestionType)?.value ?? 'FILL_IN_BLANK'
+  );
   const [writingTaskType, setWritingTaskType] = useState<WritingTaskType>('TASK_1');
   const [writingTask1VisualType, setWritingTask1VisualType] = useState('RANDOM');
+  const [writingTask1LetterType, setWritingTask1LetterType] = useState('RANDOM');
   const [writingTask2EssayType, setWritingTask2EssayType] = useState('RANDOM');
   const [writingTimeMinutes, setWritingTimeMinutes] = useState(20);
   const [speakingPartType, setSpeakingPartType] = useState<SpeakingPartType>('FULL_TEST');
   const [difficulty] = useState<DifficultyLevel>('medium'); // Default difficulty, not user-selectable
+  // Adaptive mode (reading/listening): the server picks the level from the learner's results
+  const [adaptiveMode, setAdaptiveMode] = useState(false);
   const [topicPreference, setTopicPreference] = useState('');
   const [timeMinutes, setTimeMinutes] = useState(10);
   const [audioSpeed, setAudioSpeed] = useState(1);
+  // Academic vs General Training - only Reading and Writing differ
+  const [testVariant, setTestVariant] = useState<TestVariant>('academic');
+  const [gtReadingSection, setGtReadingSection] = useState<1 | 2 | 3>(1);
+  const effectiveVariant: TestVariant = isVariantModule(activeModule) ? testVariant : 'academic';
+  const isGeneralTraining = effectiveVariant === 'general';
 
   // Update writing time when task type changes
   useEffect(() => {
@@ -180,12 +222,12 @@ export default function AIPractice() {
 
   // Smart-Cycle topic rotation for each module
   // These hooks implement the balanced round-robin algorithm
-  const readingSmartCycle = useSmartTopicCycle('reading');
+  const readingSmartCycle = useSmartTopicCycle('reading', undefined, testVariant);
   const listeningSmartCycle = useSmartTopicCycle('listening');
   // Writing needs subtype for correct topic list
   // For FULL_TEST, we use TASK_2 topics as the primary cycle (Task 2 is the main essay)
   const writingSubtype = writingTaskType === 'TASK_1' ? 'TASK_1' : 'TASK_2';
-  const writingSmartCycle = useSmartTopicCycle('writing', writingSubtype);
+  const writingSmartCycle = useSmartTopicCycle('writing', writingSubtype, testVariant);
   // Speaking needs subtype for correct topic list  
   const speakingSubtype = speakingPartType === 'PART_1' ? 'PART_1' 
     : speakingPartType === 'PART_2' ? 'PART_2' 
@@ -208,11 +250,14 @@ export default function AIPractice() {
   const currentTopics = useMemo(() => {
     switch (activeModule) {
       case 'reading':
-        return READING_TOPICS;
+        return isGeneralTraining ? GT_READING_TOPICS : READING_TOPICS;
       case 'listening':
         return LISTENING_TOPICS;
       case 'writing':
-        return writingTaskType === 'TASK_1' ? WRITING_TASK1_TOPICS : WRITING_TASK2_TOPICS;
+        if (writingTaskType === 'TASK_1') {
+          return isGeneralTraining ? GT_WRITING_TASK1_TOPICS : WRITING_TASK1_TOPICS;
+        }
+        return WRITING_TASK2_TOPICS;
       case 'speaking':
         switch (speakingPartType) {
           case 'PART_1': return SPEAKING_TOPICS_PART1;
@@ -223,7 +268,7 @@ export default function AIPractice() {
       default:
         return [];
     }
-  }, [activeModule, writingTaskType, speakingPartType]);
+  }, [activeModule, writingTaskType, speakingPartType, isGeneralTraining]);
 
   // Get the completion hook for current module
   const currentCompletions = useMemo(() => {
@@ -288,15 +333,93 @@ export default function AIPractice() {
     ? listeningQuestionCount
     : (QUESTION_COUNTS[currentQuestionType] || 5);
 
+  // Adaptive difficulty preview - the edge function makes the final pick from the same results
+  const readingAbility = useAdaptiveDifficulty('reading');
+  const listeningAbility = useAdaptiveDifficulty('listening');
+  const isAdaptive = adaptiveMode && (activeModule === 'reading' || activeModule === 'listening');
+  const currentAbility = activeModule === 'listening' ? listeningAbility : readingAbility;
+  const adaptivePlan = isAdaptive ? currentAbility.recommend([currentQuestionType]) : null;
+  const adaptiveSuggestion = isAdaptive
+    ? currentAbility.recommend(
+        activeModule === 'listening'
+          ? LISTENING_QUESTION_TYPES.map(t => t.value)
+          : READING_QUESTION_TYPES.map(t => t.value)
+      )
+    : null;
+  const questionTypeLabel = (value: string) =>
+    [...READING_QUESTION_TYPES, ...LISTENING_QUESTION_TYPES].find(t => t.value === value)?.label ?? value;
+
   const progressSteps = activeModule === 'reading' 
     ? ['Analyzing topic', 'Generating passage', 'Creating questions', 'Preparing explanations', 'Finalizing']
     : activeModule === 'listening'
     ? ['Analyzing topic', 'Generating dialogue', 'Creating audio', 'Generating questions', 'Finalizing']
     : activeModule === 'writing'
-    ? ['Analyzing topic', 'Creating prompt', writingTaskType === 'TASK_1' ? 'Generating chart/graph' : 'Preparing task', 'Finalizing']
+    ? ['Analyzing topic', 'Creating prompt', writingTaskType === 'TASK_1' ? (isGeneralTraining ? 'Writing letter situation' : 'Generating chart/graph') : 'Preparing task', 'Finalizing']
     : ['Analyzing topic', 'Creating questions', 'Generating audio prompts', 'Preparing cue card', 'Finalizing'];
 
 
+  // Academic / General Training toggle shared by the Reading and Writing tabs
+  const variantSelector = (
+    <div className="space-y-3">
+      <Label className="text-base font-medium">Test Variant</Label>
+      <div className="grid grid-cols-2 gap-3 max-w-md">
+        {TEST_VARIANTS.map((variant) => (
+          <SelectableCard
+            key={variant}
+            isSelected={testVariant === variant}
+            onClick={() => setTestVariant(variant)}
+          >
+            <div className="font-medium pr-6">{TEST_VARIANT_LABELS[variant]}</div>
+          </SelectableCard>
+        ))}
+      </div>
+    </div>
+  );
+
+  // Adaptive difficulty toggle shared by the Reading and Listening tabs
+  const adaptiveSelector = (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-4 max-w-md">
+        <div>
+          <Label htmlFor="adaptive-mode" className="text-base font-medium">Adaptive Difficulty</Label>
+          <p className="text-sm text-muted-foreground">
+            Pick the level from your past results, aiming for about {Math.round(TARGET_ACCURACY * 100)}% correct
+          </p>
+        </div>
+        <Switch id="adaptive-mode" checked={adaptiveMode} onCheckedChange={setAdaptiveMode} />
+      </div>
+      {isAdaptive && adaptivePlan && (
+        <div className="p-4 rounded-lg bg-muted/50 border max-w-md space-y-2">
+          <div className="flex items-start gap-3">
+            <TrendingUp className="w-5 h-5 text-primary mt-0.5" />
+            <div className="text-sm">
+              <div className="font-medium capitalize">Next session: {adaptivePlan.difficulty}</div>
+              <div className="text-muted-foreground">
+                About {Math.round(adaptivePlan.expectedAccuracy * 100)}% expected on {questionTypeLabel(adaptivePlan.questionType)}
+                {adaptivePlan.attempts === 0 && ' (no results for this type yet)'}
+              </div>
+            </div>
+          </div>
+          {adaptiveSuggestion && adaptiveSuggestion.questionType !== currentQuestionType && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => {
+                if (activeModule === 'listening') {
+                  setListeningQuestionType(adaptiveSuggestion.questionType as ListeningQuestionType);
+                } else {
+                  setReadingQuestionType(adaptiveSuggestion.questionType as ReadingQuestionType);
+                }
+              }}
+            >
+              Try {questionTypeLabel(adaptiveSuggestion.questionType)} instead
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   const handleGenerate = async () => {
     if (!user) {
       toast({
@@ -308,9 +431,19 @@ export default function AIPractice() {
       return;
     }
 
+    if (!canUseModule(activeModule)) {
+      toast({
+        title: 'Not in your plan',
+        description: `${activeModule.charAt(0).toUpperCase() + activeModule.slice(1)} practice is not included in the ${plan?.name ?? 'current'} plan.`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
     // OPTIMIZATION: Check DB cache BEFORE calling edge function (saves quota + bandwidth)
     // Now supports reading, listening, writing, and speaking modules
-    if (activeModule === 'reading' || activeModule === 'listening' || activeModule === 'speaking' || activeModule === 'writing') {
+    // Presets are all Academic, so General Training always goes to the edge function
+    if (!isGeneralTraining && (activeModule === 'reading' || activeModule === 'listening' || activeModule === 'speaking' || activeModule === 'writing')) {
       try {
         console.log(`[cache] Checking DB cache for pre-generated ${activeModule} test...`);
         
@@ -395,7 +528,12 @@ export default function AIPractice() {
           if (matchingTests.length === 0) {
             console.log('[cache] MISS: no presets match requested question type; proceeding with edge function');
           } else {
-            // Note: Difficulty filter removed - test takers get tests at any difficulty level
+            // Note: Difficulty filter removed - test takers get tests at any difficulty level,
+            // except in adaptive mode where the preset must be at the recommended level
+            if (adaptivePlan) {
+              matchingTests = matchingTests.filter((t) => t.difficulty === adaptivePlan.difficulty);
+              console.log('[cache] after adaptive difficulty filter:', matchingTests.length, 'expected:', adaptivePlan.difficulty);
+            }
               // Filter by topic (manual selection OR smart-cycle topic)
               // Skip topic filter for FULL_TEST variants and for all writing tests (topics are randomly selected)
               const skipTopicFilter = activeModule === 'writing' ||
@@ -466,7 +604,7 @@ export default function AIPractice() {
                         id: crypto.randomUUID(),
                         module: activeModule,
                         questionType: currentQuestionType,
-                        difficulty,
+                        difficulty: adaptivePlan ? adaptivePlan.difficulty : difficulty,
                         topic: cachedTest.topic,
                         timeMinutes: timeMinutes,
                         passage: (payload as any).passage,
@@ -768,6 +906,7 @@ export default function AIPractice() {
       const readingConfig = activeModule === 'reading' ? {
         passagePreset: 'medium',
         paragraphCount: READING_PASSAGE_PARAGRAPHS,
+        gtSection: isGeneralTraining ? gtReadingSection : undefined,
       } : undefined;
 
       // Build listening-specific configuration with speaker settings
@@ -797,6 +936,7 @@ export default function AIPractice() {
       const writingConfig = activeModule === 'writing' ? {
         taskType: writingTaskType,
         task1VisualType: writingTask1VisualType,
+        task1LetterType: isGeneralTraining ? writingTask1LetterType : undefined,
         task2EssayType: writingTask2EssayType,
         timeMinutes: writingTimeMinutes,
       } : undefined;
@@ -831,10 +971,12 @@ export default function AIPractice() {
             body: JSON.stringify({
               module: activeModule,
               questionType: currentQuestionType,
-              // Note: difficulty removed from test-taker API call
+              // Note: difficulty removed from test-taker API call, except to ask for adaptive mode
+              ...(isAdaptive ? { difficulty: ADAPTIVE_DIFFICULTY } : {}),
               topicPreference: effectiveTopic,
               questionCount,
               timeMinutes: finalTimeMinutes,
+              testVariant: effectiveVariant,
               readingConfig,
               listeningConfig,
               writingConfig,
@@ -882,9 +1024,10 @@ export default function AIPractice() {
         id: data.testId || crypto.randomUUID(),
         module: activeModule,
         questionType: currentQuestionType,
-        difficulty,
+        difficulty: data.adaptive?.difficulty ?? difficulty,
         topic: data.topic || topicPreference || 'Random Topic',
         timeMinutes: finalTimeMinutes,
+        testVariant: effectiveVariant,
         passage: data.passage,
         // Audio fields - ensure both camelCase and snake_case are captured for R2 URLs
         audioUrl: data.audioUrl || data.audio_url || null,
@@ -1104,6 +1247,29 @@ export default function AIPractice() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {variantSelector}
+
+                  {/* General Training section - decides the kind of text */}
+                  {testVariant === 'general' && (
+                    <div className="space-y-3">
+                      <Label className="text-base font-medium">Section</Label>
+                      <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                        {GT_READING_SECTIONS.map((section) => (
+                          <SelectableCard
+                            key={section.value}
+                            isSelected={gtReadingSection === section.value}
+                            onClick={() => setGtReadingSection(section.value)}
+                          >
+                            <div className="font-medium pr-6">{section.label}</div>
+                            <div className="text-sm text-muted-foreground">{section.description}</div>
+                          </SelectableCard>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {adaptiveSelector}
+
                   {/* Question Type Selection */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Question Type</Label>
@@ -1152,6 +1318,8 @@ export default function AIPractice() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {adaptiveSelector}
+
                   {/* Question Type Selection */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Question Type</Label>
@@ -1325,6 +1493,8 @@ export default function AIPractice() {
                   </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-6">
+                  {variantSelector}
+
                   {/* Task Type Selection */}
                   <div className="space-y-3">
                     <Label className="text-base font-medium">Task Type</Label>
@@ -1336,8 +1506,12 @@ export default function AIPractice() {
                           onClick={() => setWritingTaskType(type.value)}
                           autoScrollOnSelect
                         >
-                          <div className="font-medium pr-6">{type.label}</div>
-                          <div className="text-sm text-muted-foreground">{type.description}</div>
+                          <div className="font-medium pr-6">
+                            {testVariant === 'general' && type.value === 'TASK_1' ? 'Task 1 (Letter)' : type.label}
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {testVariant === 'general' && type.value === 'TASK_1' ? 'Write a letter about an everyday situation' : type.description}
+                          </div>
                           <Badge variant="secondary" className="mt-2">
                             {type.value === 'FULL_TEST' ? '400+ words' : type.value === 'TASK_1' ? '150+ words' : '250+ words'}
                           </Badge>
@@ -1351,8 +1525,30 @@ export default function AIPractice() {
                     <div className="space-y-4 border-t pt-6">
                       <Label className="text-base font-medium">Question Type</Label>
                       
+                      {/* General Training Task 1 Letter Type */}
+                      {writingTaskType === 'TASK_1' && testVariant === 'general' && (
+                        <div className="space-y-2">
+                          <Label className="text-sm text-muted-foreground">Letter Type</Label>
+                          <Select value={writingTask1LetterType} onValueChange={setWritingTask1LetterType}>
+                            <SelectTrigger className="max-w-md">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WRITING_TASK1_LETTER_TYPES.map((type) => (
+                                <SelectItem key={type.value} value={type.value}>
+                                  <div className="flex flex-col">
+                                    <span>{type.label}</span>
+                                    <span className="text-xs text-muted-foreground">{type.description}</span>
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                      )}
+
                       {/* Task 1 Visual Type */}
-                      {writingTaskType === 'TASK_1' && (
+                      {writingTaskType === 'TASK_1' && testVariant === 'academic' && (
                         <div className="space-y-2">
                           <Label className="text-sm text-muted-foreground">Visual Type</Label>
                           <Select value={writingTask1VisualType} onValueChange={setWritingTask1VisualType}>
@@ -1595,14 +1791,19 @@ export default function AIPractice() {
                 <div className="text-center sm:text-left">
                   <h3 className="font-bold text-lg mb-1">Ready to Practice?</h3>
                   <p className="text-muted-foreground">
-                    {questionCount} {currentQuestionType.replace(/_/g, ' ').toLowerCase()} questions • {activeModule === 'listening' ? `${Math.floor(listeningAudioDuration / 60)} min audio` : `${timeMinutes} minutes`} • {difficulty} difficulty
+                    {questionCount} {currentQuestionType.replace(/_/g, ' ').toLowerCase()} questions • {activeModule === 'listening' ? `${Math.floor(listeningAudioDuration / 60)} min audio` : `${timeMinutes} minutes`} • {isAdaptive ? `adaptive (${adaptivePlan?.difficulty ?? difficulty})` : difficulty} difficulty
                   </p>
+                  {!canUseModule(activeModule) && (
+                    <p className="text-sm text-destructive mt-1">
+                      Not included in the {plan?.name} plan.
+                    </p>
+                  )}
                 </div>
                 <Button 
                   size="lg" 
                   className="btn-ai gap-2 min-w-[200px]"
                   onClick={handleGenerate}
-                  disabled={!user}
+                  disabled={!user || !canUseModule(activeModule)}
                 >
                   <Zap className="w-5 h-5" />
                   Generate Test
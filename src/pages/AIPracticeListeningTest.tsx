@@ -46,6 +46,7 @@ import {
   loadGeneratedTestAsync,
   savePracticeResultAsync,
   GeneratedTest,
+  InvalidGeneratedTestError,
   PracticeResult,
   QuestionResult 
 } from '@/types/aiPractice';
@@ -437,7 +438,8 @@ export default function AIPracticeListeningTest() {
         const poll = async (attempt: number) => {
           if (!isMountedRef.current || audioInitSeqRef.current !== initSeq) return;
 
-          const refreshed = await loadGeneratedTestAsync(loadedTest.id);
+          // Invalid payloads were rejected on the first load; a refresh only looks for the audio URL
+          const refreshed = await loadGeneratedTestAsync(loadedTest.id).catch(() => null);
           const refreshedUrl =
             refreshed?.audioUrl ||
             (refreshed as any)?.audio_url ||
@@ -630,6 +632,10 @@ export default function AIPracticeListeningTest() {
         return;
       }
       initializeTest(t);
+    }, (error) => {
+      if (!(error instanceof InvalidGeneratedTestError)) throw error;
+      toast.error(error.message);
+      navigate('/ai-practice');
     });
 
     return () => {
@@ -29,6 +29,7 @@ import {
   loadGeneratedTestAsync,
   savePracticeResultAsync,
   GeneratedTest,
+  InvalidGeneratedTestError,
   PracticeResult,
   QuestionResult 
 } from '@/types/aiPractice';
@@ -239,6 +240,10 @@ export default function AIPracticeReadingTest() {
         return;
       }
       initializeTest(t);
+    }, (error) => {
+      if (!(error instanceof InvalidGeneratedTestError)) throw error;
+      toast.error(error.message);
+      navigate('/ai-practice');
     });
   }, [testId, navigate, initializeTest]);
 
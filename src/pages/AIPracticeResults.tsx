@@ -32,8 +32,21 @@ import {
   Loader2,
   Bot,
   User,
+  Quote,
+  PenLine,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { TranscriptViewer } from '@/components/listening/TranscriptViewer';
+import { PassageViewer } from '@/components/reading/PassageViewer';
+import { EvidenceQuotes } from '@/components/common/EvidenceQuotes';
+import {
+  EvidenceSpan,
+  EvidenceUnit,
+  buildPassageEvidence,
+  buildTranscriptEvidence,
+  splitPassageParagraphs,
+} from '@/lib/answerEvidence';
+import { loadAudioDuration } from '@/lib/audio/audioDuration';
 
 function extractOptionId(option: string): string {
   const trimmed = (option ?? '').trim();
@@ -53,6 +66,7 @@ interface ChatMessage {
   role: 'user' | 'assistant';
   content: string;
   timestamp: Date;
+  evidence?: EvidenceSpan[];
 }
 
 interface QuestionChatState {
@@ -75,6 +89,12 @@ export default function AIPracticeResults() {
   const [chatInputs, setChatInputs] = useState<Record<number, string>>({});
   const chatEndRefs = useRef<Record<number, HTMLDivElement | null>>({});
 
+  // Passage / transcript evidence per question
+  const [evidence, setEvidence] = useState<Record<number, EvidenceSpan[]>>({});
+  const [findingEvidence, setFindingEvidence] = useState<Set<number>>(new Set());
+  const [focusedEvidence, setFocusedEvidence] = useState<{ spans: EvidenceSpan[]; key: number }>({ spans: [], key: 0 });
+  const [audioDuration, setAudioDuration] = useState<number | null>(null);
+
   useEffect(() => {
     if (!testId) {
       navigate('/ai-practice');
@@ -99,7 +119,8 @@ export default function AIPracticeResults() {
     let cancelled = false;
 
     const run = async () => {
-      const loadedTest = await loadGeneratedTestAsync(testId);
+      // Completed results stay viewable even if the stored test fails the schema
+      const loadedTest = await loadGeneratedTestAsync(testId, { allowInvalid: true });
       if (!loadedTest) {
         toast.error('Test not found');
         navigate('/ai-practice');
@@ -144,6 +165,76 @@ export default function AIPracticeResults() {
 
   // NOTE: Auto-scroll removed to preserve user's scroll position during AI response generation
 
+  // Audio length lets transcript evidence carry an estimated timestamp
+  useEffect(() => {
+    if (!test?.audioUrl || test.module !== 'listening') return;
+    let cancelled = false;
+    loadAudioDuration(test.audioUrl).then(duration => {
+      if (!cancelled) setAudioDuration(duration);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [test?.audioUrl, test?.module]);
+
+  const evidenceUnits = useMemo<EvidenceUnit[]>(() => {
+    if (!test) return [];
+    if (test.module === 'reading' && test.passage) {
+      return buildPassageEvidence(test.passage.passage_number || 1, splitPassageParagraphs(test.passage.content));
+    }
+    if (test.module === 'listening' && test.transcript) {
+      return buildTranscriptEvidence(1, test.transcript, audioDuration);
+    }
+    return [];
+  }, [test, audioDuration]);
+
+  const focusEvidence = (spans: EvidenceSpan[]) => {
+    setFocusedEvidence(prev => ({ spans, key: prev.key + 1 }));
+  };
+
+  const findEvidence = async (qResult: QuestionResult) => {
+    if (!test || findingEvidence.has(qResult.questionNumber)) return;
+
+    const question = (test.questionGroups || [])
+      .flatMap(g => g.questions)
+      .find(q => q.question_number === qResult.questionNumber);
+
+    setFindingEvidence(prev => new Set(prev).add(qResult.questionNumber));
+    try {
+      const { data, error } = await supabase.functions.invoke('explain-answer', {
+        body: {
+          questionText: question?.question_text || qResult.correctAnswer,
+          userAnswer: qResult.userAnswer,
+          correctAnswer: qResult.correctAnswer,
+          isCorrect: qResult.isCorrect,
+          options: question?.options,
+          questionType: test.questionType,
+          testType: test.module,
+          evidenceUnits,
+        },
+      });
+
+      if (error) throw error;
+
+      const spans: EvidenceSpan[] = data?.evidence ?? [];
+      if (spans.length === 0) {
+        toast.info(`No supporting ${test.module === 'listening' ? 'line' : 'sentence'} found for this question`);
+        return;
+      }
+      setEvidence(prev => ({ ...prev, [qResult.questionNumber]: spans }));
+      focusEvidence(spans);
+    } catch (err) {
+      console.error('Evidence error:', err);
+      toast.error(err instanceof Error ? err.message : 'Failed to find evidence');
+    } finally {
+      setFindingEvidence(prev => {
+        const next = new Set(prev);
+        next.delete(qResult.questionNumber);
+        return next;
+      });
+    }
+  };
+
   const toggleQuestion = (qNum: number) => {
     setExpandedQuestions(prev => {
       const next = new Set(prev);
@@ -212,6 +303,7 @@ export default function AIPracticeResults() {
             correctAnswer: qResult.correctAnswer,
             isCorrect: qResult.isCorrect,
             explanation: qResult.explanation,
+            evidenceUnits,
           },
         },
       });
@@ -223,6 +315,7 @@ export default function AIPracticeResults() {
         role: 'assistant',
         content: data.response || 'Sorry, I could not generate a response.',
         timestamp: new Date(),
+        evidence: data.evidence ?? [],
       };
 
       setQuestionChats(prev => ({
@@ -702,6 +795,29 @@ export default function AIPracticeResults() {
                           <div className="bg-muted/50 rounded-lg p-4">
                             <p className="text-sm font-medium text-muted-foreground mb-1">Explanation</p>
                             <p className="text-sm">{qResult.explanation}</p>
+                            {evidence[qResult.questionNumber] ? (
+                              <EvidenceQuotes
+                                evidence={evidence[qResult.questionNumber]}
+                                module={test.module === 'listening' ? 'listening' : 'reading'}
+                                onShow={span => focusEvidence([span])}
+                                className="mt-3"
+                              />
+                            ) : evidenceUnits.length > 0 && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => findEvidence(qResult)}
+                                disabled={findingEvidence.has(qResult.questionNumber)}
+                                className="gap-1 mt-2 h-7 text-xs"
+                              >
+                                {findingEvidence.has(qResult.questionNumber) ? (
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                ) : (
+                                  <Quote className="w-3 h-3" />
+                                )}
+                                Find evidence in the {test.module === 'listening' ? 'transcript' : 'passage'}
+                              </Button>
+                            )}
                           </div>
 
                           {/* AI Follow-up Chat Section */}
@@ -761,6 +877,14 @@ export default function AIPracticeResults() {
                                             )}
                                           >
                                             <p className="whitespace-pre-wrap">{msg.content}</p>
+                                            {msg.evidence && msg.evidence.length > 0 && (
+                                              <EvidenceQuotes
+                                                evidence={msg.evidence}
+                                                module={test.module === 'listening' ? 'listening' : 'reading'}
+                                                onShow={span => focusEvidence([span])}
+                                                className="mt-2"
+                                              />
+                                            )}
                                           </div>
                                           {msg.role === 'user' && (
                                             <div className="w-7 h-7 rounded-full bg-muted flex items-center justify-center shrink-0">
@@ -845,6 +969,27 @@ export default function AIPracticeResults() {
             </CardContent>
           </Card>
 
+          {/* Passage / transcript, scrolled to the evidence being viewed */}
+          {test.module === 'reading' && test.passage && (
+            <PassageViewer
+              testId={test.id}
+              passages={[test.passage]}
+              className="mb-6"
+              evidence={focusedEvidence.spans}
+              focusKey={focusedEvidence.key}
+            />
+          )}
+          {test.module === 'listening' && test.transcript && (
+            <TranscriptViewer
+              transcripts={{ part1: test.transcript }}
+              className="mb-6"
+              evidence={focusedEvidence.spans}
+              focusKey={focusedEvidence.key}
+              audioUrls={{ part1: test.audioUrl }}
+              alignmentSource={test.presetId ? { type: 'generated_test_audio', id: test.presetId } : undefined}
+            />
+          )}
+
           {/* Actions */}
           <div className="flex flex-col sm:flex-row gap-4 justify-center">
             <Button
@@ -855,6 +1000,14 @@ export default function AIPracticeResults() {
               <RotateCcw className="w-4 h-4" />
               Retake this test
             </Button>
+            {test.module === 'listening' && test.presetId && test.transcript && test.audioUrl && (
+              <Link to={`/listening/dictation/preset/${test.presetId}`}>
+                <Button variant="outline" className="w-full sm:w-auto gap-2">
+                  <PenLine className="w-4 h-4" />
+                  Dictation practice
+                </Button>
+              </Link>
+            )}
             <Link to="/ai-practice">
               <Button variant="outline" className="w-full sm:w-auto gap-2">
                 <RotateCcw className="w-4 h-4" />
@@ -4,7 +4,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
-import { loadGeneratedTestAsync, GeneratedTest } from '@/types/aiPractice';
+import { loadGeneratedTestAsync, GeneratedTest, GeneratedSpeakingPart, InvalidGeneratedTestError } from '@/types/aiPractice';
 import { useToast } from '@/hooks/use-toast';
 import { useTopicCompletions } from '@/hooks/useTopicCompletions';
 import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
@@ -12,6 +12,7 @@ import { useSpeechSynthesis } from '@/hooks/useSpeechSynthesis';
 // AILoadingScreen removed - using custom inline progress UI
 import { ExitTestConfirmDialog } from '@/components/common/ExitTestConfirmDialog';
 import { MicrophoneTest, AccentCode, EvaluationMode } from '@/components/speaking/MicrophoneTest';
+import { LiveExaminerSession, LiveExaminerResult } from '@/components/speaking/LiveExaminerSession';
 import { describeApiError } from '@/lib/apiErrors';
 import { supabase } from '@/integrations/supabase/client';
 import {
@@ -118,6 +119,11 @@ export default function AIPracticeSpeakingTest() {
   
   // Evaluation mode: 'basic' (text-based) or 'accuracy' (audio-based)
   const [evaluationMode, setEvaluationMode] = useState<EvaluationMode>('basic');
+
+  // Live examiner mode: a Gemini Live conversation instead of pre-generated questions
+  const [liveExaminer, setLiveExaminer] = useState(false);
+  // The questions the live examiner actually asked, follow-ups included (sent with the evaluation)
+  const liveQuestionsRef = useRef<GeneratedSpeakingPart[] | null>(null);
   
   // Shared audio for presets (instructions, transitions, endings - fetched from speaking_shared_audio table)
   const [sharedAudio, setSharedAudio] = useState<Record<string, { audio_url: string | null; fallback_text: string }>>({});
@@ -1205,6 +1211,7 @@ export default function AIPracticeSpeakingTest() {
           fluencyFlag,
           cancelExisting: true, // Cancel any existing pending jobs to avoid 429
           evaluationMode, // 'basic' (text-based) or 'accuracy' (audio-based)
+          askedQuestions: liveQuestionsRef.current ?? undefined,
           // Include text-based analysis data for cheaper evaluation (only for basic mode)
           transcripts: evaluationMode === 'basic' && Object.keys(transcriptData).length > 0 ? transcriptData : undefined,
         },
@@ -1280,6 +1287,25 @@ export default function AIPracticeSpeakingTest() {
   };
 
   // Resubmit handler
+  const submitLiveSession = (result: LiveExaminerResult) => {
+    const segments: Record<string, AudioSegmentMeta> = {};
+    for (const recording of result.recordings) {
+      segments[recording.key] = {
+        key: recording.key,
+        partNumber: recording.partNumber,
+        questionId: recording.questionId,
+        questionNumber: recording.questionNumber,
+        questionText: recording.questionText,
+        chunks: [recording.blob],
+        duration: recording.duration,
+      };
+    }
+    liveQuestionsRef.current = result.speakingParts;
+    audioSegmentsRef.current = segments;
+    setAudioSegments(segments);
+    submitTest();
+  };
+
   const handleResubmit = async () => {
     setIsResubmitting(true);
     setSubmissionError(null);
@@ -1625,7 +1651,15 @@ export default function AIPracticeSpeakingTest() {
       // Cleanup old audio on load
       cleanupOldAudio();
 
-      const loadedTest = await loadGeneratedTestAsync(testId);
+      let loadedTest: GeneratedTest | null;
+      try {
+        loadedTest = await loadGeneratedTestAsync(testId);
+      } catch (error) {
+        if (!(error instanceof InvalidGeneratedTestError)) throw error;
+        toast({ title: 'Test Unavailable', description: error.message, variant: 'destructive' });
+        navigate('/ai-practice');
+        return;
+      }
       if (!loadedTest) {
         toast({ title: 'Test Not Found', variant: 'destructive' });
         navigate('/ai-practice');
@@ -1803,15 +1837,20 @@ export default function AIPracticeSpeakingTest() {
     return (
       <div className="min-h-screen bg-secondary flex flex-col items-center justify-center gap-4">
         <MicrophoneTest 
-          onTestComplete={(accent, evalMode) => {
+          onTestComplete={(accent, evalMode, examinerMode) => {
             setSelectedAccent(accent);
             setEvaluationMode(evalMode);
             setShowMicrophoneTest(false);
             // Enter fullscreen mode automatically
             enterFullscreen();
+            if (examinerMode === 'live') {
+              setLiveExaminer(true);
+              return;
+            }
             // Start test immediately after mic test passes
             startTest();
           }}
+          allowLiveExaminer
           onBack={() => navigate('/ai-practice')}
           initialAccent={selectedAccent}
           initialEvaluationMode={evaluationMode}
@@ -1820,6 +1859,21 @@ export default function AIPracticeSpeakingTest() {
     );
   }
 
+  if (liveExaminer && test && phase !== 'submitting' && phase !== 'done' && phase !== 'submission_error') {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <LiveExaminerSession
+          test={test}
+          onComplete={submitLiveSession}
+          onExit={() => {
+            exitRequestedRef.current = true;
+            navigate('/ai-practice');
+          }}
+        />
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       {/* Header */}
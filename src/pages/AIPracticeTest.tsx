@@ -9,6 +9,7 @@ import {
   loadGeneratedTestAsync,
   savePracticeResult,
   GeneratedTest,
+  InvalidGeneratedTestError,
   PracticeResult,
   QuestionResult,
 } from '@/types/aiPractice';
@@ -71,7 +72,16 @@ export default function AIPracticeTest() {
     const init = async () => {
       // Try memory cache first
       const cached = loadGeneratedTest(testId);
-      const loadedTest = cached ?? (await loadGeneratedTestAsync(testId));
+      let loadedTest: GeneratedTest | null;
+      try {
+        loadedTest = cached ?? (await loadGeneratedTestAsync(testId));
+      } catch (error) {
+        if (!(error instanceof InvalidGeneratedTestError)) throw error;
+        if (cancelled) return;
+        toast({ title: 'Test Unavailable', description: error.message, variant: 'destructive' });
+        navigate('/ai-practice');
+        return;
+      }
 
       if (cancelled) return;
 
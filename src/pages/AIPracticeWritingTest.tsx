@@ -12,6 +12,7 @@ import {
   savePracticeResult,
   savePracticeResultAsync,
   GeneratedTest,
+  InvalidGeneratedTestError,
   PracticeResult,
   GeneratedWritingSingleTask,
   isWritingFullTest,
@@ -78,7 +79,16 @@ export default function AIPracticeWritingTest() {
 
     const init = async () => {
       const cached = loadGeneratedTest(testId);
-      const loadedTest = cached ?? (await loadGeneratedTestAsync(testId));
+      let loadedTest: GeneratedTest | null;
+      try {
+        loadedTest = cached ?? (await loadGeneratedTestAsync(testId));
+      } catch (error) {
+        if (!(error instanceof InvalidGeneratedTestError)) throw error;
+        if (cancelled) return;
+        toast({ title: 'Test Unavailable', description: error.message, variant: 'destructive' });
+        navigate('/ai-practice');
+        return;
+      }
       if (cancelled) return;
 
       if (!loadedTest || !loadedTest.writingTask) {
@@ -136,12 +146,14 @@ export default function AIPracticeWritingTest() {
           task2Instruction: isFullTest ? task2?.instruction : undefined,
           task1ImageBase64: isFullTest ? task1?.image_base64 : undefined,
           task1VisualType: isFullTest ? task1?.visual_type : undefined,
+          task1LetterType: isFullTest ? task1?.letter_type : undefined,
           // Single task parameters
           taskType: isFullTest ? 'full_test' : task1?.task_type,
           instruction: isFullTest ? undefined : task1?.instruction,
           imageDescription: task1?.image_description,
           imageBase64: isFullTest ? undefined : task1?.image_base64,
           visualType: isFullTest ? undefined : task1?.visual_type,
+          letterType: isFullTest ? undefined : task1?.letter_type,
         },
       });
 
@@ -169,6 +181,7 @@ export default function AIPracticeWritingTest() {
           isCorrect: true,
           explanation: JSON.stringify(data?.evaluation_report || {}),
         }],
+        promptVersion: data?.prompt_version,
       };
 
       savePracticeResult(result);
@@ -330,8 +343,8 @@ export default function AIPracticeWritingTest() {
                 </p>
               </div>
               
-              {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. */}
-              {task.task_type === 'task1' && (
+              {/* Task 1: Show visual first (as in real IELTS); General Training letters have none. Always render a diagram container so failure shows a professional placeholder. */}
+              {task.task_type === 'task1' && !task.letter_type && (
                 <div className="flex justify-center py-4 border rounded-lg bg-muted/20">
                   {task.chartData ? (
                     <IELTSVisualRenderer
@@ -399,8 +412,8 @@ export default function AIPracticeWritingTest() {
               </p>
             </div>
             
-            {/* Task 1: Show visual first (as in real IELTS). Always render a diagram container so failure shows a professional placeholder. */}
-            {task.task_type === 'task1' && (
+            {/* Task 1: Show visual first (as in real IELTS); General Training letters have none. Always render a diagram container so failure shows a professional placeholder. */}
+            {task.task_type === 'task1' && !task.letter_type && (
               <div className="flex justify-center py-4 border rounded-lg bg-muted/20">
                 {task.chartData ? (
                   <IELTSVisualRenderer
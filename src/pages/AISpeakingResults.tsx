@@ -14,6 +14,7 @@ import { useSpeakingEvaluationRealtime } from '@/hooks/useSpeakingEvaluationReal
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SpeakingResultsSkeleton, ProcessingCardSkeleton } from '@/components/speaking/SpeakingResultsSkeleton';
+import { ResultReviewPanel } from '@/components/review/ResultReviewPanel';
 import {
   Mic,
   RotateCcw,
@@ -702,6 +703,8 @@ export default function AISpeakingResults() {
             </div>
           </Card>
 
+          <ResultReviewPanel key={result.id} sourceType="speaking_result" sourceId={result.id} className="mb-4 md:mb-6" />
+
           {/* MERGED TABS: Feedback, Review, Lexical, Parts */}
           <Tabs defaultValue="feedback" className="mb-6">
             <TabsList className="w-full overflow-x-auto flex md:grid md:grid-cols-4 h-auto p-1">
@@ -11,6 +11,8 @@ import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { IELTSVisualRenderer, IELTSChartData } from '@/components/common/IELTSVisualRenderer';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { WritingAnnotation } from '@/lib/writingAnnotations';
 import {
   RotateCcw,
   Home,
@@ -46,6 +48,7 @@ interface TaskEvaluation {
   key_strengths: string[];
   priority_improvements: string[];
   model_paragraph?: string;
+  annotations: WritingAnnotation[];
 }
 
 interface WritingEvaluationReport {
@@ -112,6 +115,7 @@ function normalizeEvaluationReport(raw: any): WritingEvaluationReport {
       key_strengths: asArray<string>(t.key_strengths),
       priority_improvements: asArray<string>(t.priority_improvements),
       model_paragraph: t.model_paragraph,
+      annotations: asArray<WritingAnnotation>(t.annotations),
     };
   };
 
@@ -341,7 +345,7 @@ export default function AIWritingResults() {
     );
   };
 
-  const renderTaskEvaluation = (taskEval: TaskEvaluation | undefined, taskNumber: 1 | 2, taskBand?: number) => {
+  const renderTaskEvaluation = (taskEval: TaskEvaluation | undefined, taskNumber: 1 | 2, taskBand?: number, submittedText?: string) => {
     if (!taskEval) return null;
     const isTask1 = taskNumber === 1;
     const criteria = getCriteria(taskEval, isTask1);
@@ -390,6 +394,21 @@ export default function AIWritingResults() {
           </Card>
         )}
 
+        {/* Submitted text with inline error annotations */}
+        {submittedText && (
+          <Card className="mb-4">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base flex items-center gap-2">
+                <FileText className="w-4 h-4" />
+                Your Response
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <AnnotatedEssay text={submittedText} annotations={taskEval.annotations} />
+            </CardContent>
+          </Card>
+        )}
+
         {/* Criteria Breakdown */}
         {criteria.map(c => renderCriteriaCard(c))}
 
@@ -527,11 +546,11 @@ export default function AIWritingResults() {
               </TabsList>
 
               <TabsContent value="task1" className="mt-6">
-                {renderTaskEvaluation(report?.task1_evaluation, 1, report?.task1_band)}
+                {renderTaskEvaluation(report?.task1_evaluation, 1, report?.task1_band, result.task1_text)}
               </TabsContent>
 
               <TabsContent value="task2" className="mt-6">
-                {renderTaskEvaluation(report?.task2_evaluation, 2, report?.task2_band)}
+                {renderTaskEvaluation(report?.task2_evaluation, 2, report?.task2_band, result.task2_text)}
               </TabsContent>
 
               <TabsContent value="combined" className="mt-6 space-y-4">
@@ -600,7 +619,7 @@ export default function AIWritingResults() {
           ) : (
             // Single task evaluation
             <div className="mb-6">
-              {renderTaskEvaluation(singleTaskEval, 1)}
+              {renderTaskEvaluation(singleTaskEval, 1, undefined, result.task1_text || result.task2_text)}
             </div>
           )}
 
@@ -32,6 +32,8 @@ import { describeApiError } from '@/lib/apiErrors';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
+import { ExamPlannerPanel } from '@/components/analytics/ExamPlannerPanel';
+import { StudyPlanPanel } from '@/components/analytics/StudyPlanPanel';
 
 interface DetailedExample {
   testName: string;
@@ -441,6 +443,14 @@ export default function Analytics() {
       <div className="fixed inset-0 neural-grid opacity-[0.02] pointer-events-none" />
 
       <main className="container mx-auto px-4 py-8 relative flex-1 select-text">
+        {/* Exam planner, question-type diagnosis and weekly drill plan - built from stored results, no AI call */}
+        {user && (
+          <div className="mb-8 space-y-6">
+            <ExamPlannerPanel userId={user.id} />
+            <StudyPlanPanel userId={user.id} />
+          </div>
+        )}
+
         {!analytics ? (
           /* No Analytics - Prompt to Generate */
           <Card className="max-w-lg mx-auto text-center card-ai">
@@ -0,0 +1,117 @@
+import { useEffect, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { CheckCircle2, Clock, Loader2, XCircle } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+
+type ReturnState = 'confirming' | 'confirmed' | 'failed' | 'delayed' | 'cancelled';
+
+const POLL_INTERVAL_MS = 2000;
+// The webhook usually lands within seconds; after this the page stops waiting
+const POLL_ATTEMPTS = 15;
+
+/**
+ * Where the billing provider sends users back after checkout. Payment is
+ * confirmed by billing-webhook, not by this redirect, so on success the page
+ * waits for the subscription or purchase to change from pending.
+ */
+export default function CheckoutReturn() {
+  const [searchParams] = useSearchParams();
+  const { user, loading: authLoading } = useAuth();
+  const kind = searchParams.get('kind') === 'credit_pack' ? 'credit_pack' : 'subscription';
+  const sessionId = searchParams.get('session_id');
+  const [state, setState] = useState<ReturnState>(
+    searchParams.get('status') === 'success' ? 'confirming' : 'cancelled'
+  );
+
+  useEffect(() => {
+    if (state !== 'confirming' || authLoading || !user) return;
+
+    let cancelled = false;
+    let attempts = 0;
+
+    const check = async () => {
+      const table = kind === 'credit_pack' ? 'credit_purchases' : 'subscriptions';
+      let query = supabase
+        .from(table)
+        .select('status')
+        .eq('user_id', user.id);
+      if (sessionId) query = query.eq('provider_checkout_id', sessionId);
+
+      const { data, error } = await query
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (cancelled) return;
+      if (error) console.error('Error checking checkout status:', error);
+
+      const status = data?.status;
+      if (status === 'active' || status === 'completed') {
+        setState('confirmed');
+      } else if (status === 'failed' || status === 'expired') {
+        setState('failed');
+      } else if (++attempts >= POLL_ATTEMPTS) {
+        setState('delayed');
+      } else {
+        timer = setTimeout(check, POLL_INTERVAL_MS);
+      }
+    };
+
+    let timer = setTimeout(check, 0);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [state, authLoading, user, kind, sessionId]);
+
+  const item = kind === 'credit_pack' ? 'credits' : 'plan';
+  const content: Record<ReturnState, { icon: JSX.Element; title: string; description: string }> = {
+    confirming: {
+      icon: <Loader2 className="w-12 h-12 text-primary animate-spin" />,
+      title: 'Confirming your payment…',
+      description: 'This usually takes a few seconds.',
+    },
+    confirmed: {
+      icon: <CheckCircle2 className="w-12 h-12 text-emerald-600" />,
+      title: 'Payment confirmed',
+      description: kind === 'credit_pack'
+        ? 'Your credits have been added to your account.'
+        : 'Your plan is active. Enjoy your practice!',
+    },
+    failed: {
+      icon: <XCircle className="w-12 h-12 text-destructive" />,
+      title: 'Payment failed',
+      description: `Your ${item} could not be activated. You have not been charged for this attempt.`,
+    },
+    delayed: {
+      icon: <Clock className="w-12 h-12 text-muted-foreground" />,
+      title: 'Payment is still processing',
+      description: `We will activate your ${item} as soon as the payment is confirmed. You can leave this page.`,
+    },
+    cancelled: {
+      icon: <XCircle className="w-12 h-12 text-muted-foreground" />,
+      title: 'Checkout cancelled',
+      description: 'No payment was taken. You can choose a plan again at any time.',
+    },
+  };
+  const { icon, title, description } = content[state];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-primary/5 flex items-center justify-center px-4">
+      <div className="max-w-md w-full text-center space-y-4 rounded-2xl border border-border/50 bg-card p-8">
+        <div className="flex justify-center">{icon}</div>
+        <h1 className="text-2xl font-bold">{title}</h1>
+        <p className="text-muted-foreground">{description}</p>
+        <div className="flex flex-col sm:flex-row justify-center gap-3 pt-2">
+          <Link to="/ai-practice">
+            <Button className="w-full">Start practising</Button>
+          </Link>
+          <Link to="/">
+            <Button variant="outline" className="w-full">Home</Button>
+          </Link>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { CalendarClock, GraduationCap, Loader2, LogOut, MessageSquare, Play } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  Classroom,
+  StudentAssignment,
+  getAssignmentTestPath,
+  isAssignmentOverdue,
+  joinClassByCode,
+  leaveClass,
+  loadStudentClassroom,
+  startPresetAssignment,
+} from '@/lib/classroom';
+
+const formatDue = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+function GradeBadge({ item }: { item: StudentAssignment }) {
+  const { grade, assignment } = item;
+  if (grade.status === 'graded' && grade.band !== null) {
+    return (
+      <Badge className="bg-emerald-500/10 text-emerald-600 border-emerald-500/20">
+        Band {grade.band.toFixed(1)}{grade.overridden ? ' (teacher)' : ''}
+      </Badge>
+    );
+  }
+  if (grade.status === 'awaiting_band') return <Badge variant="secondary">Submitted - evaluating</Badge>;
+  if (isAssignmentOverdue(assignment)) return <Badge variant="destructive">Overdue</Badge>;
+  return <Badge variant="outline">To do</Badge>;
+}
+
+export default function Classes() {
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [assignments, setAssignments] = useState<StudentAssignment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [inviteCode, setInviteCode] = useState('');
+  const [joining, setJoining] = useState(false);
+  const [startingId, setStartingId] = useState<string | null>(null);
+
+  const loadClassroom = useCallback(async () => {
+    if (!user) return;
+    try {
+      const data = await loadStudentClassroom({
+        id: user.id,
+        name: user.email ?? 'Me',
+        email: user.email ?? null,
+        joinedAt: '',
+      });
+      setClasses(data.classes);
+      setAssignments(data.assignments);
+    } catch (error) {
+      console.error('Error loading classes:', error);
+      toast.error('Could not load your classes');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate(`/auth?returnTo=${encodeURIComponent('/classes')}`);
+      return;
+    }
+    loadClassroom();
+  }, [authLoading, user, navigate, loadClassroom]);
+
+  // Open work first, soonest due at the top; finished work after it
+  const sortedAssignments = useMemo(
+    () =>
+      [...assignments].sort((a, b) => {
+        const aDone = a.grade.status !== 'missing';
+        const bDone = b.grade.status !== 'missing';
+        if (aDone !== bDone) return aDone ? 1 : -1;
+        return a.assignment.due_at.localeCompare(b.assignment.due_at);
+      }),
+    [assignments]
+  );
+
+  const handleJoin = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!inviteCode.trim()) return;
+    setJoining(true);
+    try {
+      const { className } = await joinClassByCode(inviteCode);
+      toast.success(`Joined ${className}`);
+      setInviteCode('');
+      await loadClassroom();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not join the class');
+    } finally {
+      setJoining(false);
+    }
+  };
+
+  const handleLeave = async (classroom: Classroom) => {
+    if (!user || !confirm(`Leave ${classroom.name}? Your teacher will no longer see your results.`)) return;
+    try {
+      await leaveClass(classroom.id, user.id);
+      await loadClassroom();
+    } catch (error) {
+      console.error('Error leaving class:', error);
+      toast.error('Could not leave the class');
+    }
+  };
+
+  const handleStart = async (item: StudentAssignment) => {
+    if (!user) return;
+    const testPath = getAssignmentTestPath(item.assignment);
+    if (testPath) {
+      navigate(testPath);
+      return;
+    }
+    setStartingId(item.assignment.id);
+    try {
+      navigate(await startPresetAssignment(item.assignment, user.id));
+    } catch (error) {
+      console.error('Error starting assignment:', error);
+      toast.error('Could not start this assignment');
+    } finally {
+      setStartingId(null);
+    }
+  };
+
+  if (authLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading classes...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <GraduationCap className="w-8 h-8 text-primary" />
+            My Classes
+          </h1>
+          <p className="text-muted-foreground mt-1">Assignments from your teachers and the bands they gave you.</p>
+        </div>
+
+        <Card className="mb-8">
+          <CardHeader>
+            <CardTitle className="text-lg">Join a class</CardTitle>
+            <CardDescription>Enter the invite code your teacher gave you.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleJoin} className="flex gap-3">
+              <Input
+                value={inviteCode}
+                onChange={e => setInviteCode(e.target.value)}
+                placeholder="e.g. K7QM4TZP"
+                className="font-mono uppercase max-w-xs"
+                maxLength={16}
+              />
+              <Button type="submit" disabled={joining || !inviteCode.trim()}>
+                {joining && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Join
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {classes.length > 0 && (
+          <div className="flex flex-wrap gap-2 mb-6">
+            {classes.map(classroom => (
+              <Badge key={classroom.id} variant="outline" className="gap-2 py-1.5 px-3 text-sm">
+                {classroom.name}
+                <button
+                  type="button"
+                  onClick={() => handleLeave(classroom)}
+                  className="text-muted-foreground hover:text-destructive"
+                  aria-label={`Leave ${classroom.name}`}
+                >
+                  <LogOut className="w-3.5 h-3.5" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {classes.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">You have not joined any classes yet.</p>
+        ) : sortedAssignments.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">No assignments yet.</p>
+        ) : (
+          <div className="space-y-3">
+            {sortedAssignments.map(item => (
+              <Card key={item.assignment.id}>
+                <CardContent className="p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <span className="font-medium">{item.assignment.title}</span>
+                      <Badge variant="secondary" className="capitalize">{item.assignment.module}</Badge>
+                      <GradeBadge item={item} />
+                    </div>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                      <CalendarClock className="w-3.5 h-3.5" />
+                      {item.className} · Due {formatDue(item.assignment.due_at)}
+                      {item.grade.late && ' · Submitted late'}
+                    </p>
+                    {item.assignment.instructions && (
+                      <p className="text-sm mt-2">{item.assignment.instructions}</p>
+                    )}
+                    {item.grade.comment && (
+                      <p className="text-sm mt-2 flex items-start gap-1.5 text-primary">
+                        <MessageSquare className="w-3.5 h-3.5 mt-0.5 shrink-0" />
+                        {item.grade.comment}
+                      </p>
+                    )}
+                  </div>
+                  <Button
+                    variant={item.grade.status === 'missing' ? 'default' : 'outline'}
+                    className="gap-2 shrink-0"
+                    disabled={startingId === item.assignment.id || (!item.assignment.test_id && !item.assignment.preset_id)}
+                    onClick={() => handleStart(item)}
+                  >
+                    {startingId === item.assignment.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                    {item.grade.status === 'missing' ? 'Start' : 'Try again'}
+                  </Button>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { 
   Plus,
   ArrowLeft,
@@ -24,16 +25,35 @@ import {
   FolderPlus,
   Layers,
   Check,
-  X,
   RotateCcw,
   Brain,
   Zap,
-  Target
+  Target,
+  CalendarClock,
+  Upload,
+  Download
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import {
+  ReviewGrade,
+  getDueCards,
+  getNextInterval,
+  formatInterval,
+  scheduleReview,
+  isCardDue,
+  DEFAULT_EASE_FACTOR,
+} from '@/lib/spacedRepetition';
+import {
+  FlashcardFileFormat,
+  buildApkg,
+  deckFileName,
+  downloadBlob,
+  toDelimited,
+} from '@/lib/flashcardImportExport';
 import { toast } from '@/hooks/use-toast';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
+import { FlashcardImportDialog } from '@/components/common/FlashcardImportDialog';
 
 interface Flashcard {
   id: string;
@@ -45,6 +65,12 @@ interface Flashcard {
   status: 'learning' | 'reviewing' | 'mastered';
   review_count: number;
   correct_count: number;
+  ease_factor: number;
+  interval_days: number;
+  repetitions: number;
+  lapses: number;
+  next_review_at: string | null;
+  last_reviewed_at?: string | null;
 }
 
 interface Deck {
@@ -57,15 +83,24 @@ interface Deck {
   learning_count: number;
   reviewing_count: number;
   mastered_count: number;
+  due_count: number;
 }
 
 interface DeckStats {
   learning: number;
   reviewing: number;
   mastered: number;
+  due: number;
   total: number;
 }
 
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+  { grade: 'again', label: 'Again', className: 'border-rose-500 text-rose-600 hover:bg-rose-50' },
+  { grade: 'hard', label: 'Hard', className: 'border-amber-500 text-amber-600 hover:bg-amber-50' },
+  { grade: 'good', label: 'Good', className: 'border-blue-500 text-blue-600 hover:bg-blue-50' },
+  { grade: 'easy', label: 'Easy', className: 'border-emerald-500 text-emerald-600 hover:bg-emerald-50' },
+];
+
 type PracticeMode = 'progressive' | 'static';
 
 export default function Flashcards() {
@@ -79,12 +114,14 @@ export default function Flashcards() {
   const [loading, setLoading] = useState(true);
   const [showAddDeck, setShowAddDeck] = useState(false);
   const [showAddCard, setShowAddCard] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [exporting, setExporting] = useState(false);
   const [newDeckName, setNewDeckName] = useState('');
   const [newDeckDescription, setNewDeckDescription] = useState('');
   const [newCard, setNewCard] = useState({ word: '', meaning: '', example: '' });
   const [translating, setTranslating] = useState(false);
   const [practiceMode, setPracticeMode] = useState<PracticeMode>('progressive');
-  const [deckStats, setDeckStats] = useState<DeckStats>({ learning: 0, reviewing: 0, mastered: 0, total: 0 });
+  const [deckStats, setDeckStats] = useState<DeckStats>({ learning: 0, reviewing: 0, mastered: 0, due: 0, total: 0 });
   const [practiceCards, setPracticeCards] = useState<Flashcard[]>([]);
   const [sessionComplete, setSessionComplete] = useState(false);
   const [, setIsReviewingAll] = useState(false);
@@ -124,13 +161,14 @@ export default function Flashcards() {
       const decksWithCounts = await Promise.all((data || []).map(async (deck) => {
         const { data: cards } = await supabase
           .from('flashcard_cards')
-          .select('status')
+          .select('status, next_review_at')
           .eq('deck_id', deck.id);
         
         const cardsList = cards || [];
         const learning_count = cardsList.filter(c => c.status === 'learning').length;
         const reviewing_count = cardsList.filter(c => c.status === 'reviewing').length;
         const mastered_count = cardsList.filter(c => c.status === 'mastered').length;
+        const due_count = cardsList.filter(c => isCardDue(c)).length;
         
         return { 
           ...deck, 
@@ -138,6 +176,7 @@ export default function Flashcards() {
           learning_count,
           reviewing_count,
           mastered_count,
+          due_count,
         };
       }));
 
@@ -150,8 +189,8 @@ export default function Flashcards() {
     }
   };
 
-  const loadCards = async (deckId: string) => {
-    if (!user) return;
+  const loadCards = async (deckId: string): Promise<Flashcard[]> => {
+    if (!user) return [];
     
     try {
       const { data, error } = await supabase
@@ -173,9 +212,11 @@ export default function Flashcards() {
       
       // Prepare practice cards based on mode
       preparePracticeCards(loadedCards);
+      return loadedCards;
     } catch (error) {
       console.error('Error loading cards:', error);
       setCards([]);
+      return [];
     }
   };
 
@@ -184,6 +225,7 @@ export default function Flashcards() {
       learning: cardList.filter(c => c.status === 'learning').length,
       reviewing: cardList.filter(c => c.status === 'reviewing').length,
       mastered: cardList.filter(c => c.status === 'mastered').length,
+      due: cardList.filter(c => isCardDue(c)).length,
       total: cardList.length
     };
     setDeckStats(stats);
@@ -193,44 +235,9 @@ export default function Flashcards() {
     setIsReviewingAll(includeAll);
     
     if (practiceMode === 'progressive' && !includeAll) {
-      // Progressive mode: prioritize cards user doesn't know well
-      // Cards with lower correct_count and higher review_count should appear more often
-      const learningCards = cardList.filter(c => c.status === 'learning');
-      const reviewingCards = cardList.filter(c => c.status === 'reviewing');
-      
-      // Weight cards by their difficulty (lower correct ratio = higher priority)
-      const weightedSort = (cards: Flashcard[]) => {
-        return cards.sort((a, b) => {
-          const ratioA = a.review_count > 0 ? a.correct_count / a.review_count : 0;
-          const ratioB = b.review_count > 0 ? b.correct_count / b.review_count : 0;
-          // Lower ratio (more difficult) comes first
-          return ratioA - ratioB;
-        });
-      };
-      
-      // Sort learning cards by difficulty (harder ones first)
-      const sortedLearning = weightedSort([...learningCards]);
-      // Sort reviewing cards by difficulty
-      const sortedReviewing = weightedSort([...reviewingCards]);
-      
-      // Add some randomization while maintaining priority
-      const shuffleWithPriority = (cards: Flashcard[]) => {
-        // Take chunks and shuffle within each chunk
-        const chunkSize = Math.max(3, Math.floor(cards.length / 3));
-        const result: Flashcard[] = [];
-        for (let i = 0; i < cards.length; i += chunkSize) {
-          const chunk = cards.slice(i, i + chunkSize);
-          result.push(...chunk.sort(() => Math.random() - 0.5));
-        }
-        return result;
-      };
-      
-      const combinedCards = [
-        ...shuffleWithPriority(sortedLearning),
-        ...shuffleWithPriority(sortedReviewing)
-      ];
-      
-      setPracticeCards(combinedCards);
+      // Progressive mode: only the cards the scheduler says are due today,
+      // most overdue first, then cards that have never been reviewed
+      setPracticeCards(getDueCards(cardList));
     } else {
       // Static mode OR includeAll (Review All): all cards shuffled including mastered
       setPracticeCards([...cardList].sort(() => Math.random() - 0.5));
@@ -256,7 +263,7 @@ export default function Flashcards() {
 
       if (error) throw error;
 
-      setDecks([{ ...data, card_count: 0, learning_count: 0, reviewing_count: 0, mastered_count: 0 }, ...decks]);
+      setDecks([{ ...data, card_count: 0, learning_count: 0, reviewing_count: 0, mastered_count: 0, due_count: 0 }, ...decks]);
       setNewDeckName('');
       setNewDeckDescription('');
       setShowAddDeck(false);
@@ -398,36 +405,22 @@ export default function Flashcards() {
     }
   };
 
-  const handleCardResponse = async (knewIt: boolean) => {
+  const handleCardResponse = async (grade: ReviewGrade) => {
     // Allow response handling in progressive mode OR when reviewing all cards
-    if (practiceMode !== 'progressive' || practiceCards.length === 0) return;
+    if (practiceMode !== 'progressive' || practiceCards.length === 0 || !user) return;
     
     const currentCard = practiceCards[currentCardIndex];
     if (!currentCard) return;
 
-    // Update card status based on response
-    let newStatus: 'learning' | 'reviewing' | 'mastered' = currentCard.status;
+    const schedule = scheduleReview(currentCard, grade);
     const newReviewCount = currentCard.review_count + 1;
-    const newCorrectCount = knewIt ? currentCard.correct_count + 1 : currentCard.correct_count;
-
-    if (knewIt) {
-      if (currentCard.status === 'learning') {
-        newStatus = 'reviewing';
-      } else if (currentCard.status === 'reviewing' && newCorrectCount >= 3) {
-        newStatus = 'mastered';
-      }
-    } else {
-      // If wrong, move back to learning
-      if (currentCard.status === 'mastered' || currentCard.status === 'reviewing') {
-        newStatus = 'learning';
-      }
-    }
+    const newCorrectCount = grade !== 'again' ? currentCard.correct_count + 1 : currentCard.correct_count;
 
     try {
       const { error } = await supabase
         .from('flashcard_cards')
         .update({
-          status: newStatus,
+          ...schedule,
           review_count: newReviewCount,
           correct_count: newCorrectCount
         })
@@ -435,17 +428,38 @@ export default function Flashcards() {
 
       if (error) throw error;
 
+      // Review log is best-effort; scheduling state is already saved
+      supabase
+        .from('flashcard_reviews')
+        .insert({
+          card_id: currentCard.id,
+          user_id: user.id,
+          grade,
+          interval_days: schedule.interval_days,
+          ease_factor: schedule.ease_factor,
+        })
+        .then(({ error: logError }) => {
+          if (logError) console.error('Error logging flashcard review:', logError);
+        });
+
+      const updatedCard: Flashcard = {
+        ...currentCard,
+        ...schedule,
+        review_count: newReviewCount,
+        correct_count: newCorrectCount,
+      };
+
       // Update local state
-      const updatedCards = cards.map(c => 
-        c.id === currentCard.id 
-          ? { ...c, status: newStatus, review_count: newReviewCount, correct_count: newCorrectCount }
-          : c
-      );
+      const updatedCards = cards.map(c => c.id === currentCard.id ? updatedCard : c);
       setCards(updatedCards);
       updateDeckStats(updatedCards);
 
+      // Forgotten cards come back at the end of this session
+      const queue = grade === 'again' ? [...practiceCards, updatedCard] : practiceCards;
+      if (grade === 'again') setPracticeCards(queue);
+
       // Move to next card
-      if (currentCardIndex < practiceCards.length - 1) {
+      if (currentCardIndex < queue.length - 1) {
         setCurrentCardIndex(currentCardIndex + 1);
         setIsFlipped(false);
       } else {
@@ -453,6 +467,37 @@ export default function Flashcards() {
       }
     } catch (error) {
       console.error('Error updating card:', error);
+      toast({ title: 'Failed to save review', variant: 'destructive' });
+    }
+  };
+
+  const handleCardsImported = async () => {
+    if (!currentDeck) return;
+    
+    const loadedCards = await loadCards(currentDeck.id);
+    setDecks(decks.map(d => 
+      d.id === currentDeck.id ? { ...d, card_count: loadedCards.length } : d
+    ));
+  };
+
+  const exportDeck = async (format: FlashcardFileFormat) => {
+    if (!currentDeck || cards.length === 0) return;
+    
+    const stem = deckFileName(currentDeck.name);
+    setExporting(true);
+    try {
+      if (format === 'apkg') {
+        downloadBlob(await buildApkg(currentDeck.name, cards), `${stem}.apkg`);
+      } else {
+        const mimeType = format === 'tsv' ? 'text/tab-separated-values' : 'text/csv';
+        downloadBlob(new Blob([toDelimited(cards, format)], { type: `${mimeType};charset=utf-8` }), `${stem}.${format}`);
+      }
+      toast({ title: 'Deck exported', description: `${cards.length} cards saved as .${format}` });
+    } catch (error) {
+      console.error('Error exporting deck:', error);
+      toast({ title: 'Failed to export deck', variant: 'destructive' });
+    } finally {
+      setExporting(false);
     }
   };
 
@@ -491,7 +536,13 @@ export default function Flashcards() {
         .update({
           status: 'learning',
           review_count: 0,
-          correct_count: 0
+          correct_count: 0,
+          ease_factor: DEFAULT_EASE_FACTOR,
+          interval_days: 0,
+          repetitions: 0,
+          lapses: 0,
+          next_review_at: null,
+          last_reviewed_at: null
         })
         .eq('deck_id', currentDeck.id)
         .eq('user_id', user.id);
@@ -503,13 +554,19 @@ export default function Flashcards() {
         ...c,
         status: 'learning' as const,
         review_count: 0,
-        correct_count: 0
+        correct_count: 0,
+        ease_factor: DEFAULT_EASE_FACTOR,
+        interval_days: 0,
+        repetitions: 0,
+        lapses: 0,
+        next_review_at: null,
+        last_reviewed_at: null
       }));
       setCards(resetCards);
       updateDeckStats(resetCards);
       preparePracticeCards(resetCards);
       
-      toast({ title: 'Deck reset', description: 'All cards are now in learning mode.' });
+      toast({ title: 'Deck reset', description: 'All cards are now in learning mode and due today.' });
     } catch (error) {
       console.error('Error resetting deck:', error);
       toast({ title: 'Failed to reset deck', variant: 'destructive' });
@@ -664,7 +721,15 @@ export default function Flashcards() {
                         )}
                         
                         <div className="flex items-center justify-between pt-1">
-                          <Badge variant="secondary">{deck.card_count} cards</Badge>
+                          <div className="flex items-center gap-2">
+                            <Badge variant="secondary">{deck.card_count} cards</Badge>
+                            {deck.due_count > 0 && (
+                              <Badge variant="outline" className="gap-1 border-primary/40 text-primary">
+                                <CalendarClock size={12} />
+                                {deck.due_count} due
+                              </Badge>
+                            )}
+                          </div>
                           <span className="text-xs text-muted-foreground">
                             {new Date(deck.created_at).toLocaleDateString()}
                           </span>
@@ -691,6 +756,21 @@ export default function Flashcards() {
                 <Button variant="outline" onClick={shuffleCards} disabled={cards.length < 2}>
                   <Shuffle size={18} />
                 </Button>
+                <Button variant="outline" onClick={() => setShowImport(true)} title="Import cards">
+                  <Upload size={18} />
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="outline" disabled={cards.length === 0 || exporting} title="Export deck">
+                      {exporting ? <Loader2 size={18} className="animate-spin" /> : <Download size={18} />}
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => exportDeck('csv')}>Export as CSV</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportDeck('tsv')}>Export as TSV</DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => exportDeck('apkg')}>Export as Anki (.apkg)</DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 <Dialog open={showAddCard} onOpenChange={setShowAddCard}>
                   <DialogTrigger asChild>
                     <Button className="gap-2">
@@ -759,7 +839,14 @@ export default function Flashcards() {
             {practiceMode === 'progressive' && cards.length > 0 && (
               <Card className="mb-6 bg-gradient-to-r from-primary/5 to-accent/5 border-primary/20">
                 <CardContent className="pt-4">
-                  <div className="grid grid-cols-3 gap-4 text-center mb-4">
+                  <div className="grid grid-cols-4 gap-4 text-center mb-4">
+                    <div className="space-y-1">
+                      <div className="flex items-center justify-center gap-2">
+                        <CalendarClock className="w-4 h-4 text-primary" />
+                        <span className="font-bold text-lg">{deckStats.due}</span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">Due Today</p>
+                    </div>
                     <div className="space-y-1">
                       <div className="flex items-center justify-center gap-2">
                         <Brain className="w-4 h-4 text-amber-500" />
@@ -798,11 +885,17 @@ export default function Flashcards() {
                 <CardContent>
                   <BookOpen className="w-16 h-16 mx-auto text-muted-foreground/50 mb-4" />
                   <h3 className="text-lg font-medium mb-2">No cards in this deck</h3>
-                  <p className="text-muted-foreground mb-4">Add your first flashcard to start learning</p>
-                  <Button onClick={() => setShowAddCard(true)} className="gap-2">
-                    <Plus size={18} />
-                    Add Card
-                  </Button>
+                  <p className="text-muted-foreground mb-4">Add your first flashcard or import a CSV / Anki deck</p>
+                  <div className="flex justify-center gap-2">
+                    <Button onClick={() => setShowAddCard(true)} className="gap-2">
+                      <Plus size={18} />
+                      Add Card
+                    </Button>
+                    <Button variant="outline" onClick={() => setShowImport(true)} className="gap-2">
+                      <Upload size={18} />
+                      Import
+                    </Button>
+                  </div>
                 </CardContent>
               </Card>
             ) : (
@@ -841,7 +934,7 @@ export default function Flashcards() {
                         <Target className="w-16 h-16 mx-auto text-emerald-500 mb-4" />
                         <h3 className="text-xl font-bold mb-2">Session Complete!</h3>
                         <p className="text-muted-foreground mb-4">
-                          Great job! You've reviewed all available cards.
+                          Great job! You've finished today's reviews. Come back tomorrow for the next batch.
                         </p>
                         <Button onClick={() => restartSession()} className="gap-2">
                           <RotateCcw size={18} />
@@ -853,9 +946,9 @@ export default function Flashcards() {
                     <Card className="text-center py-12 max-w-md mx-auto">
                       <CardContent>
                         <Check className="w-16 h-16 mx-auto text-emerald-500 mb-4" />
-                        <h3 className="text-xl font-bold mb-2">All Mastered!</h3>
+                        <h3 className="text-xl font-bold mb-2">Nothing Due Today</h3>
                         <p className="text-muted-foreground mb-4">
-                          You've mastered all cards in this deck. Keep it up!
+                          You're all caught up on this deck. Cards will come back when they're due.
                         </p>
                         <Button onClick={() => restartSession(true)} variant="outline" className="gap-2">
                           <RotateCcw size={18} />
@@ -924,25 +1017,29 @@ export default function Flashcards() {
 
                       {/* Navigation / Response Buttons */}
                       {practiceMode === 'progressive' ? (
-                        <div className="flex items-center justify-center gap-4 mt-6">
-                          <Button 
-                            variant="outline"
-                            size="lg"
-                            onClick={() => handleCardResponse(false)}
-                            className="gap-2 border-rose-500 text-rose-600 hover:bg-rose-50"
-                          >
-                            <X size={20} />
-                            I didn't know
-                          </Button>
-                          <Button 
-                            size="lg"
-                            onClick={() => handleCardResponse(true)}
-                            className="gap-2 bg-emerald-600 hover:bg-emerald-700"
-                          >
-                            <Check size={20} />
-                            I knew this
-                          </Button>
-                        </div>
+                        isFlipped ? (
+                          <div className="grid grid-cols-4 gap-2 mt-6">
+                            {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                              <Button
+                                key={grade}
+                                variant="outline"
+                                onClick={() => handleCardResponse(grade)}
+                                className={cn("flex flex-col h-auto py-2 gap-0.5", className)}
+                              >
+                                <span className="font-medium">{label}</span>
+                                <span className="text-[10px] opacity-75">
+                                  {currentCard ? formatInterval(getNextInterval(currentCard, grade)) : ''}
+                                </span>
+                              </Button>
+                            ))}
+                          </div>
+                        ) : (
+                          <div className="flex justify-center mt-6">
+                            <Button size="lg" onClick={() => setIsFlipped(true)}>
+                              Show Answer
+                            </Button>
+                          </div>
+                        )
                       ) : (
                         <div className="flex items-center justify-between mt-6">
                           <Button 
@@ -970,7 +1067,7 @@ export default function Flashcards() {
                       {/* Progress indicator for progressive mode */}
                       {practiceMode === 'progressive' && (
                         <p className="text-center text-sm text-muted-foreground mt-4">
-                          Card {currentCardIndex + 1} of {practiceCards.length}
+                          Card {currentCardIndex + 1} of {practiceCards.length} due today
                         </p>
                       )}
                     </div>
@@ -1018,6 +1115,14 @@ export default function Flashcards() {
                 </TabsContent>
               </Tabs>
             )}
+
+            <FlashcardImportDialog
+              open={showImport}
+              onOpenChange={setShowImport}
+              deckId={currentDeck.id}
+              existingWords={cards.map(c => c.word)}
+              onImported={handleCardsImported}
+            />
           </>
         )}
       </main>
@@ -15,9 +15,21 @@ import {
   PenLine, 
   Mic,
   Play,
-  Brain
+  Brain,
+  Loader2,
+  Timer
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  MOCK_EXAM_SECTIONS,
+  MockExamSession,
+  MockExamTests,
+  createMockExamSession,
+  getActiveMockExamSession,
+  getSessionPath,
+} from '@/lib/mockExam';
 
 interface CambridgeBook {
   name: string;
@@ -31,14 +43,44 @@ interface CambridgeBook {
 
 export default function FullMockTest() {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [books, setBooks] = useState<Record<string, CambridgeBook>>({});
   const [selectedBook, setSelectedBook] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
+  const [activeSession, setActiveSession] = useState<MockExamSession | null>(null);
+  const [startingTest, setStartingTest] = useState<number | null>(null);
 
   useEffect(() => {
     fetchAllTests();
   }, []);
 
+  useEffect(() => {
+    if (!user) return;
+    getActiveMockExamSession(user.id)
+      .then(setActiveSession)
+      .catch(err => console.error('Error fetching active mock exam:', err));
+  }, [user]);
+
+  const startMockExam = async (testNumber: number, tests: MockExamTests) => {
+    if (!user) {
+      navigate(`/auth?returnTo=${encodeURIComponent('/full-mock-test')}`);
+      return;
+    }
+    setStartingTest(testNumber);
+    try {
+      const session = await createMockExamSession(user.id, tests, {
+        bookName: selectedBook ?? undefined,
+        testNumber,
+      });
+      navigate(getSessionPath(session.id));
+    } catch (error) {
+      console.error('Error starting mock exam:', error);
+      toast.error('Could not start the mock exam. Please try again.');
+    } finally {
+      setStartingTest(null);
+    }
+  };
+
   const fetchAllTests = async () => {
     try {
       // Fetch all test types
@@ -177,6 +219,23 @@ export default function FullMockTest() {
           </p>
         </div>
 
+        {activeSession && (
+          <Card className="mb-8 border-primary/50 bg-primary/5">
+            <CardContent className="p-4 flex flex-wrap items-center justify-between gap-3">
+              <div>
+                <p className="font-medium">You have a mock exam in progress</p>
+                <p className="text-sm text-muted-foreground">
+                  {[activeSession.book_name, activeSession.test_number && `Test ${activeSession.test_number}`].filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <Button onClick={() => navigate(getSessionPath(activeSession.id))} className="gap-2">
+                <Play className="w-4 h-4" />
+                Resume Mock Exam
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
         {!selectedBook ? (
           /* Book Selection Grid */
           <>
@@ -297,6 +356,33 @@ export default function FullMockTest() {
                     </CardHeader>
                     <CardContent className="p-6">
                       <div className="space-y-3">
+                        {/* Timed four-skill session */}
+                        {listeningTest && readingTest && writingTest && speakingTest && (
+                          <div className="p-3 rounded-lg bg-primary/5 border border-primary/30 flex flex-wrap items-center justify-between gap-3">
+                            <div>
+                              <p className="font-medium">Full Mock Exam</p>
+                              <p className="text-sm text-muted-foreground">
+                                <Timer className="w-3 h-3 inline mr-1" />
+                                {MOCK_EXAM_SECTIONS.map(s => s.label).join(' → ')} with official timings
+                              </p>
+                            </div>
+                            <Button
+                              size="sm"
+                              className="gap-1"
+                              disabled={startingTest !== null}
+                              onClick={() => startMockExam(testNumber, {
+                                listening: listeningTest.id,
+                                reading: readingTest.id,
+                                writing: writingTest.id,
+                                speaking: speakingTest.id,
+                              })}
+                            >
+                              {startingTest === testNumber ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+                              Start Exam
+                            </Button>
+                          </div>
+                        )}
+
                         {/* Reading */}
                         {readingTest && (
                           <div 
@@ -0,0 +1,154 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Loader2 } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { DictationSession } from '@/components/listening/DictationSession';
+import { AlignmentSource } from '@/hooks/useTranscriptAlignment';
+
+interface DictationPart {
+  part: number;
+  transcript: string;
+  audioUrl: string;
+}
+
+interface DictationSource {
+  title: string;
+  type: AlignmentSource['type'];
+  id: string;
+  parts: DictationPart[];
+}
+
+const PARTS = [1, 2, 3, 4] as const;
+
+/**
+ * Dictation practice on a Cambridge listening test (/listening/dictation/:testId?part=N)
+ * or a published AI practice recording (/listening/dictation/preset/:presetId).
+ */
+export default function ListeningDictation() {
+  const { testId, presetId } = useParams<{ testId?: string; presetId?: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+
+  const [source, setSource] = useState<DictationSource | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      try {
+        if (presetId) {
+          const { data, error } = await supabase
+            .from('generated_test_audio')
+            .select('id, topic, transcript, audio_url')
+            .eq('id', presetId)
+            .maybeSingle();
+          if (error) throw error;
+          setSource(
+            data
+              ? {
+                  title: data.topic,
+                  type: 'generated_test_audio',
+                  id: data.id,
+                  parts: data.transcript && data.audio_url
+                    ? [{ part: 1, transcript: data.transcript, audioUrl: data.audio_url }]
+                    : [],
+                }
+              : null
+          );
+        } else if (testId) {
+          const { data, error } = await supabase
+            .from('listening_tests')
+            .select('*')
+            .eq('id', testId)
+            .maybeSingle();
+          if (error) throw error;
+          setSource(
+            data
+              ? {
+                  title: data.title,
+                  type: 'listening_test',
+                  id: data.id,
+                  parts: PARTS.flatMap(part => {
+                    const transcript = data[`transcript_part${part}` as const];
+                    const audioUrl = data[`audio_url_part${part}` as const];
+                    return transcript?.trim() && audioUrl ? [{ part, transcript, audioUrl }] : [];
+                  }),
+                }
+              : null
+          );
+        }
+      } catch (error) {
+        console.error('Error loading dictation source:', error);
+        setSource(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    load();
+  }, [testId, presetId]);
+
+  const requestedPart = Number(searchParams.get('part'));
+  const current = source?.parts.find(p => p.part === requestedPart) ?? source?.parts[0];
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5">
+      {/* Header */}
+      <header className="border-b border-border/50 bg-background/80 backdrop-blur-sm z-20">
+        <div className="container mx-auto px-4 py-4 flex items-center justify-between gap-4">
+          <Button variant="ghost" onClick={() => navigate(-1)} className="gap-2">
+            <ArrowLeft size={18} />
+            Back
+          </Button>
+          <div className="text-center">
+            <h1 className="text-lg font-semibold">{source?.title ?? 'Dictation'}</h1>
+            <p className="text-sm text-muted-foreground">Dictation - Type what you hear, sentence by sentence</p>
+          </div>
+          <div className="w-20" />
+        </div>
+      </header>
+
+      {/* Part Navigation */}
+      {source && source.parts.length > 1 && (
+        <div className="border-b border-border/50 bg-muted/30">
+          <div className="container mx-auto px-4 py-2 flex items-center gap-2">
+            {source.parts.map(p => (
+              <Button
+                key={p.part}
+                variant={p.part === current?.part ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setSearchParams({ part: String(p.part) })}
+              >
+                Part {p.part}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="container mx-auto px-4 py-6 max-w-3xl">
+        {!source || !current ? (
+          <p className="text-center text-muted-foreground py-16">
+            {source ? 'This test has no transcript with audio to practise on yet.' : 'Test not found'}
+          </p>
+        ) : (
+          <DictationSession
+            key={`${source.id}-${current.part}`}
+            transcript={current.transcript}
+            audioUrl={current.audioUrl}
+            source={{ type: source.type, id: source.id, part: current.part }}
+          />
+        )}
+      </div>
+    </div>
+  );
+}
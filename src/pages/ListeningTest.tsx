@@ -44,6 +44,10 @@ import {
   dismissRetryToast,
 } from '@/hooks/useTestSubmission';
 import { describeApiError } from '@/lib/apiErrors';
+import { useOfflineTestAttempt } from '@/hooks/useOfflineTestAttempt';
+import { getSectionSeconds, getSessionPath, recordMockExamSubmission } from '@/lib/mockExam';
+import { recordAssignmentResult } from '@/lib/classroom';
+import { getSignedInUser, loadListeningTestData, withCachedAudio } from '@/lib/offlineTests';
 
 interface Question {
   id: string;
@@ -120,6 +124,10 @@ export default function ListeningTest() {
   
   const filterType = searchParams.get('type');
   const filterPart = searchParams.get('part');
+  // Set when this test is a section of a full mock exam
+  const mockSessionId = searchParams.get('mockSession');
+  // Set when this test was opened from a class assignment
+  const assignmentId = searchParams.get('assignment');
   
   const [test, setTest] = useState<Test | null>(null);
   const [questions, setQuestions] = useState<Question[]>([]);
@@ -161,6 +169,24 @@ export default function ListeningTest() {
   } = useTestSubmission();
   
   const hasAutoSubmitted = useRef(false);
+
+  // Offline mode: keep progress on the device and queue submissions made without a connection
+  const { queueSubmission: queueOfflineSubmission, clearProgress: clearOfflineProgress } = useOfflineTestAttempt({
+    module: 'listening',
+    testId,
+    testTitle: test?.title || 'Listening Test',
+    answers,
+    currentQuestion,
+    timeLeft,
+    ready: !loading && !!test,
+    onRestore: (attempt) => {
+      if (Object.keys(answers).length > 0) return;
+      setAnswers(attempt.answers);
+      setCurrentQuestion(attempt.currentQuestion);
+      setTimeLeft(attempt.timeLeft);
+      toast.info('Restored your unfinished attempt from this device');
+    },
+  });
   const [mobileView, setMobileView] = useState<'questions' | 'audio'>('questions');
   const isMobile = useIsMobile();
 
@@ -415,24 +441,20 @@ export default function ListeningTest() {
         return upper;
       };
 
-      const { data: testData, error: testError } = await supabase
-        .from('listening_tests')
-        .select('*')
-        .eq('id', testId)
-        .single();
+      // Falls back to the offline download when there is no connection
+      const { data, fromOffline } = await loadListeningTestData(testId);
+      const { groups: groupsData } = data;
+      if (fromOffline) {
+        toast.info('Using your offline copy of this test', { id: 'offline-test' });
+      }
 
-      if (testError) throw testError;
+      // Play downloaded audio from the device when available
+      const testData = await withCachedAudio(data.test);
       setTest(testData);
-      setTimeLeft(testData.time_limit * 60);
-      setCustomTime(testData.time_limit);
-
-      const { data: groupsData, error: groupsError } = await supabase
-        .from('listening_question_groups')
-        .select('*, listening_questions(*)')
-        .eq('test_id', testId)
-        .order('start_question');
-
-      if (groupsError) throw groupsError;
+      // A mock exam section runs on the official timing, not the test's own limit
+      const timeLimitSeconds = mockSessionId ? getSectionSeconds('listening') : testData.time_limit * 60;
+      setTimeLeft(timeLimitSeconds);
+      setCustomTime(timeLimitSeconds / 60);
 
       const fetchedGroups: QuestionGroup[] = (groupsData || []).map((g) => {
         const normalizedType = normalizeQuestionType(g.question_type);
@@ -487,6 +509,9 @@ export default function ListeningTest() {
 
     } catch (error) {
       console.error('Error fetching test data:', error);
+      if (!navigator.onLine) {
+        toast.error('You are offline', { description: 'Download this test from the test list to take it without a connection.' });
+      }
     } finally {
       setLoading(false);
     }
@@ -497,8 +522,12 @@ export default function ListeningTest() {
   };
 
   const handleSubmit = async () => {
+    // Set once the score is known, so a connection failure can fall back to background sync
+    let queueForSync: (() => Promise<void>) | null = null;
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
+      // From the stored session when offline
+      const user = await getSignedInUser();
 
       if (!user) {
         // Use shared utility for pending state
@@ -531,6 +560,7 @@ export default function ListeningTest() {
         return {
           questionNumber: q.question_number,
           questionText: q.question_text,
+          questionType: q.question_type,
           userAnswer,
           correctAnswer: dbCorrectAnswer,
           isCorrect
@@ -554,6 +584,38 @@ export default function ListeningTest() {
         console.error('No test ID available');
         return;
       }
+
+      const resultTitle = {
+        testTitle: test?.title || 'Listening Test',
+        bookName: test?.book_name || '',
+        testNumber: test?.test_number || 1,
+      };
+
+      queueForSync = async () => {
+        const completedAt = new Date().toISOString();
+        await queueOfflineSubmission({
+          id: submissionId,
+          userId: user.id,
+          score,
+          totalQuestions: total,
+          bandScore,
+          completedAt,
+          questionResults,
+        });
+        clearPendingTestState();
+        sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify({
+          id: submissionId, score, total, percentage, bandScore, ...resultTitle, completedAt, questionResults,
+        }));
+        toast.info('Saved on this device', {
+          description: 'You are offline. Your answers will be submitted automatically when you reconnect.',
+        });
+        navigate(`/results/${submissionId}?type=listening&testId=${testId}`);
+      };
+
+      if (!navigator.onLine) {
+        await queueForSync();
+        return;
+      }
       
       // Save to database with retry for network errors
       let retryToastId: string | undefined;
@@ -568,7 +630,8 @@ export default function ListeningTest() {
               answers: answers,
               score,
               total_questions: total,
-              band_score: bandScore
+              band_score: bandScore,
+              question_results: questionResults
             }])
             .select()
             .single();
@@ -602,6 +665,7 @@ export default function ListeningTest() {
       
       // Use shared utility to clear pending state
       clearPendingTestState();
+      await clearOfflineProgress();
       
       const resultData = {
         id: submissionId,
@@ -609,18 +673,49 @@ export default function ListeningTest() {
         total,
         percentage,
         bandScore,
-        testTitle: test?.title || 'Listening Test',
-        bookName: test?.book_name || '',
-        testNumber: test?.test_number || 1,
+        ...resultTitle,
         completedAt: new Date().toISOString(),
         questionResults
       };
       
       sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify(resultData));
+
+      // Opened from a class assignment: record the attempt for the teacher's gradebook
+      if (assignmentId) {
+        try {
+          await recordAssignmentResult(assignmentId, user.id, { module: 'listening', testId: testId!, submissionId, score, band: bandScore });
+        } catch (error) {
+          console.error('Error recording assignment result:', error);
+          toast.error('Could not send this result to your teacher');
+        }
+      }
+
+      // Part of a full mock exam: hand back to the session for the next section
+      if (mockSessionId) {
+        try {
+          await recordMockExamSubmission(mockSessionId, { module: 'listening', submissionId, band: bandScore });
+          navigate(getSessionPath(mockSessionId));
+          return;
+        } catch (error) {
+          console.error('Error recording mock exam section:', error);
+          toast.error('Could not save this section to your mock exam');
+        }
+      }
       
       navigate(`/results/${submissionId}?type=listening&testId=${testId}`);
     } catch (err: unknown) {
       console.error('Error submitting listening test:', err);
+
+      // Connection dropped mid-submit: keep the attempt and let background sync finish it
+      if (queueForSync && isRetryableError(err)) {
+        try {
+          await queueForSync();
+          return;
+        } catch (queueError) {
+          console.error('Error queueing offline submission:', queueError);
+        }
+      }
+
       const errDesc = describeApiError(err);
       setSubmissionError(errDesc);
       setIsResubmitting(false);
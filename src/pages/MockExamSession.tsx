@@ -0,0 +1,381 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import {
+  Award,
+  BookText,
+  CheckCircle2,
+  Clock,
+  Coffee,
+  ExternalLink,
+  Headphones,
+  Loader2,
+  Mic,
+  PenLine,
+  Play,
+  RefreshCw,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { useAuth } from '@/hooks/useAuth';
+import {
+  MOCK_EXAM_SECTIONS,
+  MockExamModule,
+  MockExamSession as MockExamSessionRow,
+  MockExamStage,
+  abandonMockExamSession,
+  endMockExamBreak,
+  getMockExamSession,
+  getSectionPath,
+  isSectionComplete,
+  refreshMockExamBands,
+} from '@/lib/mockExam';
+
+const REFRESH_INTERVAL_MS = 15000;
+
+const MODULE_ICONS: Record<MockExamModule, typeof BookText> = {
+  listening: Headphones,
+  reading: BookText,
+  writing: PenLine,
+  speaking: Mic,
+};
+
+const MODULE_COLORS: Record<MockExamModule, string> = {
+  listening: 'text-amber-500 bg-amber-500/10',
+  reading: 'text-blue-500 bg-blue-500/10',
+  writing: 'text-emerald-500 bg-emerald-500/10',
+  speaking: 'text-purple-500 bg-purple-500/10',
+};
+
+const getTestId = (session: MockExamSessionRow, module: MockExamModule) => session[`${module}_test_id`];
+
+const getBand = (session: MockExamSessionRow, module: MockExamModule) => session[`${module}_band`];
+
+function getReportPath(session: MockExamSessionRow, module: MockExamModule): string | null {
+  const testId = getTestId(session, module);
+  switch (module) {
+    case 'listening':
+    case 'reading': {
+      const submissionId = session[`${module}_submission_id`];
+      return submissionId ? `/results/${submissionId}?type=${module}&testId=${testId}` : null;
+    }
+    case 'writing':
+      return session.writing_task1_submission_id
+        ? `/writing/evaluation/${testId}/${session.writing_task1_submission_id}`
+        : null;
+    case 'speaking':
+      return session.speaking_submission_id
+        ? `/speaking/evaluation/${testId}/${session.speaking_submission_id}`
+        : null;
+  }
+}
+
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
+export default function MockExamSession() {
+  const { sessionId } = useParams<{ sessionId: string }>();
+  const navigate = useNavigate();
+  const { user, loading: authLoading } = useAuth();
+  const [session, setSession] = useState<MockExamSessionRow | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [breakSecondsLeft, setBreakSecondsLeft] = useState(0);
+
+  const loadSession = useCallback(async () => {
+    if (!sessionId) return;
+    try {
+      const data = await getMockExamSession(sessionId);
+      setSession(data.current_stage === 'completed' ? await refreshMockExamBands(data) : data);
+    } catch (error) {
+      console.error('Error loading mock exam session:', error);
+      toast.error('Could not load this mock exam');
+    } finally {
+      setLoading(false);
+    }
+  }, [sessionId]);
+
+  useEffect(() => {
+    if (authLoading) return;
+    if (!user) {
+      navigate(`/auth?returnTo=${encodeURIComponent(`/full-mock-test/session/${sessionId}`)}`);
+      return;
+    }
+    loadSession();
+  }, [authLoading, user, sessionId, navigate, loadSession]);
+
+  const stage = (session?.current_stage ?? 'listening') as MockExamStage;
+  const awaitingBands = stage === 'completed' && session?.overall_band === null;
+
+  // Writing and Speaking are scored by AI in the background; keep checking until they land
+  useEffect(() => {
+    if (!session || !awaitingBands) return;
+    const interval = setInterval(() => {
+      refreshMockExamBands(session)
+        .then(setSession)
+        .catch(err => console.error('Error refreshing mock exam bands:', err));
+    }, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [session, awaitingBands]);
+
+  useEffect(() => {
+    if (stage !== 'break' || !session?.break_ends_at) return;
+    const endsAt = new Date(session.break_ends_at).getTime();
+    const tick = () => setBreakSecondsLeft(Math.max(0, Math.round((endsAt - Date.now()) / 1000)));
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [stage, session?.break_ends_at]);
+
+  const handleRefresh = async () => {
+    if (!session) return;
+    setRefreshing(true);
+    try {
+      setSession(await refreshMockExamBands(session));
+    } catch (error) {
+      console.error('Error refreshing mock exam bands:', error);
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
+  const handleEndBreak = async () => {
+    if (!session) return;
+    try {
+      setSession(await endMockExamBreak(session.id));
+    } catch (error) {
+      console.error('Error ending mock exam break:', error);
+      toast.error('Could not continue to Speaking. Please try again.');
+    }
+  };
+
+  const handleAbandon = async () => {
+    if (!session || !confirm('Abandon this mock exam? Sections you have finished stay in your history.')) return;
+    try {
+      await abandonMockExamSession(session.id);
+      navigate('/full-mock-test');
+    } catch (error) {
+      console.error('Error abandoning mock exam:', error);
+      toast.error('Could not abandon the mock exam');
+    }
+  };
+
+  if (loading || authLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading mock exam...</div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">This mock exam could not be found.</p>
+        <Button onClick={() => navigate('/full-mock-test')}>Back to Full Mock Test</Button>
+      </div>
+    );
+  }
+
+  const completedCount = MOCK_EXAM_SECTIONS.filter(s => isSectionComplete(s.module, stage)).length;
+  const currentSection = MOCK_EXAM_SECTIONS.find(s => s.module === stage);
+  const currentIndex = currentSection ? MOCK_EXAM_SECTIONS.indexOf(currentSection) : -1;
+  const CurrentIcon = currentSection ? MODULE_ICONS[currentSection.module] : null;
+  const currentTestId = currentSection ? getTestId(session, currentSection.module) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-4xl">
+        <div className="mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <h1 className="text-3xl font-bold">Full Mock Exam</h1>
+            {session.status === 'abandoned' && <Badge variant="outline">Abandoned</Badge>}
+          </div>
+          <p className="text-muted-foreground">
+            {[session.book_name, session.test_number && `Test ${session.test_number}`].filter(Boolean).join(' · ')}
+          </p>
+          <Progress value={(completedCount / MOCK_EXAM_SECTIONS.length) * 100} className="mt-4 h-2" />
+        </div>
+
+        {/* Section overview */}
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-8">
+          {MOCK_EXAM_SECTIONS.map(section => {
+            const Icon = MODULE_ICONS[section.module];
+            const done = isSectionComplete(section.module, stage);
+            const band = getBand(session, section.module);
+            return (
+              <div
+                key={section.module}
+                className={cn(
+                  'rounded-lg border p-3 transition-colors',
+                  section.module === stage ? 'border-primary bg-primary/5' : 'border-border/50 bg-card'
+                )}
+              >
+                <div className="flex items-center gap-2 mb-2">
+                  <div className={cn('p-1.5 rounded-md', MODULE_COLORS[section.module])}>
+                    <Icon className="w-4 h-4" />
+                  </div>
+                  <span className="font-medium text-sm">{section.label}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {done ? (
+                    band !== null ? `Band ${band.toFixed(1)}` : 'Evaluating...'
+                  ) : (
+                    <>
+                      <Clock className="w-3 h-3 inline mr-1" />
+                      {section.minutes} mins
+                    </>
+                  )}
+                </p>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Next section */}
+        {currentSection && CurrentIcon && session.status === 'in_progress' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <div className={cn('p-2 rounded-lg', MODULE_COLORS[currentSection.module])}>
+                  <CurrentIcon className="w-5 h-5" />
+                </div>
+                Section {currentIndex + 1} of {MOCK_EXAM_SECTIONS.length}: {currentSection.label}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-muted-foreground">{currentSection.description}</p>
+              <p className="text-sm">
+                <Clock className="w-4 h-4 inline mr-1" />
+                {currentSection.module === 'speaking' ? '11-14' : currentSection.minutes} minutes
+              </p>
+              {currentTestId ? (
+                <Button
+                  size="lg"
+                  className="gap-2"
+                  onClick={() => navigate(getSectionPath(currentSection.module, currentTestId, session.id))}
+                >
+                  <Play className="w-4 h-4" />
+                  Start {currentSection.label}
+                </Button>
+              ) : (
+                <p className="text-sm text-destructive">This test is no longer available.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Break before Speaking */}
+        {stage === 'break' && session.status === 'in_progress' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <Coffee className="w-5 h-5 text-primary" />
+                Break
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-muted-foreground">
+                The written papers are finished. Take a short rest before the Speaking test.
+              </p>
+              <div className="text-4xl font-bold tabular-nums">{formatCountdown(breakSecondsLeft)}</div>
+              <Button size="lg" className="gap-2" onClick={handleEndBreak}>
+                <Play className="w-4 h-4" />
+                {breakSecondsLeft > 0 ? 'Skip Break' : 'Continue to Speaking'}
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Combined report */}
+        {stage === 'completed' && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-3">
+                <Award className="w-5 h-5 text-primary" />
+                Combined Band Report
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="text-center py-4">
+                <p className="text-sm text-muted-foreground mb-1">Overall Band</p>
+                {session.overall_band !== null ? (
+                  <div className="text-6xl font-bold gradient-text-static">{session.overall_band.toFixed(1)}</div>
+                ) : (
+                  <div className="flex flex-col items-center gap-3">
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Waiting for Writing and Speaking evaluations
+                    </div>
+                    <Button variant="outline" size="sm" className="gap-2" onClick={handleRefresh} disabled={refreshing}>
+                      <RefreshCw className={cn('w-4 h-4', refreshing && 'animate-spin')} />
+                      Check Again
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              <div className="rounded-md border divide-y">
+                {MOCK_EXAM_SECTIONS.map(section => {
+                  const Icon = MODULE_ICONS[section.module];
+                  const band = getBand(session, section.module);
+                  const reportPath = getReportPath(session, section.module);
+                  return (
+                    <div key={section.module} className="flex items-center justify-between px-4 py-3">
+                      <span className="flex items-center gap-2 font-medium">
+                        <Icon className="w-4 h-4 text-muted-foreground" />
+                        {section.label}
+                      </span>
+                      <span className="flex items-center gap-3">
+                        {band !== null ? (
+                          <span className="font-semibold">{band.toFixed(1)}</span>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">Evaluating...</span>
+                        )}
+                        {reportPath && (
+                          <Button variant="ghost" size="sm" className="gap-1" onClick={() => navigate(reportPath)}>
+                            Report
+                            <ExternalLink className="w-3 h-3" />
+                          </Button>
+                        )}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                The overall band is the average of the four skills rounded to the nearest half band, with averages
+                ending in .25 or .75 rounded up. Writing counts Task 2 twice as much as Task 1.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
+        {session.status === 'in_progress' && stage !== 'completed' && (
+          <div className="mt-6 flex justify-end">
+            <Button variant="ghost" size="sm" onClick={handleAbandon}>
+              Abandon Mock Exam
+            </Button>
+          </div>
+        )}
+
+        {session.status === 'completed' && (
+          <div className="mt-6 flex items-center justify-center gap-2 text-sm text-muted-foreground">
+            <CheckCircle2 className="w-4 h-4 text-success" />
+            Completed {session.completed_at && new Date(session.completed_at).toLocaleDateString()}
+          </div>
+        )}
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -30,7 +30,7 @@ import { usePullToRefresh } from '@/hooks/usePullToRefresh';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { 
   useTestSubmission, 
-  calculateBandScoreFromRaw40,
+  calculateReadingBandScoreFromRaw40,
   calculateBandScoreFromPercentage,
   checkAnswerWithAlternatives,
   savePendingTestState,
@@ -41,6 +41,11 @@ import {
   dismissRetryToast,
 } from '@/hooks/useTestSubmission';
 import { describeApiError } from '@/lib/apiErrors';
+import { useOfflineTestAttempt } from '@/hooks/useOfflineTestAttempt';
+import { getSectionSeconds, getSessionPath, recordMockExamSubmission } from '@/lib/mockExam';
+import { recordAssignmentResult } from '@/lib/classroom';
+import { toTestVariant } from '@/lib/testVariant';
+import { getSignedInUser, loadReadingTestData } from '@/lib/offlineTests';
 
 interface Question {
   id: string;
@@ -89,6 +94,7 @@ interface Test {
   test_number: number;
   time_limit: number;
   total_questions: number;
+  test_type: string;
 }
 
 // Import renderRichText from the shared module
@@ -102,6 +108,10 @@ export default function ReadingTest() {
   // Get filter params from URL
   const filterType = searchParams.get('type');
   const filterPart = searchParams.get('part');
+  // Set when this test is a section of a full mock exam
+  const mockSessionId = searchParams.get('mockSession');
+  // Set when this test was opened from a class assignment
+  const assignmentId = searchParams.get('assignment');
   
   const [test, setTest] = useState<Test | null>(null);
   const [passages, setPassages] = useState<Passage[]>([]);
@@ -148,6 +158,24 @@ export default function ReadingTest() {
     setIsResubmitting,
   } = useTestSubmission();
   const hasAutoSubmitted = useRef(false);
+
+  // Offline mode: keep progress on the device and queue submissions made without a connection
+  const { queueSubmission: queueOfflineSubmission, clearProgress: clearOfflineProgress } = useOfflineTestAttempt({
+    module: 'reading',
+    testId,
+    testTitle: test?.title || 'Reading Test',
+    answers,
+    currentQuestion,
+    timeLeft,
+    ready: !loading && !!test,
+    onRestore: (attempt) => {
+      if (Object.keys(answers).length > 0) return;
+      setAnswers(attempt.answers);
+      setCurrentQuestion(attempt.currentQuestion);
+      setTimeLeft(attempt.timeLeft);
+      toast.info('Restored your unfinished attempt from this device');
+    },
+  });
   
   // Mobile view state - 'passage' or 'questions'
   const [mobileView, setMobileView] = useState<'passage' | 'questions'>('passage');
@@ -309,39 +337,24 @@ export default function ReadingTest() {
 
   const fetchTestData = async () => {
     try {
-      const { data: testData, error: testError } = await supabase
-        .from('reading_tests')
-        .select('*')
-        .eq('id', testId!)
-        .single();
+      // Falls back to the offline download when there is no connection
+      const { data, fromOffline } = await loadReadingTestData(testId!);
+      const { test: testData, passages: passageData, paragraphs: allParagraphData, questionGroups: groupsData, questions: questionData } = data;
+      if (fromOffline) {
+        toast.info('Using your offline copy of this test', { id: 'offline-test' });
+      }
 
-      if (testError) throw testError;
       setTest(testData);
-      setTimeLeft(testData.time_limit * 60);
-      setCustomTime(testData.time_limit);
-
-      const { data: passageData, error: passageError } = await supabase
-        .from('reading_passages')
-        .select('*')
-        .eq('test_id', testId!)
-        .order('passage_number');
-
-      if (passageError) throw passageError;
+      // A mock exam section runs on the official timing, not the test's own limit
+      const timeLimitSeconds = mockSessionId ? getSectionSeconds('reading') : testData.time_limit * 60;
+      setTimeLeft(timeLimitSeconds);
+      setCustomTime(timeLimitSeconds / 60);
       setPassages(passageData);
 
-      // Fetch all paragraphs in a single query (fixes N+1 problem)
       if (passageData.length > 0) {
-        const passageIds = passageData.map(p => p.id);
-        
-        const { data: allParagraphData } = await supabase
-          .from('reading_paragraphs')
-          .select('*')
-          .in('passage_id', passageIds)
-          .order('order_index');
-        
         // Group paragraphs by passage_id
         const paragraphsMap: Record<string, Paragraph[]> = {};
-        for (const paragraph of (allParagraphData || [])) {
+        for (const paragraph of allParagraphData) {
           if (!paragraphsMap[paragraph.passage_id]) {
             paragraphsMap[paragraph.passage_id] = [];
           }
@@ -349,24 +362,8 @@ export default function ReadingTest() {
         }
         setParagraphs(paragraphsMap);
 
-        // Fetch question groups
-        const { data: groupsData } = await supabase
-          .from('reading_question_groups')
-          .select('*')
-          .in('passage_id', passageIds)
-          .order('start_question');
-        
-        if (groupsData) {
-          setQuestionGroups(groupsData);
-        }
-
-        const { data: questionData, error: questionError } = await supabase
-          .from('reading_questions')
-          .select('*')
-          .in('passage_id', passageIds)
-          .order('question_number');
+        setQuestionGroups(groupsData);
 
-        if (questionError) throw questionError;
         setQuestions(questionData.map(q => {
           const qOptions = q.options as any;
           // Check if options is an object with sub_group fields (for MCQ Multiple)
@@ -381,6 +378,9 @@ export default function ReadingTest() {
       }
     } catch (error) {
       console.error('Error fetching test data:', error);
+      if (!navigator.onLine) {
+        toast.error('You are offline', { description: 'Download this test from the test list to take it without a connection.' });
+      }
     } finally {
       setLoading(false);
     }
@@ -568,9 +568,12 @@ export default function ReadingTest() {
   }, [selectedHeading, handleHeadingDrop]);
 
   const handleSubmit = async () => {
+    // Set once the score is known, so a connection failure can fall back to background sync
+    let queueForSync: (() => Promise<void>) | null = null;
+
     try {
-      // Get current user first
-      const { data: { user } } = await supabase.auth.getUser();
+      // Get current user first (from the stored session when offline)
+      const user = await getSignedInUser();
       
       // If user is not logged in, save state and redirect to login
       if (!user) {
@@ -597,6 +600,7 @@ export default function ReadingTest() {
         return {
           questionNumber: q.question_number,
           questionText: q.question_text,
+          questionType: q.question_type,
           userAnswer,
           correctAnswer,
           isCorrect
@@ -611,10 +615,42 @@ export default function ReadingTest() {
       // Use percentage-based for filtered/part tests
       const isFullTest = total === 40 && !filterType && !filterPart;
       const bandScore = isFullTest 
-        ? calculateBandScoreFromRaw40(score) 
+        ? calculateReadingBandScoreFromRaw40(score, toTestVariant(test?.test_type)) 
         : calculateBandScoreFromPercentage(percentage);
       
       let submissionId = crypto.randomUUID();
+
+      const resultTitle = {
+        testTitle: test?.title || 'Reading Test',
+        bookName: test?.book_name || '',
+        testNumber: test?.test_number || 1,
+      };
+
+      queueForSync = async () => {
+        const completedAt = new Date().toISOString();
+        await queueOfflineSubmission({
+          id: submissionId,
+          userId: user.id,
+          score,
+          totalQuestions: total,
+          bandScore,
+          completedAt,
+          questionResults,
+        });
+        clearPendingTestState();
+        sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify({
+          id: submissionId, score, total, percentage, bandScore, ...resultTitle, completedAt, questionResults,
+        }));
+        toast.info('Saved on this device', {
+          description: 'You are offline. Your answers will be submitted automatically when you reconnect.',
+        });
+        navigate(`/results/${submissionId}?type=reading&testId=${testId}`);
+      };
+
+      if (!navigator.onLine) {
+        await queueForSync();
+        return;
+      }
       
       // Save to database with retry for network errors
       let retryToastId: string | undefined;
@@ -629,7 +665,8 @@ export default function ReadingTest() {
               answers: answers,
               score,
               total_questions: total,
-              band_score: bandScore
+              band_score: bandScore,
+              question_results: questionResults
             })
             .select()
             .single();
@@ -663,6 +700,7 @@ export default function ReadingTest() {
       
       // Use shared utility to clear pending state
       clearPendingTestState();
+      await clearOfflineProgress();
       
       // Store result in sessionStorage for the results page
       const resultData = {
@@ -671,19 +709,50 @@ export default function ReadingTest() {
         total,
         percentage,
         bandScore,
-        testTitle: test?.title || 'Reading Test',
-        bookName: test?.book_name || '',
-        testNumber: test?.test_number || 1,
+        ...resultTitle,
         completedAt: new Date().toISOString(),
         questionResults
       };
       
       sessionStorage.setItem(`test_result_${submissionId}`, JSON.stringify(resultData));
+
+      // Opened from a class assignment: record the attempt for the teacher's gradebook
+      if (assignmentId) {
+        try {
+          await recordAssignmentResult(assignmentId, user.id, { module: 'reading', testId: testId!, submissionId, score, band: bandScore });
+        } catch (error) {
+          console.error('Error recording assignment result:', error);
+          toast.error('Could not send this result to your teacher');
+        }
+      }
+
+      // Part of a full mock exam: hand back to the session for the next section
+      if (mockSessionId) {
+        try {
+          await recordMockExamSubmission(mockSessionId, { module: 'reading', submissionId, band: bandScore });
+          navigate(getSessionPath(mockSessionId));
+          return;
+        } catch (error) {
+          console.error('Error recording mock exam section:', error);
+          toast.error('Could not save this section to your mock exam');
+        }
+      }
       
       // Navigate to results page
       navigate(`/results/${submissionId}?type=reading&testId=${testId}`);
     } catch (err: unknown) {
       console.error('Error submitting reading test:', err);
+
+      // Connection dropped mid-submit: keep the attempt and let background sync finish it
+      if (queueForSync && isRetryableError(err)) {
+        try {
+          await queueForSync();
+          return;
+        } catch (queueError) {
+          console.error('Error queueing offline submission:', queueError);
+        }
+      }
+
       const errDesc = describeApiError(err);
       setSubmissionError(errDesc);
       setIsResubmitting(false);
@@ -911,7 +980,7 @@ export default function ReadingTest() {
                 timeLeft={timeLeft} 
                 setTimeLeft={setTimeLeft} 
                 isPaused={!testStarted || isPaused} 
-                onTogglePause={() => setIsPaused(!isPaused)} 
+                onTogglePause={mockSessionId ? undefined : () => setIsPaused(!isPaused)} 
               />
               {/* Notes/Bell Button */}
               <button 
@@ -1,4 +1,5 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
@@ -7,6 +8,7 @@ import { Card, CardContent } from '@/components/ui/card';
 import { BookOpen } from 'lucide-react';
 import { useUserTestScores } from '@/hooks/useUserTestScores';
 import { useAuth } from '@/hooks/useAuth';
+import { TEST_VARIANT_LABELS, TestVariant, getTestListPath, getVariantFromPath } from '@/lib/testVariant';
 
 interface Passage {
   id: string;
@@ -41,23 +43,23 @@ const extractBookNumber = (bookName: string): number => {
 };
 
 export default function ReadingTestList() {
+  const { pathname } = useLocation();
+  const variant = getVariantFromPath(pathname);
+  const otherVariant: TestVariant = variant === 'general' ? 'academic' : 'general';
   const [tests, setTests] = useState<ReadingTest[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTypes, setSelectedTypes] = useState<string[]>([]);
   const { reading: userScores, loading: scoresLoading } = useUserTestScores();
   const { user } = useAuth();
 
-  useEffect(() => {
-    fetchTests();
-  }, []);
-
-  const fetchTests = async () => {
+  const fetchTests = useCallback(async () => {
     try {
       // Fetch tests with passages and question groups
       const { data: testsData, error: testsError } = await supabase
         .from('reading_tests')
         .select('*')
         .eq('is_published', true)
+        .eq('test_type', variant)
         .order('book_name', { ascending: false })
         .order('test_number', { ascending: true });
 
@@ -97,7 +99,13 @@ export default function ReadingTestList() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [variant]);
+
+  useEffect(() => {
+    setLoading(true);
+    setSelectedTypes([]);
+    fetchTests();
+  }, [fetchTests]);
 
   // Group tests by book and sort books by number descending (newest first)
   const groupedTests = useMemo(() => {
@@ -151,10 +159,14 @@ export default function ReadingTestList() {
             }}
           >
             <h1 className="text-xl font-bold" style={{ color: 'hsl(var(--ielts-section-text))' }}>
-              IELTS Academic Reading Practice Tests
+              IELTS {TEST_VARIANT_LABELS[variant]} Reading Practice Tests
             </h1>
             <p className="text-sm text-muted-foreground mt-1">
               Cambridge IELTS Books • {tests.length} tests available{user ? ' • Your scores are saved' : ''}
+              {' • '}
+              <Link to={getTestListPath('reading', otherVariant)} className="underline hover:text-foreground">
+                Switch to {TEST_VARIANT_LABELS[otherVariant]}
+              </Link>
             </p>
           </div>
 
@@ -4,6 +4,7 @@ import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/com
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { UserApiKeyManager } from '@/components/user/UserApiKeyManager';
+import { PromotionCodeRedeemer } from '@/components/user/PromotionCodeRedeemer';
 import { toast } from 'sonner';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
@@ -160,6 +161,9 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {/* Promotion Codes */}
+          <PromotionCodeRedeemer />
+
           {/* User API Key Pool */}
           <UserApiKeyManager />
         </div>
@@ -17,6 +17,8 @@ import { OfflineBanner } from '@/components/common/OfflineBanner';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 import { describeApiError, ApiErrorDescriptor } from '@/lib/apiErrors';
+import { getSessionPath, recordMockExamSubmission } from '@/lib/mockExam';
+import { recordAssignmentResult } from '@/lib/classroom';
 import { Tables, TablesInsert } from '@/integrations/supabase/types';
 import { SpeakingTestControls, AudioLevelIndicator, AudioVolumeControl } from '@/components/speaking';
 import { SpeakingTimer } from '@/components/speaking/SpeakingTimer';
@@ -180,6 +182,10 @@ export default function SpeakingTest() {
   });
 
   const isNewSubmissionRequest = location.pathname.endsWith('/new-submission');
+  // Set when this test is a section of a full mock exam
+  const mockSessionId = new URLSearchParams(location.search).get('mockSession');
+  // Set when this test was opened from a class assignment
+  const assignmentId = new URLSearchParams(location.search).get('assignment');
 
   // --- Helper Functions ---
   const currentGroup = useMemo(() => questionGroups[currentPartIndex] || null, [questionGroups, currentPartIndex]);
@@ -807,10 +813,32 @@ export default function SpeakingTest() {
       clearGuestDraft(); // Clear guest draft after successful submission
       toast.success('Speaking test submitted! Evaluation will be available shortly.', { id: 'ai-eval-toast', duration: 5000 });
 
+      // Opened from a class assignment: the band is filled in when the evaluation finishes
+      if (assignmentId) {
+        try {
+          await recordAssignmentResult(assignmentId, user.id, { module: 'speaking', testId: testId!, submissionId: newSubmission.id, band: null });
+        } catch (error) {
+          console.error('Error recording assignment result:', error);
+          toast.error('Could not send this result to your teacher');
+        }
+      }
+
+      // Part of a full mock exam: the session waits for this evaluation to finish the combined report
+      let mockExamPath: string | null = null;
+      if (mockSessionId) {
+        try {
+          await recordMockExamSubmission(mockSessionId, { module: 'speaking', submissionId: newSubmission.id });
+          mockExamPath = getSessionPath(mockSessionId);
+        } catch (error) {
+          console.error('Error recording mock exam section:', error);
+          toast.error('Could not save this section to your mock exam');
+        }
+      }
+
       if (!exitRequestedRef.current && isMountedRef.current) {
         // Exit fullscreen before navigating to results
         await exitFullscreen();
-        navigate(`/speaking/evaluation/${testId}/${newSubmission.id}`);
+        navigate(mockExamPath ?? `/speaking/evaluation/${testId}/${newSubmission.id}`);
       }
     } catch (error: any) {
       console.error('Error submitting speaking test:', error);
@@ -825,7 +853,7 @@ export default function SpeakingTest() {
       setIsSubmitting(false);
       setShowAILoadingScreen(false); // Hide loading screen
     }
-  }, [user, speakingTest, testId, isRecording, stopRecording, navigate, questionGroups, saveGuestDraft, clearGuestDraft, isSubmitting, saveFailedSubmissionLocally]);
+  }, [user, speakingTest, testId, isRecording, stopRecording, navigate, questionGroups, saveGuestDraft, clearGuestDraft, isSubmitting, saveFailedSubmissionLocally, mockSessionId, assignmentId]);
 
   // Resubmit handler
   const handleResubmit = useCallback(async () => {
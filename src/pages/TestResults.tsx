@@ -24,8 +24,18 @@ import { cn } from '@/lib/utils';
 import { toast } from '@/hooks/use-toast';
 import { describeApiError } from '@/lib/apiErrors';
 import { TranscriptViewer } from '@/components/listening/TranscriptViewer';
+import { PassageViewer } from '@/components/reading/PassageViewer';
+import { EvidenceQuotes } from '@/components/common/EvidenceQuotes';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
 import { ProgressOverlayFlashcard } from '@/components/common/ProgressOverlayFlashcard';
+import {
+  EvidenceSpan,
+  EvidenceUnit,
+  buildPassageEvidence,
+  buildTranscriptEvidence,
+  splitPassageParagraphs,
+} from '@/lib/answerEvidence';
+import { loadAudioDuration } from '@/lib/audio/audioDuration';
 
 interface QuestionResult {
   questionNumber: number;
@@ -56,6 +66,13 @@ function formatCorrectAnswer(correctAnswer: string): { primary: string; alternat
   };
 }
 
+interface ResultPassage {
+  id: string;
+  passage_number: number;
+  title: string;
+  content: string;
+}
+
 interface TopScorer {
   id: string;
   full_name: string;
@@ -97,11 +114,23 @@ export default function TestResults() {
     part4?: string | null;
   }>({});
   const [passages, setPassages] = useState<{
-    passage1?: { title: string; content: string } | null;
-    passage2?: { title: string; content: string } | null;
-    passage3?: { title: string; content: string } | null;
+    passage1?: ResultPassage | null;
+    passage2?: ResultPassage | null;
+    passage3?: ResultPassage | null;
   }>({});
   const [questionPassageMap, setQuestionPassageMap] = useState<Record<number, number>>({});
+  // Passage paragraphs (by passage number) and part audio lengths (by part) for evidence
+  const [sourceTestId, setSourceTestId] = useState<string | null>(null);
+  const [partAudioUrls, setPartAudioUrls] = useState<{
+    part1?: string | null;
+    part2?: string | null;
+    part3?: string | null;
+    part4?: string | null;
+  }>({});
+  const [passageParagraphs, setPassageParagraphs] = useState<Record<number, { label: string; content: string }[]>>({});
+  const [audioDurations, setAudioDurations] = useState<Record<number, number>>({});
+  const [evidence, setEvidence] = useState<Record<number, EvidenceSpan[]>>({});
+  const [focusedEvidence, setFocusedEvidence] = useState<{ spans: EvidenceSpan[]; key: number }>({ spans: [], key: 0 });
   const [showOnlyIncorrect, setShowOnlyIncorrect] = useState(false);
   const [showFlashcardReview, setShowFlashcardReview] = useState(false);
   const autoLoadedRef = useRef(false);
@@ -154,6 +183,7 @@ export default function TestResults() {
         .select('*')
         .eq('id', submission.test_id)
         .single();
+      setSourceTestId(submission.test_id);
 
       let questions: any[] = [];
       if (testType === 'reading') {
@@ -168,11 +198,26 @@ export default function TestResults() {
           const passageMap: typeof passages = {};
           passageData.forEach(p => {
             const key = `passage${p.passage_number}` as keyof typeof passageMap;
-            passageMap[key] = { title: p.title, content: p.content };
+            passageMap[key] = p;
           });
           setPassages(passageMap);
 
           const passageIds = passageData.map(p => p.id);
+          const { data: paragraphData } = await supabase
+            .from('reading_paragraphs')
+            .select('passage_id, label, content, order_index')
+            .in('passage_id', passageIds)
+            .order('order_index');
+
+          const paragraphMap: Record<number, { label: string; content: string }[]> = {};
+          passageData.forEach(p => {
+            const stored = paragraphData?.filter(row => row.passage_id === p.id) ?? [];
+            paragraphMap[p.passage_number] = stored.length > 0
+              ? stored.map(row => ({ label: row.label, content: row.content }))
+              : splitPassageParagraphs(p.content);
+          });
+          setPassageParagraphs(paragraphMap);
+
           const { data: questionData } = await supabase
             .from('reading_questions')
             .select('*')
@@ -250,6 +295,10 @@ export default function TestResults() {
           transcript_part2?: string | null;
           transcript_part3?: string | null;
           transcript_part4?: string | null;
+          audio_url_part1?: string | null;
+          audio_url_part2?: string | null;
+          audio_url_part3?: string | null;
+          audio_url_part4?: string | null;
         };
         setTranscripts({
           part1: listeningTestInfo.transcript_part1,
@@ -257,6 +306,26 @@ export default function TestResults() {
           part3: listeningTestInfo.transcript_part3,
           part4: listeningTestInfo.transcript_part4,
         });
+
+        // Part audio lengths let transcript evidence carry an estimated timestamp
+        const partAudio = [
+          listeningTestInfo.audio_url_part1,
+          listeningTestInfo.audio_url_part2,
+          listeningTestInfo.audio_url_part3,
+          listeningTestInfo.audio_url_part4,
+        ];
+        setPartAudioUrls({
+          part1: partAudio[0],
+          part2: partAudio[1],
+          part3: partAudio[2],
+          part4: partAudio[3],
+        });
+        partAudio.forEach((url, idx) => {
+          if (!url) return;
+          loadAudioDuration(url).then(duration => {
+            if (duration) setAudioDurations(prev => ({ ...prev, [idx + 1]: duration }));
+          });
+        });
       }
     } catch (error) {
       console.error('Error fetching result data:', error);
@@ -354,6 +423,25 @@ export default function TestResults() {
     return 2.5;
   };
 
+  // Part 1: Q1-10, Part 2: Q11-20, Part 3: Q21-30, Part 4: Q31-40
+  const getListeningPart = (questionNumber: number): number =>
+    Math.min(4, Math.max(1, Math.ceil(questionNumber / 10)));
+
+  const getEvidenceUnits = (questionNumber: number): EvidenceUnit[] => {
+    if (testType === 'listening') {
+      const part = getListeningPart(questionNumber);
+      const transcript = transcripts[`part${part}` as keyof typeof transcripts];
+      return transcript ? buildTranscriptEvidence(part, transcript, audioDurations[part]) : [];
+    }
+    const passageNumber = questionPassageMap[questionNumber];
+    const paragraphs = passageNumber ? passageParagraphs[passageNumber] : undefined;
+    return paragraphs ? buildPassageEvidence(passageNumber, paragraphs) : [];
+  };
+
+  const focusEvidence = (spans: EvidenceSpan[]) => {
+    setFocusedEvidence(prev => ({ spans, key: prev.key + 1 }));
+  };
+
   const getTranscriptContext = (questionNumber: number): string => {
     // Determine which part the question belongs to based on question number
     // Part 1: Q1-10, Part 2: Q11-20, Part 3: Q21-30, Part 4: Q31-40
@@ -391,7 +479,8 @@ export default function TestResults() {
     return content;
   };
 
-  const fetchExplanation = async (questionResult: QuestionResult) => {
+  // focus: show the evidence in the passage / transcript once it arrives
+  const fetchExplanation = async (questionResult: QuestionResult, focus = false) => {
     if (explanations[questionResult.questionNumber]) return;
     if (loadingExplanations.has(questionResult.questionNumber)) return;
     
@@ -416,7 +505,8 @@ export default function TestResults() {
           questionType: questionResult.questionType,
           transcriptContext,
           passageContext,
-          testType
+          testType,
+          evidenceUnits: getEvidenceUnits(questionResult.questionNumber)
         }
       });
 
@@ -430,10 +520,16 @@ export default function TestResults() {
         throw new Error('No explanation received');
       }
 
+      const spans: EvidenceSpan[] = response.data?.evidence ?? [];
       setExplanations(prev => ({
         ...prev,
         [questionResult.questionNumber]: explanation
       }));
+      setEvidence(prev => ({
+        ...prev,
+        [questionResult.questionNumber]: spans
+      }));
+      if (focus && spans.length > 0) focusEvidence(spans);
     } catch (error) {
       console.error('Error fetching explanation:', error);
       const errorMessage = error instanceof Error ? error.message : 'Failed to generate explanation';
@@ -750,6 +846,11 @@ Thank you for looking into this.
                           <p className="text-sm text-muted-foreground leading-relaxed whitespace-pre-wrap">
                             {explanations[result.questionNumber]}
                           </p>
+                          <EvidenceQuotes
+                            evidence={evidence[result.questionNumber] ?? []}
+                            module={testType === 'listening' ? 'listening' : 'reading'}
+                            onShow={span => focusEvidence([span])}
+                          />
                           {explanations[result.questionNumber].includes('Unable to generate') && (
                             <Button
                               variant="outline"
@@ -760,7 +861,7 @@ Thank you for looking into this.
                                   delete next[result.questionNumber];
                                   return next;
                                 });
-                                fetchExplanation(result);
+                                fetchExplanation(result, true);
                               }}
                               className="gap-2"
                             >
@@ -779,7 +880,7 @@ Thank you for looking into this.
                           <Button
                             variant="outline"
                             size="sm"
-                            onClick={() => fetchExplanation(result)}
+                            onClick={() => fetchExplanation(result, true)}
                             className="gap-2"
                           >
                             <Sparkles size={14} />
@@ -811,7 +912,25 @@ Thank you for looking into this.
 
             {/* Transcript Viewer for Listening Tests */}
             {testType === 'listening' && (transcripts.part1 || transcripts.part2 || transcripts.part3 || transcripts.part4) && (
-              <TranscriptViewer transcripts={transcripts} className="mt-6" />
+              <TranscriptViewer
+                transcripts={transcripts}
+                className="mt-6"
+                evidence={focusedEvidence.spans}
+                focusKey={focusedEvidence.key}
+                audioUrls={partAudioUrls}
+                alignmentSource={sourceTestId ? { type: 'listening_test', id: sourceTestId } : undefined}
+              />
+            )}
+
+            {/* Passage Viewer for Reading Tests */}
+            {testType === 'reading' && sourceTestId && (
+              <PassageViewer
+                testId={sourceTestId}
+                passages={Object.values(passages).filter((p): p is ResultPassage => !!p)}
+                className="mt-6"
+                evidence={focusedEvidence.spans}
+                focusKey={focusedEvidence.key}
+              />
             )}
           </div>
 
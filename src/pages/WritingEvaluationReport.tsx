@@ -4,13 +4,18 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { ArrowLeft, Star, FileText, MessageSquareText, Lightbulb, CheckCircle2, History, AlertCircle, BookOpen } from 'lucide-react';
+import { ArrowLeft, Star, FileText, MessageSquareText, Lightbulb, CheckCircle2, History, AlertCircle, BookOpen, PenLine } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/hooks/useAuth';
 import { Tables } from '@/integrations/supabase/types';
 import { renderRichText } from '@/components/admin/RichTextEditor';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { AddToFlashcardButton } from '@/components/common/AddToFlashcardButton';
+import { AnnotatedEssay } from '@/components/writing/AnnotatedEssay';
+import { WritingAnnotation } from '@/lib/writingAnnotations';
+import { EssayRevisionDiff } from '@/components/writing/EssayRevisionDiff';
+import { getRevisionChain } from '@/lib/essayRevision';
+import { ResultReviewPanel } from '@/components/review/ResultReviewPanel';
 
 
 type WritingTest = Tables<'writing_tests'>;
@@ -31,6 +36,8 @@ interface EvaluationReport {
   lexical_resource: CriterionEvaluation;
   grammatical_range_and_accuracy: CriterionEvaluation;
   overall_suggestions: string; // This one is a direct string
+  annotations?: WritingAnnotation[]; // Inline error spans over submission_text
+  revision_feedback?: string; // Only present when the submission revises an earlier draft
   raw_response?: string;
   parse_error?: string;
 }
@@ -207,6 +214,7 @@ export default function WritingEvaluationReport() {
 
     const evaluationReport = submission.evaluation_report as unknown as EvaluationReport | null;
     const overallBand = submission.overall_band;
+    const revisionChain = getRevisionChain(submission, allSubmissions);
     console.log(`Rendering Task ${taskNumber}: Submission ID ${submission.id}, Evaluation Report:`, evaluationReport); // Log 7
     console.log(`Rendering Task ${taskNumber}: Overall Band:`, overallBand); // Log 8
 
@@ -216,6 +224,9 @@ export default function WritingEvaluationReport() {
           <CardTitle className="flex items-center gap-2 text-xl font-semibold">
             <FileText size={20} />
             Task {taskNumber} Evaluation
+            {submission.revision_number > 1 && (
+              <Badge variant="secondary">Draft {submission.revision_number}</Badge>
+            )}
             {overallBand && (
               <Badge className="ml-auto bg-primary text-primary-foreground text-base px-3 py-1">
                 Band {overallBand.toFixed(1)}
@@ -231,13 +242,28 @@ export default function WritingEvaluationReport() {
               Your Submission
             </h3>
             <div className="bg-muted/30 p-4 rounded-md border text-foreground">
-              <p className="whitespace-pre-wrap" style={{ fontSize: '14px' }}>{submission.submission_text}</p>
+              <AnnotatedEssay text={submission.submission_text} annotations={evaluationReport?.annotations} />
               <p className="text-sm text-muted-foreground mt-2">Word Count: {submission.word_count}</p>
               <p className="text-sm text-muted-foreground">Min. Word Limit: {task.word_limit_min}</p>
               {task.word_limit_max && <p className="text-sm text-muted-foreground">Max. Word Limit: {task.word_limit_max}</p>}
             </div>
           </div>
 
+          {revisionChain.length > 1 && (
+            <div className="space-y-4">
+              <EssayRevisionDiff key={submission.id} versions={revisionChain} />
+              {evaluationReport?.revision_feedback && (
+                <div className="space-y-1">
+                  <h4 className="font-medium text-foreground flex items-center gap-1">
+                    <Lightbulb size={16} className="text-primary" />
+                    Feedback on Your Revision
+                  </h4>
+                  <div className="prose prose-sm max-w-none text-muted-foreground" dangerouslySetInnerHTML={{ __html: renderRichText(evaluationReport.revision_feedback) }} />
+                </div>
+              )}
+            </div>
+          )}
+
           {evaluationReport ? (
             <div className="space-y-4">
               <h3 className="text-lg font-semibold flex items-center gap-2">
@@ -254,8 +280,8 @@ export default function WritingEvaluationReport() {
               )}
               {/* Iterate over the main criteria */}
               {Object.entries(evaluationReport).map(([key, value]) => {
-                // Skip raw_response, parse_error, and overall_suggestions as they are handled separately
-                if (key === 'raw_response' || key === 'parse_error' || key === 'overall_suggestions') return null;
+                // Skip raw_response, parse_error, overall_suggestions, annotations and revision_feedback as they are handled separately
+                if (key === 'raw_response' || key === 'parse_error' || key === 'overall_suggestions' || key === 'annotations' || key === 'revision_feedback') return null;
 
                 const title = key.replace(/_/g, ' ').replace(/\b\w/g, char => char.toUpperCase());
                 const criterion = value as CriterionEvaluation; // Cast to CriterionEvaluation
@@ -305,6 +331,8 @@ export default function WritingEvaluationReport() {
                 </div>
               )}
 
+              {overallBand !== null && <ResultReviewPanel key={submission.id} sourceType="writing_submission" sourceId={submission.id} />}
+
               {/* Flashcard Import Button */}
               <div className="pt-4 border-t border-border/50 flex items-center gap-3">
                 <BookOpen size={18} className="text-primary" />
@@ -381,11 +409,22 @@ export default function WritingEvaluationReport() {
             <p className="text-muted-foreground">Review your AI-generated feedback</p>
           </div>
         </div>
-        {combinedOverallBand !== null && (
-          <Badge className="bg-primary text-primary-foreground text-lg px-4 py-2">
-            Overall Band: {combinedOverallBand.toFixed(1)}
-          </Badge>
-        )}
+        <div className="flex items-center gap-3">
+          {(currentSubmission1 || currentSubmission2) && (
+            <Button
+              variant="outline"
+              onClick={() => navigate(`/writing/test/${testId}/revise/${(currentSubmission1 ?? currentSubmission2)!.id}`)}
+            >
+              <PenLine size={16} className="mr-2" />
+              Revise this essay
+            </Button>
+          )}
+          {combinedOverallBand !== null && (
+            <Badge className="bg-primary text-primary-foreground text-lg px-4 py-2">
+              Overall Band: {combinedOverallBand.toFixed(1)}
+            </Badge>
+          )}
+        </div>
       </header>
 
       <main className="flex-1 container mx-auto px-4 py-12">
@@ -416,6 +455,7 @@ export default function WritingEvaluationReport() {
                           value={submissionsInAttempt[0].id} // Use Task 1's submission ID to represent the attempt
                         >
                           Attempt {sortedAttempts.length - index} - {new Date(submittedAt).toLocaleString()}
+                          {submissionsInAttempt[0].revision_number > 1 && ` · Draft ${submissionsInAttempt[0].revision_number}`}
                           {averageBandForAttempt !== null && (
                             <span className="ml-2 text-muted-foreground">
                               (Band {averageBandForAttempt.toFixed(1)})
@@ -1,4 +1,4 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate, useLocation } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
@@ -20,6 +20,7 @@ import { OfflineBanner } from '@/components/common/OfflineBanner';
 import { useAuth } from '@/hooks/useAuth';
 import { toast } from 'sonner';
 import { describeApiError, ApiErrorDescriptor } from '@/lib/apiErrors';
+import { getSectionSeconds, getSessionPath, recordMockExamSubmission } from '@/lib/mockExam';
 import { Tables, TablesInsert } from '@/integrations/supabase/types';
 import { AILoadingScreen } from '@/components/common/AILoadingScreen';
 import { useFullscreenTest } from '@/hooks/useFullscreenTest';
@@ -27,7 +28,7 @@ import { useFullscreenTest } from '@/hooks/useFullscreenTest';
 // Define types for the new structure
 type WritingTest = Tables<'writing_tests'>;
 type WritingTask = Tables<'writing_tasks'>;
-// WritingSubmission type available from Tables<'writing_submissions'>
+type WritingSubmission = Tables<'writing_submissions'>;
 
 // Helper to render rich text (markdown-like formatting)
 const renderRichText = (text: string): string => {
@@ -51,7 +52,7 @@ const renderRichText = (text: string): string => {
 };
 
 export default function WritingTest() {
-  const { testId } = useParams<{ testId: string }>();
+  const { testId, reviseSubmissionId } = useParams<{ testId: string; reviseSubmissionId?: string }>();
   const navigate = useNavigate();
   const location = useLocation();
   const { user } = useAuth();
@@ -69,6 +70,10 @@ export default function WritingTest() {
   const [wordCount2, setWordCount2] = useState(0);
   const [submissionId2, setSubmissionId2] = useState<string | null>(null);
 
+  // Previous drafts being revised (set on the /revise/:reviseSubmissionId route)
+  const [parentSubmission1, setParentSubmission1] = useState<WritingSubmission | null>(null);
+  const [parentSubmission2, setParentSubmission2] = useState<WritingSubmission | null>(null);
+
   const [loading, setLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -95,6 +100,21 @@ export default function WritingTest() {
   const [isResubmitting, setIsResubmitting] = useState(false);
 
   const isNewSubmissionRequest = location.pathname.endsWith('/new-submission');
+  // Set when this test is a section of a full mock exam
+  const mockSessionId = new URLSearchParams(location.search).get('mockSession');
+  // Set when this test was opened from a class assignment
+  const assignmentId = new URLSearchParams(location.search).get('assignment');
+  const isRevisionRequest = !!reviseSubmissionId;
+
+  // Links a new draft into the version chain of the submission it revises
+  const revisionFields = (parent: WritingSubmission | null): Partial<TablesInsert<'writing_submissions'>> =>
+    parent ? { parent_submission_id: parent.id, revision_number: parent.revision_number + 1 } : {};
+
+  // Links the drafts to the assignment they were written for, so the gradebook picks them up
+  const assignmentFields = useMemo<Partial<TablesInsert<'writing_submissions'>>>(
+    () => (assignmentId ? { assignment_id: assignmentId } : {}),
+    [assignmentId]
+  );
 
   // --- Start of reordered functions ---
 
@@ -120,6 +140,8 @@ export default function WritingTest() {
         submission_text: submissionText1,
         word_count: wordCount1,
         submitted_at: submissionTimestamp, // Use the consistent timestamp
+        ...revisionFields(parentSubmission1),
+        ...assignmentFields,
       };
       if (submissionId1) {
         await supabase.from('writing_submissions').update(submissionData1).eq('id', submissionId1);
@@ -135,6 +157,8 @@ export default function WritingTest() {
         submission_text: submissionText2,
         word_count: wordCount2,
         submitted_at: submissionTimestamp, // Use the consistent timestamp
+        ...revisionFields(parentSubmission2),
+        ...assignmentFields,
       };
       if (submissionId2) {
         await supabase.from('writing_submissions').update(submissionData2).eq('id', submissionId2);
@@ -152,7 +176,7 @@ export default function WritingTest() {
     } finally {
       setIsSaving(false);
     }
-  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2]);
+  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, parentSubmission1, parentSubmission2, assignmentFields]);
 
   const handleSubmit = useCallback(async () => {
     if (!user) {
@@ -212,6 +236,8 @@ export default function WritingTest() {
         submission_text: submissionText1,
         word_count: wordCount1,
         submitted_at: submissionTimestamp,
+        ...revisionFields(parentSubmission1),
+        ...assignmentFields,
       };
       // Always insert a new submission for Task 1 if it's a new submission request or no ID exists
       if (isNewSubmissionRequest || !currentSubmissionId1) {
@@ -230,6 +256,8 @@ export default function WritingTest() {
         submission_text: submissionText2,
         word_count: wordCount2,
         submitted_at: submissionTimestamp,
+        ...revisionFields(parentSubmission2),
+        ...assignmentFields,
       };
       // Always insert a new submission for Task 2 if it's a new submission request or no ID exists
       if (isNewSubmissionRequest || !currentSubmissionId2) {
@@ -274,6 +302,23 @@ export default function WritingTest() {
       await simulateProgress(3); // Step 3: Calculating band score
 
       toast.success('Writing submitted and AI evaluation triggered!', { id: 'ai-eval-toast' });
+
+      // Part of a full mock exam: hand back to the session for the next section
+      if (mockSessionId) {
+        try {
+          await recordMockExamSubmission(mockSessionId, {
+            module: 'writing',
+            task1SubmissionId: currentSubmissionId1,
+            task2SubmissionId: currentSubmissionId2,
+          });
+          navigate(getSessionPath(mockSessionId));
+          return;
+        } catch (error) {
+          console.error('Error recording mock exam section:', error);
+          toast.error('Could not save this section to your mock exam');
+        }
+      }
+
       navigate(`/writing/evaluation/${testId}/${currentSubmissionId1}`);
     } catch (error: any) {
       console.error('Error submitting writing:', error);
@@ -288,7 +333,7 @@ export default function WritingTest() {
       setIsSubmitting(false);
       setShowAILoadingScreen(false); // Hide loading screen
     }
-  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, navigate, isNewSubmissionRequest]);
+  }, [user, writingTest, task1, task2, submissionText1, wordCount1, submissionId1, submissionText2, wordCount2, submissionId2, parentSubmission1, parentSubmission2, navigate, isNewSubmissionRequest, mockSessionId, assignmentFields]);
 
   // Resubmit handler
   const handleResubmit = useCallback(async () => {
@@ -342,7 +387,7 @@ export default function WritingTest() {
     if (testId) {
       fetchTestData();
     }
-  }, [testId, isNewSubmissionRequest]);
+  }, [testId, isNewSubmissionRequest, reviseSubmissionId]);
 
   // Handle fullscreen - auto-enter on mount
   useEffect(() => {
@@ -397,8 +442,10 @@ export default function WritingTest() {
 
       if (testError) throw testError;
       setWritingTest(testData);
-      setTimeLeft(testData.time_limit * 60);
-      setCustomTime(testData.time_limit);
+      // A mock exam section runs on the official timing, not the test's own limit
+      const timeLimitSeconds = mockSessionId ? getSectionSeconds('writing') : testData.time_limit * 60;
+      setTimeLeft(timeLimitSeconds);
+      setCustomTime(timeLimitSeconds / 60);
 
       // Fetch associated WritingTasks
       const { data: tasksData, error: tasksError } = await supabase
@@ -420,8 +467,34 @@ export default function WritingTest() {
         return;
       }
 
-      // Fetch existing submissions for the current user and tasks, UNLESS it's a new submission request
-      if (user && fetchedTask1 && fetchedTask2 && !isNewSubmissionRequest) {
+      if (user && fetchedTask1 && fetchedTask2 && isRevisionRequest) {
+        // Revising: start from the texts of the chosen attempt and link the new drafts to it
+        const { data: submissions, error: submissionsError } = await supabase
+          .from('writing_submissions')
+          .select('*')
+          .eq('user_id', user.id)
+          .in('task_id', [fetchedTask1.id, fetchedTask2.id]);
+
+        if (submissionsError) throw submissionsError;
+
+        const target = submissions?.find(s => s.id === reviseSubmissionId);
+        if (!target) {
+          toast.error('The submission you want to revise could not be found.');
+          navigate(`/writing/test/${testId}/new-submission`);
+          return;
+        }
+        const previous1 = submissions?.find(s => s.task_id === fetchedTask1?.id && s.submitted_at === target.submitted_at) || null;
+        const previous2 = submissions?.find(s => s.task_id === fetchedTask2?.id && s.submitted_at === target.submitted_at) || null;
+
+        setParentSubmission1(previous1);
+        setParentSubmission2(previous2);
+        setSubmissionText1(previous1?.submission_text || '');
+        setSubmissionText2(previous2?.submission_text || '');
+        setSubmissionId1(null);
+        setSubmissionId2(null);
+        toast.info('Revising your previous submission. Your new draft will be compared with it.');
+      } else if (user && fetchedTask1 && fetchedTask2 && !isNewSubmissionRequest) {
+        // Fetch existing submissions for the current user and tasks, UNLESS it's a new submission request
         const { data: submissions, error: submissionsError } = await supabase
           .from('writing_submissions')
           .select('*')
@@ -527,6 +600,11 @@ export default function WritingTest() {
               <span className="text-xs font-bold" style={{ fontFamily: 'var(--font-ielts)' }}>WR</span>
             </div>
             <span className="text-sm font-semibold" style={{ fontFamily: 'var(--font-ielts)' }}>Writing Test: {writingTest.title}</span>
+            {isRevisionRequest && (parentSubmission1 || parentSubmission2) && (
+              <span className="text-xs text-muted-foreground border border-border px-2 py-0.5">
+                Revising Draft {(parentSubmission1 ?? parentSubmission2)!.revision_number}
+              </span>
+            )}
           </div>
           
           <WritingTimer timeLeft={timeLeft} setTimeLeft={setTimeLeft} isPaused={isPaused} onTimeEnd={handleTimeEnd} />
@@ -542,6 +620,7 @@ export default function WritingTest() {
               customTime={customTime}
               setCustomTime={setCustomTime}
               onTimeChange={handleTimeChange}
+              timeLocked={!!mockSessionId}
             />
             <Button variant="ghost" size="icon" onClick={() => setIsNoteSidebarOpen(true)} className="relative">
               <StickyNote size={18} />
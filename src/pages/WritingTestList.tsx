@@ -1,5 +1,5 @@
-import { useState, useEffect } from 'react';
-import { Link } from 'react-router-dom';
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useLocation } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Navbar } from '@/components/Navbar';
 import { Footer } from '@/components/Footer';
@@ -9,33 +9,34 @@ import { Badge } from '@/components/ui/badge';
 import { PenTool, Clock, ArrowRight, FileText, RotateCcw } from 'lucide-react'; // Added RotateCcw icon
 import { Tables } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
+import { TEST_VARIANT_LABELS, TestVariant, getTestListPath, getVariantFromPath } from '@/lib/testVariant';
 
 // Define the type for the new WritingTest table
 type WritingTest = Tables<'writing_tests'>;
 type WritingSubmission = Tables<'writing_submissions'>;
 
 export default function WritingTestList() {
+  const { pathname } = useLocation();
+  const variant = getVariantFromPath(pathname);
+  const otherVariant: TestVariant = variant === 'general' ? 'academic' : 'general';
   const [tests, setTests] = useState<WritingTest[]>([]);
   const [loading, setLoading] = useState(true);
   const [userSubmissions, setUserSubmissions] = useState<Record<string, WritingSubmission[]>>({}); // Store submissions per test
   const { user } = useAuth();
 
-  useEffect(() => {
-    fetchTests();
-  }, []);
-
   useEffect(() => {
     if (user && tests.length > 0) {
       fetchUserSubmissions();
     }
   }, [user, tests]);
 
-  const fetchTests = async () => {
+  const fetchTests = useCallback(async () => {
     try {
       const { data, error } = await supabase
         .from('writing_tests')
         .select('*')
         .eq('is_published', true)
+        .eq('test_type', variant)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -45,7 +46,12 @@ export default function WritingTestList() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [variant]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchTests();
+  }, [fetchTests]);
 
   const fetchUserSubmissions = async () => {
     if (!user) return;
@@ -103,11 +109,16 @@ export default function WritingTestList() {
         <div className="max-w-4xl mx-auto">
           {/* Header */}
           <div className="text-center mb-12">
-            <Badge variant="secondary" className="mb-4">IELTS Writing Practice</Badge>
+            <Badge variant="secondary" className="mb-4">IELTS {TEST_VARIANT_LABELS[variant]} Writing Practice</Badge>
             <h1 className="text-4xl font-bold mb-4">Writing Practice Tests</h1>
             <p className="text-muted-foreground text-lg max-w-2xl mx-auto">
-              Practice with various IELTS Writing Task 1 and Task 2 prompts. Improve your essay writing and report skills.
+              {variant === 'general'
+                ? 'Practice IELTS General Training Task 1 letters and Task 2 essays.'
+                : 'Practice with various IELTS Writing Task 1 and Task 2 prompts. Improve your essay writing and report skills.'}
             </p>
+            <Link to={getTestListPath('writing', otherVariant)} className="inline-block mt-3 text-sm text-muted-foreground underline hover:text-foreground">
+              Switch to {TEST_VARIANT_LABELS[otherVariant]}
+            </Link>
           </div>
 
           {loading ? (
@@ -14,7 +14,9 @@ import {
   Headphones,
   PenTool,
   Mic,
-  Gift
+  Gift,
+  UserCheck,
+  FileCode2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -25,6 +27,8 @@ const sidebarItems = [
   { label: 'Writing Tests', href: '/admin/writing', icon: PenTool },
   { label: 'Speaking Tests', href: '/admin/speaking', icon: Mic },
   { label: 'Promotion Codes', href: '/admin/promotions', icon: Gift },
+  { label: 'Result Reviews', href: '/admin/reviews', icon: UserCheck },
+  { label: 'Prompt Templates', href: '/admin/prompts', icon: FileCode2 },
   { label: 'Test Bank', href: '/admin/testbank', icon: FileText },
   { label: 'Settings', href: '/admin/settings', icon: Menu },
 ];
@@ -18,7 +18,9 @@ import {
   Eye,
   EyeOff,
   Gauge,
-  BarChart3
+  BarChart3,
+  Target,
+  Layers
 } from 'lucide-react';
 import {
   Table,
@@ -50,6 +52,8 @@ import {
 } from '@/components/ui/alert-dialog';
 import ApiKeyQuotaDashboard from '@/components/admin/ApiKeyQuotaDashboard';
 import ModelPerformanceAnalytics from '@/components/admin/ModelPerformanceAnalytics';
+import CalibrationHarness from '@/components/admin/CalibrationHarness';
+import PlanTiersManager from '@/components/admin/PlanTiersManager';
 
 interface ApiKey {
   id: string;
@@ -331,13 +335,13 @@ export default function AdminSettings() {
           </div>
           <div>
             <h1 className="text-3xl font-bold font-heading">Admin Settings</h1>
-            <p className="text-muted-foreground">Manage API keys and system configuration</p>
+            <p className="text-muted-foreground">Manage API keys, plans and system configuration</p>
           </div>
         </div>
       </div>
 
       <Tabs defaultValue="keys" className="space-y-6">
-        <TabsList className="grid w-full max-w-md grid-cols-3">
+        <TabsList className="grid w-full max-w-2xl grid-cols-5">
           <TabsTrigger value="keys" className="flex items-center gap-2">
             <Key className="w-4 h-4" />
             API Keys
@@ -350,6 +354,14 @@ export default function AdminSettings() {
             <BarChart3 className="w-4 h-4" />
             Analytics
           </TabsTrigger>
+          <TabsTrigger value="calibration" className="flex items-center gap-2">
+            <Target className="w-4 h-4" />
+            Calibration
+          </TabsTrigger>
+          <TabsTrigger value="plans" className="flex items-center gap-2">
+            <Layers className="w-4 h-4" />
+            Plans
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="keys">
@@ -570,6 +582,14 @@ export default function AdminSettings() {
         <TabsContent value="analytics">
           <ModelPerformanceAnalytics />
         </TabsContent>
+
+        <TabsContent value="calibration">
+          <CalibrationHarness />
+        </TabsContent>
+
+        <TabsContent value="plans">
+          <PlanTiersManager />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -18,6 +18,7 @@ import {
   QuestionGroup // Imported from ListeningQuestionGroupEditor
 } from '@/components/admin/ListeningQuestionGroupEditor';
 import { FullListeningTestPreview } from '@/components/admin/FullListeningTestPreview';
+import { TranscriptAlignmentStatus } from '@/components/admin/TranscriptAlignmentStatus';
 import { Json } from '@/integrations/supabase/types'; // Import Json type
 
 interface PartTimestamp {
@@ -764,7 +765,7 @@ export default function ListeningTestEditor() {
               </CardHeader>
               <CardContent className="space-y-6">
                 <p className="text-sm text-muted-foreground">
-                  Add transcripts for each part of the listening test. These will be shown to test-takers after they complete the test.
+                  Add transcripts for each part of the listening test. These will be shown to test-takers after they complete the test. Sync a part with its audio so review mode can highlight the transcript as it plays; lines starting with a "[mm:ss]" timestamp are used as they are.
                 </p>
                 
                 {/* Part 1 Transcript */}
@@ -777,6 +778,12 @@ export default function ListeningTestEditor() {
                     rows={8}
                     className="font-mono text-sm"
                   />
+                  <TranscriptAlignmentStatus
+                    testId={testData.id}
+                    part={1}
+                    transcript={testData.transcript_part1}
+                    audioUrl={testData.audio_url_part1}
+                  />
                 </div>
 
                 {/* Part 2 Transcript */}
@@ -789,6 +796,12 @@ export default function ListeningTestEditor() {
                     rows={8}
                     className="font-mono text-sm"
                   />
+                  <TranscriptAlignmentStatus
+                    testId={testData.id}
+                    part={2}
+                    transcript={testData.transcript_part2}
+                    audioUrl={testData.audio_url_part2}
+                  />
                 </div>
 
                 {/* Part 3 Transcript */}
@@ -801,6 +814,12 @@ export default function ListeningTestEditor() {
                     rows={8}
                     className="font-mono text-sm"
                   />
+                  <TranscriptAlignmentStatus
+                    testId={testData.id}
+                    part={3}
+                    transcript={testData.transcript_part3}
+                    audioUrl={testData.audio_url_part3}
+                  />
                 </div>
 
                 {/* Part 4 Transcript */}
@@ -813,6 +832,12 @@ export default function ListeningTestEditor() {
                     rows={8}
                     className="font-mono text-sm"
                   />
+                  <TranscriptAlignmentStatus
+                    testId={testData.id}
+                    part={4}
+                    transcript={testData.transcript_part4}
+                    audioUrl={testData.audio_url_part4}
+                  />
                 </div>
               </CardContent>
             </Card>
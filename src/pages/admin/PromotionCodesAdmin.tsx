@@ -1,49 +1,56 @@
 import { useState, useEffect } from 'react';
-import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Badge } from '@/components/ui/badge';
 import { toast } from 'sonner';
-import { Loader2, Plus, Copy, Trash2, Gift, CheckCircle2 } from 'lucide-react';
+import { Loader2, Plus, Copy, Trash2, Gift, Power, RefreshCw } from 'lucide-react';
 import { format } from 'date-fns';
+import { PLAN_MODULES, PlanModule, PlanTier, loadPlanTiers } from '@/lib/planTiers';
+import {
+  GRANT_TYPE_LABELS,
+  PromotionCode,
+  PromotionCodeDraft,
+  PromotionCodeStats,
+  PromotionCodeStatus,
+  PromotionGrantType,
+  conversionRate,
+  createPromotionCodes,
+  deletePromotionCode,
+  describeGrant,
+  emptyPromotionCodeDraft,
+  loadPromotionCodes,
+  loadPromotionStats,
+  promotionStatus,
+  setPromotionCodeActive,
+  validatePromotionCodeDraft,
+} from '@/lib/promotionCodes';
 
-interface PromotionCode {
-  id: string;
-  code: string;
-  duration_days: number;
-  created_at: string;
-  claimed_by: string | null;
-  claimed_at: string | null;
-  expires_at: string | null;
-}
-
-const DURATION_OPTIONS = [
-  { value: '7', label: '1 Week (7 days)' },
-  { value: '30', label: '1 Month (30 days)' },
-  { value: '180', label: '6 Months (180 days)' },
-];
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
 
-// Generate a random promotion code
-const generateCode = (): string => {
-  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
-  let code = 'IELTS-';
-  for (let i = 0; i < 8; i++) {
-    code += chars.charAt(Math.floor(Math.random() * chars.length));
-  }
-  return code;
+const STATUS_BADGES: Record<PromotionCodeStatus, { label: string; className: string }> = {
+  active: { label: 'Active', className: 'bg-green-500/10 text-green-600' },
+  scheduled: { label: 'Scheduled', className: 'bg-blue-500/10 text-blue-600' },
+  expired: { label: 'Expired', className: 'bg-muted text-muted-foreground' },
+  used_up: { label: 'Used up', className: 'bg-amber-500/10 text-amber-600' },
+  inactive: { label: 'Inactive', className: 'bg-muted text-muted-foreground' },
 };
 
+const formatDate = (value: string | null) => (value ? format(new Date(value), 'MMM d, yyyy') : '-');
+
 export default function PromotionCodesAdmin() {
   const { user } = useAuth();
   const [codes, setCodes] = useState<PromotionCode[]>([]);
+  const [stats, setStats] = useState<Record<string, PromotionCodeStats>>({});
+  const [plans, setPlans] = useState<PlanTier[]>([]);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
-  const [selectedDuration, setSelectedDuration] = useState('30');
+  const [draft, setDraft] = useState<PromotionCodeDraft>(emptyPromotionCodeDraft);
   const [codeCount, setCodeCount] = useState('1');
 
   useEffect(() => {
@@ -52,13 +59,14 @@ export default function PromotionCodesAdmin() {
 
   const loadCodes = async () => {
     try {
-      const { data, error } = await supabase
-        .from('promotion_codes' as any)
-        .select('*')
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
-      setCodes(((data as unknown) as PromotionCode[]) || []);
+      const [loadedCodes, loadedStats, loadedPlans] = await Promise.all([
+        loadPromotionCodes(),
+        loadPromotionStats(),
+        loadPlanTiers(),
+      ]);
+      setCodes(loadedCodes);
+      setStats(loadedStats);
+      setPlans(loadedPlans);
     } catch (error) {
       console.error('Error loading codes:', error);
       toast.error('Failed to load promotion codes');
@@ -67,36 +75,36 @@ export default function PromotionCodesAdmin() {
     }
   };
 
-  const handleGenerateCodes = async () => {
-    if (!user) return;
+  const update = (changes: Partial<PromotionCodeDraft>) => setDraft(current => ({ ...current, ...changes }));
 
-    setCreating(true);
-    try {
-      const count = parseInt(codeCount);
-      const duration = parseInt(selectedDuration);
-      const newCodes = [];
+  const toggleEligiblePlan = (planId: string, checked: boolean) =>
+    update({
+      eligible_plan_ids: checked
+        ? [...draft.eligible_plan_ids, planId]
+        : draft.eligible_plan_ids.filter(id => id !== planId),
+    });
 
-      for (let i = 0; i < count; i++) {
-        newCodes.push({
-          code: generateCode(),
-          duration_days: duration,
-          created_by: user.id,
-        });
-      }
+  const toggleEligibleModule = (module: PlanModule, checked: boolean) =>
+    update({ eligible_modules: PLAN_MODULES.filter(m => (m === module ? checked : draft.eligible_modules.includes(m))) });
 
-      const { data, error } = await supabase
-        .from('promotion_codes' as any)
-        .insert(newCodes as any)
-        .select();
+  const count = Number(codeCount);
+  const errors = validatePromotionCodeDraft(draft, codes.map(c => c.code), count);
+  // A typed code can only be created once; several codes are always generated
+  const generating = count !== 1 || !draft.code.trim();
 
-      if (error) throw error;
+  const handleCreateCodes = async () => {
+    if (!user || errors.length > 0) return;
 
-      const inserted = ((data as unknown) as PromotionCode[]) || [];
+    setCreating(true);
+    try {
+      const inserted = await createPromotionCodes(draft, count, user.id);
       setCodes([...inserted, ...codes]);
-      toast.success(`Generated ${count} promotion code(s)`);
+      setDraft(emptyPromotionCodeDraft());
+      setCodeCount('1');
+      toast.success(inserted.length === 1 ? `Created ${inserted[0].code}` : `Generated ${inserted.length} promotion codes`);
     } catch (error: any) {
-      console.error('Error generating codes:', error);
-      toast.error(`Failed to generate codes: ${error.message}`);
+      console.error('Error creating codes:', error);
+      toast.error(`Failed to create codes: ${error.message}`);
     } finally {
       setCreating(false);
     }
@@ -107,17 +115,22 @@ export default function PromotionCodesAdmin() {
     toast.success('Code copied to clipboard');
   };
 
+  const handleToggleActive = async (code: PromotionCode) => {
+    try {
+      await setPromotionCodeActive(code.id, !code.is_active);
+      setCodes(codes.map(c => (c.id === code.id ? { ...c, is_active: !code.is_active } : c)));
+      toast.success(code.is_active ? 'Code deactivated' : 'Code activated');
+    } catch (error: any) {
+      console.error('Error updating code:', error);
+      toast.error(`Failed to update code: ${error.message}`);
+    }
+  };
+
   const handleDeleteCode = async (id: string) => {
     if (!confirm('Are you sure you want to delete this code?')) return;
 
     try {
-      const { error } = await supabase
-        .from('promotion_codes' as any)
-        .delete()
-        .eq('id', id);
-
-      if (error) throw error;
-
+      await deletePromotionCode(id);
       setCodes(codes.filter(c => c.id !== id));
       toast.success('Code deleted');
     } catch (error: any) {
@@ -126,13 +139,6 @@ export default function PromotionCodesAdmin() {
     }
   };
 
-  const getDurationLabel = (days: number) => {
-    if (days === 7) return '1 Week';
-    if (days === 30) return '1 Month';
-    if (days === 180) return '6 Months';
-    return `${days} days`;
-  };
-
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
@@ -141,69 +147,232 @@ export default function PromotionCodesAdmin() {
     );
   }
 
+  const paidPlans = plans.filter(p => p.price > 0);
+
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <div>
           <h1 className="text-2xl font-bold">Promotion Codes</h1>
-          <p className="text-muted-foreground">Generate and manage promotional access codes</p>
+          <p className="text-muted-foreground">Create discount, credit and plan access codes and see how they convert</p>
         </div>
+        <Button variant="outline" size="sm" onClick={loadCodes}>
+          <RefreshCw className="w-3 h-3 mr-1" />
+          Refresh
+        </Button>
       </div>
 
-      {/* Generate Codes Card */}
+      {/* Create Codes Card */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Gift className="w-5 h-5" />
-            Generate New Codes
+            Create Codes
           </CardTitle>
           <CardDescription>
-            Create promotion codes that grant users premium access for a specified duration
+            Discounts are entered at checkout; credit and plan access codes are redeemed in Settings.
+            Leave the code empty to generate random ones.
           </CardDescription>
         </CardHeader>
-        <CardContent>
-          <div className="flex flex-wrap gap-4 items-end">
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-4">
+            <div className="space-y-2">
+              <Label htmlFor="promo-code">Code</Label>
+              <Input
+                id="promo-code"
+                value={draft.code}
+                onChange={(e) => update({ code: e.target.value.toUpperCase() })}
+                placeholder="Generated"
+                className="font-mono"
+                disabled={count !== 1}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-count">Number of Codes</Label>
+              <Input
+                id="promo-count"
+                type="number"
+                min="1"
+                max="50"
+                value={codeCount}
+                onChange={(e) => setCodeCount(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="promo-description">Description</Label>
+              <Input
+                id="promo-description"
+                value={draft.description}
+                onChange={(e) => update({ description: e.target.value })}
+                placeholder="e.g. Spring campaign, partner school"
+              />
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
             <div className="space-y-2">
-              <Label htmlFor="duration">Access Duration</Label>
-              <Select value={selectedDuration} onValueChange={setSelectedDuration}>
-                <SelectTrigger id="duration" className="w-48">
+              <Label htmlFor="promo-grant">Grant</Label>
+              <Select value={draft.grant_type} onValueChange={(value) => update({ grant_type: value as PromotionGrantType })}>
+                <SelectTrigger id="promo-grant">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {DURATION_OPTIONS.map((opt) => (
-                    <SelectItem key={opt.value} value={opt.value}>
-                      {opt.label}
+                  {(Object.keys(GRANT_TYPE_LABELS) as PromotionGrantType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {GRANT_TYPE_LABELS[type]}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
+            {draft.grant_type === 'percent_off' && (
+              <div className="space-y-2">
+                <Label htmlFor="promo-percent">Percent Off First Payment</Label>
+                <Input
+                  id="promo-percent"
+                  type="number"
+                  min="1"
+                  max="99"
+                  value={draft.percent_off}
+                  onChange={(e) => update({ percent_off: Number(e.target.value) })}
+                />
+              </div>
+            )}
+            {draft.grant_type === 'credits' && (
+              <div className="space-y-2">
+                <Label htmlFor="promo-credits">Credits</Label>
+                <Input
+                  id="promo-credits"
+                  type="number"
+                  min="1"
+                  value={draft.credits}
+                  onChange={(e) => update({ credits: Number(e.target.value) })}
+                />
+              </div>
+            )}
+            {draft.grant_type === 'plan_access' && (
+              <>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-plan">Plan</Label>
+                  <Select value={draft.plan_tier_id} onValueChange={(value) => update({ plan_tier_id: value })}>
+                    <SelectTrigger id="promo-plan">
+                      <SelectValue placeholder="Choose a plan" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {plans.map((plan) => (
+                        <SelectItem key={plan.id} value={plan.id}>
+                          {plan.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="promo-duration">Access Duration (days)</Label>
+                  <Input
+                    id="promo-duration"
+                    type="number"
+                    min="1"
+                    value={draft.duration_days}
+                    onChange={(e) => update({ duration_days: Number(e.target.value) })}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-4">
             <div className="space-y-2">
-              <Label htmlFor="count">Number of Codes</Label>
+              <Label htmlFor="promo-max">Total Redemptions</Label>
               <Input
-                id="count"
+                id="promo-max"
                 type="number"
                 min="1"
-                max="50"
-                value={codeCount}
-                onChange={(e) => setCodeCount(e.target.value)}
-                className="w-24"
+                value={draft.max_redemptions ?? ''}
+                onChange={(e) => update({ max_redemptions: e.target.value === '' ? null : Number(e.target.value) })}
+                placeholder="Unlimited"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-per-user">Uses per User</Label>
+              <Input
+                id="promo-per-user"
+                type="number"
+                min="1"
+                value={draft.per_user_limit}
+                onChange={(e) => update({ per_user_limit: Number(e.target.value) })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-starts">Starts</Label>
+              <Input
+                id="promo-starts"
+                type="datetime-local"
+                value={draft.starts_at}
+                onChange={(e) => update({ starts_at: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="promo-expires">Expires</Label>
+              <Input
+                id="promo-expires"
+                type="datetime-local"
+                value={draft.expires_at}
+                onChange={(e) => update({ expires_at: e.target.value })}
               />
             </div>
-            <Button onClick={handleGenerateCodes} disabled={creating}>
-              {creating ? (
-                <>
-                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                  Generating...
-                </>
-              ) : (
-                <>
-                  <Plus className="w-4 h-4 mr-2" />
-                  Generate
-                </>
-              )}
-            </Button>
           </div>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label>{draft.grant_type === 'percent_off' ? 'Plans It Discounts' : 'Eligible Current Plans'}</Label>
+              {(draft.grant_type === 'percent_off' ? paidPlans : plans).map((plan) => (
+                <label key={plan.id} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.eligible_plan_ids.includes(plan.id)}
+                    onCheckedChange={(checked) => toggleEligiblePlan(plan.id, checked === true)}
+                  />
+                  {plan.name}
+                </label>
+              ))}
+              <p className="text-xs text-muted-foreground">None selected means any plan.</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Plans Must Include Modules</Label>
+              {PLAN_MODULES.map((module) => (
+                <label key={module} className="flex items-center gap-2 text-sm">
+                  <Checkbox
+                    checked={draft.eligible_modules.includes(module)}
+                    onCheckedChange={(checked) => toggleEligibleModule(module, checked === true)}
+                  />
+                  {capitalize(module)}
+                </label>
+              ))}
+              <p className="text-xs text-muted-foreground">None selected means no module requirement.</p>
+            </div>
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-destructive list-disc pl-5">
+              {errors.map((error) => (
+                <li key={error}>{error}</li>
+              ))}
+            </ul>
+          )}
+
+          <Button onClick={handleCreateCodes} disabled={creating || errors.length > 0}>
+            {creating ? (
+              <>
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                Creating...
+              </>
+            ) : (
+              <>
+                <Plus className="w-4 h-4 mr-2" />
+                {generating ? 'Generate' : 'Create'}
+              </>
+            )}
+          </Button>
         </CardContent>
       </Card>
 
@@ -211,70 +380,113 @@ export default function PromotionCodesAdmin() {
       <Card>
         <CardHeader>
           <CardTitle>All Promotion Codes ({codes.length})</CardTitle>
+          <CardDescription>
+            Converted counts redeemers who bought a paid plan afterwards. Revenue is what they paid for those plans, after discounts.
+          </CardDescription>
         </CardHeader>
         <CardContent>
           {codes.length === 0 ? (
             <p className="text-center text-muted-foreground py-8">
-              No promotion codes generated yet
+              No promotion codes created yet
             </p>
           ) : (
             <Table>
               <TableHeader>
                 <TableRow>
                   <TableHead>Code</TableHead>
-                  <TableHead>Duration</TableHead>
+                  <TableHead>Grant</TableHead>
                   <TableHead>Status</TableHead>
-                  <TableHead>Created</TableHead>
-                  <TableHead>Claimed</TableHead>
-                  <TableHead className="w-24">Actions</TableHead>
+                  <TableHead>Redeemed</TableHead>
+                  <TableHead>Valid</TableHead>
+                  <TableHead>Converted</TableHead>
+                  <TableHead>Revenue</TableHead>
+                  <TableHead className="w-32">Actions</TableHead>
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {codes.map((code) => (
-                  <TableRow key={code.id}>
-                    <TableCell className="font-mono">{code.code}</TableCell>
-                    <TableCell>{getDurationLabel(code.duration_days)}</TableCell>
-                    <TableCell>
-                      {code.claimed_by ? (
-                        <Badge variant="secondary" className="bg-green-500/10 text-green-600">
-                          <CheckCircle2 className="w-3 h-3 mr-1" />
-                          Claimed
+                {codes.map((code) => {
+                  const codeStats = stats[code.id];
+                  const status = STATUS_BADGES[promotionStatus(code, codeStats)];
+                  const rate = conversionRate(codeStats);
+                  const used = (codeStats?.redemptions ?? 0) + (codeStats?.pending_redemptions ?? 0);
+                  return (
+                    <TableRow key={code.id}>
+                      <TableCell>
+                        <div className="font-mono">{code.code}</div>
+                        {code.description && <div className="text-xs text-muted-foreground">{code.description}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {describeGrant(code, plans)}
+                        {(code.eligible_plan_ids.length > 0 || code.eligible_modules.length > 0) && (
+                          <div className="text-xs text-muted-foreground">
+                            Only {[
+                              ...code.eligible_plan_ids.map(id => plans.find(p => p.id === id)?.name ?? 'Deleted plan'),
+                              ...code.eligible_modules.map(capitalize),
+                            ].join(', ')}
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary" className={status.className}>
+                          {status.label}
                         </Badge>
-                      ) : (
-                        <Badge variant="outline">Available</Badge>
-                      )}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {format(new Date(code.created_at), 'MMM d, yyyy')}
-                    </TableCell>
-                    <TableCell className="text-muted-foreground text-sm">
-                      {code.claimed_at 
-                        ? format(new Date(code.claimed_at), 'MMM d, yyyy')
-                        : '-'
-                      }
-                    </TableCell>
-                    <TableCell>
-                      <div className="flex gap-1">
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleCopyCode(code.code)}
-                          disabled={!!code.claimed_by}
-                        >
-                          <Copy className="w-4 h-4" />
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="icon"
-                          onClick={() => handleDeleteCode(code.id)}
-                          disabled={!!code.claimed_by}
-                        >
-                          <Trash2 className="w-4 h-4 text-destructive" />
-                        </Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {codeStats?.redemptions ?? 0}
+                        {code.max_redemptions !== null && ` / ${code.max_redemptions}`}
+                        {(codeStats?.pending_redemptions ?? 0) > 0 && (
+                          <div className="text-xs text-muted-foreground">{codeStats.pending_redemptions} at checkout</div>
+                        )}
+                        <div className="text-xs text-muted-foreground">{code.per_user_limit} per user</div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground text-sm">
+                        {formatDate(code.starts_at)}
+                        <div>to {code.expires_at ? formatDate(code.expires_at) : 'no expiry'}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {codeStats?.converted_users ?? 0} / {codeStats?.unique_users ?? 0}
+                        <div className="text-xs text-muted-foreground">
+                          {rate === null ? '-' : `${Math.round(rate * 100)}%`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {(codeStats?.revenue ?? 0).toLocaleString()}
+                        {(codeStats?.discount_given ?? 0) > 0 && (
+                          <div className="text-xs text-muted-foreground">
+                            {codeStats.discount_given.toLocaleString()} discounted
+                          </div>
+                        )}
+                        {(codeStats?.credits_granted ?? 0) > 0 && (
+                          <div className="text-xs text-muted-foreground">{codeStats.credits_granted} credits given</div>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex gap-1">
+                          <Button variant="ghost" size="icon" onClick={() => handleCopyCode(code.code)}>
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleToggleActive(code)}
+                            title={code.is_active ? 'Deactivate' : 'Activate'}
+                          >
+                            <Power className={`w-4 h-4 ${code.is_active ? 'text-green-600' : 'text-muted-foreground'}`} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => handleDeleteCode(code.id)}
+                            disabled={used > 0}
+                            title={used > 0 ? 'Used codes can only be deactivated' : 'Delete'}
+                          >
+                            <Trash2 className="w-4 h-4 text-destructive" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
               </TableBody>
             </Table>
           )}
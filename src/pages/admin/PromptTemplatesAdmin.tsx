@@ -0,0 +1,401 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useAuth } from '@/hooks/useAuth';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { toast } from 'sonner';
+import { Loader2, FileCode2, RefreshCw, RotateCcw, Save, Trash2, Copy, AlertTriangle } from 'lucide-react';
+import { format } from 'date-fns';
+import { cn } from '@/lib/utils';
+import {
+  PromptDefinition,
+  PromptKey,
+  PromptTemplate,
+  PromptVersionStats,
+  checkTemplate,
+  createPromptTemplate,
+  deletePromptTemplate,
+  formatPromptVersion,
+  loadPromptDefinitions,
+  loadPromptTemplates,
+  loadPromptVersionStats,
+  nextVersionNumber,
+  rollBackToBuiltin,
+  rolloutShares,
+  updatePromptRollout,
+} from '@/lib/promptTemplates';
+import {
+  OVERALL_KEY,
+  bandPairs,
+  criterionMetrics,
+  groupCalibrationResults,
+  loadCalibrationHistory,
+} from '@/lib/calibration';
+
+const STATS_DAYS = 30;
+
+const formatNumber = (value: number | null | undefined, digits = 0) =>
+  value === null || value === undefined ? '-' : Number(value).toFixed(digits);
+
+export default function PromptTemplatesAdmin() {
+  const { user } = useAuth();
+  const [definitions, setDefinitions] = useState<PromptDefinition[]>([]);
+  const [promptKey, setPromptKey] = useState<PromptKey>('reading_generation');
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [stats, setStats] = useState<PromptVersionStats[]>([]);
+  const [calibrationMae, setCalibrationMae] = useState<Record<string, { mae: number | null; n: number }>>({});
+  const [loading, setLoading] = useState(true);
+
+  const [draft, setDraft] = useState('');
+  const [draftKey, setDraftKey] = useState<PromptKey | null>(null);
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [weights, setWeights] = useState<Record<string, string>>({});
+
+  const definition = definitions.find(d => d.key === promptKey) ?? null;
+
+  const loadShared = useCallback(async () => {
+    try {
+      const [loadedDefinitions, loadedStats, writing, speaking] = await Promise.all([
+        loadPromptDefinitions(),
+        loadPromptVersionStats(STATS_DAYS),
+        loadCalibrationHistory('writing'),
+        loadCalibrationHistory('speaking'),
+      ]);
+      setDefinitions(loadedDefinitions);
+      setStats(loadedStats);
+
+      // Overall-band MAE per prompt version, across every calibrated model
+      const byVersion = new Map<string, ReturnType<typeof bandPairs>>();
+      for (const group of [
+        ...groupCalibrationResults(writing.runs, writing.results),
+        ...groupCalibrationResults(speaking.runs, speaking.results),
+      ]) {
+        byVersion.set(group.promptVersion, [...(byVersion.get(group.promptVersion) ?? []), ...bandPairs(group.samples, OVERALL_KEY)]);
+      }
+      setCalibrationMae(Object.fromEntries(
+        Array.from(byVersion, ([version, pairs]) => {
+          const metrics = criterionMetrics(OVERALL_KEY, 'Overall', pairs);
+          return [version, { mae: metrics.mae, n: metrics.n }];
+        })
+      ));
+    } catch (error) {
+      console.error('Error loading prompt data:', error);
+      toast.error('Failed to load prompt templates');
+    }
+  }, []);
+
+  const loadVersions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const loaded = await loadPromptTemplates(promptKey);
+      setTemplates(loaded);
+      setWeights(Object.fromEntries(loaded.map(t => [t.id, String(t.weight)])));
+    } catch (error) {
+      console.error('Error loading prompt versions:', error);
+      toast.error('Failed to load prompt versions');
+    } finally {
+      setLoading(false);
+    }
+  }, [promptKey]);
+
+  useEffect(() => {
+    loadShared();
+  }, [loadShared]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  // Start the editor from the newest version, or the built-in template, when the prompt changes
+  useEffect(() => {
+    if (!definition || loading || draftKey === definition.key) return;
+    setDraft(templates[0]?.template ?? definition.builtin);
+    setNotes('');
+    setDraftKey(definition.key);
+  }, [definition, templates, loading, draftKey]);
+
+  const shares = useMemo(() => rolloutShares(templates), [templates]);
+  const check = useMemo(() => (definition ? checkTemplate(draft, definition) : null), [draft, definition]);
+  const statsByVersion = useMemo(() => new Map(stats.map(s => [s.prompt_version, s])), [stats]);
+
+  const shareOf = (version: number | null) => shares.find(s => s.version === version)?.share ?? 0;
+
+  const handleSave = async () => {
+    if (!user || !definition || !draft.trim()) return;
+    if (check && check.unknown.length > 0) {
+      toast.error(`Unknown variables: ${check.unknown.join(', ')}`);
+      return;
+    }
+    setSaving(true);
+    try {
+      const created = await createPromptTemplate(definition.key, draft, notes, user.id);
+      toast.success(`Saved ${formatPromptVersion(definition.key, created.version)} - set a weight and activate it to roll it out`);
+      setNotes('');
+      loadVersions();
+    } catch (error) {
+      console.error('Error saving prompt version:', error);
+      toast.error('Failed to save version');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRollout = async (template: PromptTemplate, rollout: { weight?: number; is_active?: boolean }) => {
+    try {
+      await updatePromptRollout(template.id, rollout);
+      setTemplates(prev => prev.map(t => (t.id === template.id ? { ...t, ...rollout } : t)));
+    } catch (error) {
+      console.error('Error updating rollout:', error);
+      toast.error('Failed to update rollout');
+    }
+  };
+
+  const handleWeightBlur = (template: PromptTemplate) => {
+    const weight = Math.round(Number(weights[template.id]));
+    if (!Number.isFinite(weight) || weight < 0 || weight > 100) {
+      toast.error('Weight must be between 0 and 100');
+      setWeights(prev => ({ ...prev, [template.id]: String(template.weight) }));
+      return;
+    }
+    if (weight !== template.weight) handleRollout(template, { weight });
+  };
+
+  const handleRollBack = async () => {
+    if (!definition || !confirm(`Send every ${definition.label.toLowerCase()} request back to the built-in template?`)) return;
+    try {
+      await rollBackToBuiltin(definition.key);
+      toast.success('Rolled back to the built-in template');
+      loadVersions();
+    } catch (error) {
+      console.error('Error rolling back:', error);
+      toast.error('Failed to roll back');
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!confirm(`Delete version ${template.version}? Logged calls keep its version string.`)) return;
+    try {
+      await deletePromptTemplate(template.id);
+      loadVersions();
+    } catch (error) {
+      console.error('Error deleting version:', error);
+      toast.error('Failed to delete version');
+    }
+  };
+
+  const renderStats = (version: string) => {
+    const row = statsByVersion.get(version);
+    const calibration = calibrationMae[version];
+    return (
+      <>
+        <TableCell className="text-right">{row?.total_calls ?? 0}</TableCell>
+        <TableCell className="text-right">{row?.success_rate === null || row?.success_rate === undefined ? '-' : `${row.success_rate}%`}</TableCell>
+        <TableCell className="text-right">{formatNumber(row?.avg_response_time_ms)}</TableCell>
+        <TableCell className="text-right">
+          {row?.review_count ? `${formatNumber(row.mean_abs_band_delta, 2)} (${row.review_count})` : '-'}
+        </TableCell>
+        <TableCell className="text-right">
+          {calibration?.n ? `${formatNumber(calibration.mae, 2)} (${calibration.n})` : '-'}
+        </TableCell>
+      </>
+    );
+  };
+
+  const builtinVersion = formatPromptVersion(promptKey, null);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <FileCode2 className="w-6 h-6" />
+            Prompt Templates
+          </h1>
+          <p className="text-muted-foreground">Version the AI prompts, roll them out by weight and roll back without a redeploy</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select value={promptKey} onValueChange={value => setPromptKey(value as PromptKey)}>
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Prompt" />
+            </SelectTrigger>
+            <SelectContent>
+              {definitions.map(d => (
+                <SelectItem key={d.key} value={d.key}>{d.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => { loadShared(); loadVersions(); }} disabled={loading}>
+            <RefreshCw className={cn('w-4 h-4', loading && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      {/* Rollout */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Rollout</CardTitle>
+            <CardDescription>
+              Each request uses one active version, picked in proportion to its weight. Changes apply within a minute.
+              Stats cover the last {STATS_DAYS} days; review gap is the mean |human - AI| band from examiner reviews.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={handleRollBack} disabled={!templates.some(t => t.is_active)}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Roll back to built-in
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Version</TableHead>
+                  <TableHead>Notes</TableHead>
+                  <TableHead className="w-24">Weight</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead className="text-right">Traffic</TableHead>
+                  <TableHead className="text-right">Calls</TableHead>
+                  <TableHead className="text-right">Success</TableHead>
+                  <TableHead className="text-right">Avg ms</TableHead>
+                  <TableHead className="text-right">Review gap</TableHead>
+                  <TableHead className="text-right">Calibration MAE</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {templates.map(template => {
+                  const version = formatPromptVersion(template.prompt_key, template.version);
+                  return (
+                    <TableRow key={template.id}>
+                      <TableCell>
+                        <div className="font-mono text-sm">v{template.version}</div>
+                        <div className="text-xs text-muted-foreground">{format(new Date(template.created_at), 'MMM d, yyyy')}</div>
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm text-muted-foreground truncate">{template.notes || '-'}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          value={weights[template.id] ?? ''}
+                          onChange={e => setWeights(prev => ({ ...prev, [template.id]: e.target.value }))}
+                          onBlur={() => handleWeightBlur(template)}
+                          className="h-8"
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Switch checked={template.is_active} onCheckedChange={checked => handleRollout(template, { is_active: checked })} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {shareOf(template.version) > 0 ? <Badge>{Math.round(shareOf(template.version) * 100)}%</Badge> : '-'}
+                      </TableCell>
+                      {renderStats(version)}
+                      <TableCell className="text-right whitespace-nowrap">
+                        <Button variant="ghost" size="icon" title="Edit a copy" onClick={() => setDraft(template.template)}>
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Delete"
+                          disabled={template.is_active}
+                          onClick={() => handleDelete(template)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                <TableRow>
+                  <TableCell className="font-mono text-sm">built-in</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">Template in the edge function code</TableCell>
+                  <TableCell />
+                  <TableCell />
+                  <TableCell className="text-right">
+                    {shareOf(null) > 0 ? <Badge variant="secondary">{Math.round(shareOf(null) * 100)}%</Badge> : '-'}
+                  </TableCell>
+                  {renderStats(builtinVersion)}
+                  <TableCell className="text-right">
+                    {definition && (
+                      <Button variant="ghost" size="icon" title="Edit a copy" onClick={() => setDraft(definition.builtin)}>
+                        <Copy className="w-4 h-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* New version */}
+      {definition && (
+        <Card>
+          <CardHeader>
+            <CardTitle>New Version</CardTitle>
+            <CardDescription>
+              Saved versions start inactive. Calibrate a version from Settings before giving it traffic.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 lg:grid-cols-[1fr_18rem]">
+              <Textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                className="min-h-[420px] font-mono text-xs"
+              />
+              <div className="space-y-2">
+                <Label>Variables</Label>
+                <div className="space-y-2 text-sm">
+                  {Object.entries(definition.variables).map(([name, description]) => (
+                    <div key={name}>
+                      <code className={cn('text-xs', check?.unused.includes(name) && 'text-muted-foreground line-through')}>
+                        {`{{${name}}}`}
+                      </code>
+                      <p className="text-xs text-muted-foreground">{description}</p>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {check && check.unknown.length > 0 && (
+              <p className="text-sm text-red-600 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" />
+                Unknown variables: {check.unknown.join(', ')}. Requests would fall back to the built-in template.
+              </p>
+            )}
+            {check && check.unused.length > 0 && (
+              <p className="text-sm text-amber-600">Not used: {check.unused.join(', ')}</p>
+            )}
+
+            <div className="flex items-end gap-4">
+              <div className="flex-1 space-y-2">
+                <Label htmlFor="prompt-notes">What changed</Label>
+                <Input id="prompt-notes" value={notes} onChange={e => setNotes(e.target.value)} placeholder="e.g. Stricter Band 7 guidance" />
+              </div>
+              <Button onClick={handleSave} disabled={saving || !draft.trim() || draft === definition.builtin}>
+                {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                Save as v{nextVersionNumber(templates)}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
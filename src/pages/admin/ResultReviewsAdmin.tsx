@@ -0,0 +1,16 @@
+import { useAuth } from '@/hooks/useAuth';
+import { ReviewQueue } from '@/components/review/ReviewQueue';
+
+export default function ResultReviewsAdmin() {
+  const { user } = useAuth();
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold">Result Reviews</h1>
+        <p className="text-muted-foreground">Students' requests to have an AI writing or speaking band re-marked by an examiner</p>
+      </div>
+      {user && <ReviewQueue />}
+    </div>
+  );
+}
@@ -191,12 +191,13 @@ export default function TestBankAdmin() {
 
   const togglePublishStatus = async (id: string, currentStatus: boolean) => {
     try {
-      const { error } = await supabase
-        .from('generated_test_audio')
-        .update({ is_published: !currentStatus })
-        .eq('id', id);
+      // Publishing also aligns a listening transcript with its audio
+      const { data, error } = await supabase.functions.invoke('publish-generated-tests', {
+        body: { testIds: [id], publish: !currentStatus },
+      });
 
       if (error) throw error;
+      if (!data?.success) throw new Error(data?.error || 'Failed to update publish status');
 
       setTests((prev) =>
         prev.map((test) =>
@@ -121,6 +121,9 @@ export default function WritingTestsAdmin() {
                     <Badge variant="outline">
                       Full Test
                     </Badge>
+                    <Badge variant="outline">
+                      {test.test_type === 'general' ? 'General Training' : 'Academic'}
+                    </Badge>
                   </div>
                   <p className="text-sm text-muted-foreground mt-1">
                     Time limit: {test.time_limit} min
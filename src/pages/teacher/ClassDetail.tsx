@@ -0,0 +1,280 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { AssignmentDialog } from '@/components/teacher/AssignmentDialog';
+import { BandOverrideDialog, BandOverrideTarget } from '@/components/teacher/BandOverrideDialog';
+import { GradebookTable } from '@/components/teacher/GradebookTable';
+import { Archive, ArrowLeft, CalendarClock, Copy, Plus, RefreshCw, Trash2, UserMinus } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useTeacherAccess } from '@/hooks/useTeacherAccess';
+import {
+  ClassAssignment,
+  ClassStudent,
+  Classroom,
+  GradebookRow,
+  deleteAssignment,
+  getClass,
+  isAssignmentOverdue,
+  loadClassAssignments,
+  loadClassStudents,
+  loadGradebook,
+  regenerateInviteCode,
+  removeStudent,
+  updateClass,
+} from '@/lib/classroom';
+
+const formatDue = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+export default function ClassDetail() {
+  const { classId } = useParams<{ classId: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isTeacher, loading: accessLoading } = useTeacherAccess();
+  const [classroom, setClassroom] = useState<Classroom | null>(null);
+  const [students, setStudents] = useState<ClassStudent[]>([]);
+  const [assignments, setAssignments] = useState<ClassAssignment[]>([]);
+  const [gradebook, setGradebook] = useState<GradebookRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [assignmentDialogOpen, setAssignmentDialogOpen] = useState(false);
+  const [overrideTarget, setOverrideTarget] = useState<BandOverrideTarget | null>(null);
+
+  const loadClass = useCallback(async () => {
+    if (!classId) return;
+    try {
+      const [classData, studentData, assignmentData] = await Promise.all([
+        getClass(classId),
+        loadClassStudents(classId),
+        loadClassAssignments([classId]),
+      ]);
+      setClassroom(classData);
+      setStudents(studentData);
+      setAssignments(assignmentData);
+      setGradebook(await loadGradebook(studentData, assignmentData));
+    } catch (error) {
+      console.error('Error loading class:', error);
+      toast.error('Could not load this class');
+    } finally {
+      setLoading(false);
+    }
+  }, [classId]);
+
+  useEffect(() => {
+    if (accessLoading) return;
+    if (!user || !isTeacher) {
+      navigate('/teacher');
+      return;
+    }
+    loadClass();
+  }, [accessLoading, user, isTeacher, navigate, loadClass]);
+
+  const handleCopyCode = async () => {
+    if (!classroom) return;
+    await navigator.clipboard.writeText(classroom.invite_code);
+    toast.success('Invite code copied');
+  };
+
+  const handleRegenerateCode = async () => {
+    if (!classroom || !confirm('Issue a new invite code? The current code will stop working.')) return;
+    try {
+      setClassroom(await regenerateInviteCode(classroom.id));
+    } catch (error) {
+      console.error('Error regenerating invite code:', error);
+      toast.error('Could not change the invite code');
+    }
+  };
+
+  const handleToggleArchive = async () => {
+    if (!classroom) return;
+    try {
+      setClassroom(await updateClass(classroom.id, { is_archived: !classroom.is_archived }));
+    } catch (error) {
+      console.error('Error archiving class:', error);
+      toast.error('Could not update the class');
+    }
+  };
+
+  const handleRemoveStudent = async (student: ClassStudent) => {
+    if (!classroom || !confirm(`Remove ${student.name} from ${classroom.name}?`)) return;
+    try {
+      await removeStudent(classroom.id, student.id);
+      await loadClass();
+    } catch (error) {
+      console.error('Error removing student:', error);
+      toast.error('Could not remove the student');
+    }
+  };
+
+  const handleDeleteAssignment = async (assignment: ClassAssignment) => {
+    if (!confirm(`Delete "${assignment.title}"? Grades and overrides for it are removed from the gradebook.`)) return;
+    try {
+      await deleteAssignment(assignment.id);
+      await loadClass();
+    } catch (error) {
+      console.error('Error deleting assignment:', error);
+      toast.error('Could not delete the assignment');
+    }
+  };
+
+  if (accessLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading class...</div>
+      </div>
+    );
+  }
+
+  if (!classroom || !user) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p className="text-muted-foreground">This class could not be found.</p>
+        <Button onClick={() => navigate('/teacher')}>Back to classes</Button>
+      </div>
+    );
+  }
+
+  const submittedCount = (assignment: ClassAssignment) =>
+    gradebook.filter(row => row.cells[assignment.id]?.status !== 'missing').length;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-6xl">
+        <Button variant="ghost" size="sm" className="gap-2 mb-4" onClick={() => navigate('/teacher')}>
+          <ArrowLeft className="w-4 h-4" />
+          All classes
+        </Button>
+
+        <div className="flex flex-wrap items-start justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              {classroom.name}
+              {classroom.is_archived && <Badge variant="secondary">Archived</Badge>}
+            </h1>
+            {classroom.description && <p className="text-muted-foreground mt-1">{classroom.description}</p>}
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="outline" className="font-mono text-base py-1.5 px-3">{classroom.invite_code}</Badge>
+            <Button variant="outline" size="icon" onClick={handleCopyCode} aria-label="Copy invite code">
+              <Copy className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" size="icon" onClick={handleRegenerateCode} aria-label="New invite code">
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+            <Button variant="outline" className="gap-2" onClick={handleToggleArchive}>
+              <Archive className="w-4 h-4" />
+              {classroom.is_archived ? 'Unarchive' : 'Archive'}
+            </Button>
+          </div>
+        </div>
+
+        <Tabs defaultValue="gradebook">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <TabsList>
+              <TabsTrigger value="gradebook">Gradebook</TabsTrigger>
+              <TabsTrigger value="assignments">Assignments ({assignments.length})</TabsTrigger>
+              <TabsTrigger value="roster">Roster ({students.length})</TabsTrigger>
+            </TabsList>
+            <Button className="gap-2" onClick={() => setAssignmentDialogOpen(true)}>
+              <Plus className="w-4 h-4" />
+              New assignment
+            </Button>
+          </div>
+
+          <TabsContent value="gradebook">
+            <GradebookTable
+              rows={gradebook}
+              assignments={assignments}
+              onSelectCell={(row, assignment, cell) => setOverrideTarget({ student: row.student, assignment, cell })}
+            />
+            <p className="text-xs text-muted-foreground mt-3">
+              Click a cell to give your own band and comment. Highlighted bands are teacher grades; dotted underlines mark late submissions.
+            </p>
+          </TabsContent>
+
+          <TabsContent value="assignments" className="space-y-3">
+            {assignments.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">No assignments yet.</p>
+            ) : (
+              assignments.map(assignment => (
+                <Card key={assignment.id}>
+                  <CardContent className="p-4 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <span className="font-medium">{assignment.title}</span>
+                        <Badge variant="secondary" className="capitalize">{assignment.module}</Badge>
+                        {assignment.preset_id && <Badge variant="outline">AI practice</Badge>}
+                        {!assignment.test_id && !assignment.preset_id && <Badge variant="destructive">Test removed</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground flex items-center gap-1.5">
+                        <CalendarClock className="w-3.5 h-3.5" />
+                        {isAssignmentOverdue(assignment) ? 'Was due' : 'Due'} {formatDue(assignment.due_at)} · {submittedCount(assignment)}/{students.length} submitted
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => handleDeleteAssignment(assignment)} aria-label="Delete assignment">
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+
+          <TabsContent value="roster" className="space-y-2">
+            {students.length === 0 ? (
+              <p className="text-center text-muted-foreground py-12">
+                No students yet. Students join from My Classes with the code <span className="font-mono">{classroom.invite_code}</span>.
+              </p>
+            ) : (
+              students.map(student => (
+                <Card key={student.id}>
+                  <CardContent className="p-3 flex items-center gap-4">
+                    <div className="flex-1 min-w-0">
+                      <div className="font-medium">{student.name}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {student.email && student.email !== student.name ? `${student.email} · ` : ''}Joined {new Date(student.joinedAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                    <Button variant="ghost" size="icon" onClick={() => handleRemoveStudent(student)} aria-label={`Remove ${student.name}`}>
+                      <UserMinus className="w-4 h-4" />
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </main>
+
+      <Footer />
+
+      <AssignmentDialog
+        open={assignmentDialogOpen}
+        onOpenChange={setAssignmentDialogOpen}
+        classId={classroom.id}
+        teacherId={user.id}
+        onCreated={() => {
+          toast.success('Assignment set');
+          loadClass();
+        }}
+      />
+
+      <BandOverrideDialog
+        target={overrideTarget}
+        teacherId={user.id}
+        onClose={() => setOverrideTarget(null)}
+        onSaved={() => {
+          toast.success('Grade saved');
+          loadClass();
+        }}
+      />
+    </div>
+  );
+}
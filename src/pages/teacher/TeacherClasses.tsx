@@ -0,0 +1,183 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { GraduationCap, Loader2, Plus, UserCheck, Users } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/hooks/useAuth';
+import { useTeacherAccess } from '@/hooks/useTeacherAccess';
+import { Classroom, createClass, loadTeacherClasses } from '@/lib/classroom';
+
+export default function TeacherClasses() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isTeacher, loading: accessLoading } = useTeacherAccess();
+  const [classes, setClasses] = useState<Classroom[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [creating, setCreating] = useState(false);
+
+  const loadClasses = useCallback(async () => {
+    if (!user) return;
+    try {
+      setClasses(await loadTeacherClasses(user.id));
+    } catch (error) {
+      console.error('Error loading classes:', error);
+      toast.error('Could not load your classes');
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (accessLoading) return;
+    if (!user) {
+      navigate(`/auth?returnTo=${encodeURIComponent('/teacher')}`);
+      return;
+    }
+    if (isTeacher) loadClasses();
+    else setLoading(false);
+  }, [accessLoading, user, isTeacher, navigate, loadClasses]);
+
+  const handleCreate = async () => {
+    if (!user || !name.trim()) return;
+    setCreating(true);
+    try {
+      const created = await createClass(user.id, name, description);
+      toast.success(`Created ${created.name}`);
+      setDialogOpen(false);
+      setName('');
+      setDescription('');
+      navigate(`/teacher/classes/${created.id}`);
+    } catch (error) {
+      console.error('Error creating class:', error);
+      toast.error('Could not create the class');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (accessLoading || loading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading classes...</div>
+      </div>
+    );
+  }
+
+  if (!isTeacher) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4 px-4 text-center">
+        <GraduationCap className="w-12 h-12 text-muted-foreground" />
+        <p className="text-muted-foreground max-w-md">
+          This area is for teachers. Ask an administrator to add your account as a teacher, or join a class as a student.
+        </p>
+        <Button onClick={() => navigate('/classes')}>Go to My Classes</Button>
+      </div>
+    );
+  }
+
+  const activeClasses = classes.filter(c => !c.is_archived);
+  const archivedClasses = classes.filter(c => c.is_archived);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-5xl">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div>
+            <h1 className="text-3xl font-bold flex items-center gap-3">
+              <GraduationCap className="w-8 h-8 text-primary" />
+              Teaching
+            </h1>
+            <p className="text-muted-foreground mt-1">Your classes, assignments and gradebooks.</p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" className="gap-2" onClick={() => navigate('/teacher/reviews')}>
+              <UserCheck className="w-4 h-4" />
+              Review requests
+            </Button>
+            <Button className="gap-2" onClick={() => setDialogOpen(true)}>
+              <Plus className="w-4 h-4" />
+              New class
+            </Button>
+          </div>
+        </div>
+
+        {activeClasses.length === 0 ? (
+          <p className="text-center text-muted-foreground py-12">Create your first class to get an invite code for your students.</p>
+        ) : (
+          <div className="grid gap-4 md:grid-cols-2">
+            {activeClasses.map(classroom => (
+              <Link key={classroom.id} to={`/teacher/classes/${classroom.id}`}>
+                <Card className="h-full hover:border-primary/50 transition-colors">
+                  <CardHeader>
+                    <CardTitle className="flex items-center justify-between gap-2">
+                      {classroom.name}
+                      <Badge variant="outline" className="font-mono">{classroom.invite_code}</Badge>
+                    </CardTitle>
+                    {classroom.description && <CardDescription>{classroom.description}</CardDescription>}
+                  </CardHeader>
+                  <CardContent className="text-sm text-muted-foreground flex items-center gap-2">
+                    <Users className="w-4 h-4" />
+                    Open roster and gradebook
+                  </CardContent>
+                </Card>
+              </Link>
+            ))}
+          </div>
+        )}
+
+        {archivedClasses.length > 0 && (
+          <div className="mt-10">
+            <h2 className="text-sm font-medium text-muted-foreground mb-3">Archived</h2>
+            <div className="flex flex-wrap gap-2">
+              {archivedClasses.map(classroom => (
+                <Link key={classroom.id} to={`/teacher/classes/${classroom.id}`}>
+                  <Badge variant="secondary" className="py-1.5 px-3">{classroom.name}</Badge>
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </main>
+
+      <Footer />
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New class</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="class-name">Name</Label>
+              <Input id="class-name" value={name} onChange={e => setName(e.target.value)} placeholder="e.g. Evening IELTS - Band 6.5 target" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="class-description">Description (optional)</Label>
+              <Textarea id="class-description" value={description} onChange={e => setDescription(e.target.value)} rows={3} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>Cancel</Button>
+            <Button onClick={handleCreate} disabled={creating || !name.trim()}>
+              {creating && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Create
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,53 @@
+import { useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Navbar } from '@/components/Navbar';
+import { Footer } from '@/components/Footer';
+import { ArrowLeft, UserCheck } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { useTeacherAccess } from '@/hooks/useTeacherAccess';
+import { ReviewQueue } from '@/components/review/ReviewQueue';
+
+export default function TeacherReviews() {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { isTeacher, loading: accessLoading } = useTeacherAccess();
+
+  useEffect(() => {
+    if (accessLoading) return;
+    if (!user || !isTeacher) navigate('/teacher');
+  }, [accessLoading, user, isTeacher, navigate]);
+
+  if (accessLoading || !user || !isTeacher) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="animate-pulse text-muted-foreground">Loading reviews...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-background via-background to-accent/5 flex flex-col">
+      <Navbar />
+
+      <main className="flex-1 container mx-auto px-4 py-8 max-w-5xl">
+        <Button variant="ghost" size="sm" className="gap-2 mb-4" onClick={() => navigate('/teacher')}>
+          <ArrowLeft className="w-4 h-4" />
+          All classes
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold flex items-center gap-3">
+            <UserCheck className="w-8 h-8 text-primary" />
+            Review requests
+          </h1>
+          <p className="text-muted-foreground mt-1">Your students' requests to have an AI band re-marked.</p>
+        </div>
+
+        <ReviewQueue />
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
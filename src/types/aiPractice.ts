@@ -3,6 +3,12 @@ import { supabase } from '@/integrations/supabase/client';
 import { uploadToR2 } from '@/lib/r2Upload';
 import { compressAudio } from '@/utils/audioCompressor';
 import type { Json } from '@/integrations/supabase/types';
+import type { TestVariant } from '@/lib/testVariant';
+import {
+  formatGeneratedTestIssues,
+  GeneratedTestIssue,
+  validateStoredGeneratedTest,
+} from '@/lib/generatedTestSchema';
 
 function stableHashHex(input: string): string {
   // djb2 (32-bit)
@@ -137,6 +143,7 @@ export interface PracticeConfig {
   topicPreference?: string;
   timeMinutes: number;
   audioSpeed?: number; // For listening only
+  testVariant?: TestVariant; // Academic or General Training (reading/writing only)
 }
 
 // Generated question structure
@@ -187,6 +194,7 @@ export interface GeneratedWritingSingleTask {
   chartData?: object; // JSON chart data for frontend rendering (preferred)
   image_description?: string;
   visual_type?: string; // Type of visual for Task 1
+  letter_type?: string; // General Training Task 1 letter register (FORMAL, SEMI_FORMAL, INFORMAL)
   word_limit_min: number;
   word_limit_max?: number;
 }
@@ -237,6 +245,7 @@ export interface GeneratedTest {
   difficulty: DifficultyLevel;
   topic: string;
   timeMinutes: number;
+  testVariant?: TestVariant; // Missing on older tests, which are all Academic
   passage?: GeneratedPassage; // For reading
   audioBase64?: string; // For listening (kept in memory only)
   audioUrl?: string; // Persisted URL for history/retake
@@ -253,6 +262,8 @@ export interface GeneratedTest {
   speakingAudioUrls?: Record<string, string>; // Pre-generated TTS audio URLs for speaking tests (from presets)
   isPreset?: boolean; // Whether this test is from a preset
   presetId?: string; // The preset ID if applicable
+  schemaVersion?: number; // generatedTestSchema version the payload passed on the server
+  assignmentId?: string; // Class assignment this attempt was started from
 }
 
 // Practice result
@@ -265,6 +276,7 @@ export interface PracticeResult {
   completedAt: string;
   timeSpent: number; // seconds
   questionResults: QuestionResult[];
+  promptVersion?: string; // Prompt template version that produced an AI evaluation
 }
 
 export interface QuestionResult {
@@ -393,6 +405,8 @@ export async function saveGeneratedTestAsync(test: GeneratedTest, userId: string
     // Track if this test came from a preset (for cache deduplication)
     is_preset: test.isPreset ?? null,
     preset_id: test.presetId ?? null,
+    // Results of assigned tests are copied into test_results for the class gradebook
+    assignment_id: test.assignmentId ?? null,
   }).select('audio_url').single();
 
   if (insertError) {
@@ -491,8 +505,29 @@ export async function loadGeneratedTestsAsync(userId: string): Promise<Generated
   return tests;
 }
 
-/** Load a single test by ID from memory cache first, then Supabase. */
-export async function loadGeneratedTestAsync(testId: string): Promise<GeneratedTest | null> {
+/** Thrown by loadGeneratedTestAsync for a stored test that fails the shared schema */
+export class InvalidGeneratedTestError extends Error {
+  constructor(public readonly testId: string, public readonly issues: GeneratedTestIssue[]) {
+    super('This practice test is damaged and cannot be opened. Please generate a new one.');
+    this.name = 'InvalidGeneratedTestError';
+  }
+}
+
+export interface LoadGeneratedTestOptions {
+  /** Return a test that fails the schema instead of throwing (the results view: the attempt is already scored) */
+  allowInvalid?: boolean;
+}
+
+/**
+ * Load a single test by ID from memory cache first, then Supabase.
+ * Throws InvalidGeneratedTestError when a versioned payload fails the shared
+ * schema. Payloads saved before the schema existed (no schemaVersion) were
+ * playable before it, so their issues are only logged.
+ */
+export async function loadGeneratedTestAsync(
+  testId: string,
+  { allowInvalid = false }: LoadGeneratedTestOptions = {}
+): Promise<GeneratedTest | null> {
   const isRenderable = (t: GeneratedTest): boolean => {
     const anyT = t as any;
 
@@ -699,10 +734,19 @@ export async function loadGeneratedTestAsync(testId: string): Promise<GeneratedT
     // Preserve preset info
     isPreset: data.is_preset ?? undefined,
     presetId: data.preset_id ?? undefined,
+    assignmentId: data.assignment_id ?? undefined,
   };
 
+  const validation = validateStoredGeneratedTest(test.module, test, test.schemaVersion);
+  const rejected = !validation.valid && test.schemaVersion !== undefined;
+  if (!validation.valid) {
+    console.warn(`[loadGeneratedTestAsync] Test ${test.id} failed schema validation:\n${formatGeneratedTestIssues(validation.issues)}`);
+    if (rejected && !allowInvalid) throw new InvalidGeneratedTestError(test.id, validation.issues);
+  }
+
   // Keep the hydrated version in memory so the test page immediately uses real audio.
-  currentTestCache = test;
+  // A rejected test is not cached, so opening it from the results view cannot bypass the check.
+  if (!rejected) currentTestCache = test;
 
   return test;
 }
@@ -720,6 +764,7 @@ export async function savePracticeResultAsync(result: PracticeResult, userId: st
     time_spent_seconds: result.timeSpent,
     question_results: result.questionResults as unknown as Json,
     completed_at: result.completedAt,
+    prompt_version: result.promptVersion ?? null,
   });
 
   if (error) {
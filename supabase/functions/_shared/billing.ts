@@ -0,0 +1,286 @@
+// Payment-provider-agnostic billing, shared by create-checkout and
+// billing-webhook. The subscription lifecycle section is copied to
+// src/lib/billing.ts (checked by sharedModuleCopies.test.ts). A provider creates hosted checkout sessions and
+// turns its signed webhooks into BillingEvents; everything after that (what a
+// renewal, failed payment or refund does to a subscription) lives here.
+
+// ============================================================================
+// PROVIDER INTERFACE
+// ============================================================================
+
+export type BillingProviderName = 'fake';
+export type CheckoutKind = 'subscription' | 'credit_pack';
+
+export interface CheckoutRequest {
+  // Our row the payment is for, from checkoutReference(); echoed back in every event
+  reference: string;
+  itemName: string;
+  amount: number;
+  // Charged instead of amount for the first payment, after a promotion discount
+  firstPaymentAmount?: number;
+  currency: string;
+  // Renewal interval for subscriptions; a one-off payment when absent
+  intervalDays?: number;
+  customerEmail?: string | null;
+  successUrl: string;
+  cancelUrl: string;
+}
+
+export interface CheckoutSession {
+  id: string;
+  url: string;
+}
+
+export type BillingEventType =
+  | 'payment_succeeded'
+  | 'subscription_renewed'
+  | 'payment_failed'
+  | 'subscription_cancelled'
+  | 'refunded';
+
+export interface BillingEvent {
+  // Provider's event id; webhooks are retried, so each id is applied once
+  id: string;
+  type: BillingEventType;
+  reference: string;
+  providerSubscriptionId?: string;
+  // Paid-through date reported with a payment, if the provider sends one
+  periodEnd?: string;
+  occurredAt: string;
+}
+
+export interface BillingProvider {
+  name: BillingProviderName;
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Throws BillingSignatureError unless the payload was signed by the provider
+  parseWebhook(rawBody: string, headers: Headers): Promise<BillingEvent>;
+}
+
+export class BillingSignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingSignatureError';
+  }
+}
+
+// BILLING_PROVIDER is missing or names a provider this deployment may not use
+export class BillingConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BillingConfigError';
+  }
+}
+
+const BILLING_EVENT_TYPES: BillingEventType[] = [
+  'payment_succeeded',
+  'subscription_renewed',
+  'payment_failed',
+  'subscription_cancelled',
+  'refunded',
+];
+
+export function checkoutReference(kind: CheckoutKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+export function parseCheckoutReference(reference: string): { kind: CheckoutKind; id: string } | null {
+  const match = reference.match(/^(subscription|credit_pack):([0-9a-f-]{36})$/i);
+  return match ? { kind: match[1] as CheckoutKind, id: match[2] } : null;
+}
+
+// ============================================================================
+// WEBHOOK SIGNATURES - "t=<unix seconds>,v1=<hex HMAC-SHA256 of t.body>"
+// ============================================================================
+
+// Older signatures are rejected so a captured webhook cannot be replayed later
+export const SIGNATURE_TOLERANCE_SECONDS = 300;
+
+async function hmacHex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+export async function signWebhookPayload(secret: string, body: string, timestamp: number): Promise<string> {
+  return `t=${timestamp},v1=${await hmacHex(secret, `${timestamp}.${body}`)}`;
+}
+
+export async function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null,
+  nowSeconds: number
+): Promise<void> {
+  if (!header) throw new BillingSignatureError('Missing signature');
+  const parts = Object.fromEntries(header.split(',').map((part) => part.trim().split('=') as [string, string]));
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v1) throw new BillingSignatureError('Malformed signature');
+  if (Math.abs(nowSeconds - timestamp) > SIGNATURE_TOLERANCE_SECONDS) throw new BillingSignatureError('Signature expired');
+  const expected = await hmacHex(secret, `${timestamp}.${body}`);
+  if (!timingSafeEqual(expected, parts.v1)) throw new BillingSignatureError('Invalid signature');
+}
+
+// ============================================================================
+// FAKE PROVIDER - local development and tests
+// ============================================================================
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-billing-signature';
+
+export interface FakeBillingProvider extends BillingProvider {
+  // Signed webhook request as the fake provider would send it
+  signWebhook(event: BillingEvent): Promise<{ body: string; headers: Headers }>;
+}
+
+/**
+ * Checkout "succeeds" at once: the session URL is the success URL. Nothing is
+ * paid until a signed payment_succeeded webhook arrives (see signWebhook).
+ */
+export function createFakeBillingProvider(
+  secret: string,
+  now: () => number = () => Date.now()
+): FakeBillingProvider {
+  const nowSeconds = () => Math.floor(now() / 1000);
+
+  return {
+    name: 'fake',
+
+    createCheckoutSession(request) {
+      const id = `fake_cs_${crypto.randomUUID()}`;
+      const url = new URL(request.successUrl);
+      url.searchParams.set('session_id', id);
+      return Promise.resolve({ id, url: url.toString() });
+    },
+
+    async parseWebhook(rawBody, headers) {
+      await verifyWebhookSignature(secret, rawBody, headers.get(FAKE_SIGNATURE_HEADER), nowSeconds());
+      let event: Partial<BillingEvent>;
+      try {
+        event = JSON.parse(rawBody);
+      } catch {
+        throw new BillingSignatureError('Body is not JSON');
+      }
+      if (!event.id || !event.reference || !BILLING_EVENT_TYPES.includes(event.type as BillingEventType)) {
+        throw new BillingSignatureError('Not a billing event');
+      }
+      return {
+        id: event.id,
+        type: event.type as BillingEventType,
+        reference: event.reference,
+        providerSubscriptionId: event.providerSubscriptionId,
+        periodEnd: event.periodEnd,
+        occurredAt: event.occurredAt ?? new Date(now()).toISOString(),
+      };
+    },
+
+    async signWebhook(event) {
+      const body = JSON.stringify(event);
+      const headers = new Headers({ 'Content-Type': 'application/json' });
+      headers.set(FAKE_SIGNATURE_HEADER, await signWebhookPayload(secret, body, nowSeconds()));
+      return { body, headers };
+    },
+  };
+}
+
+/**
+ * The provider named by BILLING_PROVIDER. There is no default: a deployment
+ * without one configured must fail rather than hand out free checkouts, so
+ * the fake provider also needs allowFake (BILLING_ALLOW_FAKE=true, set only
+ * for local development and tests).
+ */
+export function getBillingProvider(name: string | undefined, secret: string, allowFake = false): BillingProvider {
+  switch (name) {
+    case undefined:
+    case '':
+      throw new BillingConfigError('BILLING_PROVIDER is not set');
+    case 'fake':
+      if (!allowFake) throw new BillingConfigError('The fake billing provider needs BILLING_ALLOW_FAKE=true');
+      return createFakeBillingProvider(secret);
+    default:
+      throw new BillingConfigError(`Unknown billing provider: ${name}`);
+  }
+}
+
+// ============================================================================
+// SUBSCRIPTION LIFECYCLE
+// ============================================================================
+
+// Access continues this long after a failed renewal while the provider retries
+export const GRACE_PERIOD_DAYS = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type SubscriptionStatus = 'active' | 'cancelled' | 'expired' | 'pending';
+
+export interface SubscriptionBillingState {
+  status: SubscriptionStatus;
+  start_date: string;
+  end_date: string;
+  grace_until: string | null;
+  cancelled_at: string | null;
+}
+
+/**
+ * What an event changes on a subscription, or null when it changes nothing.
+ *   payment_succeeded / subscription_renewed: active, paid through the
+ *     provider's period end or one more interval from the later of now and
+ *     the current end date
+ *   payment_failed: a renewal failed; access continues until the grace period
+ *     after the end date runs out (a failed first payment leaves it pending)
+ *   subscription_cancelled: no more renewals; the paid period is kept
+ *   refunded: access ends now
+ */
+export function applySubscriptionEvent(
+  state: SubscriptionBillingState,
+  event: Pick<BillingEvent, 'type' | 'periodEnd'>,
+  durationDays: number,
+  now: Date = new Date()
+): Partial<SubscriptionBillingState> | null {
+  switch (event.type) {
+    case 'payment_succeeded':
+    case 'subscription_renewed': {
+      const isFirstPayment = state.status === 'pending';
+      const from = isFirstPayment ? now.getTime() : Math.max(now.getTime(), Date.parse(state.end_date));
+      const endDate = event.periodEnd ? new Date(event.periodEnd) : new Date(from + durationDays * DAY_MS);
+      return {
+        status: 'active',
+        ...(isFirstPayment ? { start_date: now.toISOString() } : {}),
+        end_date: endDate.toISOString(),
+        grace_until: null,
+        cancelled_at: null,
+      };
+    }
+    case 'payment_failed': {
+      if (state.status !== 'active' || state.grace_until) return null;
+      const from = Math.max(now.getTime(), Date.parse(state.end_date));
+      return { grace_until: new Date(from + GRACE_PERIOD_DAYS * DAY_MS).toISOString() };
+    }
+    case 'subscription_cancelled':
+      if (state.status === 'cancelled' || state.status === 'expired') return null;
+      return {
+        status: state.status === 'pending' ? 'expired' : 'cancelled',
+        grace_until: null,
+        cancelled_at: now.toISOString(),
+      };
+    case 'refunded':
+      if (state.status === 'expired') return null;
+      return { status: 'expired', end_date: now.toISOString(), grace_until: null };
+  }
+}
+
+/** When access from a subscription ends, or null if it gives none */
+export function subscriptionAccessUntil(state: SubscriptionBillingState): Date | null {
+  if (state.status === 'active') {
+    const end = Math.max(Date.parse(state.end_date), state.grace_until ? Date.parse(state.grace_until) : 0);
+    return new Date(end);
+  }
+  if (state.status === 'cancelled') return new Date(state.end_date);
+  return null;
+}
@@ -0,0 +1,153 @@
+// Credit reservation for AI operations on the system key pool.
+// Costs, the daily limit, allowed modules and model tiers come from the user's
+// plan tier (plan_tiers); check_and_reserve_credits applies them atomically and
+// records the reservation in credit_ledger.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { ModelTier } from "./llmProvider.ts";
+
+export type CreditOperation =
+  | 'generate_speaking'
+  | 'generate_writing'
+  | 'generate_listening'
+  | 'generate_reading'
+  | 'evaluate_speaking'
+  | 'evaluate_writing'
+  | 'evaluate_reading'
+  | 'evaluate_listening'
+  | 'explain_answer';
+
+export type CreditErrorType = 'CREDIT_LIMIT_EXCEEDED' | 'MODULE_NOT_IN_PLAN';
+
+export interface CreditCheckResult {
+  ok: boolean;
+  error?: string;
+  errorType?: CreditErrorType;
+  creditsUsed?: number;
+  creditsRemaining?: number;
+  dailyLimit?: number;
+  plan?: string;
+  // Model tiers the plan may use; undefined means no restriction
+  modelTiers?: ModelTier[];
+  // Ledger entry of the reservation, so a refund returns exactly what was taken
+  reservationId?: string;
+}
+
+interface ReserveCreditsResponse {
+  ok: boolean;
+  error?: string;
+  error_type?: CreditErrorType;
+  credits_used?: number;
+  credits_remaining?: number;
+  limit?: number;
+  plan?: string;
+  model_tiers?: ModelTier[];
+  ledger_id?: string;
+}
+
+// Check and RESERVE credits atomically BEFORE calling AI
+export async function checkAndReserveCredits(
+  serviceClient: SupabaseClient,
+  userId: string,
+  operationType: CreditOperation,
+  referenceId?: string
+): Promise<CreditCheckResult> {
+  try {
+    const { data, error } = await serviceClient.rpc('check_and_reserve_credits', {
+      p_user_id: userId,
+      p_operation_type: operationType,
+      p_reference_id: referenceId ?? null,
+    });
+
+    if (error) {
+      console.error('check_and_reserve_credits RPC error:', error);
+      // Fail open - allow operation if RPC fails
+      return { ok: true };
+    }
+
+    const result = data as ReserveCreditsResponse;
+    console.log(`Credit check result for ${operationType}:`, result);
+
+    if (!result.ok) {
+      return {
+        ok: false,
+        error: result.error || 'Daily credit limit reached. Add your own Gemini API key in Settings.',
+        errorType: result.error_type ?? 'CREDIT_LIMIT_EXCEEDED',
+        creditsUsed: result.credits_used,
+        creditsRemaining: result.credits_remaining,
+        dailyLimit: result.limit,
+        plan: result.plan,
+      };
+    }
+
+    return {
+      ok: true,
+      creditsUsed: result.credits_used,
+      creditsRemaining: result.credits_remaining,
+      dailyLimit: result.limit,
+      plan: result.plan,
+      modelTiers: result.model_tiers,
+      reservationId: result.ledger_id,
+    };
+  } catch (err) {
+    console.error('Error in atomic credit check:', err);
+    // Fail open - allow operation
+    return { ok: true };
+  }
+}
+
+// Refund credits if the AI operation fails AFTER we reserved them
+export async function refundCredits(
+  serviceClient: SupabaseClient,
+  userId: string,
+  operationType: CreditOperation,
+  reservationId?: string
+): Promise<void> {
+  // Free operations and fail-open checks reserve nothing
+  if (!reservationId) return;
+
+  try {
+    const { error } = await serviceClient.rpc('refund_credits', {
+      p_user_id: userId,
+      p_reservation_id: reservationId,
+    });
+
+    if (error) {
+      console.error('refund_credits RPC error:', error);
+    } else {
+      console.log(`Refunded credits for failed ${operationType}`);
+    }
+  } catch (err) {
+    console.error('Failed to refund credits:', err);
+  }
+}
+
+// Model tiers of the user's plan for operations that reserve no credits
+// (speaking evaluation, explanations). Null means no restriction: admins, or
+// the plan could not be read (fail open, like the credit check).
+export async function getPlanModelTiers(serviceClient: SupabaseClient, userId: string): Promise<ModelTier[] | null> {
+  try {
+    const { data: adminCheck } = await serviceClient
+      .from('admin_users')
+      .select('id')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (adminCheck) return null;
+
+    const { data: tierId, error } = await serviceClient.rpc('user_plan_tier_id', { p_user_id: userId });
+    if (error || !tierId) {
+      if (error) console.error('user_plan_tier_id RPC error:', error);
+      return null;
+    }
+
+    const { data: tier } = await serviceClient
+      .from('plan_tiers')
+      .select('model_tiers')
+      .eq('id', tierId)
+      .maybeSingle();
+    return (tier?.model_tiers as ModelTier[] | undefined) ?? null;
+  } catch (err) {
+    console.error('Failed to read plan model tiers:', err);
+    return null;
+  }
+}
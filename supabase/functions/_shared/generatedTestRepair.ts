@@ -0,0 +1,120 @@
+// Model-assisted repair for question groups that fail the generated test schema.
+// Only the failing groups are sent back, together with the exact validation
+// issues and the passage/transcript they must stay grounded in; the caller
+// supplies the model call so each function keeps its own key handling.
+
+import {
+  formatGeneratedTestIssues,
+  GeneratedTestIssue,
+  validateQuestionGroup,
+} from "./generatedTestSchema.ts";
+
+export const MAX_GROUP_REPAIR_ATTEMPTS = 2;
+
+// Long passages are trimmed; the model only needs enough to re-check answers
+const MAX_SOURCE_CHARS = 12000;
+
+export interface GroupRepairResult {
+  groups: unknown[];
+  repaired: number[];
+  unrepaired: number[];
+}
+
+export function buildGroupRepairPrompt(group: unknown, issues: GeneratedTestIssue[], sourceText: string): string {
+  // Issues are reported relative to the group so the model is not confused by the outer payload
+  const relativeIssues = issues.map((issue) => ({
+    ...issue,
+    path: issue.path.replace(/^questionGroups\[\d+\]\.?/, ''),
+  }));
+  const source = sourceText.length > MAX_SOURCE_CHARS ? `${sourceText.slice(0, MAX_SOURCE_CHARS)}\n[...]` : sourceText;
+
+  return `The following IELTS question group JSON failed validation.
+Fix ONLY the listed problems and return the corrected group as a single JSON object with the same structure.
+Keep the question type, the question numbers and every question that is already valid unchanged.
+Every correct_answer must be supported by the source text.
+
+PROBLEMS:
+${formatGeneratedTestIssues(relativeIssues, 50)}
+
+SOURCE TEXT:
+${source || '(not available)'}
+
+QUESTION GROUP:
+${JSON.stringify(group, null, 2)}
+
+Return ONLY the JSON object, no markdown.`;
+}
+
+function parseGroupJson(text: string): Record<string, unknown> | null {
+  const fenced = text.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  const candidate = (fenced?.[1] ?? text).trim();
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    const parsed = JSON.parse(candidate.slice(start, end + 1));
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// The model is told to keep the structure, but identity fields are restored regardless
+function mergeRepairedGroup(original: unknown, repaired: Record<string, unknown>): Record<string, unknown> {
+  const base = original && typeof original === 'object' ? (original as Record<string, unknown>) : {};
+  const questions = Array.isArray(repaired.questions)
+    ? repaired.questions.map((question) =>
+        question && typeof question === 'object' && !(question as Record<string, unknown>).id
+          ? { ...question, id: crypto.randomUUID() }
+          : question
+      )
+    : repaired.questions;
+
+  return {
+    ...base,
+    ...repaired,
+    id: base.id ?? repaired.id ?? crypto.randomUUID(),
+    question_type: base.question_type ?? repaired.question_type,
+    questions,
+  };
+}
+
+/**
+ * Ask the model to fix each invalid group, re-validating after every attempt.
+ * Returns a new groups array; groups that could not be repaired are left as they were.
+ */
+export async function repairQuestionGroups(
+  groups: unknown[],
+  invalidGroups: number[],
+  callModel: (prompt: string) => Promise<string | null>,
+  sourceText: string
+): Promise<GroupRepairResult> {
+  const result: GroupRepairResult = { groups: [...groups], repaired: [], unrepaired: [] };
+
+  for (const index of invalidGroups) {
+    let issues = validateQuestionGroup(result.groups[index], index);
+    let fixed = issues.length === 0;
+
+    for (let attempt = 1; attempt <= MAX_GROUP_REPAIR_ATTEMPTS && !fixed; attempt++) {
+      console.log(`[schema-repair] Group ${index}, attempt ${attempt}: ${issues.length} issue(s)`);
+      const text = await callModel(buildGroupRepairPrompt(result.groups[index], issues, sourceText));
+      const parsed = text ? parseGroupJson(text) : null;
+      if (!parsed) continue;
+
+      const candidate = mergeRepairedGroup(result.groups[index], parsed);
+      const candidateIssues = validateQuestionGroup(candidate, index);
+      if (candidateIssues.length === 0) {
+        result.groups[index] = candidate;
+        fixed = true;
+      } else if (candidateIssues.length < issues.length) {
+        // Keep partial progress so the next attempt starts from the better version
+        result.groups[index] = candidate;
+        issues = candidateIssues;
+      }
+    }
+
+    (fixed ? result.repaired : result.unrepaired).push(index);
+  }
+
+  return result;
+}
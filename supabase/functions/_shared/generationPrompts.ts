@@ -0,0 +1,67 @@
+// Frames for the reading and listening generation prompts in
+// generate-ai-practice. The question-type sections (formats, JSON examples)
+// stay in code and are passed in as {{question_format}}; the frame around
+// them is templated so admins can roll out new wording through
+// prompt_templates (see promptTemplates.ts).
+
+import { PromptDefinition } from "./promptTemplates.ts";
+
+export const READING_GENERATION_PROMPT: PromptDefinition = {
+  key: 'reading_generation',
+  label: 'Reading test generation',
+  variables: {
+    ielts_variant: 'Academic or General Training',
+    topic: 'Passage topic',
+    difficulty: 'easy, medium, hard or expert',
+    difficulty_description: 'Target band range for the difficulty',
+    text_type_line: 'General Training text type line, or empty',
+    word_count: 'Target passage length in words',
+    word_count_min: 'Lower word count bound',
+    word_count_max: 'Upper word count bound',
+    paragraph_count: 'Number of paragraphs',
+    paragraph_labels: 'Paragraph labels, e.g. [A], [B], [C]',
+    register: 'Tone line for Academic or General Training',
+    question_format: 'Question-type instructions and the JSON format to return',
+  },
+  builtin: `Generate an IELTS {{ielts_variant}} Reading test with the following specifications:
+
+Topic: {{topic}}
+Difficulty: {{difficulty}} ({{difficulty_description}})
+{{text_type_line}}
+Requirements:
+1. Create a reading passage with these specifications:
+   - Total word count: approximately {{word_count}} words (strict: between {{word_count_min}} and {{word_count_max}} words)
+   - Number of paragraphs: {{paragraph_count}} paragraphs, labeled {{paragraph_labels}}
+   - Each paragraph should be 80-150 words (official IELTS standard)
+   - {{register}}
+   - Well-structured with clear paragraph labels [A], [B], etc.
+   - Contains specific information that can be tested
+   - Appropriate for the {{difficulty}} difficulty level
+
+{{question_format}}`,
+};
+
+export const LISTENING_GENERATION_PROMPT: PromptDefinition = {
+  key: 'listening_generation',
+  label: 'Listening test generation',
+  variables: {
+    topic: 'Section topic',
+    scenario: 'Listening scenario description',
+    difficulty: 'easy, medium, hard or expert',
+    difficulty_description: 'Target band range for the difficulty',
+    audio_minutes: 'Audio length in minutes',
+    question_count: 'Number of questions',
+    character_instructions: 'Dialogue or monologue script rules, including voice-matched speaker names',
+    question_format: 'Question-type instructions and the JSON format to return',
+  },
+  builtin: `Generate an IELTS Listening test section with the following specifications:
+
+Topic: {{topic}}
+Scenario: {{scenario}}
+Difficulty: {{difficulty}} ({{difficulty_description}})
+FIXED PARAMETERS: {{audio_minutes}} minutes audio, {{question_count}} questions
+
+Requirements:
+{{character_instructions}}
+{{question_format}}`,
+};
@@ -0,0 +1,104 @@
+// Loads a learner's scored reading/listening attempts for the adaptive
+// difficulty model and resolves ADAPTIVE_DIFFICULTY requests to a concrete
+// level and question type.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  ADAPTIVE_LEVELS,
+  ADAPTIVE_MODULES,
+  AbilityObservation,
+  AdaptiveLevel,
+  AdaptiveModule,
+  AdaptiveRecommendation,
+  bandToAccuracy,
+  estimateAbilities,
+  recommendPractice,
+} from "./adaptiveDifficulty.ts";
+
+// Enough history for a stable estimate without scanning a learner's whole record
+const OBSERVATION_LIMIT = 200;
+
+interface PracticeResultRow {
+  score: number;
+  total_questions: number;
+  completed_at: string;
+  ai_practice_tests: { difficulty: string; question_type: string } | null;
+}
+
+interface OfficialResultRow {
+  test_type: string;
+  band_score: number | null;
+  completed_at: string;
+}
+
+export function isAdaptiveModule(module: string): module is AdaptiveModule {
+  return (ADAPTIVE_MODULES as string[]).includes(module);
+}
+
+function isAdaptiveLevel(value: string): value is AdaptiveLevel {
+  return (ADAPTIVE_LEVELS as string[]).includes(value);
+}
+
+export async function loadAbilityObservations(
+  serviceClient: SupabaseClient,
+  userId: string,
+  module: AdaptiveModule
+): Promise<AbilityObservation[]> {
+  const [practice, official] = await Promise.all([
+    serviceClient
+      .from('ai_practice_results')
+      .select('score, total_questions, completed_at, ai_practice_tests!inner(difficulty, question_type)')
+      .eq('user_id', userId)
+      .eq('module', module)
+      .order('completed_at', { ascending: false })
+      .limit(OBSERVATION_LIMIT),
+    serviceClient
+      .from('test_results')
+      .select('test_type, band_score, completed_at')
+      .eq('user_id', userId)
+      .eq('test_type', module)
+      .not('band_score', 'is', null)
+      .order('completed_at', { ascending: false })
+      .limit(OBSERVATION_LIMIT),
+  ]);
+  if (practice.error) throw practice.error;
+  if (official.error) throw official.error;
+
+  const observations: AbilityObservation[] = [];
+  for (const row of (practice.data ?? []) as unknown as PracticeResultRow[]) {
+    const test = row.ai_practice_tests;
+    if (!test || !isAdaptiveLevel(test.difficulty) || row.total_questions <= 0) continue;
+    observations.push({
+      module,
+      questionType: test.question_type,
+      difficulty: test.difficulty,
+      accuracy: row.score / row.total_questions,
+      completedAt: row.completed_at,
+    });
+  }
+  for (const row of (official.data ?? []) as OfficialResultRow[]) {
+    observations.push({
+      module,
+      questionType: null,
+      difficulty: 'exam',
+      accuracy: bandToAccuracy(Number(row.band_score)),
+      completedAt: row.completed_at,
+    });
+  }
+  return observations;
+}
+
+/**
+ * The level (and question type, when several are allowed) for the learner's
+ * next session. Pass the requested type alone to only adapt the level.
+ */
+export async function resolveAdaptivePractice(
+  serviceClient: SupabaseClient,
+  userId: string,
+  module: AdaptiveModule,
+  questionTypes: string[],
+  levels?: AdaptiveLevel[]
+): Promise<AdaptiveRecommendation | null> {
+  const observations = await loadAbilityObservations(serviceClient, userId, module);
+  return recommendPractice(estimateAbilities(observations), module, questionTypes, levels);
+}
@@ -0,0 +1,204 @@
+// Record/replay layer for AI calls, so edge functions can run in integration tests and
+// local development without reaching Gemini or any other model API.
+//
+//   LLM_FIXTURE_MODE=record  - call the real model and save each response as a JSON fixture
+//   LLM_FIXTURE_MODE=replay  - serve saved fixtures only; a missing fixture is an error
+//   (unset / anything else)  - normal behaviour
+//
+// Callers that need a different mode for one request (the calibration harness
+// replays a whole run from fixtures) pass it explicitly instead.
+//
+// Fixtures are keyed by a SHA-256 hash of the request material (prompt, system prompt,
+// voice, audio segment names, ...), never by model or API key, so a fixture recorded with
+// one model in the chain replays whatever the chain currently is. They are written to
+// LLM_FIXTURE_DIR, or supabase/functions/_fixtures/llm by default, as <scope>/<hash>.json.
+// Recording needs a writable filesystem (supabase functions serve); the hosted runtime
+// cannot persist them, so a failed write only logs a warning.
+
+export type LLMFixtureMode = 'off' | 'record' | 'replay';
+
+// What kind of call a fixture holds; also the fixture sub-directory
+export type LLMFixtureScope = 'text' | 'tts' | 'speaking';
+
+interface LLMFixtureFile<T> {
+  scope: LLMFixtureScope;
+  key: string;
+  recordedAt: string;
+  request: unknown;
+  response: T;
+}
+
+export class LLMFixtureMissingError extends Error {
+  constructor(public scope: LLMFixtureScope, public key: string) {
+    super(`No recorded ${scope} fixture for key ${key}. Run once with LLM_FIXTURE_MODE=record to capture it.`);
+    this.name = 'LLMFixtureMissingError';
+  }
+}
+
+export function getFixtureMode(): LLMFixtureMode {
+  const mode = (Deno.env.get('LLM_FIXTURE_MODE') || '').trim().toLowerCase();
+  return mode === 'record' || mode === 'replay' ? mode : 'off';
+}
+
+export function isFixtureReplay(): boolean {
+  return getFixtureMode() === 'replay';
+}
+
+// ============================================================================
+// KEYS
+// ============================================================================
+
+// JSON with sorted object keys, so the hash does not depend on property order
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => stableStringify(item ?? null)).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export async function sha256Hex(input: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+  return Array.from(new Uint8Array(digest))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+export function fixtureKey(scope: LLMFixtureScope, material: unknown): Promise<string> {
+  return sha256Hex(`${scope}:${stableStringify(material)}`);
+}
+
+// ============================================================================
+// RANDOM PROMPT CHOICES
+// ============================================================================
+
+// Prompts that pick a random topic, scenario or variation, or embed a
+// uniqueness seed, would get a new fixture key on every run. In record and
+// replay mode those choices come from a generator seeded with the request
+// instead, so the same request builds the same prompts.
+export interface PromptRandom {
+  // Stand-in for Math.random()
+  next(): number;
+  // 8 hex characters, like crypto.randomUUID().slice(0, 8)
+  seed(): string;
+}
+
+export const unseededPromptRandom: PromptRandom = {
+  next: () => Math.random(),
+  seed: () => crypto.randomUUID().slice(0, 8),
+};
+
+export async function createPromptRandom(
+  material: unknown,
+  mode: LLMFixtureMode = getFixtureMode()
+): Promise<PromptRandom> {
+  if (mode === 'off') return unseededPromptRandom;
+
+  // mulberry32
+  let state = parseInt((await sha256Hex(stableStringify(material))).slice(0, 8), 16);
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), state | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+  return {
+    next,
+    seed: () => Math.floor(next() * 0x100000000).toString(16).padStart(8, '0'),
+  };
+}
+
+// ============================================================================
+// STORAGE
+// ============================================================================
+
+function fixturePath(scope: LLMFixtureScope, key: string): string | URL {
+  const dir = Deno.env.get('LLM_FIXTURE_DIR');
+  if (dir) return `${dir.replace(/\/$/, '')}/${scope}/${key}.json`;
+  return new URL(`../_fixtures/llm/${scope}/${key}.json`, import.meta.url);
+}
+
+function fixtureDir(scope: LLMFixtureScope): string | URL {
+  const dir = Deno.env.get('LLM_FIXTURE_DIR');
+  if (dir) return `${dir.replace(/\/$/, '')}/${scope}`;
+  return new URL(`../_fixtures/llm/${scope}/`, import.meta.url);
+}
+
+async function readFixture<T>(scope: LLMFixtureScope, key: string): Promise<T | null> {
+  try {
+    const file = JSON.parse(await Deno.readTextFile(fixturePath(scope, key))) as LLMFixtureFile<T>;
+    return file.response;
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return null;
+    throw err;
+  }
+}
+
+async function writeFixture<T>(scope: LLMFixtureScope, key: string, material: unknown, response: T): Promise<void> {
+  const file: LLMFixtureFile<T> = {
+    scope,
+    key,
+    recordedAt: new Date().toISOString(),
+    request: material,
+    response,
+  };
+  try {
+    await Deno.mkdir(fixtureDir(scope), { recursive: true });
+    await Deno.writeTextFile(fixturePath(scope, key), JSON.stringify(file, null, 2) + '\n');
+    console.log(`[llm-fixtures] Recorded ${scope}/${key}`);
+  } catch (err) {
+    console.warn(`[llm-fixtures] Could not write ${scope}/${key}:`, err instanceof Error ? err.message : err);
+  }
+}
+
+// ============================================================================
+// RECORD / REPLAY
+// ============================================================================
+
+/**
+ * In replay mode, return the recorded response for this request or throw
+ * LLMFixtureMissingError. Returns null in every other mode, meaning the
+ * caller should make the real call.
+ */
+export async function replayFixture<T>(
+  scope: LLMFixtureScope,
+  material: unknown,
+  mode: LLMFixtureMode = getFixtureMode()
+): Promise<T | null> {
+  if (mode !== 'replay') return null;
+  const key = await fixtureKey(scope, material);
+  const response = await readFixture<T>(scope, key);
+  if (response === null) throw new LLMFixtureMissingError(scope, key);
+  console.log(`[llm-fixtures] Replaying ${scope}/${key}`);
+  return response;
+}
+
+// Save a successful response when recording; no-op otherwise
+export async function recordFixture<T>(
+  scope: LLMFixtureScope,
+  material: unknown,
+  response: T,
+  mode: LLMFixtureMode = getFixtureMode()
+): Promise<void> {
+  if (mode !== 'record') return;
+  await writeFixture(scope, await fixtureKey(scope, material), material, response);
+}
+
+// replayFixture + recordFixture around a single call
+export async function withFixture<T>(
+  scope: LLMFixtureScope,
+  material: unknown,
+  produce: () => Promise<T>,
+  mode: LLMFixtureMode = getFixtureMode()
+): Promise<T> {
+  const replayed = await replayFixture<T>(scope, material, mode);
+  if (replayed !== null) return replayed;
+  const response = await produce();
+  await recordFixture(scope, material, response, mode);
+  return response;
+}
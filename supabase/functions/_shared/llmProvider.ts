@@ -0,0 +1,490 @@
+// Shared LLM provider abstraction used by every edge function that calls a text model.
+// Gemini is one implementation; an OpenAI-compatible implementation lets a local
+// server (llama.cpp, Ollama, vLLM) stand in for development and testing.
+//
+// Model choice and fallback order come from config rather than per-function constants:
+//   LLM_MODELS_<TASK>  - chain for one task type, e.g. LLM_MODELS_EXPLAIN
+//   LLM_MODELS         - chain for every task without its own entry
+// A chain is a comma-separated list of "provider:model" entries; a bare model name is Gemini.
+//   LLM_MODELS_GENERATE="gemini:gemini-2.5-flash,openai:qwen2.5:14b"
+// The OpenAI-compatible provider reads OPENAI_COMPAT_BASE_URL (e.g. http://localhost:11434/v1)
+// and an optional OPENAI_COMPAT_API_KEY.
+// With LLM_FIXTURE_MODE set, every provider is wrapped in the record/replay layer from
+// llmFixtures.ts.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { isDailyQuotaExhaustedError } from "./apiKeyQuotaUtils.ts";
+import { getFixtureMode, LLMFixtureMissingError, LLMFixtureMode, sha256Hex, withFixture } from "./llmFixtures.ts";
+import { logModelPerformance, TaskType } from "./performanceLogger.ts";
+
+export type LLMProviderName = 'gemini' | 'openai';
+
+export interface LLMModelTarget {
+  provider: LLMProviderName;
+  model: string;
+  // OpenAI-compatible server for this target only; defaults to OPENAI_COMPAT_BASE_URL
+  endpoint?: { baseUrl: string; apiKey?: string };
+}
+
+export interface LLMImage {
+  mimeType: string;
+  data: string; // base64 without the data: prefix
+}
+
+export interface LLMAudio {
+  mimeType: string; // e.g. audio/mpeg, audio/wav
+  data: string; // base64 without the data: prefix
+}
+
+export interface LLMGenerateRequest {
+  prompt: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxOutputTokens?: number;
+  responseFormat?: 'text' | 'json';
+  images?: LLMImage[];
+  audio?: LLMAudio[];
+  timeoutMs?: number;
+}
+
+export interface LLMGenerateResult {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  tokensUsed: number;
+  finishReason?: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  // apiKey is the Gemini key in use; other providers read their own credentials
+  generate(target: LLMModelTarget, request: LLMGenerateRequest, apiKey?: string): Promise<LLMGenerateResult>;
+}
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+export type LLMErrorKind =
+  | 'quota'        // Quota exhausted (daily or per-minute, see dailyQuota)
+  | 'rate_limit'   // Too many requests, recovers after waiting
+  | 'invalid_key'  // Key rejected
+  | 'permission'   // Key valid but not allowed to use this model
+  | 'bad_request'  // Request rejected as malformed
+  | 'server'       // 5xx from the provider
+  | 'safety'       // Response blocked by content filters
+  | 'empty'        // Successful call with no text
+  | 'network'      // Provider unreachable
+  | 'config';      // Provider not configured
+
+export class LLMProviderError extends Error {
+  constructor(
+    message: string,
+    public kind: LLMErrorKind,
+    public provider: LLMProviderName,
+    public model: string,
+    public status = 0,
+    public dailyQuota = false
+  ) {
+    super(message);
+    this.name = 'LLMProviderError';
+  }
+
+  get isQuotaOrRateLimit(): boolean {
+    return this.kind === 'quota' || this.kind === 'rate_limit';
+  }
+
+  // Worth retrying the same model after a backoff
+  get isTransient(): boolean {
+    return this.kind === 'rate_limit' || this.kind === 'server' || this.kind === 'network';
+  }
+}
+
+// Map an HTTP error from any provider onto an error kind
+export function classifyLLMError(status: number, message: string, providerStatus = ''): {
+  kind: LLMErrorKind;
+  dailyQuota: boolean;
+} {
+  const msg = message.toLowerCase();
+
+  if (providerStatus === 'RESOURCE_EXHAUSTED' || msg.includes('quota') || msg.includes('resource_exhausted')) {
+    return { kind: 'quota', dailyQuota: isDailyQuotaExhaustedError(message) };
+  }
+  if (status === 429 || msg.includes('rate limit') || msg.includes('too many requests')) {
+    return { kind: 'rate_limit', dailyQuota: false };
+  }
+  if (status === 401 || (status === 400 && (msg.includes('api_key') || msg.includes('api key')))) {
+    return { kind: 'invalid_key', dailyQuota: false };
+  }
+  if (status === 403 || providerStatus === 'PERMISSION_DENIED') {
+    return { kind: 'permission', dailyQuota: false };
+  }
+  if (status >= 500) {
+    return { kind: 'server', dailyQuota: false };
+  }
+  return { kind: 'bad_request', dailyQuota: false };
+}
+
+async function readErrorBody(response: Response): Promise<{ message: string; providerStatus: string }> {
+  const raw = await response.text();
+  try {
+    const parsed = JSON.parse(raw);
+    const error = Array.isArray(parsed) ? parsed[0]?.error : parsed?.error;
+    return {
+      message: (typeof error === 'string' ? error : error?.message) || raw,
+      providerStatus: error?.status || '',
+    };
+  } catch {
+    return { message: raw, providerStatus: '' };
+  }
+}
+
+interface GeminiResponse {
+  candidates?: { finishReason?: string; content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+interface ChatCompletionResponse {
+  choices?: { finish_reason?: string; message?: { content?: string | null } }[];
+  usage?: { total_tokens?: number };
+}
+
+async function postJson<T>(
+  provider: LLMProviderName,
+  model: string,
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  timeoutMs?: number
+): Promise<T> {
+  const controller = new AbortController();
+  const timeoutId = timeoutMs ? setTimeout(() => controller.abort(), timeoutMs) : undefined;
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+  } catch (err) {
+    const timedOut = err instanceof DOMException && err.name === 'AbortError';
+    throw new LLMProviderError(
+      timedOut ? `Request timed out after ${timeoutMs}ms` : err instanceof Error ? err.message : 'Network error',
+      'network',
+      provider,
+      model
+    );
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (!response.ok) {
+    const { message, providerStatus } = await readErrorBody(response);
+    const { kind, dailyQuota } = classifyLLMError(response.status, message, providerStatus);
+    throw new LLMProviderError(message.slice(0, 500), kind, provider, model, response.status, dailyQuota);
+  }
+
+  return response.json();
+}
+
+// ============================================================================
+// PROVIDERS
+// ============================================================================
+
+export const geminiProvider: LLMProvider = {
+  name: 'gemini',
+
+  async generate(target, request, apiKey) {
+    const model = target.model;
+    if (!apiKey) {
+      throw new LLMProviderError('No Gemini API key available', 'config', 'gemini', model);
+    }
+
+    const parts: Record<string, unknown>[] = [{ text: request.systemPrompt ? `${request.systemPrompt}\n\n${request.prompt}` : request.prompt }];
+    for (const media of [...(request.images || []), ...(request.audio || [])]) {
+      parts.push({ inlineData: { mimeType: media.mimeType, data: media.data } });
+    }
+
+    const data = await postJson<GeminiResponse>(
+      'gemini',
+      model,
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
+      {},
+      {
+        contents: [{ role: 'user', parts }],
+        generationConfig: {
+          temperature: request.temperature ?? 0.7,
+          maxOutputTokens: request.maxOutputTokens ?? 8192,
+          ...(request.responseFormat === 'json' ? { responseMimeType: 'application/json' } : {}),
+        },
+      },
+      request.timeoutMs
+    );
+
+    const candidate = data.candidates?.[0];
+    const finishReason = candidate?.finishReason;
+    const text = (candidate?.content?.parts || [])
+      .map((p) => p.text || '')
+      .join('');
+
+    if (!text) {
+      throw finishReason === 'SAFETY'
+        ? new LLMProviderError('Content was filtered by safety settings', 'safety', 'gemini', model)
+        : new LLMProviderError('Empty response from AI', 'empty', 'gemini', model);
+    }
+
+    const usage = data.usageMetadata;
+    return {
+      text,
+      provider: 'gemini',
+      model,
+      tokensUsed: usage ? (usage.promptTokenCount || 0) + (usage.candidatesTokenCount || 0) : 0,
+      finishReason,
+    };
+  },
+};
+
+// Chat Completions API as served by llama.cpp, Ollama, vLLM, LM Studio and OpenAI itself
+export const openAICompatibleProvider: LLMProvider = {
+  name: 'openai',
+
+  async generate(target, request) {
+    const model = target.model;
+    const baseUrl = (target.endpoint?.baseUrl || Deno.env.get('OPENAI_COMPAT_BASE_URL') || '').replace(/\/$/, '');
+    if (!baseUrl) {
+      throw new LLMProviderError('OPENAI_COMPAT_BASE_URL is not set', 'config', 'openai', model);
+    }
+    const apiKey = target.endpoint ? target.endpoint.apiKey : Deno.env.get('OPENAI_COMPAT_API_KEY');
+
+    const userContent = request.images?.length || request.audio?.length
+      ? [
+          { type: 'text', text: request.prompt },
+          ...(request.images || []).map((image) => ({
+            type: 'image_url',
+            image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+          })),
+          // input_audio only takes a format name: audio/mpeg -> mp3, audio/wav -> wav
+          ...(request.audio || []).map((audio) => ({
+            type: 'input_audio',
+            input_audio: { data: audio.data, format: audio.mimeType.includes('wav') ? 'wav' : 'mp3' },
+          })),
+        ]
+      : request.prompt;
+
+    const data = await postJson<ChatCompletionResponse>(
+      'openai',
+      model,
+      `${baseUrl}/chat/completions`,
+      apiKey ? { Authorization: `Bearer ${apiKey}` } : {},
+      {
+        model,
+        messages: [
+          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+          { role: 'user', content: userContent },
+        ],
+        temperature: request.temperature ?? 0.7,
+        max_tokens: request.maxOutputTokens ?? 8192,
+        ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' } } : {}),
+      },
+      request.timeoutMs
+    );
+
+    const choice = data.choices?.[0];
+    const finishReason = choice?.finish_reason;
+    const text = choice?.message?.content || '';
+
+    if (!text) {
+      throw finishReason === 'content_filter'
+        ? new LLMProviderError('Content was filtered by safety settings', 'safety', 'openai', model)
+        : new LLMProviderError('Empty response from AI', 'empty', 'openai', model);
+    }
+
+    return {
+      text,
+      provider: 'openai',
+      model,
+      tokensUsed: data.usage?.total_tokens || 0,
+      finishReason,
+    };
+  },
+};
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAICompatibleProvider,
+};
+
+// Fixture key covers what the model sees, not which model or key answers
+function withFixtures(provider: LLMProvider, mode: LLMFixtureMode): LLMProvider {
+  return {
+    name: provider.name,
+    async generate(target, request, apiKey) {
+      const material = {
+        prompt: request.prompt,
+        systemPrompt: request.systemPrompt,
+        responseFormat: request.responseFormat,
+        images: request.images
+          ? await Promise.all(request.images.map(async (image) => ({
+              mimeType: image.mimeType,
+              sha256: await sha256Hex(image.data),
+            })))
+          : undefined,
+        audio: request.audio
+          ? await Promise.all(request.audio.map(async (audio) => ({
+              mimeType: audio.mimeType,
+              sha256: await sha256Hex(audio.data),
+            })))
+          : undefined,
+      };
+      return withFixture('text', material, () => provider.generate(target, request, apiKey), mode);
+    },
+  };
+}
+
+export function getLLMProvider(name: LLMProviderName, fixtureMode: LLMFixtureMode = getFixtureMode()): LLMProvider {
+  const provider = PROVIDERS[name];
+  return fixtureMode === 'off' ? provider : withFixtures(provider, fixtureMode);
+}
+
+// ============================================================================
+// CONFIG
+// ============================================================================
+
+export function parseModelChain(value: string): LLMModelTarget[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      // Only the first colon separates the provider; Ollama model names contain colons too
+      const separator = entry.indexOf(':');
+      const prefix = separator > 0 ? entry.slice(0, separator) : '';
+      if (prefix === 'gemini' || prefix === 'openai') {
+        return { provider: prefix as LLMProviderName, model: entry.slice(separator + 1) };
+      }
+      return { provider: 'gemini' as const, model: entry };
+    });
+}
+
+/**
+ * Model fallback chain for a task: LLM_MODELS_<TASK>, then LLM_MODELS, then the
+ * function's built-in defaults (bare strings are Gemini models).
+ */
+export function getModelChain(task: TaskType, defaultModels: (string | LLMModelTarget)[]): LLMModelTarget[] {
+  const configured = Deno.env.get(`LLM_MODELS_${task.toUpperCase()}`) || Deno.env.get('LLM_MODELS');
+  if (configured) {
+    const chain = parseModelChain(configured);
+    if (chain.length > 0) return chain;
+  }
+  return defaultModels.map((entry) => (typeof entry === 'string' ? { provider: 'gemini', model: entry } : entry));
+}
+
+// Replayed fixtures never reach the provider, so no key is needed
+export function requiresGeminiKey(chain: LLMModelTarget[], fixtureMode: LLMFixtureMode = getFixtureMode()): boolean {
+  return fixtureMode !== 'replay' && chain.some((target) => target.provider === 'gemini');
+}
+
+// Plan tiers allow 'flash' and/or 'pro' models (plan_tiers.model_tiers)
+export type ModelTier = 'flash' | 'pro';
+
+export function modelTier(model: string): ModelTier {
+  return /pro|exp-1206/.test(model) ? 'pro' : 'flash';
+}
+
+/**
+ * Drops models outside the plan's tiers. Returns an empty list when none of the
+ * chain is allowed; the caller decides what to fall back to.
+ */
+export function restrictToModelTiers<T extends string | Pick<LLMModelTarget, 'model'>>(
+  models: T[],
+  tiers: ModelTier[] | null | undefined
+): T[] {
+  if (!tiers) return models;
+  return models.filter((entry) => tiers.includes(modelTier(typeof entry === 'string' ? entry : entry.model)));
+}
+
+// A chain limited to the plan's tiers, or plain Flash when none of it is allowed
+export function restrictToPlan(chain: LLMModelTarget[], tiers: ModelTier[] | null | undefined): LLMModelTarget[] {
+  const allowed = restrictToModelTiers(chain, tiers);
+  return allowed.length > 0 ? allowed : [{ provider: 'gemini', model: 'gemini-2.5-flash' }];
+}
+
+// Name recorded in model_performance_logs; Gemini keeps its bare model names
+export function describeTarget(target: Pick<LLMModelTarget, 'provider' | 'model'>): string {
+  return target.provider === 'gemini' ? target.model : `${target.provider}:${target.model}`;
+}
+
+// ============================================================================
+// FALLBACK
+// ============================================================================
+
+export interface GenerateWithFallbackOptions {
+  task: TaskType;
+  defaultModels: (string | LLMModelTarget)[];
+  // Explicit chain that bypasses LLM_MODELS_* config, e.g. the model under calibration
+  models?: LLMModelTarget[];
+  // Overrides LLM_FIXTURE_MODE for this call
+  fixtureMode?: LLMFixtureMode;
+  apiKey?: string;        // Gemini key
+  apiKeyId?: string;      // api_keys row, for performance logs
+  serviceClient?: SupabaseClient;
+  // Prompt template version, recorded on each performance log row
+  promptVersion?: string;
+  // Stop walking the chain and rethrow, e.g. so the caller can rotate to another key
+  shouldAbort?: (error: LLMProviderError) => boolean;
+}
+
+/**
+ * Try each model in the task's chain in order and return the first response.
+ * Every attempt is logged to model_performance_logs. Throws the last error
+ * when the whole chain fails.
+ */
+export async function generateWithFallback(
+  request: LLMGenerateRequest,
+  options: GenerateWithFallbackOptions
+): Promise<LLMGenerateResult> {
+  const chain = options.models?.length ? options.models : getModelChain(options.task, options.defaultModels);
+  let lastError: LLMProviderError | null = null;
+
+  for (const target of chain) {
+    const modelName = describeTarget(target);
+    const startTime = Date.now();
+    try {
+      console.log(`[llm] Trying ${modelName}`);
+      const result = await getLLMProvider(target.provider, options.fixtureMode).generate(target, request, options.apiKey);
+      await logModelPerformance({
+        modelName,
+        taskType: options.task,
+        status: 'success',
+        responseTimeMs: Date.now() - startTime,
+        apiKeyId: options.apiKeyId,
+        promptVersion: options.promptVersion,
+      }, options.serviceClient);
+      return result;
+    } catch (err) {
+      // The fixture key does not depend on the model, so the rest of the chain would miss too
+      if (err instanceof LLMFixtureMissingError) throw err;
+      const error = err instanceof LLMProviderError
+        ? err
+        : new LLMProviderError(err instanceof Error ? err.message : String(err), 'network', target.provider, target.model);
+      console.error(`[llm] ${modelName} failed (${error.kind}):`, error.message.slice(0, 300));
+
+      await logModelPerformance({
+        modelName,
+        taskType: options.task,
+        status: error.kind === 'quota' ? 'quota_exceeded' : 'error',
+        responseTimeMs: Date.now() - startTime,
+        errorMessage: error.message.slice(0, 500),
+        apiKeyId: options.apiKeyId,
+        promptVersion: options.promptVersion,
+      }, options.serviceClient);
+
+      lastError = error;
+      if (options.shouldAbort?.(error)) throw error;
+    }
+  }
+
+  throw lastError ?? new LLMProviderError('No models configured', 'config', 'gemini', '');
+}
@@ -11,7 +11,8 @@ export type TaskType =
   | 'tts'                // Text-to-speech generation
   | 'transcribe'         // Audio transcription
   | 'analyze'            // Performance analysis
-  | 'translate';         // Word translation
+  | 'translate'          // Word translation
+  | 'calibrate';         // Calibration harness scoring against examiner bands
 
 export type LogStatus = 'success' | 'error' | 'quota_exceeded';
 
@@ -22,6 +23,8 @@ export interface PerformanceLogEntry {
   responseTimeMs?: number;
   errorMessage?: string;
   apiKeyId?: string;
+  // Prompt template version used for the call (promptTemplates.ts), e.g. "reading_generation@v3"
+  promptVersion?: string;
 }
 
 // Create a service client for logging (uses service role to bypass RLS)
@@ -54,6 +57,7 @@ export async function logModelPerformance(
       p_status: entry.status,
       p_response_time_ms: entry.responseTimeMs || null,
       p_error_message: entry.errorMessage || null,
+      p_prompt_version: entry.promptVersion || null,
     });
     
     if (error) {
@@ -125,7 +129,8 @@ export async function withPerformanceLogging<T>(
  */
 export function createPerformanceLogger(
   taskType: TaskType,
-  serviceClient?: SupabaseClient
+  serviceClient?: SupabaseClient,
+  promptVersion?: string
 ) {
   return {
     logSuccess: (modelName: string, responseTimeMs: number, apiKeyId?: string) => 
@@ -135,6 +140,7 @@ export function createPerformanceLogger(
         status: 'success',
         responseTimeMs,
         apiKeyId,
+        promptVersion,
       }, serviceClient),
     
     logError: (modelName: string, errorMessage: string, responseTimeMs?: number, apiKeyId?: string) =>
@@ -145,6 +151,7 @@ export function createPerformanceLogger(
         responseTimeMs,
         errorMessage: errorMessage.slice(0, 500),
         apiKeyId,
+        promptVersion,
       }, serviceClient),
     
     logQuotaExceeded: (modelName: string, errorMessage: string, apiKeyId?: string) =>
@@ -154,6 +161,7 @@ export function createPerformanceLogger(
         status: 'quota_exceeded',
         errorMessage: errorMessage.slice(0, 500),
         apiKeyId,
+        promptVersion,
       }, serviceClient),
   };
 }
@@ -0,0 +1,191 @@
+// Versioned prompt templates with a weighted rollout.
+//
+// Every templated prompt has a built-in template in code. Admins add numbered
+// versions to prompt_templates; each request picks one active version at
+// random in proportion to its weight. With no active version the built-in
+// template is used, so rolling a bad version back is just deactivating it -
+// no redeploy needed.
+//
+// Templates use {{variable}} placeholders. Code computes the data-dependent
+// sections (segment lists, question formats, band descriptors) and passes
+// them in as variables; each prompt definition lists the variables it offers.
+//
+// The chosen version is recorded as "<key>@v<n>" or "<key>@builtin" on
+// model_performance_logs and on the evaluation result.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+export type PromptKey =
+  | 'reading_generation'
+  | 'listening_generation'
+  | 'speaking_text_evaluation'
+  | 'speaking_audio_evaluation'
+  | 'writing_submission_evaluation'
+  | 'practice_writing_evaluation'
+  | 'full_writing_test_evaluation';
+
+export interface PromptDefinition {
+  key: PromptKey;
+  label: string;
+  // Variables the calling code supplies, with a short description for the admin editor
+  variables: Record<string, string>;
+  builtin: string;
+}
+
+export type PromptVariables = Record<string, string | number>;
+
+export interface ResolvedPrompt {
+  prompt: string;
+  version: string;
+}
+
+// A specific version to use instead of the rollout (calibration runs)
+export type PromptVersionPin = number | 'builtin';
+
+export class PromptTemplateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PromptTemplateError';
+  }
+}
+
+// Names start with a letter so numbered gap markers such as {{1}} in the
+// summary-completion examples pass through untouched
+const PLACEHOLDER = /\{\{\s*([a-z][a-z0-9_]*)\s*\}\}/g;
+
+export function templateVariables(template: string): string[] {
+  return [...new Set(Array.from(template.matchAll(PLACEHOLDER), (match) => match[1]))];
+}
+
+export function renderTemplate(template: string, variables: PromptVariables): string {
+  return template.replace(PLACEHOLDER, (_, name: string) => {
+    if (!(name in variables)) throw new PromptTemplateError(`Unknown prompt variable {{${name}}}`);
+    return String(variables[name]);
+  });
+}
+
+export function formatPromptVersion(key: PromptKey, version: number | null): string {
+  return `${key}@${version === null ? 'builtin' : `v${version}`}`;
+}
+
+// Inverse of formatPromptVersion; null for strings that are not template versions
+export function parsePromptVersion(version: string): { key: string; pin: PromptVersionPin } | null {
+  const match = version.match(/^([a-z_]+)@(?:v(\d+)|(builtin))$/);
+  if (!match) return null;
+  return { key: match[1], pin: match[3] ? 'builtin' : Number(match[2]) };
+}
+
+// ============================================================================
+// ROLLOUT
+// ============================================================================
+
+interface PromptTemplateRow {
+  version: number;
+  template: string;
+  weight: number;
+}
+
+// Active versions are cached per isolate so a rollout change applies within a minute
+const CACHE_TTL_MS = 60_000;
+const activeVersionCache = new Map<PromptKey, { loadedAt: number; rows: PromptTemplateRow[] }>();
+
+async function loadActiveVersions(serviceClient: SupabaseClient, key: PromptKey): Promise<PromptTemplateRow[]> {
+  const cached = activeVersionCache.get(key);
+  if (cached && Date.now() - cached.loadedAt < CACHE_TTL_MS) return cached.rows;
+
+  const { data, error } = await serviceClient
+    .from('prompt_templates')
+    .select('version, template, weight')
+    .eq('prompt_key', key)
+    .eq('is_active', true)
+    .gt('weight', 0);
+  if (error) {
+    console.warn(`[prompt-templates] Could not load ${key} versions, using built-in:`, error.message);
+    return [];
+  }
+
+  const rows = (data ?? []) as PromptTemplateRow[];
+  activeVersionCache.set(key, { loadedAt: Date.now(), rows });
+  return rows;
+}
+
+async function loadVersion(serviceClient: SupabaseClient, key: PromptKey, version: number): Promise<PromptTemplateRow | null> {
+  const { data, error } = await serviceClient
+    .from('prompt_templates')
+    .select('version, template, weight')
+    .eq('prompt_key', key)
+    .eq('version', version)
+    .maybeSingle();
+  if (error) throw error;
+  return data as PromptTemplateRow | null;
+}
+
+export function pickWeighted<T extends { weight: number }>(rows: T[], random: () => number = Math.random): T | null {
+  const total = rows.reduce((sum, row) => sum + Math.max(0, row.weight), 0);
+  if (total <= 0) return null;
+  let target = random() * total;
+  for (const row of rows) {
+    target -= Math.max(0, row.weight);
+    if (target < 0) return row;
+  }
+  return rows[rows.length - 1];
+}
+
+export interface PromptTemplateChoice {
+  definition: PromptDefinition;
+  template: string;
+  version: string;
+  pinned: boolean;
+}
+
+/**
+ * Pick the template for one request: the pinned version if given, otherwise
+ * a weighted draw over the active versions, otherwise the built-in template.
+ * Callers that render more than one prompt for a request choose once so
+ * every prompt uses the same version.
+ */
+export async function choosePromptTemplate(
+  serviceClient: SupabaseClient | null,
+  definition: PromptDefinition,
+  pin?: PromptVersionPin
+): Promise<PromptTemplateChoice> {
+  const builtin = { definition, template: definition.builtin, version: formatPromptVersion(definition.key, null), pinned: pin !== undefined };
+  if (!serviceClient || pin === 'builtin') return builtin;
+
+  if (pin !== undefined) {
+    const row = await loadVersion(serviceClient, definition.key, pin);
+    if (!row) throw new PromptTemplateError(`${definition.key} has no version ${pin}`);
+    return { definition, template: row.template, version: formatPromptVersion(definition.key, row.version), pinned: true };
+  }
+
+  const chosen = pickWeighted(await loadActiveVersions(serviceClient, definition.key));
+  if (!chosen) return builtin;
+  return { definition, template: chosen.template, version: formatPromptVersion(definition.key, chosen.version), pinned: false };
+}
+
+/**
+ * Render a chosen template. A rolled-out version that uses a variable the
+ * code does not supply falls back to the built-in template rather than
+ * failing the request; a pinned version throws instead.
+ */
+export function renderChosenPrompt(choice: PromptTemplateChoice, variables: PromptVariables): ResolvedPrompt {
+  try {
+    return { prompt: renderTemplate(choice.template, variables), version: choice.version };
+  } catch (err) {
+    if (choice.pinned) throw err;
+    console.error(`[prompt-templates] ${choice.version} failed to render, using built-in:`, err instanceof Error ? err.message : err);
+    return {
+      prompt: renderTemplate(choice.definition.builtin, variables),
+      version: formatPromptVersion(choice.definition.key, null),
+    };
+  }
+}
+
+export async function renderPrompt(
+  serviceClient: SupabaseClient | null,
+  definition: PromptDefinition,
+  variables: PromptVariables,
+  pin?: PromptVersionPin
+): Promise<ResolvedPrompt> {
+  return renderChosenPrompt(await choosePromptTemplate(serviceClient, definition, pin), variables);
+}
@@ -0,0 +1,162 @@
+// Audio-based speaking evaluation prompt for process-speaking-job: the
+// recorded answers are uploaded as audio files in segment order and the
+// prompt maps each file to its question.
+//
+// The wording lives in SPEAKING_AUDIO_PROMPT.builtin; admins roll out new
+// versions through prompt_templates (see promptTemplates.ts).
+
+import { PromptDefinition, PromptVariables } from "./promptTemplates.ts";
+import { SpeakingTestPayload } from "./speakingTextPrompt.ts";
+
+export interface SpeakingAudioSegment {
+  segmentKey: string;
+  partNumber: 1 | 2 | 3;
+  questionNumber: number;
+  questionText: string;
+}
+
+export function buildAudioPromptVariables(
+  payload: SpeakingTestPayload | null | undefined,
+  topic: string | undefined,
+  difficulty: string | undefined,
+  fluencyFlag: boolean | undefined,
+  orderedSegments: SpeakingAudioSegment[],
+): PromptVariables {
+  const parts = Array.isArray(payload?.speakingParts) ? payload.speakingParts : [];
+  const questions = parts
+    .flatMap((p) =>
+      (Array.isArray(p?.questions)
+        ? p.questions.map((q) => ({
+            id: String(q?.id || ''),
+            part_number: Number(p?.part_number),
+            question_number: Number(q?.question_number),
+            question_text: String(q?.question_text || ''),
+          }))
+        : []),
+    )
+    .filter((q) => q.part_number === 1 || q.part_number === 2 || q.part_number === 3);
+
+  const numQ = orderedSegments.length;
+  
+  // Build explicit audio mapping section
+  const audioMappingLines = orderedSegments.map((seg, idx) => 
+    `AUDIO_${idx}: "${seg.segmentKey}" → Part ${seg.partNumber}, Question ${seg.questionNumber}: "${seg.questionText}"`
+  ).join('\n');
+
+  return {
+    topic: topic || 'General',
+    difficulty: difficulty || 'Medium',
+    question_count: numQ,
+    last_audio_index: numQ - 1,
+    fluency_note: fluencyFlag ? '⚠️ Part 2 speaking time under 80 seconds - apply fluency penalty.' : '',
+    audio_mapping: audioMappingLines,
+    questions_json: JSON.stringify(questions),
+  };
+}
+
+export const SPEAKING_AUDIO_PROMPT: PromptDefinition = {
+  key: 'speaking_audio_evaluation',
+  label: 'Speaking evaluation (audio)',
+  variables: {
+    topic: 'Test topic',
+    difficulty: 'Test difficulty',
+    question_count: 'Number of audio files',
+    last_audio_index: 'Index of the last audio file',
+    fluency_note: 'Part 2 short-response penalty line, or empty',
+    audio_mapping: 'One AUDIO_n line per file with its segment key and question',
+    questions_json: 'The test questions as JSON',
+  },
+  builtin: `You are a CERTIFIED SENIOR IELTS Speaking Examiner with 20+ years of experience.
+Evaluate exactly as an official IELTS examiner. Return ONLY valid JSON.
+
+CONTEXT: Topic: {{topic}}, Difficulty: {{difficulty}}, Questions: {{question_count}}
+{{fluency_note}}
+
+══════════════════════════════════════════════════════════════
+CRITICAL: AUDIO-TO-QUESTION MAPPING (FIXED - DO NOT CHANGE!)
+══════════════════════════════════════════════════════════════
+The {{question_count}} audio files are provided in this EXACT fixed order:
+
+{{audio_mapping}}
+
+RULES:
+1. Audio file at position 0 = AUDIO_0 = first segment in the list above
+2. Audio file at position 1 = AUDIO_1 = second segment in the list above
+3. Continue this pattern for ALL files
+4. The file names contain "AUDIO_INDEX_N" where N is the position
+5. DO NOT reorder, swap, or guess. The mapping is FIXED.
+6. Transcribe each audio to its corresponding question EXACTLY as mapped above
+
+══════════════════════════════════════════════════════════════
+OFFICIAL IELTS BAND DESCRIPTORS (MANDATORY)
+══════════════════════════════════════════════════════════════
+
+FLUENCY AND COHERENCE (FC):
+- Band 9: Speaks fluently with rare hesitation; hesitation is content-related
+- Band 7: Speaks at length without noticeable effort; some language-related hesitation
+- Band 5: Maintains flow with repetition/self-correction/slow speech
+- Band 4: Cannot respond without noticeable pauses; frequent repetition
+
+LEXICAL RESOURCE (LR):
+- Band 9: Full flexibility; idiomatic language naturally
+- Band 7: Flexible vocabulary; some less common/idiomatic vocabulary
+- Band 5: Limited vocabulary; pauses to search for words
+- Band 4: Basic vocabulary, repetitive or inappropriate
+
+GRAMMATICAL RANGE AND ACCURACY (GRA):
+- Band 9: Full range of structures; consistently accurate
+- Band 7: Range of complex structures; frequently error-free
+- Band 5: Basic sentence forms; limited complex structures
+- Band 4: Basic sentences; subordinate structures rare
+
+PRONUNCIATION (P):
+- Band 9: Full range of features with precision
+- Band 7: Most features of Band 8; some L1 influence
+- Band 5: Some Band 6 features; mispronounces individual words
+- Band 4: Limited features; frequent mispronunciations
+
+SCORING GUIDELINES:
+- Short responses (<15 words): Max Band 4.0-4.5
+- Off-topic: Severe FC penalty (1-2 bands)
+- No response: Band 1.0-2.0
+- Part 2: Holistic evaluation - quality > quantity
+- Excellent concise Part 2 that fully addresses cue card can score Band 8+
+
+EXACT JSON OUTPUT SCHEMA:
+{
+  "overall_band": 6.0,
+  "criteria": {
+    "fluency_coherence": {"band": 6.0, "feedback": "...", "strengths": [...], "weaknesses": [...], "suggestions": [...]},
+    "lexical_resource": {"band": 6.0, "feedback": "...", "strengths": [...], "weaknesses": [...], "suggestions": [...]},
+    "grammatical_range": {"band": 5.5, "feedback": "...", "strengths": [...], "weaknesses": [...], "suggestions": [...]},
+    "pronunciation": {"band": 6.0, "feedback": "...", "strengths": [...], "weaknesses": [...], "suggestions": [...]}
+  },
+  "summary": "Overall performance summary",
+  "lexical_upgrades": [{"original": "...", "upgraded": "...", "context": "..."}],
+  "part_analysis": [{"part_number": 1, "performance_notes": "...", "key_moments": [...]}],
+  "improvement_priorities": ["Priority 1...", "Priority 2..."],
+  "transcripts_by_part": {"1": "...", "2": "...", "3": "..."},
+  "transcripts_by_question": {
+    "1": [{"segment_key": "part1-q...", "question_number": 1, "question_text": "...", "transcript": "..."}],
+    "2": [...],
+    "3": [...]
+  },
+  "modelAnswers": [
+    {
+      "segment_key": "MUST match segment_key from audio mapping",
+      "partNumber": 1,
+      "questionNumber": 1,
+      "question": "Question text",
+      "candidateResponse": "EXACT transcript",
+      "estimatedBand": 5.5,
+      "modelAnswer": "Model answer",
+      "whyItWorks": [...],
+      "keyImprovements": [...]
+    }
+  ]
+}
+
+QUESTIONS JSON: {{questions_json}}
+
+REMINDER: There are exactly {{question_count}} audio files. Return exactly {{question_count}} modelAnswers with correct segment_keys matching the AUDIO_0 to AUDIO_{{last_audio_index}} mapping above.`,
+};
@@ -0,0 +1,193 @@
+// The model call behind the speaking evaluators (evaluate-speaking-submission,
+// speaking-evaluate-job, process-speaking-job). Recordings go inline to the
+// evaluate_speaking chain (LLM_MODELS_EVALUATE_SPEAKING, see llmProvider.ts), so
+// any provider that accepts audio can grade them. Each Gemini key in the queue is
+// tried in turn, the user's own key first.
+
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getActiveGeminiKeysForModels, markModelQuotaExhausted } from "./apiKeyQuotaUtils.ts";
+import { LLMFixtureMode } from "./llmFixtures.ts";
+import {
+  generateWithFallback,
+  LLMAudio,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMModelTarget,
+  LLMProviderError,
+  requiresGeminiKey,
+} from "./llmProvider.ts";
+import { decryptKey, exponentialBackoffWithJitter, extractRetryAfterSeconds, parseJson, sleep } from "./speakingUtils.ts";
+
+export interface SpeakingKeyCandidate {
+  key: string;
+  keyId: string | null; // api_keys row; null for the user's own key
+  isUserProvided: boolean;
+}
+
+export interface SpeakingEvaluationOptions<T> {
+  // Chain from getModelChain('evaluate_speaking', ...), used on the user's own key
+  models: LLMModelTarget[];
+  // Chain for pool keys and keyless providers, narrowed to the plan's tiers; defaults to models
+  poolModels?: LLMModelTarget[];
+  keys: SpeakingKeyCandidate[];
+  serviceClient: SupabaseClient;
+  promptVersion?: string;
+  // 'off' for evaluators that record their own fixtures, keyed without the audio bytes
+  fixtureMode?: LLMFixtureMode;
+  // Turns the parsed JSON into the evaluation, or null when it is unusable
+  accept: (parsed: unknown) => T | null;
+  // Log prefix, e.g. the function name
+  label: string;
+}
+
+export interface SpeakingEvaluation<T> {
+  evaluation: T;
+  result: LLMGenerateResult;
+  key: SpeakingKeyCandidate | null;
+}
+
+// Thrown when every key failed; retryAfterSeconds is set when a rate limit was hit, so waiting may help
+export class SpeakingEvaluationError extends Error {
+  constructor(message: string, public retryAfterSeconds: number | null, public lastError: unknown) {
+    super(message);
+    this.name = 'SpeakingEvaluationError';
+  }
+}
+
+// Request settings shared by the audio and transcript evaluators
+export type SpeakingEvaluationRequest = Pick<LLMGenerateRequest, 'prompt' | 'maxOutputTokens' | 'timeoutMs'> & {
+  audio?: LLMAudio[];
+};
+
+const MAX_RETRIES_PER_KEY = 1;
+
+// A quota or key error moves on to the next key instead of the next model
+const isKeyError = (error: LLMProviderError) =>
+  error.kind === 'quota' || error.kind === 'rate_limit' || error.kind === 'invalid_key' || error.kind === 'permission';
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  const chunkSize = 0x8000;
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Key queue for a background evaluation: the user's saved Gemini key, then the
+ * pool keys with a model of the chain still available today.
+ */
+export async function loadSpeakingKeys(
+  serviceClient: SupabaseClient,
+  userId: string,
+  appEncryptionKey: string | undefined,
+  models: LLMModelTarget[],
+  label: string
+): Promise<SpeakingKeyCandidate[]> {
+  const keys: SpeakingKeyCandidate[] = [];
+
+  const { data: userSecret } = await serviceClient
+    .from('user_secrets')
+    .select('encrypted_value')
+    .eq('user_id', userId)
+    .eq('secret_name', 'GEMINI_API_KEY')
+    .maybeSingle();
+
+  if (userSecret?.encrypted_value && appEncryptionKey) {
+    try {
+      keys.push({ key: await decryptKey(userSecret.encrypted_value, appEncryptionKey), keyId: null, isUserProvided: true });
+    } catch (e) {
+      console.warn(`[${label}] Failed to decrypt user key:`, e);
+    }
+  }
+
+  const geminiModels = models.filter((target) => target.provider === 'gemini').map((target) => target.model);
+  if (geminiModels.length > 0) {
+    for (const dbKey of await getActiveGeminiKeysForModels(serviceClient, geminiModels)) {
+      keys.push({ key: dbKey.key_value, keyId: dbKey.id, isUserProvided: false });
+    }
+  }
+
+  return keys;
+}
+
+/**
+ * Evaluate a speaking prompt (with its recordings, when the evaluator grades
+ * audio) on the model chain, rotating through the key queue. A model out of
+ * daily quota is marked exhausted on the pool key and the rest of the chain is
+ * tried on the same key; a per-minute limit or a transient failure is retried
+ * once after a backoff.
+ */
+export async function evaluateSpeaking<T>(
+  request: SpeakingEvaluationRequest,
+  options: SpeakingEvaluationOptions<T>
+): Promise<SpeakingEvaluation<T>> {
+  const candidates = requiresGeminiKey(options.models, options.fixtureMode) ? options.keys : [null];
+  let lastError: unknown = null;
+  let retryAfterSeconds: number | null = null;
+
+  for (const key of candidates) {
+    if (key) console.log(`[${options.label}] Trying ${key.keyId ? `pool key ${key.keyId.slice(0, 8)}...` : 'user API key'}`);
+    let models = key?.isUserProvided ? options.models : options.poolModels ?? options.models;
+    let retries = 0;
+
+    while (models.length > 0) {
+      try {
+        const result = await generateWithFallback(
+          { ...request, temperature: 0.3, responseFormat: 'json' },
+          {
+            task: 'evaluate_speaking',
+            defaultModels: models,
+            models,
+            fixtureMode: options.fixtureMode,
+            apiKey: key?.key,
+            apiKeyId: key?.keyId ?? undefined,
+            serviceClient: options.serviceClient,
+            promptVersion: options.promptVersion,
+            shouldAbort: isKeyError,
+          }
+        );
+        const evaluation = options.accept(parseJson(result.text));
+        if (evaluation) return { evaluation, result, key };
+        console.warn(`[${options.label}] Unusable evaluation from ${result.provider}:${result.model}. First 400 chars: ${result.text.slice(0, 400)}`);
+        lastError = new Error('The model did not return a usable evaluation');
+        break;
+      } catch (err) {
+        lastError = err;
+        if (!(err instanceof LLMProviderError)) break;
+
+        if (err.dailyQuota) {
+          if (err.provider === 'gemini' && key?.keyId) {
+            await markModelQuotaExhausted(options.serviceClient, key.keyId, err.model);
+          }
+          // The rest of the chain may still have quota on this key
+          models = models.filter((target) => target.provider !== err.provider || target.model !== err.model);
+          continue;
+        }
+        if (err.kind === 'invalid_key' || err.kind === 'permission') break;
+
+        const retryAfter = err.isQuotaOrRateLimit ? extractRetryAfterSeconds(err) ?? 60 : null;
+        if (retryAfter !== null) {
+          retryAfterSeconds = retryAfterSeconds === null ? retryAfter : Math.min(retryAfterSeconds, retryAfter);
+        }
+        if (retries < MAX_RETRIES_PER_KEY && (err.isQuotaOrRateLimit || err.isTransient)) {
+          retries++;
+          const delay = retryAfter !== null
+            ? Math.min((retryAfter + 1) * 1000, 60000)
+            : exponentialBackoffWithJitter(retries, 2000, 30000);
+          console.log(`[${options.label}] ${err.kind}, retrying in ${Math.round(delay / 1000)}s...`);
+          await sleep(delay);
+          continue;
+        }
+        break;
+      }
+    }
+  }
+
+  throw new SpeakingEvaluationError(
+    lastError instanceof Error ? lastError.message : 'All API keys failed',
+    retryAfterSeconds,
+    lastError
+  );
+}
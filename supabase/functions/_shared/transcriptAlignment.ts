@@ -0,0 +1,245 @@
+// Word and sentence timings for listening transcripts, shared by align-transcript
+// and the client copy in src/lib/transcriptAlignment.ts - keep the two identical
+// below the imports. The model hears the audio and returns when each numbered
+// sentence starts; word timings are spread within each sentence by word length.
+
+import { splitSentences, splitTranscriptLines } from "./answerEvidence.ts";
+
+export interface AlignedWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface AlignedSentence {
+  text: string;
+  speaker?: string;
+  start: number;
+  end: number;
+  words: AlignedWord[];
+}
+
+/**
+ * model: sentence starts heard in the audio by the model
+ * transcript: "[mm:ss]" line timestamps written in the transcript
+ * proportional: spread over the audio by text length (an estimate)
+ */
+export type AlignmentMethod = 'model' | 'transcript' | 'proportional';
+
+export interface TranscriptAlignment {
+  sentences: AlignedSentence[];
+  duration: number;
+  method: AlignmentMethod;
+}
+
+export interface AlignmentSentenceText {
+  text: string;
+  speaker?: string;
+  /** Seconds from a "[mm:ss]" prefix on the sentence's line */
+  start?: number;
+}
+
+/** A timing for sentence `index` (0-based) */
+export interface SentenceTiming {
+  index: number;
+  start: number;
+  end?: number;
+}
+
+export const MAX_ALIGNMENT_SENTENCES = 400;
+
+// ============================================================================
+// SENTENCES
+// ============================================================================
+
+/** The transcript as the sentences that get timings, in order */
+export function alignmentSentences(transcript: string): AlignmentSentenceText[] {
+  return splitTranscriptLines(transcript)
+    .flatMap(line =>
+      splitSentences(line.text).map((text, i) => ({
+        text,
+        ...(line.speaker ? { speaker: line.speaker } : {}),
+        ...(i === 0 && line.start !== undefined ? { start: line.start } : {}),
+      }))
+    )
+    .slice(0, MAX_ALIGNMENT_SENTENCES);
+}
+
+/** Timings already written in the transcript as "[mm:ss]" line prefixes */
+export function transcriptTimings(sentences: AlignmentSentenceText[]): SentenceTiming[] {
+  return sentences.flatMap((sentence, index) => (sentence.start !== undefined ? [{ index, start: sentence.start }] : []));
+}
+
+/**
+ * Short fingerprint of a transcript (FNV-1a of the whitespace-normalised text
+ * plus its length), stored with an alignment so edits to the transcript make
+ * it stale.
+ */
+export function transcriptHash(transcript: string): string {
+  const text = transcript.replace(/\s+/g, ' ').trim();
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return `${hash.toString(16).padStart(8, '0')}-${text.length.toString(16)}`;
+}
+
+// Speaking time grows with letters; punctuation adds a short pause
+function textWeight(text: string): number {
+  const letters = text.replace(/[^\p{L}\p{N}]/gu, '').length;
+  const pauses = (text.match(/[,;:]/g) || []).length * 2 + (text.match(/[.!?]/g) || []).length * 3;
+  return letters + pauses + 1;
+}
+
+/** Word timings within a sentence, spread by word length */
+export function distributeWords(text: string, start: number, end: number): AlignedWord[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const weights = words.map(textWeight);
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const span = Math.max(0, end - start);
+  let offset = 0;
+  return words.map((word, i) => {
+    const wordStart = start + (offset / total) * span;
+    offset += weights[i];
+    return { text: word, start: round(wordStart), end: round(start + (offset / total) * span) };
+  });
+}
+
+function round(seconds: number): number {
+  return Math.round(seconds * 100) / 100;
+}
+
+// ============================================================================
+// ALIGNMENT
+// ============================================================================
+
+/** Spread the sentences over the audio by text length */
+export function proportionalAlignment(sentences: AlignmentSentenceText[], duration: number): TranscriptAlignment {
+  return { ...buildAlignment(sentences, [], duration), method: 'proportional' };
+}
+
+/**
+ * Turn sentence start (and optional end) times into a full alignment.
+ * Timings out of order or outside the audio are ignored; sentences without
+ * one are placed between their timed neighbours by text length. Each sentence
+ * ends where the next begins unless an earlier end was given.
+ */
+export function buildAlignment(
+  sentences: AlignmentSentenceText[],
+  timings: SentenceTiming[],
+  duration: number,
+  method: AlignmentMethod = 'model'
+): TranscriptAlignment {
+  const total = Math.max(0, duration);
+  const anchors = new Map<number, SentenceTiming>();
+  let lastStart = -1;
+  for (const timing of [...timings].sort((a, b) => a.index - b.index)) {
+    const valid = timing.index >= 0 && timing.index < sentences.length && timing.start >= 0 && timing.start <= total;
+    if (!valid || timing.start <= lastStart || anchors.has(timing.index)) continue;
+    anchors.set(timing.index, timing);
+    lastStart = timing.start;
+  }
+
+  // Fill the gaps between anchors (and the audio's start/end) by text length
+  const weights = sentences.map(s => textWeight(s.text));
+  const fixed = [...anchors.values()].map(a => ({ index: a.index, time: a.start }));
+  if (!anchors.has(0)) fixed.unshift({ index: 0, time: 0 });
+  fixed.push({ index: sentences.length, time: total });
+
+  const starts: number[] = new Array(sentences.length);
+  for (let k = 0; k + 1 < fixed.length; k++) {
+    const from = fixed[k];
+    const to = fixed[k + 1];
+    const gapWeight = weights.slice(from.index, to.index).reduce((sum, w) => sum + w, 0);
+    let offset = 0;
+    for (let j = from.index; j < to.index; j++) {
+      starts[j] = from.time + (offset / gapWeight) * (to.time - from.time);
+      offset += weights[j];
+    }
+  }
+
+  const aligned = sentences.map((sentence, i) => {
+    const start = starts[i];
+    const next = i + 1 < sentences.length ? starts[i + 1] : total;
+    const given = anchors.get(i)?.end;
+    const end = given !== undefined && given > start && given < next ? given : next;
+    return {
+      text: sentence.text,
+      ...(sentence.speaker ? { speaker: sentence.speaker } : {}),
+      start: round(start),
+      end: round(end),
+      words: distributeWords(sentence.text, start, end),
+    };
+  });
+
+  return { sentences: aligned, duration: round(total), method };
+}
+
+/** Seconds from a number or an "m:ss(.s)" / "h:mm:ss" string */
+export function parseSeconds(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return null;
+  return parts.reduce((sum, part) => sum * 60 + Number(part), 0);
+}
+
+/**
+ * Read a model's `{ "sentences": [{ "i": 1, "start": 0.0, "end": 2.4 }] }`
+ * reply, where i is the 1-based sentence number from the prompt.
+ */
+export function parseSentenceTimings(value: unknown): SentenceTiming[] {
+  const list = Array.isArray(value)
+    ? value
+    : value && typeof value === 'object' && Array.isArray((value as { sentences?: unknown }).sentences)
+      ? (value as { sentences: unknown[] }).sentences
+      : [];
+  return list.flatMap(item => {
+    if (!item || typeof item !== 'object') return [];
+    const row = item as Record<string, unknown>;
+    const number = Number(row.i ?? row.index);
+    const start = parseSeconds(row.start);
+    const end = parseSeconds(row.end);
+    if (!Number.isInteger(number) || number < 1 || start === null) return [];
+    return [{ index: number - 1, start, ...(end !== null ? { end } : {}) }];
+  });
+}
+
+/** A stored alignment, or null when it is not well-formed */
+export function sanitizeAlignment(value: unknown): TranscriptAlignment | null {
+  if (!value || typeof value !== 'object') return null;
+  const raw = value as Record<string, unknown>;
+  if (!Array.isArray(raw.sentences) || typeof raw.duration !== 'number') return null;
+  const method: AlignmentMethod = raw.method === 'transcript' || raw.method === 'proportional' ? raw.method : 'model';
+  const sentences = raw.sentences.filter(
+    (s): s is AlignedSentence =>
+      !!s && typeof s === 'object' &&
+      typeof (s as AlignedSentence).text === 'string' &&
+      typeof (s as AlignedSentence).start === 'number' &&
+      typeof (s as AlignedSentence).end === 'number' &&
+      Array.isArray((s as AlignedSentence).words)
+  );
+  return sentences.length > 0 ? { sentences, duration: raw.duration, method } : null;
+}
+
+// ============================================================================
+// PLAYBACK
+// ============================================================================
+
+/** Index of the last item that has started by `time`, or -1 before the first */
+export function findTimedIndex(items: { start: number }[], time: number): number {
+  let low = 0;
+  let high = items.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (items[mid].start <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+}
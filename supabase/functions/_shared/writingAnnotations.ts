@@ -0,0 +1,189 @@
+// Shared inline-annotation support for the writing evaluators
+// (evaluate-writing-submission, evaluate-ai-practice-writing).
+//
+// Models are unreliable at counting characters, so the prompt asks for the
+// exact quoted text plus which occurrence it is. Character ranges are then
+// resolved here against the submission text before the report is saved.
+
+export type AnnotationCategory =
+  | 'grammar'
+  | 'collocation'
+  | 'cohesion_device'
+  | 'spelling'
+  | 'register';
+
+// Canonical IELTS writing criteria: Task Achievement/Response, Coherence &
+// Cohesion, Lexical Resource, Grammatical Range & Accuracy
+export type AnnotationCriterion = 'TA' | 'CC' | 'LR' | 'GRA';
+
+export type AnnotationSeverity = 'minor' | 'major';
+
+export interface WritingAnnotation {
+  id: string;
+  start: number;
+  end: number;
+  quote: string;
+  category: AnnotationCategory;
+  criterion: AnnotationCriterion;
+  correction: string;
+  explanation: string;
+  severity: AnnotationSeverity;
+}
+
+const CATEGORIES: AnnotationCategory[] = ['grammar', 'collocation', 'cohesion_device', 'spelling', 'register'];
+const CRITERIA: AnnotationCriterion[] = ['TA', 'CC', 'LR', 'GRA'];
+
+// Default criterion when the model omits or mislabels it
+const CATEGORY_DEFAULT_CRITERION: Record<AnnotationCategory, AnnotationCriterion> = {
+  grammar: 'GRA',
+  collocation: 'LR',
+  cohesion_device: 'CC',
+  spelling: 'LR',
+  register: 'LR',
+};
+
+const CRITERION_ALIASES: Record<string, AnnotationCriterion> = {
+  ta: 'TA',
+  tr: 'TA',
+  task_achievement: 'TA',
+  task_response: 'TA',
+  task_achievement_response: 'TA',
+  cc: 'CC',
+  coherence_cohesion: 'CC',
+  coherence_and_cohesion: 'CC',
+  lr: 'LR',
+  lexical_resource: 'LR',
+  gra: 'GRA',
+  grammatical_accuracy: 'GRA',
+  grammatical_range_and_accuracy: 'GRA',
+};
+
+const MAX_ANNOTATIONS = 40;
+
+/**
+ * Prompt section appended to the evaluation prompt. `jsonPath` tells the
+ * model where the array goes in its JSON output.
+ */
+export function getAnnotationPromptSection(jsonPath: string): string {
+  return `
+INLINE ERROR ANNOTATIONS:
+Also include an "annotations" array at ${jsonPath}. List up to ${MAX_ANNOTATIONS} specific problems in the candidate's text, in the order they appear. Each item:
+{
+  "quote": "the EXACT text copied character-for-character from the candidate's submission (2-12 words, no paraphrasing)",
+  "occurrence": 1,
+  "category": "grammar" | "collocation" | "cohesion_device" | "spelling" | "register",
+  "criterion": "TA" | "CC" | "LR" | "GRA",
+  "correction": "the corrected wording",
+  "explanation": "one short sentence addressed to the candidate",
+  "severity": "minor" | "major"
+}
+- "occurrence" is which appearance of the quote this is (1 = first) when the same text appears more than once.
+- criterion: TA = Task Achievement/Response, CC = Coherence & Cohesion, LR = Lexical Resource, GRA = Grammatical Range & Accuracy.
+- Only annotate real errors or clearly weak choices; do not annotate correct text.`;
+}
+
+function findNthIndex(haystack: string, needle: string, occurrence: number): number {
+  let index = -1;
+  let from = 0;
+  for (let i = 0; i < occurrence; i++) {
+    index = haystack.indexOf(needle, from);
+    if (index === -1) return -1;
+    from = index + needle.length;
+  }
+  return index;
+}
+
+// Locate a quote in the text: exact match first, then case-insensitive,
+// then with runs of whitespace collapsed. Returns [start, end] or null.
+export function locateQuote(text: string, quote: string, occurrence = 1): [number, number] | null {
+  const trimmed = quote.trim();
+  if (!trimmed) return null;
+  const nth = Math.max(1, Math.floor(occurrence) || 1);
+
+  let index = findNthIndex(text, trimmed, nth);
+  if (index === -1) index = findNthIndex(text, trimmed, 1);
+  if (index !== -1) return [index, index + trimmed.length];
+
+  const lowerText = text.toLowerCase();
+  const lowerQuote = trimmed.toLowerCase();
+  index = findNthIndex(lowerText, lowerQuote, nth);
+  if (index === -1) index = findNthIndex(lowerText, lowerQuote, 1);
+  if (index !== -1) return [index, index + trimmed.length];
+
+  // Whitespace-tolerant match via regex built from the quote's words
+  const words = trimmed.split(/\s+/).map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(words.join('\\s+'), 'gi');
+  let match: RegExpExecArray | null;
+  let found = 0;
+  let first: [number, number] | null = null;
+  while ((match = pattern.exec(text)) !== null) {
+    found++;
+    const range: [number, number] = [match.index, match.index + match[0].length];
+    if (!first) first = range;
+    if (found === nth) return range;
+  }
+  return first;
+}
+
+function normalizeCriterion(value: unknown, category: AnnotationCategory): AnnotationCriterion {
+  if (typeof value === 'string') {
+    const upper = value.toUpperCase() as AnnotationCriterion;
+    if (CRITERIA.includes(upper)) return upper;
+    const alias = CRITERION_ALIASES[value.toLowerCase().replace(/[\s&/-]+/g, '_')];
+    if (alias) return alias;
+  }
+  return CATEGORY_DEFAULT_CRITERION[category];
+}
+
+function normalizeCategory(value: unknown): AnnotationCategory {
+  if (typeof value === 'string') {
+    const key = value.toLowerCase().replace(/[\s-]+/g, '_');
+    if (CATEGORIES.includes(key as AnnotationCategory)) return key as AnnotationCategory;
+    if (key === 'cohesion' || key === 'cohesive_device' || key === 'linking') return 'cohesion_device';
+    if (key === 'vocabulary' || key === 'word_choice') return 'collocation';
+    if (key === 'punctuation') return 'grammar';
+  }
+  return 'grammar';
+}
+
+/**
+ * Turn the model's raw annotation list into validated annotations with
+ * character ranges into `text`. Items whose quote cannot be found are
+ * dropped; overlapping duplicates keep the first.
+ */
+export function resolveAnnotations(text: string, raw: unknown): WritingAnnotation[] {
+  if (!text || !Array.isArray(raw)) return [];
+
+  const resolved: WritingAnnotation[] = [];
+
+  for (const item of raw.slice(0, MAX_ANNOTATIONS)) {
+    if (!item || typeof item !== 'object') continue;
+    const entry = item as Record<string, unknown>;
+    const quote = typeof entry.quote === 'string' ? entry.quote : '';
+    const range = locateQuote(text, quote, Number(entry.occurrence) || 1);
+    if (!range) {
+      console.warn(`[writingAnnotations] Could not locate quote: "${quote.slice(0, 60)}"`);
+      continue;
+    }
+
+    const [start, end] = range;
+    if (resolved.some(a => a.start === start && a.end === end)) continue;
+
+    const category = normalizeCategory(entry.category);
+    resolved.push({
+      id: '',
+      start,
+      end,
+      quote: text.slice(start, end),
+      category,
+      criterion: normalizeCriterion(entry.criterion, category),
+      correction: String(entry.correction ?? '').trim(),
+      explanation: String(entry.explanation ?? '').trim(),
+      severity: entry.severity === 'major' ? 'major' : 'minor',
+    });
+  }
+
+  return resolved
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .map((a, i) => ({ ...a, id: `a${i + 1}` }));
+}
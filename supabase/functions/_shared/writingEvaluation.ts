@@ -0,0 +1,75 @@
+// The model call behind the writing evaluators (evaluate-writing-submission,
+// evaluate-ai-practice-writing). run-calibration scores its writing items
+// through the same function, so a calibration run measures the request
+// settings and response parsing students get, not just the prompt
+// (see writingEvaluationPrompt.ts).
+
+import {
+  generateWithFallback,
+  GenerateWithFallbackOptions,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMImage,
+} from "./llmProvider.ts";
+import { TaskType } from "./performanceLogger.ts";
+import { parseJson } from "./speakingUtils.ts";
+
+export type WritingEvaluator = 'writing_submission' | 'practice_writing';
+
+// Default chains; LLM_MODELS_EVALUATE_WRITING overrides both (see llmProvider.ts)
+export const WRITING_EVALUATION_MODELS: Record<WritingEvaluator, string[]> = {
+  // Graded submissions prioritize "Deep Reasoning" models for nuanced grammar,
+  // coherence and argument analysis
+  writing_submission: [
+    'gemini-3-pro-preview', // 1. Primary: Maximum IQ for Grammar/Coherence (Gemini 3.0)
+    'gemini-exp-1206',      // 2. Secondary: High Quality Experimental
+    'gemini-2.5-pro',       // 3. Fallback: Stable Pro model
+  ],
+  practice_writing: ['gemini-2.5-flash', 'gemini-2.0-flash'],
+};
+
+const REQUEST_SETTINGS: Record<WritingEvaluator, Pick<LLMGenerateRequest, 'temperature' | 'maxOutputTokens' | 'responseFormat'>> = {
+  writing_submission: { temperature: 0.7, maxOutputTokens: 8192, responseFormat: 'json' },
+  practice_writing: { temperature: 0.5, maxOutputTokens: 8192, responseFormat: 'json' },
+};
+
+// A report section whose quoted annotations the evaluator resolves against the essay
+interface AnnotatedSection {
+  annotations?: unknown;
+  [key: string]: unknown;
+}
+
+// The fields the evaluators read; the rest of the report is passed through as returned
+export interface ParsedWritingEvaluation {
+  overall_band?: number;
+  evaluation_report?: AnnotatedSection;
+  task1_evaluation?: AnnotatedSection;
+  task2_evaluation?: AnnotatedSection;
+  prompt_version?: string;
+  [key: string]: unknown;
+}
+
+export interface WritingEvaluationResult {
+  result: LLMGenerateResult;
+  // Parsed JSON report, or null when the model did not return valid JSON
+  parsed: ParsedWritingEvaluation | null;
+}
+
+/**
+ * Send a rendered writing evaluation prompt (and any Task 1 visual) to the
+ * evaluator's model chain. Logged under evaluate_writing unless the caller
+ * passes another task, as calibration does.
+ */
+export async function evaluateWriting(
+  evaluator: WritingEvaluator,
+  prompt: string,
+  images: LLMImage[],
+  options: Omit<GenerateWithFallbackOptions, 'task' | 'defaultModels'> & { task?: TaskType }
+): Promise<WritingEvaluationResult> {
+  const result = await generateWithFallback(
+    { prompt, images: images.length > 0 ? images : undefined, ...REQUEST_SETTINGS[evaluator] },
+    { ...options, task: options.task ?? 'evaluate_writing', defaultModels: WRITING_EVALUATION_MODELS[evaluator] }
+  );
+  const parsed = parseJson(result.text);
+  return { result, parsed: parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null };
+}
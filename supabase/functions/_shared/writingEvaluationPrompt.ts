@@ -0,0 +1,476 @@
+// Shared prompt builders for the writing evaluators
+// (evaluate-writing-submission, evaluate-ai-practice-writing) and the
+// calibration harness (run-calibration), so calibration scores essays with
+// exactly the prompt students get.
+//
+// The wording lives in the *_PROMPT definitions' built-in templates; admins
+// roll out new versions through prompt_templates (see promptTemplates.ts).
+
+import { getAnnotationPromptSection } from "./writingAnnotations.ts";
+import { PromptDefinition, PromptVariables } from "./promptTemplates.ts";
+
+export interface WritingSubmissionPromptInput {
+  taskType: string;
+  isLetterTask: boolean;
+  instruction: string;
+  textContent: string | null;
+  submissionText: string;
+  wordLimitMin: number;
+  wordLimitMax: number | null;
+  // A task visual is attached to the request alongside the prompt
+  hasImage: boolean;
+  revisionContext?: string;
+}
+
+// Variables for WRITING_SUBMISSION_PROMPT (evaluate-writing-submission, graded test submissions)
+export function getWritingSubmissionPromptVariables({
+  taskType,
+  isLetterTask,
+  instruction,
+  textContent,
+  submissionText,
+  wordLimitMin,
+  wordLimitMax,
+  hasImage,
+  revisionContext = '',
+}: WritingSubmissionPromptInput): PromptVariables {
+  const taskContext = isLetterTask ? `This is an IELTS General Training Task 1 Letter. The student's submission should be a letter responding to the situation below. Judge Task Achievement on whether the purpose of the letter is clear, every bullet point is covered and extended, and the tone (formal, semi-formal or informal) suits the recipient and stays consistent. Do not expect a description of any visual.
+
+      Task 1 Instructions:
+      "${instruction}"
+      ${textContent ? `Additional Task Content: "${textContent}"` : ''}` : taskType === 'task1' ? `This is an IELTS Task 1 Report. The student's submission should describe a visual (e.g., chart, graph, diagram, map, or process). ${hasImage ? 'I have provided the actual image/diagram that the student was asked to describe. Please carefully analyze this visual and evaluate how accurately and comprehensively the student has described it.' : 'Please note that you are NOT provided with the actual image, but the textual instructions and any accompanying text content for the task are given below.'} Evaluate the report based on how well it addresses these requirements.
+
+      Task 1 Instructions:
+      "${instruction}"
+      ${textContent ? `Additional Task Content: "${textContent}"` : ''}` : `This is an IELTS Task 2 Essay. The student's submission should be a response to the essay question provided below.
+
+      Essay Question:
+      "${instruction}"
+      ${textContent ? `Essay Topic: "${textContent}"` : ''}`;
+
+  return {
+    task_label: isLetterTask ? 'General Training Task 1 Letter' : taskType === 'task1' ? 'Task 1 Report' : 'Task 2 Essay',
+    task_context: taskContext,
+    submission_text: submissionText,
+    word_count: submissionText.split(/\s+/).filter(Boolean).length,
+    word_limit_min: wordLimitMin,
+    word_limit_max_line: wordLimitMax ? `Maximum Word Limit: ${wordLimitMax}` : '',
+    revision_context: revisionContext,
+    annotation_instructions: getAnnotationPromptSection('evaluation_report.annotations'),
+  };
+}
+
+export const WRITING_SUBMISSION_PROMPT: PromptDefinition = {
+  key: 'writing_submission_evaluation',
+  label: 'Writing test submission evaluation',
+  variables: {
+    task_label: 'Task 1 Report, Task 2 Essay or General Training Task 1 Letter',
+    task_context: 'Task-type guidance with the instructions and any extra task content',
+    submission_text: "The student's answer",
+    word_count: 'Words in the answer',
+    word_limit_min: 'Minimum word limit',
+    word_limit_max_line: 'Maximum word limit line, or empty',
+    revision_context: 'Previous attempt feedback for resubmissions, or empty',
+    annotation_instructions: 'Inline annotation output rules',
+  },
+  builtin: `You are an expert IELTS writing examiner and a supportive English teacher. Please provide a detailed evaluation of your student's IELTS {{task_label}} submission. Focus on offering constructive feedback and an overall band score, speaking directly to the student as their teacher would.
+
+IMPORTANT: Write your feedback as a teacher speaking directly to the student. Use "you" and "your" when addressing them. Do NOT use technical terms like "prompt" - instead say "the question", "the task", or "what was asked". Make the feedback feel like a one-on-one tutoring session.
+
+      {{task_context}}
+
+    Student's Submission:
+    "{{submission_text}}"
+
+    Word Count: {{word_count}}
+    Minimum Word Limit: {{word_limit_min}}
+    {{word_limit_max_line}}
+    {{revision_context}}
+
+    Provide your evaluation focusing on the following IELTS criteria. For each criterion, give a band score (from 0 to 9, in 0.5 increments), identify strengths, point out weaknesses, and offer specific suggestions for improvement. Address the student directly using "you" and "your".
+    
+    **When providing strengths, weaknesses, and suggestions, use markdown for emphasis:**
+    -   Wrap **important words or phrases** in double asterisks for bolding (e.g., **strong vocabulary**).
+    -   Wrap ==key terms or examples== in double equals signs for highlighting (e.g., ==cohesive devices==).
+
+    1.  **Task Achievement/Response**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in addressing the task, presenting an overview, and supporting main features.
+        -   **Weaknesses**: Areas where you could improve in fully addressing the task requirements.
+        -   **Suggestions for Improvement**: Actionable advice to enhance your task achievement.
+    2.  **Coherence and Cohesion**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in organizing your response, logical flow, and use of cohesive devices.
+        -   **Weaknesses**: Areas where your organization, paragraphing, or connection between ideas could be clearer.
+        -   **Suggestions for Improvement**: Advice to improve the clarity and connection of your ideas.
+    3.  **Lexical Resource**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in using a range of vocabulary accurately and appropriately.
+        -   **Weaknesses**: Areas where your vocabulary could be more varied, precise, or natural.
+        -   **Suggestions for Improvement**: Advice on expanding your vocabulary and using less common lexical items effectively.
+    4.  **Grammatical Range and Accuracy**:
+        -   **Band**: [0-9, in 0.5 increments]
+        -   **Strengths**: What you did well in using a variety of grammatical structures accurately.
+        -   **Weaknesses**: Common errors or areas where your grammatical control could be improved.
+        -   **Suggestions for Improvement**: Advice to enhance your grammatical range and accuracy.
+    5.  **Overall Suggestions for Improvement**: Offer general actionable advice and strategies you can use to improve your writing for future IELTS tests.
+
+    Also, provide an **Overall Band Score** (from 0 to 9, in 0.5 increments).
+    
+    Format your response as a JSON object with the following structure:
+    {
+      "overall_band": number,
+      "evaluation_report": {
+        "task_achievement_response": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "coherence_and_cohesion": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "lexical_resource": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "grammatical_range_and_accuracy": {
+          "band": number,
+          "strengths": string,
+          "weaknesses": string,
+          "suggestions_for_improvement": string
+        },
+        "overall_suggestions": string,
+        "annotations": [
+          { "quote": string, "occurrence": number, "category": string, "criterion": string, "correction": string, "explanation": string, "severity": string }
+        ]
+      }
+    }
+    {{annotation_instructions}}
+    
+    Ensure your response is ONLY the JSON object, with no additional text or markdown formatting outside of the JSON itself.`,
+};
+
+// General Training Task 1 letter guidance, shared by the single-task and full-test prompts
+function getLetterContext(letterType: string): string {
+  return `\nGENERAL TRAINING LETTER (${letterType})\n\nIMPORTANT: This is a General Training Task 1 letter, not a report on a visual. For Task Achievement, check that the candidate:\n- Covers all three bullet points, each fully extended\n- Makes the purpose of the letter clear\n- Uses a tone and register consistent with the recipient (${letterType.toLowerCase().replace('_', '-')})\n- Opens and closes the letter appropriately`;
+}
+
+// Variables for PRACTICE_WRITING_PROMPT (evaluate-ai-practice-writing, single-task practice)
+export function getWritingEvaluationPromptVariables(
+  taskType: 'task1' | 'task2',
+  instruction: string,
+  submissionText: string,
+  wordCount: number,
+  imageDescription?: string,
+  visualType?: string,
+  letterType?: string
+): PromptVariables {
+  const isTask1 = taskType === 'task1';
+  const isLetter = isTask1 && !!letterType;
+  
+  const task1Criteria = `
+TASK 1 SPECIFIC BAND DESCRIPTORS:
+
+TASK ACHIEVEMENT (assess how well the task requirements are fulfilled):
+- Band 9: Fully satisfies all requirements; clearly presents a fully developed response with relevant, extended and well-supported ideas
+- Band 8: Sufficiently addresses all parts of the task; presents a well-developed response with relevant, extended and supported ideas
+- Band 7: Addresses all parts of the task; presents a clear overview with appropriately highlighted key features/bullet points
+- Band 6: Addresses the requirements of the task; presents an overview with some key features highlighted
+- Band 5: Generally addresses the task; format may be inappropriate in places; recounts detail mechanically
+- Band 4: Attempts to address the task but does not cover all key features; format may be inappropriate
+- Band 3: Does not adequately address the task; no clear overview; key features largely irrelevant
+
+COHERENCE AND COHESION (assess organization and logical flow):
+- Band 9: Uses cohesion in such a way that it attracts no attention; skilfully manages paragraphing
+- Band 8: Sequences information and ideas logically; manages all aspects of cohesion well; uses paragraphing sufficiently and appropriately
+- Band 7: Logically organises information and ideas; clear progression throughout; uses a range of cohesive devices appropriately
+- Band 6: Arranges information and ideas coherently; uses cohesive devices effectively, but cohesion within sentences may be faulty
+- Band 5: Presents information with some organisation but no overall progression; inadequate or overused cohesive devices
+- Band 4: Presents information and ideas but not arranged coherently; uses some basic cohesive devices
+- Band 3: Does not organise ideas logically; very limited use of cohesive devices
+
+LEXICAL RESOURCE (assess vocabulary range and accuracy):
+- Band 9: Uses a wide range of vocabulary with very natural and sophisticated control of lexical features
+- Band 8: Uses a wide range of vocabulary fluently and flexibly; skilfully uses uncommon lexical items
+- Band 7: Uses a sufficient range of vocabulary to allow some flexibility and precision; uses less common lexical items with some awareness of style
+- Band 6: Uses an adequate range of vocabulary for the task; attempts to use less common vocabulary with some inaccuracy
+- Band 5: Uses a limited range of vocabulary; may make noticeable errors in spelling and word formation
+- Band 4: Uses only basic vocabulary; makes numerous errors in spelling and word formation
+- Band 3: Uses only a very limited range of words and expressions; errors in word formation are frequent
+
+GRAMMATICAL RANGE AND ACCURACY (assess sentence structures and error frequency):
+- Band 9: Uses a wide range of structures with full flexibility and accuracy; rare minor errors occur only as slips
+- Band 8: Uses a wide range of structures; the majority of sentences are error-free; makes only very occasional errors
+- Band 7: Uses a variety of complex structures; produces frequent error-free sentences; has good control of grammar and punctuation
+- Band 6: Uses a mix of simple and complex sentence forms; makes some errors in grammar and punctuation
+- Band 5: Uses only a limited range of structures; attempts complex sentences but with limited accuracy
+- Band 4: Uses only a very limited range of structures; rare use of subordinate clauses; errors predominate
+- Band 3: Attempts sentence forms but errors in grammar and punctuation predominate`;
+
+  const task2Criteria = `
+TASK 2 SPECIFIC BAND DESCRIPTORS:
+
+TASK RESPONSE (assess how well the essay addresses the task):
+- Band 9: Fully addresses all parts of the task; presents a fully developed position with relevant, fully extended and well-supported ideas
+- Band 8: Sufficiently addresses all parts of the task; presents a well-developed response with relevant, extended and supported ideas
+- Band 7: Addresses all parts of the task; presents a clear position throughout the response; presents, extends and supports main ideas
+- Band 6: Addresses all parts of the task although some parts may be more fully covered than others; presents a relevant position
+- Band 5: Addresses the task only partially; the format may be inappropriate in places; expresses a position but development is not always clear
+- Band 4: Responds to the task only in a minimal way; the format may be inappropriate; position may be unclear
+- Band 3: Does not adequately address any part of the task; does not express a clear position
+
+COHERENCE AND COHESION (assess organization and logical flow):
+- Band 9: Uses cohesion in such a way that it attracts no attention; skilfully manages paragraphing
+- Band 8: Sequences information and ideas logically; manages all aspects of cohesion well; uses paragraphing sufficiently and appropriately
+- Band 7: Logically organises information and ideas; clear progression throughout; uses a range of cohesive devices appropriately
+- Band 6: Arranges information and ideas coherently; uses cohesive devices effectively, but cohesion within sentences may be faulty
+- Band 5: Presents information with some organisation but no overall progression; inadequate or overused cohesive devices
+- Band 4: Presents information and ideas but not arranged coherently; uses some basic cohesive devices
+- Band 3: Does not organise ideas logically; very limited use of cohesive devices
+
+LEXICAL RESOURCE (assess vocabulary range and accuracy):
+- Band 9: Uses a wide range of vocabulary with very natural and sophisticated control of lexical features
+- Band 8: Uses a wide range of vocabulary fluently and flexibly; skilfully uses uncommon lexical items with occasional inaccuracies
+- Band 7: Uses a sufficient range of vocabulary to allow some flexibility and precision; uses less common lexical items with awareness of style
+- Band 6: Uses an adequate range of vocabulary for the task; attempts to use less common vocabulary with some inaccuracy
+- Band 5: Uses a limited range of vocabulary; may make noticeable errors in spelling and word formation
+- Band 4: Uses only basic vocabulary; control of word formation and spelling is weak
+- Band 3: Uses only a very limited range of words and expressions; errors in word formation are common
+
+GRAMMATICAL RANGE AND ACCURACY (assess sentence structures and error frequency):
+- Band 9: Uses a wide range of structures with full flexibility and accuracy; rare minor errors occur only as slips
+- Band 8: Uses a wide range of structures; the majority of sentences are error-free; makes only very occasional errors
+- Band 7: Uses a variety of complex structures; produces frequent error-free sentences; has good control of grammar and punctuation
+- Band 6: Uses a mix of simple and complex sentence forms; makes some errors in grammar and punctuation
+- Band 5: Uses only a limited range of structures; attempts complex sentences but with limited accuracy
+- Band 4: Uses only a very limited range of structures; subordinate clauses are rare; errors predominate
+- Band 3: Attempts sentence forms but errors in grammar and punctuation predominate`;
+
+  const wordCountGuidance = isTask1 
+    ? `Word count requirement: Minimum 150 words. Candidate wrote ${wordCount} words.${wordCount < 150 ? ' PENALTY: Under word count will affect Task Achievement score.' : ''}`
+    : `Word count requirement: Minimum 250 words. Candidate wrote ${wordCount} words.${wordCount < 250 ? ' PENALTY: Under word count will affect Task Response score.' : ''}`;
+
+  const visualContext = isLetter
+    ? getLetterContext(letterType!)
+    : isTask1 && visualType 
+    ? `\nVISUAL TYPE: ${visualType}${imageDescription ? `\nIMAGE DESCRIPTION: ${imageDescription}` : ''}\n\nIMPORTANT: Evaluate how accurately and completely the candidate has described the data/visual elements. For ${visualType}, check for:\n- Accurate data interpretation\n- Key trends and comparisons\n- Appropriate overview\n- Relevant details selected`
+    : '';
+
+  return {
+    task_label: isLetter ? 'General Training Task 1 Letter' : isTask1 ? 'Task 1 Report' : 'Task 2 Essay',
+    instruction,
+    visual_context: visualContext,
+    word_count_guidance: wordCountGuidance,
+    submission_text: submissionText,
+    band_descriptors: isTask1 ? task1Criteria : task2Criteria,
+    task_criterion_key: isTask1 ? 'task_achievement' : 'task_response',
+    annotation_instructions: getAnnotationPromptSection('evaluation_report.annotations'),
+  };
+}
+
+export const PRACTICE_WRITING_PROMPT: PromptDefinition = {
+  key: 'practice_writing_evaluation',
+  label: 'Writing practice evaluation',
+  variables: {
+    task_label: 'Task 1 Report, Task 2 Essay or General Training Task 1 Letter',
+    instruction: 'Task instructions',
+    visual_context: 'Visual type and description, letter guidance, or empty',
+    word_count_guidance: 'Word count requirement and any under-length penalty',
+    submission_text: "The candidate's answer",
+    band_descriptors: 'Task 1 or Task 2 band descriptors',
+    task_criterion_key: 'task_achievement or task_response',
+    annotation_instructions: 'Inline annotation output rules',
+  },
+  builtin: `You are an expert IELTS Writing examiner (2025 standards). Evaluate this {{task_label}} submission with professional rigor.
+
+TASK INSTRUCTIONS: "{{instruction}}"
+{{visual_context}}
+{{word_count_guidance}}
+
+CANDIDATE'S SUBMISSION:
+"""
+{{submission_text}}
+"""
+
+{{band_descriptors}}
+
+CRITICAL SCORING GUIDELINES:
+1. Score each criterion INDEPENDENTLY based on the specific evidence you observe
+2. Each criterion measures DIFFERENT skills - a candidate may excel in vocabulary but struggle with grammar
+3. Use half-band scores (5.5, 6.5, 7.5) when performance falls between bands
+4. Justify each score with specific examples from the text
+5. Calculate overall band as the arithmetic mean of all four criteria (rounded to nearest 0.5)
+6. Be strict but fair - real IELTS examiners rarely give 8+ bands
+7. Address the candidate directly using "you" and "your" in feedback
+
+IMPORTANT DIFFERENTIATION:
+- A candidate with excellent vocabulary but poor grammar should show DIFFERENT scores for those criteria
+- A well-organized essay with limited vocabulary should score HIGH on coherence but LOWER on lexical resource
+- Consider each criterion in isolation based ONLY on evidence relevant to that skill
+
+Respond with ONLY valid JSON in this exact format:
+{
+  "overall_band": number,
+  "evaluation_report": {
+    "{{task_criterion_key}}": {
+      "band": number,
+      "feedback": "Detailed feedback addressing the candidate directly...",
+      "strengths": ["specific strength 1", "specific strength 2"],
+      "weaknesses": ["specific weakness 1", "specific weakness 2"],
+      "examples": ["quote from text demonstrating assessment"]
+    },
+    "coherence_cohesion": {
+      "band": number,
+      "feedback": "Detailed feedback on organization...",
+      "strengths": ["specific strength"],
+      "weaknesses": ["specific weakness"],
+      "examples": ["example from text"]
+    },
+    "lexical_resource": {
+      "band": number,
+      "feedback": "Detailed feedback on vocabulary...",
+      "strengths": ["specific strength"],
+      "weaknesses": ["specific weakness"],
+      "examples": ["vocabulary examples from text"],
+      "vocabulary_upgrades": [
+        {"original": "word used", "suggested": "better alternative", "context": "sentence context"}
+      ]
+    },
+    "grammatical_accuracy": {
+      "band": number,
+      "feedback": "Detailed feedback on grammar...",
+      "strengths": ["specific strength"],
+      "weaknesses": ["specific weakness"],
+      "examples": ["grammar examples from text"],
+      "error_corrections": [
+        {"error": "incorrect phrase", "correction": "corrected version", "explanation": "brief explanation"}
+      ]
+    },
+    "overall_feedback": "Comprehensive summary addressing the candidate directly...",
+    "key_strengths": ["main strength 1", "main strength 2", "main strength 3"],
+    "priority_improvements": ["most important improvement 1", "improvement 2", "improvement 3"],
+    "model_paragraph": "A sample paragraph demonstrating ideal writing for this task...",
+    "annotations": []
+  }
+}
+{{annotation_instructions}}`,
+};
+
+export interface FullWritingTestPromptInput {
+  task1Instruction: string;
+  task1Text: string;
+  task2Instruction: string;
+  task2Text: string;
+  task1VisualType?: string;
+  task1ImageDescription?: string;
+  task1LetterType?: string;
+}
+
+// Variables for FULL_WRITING_TEST_PROMPT (evaluate-ai-practice-writing, Task 1 and Task 2 together)
+export function getFullWritingTestPromptVariables({
+  task1Instruction,
+  task1Text,
+  task2Instruction,
+  task2Text,
+  task1VisualType,
+  task1ImageDescription,
+  task1LetterType,
+}: FullWritingTestPromptInput): PromptVariables {
+  return {
+    task1_label: task1LetterType ? 'General Training Letter' : 'Report',
+    task1_instruction: task1Instruction,
+    task1_context: task1LetterType ? getLetterContext(task1LetterType) : task1VisualType ? `Visual Type: ${task1VisualType}` : '',
+    task1_image_description_line: task1ImageDescription ? `Image Description: ${task1ImageDescription}` : '',
+    task1_text: task1Text,
+    task1_word_count: task1Text.trim().split(/\s+/).filter(Boolean).length,
+    task2_instruction: task2Instruction,
+    task2_text: task2Text,
+    task2_word_count: task2Text.trim().split(/\s+/).filter(Boolean).length,
+    annotation_instructions: getAnnotationPromptSection('task1_evaluation.annotations (for the Task 1 text) and task2_evaluation.annotations (for the Task 2 text)'),
+  };
+}
+
+export const FULL_WRITING_TEST_PROMPT: PromptDefinition = {
+  key: 'full_writing_test_evaluation',
+  label: 'Full writing test evaluation',
+  variables: {
+    task1_label: 'Report or General Training Letter',
+    task1_instruction: 'Task 1 instructions',
+    task1_context: 'Visual type line, letter guidance, or empty',
+    task1_image_description_line: 'Task 1 image description line, or empty',
+    task1_text: "The candidate's Task 1 answer",
+    task1_word_count: 'Words in the Task 1 answer',
+    task2_instruction: 'Task 2 instructions',
+    task2_text: "The candidate's Task 2 answer",
+    task2_word_count: 'Words in the Task 2 answer',
+    annotation_instructions: 'Inline annotation output rules for both tasks',
+  },
+  builtin: `You are an expert IELTS Writing examiner (2025 standards). Evaluate this FULL WRITING TEST with both Task 1 and Task 2.
+
+=== TASK 1 ({{task1_label}}) ===
+Instructions: "{{task1_instruction}}"
+{{task1_context}}
+{{task1_image_description_line}}
+Word Count: {{task1_word_count}} words (minimum 150 required)
+
+Candidate's Task 1 Response:
+"""
+{{task1_text}}
+"""
+
+=== TASK 2 (Essay) ===
+Instructions: "{{task2_instruction}}"
+Word Count: {{task2_word_count}} words (minimum 250 required)
+
+Candidate's Task 2 Response:
+"""
+{{task2_text}}
+"""
+
+SCORING GUIDELINES:
+- Task 1 contributes 1/3 to overall score
+- Task 2 contributes 2/3 to overall score
+- Score each task independently on all four criteria
+- Use half-band scores when appropriate
+- Address the candidate directly using "you" and "your"
+
+Respond with ONLY valid JSON:
+{
+  "overall_band": number,
+  "task1_band": number,
+  "task2_band": number,
+  "task1_evaluation": {
+    "task_achievement": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "coherence_cohesion": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "lexical_resource": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "vocabulary_upgrades": [] },
+    "grammatical_accuracy": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "error_corrections": [] },
+    "overall_feedback": string,
+    "key_strengths": [],
+    "priority_improvements": [],
+    "annotations": []
+  },
+  "task2_evaluation": {
+    "task_response": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "coherence_cohesion": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "examples": [] },
+    "lexical_resource": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "vocabulary_upgrades": [] },
+    "grammatical_accuracy": { "band": number, "feedback": string, "strengths": [], "weaknesses": [], "error_corrections": [] },
+    "overall_feedback": string,
+    "key_strengths": [],
+    "priority_improvements": [],
+    "annotations": []
+  },
+  "combined_feedback": {
+    "overall_assessment": string,
+    "writing_style_notes": string,
+    "time_management_tips": string,
+    "next_steps": []
+  }
+}
+{{annotation_instructions}}`,
+};
@@ -2,6 +2,66 @@ import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
 
+/**
+ * AI Speaking Session (signed-in users with their own Gemini key)
+ *
+ *   { partType, difficulty, topic, mode: 'rest' }
+ *   { partType, difficulty, topic, mode: 'live', voiceName?, script? }
+ *
+ * REST mode returns the key, examiner instruction and model for
+ * useGeminiSpeaking. Live mode returns the Live API endpoint and the setup
+ * message for useGeminiLiveAudio: audio replies, transcription both ways,
+ * automatic activity detection off (the browser sends activityStart /
+ * activityEnd from its own voice activity detection) and the examiner tools
+ * the client uses to follow the test (see src/lib/liveExaminer.ts). `script`
+ * holds the test's planned questions; the examiner adds follow-ups.
+ */
+
+const LIVE_MODEL = 'models/gemini-2.0-flash-live-001';
+const LIVE_WS_ENDPOINT = 'wss://generativelanguage.googleapis.com/ws/google.ai.generativelanguage.v1beta.GenerativeService.BidiGenerateContent';
+const DEFAULT_VOICE = 'Charon';
+
+interface ExaminerScript {
+  part1: string[];
+  part2: { topic: string; points: string[] } | null;
+  part3: string[];
+}
+
+const EXAMINER_TOOLS = [{
+  functionDeclarations: [
+    {
+      name: 'ask_question',
+      description: 'Call immediately before asking the candidate any test question, including follow-up and rounding-off questions.',
+      parameters: {
+        type: 'OBJECT',
+        properties: {
+          part: { type: 'INTEGER', description: 'Test part: 1, 2 or 3' },
+          question: { type: 'STRING', description: 'The question exactly as you will ask it' },
+          follow_up: { type: 'BOOLEAN', description: "True if the question follows up on the candidate's last answer" },
+        },
+        required: ['part', 'question', 'follow_up'],
+      },
+    },
+    {
+      name: 'start_part2_preparation',
+      description: 'Call after introducing Part 2 to give the candidate the cue card. The response arrives when the one minute of preparation is over.',
+      parameters: {
+        type: 'OBJECT',
+        properties: {
+          topic: { type: 'STRING', description: 'The cue card topic' },
+          points: { type: 'ARRAY', items: { type: 'STRING' }, description: 'The points the candidate should cover' },
+        },
+        required: ['topic', 'points'],
+      },
+    },
+    {
+      name: 'end_test',
+      description: 'Call once, after thanking the candidate at the end of Part 3.',
+      parameters: { type: 'OBJECT', properties: {} },
+    },
+  ],
+}];
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -91,11 +151,34 @@ serve(async (req) => {
 
     const geminiApiKey = await decryptApiKey(userSecret.encrypted_value, appEncryptionKey);
 
-    const { partType, difficulty, topic } = await req.json();
+    const { partType, difficulty, topic, mode, voiceName, script } = await req.json();
 
     // Build system instruction for IELTS examiner with British accent personality
     const systemInstruction = buildExaminerInstruction(partType, difficulty, topic);
 
+    if (mode === 'live') {
+      console.log('Live session created for user:', user.id);
+      return new Response(JSON.stringify({
+        success: true,
+        apiKey: geminiApiKey,
+        wsEndpoint: LIVE_WS_ENDPOINT,
+        sessionConfig: {
+          model: LIVE_MODEL,
+          generationConfig: {
+            responseModalities: ['AUDIO'],
+            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voiceName || DEFAULT_VOICE } } },
+          },
+          systemInstruction: { parts: [{ text: `${systemInstruction}\n\n${buildLiveInstruction(script)}` }] },
+          tools: EXAMINER_TOOLS,
+          realtimeInputConfig: { automaticActivityDetection: { disabled: true } },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+        },
+      }), {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     console.log('REST session created for user:', user.id);
 
     // Return the session configuration for REST API calls
@@ -185,3 +268,31 @@ RESPONSE FORMAT:
 
   return baseInstruction;
 }
+
+function buildLiveInstruction(script?: ExaminerScript): string {
+  const list = (questions: string[] | undefined) =>
+    questions && questions.length > 0 ? questions.map((q, i) => `${i + 1}. ${q}`).join('\n') : '(choose suitable questions yourself)';
+  const cueCard = script?.part2
+    ? `${script.part2.topic}\nYou should say:\n${script.part2.points.map(p => `- ${p}`).join('\n')}`
+    : '(choose a suitable cue card yourself)';
+
+  return `LIVE CONVERSATION RULES:
+- The test begins when you receive "[START]": greet the candidate as in Part 1.
+- This is a live spoken test. Ask one question at a time and wait for the candidate to answer.
+- Call ask_question immediately before every test question you ask, follow-ups included. Do not call it for the greeting, name or identification check.
+- After an answer in Part 1 or Part 3 you may ask at most one short, natural follow-up based on what the candidate actually said (e.g. "Why is that?", "What did you like most about it?"). Otherwise move on to the next planned question.
+- If the candidate interrupts you, stop and respond to what they said.
+- If the candidate asks you to repeat the question, repeat it once without rephrasing.
+- Part 2: after the introduction, call start_part2_preparation with the cue card and then stay silent. Its response means the minute of preparation is over; then ask the candidate to start speaking. If they stop before the time is up, briefly encourage them to continue. When you receive "[TIME_UP]", say "Thank you" and ask one rounding-off question.
+- After Part 3, thank the candidate, say the test is finished and call end_test.
+- Never comment on the quality of answers or give scores during the test.
+
+PLANNED PART 1 QUESTIONS:
+${list(script?.part1)}
+
+PART 2 CUE CARD:
+${cueCard}
+
+PLANNED PART 3 QUESTIONS:
+${list(script?.part3)}`;
+}
@@ -0,0 +1,286 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getActiveGeminiKeysForModels } from "../_shared/apiKeyQuotaUtils.ts";
+import { generateWithFallback, LLMProviderError } from "../_shared/llmProvider.ts";
+import { parseJson } from "../_shared/speakingUtils.ts";
+import { splitTranscriptLines } from "../_shared/answerEvidence.ts";
+import {
+  alignmentSentences,
+  AlignmentSentenceText,
+  buildAlignment,
+  parseSeconds,
+  parseSentenceTimings,
+  sanitizeAlignment,
+  SentenceTiming,
+  transcriptHash,
+  transcriptTimings,
+} from "../_shared/transcriptAlignment.ts";
+
+/**
+ * Transcript alignment (signed-in users)
+ *
+ *   { sourceType: 'generated_test_audio' | 'listening_test', sourceId, part?, durationSeconds?, force? }
+ *
+ * Returns sentence and word timings for a listening transcript against its
+ * audio, from transcript_alignments when the stored row matches the current
+ * transcript and audio, otherwise by asking the model when each sentence
+ * starts and storing the result. Transcripts with a "[mm:ss]" timestamp on
+ * every line are aligned from those without calling the model. force
+ * (admins only) re-aligns even when a stored row is current.
+ *
+ * The model call runs on the system key pool, so only admins (the sync button
+ * in the listening test editor) and publish-generated-tests (service role)
+ * can start one. Other users get { alignment: null } when no stored row is
+ * current and fall back to the client-side estimate.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
+
+// Inline audio is limited to about 20MB per request once base64-encoded
+const MAX_AUDIO_BYTES = 14 * 1024 * 1024;
+
+type SourceType = 'generated_test_audio' | 'listening_test';
+
+interface AlignmentSource {
+  transcript: string;
+  audioUrl: string;
+  duration: number | null;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+// Convert Uint8Array to base64 in chunks to avoid stack overflow
+function uint8ArrayToBase64(uint8Array: Uint8Array): string {
+  const chunkSize = 8192;
+  let result = '';
+  for (let i = 0; i < uint8Array.length; i += chunkSize) {
+    const chunk = uint8Array.subarray(i, i + chunkSize);
+    result += String.fromCharCode.apply(null, Array.from(chunk));
+  }
+  return btoa(result);
+}
+
+// Key rotation: a quota or key error moves on to the next pool key
+const isKeyError = (error: LLMProviderError) =>
+  error.kind === 'quota' || error.kind === 'rate_limit' || error.kind === 'invalid_key' || error.kind === 'permission';
+
+async function loadSource(
+  serviceClient: SupabaseClient,
+  sourceType: SourceType,
+  sourceId: string,
+  part: number,
+  isAdmin: boolean
+): Promise<AlignmentSource | null> {
+  if (sourceType === 'generated_test_audio') {
+    const { data, error } = await serviceClient
+      .from('generated_test_audio')
+      .select('transcript, audio_url, audio_duration_seconds, is_published')
+      .eq('id', sourceId)
+      .maybeSingle();
+    if (error) throw error;
+    if (!data?.transcript || !data.audio_url || (!data.is_published && !isAdmin)) return null;
+    return { transcript: data.transcript, audioUrl: data.audio_url, duration: data.audio_duration_seconds ?? null };
+  }
+
+  const { data, error } = await serviceClient
+    .from('listening_tests')
+    .select('*')
+    .eq('id', sourceId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || (!data.is_published && !isAdmin)) return null;
+  const row = data as Record<string, unknown>;
+  const transcript = row[`transcript_part${part}`];
+  const audioUrl = row[`audio_url_part${part}`];
+  if (typeof transcript !== 'string' || !transcript.trim() || typeof audioUrl !== 'string' || !audioUrl) return null;
+  return { transcript, audioUrl, duration: null };
+}
+
+async function fetchAudio(audioUrl: string): Promise<{ data: string; mimeType: string }> {
+  const response = await fetch(audioUrl);
+  if (!response.ok) throw new Error(`Failed to fetch audio: ${response.status}`);
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  if (bytes.length > MAX_AUDIO_BYTES) throw new Error('Audio file is too large to align');
+  const contentType = response.headers.get('content-type') || '';
+  const mimeType = contentType.startsWith('audio/') ? contentType.split(';')[0] : audioUrl.endsWith('.wav') ? 'audio/wav' : 'audio/mpeg';
+  return { data: uint8ArrayToBase64(bytes), mimeType };
+}
+
+function alignmentPrompt(sentences: AlignmentSentenceText[]): string {
+  const numbered = sentences
+    .map((s, i) => `${i + 1}. ${s.speaker ? `${s.speaker}: ` : ''}${s.text}`)
+    .join('\n');
+  return `You will hear the recording of an IELTS listening section. Its transcript is below as numbered sentences.
+
+For every sentence, give the time in seconds when the speaker starts saying it and when they finish. Times must increase from one sentence to the next. Skip a sentence only if it is not in the recording, and do not add sentences.
+
+Return JSON only:
+{"duration": <length of the recording in seconds>, "sentences": [{"i": 1, "start": 0.0, "end": 2.4}]}
+
+TRANSCRIPT:
+${numbered}`;
+}
+
+async function alignWithModel(
+  serviceClient: SupabaseClient,
+  sentences: AlignmentSentenceText[],
+  audioUrl: string
+): Promise<{ timings: SentenceTiming[]; duration: number | null; model: string }> {
+  const keys = await getActiveGeminiKeysForModels(serviceClient, GEMINI_MODELS);
+  if (keys.length === 0) throw new Error('No API keys available');
+  const audio = await fetchAudio(audioUrl);
+
+  let lastError: unknown = null;
+  for (const key of keys) {
+    try {
+      const result = await generateWithFallback(
+        {
+          prompt: alignmentPrompt(sentences),
+          audio: [audio],
+          responseFormat: 'json',
+          temperature: 0,
+          maxOutputTokens: 16384,
+          timeoutMs: 120000,
+        },
+        { task: 'transcribe', defaultModels: GEMINI_MODELS, apiKey: key.key_value, apiKeyId: key.id, serviceClient, shouldAbort: isKeyError }
+      );
+      const parsed = parseJson(result.text);
+      const timings = parseSentenceTimings(parsed);
+      if (timings.length === 0) throw new Error('No sentence timings in the model response');
+      const duration = parseSeconds((parsed as { duration?: unknown } | null)?.duration);
+      return { timings, duration, model: `${result.provider}:${result.model}` };
+    } catch (err) {
+      lastError = err;
+      if (err instanceof LLMProviderError && isKeyError(err)) continue;
+      throw err;
+    }
+  }
+  throw lastError ?? new Error('All API keys failed');
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    // publish-generated-tests calls in with the service role key when tests are published
+    const isServiceCall = token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+    let isAdmin = isServiceCall;
+    if (!isServiceCall) {
+      const { data: { user }, error: authError } = await serviceClient.auth.getUser(token);
+      if (authError || !user) {
+        return jsonResponse({ error: "Invalid token" }, 401);
+      }
+
+      const { data: adminCheck } = await serviceClient
+        .from("admin_users")
+        .select("id")
+        .eq("user_id", user.id)
+        .maybeSingle();
+      isAdmin = !!adminCheck;
+    }
+
+    const body = await req.json();
+    const sourceType: SourceType | null = body.sourceType === 'generated_test_audio' || body.sourceType === 'listening_test' ? body.sourceType : null;
+    const sourceId = typeof body.sourceId === 'string' ? body.sourceId : '';
+    const part = sourceType === 'listening_test' && [1, 2, 3, 4].includes(body.part) ? body.part : 1;
+    if (!sourceType || !sourceId) {
+      return jsonResponse({ error: "sourceType and sourceId are required" }, 400);
+    }
+    if (body.force && !isAdmin) {
+      return jsonResponse({ error: "Admin access required" }, 403);
+    }
+
+    const source = await loadSource(serviceClient, sourceType, sourceId, part, isAdmin);
+    if (!source) {
+      return jsonResponse({ error: "No transcript and audio to align" }, 404);
+    }
+
+    const hash = transcriptHash(source.transcript);
+    if (!body.force) {
+      const { data: stored } = await serviceClient
+        .from('transcript_alignments')
+        .select('alignment, transcript_hash, audio_url')
+        .eq('source_type', sourceType)
+        .eq('source_id', sourceId)
+        .eq('part', part)
+        .maybeSingle();
+      const alignment = stored && stored.transcript_hash === hash && stored.audio_url === source.audioUrl
+        ? sanitizeAlignment(stored.alignment)
+        : null;
+      if (alignment) return jsonResponse({ alignment, cached: true });
+    }
+
+    const sentences = alignmentSentences(source.transcript);
+    if (sentences.length === 0) {
+      return jsonResponse({ error: "Transcript has no sentences" }, 422);
+    }
+
+    const clientDuration = typeof body.durationSeconds === 'number' && body.durationSeconds > 0 ? body.durationSeconds : null;
+    const written = transcriptTimings(sentences);
+    const allLinesTimed = splitTranscriptLines(source.transcript).every(line => line.start !== undefined);
+    let method: 'model' | 'transcript';
+    let timings: SentenceTiming[];
+    let duration = source.duration ?? clientDuration;
+    let modelName: string | null = null;
+
+    // Every line already timestamped: no need to listen
+    if (written.length > 0 && allLinesTimed && duration) {
+      method = 'transcript';
+      timings = written;
+    } else if (!isAdmin) {
+      console.log(`[align-transcript] ${sourceType} ${sourceId} part ${part}: not aligned yet, leaving it to the client estimate`);
+      return jsonResponse({ alignment: null, cached: false });
+    } else {
+      const aligned = await alignWithModel(serviceClient, sentences, source.audioUrl);
+      method = 'model';
+      timings = aligned.timings;
+      modelName = aligned.model;
+      const lastEnd = Math.max(...timings.map(t => t.end ?? t.start));
+      duration = duration ?? aligned.duration ?? lastEnd;
+    }
+
+    const alignment = buildAlignment(sentences, timings, duration ?? 0, method);
+    const { error: saveError } = await serviceClient
+      .from('transcript_alignments')
+      .upsert({
+        source_type: sourceType,
+        source_id: sourceId,
+        part,
+        audio_url: source.audioUrl,
+        transcript_hash: hash,
+        method,
+        alignment,
+        model_name: modelName,
+      }, { onConflict: 'source_type,source_id,part' });
+    if (saveError) console.error('[align-transcript] Failed to store alignment:', saveError);
+
+    console.log(`[align-transcript] ${sourceType} ${sourceId} part ${part}: ${alignment.sentences.length} sentences (${method})`);
+    return jsonResponse({ alignment, cached: false });
+  } catch (error) {
+    console.error("[align-transcript] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
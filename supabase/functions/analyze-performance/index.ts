@@ -1,35 +1,13 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { generateWithFallback } from "../_shared/llmProvider.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Performance logging
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: null,
-      p_model_name: modelName,
-      p_task_type: 'analyze',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (analyze)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -57,60 +35,20 @@ async function decryptApiKey(encryptedValue: string, encryptionKey: string): Pro
   return decoder.decode(decryptedData);
 }
 
+// Default chain; LLM_MODELS_ANALYZE overrides it (see _shared/llmProvider.ts)
 const GEMINI_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
 
 async function callGemini(apiKey: string, systemPrompt: string, userPrompt: string, serviceClient?: any): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              { role: 'user', parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }] }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 8192,
-            },
-          }),
-        }
-      );
-
-      const responseTimeMs = Date.now() - startTime;
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Gemini ${model} failed with status ${response.status}`);
-        const isQuota = response.status === 429 || errorText.toLowerCase().includes('quota');
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, isQuota ? 'quota_exceeded' : 'error', responseTimeMs, errorText.slice(0, 200));
-        }
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(serviceClient, model, 'error', responseTimeMs, err instanceof Error ? err.message : String(err));
-      }
-      continue;
-    }
+  try {
+    const result = await generateWithFallback(
+      { systemPrompt, prompt: userPrompt, temperature: 0.7, maxOutputTokens: 8192 },
+      { task: 'analyze', defaultModels: GEMINI_MODELS, apiKey, serviceClient }
+    );
+    return result.text;
+  } catch (err) {
+    console.error('All analysis models failed:', err);
+    return null;
   }
-  return null;
 }
 
 serve(async (req) => {
@@ -0,0 +1,215 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  applySubscriptionEvent,
+  BillingConfigError,
+  BillingEvent,
+  BillingProvider,
+  BillingSignatureError,
+  getBillingProvider,
+  parseCheckoutReference,
+} from "../_shared/billing.ts";
+
+/**
+ * Billing webhook (called by the billing provider, no JWT)
+ *
+ * Verifies the provider's signature, records the event in billing_events and
+ * applies it once: payments activate or renew subscriptions and credit packs,
+ * a failed renewal starts the grace period, cancellation stops renewals and a
+ * refund ends access or takes back the pack's credits. A 500 makes the
+ * provider retry; an event that already went through is acknowledged again
+ * without being applied.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Used when a subscription's plan has been deleted since checkout
+const DEFAULT_DURATION_DAYS = 30;
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function eventTime(event: BillingEvent): Date {
+  const occurred = new Date(event.occurredAt);
+  return Number.isNaN(occurred.getTime()) ? new Date() : occurred;
+}
+
+/** Returns false when the event does not apply to the subscription */
+async function applyToSubscription(serviceClient: SupabaseClient, subscriptionId: string, event: BillingEvent): Promise<boolean> {
+  const { data: subscription, error } = await serviceClient
+    .from('subscriptions')
+    .select('id, status, start_date, end_date, grace_until, cancelled_at, plan_tier_id, provider_subscription_id')
+    .eq('id', subscriptionId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!subscription) return false;
+
+  let durationDays = DEFAULT_DURATION_DAYS;
+  if (subscription.plan_tier_id) {
+    const { data: tier } = await serviceClient
+      .from('plan_tiers')
+      .select('duration_days')
+      .eq('id', subscription.plan_tier_id)
+      .maybeSingle();
+    durationDays = tier?.duration_days ?? DEFAULT_DURATION_DAYS;
+  }
+
+  const patch = applySubscriptionEvent(subscription, event, durationDays, eventTime(event));
+  if (!patch) return false;
+
+  const { error: updateError } = await serviceClient
+    .from('subscriptions')
+    .update({
+      ...patch,
+      provider_subscription_id: event.providerSubscriptionId ?? subscription.provider_subscription_id,
+    })
+    .eq('id', subscriptionId);
+  if (updateError) throw updateError;
+
+  // The first payment of a discounted checkout completes its promotion redemption
+  if (subscription.status === 'pending' && patch.status === 'active') {
+    const { error: redemptionError } = await serviceClient
+      .from('promotion_redemptions')
+      .update({ status: 'completed', completed_at: new Date().toISOString() })
+      .eq('subscription_id', subscriptionId)
+      .eq('status', 'pending');
+    if (redemptionError) throw redemptionError;
+  }
+  return true;
+}
+
+/** Returns false when the event does not apply to the purchase */
+async function applyToCreditPurchase(serviceClient: SupabaseClient, purchaseId: string, event: BillingEvent): Promise<boolean> {
+  switch (event.type) {
+    case 'payment_succeeded': {
+      const { data, error } = await serviceClient.rpc('complete_credit_purchase', {
+        p_purchase_id: purchaseId,
+        p_provider_reference: event.id,
+      });
+      if (error) throw error;
+      if (!data?.ok) throw new Error(data?.error ?? 'Could not complete credit purchase');
+      return !data.already_completed;
+    }
+    case 'payment_failed': {
+      const { data, error } = await serviceClient
+        .from('credit_purchases')
+        .update({ status: 'failed' })
+        .eq('id', purchaseId)
+        .eq('status', 'pending')
+        .select('id');
+      if (error) throw error;
+      return (data ?? []).length > 0;
+    }
+    case 'refunded': {
+      const { data, error } = await serviceClient.rpc('refund_credit_purchase', { p_purchase_id: purchaseId });
+      if (error) throw error;
+      if (!data?.ok) throw new Error(data?.error ?? 'Could not refund credit purchase');
+      return !data.already_refunded;
+    }
+    default:
+      // Credit packs are one-off payments; renewals and cancellations do not apply
+      return false;
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const secret = Deno.env.get("BILLING_WEBHOOK_SECRET");
+  if (!secret) {
+    console.error("[billing-webhook] BILLING_WEBHOOK_SECRET is not set");
+    return jsonResponse({ error: "Webhook not configured" }, 500);
+  }
+  let provider: BillingProvider;
+  try {
+    provider = getBillingProvider(Deno.env.get("BILLING_PROVIDER"), secret, Deno.env.get("BILLING_ALLOW_FAKE") === "true");
+  } catch (error) {
+    if (!(error instanceof BillingConfigError)) throw error;
+    console.error(`[billing-webhook] ${error.message}`);
+    return jsonResponse({ error: "Webhook not configured" }, 500);
+  }
+
+  const rawBody = await req.text();
+  let event: BillingEvent;
+  try {
+    event = await provider.parseWebhook(rawBody, req.headers);
+  } catch (error) {
+    if (error instanceof BillingSignatureError) {
+      console.warn(`[billing-webhook] Rejected: ${error.message}`);
+      return jsonResponse({ error: error.message }, 401);
+    }
+    throw error;
+  }
+
+  const serviceClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+  );
+
+  const { data: recorded, error: recordError } = await serviceClient
+    .from('billing_events')
+    .insert({
+      provider: provider.name,
+      event_id: event.id,
+      event_type: event.type,
+      reference: event.reference,
+      payload: JSON.parse(rawBody),
+    })
+    .select('id')
+    .maybeSingle();
+
+  let recordId = recorded?.id as string | undefined;
+  if (recordError) {
+    // 23505: delivered before. Apply it again only if that attempt failed.
+    if (recordError.code !== '23505') {
+      console.error("[billing-webhook] Could not record event:", recordError);
+      return jsonResponse({ error: "Could not record event" }, 500);
+    }
+    const { data: previous } = await serviceClient
+      .from('billing_events')
+      .select('id, status')
+      .eq('provider', provider.name)
+      .eq('event_id', event.id)
+      .maybeSingle();
+    if (!previous || previous.status === 'processed' || previous.status === 'ignored') {
+      return jsonResponse({ received: true, duplicate: true });
+    }
+    recordId = previous.id;
+  }
+
+  const finish = (status: 'processed' | 'ignored' | 'failed', error: string | null = null) =>
+    serviceClient
+      .from('billing_events')
+      .update({ status, error, processed_at: new Date().toISOString() })
+      .eq('id', recordId);
+
+  try {
+    const target = parseCheckoutReference(event.reference);
+    const applied = !target
+      ? false
+      : target.kind === 'subscription'
+        ? await applyToSubscription(serviceClient, target.id, event)
+        : await applyToCreditPurchase(serviceClient, target.id, event);
+
+    await finish(applied ? 'processed' : 'ignored');
+    console.log(`[billing-webhook] ${event.type} for ${event.reference}: ${applied ? 'applied' : 'ignored'}`);
+    return jsonResponse({ received: true, applied });
+  } catch (error: unknown) {
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`[billing-webhook] ${event.type} for ${event.reference} failed:`, error);
+    await finish('failed', message);
+    return jsonResponse({ error: message }, 500);
+  }
+});
@@ -7,10 +7,24 @@ import {
   getTodayDate,
   ALL_MODEL_QUOTA_COLUMNS
 } from "../_shared/apiKeyQuotaUtils.ts";
-import { 
-  createPerformanceLogger,
-  classifyGeminiErrorStatus
-} from "../_shared/performanceLogger.ts";
+import { classifyGeminiErrorStatus } from "../_shared/performanceLogger.ts";
+import {
+  classifyLLMError,
+  generateWithFallback,
+  getModelChain,
+  LLMGenerateRequest,
+  LLMGenerateResult,
+  LLMModelTarget,
+  LLMProviderError,
+  requiresGeminiKey,
+} from "../_shared/llmProvider.ts";
+import {
+  formatGeneratedTestIssues,
+  GENERATED_TEST_SCHEMA_VERSION,
+  validateGeneratedTest,
+} from "../_shared/generatedTestSchema.ts";
+import { repairQuestionGroups } from "../_shared/generatedTestRepair.ts";
+import { createPromptRandom, PromptRandom, unseededPromptRandom } from "../_shared/llmFixtures.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -82,11 +96,11 @@ function getRandomVoice(preferredAccent?: string): { voiceName: string; accent:
   if (preferredAccent && preferredAccent !== "random" && preferredAccent !== "mixed" && TTS_VOICES[preferredAccent as keyof typeof TTS_VOICES]) {
     accent = preferredAccent as keyof typeof TTS_VOICES;
   } else {
-    accent = ALL_ACCENTS[Math.floor(Math.random() * ALL_ACCENTS.length)];
+    accent = ALL_ACCENTS[Math.floor(promptRandom.next() * ALL_ACCENTS.length)];
   }
   
   const voices = TTS_VOICES[accent];
-  const voiceName = voices[Math.floor(Math.random() * voices.length)];
+  const voiceName = voices[Math.floor(promptRandom.next() * voices.length)];
   return { voiceName, accent };
 }
 
@@ -98,7 +112,7 @@ function pickSecondaryVoice(primaryVoice: string, accent: string): string {
   const oppositeGenderCandidates = candidates.filter(v => getVoiceGender(v) !== primaryGender);
 
   const pool = oppositeGenderCandidates.length > 0 ? oppositeGenderCandidates : candidates;
-  return pool[Math.floor(Math.random() * pool.length)] ?? primaryVoice;
+  return pool[Math.floor(promptRandom.next() * pool.length)] ?? primaryVoice;
 }
 
 // API Key management for round-robin Gemini API calls with quota tracking
@@ -121,6 +135,10 @@ let flashKeyCache: ApiKeyRecord[] = [];
 let ttsKeyIndex = 0;
 let flashKeyIndex = 0;
 
+// Random voice, topic and variation picks for the current request; seeded from
+// the request in fixture mode so recorded prompts can be replayed
+let promptRandom: PromptRandom = unseededPromptRandom;
+
 // List of models we use for content generation (non-TTS)
 const CONTENT_MODELS = ['gemini-2.5-flash', 'gemini-2.0-flash'];
 
@@ -151,31 +169,6 @@ async function markContentQuotaExhausted(supabaseServiceClient: any, keyId: stri
   console.log(`Removed key ${keyId} from flash cache for ${modelName}, ${flashKeyCache.length} keys remaining`);
 }
 
-// Check if error is a quota error (broad check for rate limiting/transient)
-function isQuotaExhaustedError(errorStatus: string | number, errorMessage: string): boolean {
-  return (
-    errorStatus === 'RESOURCE_EXHAUSTED' ||
-    errorStatus === 429 ||
-    errorMessage.toLowerCase().includes('quota') ||
-    errorMessage.toLowerCase().includes('rate limit') ||
-    errorMessage.toLowerCase().includes('resource exhausted') ||
-    errorMessage.toLowerCase().includes('too many requests')
-  );
-}
-
-// Check if error is a PERMANENT daily quota exhaustion (use before marking model exhausted)
-function isPermanentQuotaError(errorMessage: string): boolean {
-  const msg = errorMessage.toLowerCase();
-  return (
-    msg.includes('check your plan') ||
-    msg.includes('billing') ||
-    msg.includes('limit: 0') ||
-    (msg.includes('per day') && !msg.includes('retry')) ||
-    msg.includes('daily quota') ||
-    msg.includes('daily limit')
-  );
-}
-
 async function incrementKeyErrorCount(supabaseServiceClient: any, keyId: string, deactivate: boolean = false): Promise<void> {
   try {
     if (!deactivate) {
@@ -498,6 +491,7 @@ serve(async (req) => {
 
     const body = await req.json();
     const { module, topic, difficulty, quantity, questionType, monologue, writingConfig } = body;
+    promptRandom = await createPromptRandom(body);
 
     // Validation
     if (!module || !topic || !difficulty || !quantity) {
@@ -683,6 +677,9 @@ async function processGenerationJob(
         enforceSpeakingPart3Constraints(content);
       }
 
+      // READING/LISTENING: reject malformed question groups before any audio is generated
+      await validateBulkContent(module, currentQuestionType, content);
+
       // WRITING TASK 1: if we're generating Task 1 with RANDOM visual type, infer the actual visual type
       // from the AI response so we can store + filter presets correctly.
       if (module === "writing" && currentQuestionType === "TASK_1") {
@@ -740,9 +737,7 @@ async function processGenerationJob(
             if (!monologue && scriptText.includes('Speaker')) {
               console.log(`[Job ${jobId}] Attempting monologue rescue for test ${i + 1}...`);
               try {
-                const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-                if (LOVABLE_API_KEY) {
-                  const monologuePrompt = `Rewrite the following dialogue as a detailed monologue or narration. 
+                const monologuePrompt = `Rewrite the following dialogue as a detailed monologue or narration. 
 Remove all speaker labels (e.g., "Speaker1:", "Speaker2:", names followed by colons). 
 Convert the conversation into a flowing narrative that a single narrator would read aloud.
 Keep ALL factual information, numbers, dates, names, and details that would be needed to answer test questions.
@@ -750,44 +745,19 @@ Return ONLY the raw monologue text, no JSON wrapper.
 
 DIALOGUE TO CONVERT:
 ${scriptText}`;
-                  
-                  const rescueResponse = await fetchWithTimeout(
-                    "https://ai.gateway.lovable.dev/v1/chat/completions",
-                    {
-                      method: "POST",
-                      headers: {
-                        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-                        "Content-Type": "application/json",
-                      },
-                      body: JSON.stringify({
-                        model: "google/gemini-2.5-flash",
-                        messages: [
-                          { role: "user", content: monologuePrompt },
-                        ],
-                      }),
-                    },
-                    60_000
-                  );
-                  
-                  if (rescueResponse.ok) {
-                    const rescueData = await rescueResponse.json();
-                    const rescuedMonologue = rescueData.choices?.[0]?.message?.content;
-                    
-                    if (rescuedMonologue && rescuedMonologue.trim().length > 50) {
-                      console.log(`[Job ${jobId}] Monologue rescue successful for test ${i + 1}`);
-                      content.dialogue = rescuedMonologue.trim();
-                      content.script = rescuedMonologue.trim();
-                      content.speaker_names = { Speaker1: 'Narrator' };
-                      content.monologue_rescued = true;
-                      // Continue without throwing - test will be saved with browser TTS fallback
-                    } else {
-                      throw new Error('Monologue rescue returned empty result');
-                    }
-                  } else {
-                    throw new Error('Monologue rescue API call failed');
-                  }
+                
+                const rescueResult = await callContentModel({ prompt: monologuePrompt, timeoutMs: 60_000 });
+                const rescuedMonologue = rescueResult.text;
+                
+                if (rescuedMonologue.trim().length > 50) {
+                  console.log(`[Job ${jobId}] Monologue rescue successful for test ${i + 1}`);
+                  content.dialogue = rescuedMonologue.trim();
+                  content.script = rescuedMonologue.trim();
+                  content.speaker_names = { Speaker1: 'Narrator' };
+                  content.monologue_rescued = true;
+                  // Continue without throwing - test will be saved with browser TTS fallback
                 } else {
-                  throw new Error('LOVABLE_API_KEY not available for rescue');
+                  throw new Error('Monologue rescue returned empty result');
                 }
               } catch (rescueError) {
                 console.error(`[Job ${jobId}] Monologue rescue failed for test ${i + 1}:`, rescueError);
@@ -882,6 +852,12 @@ ${scriptText}`;
         
         contentPayload = { writingTask };
         console.log(`[Job ${jobId}] Writing task formatted: type=${writingTask.task_type}, visual_type=${writingTask.visual_type}`);
+
+        const validation = validateGeneratedTest("writing", contentPayload);
+        if (!validation.valid) {
+          throw new Error(`Generated content failed validation: ${formatGeneratedTestIssues(validation.issues, 3)}`);
+        }
+        contentPayload = { ...contentPayload, schemaVersion: GENERATED_TEST_SCHEMA_VERSION };
       }
 
       // Save to generated_test_audio table
@@ -1012,109 +988,176 @@ function getQuestionTypesForModule(module: string, selectedType: string): string
   }
 }
 
-// Generate content using Lovable AI Gateway with performance logging
-async function generateContent(
-  module: string,
-  topic: string,
-  difficulty: string,
-  questionType: string,
-  monologue: boolean,
-  voiceName?: string,
-  writingConfig?: any
-): Promise<any> {
+// Content generation goes through the AI gateway unless LLM_MODELS_GENERATE configures a chain
+const GATEWAY_CONTENT_MODEL = "google/gemini-2.5-flash";
+
+// Send a prompt to the content model chain, with performance logging
+async function callContentModel(request: LLMGenerateRequest): Promise<LLMGenerateResult> {
   const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-  
-  if (!LOVABLE_API_KEY) {
+  const gatewayTarget: LLMModelTarget = {
+    provider: "openai",
+    model: GATEWAY_CONTENT_MODEL,
+    endpoint: { baseUrl: "https://ai.gateway.lovable.dev/v1", apiKey: LOVABLE_API_KEY },
+  };
+  const chain = getModelChain("generate", [gatewayTarget]);
+
+  if (chain.includes(gatewayTarget) && !LOVABLE_API_KEY) {
     throw new Error("LOVABLE_API_KEY not configured");
   }
 
-  const prompt = getPromptForModule(module, topic, difficulty, questionType, monologue, voiceName, writingConfig);
-  
-  // Create performance logger for this task
-  const perfLogger = createPerformanceLogger('generate');
-  const modelName = "google/gemini-2.5-flash";
-  const callStart = Date.now();
+  // Gemini entries in a configured chain use the content key pool
+  let geminiKey: ApiKeyRecord | null = null;
+  if (requiresGeminiKey(chain)) {
+    if (flashKeyCache.length === 0) {
+      flashKeyCache = await getActiveGeminiKeysForContent(createClient(
+        Deno.env.get("SUPABASE_URL") ?? "",
+        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+      ));
+    }
+    geminiKey = getNextFlashApiKey();
+  }
 
-  try {
-    const response = await fetchWithTimeout(
-      "https://ai.gateway.lovable.dev/v1/chat/completions",
-      {
-        method: "POST",
-        headers: {
-          Authorization: `Bearer ${LOVABLE_API_KEY}`,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          model: modelName,
-          messages: [
-            {
-              role: "system",
-              content:
-                "You are an expert IELTS test creator. Generate high-quality, authentic exam content. Always respond with valid JSON only, no markdown code blocks.",
-            },
-            { role: "user", content: prompt },
-          ],
-        }),
+  return generateWithFallback(request, {
+    task: "generate",
+    defaultModels: [gatewayTarget],
+    apiKey: geminiKey?.key_value,
+    apiKeyId: geminiKey?.id,
+  });
+}
+
+// Root-level fields the preset loader in generate-ai-practice moves into group options
+const ROOT_GROUP_OPTION_KEYS = [
+  "options", "headings", "table_data", "summary_text", "word_bank", "sentence_beginnings",
+  "sentence_endings", "flowchart_title", "flowchart_steps", "map_description", "map_labels",
+  "landmarks", "note_sections", "max_answers", "option_format",
+];
+
+interface GeneratedContent {
+  passage?: { content?: string };
+  dialogue?: string;
+  script?: string;
+  instruction?: string;
+  questions?: unknown[];
+  questionGroups?: unknown[];
+  drag_options?: unknown;
+  schemaVersion?: number;
+  [key: string]: unknown;
+}
+
+// Bulk presets keep the model's flat shape ({ passage, questions, headings, ... }), so
+// they are checked as the single question group the preset loader builds from them.
+function toQuestionGroupView(content: GeneratedContent, questionType: string): Record<string, unknown> {
+  const options: Record<string, unknown> = {};
+  for (const key of ROOT_GROUP_OPTION_KEYS) {
+    if (content[key] !== undefined) options[key] = content[key];
+  }
+  if (Array.isArray(content.drag_options)) options.options = content.drag_options;
+
+  const questions = Array.isArray(content.questions) ? content.questions : [];
+  return {
+    id: "bulk",
+    instruction: String(content.instruction ?? ""),
+    question_type: questionType,
+    start_question: 1,
+    end_question: Math.max(1, questions.length),
+    options,
+    questions,
+  };
+}
+
+// Validate generated content against the shared schema before it is saved, asking the
+// model to repair failing question groups. Throws when the content is still invalid.
+async function validateBulkContent(module: string, questionType: string, content: GeneratedContent): Promise<void> {
+  if (module !== "reading" && module !== "listening") {
+    // Speaking presets use the part1/part2/part3 shape the client converts on load;
+    // writing is checked once its writingTask has been built.
+    return;
+  }
+
+  const hasGroups = Array.isArray(content.questionGroups) && content.questionGroups.length > 0;
+  const groups = hasGroups ? content.questionGroups! : [toQuestionGroupView(content, questionType)];
+  const buildPayload = (questionGroups: unknown[]) => ({
+    passage: content.passage,
+    transcript: content.dialogue || content.script || null,
+    questionGroups,
+  });
+
+  let validation = validateGeneratedTest(module, buildPayload(groups));
+  if (!validation.valid && validation.invalidGroups.length > 0) {
+    console.warn(`[schema] Bulk ${module} content failed validation:\n${formatGeneratedTestIssues(validation.issues)}`);
+    const repair = await repairQuestionGroups(
+      groups,
+      validation.invalidGroups,
+      async (prompt) => {
+        try {
+          return (await callContentModel({ prompt, timeoutMs: 90_000 })).text;
+        } catch (err) {
+          console.error("[schema] Repair call failed:", err instanceof Error ? err.message : err);
+          return null;
+        }
       },
-      90_000
+      content.passage?.content || content.dialogue || content.script || ""
     );
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      const callEnd = Date.now() - callStart;
-      
-      // Log appropriate error type
-      const isQuota = response.status === 429 || 
-                      errorText.toLowerCase().includes('quota') ||
-                      errorText.toLowerCase().includes('resource_exhausted');
-      
-      if (isQuota) {
-        await perfLogger.logQuotaExceeded(modelName, errorText.slice(0, 200));
-      } else {
-        await perfLogger.logError(modelName, `HTTP ${response.status}: ${errorText.slice(0, 100)}`, callEnd);
+    if (hasGroups) {
+      content.questionGroups = repair.groups;
+    } else {
+      // Write the repaired group back into the flat shape
+      const repaired = repair.groups[0] as { questions?: unknown[]; options?: Record<string, unknown> };
+      content.questions = repaired.questions;
+      for (const [key, value] of Object.entries(repaired.options ?? {})) {
+        if (ROOT_GROUP_OPTION_KEYS.includes(key)) content[key] = value;
       }
-      
-      throw new Error(`AI generation failed: ${response.status} - ${errorText.slice(0, 200)}`);
     }
+    validation = validateGeneratedTest(module, buildPayload(repair.groups));
+  }
 
-    const data = await response.json();
-    const contentText = data.choices?.[0]?.message?.content;
-
-    if (!contentText) {
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logError(modelName, 'Empty AI response', callEnd);
-      throw new Error("Empty AI response");
-    }
+  if (!validation.valid) {
+    throw new Error(`Generated content failed validation: ${formatGeneratedTestIssues(validation.issues, 3)}`);
+  }
+  content.schemaVersion = GENERATED_TEST_SCHEMA_VERSION;
+}
 
-    // Parse JSON from response
-    let jsonContent = contentText;
-    if (contentText.includes("```json")) {
-      jsonContent = contentText.replace(/```json\n?/g, "").replace(/```\n?/g, "");
-    } else if (contentText.includes("```")) {
-      jsonContent = contentText.replace(/```\n?/g, "");
-    }
+// Generate content for one test and parse the JSON response
+async function generateContent(
+  module: string,
+  topic: string,
+  difficulty: string,
+  questionType: string,
+  monologue: boolean,
+  voiceName?: string,
+  writingConfig?: any
+): Promise<any> {
+  const prompt = getPromptForModule(module, topic, difficulty, questionType, monologue, voiceName, writingConfig);
 
-    try {
-      const result = JSON.parse(jsonContent.trim());
-      
-      // Log success
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logSuccess(modelName, callEnd);
-      
-      return result;
-    } catch (parseError) {
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logError(modelName, 'JSON parse failed', callEnd);
-      console.error("JSON parse error:", parseError, "Content:", jsonContent.slice(0, 500));
-      throw new Error("Failed to parse AI response as JSON");
-    }
+  let result: LLMGenerateResult;
+  try {
+    result = await callContentModel({
+      systemPrompt:
+        "You are an expert IELTS test creator. Generate high-quality, authentic exam content. Always respond with valid JSON only, no markdown code blocks.",
+      prompt,
+      timeoutMs: 90_000,
+    });
   } catch (err) {
-    // If error wasn't already logged, log it now
-    if (err instanceof Error && !err.message.includes('AI generation failed') && !err.message.includes('Empty AI response') && !err.message.includes('Failed to parse')) {
-      const callEnd = Date.now() - callStart;
-      await perfLogger.logError(modelName, err.message, callEnd);
-    }
-    throw err;
+    const status = err instanceof LLMProviderError ? err.status : 0;
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`AI generation failed: ${status} - ${message.slice(0, 200)}`);
+  }
+
+  // Parse JSON from response
+  const contentText = result.text;
+  let jsonContent = contentText;
+  if (contentText.includes("```json")) {
+    jsonContent = contentText.replace(/```json\n?/g, "").replace(/```\n?/g, "");
+  } else if (contentText.includes("```")) {
+    jsonContent = contentText.replace(/```\n?/g, "");
+  }
+
+  try {
+    return JSON.parse(jsonContent.trim());
+  } catch (parseError) {
+    console.error("JSON parse error:", parseError, "Content:", jsonContent.slice(0, 500));
+    throw new Error("Failed to parse AI response as JSON");
   }
 }
 
@@ -1562,7 +1605,7 @@ function getWritingPrompt(topic: string, difficulty: string, taskType: string, w
     } else {
       // For bulk generation, default to chart types only (BAR, LINE, PIE, TABLE, MIXED_CHARTS)
       const chartTypes = ['BAR_CHART', 'LINE_GRAPH', 'PIE_CHART', 'TABLE', 'MIXED_CHARTS'];
-      visualTypeToUse = chartTypes[Math.floor(Math.random() * chartTypes.length)];
+      visualTypeToUse = chartTypes[Math.floor(promptRandom.next() * chartTypes.length)];
     }
 
     console.log(`[Writing Task 1] Using visual type: ${visualTypeToUse}`);
@@ -1704,7 +1747,7 @@ function getWritingPrompt(topic: string, difficulty: string, taskType: string, w
     }
 
     // Add uniqueness seed for variety
-    const uniquenessSeed = crypto.randomUUID().slice(0, 8);
+    const uniquenessSeed = promptRandom.seed();
     const dataContexts = [
       'statistics from a government survey',
       'data from a university research study',
@@ -1713,7 +1756,7 @@ function getWritingPrompt(topic: string, difficulty: string, taskType: string, w
       'data collected over the past decade',
       'comparative statistics across countries',
     ];
-    const selectedContext = dataContexts[Math.floor(Math.random() * dataContexts.length)];
+    const selectedContext = dataContexts[Math.floor(promptRandom.next() * dataContexts.length)];
 
     // Return prompt that EXACTLY matches generate-ai-practice structure
     return `You are a data analyst. Generate an IELTS Academic Writing Task 1 with BOTH the essay question AND the chart/diagram data.
@@ -1745,7 +1788,7 @@ IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visual
     // Task 2 prompt
     const essayTypeToUse = writingConfig?.task2EssayType && writingConfig.task2EssayType !== 'RANDOM'
       ? writingConfig.task2EssayType
-      : ['OPINION', 'DISCUSSION', 'PROBLEM_SOLUTION', 'ADVANTAGES_DISADVANTAGES', 'TWO_PART_QUESTION'][Math.floor(Math.random() * 5)];
+      : ['OPINION', 'DISCUSSION', 'PROBLEM_SOLUTION', 'ADVANTAGES_DISADVANTAGES', 'TWO_PART_QUESTION'][Math.floor(promptRandom.next() * 5)];
 
     const essayFormatGuide: Record<string, string> = {
       'OPINION': 'To what extent do you agree or disagree?',
@@ -1756,7 +1799,7 @@ IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visual
     };
 
     // Add uniqueness for Task 2
-    const task2UniquenessSeed = crypto.randomUUID().slice(0, 8);
+    const task2UniquenessSeed = promptRandom.seed();
     const perspectiveAngles = [
       'Consider this from both individual and societal perspectives.',
       'Think about short-term and long-term implications.',
@@ -1765,7 +1808,7 @@ IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visual
       'Explore both traditional and modern perspectives on this issue.',
       'Consider local, national, and global dimensions of this topic.',
     ];
-    const selectedPerspective = perspectiveAngles[Math.floor(Math.random() * perspectiveAngles.length)];
+    const selectedPerspective = perspectiveAngles[Math.floor(promptRandom.next() * perspectiveAngles.length)];
 
     return `Generate an IELTS Academic Writing Task 2.
 
@@ -1799,7 +1842,7 @@ Return this EXACT JSON structure:
 
 function getSpeakingPrompt(topic: string, difficulty: string, questionType: string): string {
   // Add uniqueness seed and thematic angles to ensure variety
-  const uniquenessSeed = crypto.randomUUID().slice(0, 8);
+  const uniquenessSeed = promptRandom.seed();
   const randomAngles = [
     'personal experiences and childhood memories',
     'social and cultural perspectives',
@@ -1810,7 +1853,7 @@ function getSpeakingPrompt(topic: string, difficulty: string, questionType: stri
     'environmental and sustainability considerations',
     'economic and financial aspects',
   ];
-  const selectedAngle = randomAngles[Math.floor(Math.random() * randomAngles.length)];
+  const selectedAngle = randomAngles[Math.floor(promptRandom.next() * randomAngles.length)];
   
   const questionVariety = [
     'Include questions starting with "When", "Where", "Who", "How", not just "Do you" or "What".',
@@ -1818,7 +1861,7 @@ function getSpeakingPrompt(topic: string, difficulty: string, questionType: stri
     'Include comparison questions ("How has X changed over the years?").',
     'Add preference questions ("Which do you prefer...and why?").',
   ];
-  const selectedVariety = questionVariety[Math.floor(Math.random() * questionVariety.length)];
+  const selectedVariety = questionVariety[Math.floor(promptRandom.next() * questionVariety.length)];
 
   // CRITICAL: Strict sample_answers enforcement for all speaking parts
   const sampleAnswerEnforcement = `
@@ -2043,16 +2086,17 @@ async function generateGeminiTtsDirect(
         const errorText = await resp.text();
         console.error(`Gemini TTS error with key ${keyRecord.id}:`, resp.status, errorText.slice(0, 200));
         
-        // Check if this is a PERMANENT daily quota exhaustion (not just rate limit)
-        if (isPermanentQuotaError(errorText)) {
+        // Same error classification as the text models (see _shared/llmProvider.ts)
+        const { kind, dailyQuota } = classifyLLMError(resp.status, errorText);
+        if (dailyQuota) {
           console.log(`Key ${keyRecord.id} hit permanent TTS quota limit, marking as exhausted for ${TTS_MODEL}`);
           await markTTSQuotaExhausted(supabaseServiceClient, keyRecord.id);
-        } else if (isQuotaExhaustedError(resp.status, errorText)) {
+        } else if (kind === 'quota' || kind === 'rate_limit') {
           // Rate limit - just log and continue to next key
           console.log(`Key ${keyRecord.id} hit rate limit for TTS, trying next key`);
         } else {
           // Track error for this key - deactivate on auth errors
-          await incrementKeyErrorCount(supabaseServiceClient, keyRecord.id, resp.status === 401 || resp.status === 403);
+          await incrementKeyErrorCount(supabaseServiceClient, keyRecord.id, kind === 'invalid_key' || kind === 'permission');
         }
         
         lastError = new Error(`Gemini TTS failed (${resp.status})`);
@@ -2149,18 +2193,18 @@ ${text}`;
           errorText.slice(0, 200)
         );
         
-        // Check if this is a PERMANENT daily quota exhaustion (not just rate limit)
-        if (isPermanentQuotaError(errorText)) {
+        const { kind, dailyQuota } = classifyLLMError(resp.status, errorText);
+        if (dailyQuota) {
           console.log(`Key ${keyRecord.id} hit permanent TTS quota limit, marking as exhausted for ${TTS_MODEL}`);
           await markTTSQuotaExhausted(supabaseServiceClient, keyRecord.id);
-        } else if (isQuotaExhaustedError(resp.status, errorText)) {
+        } else if (kind === 'quota' || kind === 'rate_limit') {
           // Rate limit - just log and continue to next key
           console.log(`Key ${keyRecord.id} hit rate limit for TTS (multi-speaker), trying next key`);
         } else {
           await incrementKeyErrorCount(
             supabaseServiceClient,
             keyRecord.id,
-            resp.status === 401 || resp.status === 403
+            kind === 'invalid_key' || kind === 'permission'
           );
         }
         
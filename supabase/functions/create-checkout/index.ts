@@ -0,0 +1,242 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  BillingConfigError,
+  BillingProvider,
+  CheckoutRequest,
+  checkoutReference,
+  getBillingProvider,
+} from "../_shared/billing.ts";
+
+/**
+ * Checkout (signed-in users)
+ *
+ *   { kind: 'subscription', planSlug, returnUrl, promoCode? }
+ *   { kind: 'credit_pack', packId, returnUrl }
+ *
+ * Creates a pending subscription or credit purchase and a checkout session
+ * with the billing provider, and returns { url } to redirect to. The provider
+ * sends the user back to returnUrl with ?status=success or ?status=cancelled;
+ * nothing is granted until billing-webhook hears the payment went through.
+ * A discount promoCode lowers the first payment; an unusable code is a 400
+ * with the reason in errorType. BILLING_PROVIDER picks the provider (required;
+ * 'fake' also needs BILLING_ALLOW_FAKE=true) and BILLING_WEBHOOK_SECRET signs
+ * its webhooks.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function returnUrls(returnUrl: string, kind: string): { successUrl: string; cancelUrl: string } | null {
+  let url: URL;
+  try {
+    url = new URL(returnUrl);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return null;
+
+  const withStatus = (status: string) => {
+    const target = new URL(url);
+    target.searchParams.set('status', status);
+    target.searchParams.set('kind', kind);
+    return target.toString();
+  };
+  return { successUrl: withStatus('success'), cancelUrl: withStatus('cancelled') };
+}
+
+async function openCheckout(
+  provider: BillingProvider,
+  serviceClient: SupabaseClient,
+  table: 'subscriptions' | 'credit_purchases',
+  rowId: string,
+  request: CheckoutRequest
+): Promise<Response> {
+  try {
+    const session = await provider.createCheckoutSession(request);
+    const { error } = await serviceClient
+      .from(table)
+      .update({ provider_checkout_id: session.id })
+      .eq('id', rowId);
+    if (error) throw error;
+    return jsonResponse({ url: session.url });
+  } catch (error) {
+    console.error(`[create-checkout] ${provider.name} checkout failed:`, error);
+    await serviceClient
+      .from(table)
+      .update({ status: table === 'subscriptions' ? 'expired' : 'failed' })
+      .eq('id', rowId);
+    if (table === 'subscriptions') {
+      // Give the promotion code's use back
+      await serviceClient
+        .from('promotion_redemptions')
+        .update({ status: 'cancelled' })
+        .eq('subscription_id', rowId)
+        .eq('status', 'pending');
+    }
+    return jsonResponse({ error: "Could not start checkout. Please try again." }, 502);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await serviceClient.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid token" }, 401);
+    }
+
+    const body = await req.json();
+    const kind = body.kind === 'subscription' || body.kind === 'credit_pack' ? body.kind : null;
+    const urls = typeof body.returnUrl === 'string' && kind ? returnUrls(body.returnUrl, kind) : null;
+    if (!kind || !urls) {
+      return jsonResponse({ error: "kind and returnUrl are required" }, 400);
+    }
+
+    let provider: BillingProvider;
+    try {
+      provider = getBillingProvider(
+        Deno.env.get("BILLING_PROVIDER"),
+        Deno.env.get("BILLING_WEBHOOK_SECRET") ?? "",
+        Deno.env.get("BILLING_ALLOW_FAKE") === "true"
+      );
+    } catch (error) {
+      if (!(error instanceof BillingConfigError)) throw error;
+      console.error(`[create-checkout] ${error.message}`);
+      return jsonResponse({ error: "Billing is not configured" }, 500);
+    }
+
+    if (kind === 'subscription') {
+      const { data: tier, error: tierError } = await serviceClient
+        .from('plan_tiers')
+        .select('id, name, price, currency, duration_days')
+        .eq('slug', typeof body.planSlug === 'string' ? body.planSlug : '')
+        .eq('is_active', true)
+        .maybeSingle();
+      if (tierError) throw tierError;
+      if (!tier || !(tier.price > 0) || !tier.duration_days) {
+        return jsonResponse({ error: "This plan cannot be bought" }, 404);
+      }
+
+      let firstPayment = tier.price;
+      let redemptionId: string | null = null;
+      const promoCode = typeof body.promoCode === 'string' ? body.promoCode.trim() : '';
+      if (promoCode) {
+        const { data: claim, error: claimError } = await serviceClient.rpc('claim_promotion_code', {
+          p_user_id: user.id,
+          p_code: promoCode,
+          p_plan_tier_id: tier.id,
+        });
+        if (claimError) throw claimError;
+        if (!claim?.ok) {
+          return jsonResponse({ error: "This promotion code cannot be used", errorType: claim?.error_type }, 400);
+        }
+        redemptionId = claim.redemption_id;
+        firstPayment = Math.round(tier.price * (100 - claim.percent_off)) / 100;
+      }
+
+      // Active from the first payment; until then it gives no access
+      const now = new Date().toISOString();
+      const { data: subscription, error: insertError } = await serviceClient
+        .from('subscriptions')
+        .insert({
+          user_id: user.id,
+          plan_name: tier.name,
+          plan_tier_id: tier.id,
+          price: firstPayment,
+          status: 'pending',
+          start_date: now,
+          end_date: now,
+          provider: provider.name,
+        })
+        .select('id')
+        .single();
+      if (insertError) {
+        if (redemptionId) {
+          await serviceClient.from('promotion_redemptions').update({ status: 'cancelled' }).eq('id', redemptionId);
+        }
+        throw insertError;
+      }
+
+      if (redemptionId) {
+        const { error: linkError } = await serviceClient
+          .from('promotion_redemptions')
+          .update({ subscription_id: subscription.id, discount_amount: tier.price - firstPayment })
+          .eq('id', redemptionId);
+        if (linkError) throw linkError;
+      }
+
+      return await openCheckout(provider, serviceClient, 'subscriptions', subscription.id, {
+        reference: checkoutReference('subscription', subscription.id),
+        itemName: tier.name,
+        amount: tier.price,
+        ...(redemptionId ? { firstPaymentAmount: firstPayment } : {}),
+        currency: tier.currency,
+        intervalDays: tier.duration_days,
+        customerEmail: user.email,
+        ...urls,
+      });
+    }
+
+    const { data: pack, error: packError } = await serviceClient
+      .from('credit_packs')
+      .select('id, name, credits, price, currency')
+      .eq('id', typeof body.packId === 'string' ? body.packId : '')
+      .eq('is_active', true)
+      .maybeSingle();
+    if (packError) throw packError;
+    if (!pack || !(pack.price > 0)) {
+      return jsonResponse({ error: "This credit pack cannot be bought" }, 404);
+    }
+
+    const { data: purchase, error: insertError } = await serviceClient
+      .from('credit_purchases')
+      .insert({
+        user_id: user.id,
+        pack_id: pack.id,
+        credits: pack.credits,
+        price: pack.price,
+        currency: pack.currency,
+        provider: provider.name,
+      })
+      .select('id')
+      .single();
+    if (insertError) throw insertError;
+
+    return await openCheckout(provider, serviceClient, 'credit_purchases', purchase.id, {
+      reference: checkoutReference('credit_pack', purchase.id),
+      itemName: pack.name,
+      amount: pack.price,
+      currency: pack.currency,
+      customerEmail: user.email,
+      ...urls,
+    });
+  } catch (error: unknown) {
+    console.error("[create-checkout] Error:", error);
+    const message = error instanceof Error ? error.message : "Unknown error";
+    return jsonResponse({ error: message }, 500);
+  }
+});
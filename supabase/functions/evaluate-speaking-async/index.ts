@@ -45,6 +45,12 @@ interface EvaluationRequest {
     durationMs: number;
     overallClarityScore: number;
   }>;
+  // Live examiner: the questions actually asked (follow-ups included), in the speakingParts shape
+  askedQuestions?: Array<{
+    part_number: number;
+    questions: Array<{ id: string; question_number: number; question_text: string }>;
+    [key: string]: unknown;
+  }>;
 }
 
 serve(async (req) => {
@@ -75,7 +81,7 @@ serve(async (req) => {
     }
 
     const body: EvaluationRequest = await req.json();
-    const { testId, filePaths, durations, topic, difficulty, fluencyFlag, retryJobId, cancelExisting, transcripts, evaluationMode } = body;
+    const { testId, filePaths, durations, topic, difficulty, fluencyFlag, retryJobId, cancelExisting, transcripts, evaluationMode, askedQuestions } = body;
 
     // Determine evaluation path based on mode
     // 'accuracy' mode forces audio-based evaluation (uses more AI tokens but more accurate)
@@ -207,6 +213,7 @@ serve(async (req) => {
           // Store transcripts for text-based evaluation (only for basic mode)
           // For accuracy mode, transcripts are intentionally not stored to force audio evaluation
           partial_results: (!useAudioEvaluation && hasTranscripts) ? { transcripts, evaluationMode } : { evaluationMode },
+          asked_questions: Array.isArray(askedQuestions) && askedQuestions.length > 0 ? askedQuestions : null,
         })
         .select()
         .single();
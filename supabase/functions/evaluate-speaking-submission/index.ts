@@ -1,41 +1,49 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
-import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai@0.21.0";
-import { 
-  getActiveGeminiKeysForModel, 
-  markKeyQuotaExhausted,
-  isQuotaExhaustedError
-} from "../_shared/apiKeyQuotaUtils.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getActiveGeminiKeysForModels } from "../_shared/apiKeyQuotaUtils.ts";
 import { getFromR2 } from "../_shared/r2Client.ts";
+import { isFixtureReplay, recordFixture, replayFixture } from "../_shared/llmFixtures.ts";
+import { getPlanModelTiers } from "../_shared/credits.ts";
+import { describeTarget, getModelChain, LLMAudio, requiresGeminiKey, restrictToPlan } from "../_shared/llmProvider.ts";
+import {
+  bytesToBase64,
+  evaluateSpeaking,
+  SpeakingEvaluationError,
+  SpeakingKeyCandidate,
+} from "../_shared/speakingEvaluation.ts";
 import {
   decryptKey,
-  uploadToGoogleFileAPI,
-  parseJson,
-  extractRetryAfterSeconds,
-  sleep,
   calculateBandFromCriteria,
   computeWeightedPartBand,
   validateEvaluationResult,
   normalizeGeminiResponse,
   corsHeaders,
-  QuotaError,
 } from "../_shared/speakingUtils.ts";
 
 /**
  * OPTIMIZED Speaking Evaluation Edge Function for Cambridge Tests
  * 
- * Uses Google File API for audio uploads to avoid base64 token bloat.
+ * Sends the recordings inline to the evaluate_speaking model chain (see _shared/speakingEvaluation.ts).
  * Applies prompt optimizations for ~35% token reduction.
  */
 
-const GEMINI_MODELS = ['gemini-2.5-flash'];
+// Default chain; LLM_MODELS_EVALUATE_SPEAKING overrides it
+const SPEAKING_MODELS = ['gemini-2.5-flash'];
+
+// The normalized evaluation; only the fields read here are typed, the rest is stored as returned
+interface SpeakingReport {
+  overall_band?: number | null;
+  part_scores?: { part1?: number; part2?: number; part3?: number };
+  criteria?: Record<string, unknown>;
+  transcripts_by_part?: unknown;
+  transcripts_by_question?: unknown;
+  [key: string]: unknown;
+}
 
-function isPermanentQuotaExhausted(err: any): boolean {
-  const msg = String(err?.message || err || '').toLowerCase();
-  if (msg.includes('check your plan') || msg.includes('billing')) return true;
-  if (msg.includes('limit: 0')) return true;
-  if (msg.includes('per day') && !msg.includes('retry')) return true;
-  return false;
+// What a recorded speaking fixture holds
+interface SpeakingFixture {
+  model: string;
+  result: SpeakingReport;
 }
 
 // OPTIMIZED prompt with reduced word counts for model answers
@@ -221,6 +229,48 @@ function computeOverallBandFromQuestionBands(result: any): number | null {
   return Math.min(9, Math.max(1, rounded));
 }
 
+interface SpeakingQuestionGroupRow {
+  part_number: number;
+  cue_card_topic: string | null;
+  cue_card_content: string | null;
+  speaking_questions: { id: string; question_number: number; question_text: string }[] | null;
+}
+
+// The questions of the official test behind a speaking submission, in the
+// speakingParts shape the prompt and segment mapping read
+async function loadOfficialTest(supabaseService: SupabaseClient, submissionId: string, userId: string) {
+  const { data: submission } = await supabaseService
+    .from('speaking_submissions')
+    .select('test_id')
+    .eq('id', submissionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!submission) return null;
+
+  const [{ data: test }, { data: groups }] = await Promise.all([
+    supabaseService.from('speaking_tests').select('name').eq('id', submission.test_id).maybeSingle(),
+    supabaseService
+      .from('speaking_question_groups')
+      .select('part_number, cue_card_topic, cue_card_content, speaking_questions(id, question_number, question_text)')
+      .eq('test_id', submission.test_id)
+      .order('part_number'),
+  ]);
+
+  return {
+    payload: {
+      speakingParts: ((groups ?? []) as SpeakingQuestionGroupRow[]).map((g) => ({
+        part_number: g.part_number,
+        cue_card_topic: g.cue_card_topic,
+        cue_card_content: g.cue_card_content,
+        questions: g.speaking_questions || [],
+      })),
+    },
+    topic: test?.name ?? null,
+    difficulty: null,
+    preset_id: null,
+  };
+}
+
 serve(async (req) => {
   console.log(`[evaluate-speaking-submission] Request at ${new Date().toISOString()}`);
   
@@ -250,26 +300,34 @@ serve(async (req) => {
       });
     }
 
-    const { testId, filePaths, durations, topic, difficulty, fluencyFlag } = await req.json();
+    // testId: an AI practice test, scored into ai_practice_results.
+    // submissionId: an official test attempt in speaking_submissions, scored onto that row.
+    const { testId, submissionId, filePaths, durations, topic, difficulty, fluencyFlag } = await req.json();
 
-    if (!testId || !filePaths || Object.keys(filePaths).length === 0) {
+    if ((!testId && !submissionId) || !filePaths || Object.keys(filePaths).length === 0) {
       return new Response(JSON.stringify({ error: 'Missing testId or filePaths', code: 'BAD_REQUEST' }), {
         status: 400,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
 
-    console.log(`[evaluate-speaking-submission] ${Object.keys(filePaths).length} files for test ${testId}`);
+    console.log(`[evaluate-speaking-submission] ${Object.keys(filePaths).length} files for ${submissionId ? `submission ${submissionId}` : `test ${testId}`}`);
 
     // Fetch test payload
-    const { data: testRow, error: testError } = await supabaseService
-      .from('ai_practice_tests')
-      .select('payload, topic, difficulty, preset_id')
-      .eq('id', testId)
-      .eq('user_id', user.id)
-      .maybeSingle();
-
-    if (testError || !testRow) {
+    let testRow: { payload: unknown; topic: string | null; difficulty: string | null; preset_id: string | null } | null = null;
+    if (submissionId) {
+      testRow = await loadOfficialTest(supabaseService, submissionId, user.id);
+    } else {
+      const { data } = await supabaseService
+        .from('ai_practice_tests')
+        .select('payload, topic, difficulty, preset_id')
+        .eq('id', testId)
+        .eq('user_id', user.id)
+        .maybeSingle();
+      testRow = data;
+    }
+
+    if (!testRow) {
       return new Response(JSON.stringify({ error: 'Test not found', code: 'TEST_NOT_FOUND' }), {
         status: 404,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -325,8 +383,7 @@ serve(async (req) => {
     });
 
     // Build API key queue
-    interface KeyCandidate { key: string; keyId: string | null; isUserProvided: boolean; }
-    const keyQueue: KeyCandidate[] = [];
+    const keyQueue: SpeakingKeyCandidate[] = [];
 
     const headerApiKey = req.headers.get('x-gemini-api-key');
     if (headerApiKey) {
@@ -349,12 +406,15 @@ serve(async (req) => {
       }
     }
 
-    const dbApiKeys = await getActiveGeminiKeysForModel(supabaseService, 'flash_2_5');
+    // Model chain: LLM_MODELS_EVALUATE_SPEAKING, see _shared/llmProvider.ts
+    const evaluationModels = getModelChain('evaluate_speaking', SPEAKING_MODELS);
+    const geminiModels = evaluationModels.filter((target) => target.provider === 'gemini').map((target) => target.model);
+    const dbApiKeys = geminiModels.length > 0 ? await getActiveGeminiKeysForModels(supabaseService, geminiModels) : [];
     for (const dbKey of dbApiKeys) {
       keyQueue.push({ key: dbKey.key_value, keyId: dbKey.id, isUserProvided: false });
     }
 
-    if (keyQueue.length === 0) {
+    if (keyQueue.length === 0 && requiresGeminiKey(evaluationModels)) {
       return new Response(JSON.stringify({ error: 'No API key available', code: 'API_KEY_NOT_FOUND' }), {
         status: 403,
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -363,143 +423,75 @@ serve(async (req) => {
 
     console.log(`[evaluate-speaking-submission] ${keyQueue.length} keys available`);
 
-    // Download files from R2
-    const audioFiles: { key: string; bytes: Uint8Array; mimeType: string }[] = [];
+    // Download files from R2 (replayed fixtures never look at the audio)
+    const audioFiles: LLMAudio[] = [];
     
-    for (const [audioKey, r2Path] of Object.entries(filePaths as Record<string, string>)) {
-      const result = await getFromR2(r2Path);
-      if (!result.success || !result.bytes) {
-        throw new Error(`Failed to download from R2: ${result.error}`);
+    if (!isFixtureReplay()) {
+      for (const r2Path of Object.values(filePaths as Record<string, string>)) {
+        const result = await getFromR2(r2Path);
+        if (!result.success || !result.bytes) {
+          throw new Error(`Failed to download from R2: ${result.error}`);
+        }
+        const ext = r2Path.split('.').pop()?.toLowerCase() || 'webm';
+        const mimeType = ext === 'mp3' ? 'audio/mpeg' : 'audio/webm';
+        audioFiles.push({ mimeType, data: bytesToBase64(result.bytes) });
       }
-      const ext = r2Path.split('.').pop()?.toLowerCase() || 'webm';
-      const mimeType = ext === 'mp3' ? 'audio/mpeg' : 'audio/webm';
-      audioFiles.push({ key: audioKey, bytes: result.bytes, mimeType });
-    }
 
-    console.log(`[evaluate-speaking-submission] Downloaded ${audioFiles.length} files`);
+      console.log(`[evaluate-speaking-submission] Downloaded ${audioFiles.length} files`);
+    }
 
     const prompt = buildPrompt(payload, topic || testRow.topic, difficulty || testRow.difficulty, fluencyFlag, orderedSegments);
 
-    // Evaluation loop
-    let evaluationResult: any = null;
-    let usedModel: string | null = null;
-    let usedKey: KeyCandidate | null = null;
-    let bestRetryAfterSeconds: number | null = null;
-    let sawTemporaryRateLimit = false;
-
-    for (const candidateKey of keyQueue) {
-      if (evaluationResult) break;
+    // Recorded evaluations are keyed by the prompt and segment names, not the audio bytes
+    const fixtureMaterial = { prompt, segments: Object.keys(filePaths as Record<string, string>).sort() };
+    const replayed = await replayFixture<SpeakingFixture>('speaking', fixtureMaterial);
 
+    let evaluationResult: SpeakingReport;
+    if (replayed) {
+      evaluationResult = replayed.result;
+    } else {
+      let usedModel: string;
       try {
-        const genAI = new GoogleGenerativeAI(candidateKey.key);
-
-        // Upload to Google File API
-        const fileUris: Array<{ fileData: { mimeType: string; fileUri: string } }> = [];
-        
-        for (const audioFile of audioFiles) {
-          const uploadResult = await uploadToGoogleFileAPI(candidateKey.key, audioFile.bytes, `${audioFile.key}.webm`, audioFile.mimeType);
-          fileUris.push({ fileData: { mimeType: uploadResult.mimeType, fileUri: uploadResult.uri } });
-        }
-
-        for (const modelName of GEMINI_MODELS) {
-          if (evaluationResult) break;
-
-          const model = genAI.getGenerativeModel({ 
-            model: modelName,
-            generationConfig: { temperature: 0.3, maxOutputTokens: 65000 },
-          });
-
-          const contentParts: any[] = [...fileUris, { text: prompt }];
-          let lastQuotaError: QuotaError | null = null;
-
-          for (let attempt = 0; attempt < 2; attempt++) {
-            try {
-              const result = await model.generateContent({ contents: [{ role: 'user', parts: contentParts }] });
-              const responseText = result.response?.text();
-              
-              if (responseText) {
-                const parsed = parseJson(responseText);
-                if (parsed) {
-                  const normalized = normalizeGeminiResponse(parsed);
-                  const validation = validateEvaluationResult(normalized, audioFiles.length);
-                  
-                  if (validation.valid) {
-                    evaluationResult = normalized;
-                    usedModel = modelName;
-                    usedKey = candidateKey;
-                    break;
-                  } else {
-                    console.warn(`[evaluate-speaking-submission] Validation issues: ${validation.issues.join(', ')}`);
-                    const overallBand = normalized.overall_band ?? normalized.overallBand;
-                    const hasSomeCriteria = normalized.criteria && Object.keys(normalized.criteria).length > 0;
-                    
-                    if (typeof overallBand === 'number' && overallBand > 0 && hasSomeCriteria) {
-                      evaluationResult = normalized;
-                      usedModel = modelName;
-                      usedKey = candidateKey;
-                      break;
-                    }
-                  }
-                }
-              }
-              break;
-            } catch (modelError: any) {
-              const msg = String(modelError?.message || modelError);
-              const isQuotaLike = isQuotaExhaustedError(modelError) || modelError?.status === 429 || modelError?.status === 403;
-
-              if (!isQuotaLike) break;
-
-              const retryAfter = extractRetryAfterSeconds(modelError);
-              const permanent = isPermanentQuotaExhausted(modelError) || retryAfter === undefined;
-
-              if (!permanent && retryAfter && retryAfter > 0 && attempt === 0) {
-                sawTemporaryRateLimit = true;
-                bestRetryAfterSeconds = bestRetryAfterSeconds === null ? retryAfter : Math.min(bestRetryAfterSeconds, retryAfter);
-                await sleep((retryAfter + 1) * 1000);
-                continue;
-              }
-
-              lastQuotaError = new QuotaError(msg, { permanent, retryAfterSeconds: retryAfter });
-              break;
-            }
-          }
-
-          if (evaluationResult) break;
-          if (lastQuotaError) {
-            if (GEMINI_MODELS[GEMINI_MODELS.length - 1] === modelName) throw lastQuotaError;
-          }
-        }
-
-      } catch (error: any) {
-        if (error instanceof QuotaError) {
-          if (error.permanent && !candidateKey.isUserProvided && candidateKey.keyId) {
-            await markKeyQuotaExhausted(supabaseService, candidateKey.keyId, 'flash_2_5');
-          }
-          if (!error.permanent) {
-            sawTemporaryRateLimit = true;
-            if (typeof error.retryAfterSeconds === 'number') {
-              bestRetryAfterSeconds = bestRetryAfterSeconds === null ? error.retryAfterSeconds : Math.min(bestRetryAfterSeconds, error.retryAfterSeconds);
-            }
+        const evaluated = await evaluateSpeaking<SpeakingReport>(
+          { prompt, audio: audioFiles, maxOutputTokens: 65000 },
+          {
+            models: evaluationModels,
+            // Pool keys stay within the plan's model tiers
+            poolModels: restrictToPlan(evaluationModels, await getPlanModelTiers(supabaseService, user.id)),
+            keys: keyQueue,
+            serviceClient: supabaseService,
+            fixtureMode: 'off',
+            label: 'evaluate-speaking-submission',
+            accept: (parsed) => {
+              if (!parsed) return null;
+              const normalized: SpeakingReport = normalizeGeminiResponse(parsed);
+              const validation = validateEvaluationResult(normalized, audioFiles.length);
+              if (validation.valid) return normalized;
+              console.warn(`[evaluate-speaking-submission] Validation issues: ${validation.issues.join(', ')}`);
+              // A partial report with a band and some criteria is still worth keeping
+              const overallBand = normalized.overall_band ?? normalized.overallBand;
+              const hasSomeCriteria = normalized.criteria && Object.keys(normalized.criteria).length > 0;
+              return typeof overallBand === 'number' && overallBand > 0 && hasSomeCriteria ? normalized : null;
+            },
           }
-          continue;
+        );
+        evaluationResult = evaluated.evaluation;
+        usedModel = describeTarget(evaluated.result);
+      } catch (err) {
+        console.error('[evaluate-speaking-submission] Evaluation failed:', err instanceof Error ? err.message : err);
+        const retryAfter = err instanceof SpeakingEvaluationError ? err.retryAfterSeconds : null;
+        if (retryAfter !== null) {
+          return new Response(JSON.stringify({ error: `Rate limited. Retry in ~${retryAfter}s.`, code: 'RATE_LIMITED', retryAfterSeconds: retryAfter }), {
+            status: 429,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+          });
         }
-        console.error('[evaluate-speaking-submission] Error:', error?.message);
-        continue;
-      }
-    }
-
-    if (!evaluationResult || !usedModel || !usedKey) {
-      if (sawTemporaryRateLimit) {
-        const retryAfter = bestRetryAfterSeconds ?? 60;
-        return new Response(JSON.stringify({ error: `Rate limited. Retry in ~${retryAfter}s.`, code: 'RATE_LIMITED', retryAfterSeconds: retryAfter }), {
-          status: 429,
-          headers: { ...corsHeaders, 'Content-Type': 'application/json', 'Retry-After': String(retryAfter) },
+        return new Response(JSON.stringify({ error: 'All API keys exhausted', code: 'ALL_KEYS_EXHAUSTED' }), {
+          status: 503,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
-      return new Response(JSON.stringify({ error: 'All API keys exhausted', code: 'ALL_KEYS_EXHAUSTED' }), {
-        status: 503,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
-      });
+      await recordFixture<SpeakingFixture>('speaking', fixtureMaterial, { model: usedModel, result: evaluationResult });
     }
 
     // Calculate band score using weighted part scores if available
@@ -524,6 +516,24 @@ serve(async (req) => {
       }
     }
 
+    // Official attempts keep their report on the submission; the band reaches
+    // assignment results and mock exam sessions from there
+    if (submissionId) {
+      const { error: saveError } = await supabaseService
+        .from('speaking_submissions')
+        .update({ overall_band: overallBand, evaluation_report: evaluationResult })
+        .eq('id', submissionId);
+
+      if (saveError) console.error('[evaluate-speaking-submission] Save error:', saveError);
+
+      console.log(`[evaluate-speaking-submission] Complete, band: ${overallBand}, submission_id: ${submissionId}`);
+
+      return new Response(JSON.stringify({ success: true, overallBand, evaluationReport: evaluationResult, submissionId, audioUrls }), {
+        status: 200,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      });
+    }
+
     // Save result
     const { data: resultRow, error: saveError } = await supabaseService
       .from('ai_practice_results')
@@ -533,7 +543,7 @@ serve(async (req) => {
         module: 'speaking',
         score: Math.round(overallBand * 10),
         band_score: overallBand,
-        total_questions: audioFiles.length,
+        total_questions: Object.keys(filePaths as Record<string, string>).length,
         time_spent_seconds: durations ? Math.round(Object.values(durations as Record<string, number>).reduce((a, b) => a + b, 0)) : 60,
         question_results: evaluationResult,
         answers: {
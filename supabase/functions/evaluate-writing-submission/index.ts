@@ -1,55 +1,24 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { resolveAnnotations } from "../_shared/writingAnnotations.ts";
+import { getWritingSubmissionPromptVariables, WRITING_SUBMISSION_PROMPT } from "../_shared/writingEvaluationPrompt.ts";
+import { renderPrompt } from "../_shared/promptTemplates.ts";
+import { checkAndReserveCredits, refundCredits } from "../_shared/credits.ts";
+import {
+  describeTarget,
+  getModelChain,
+  LLMImage,
+  requiresGeminiKey,
+  restrictToModelTiers,
+} from "../_shared/llmProvider.ts";
+import { evaluateWriting, WRITING_EVALUATION_MODELS, WritingEvaluationResult } from "../_shared/writingEvaluation.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gemini-api-key',
 };
 
-// ============================================================================
-// PERFORMANCE LOGGING - Track AI calls for analytics dashboard
-// ============================================================================
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string,
-  apiKeyId?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: apiKeyId || null,
-      p_model_name: modelName,
-      p_task_type: 'evaluate_writing',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (evaluate_writing)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
-// ============================================================================
-// CREDIT SYSTEM - Cost Map and Daily Limits
-// ============================================================================
-const COSTS = {
-  'generate_speaking': 5,
-  'generate_writing': 5,
-  'generate_listening': 20,
-  'generate_reading': 20,
-  'evaluate_speaking': 15,
-  'evaluate_writing': 10,
-  'evaluate_reading': 0,
-  'evaluate_listening': 0,
-  'explain_answer': 2
-};
-
-const DAILY_CREDIT_LIMIT = 100;
-
 // DB-managed API key interface
 interface ApiKeyRecord {
   id: string;
@@ -80,87 +49,13 @@ async function getActiveGeminiKeys(serviceClient: any): Promise<ApiKeyRecord[]>
   }
 }
 
-// ============================================================================
-// ATOMIC CREDIT FUNCTIONS - Uses DB functions to prevent race conditions
-// ============================================================================
-
-// Check and RESERVE credits atomically BEFORE calling AI
-async function checkAndReserveCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<{ ok: boolean; error?: string; creditsUsed?: number; creditsRemaining?: number }> {
-  const cost = COSTS[operationType] || 0;
-  if (cost === 0) return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  
-  try {
-    const { data, error } = await serviceClient.rpc('check_and_reserve_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('check_and_reserve_credits RPC error:', error);
-      return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-    }
-    
-    console.log(`Credit check result for ${operationType} (cost ${cost}):`, data);
-    
-    if (!data.ok) {
-      return {
-        ok: false,
-        error: data.error || `Daily credit limit reached. Add your own Gemini API key in Settings.`,
-        creditsUsed: data.credits_used,
-        creditsRemaining: data.credits_remaining
-      };
-    }
-    
-    return {
-      ok: true,
-      creditsUsed: data.credits_used,
-      creditsRemaining: data.credits_remaining
-    };
-  } catch (err) {
-    console.error('Error in atomic credit check:', err);
-    return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  }
-}
-
-// Refund credits if the AI operation fails AFTER we reserved them
-async function refundCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<void> {
-  const cost = COSTS[operationType] || 0;
-  if (cost === 0) return;
-  
-  try {
-    const { error } = await serviceClient.rpc('refund_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('refund_credits RPC error:', error);
-    } else {
-      console.log(`Refunded ${cost} credits for failed ${operationType}`);
-    }
-  } catch (err) {
-    console.error('Failed to refund credits:', err);
-  }
-}
-
 // =============================================================================
 // THE CRITIC - Writing Evaluation Models (Split-Brain Architecture)
 // =============================================================================
-// Prioritize "Deep Reasoning" models for essay grading
-// These models excel at nuanced grammar, coherence, and argument analysis
-const GEMINI_MODELS_FALLBACK_ORDER = [
-  'gemini-3-pro-preview', // 1. Primary: Maximum IQ for Grammar/Coherence (Gemini 3.0)
-  'gemini-exp-1206',      // 2. Secondary: High Quality Experimental
-  'gemini-2.5-pro',       // 3. Fallback: Stable Pro model
-];
+// Default chain in _shared/writingEvaluation.ts; LLM_MODELS_EVALUATE_WRITING overrides it
+const GEMINI_MODELS_FALLBACK_ORDER = WRITING_EVALUATION_MODELS.writing_submission;
+// For plans without Pro models
+const FLASH_EVALUATION_MODEL = 'gemini-2.5-flash';
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -199,7 +94,7 @@ serve(async (req) => {
     // 1. Fetch submission details
     const { data: submission, error: submissionError } = await supabaseClient
       .from('writing_submissions')
-      .select('submission_text, task_id, user_id')
+      .select('submission_text, task_id, user_id, parent_submission_id, revision_number')
       .eq('id', submissionId)
       .eq('user_id', user.id) // Ensure user owns the submission
       .single();
@@ -208,6 +103,39 @@ serve(async (req) => {
       throw new Error(submissionError?.message || 'Submission not found or unauthorized.');
     }
 
+    // 1b. For a revised draft, fetch the draft it revises so feedback can address the changes
+    let previousDraft: { submission_text: string; overall_band: number | null; evaluation_report: Record<string, { band?: number }> | null; revision_number: number } | null = null;
+    if (submission.parent_submission_id) {
+      const { data: parent, error: parentError } = await supabaseClient
+        .from('writing_submissions')
+        .select('submission_text, overall_band, evaluation_report, revision_number')
+        .eq('id', submission.parent_submission_id)
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (parentError) {
+        console.error('Error fetching previous draft:', parentError);
+      } else {
+        previousDraft = parent;
+      }
+    }
+
+    const criterionBand = (key: string) => previousDraft?.evaluation_report?.[key]?.band ?? 'n/a';
+    const revisionContext = previousDraft ? `
+    REVISION CONTEXT:
+    This is draft ${submission.revision_number} of the essay. The student has revised their previous draft (draft ${previousDraft.revision_number}), which was evaluated as follows:
+    - Overall Band: ${previousDraft.overall_band ?? 'n/a'}
+    - Task Achievement/Response: ${criterionBand('task_achievement_response')}
+    - Coherence and Cohesion: ${criterionBand('coherence_and_cohesion')}
+    - Lexical Resource: ${criterionBand('lexical_resource')}
+    - Grammatical Range and Accuracy: ${criterionBand('grammatical_range_and_accuracy')}
+
+    Previous Draft:
+    "${previousDraft.submission_text}"
+
+    Score the new draft on its own merits using the same standard - do not raise or lower bands just because it is a revision. In addition, include a "revision_feedback" string in evaluation_report that tells the student which of their changes improved the essay, which did not, and what to focus on in the next revision.
+` : '';
+
     // 2. Fetch the associated task details to get word limits, instruction, text_content, and image_url
     const { data: task, error: taskError } = await supabaseClient
       .from('writing_tasks')
@@ -219,6 +147,14 @@ serve(async (req) => {
       throw new Error(taskError?.message || 'Associated writing task not found.');
     }
 
+    // General Training Task 1 is a letter rather than a report on a visual
+    const { data: writingTest } = await supabaseClient
+      .from('writing_tests')
+      .select('test_type')
+      .eq('id', task.writing_test_id)
+      .maybeSingle();
+    const isLetterTask = task.task_type === 'task1' && writingTest?.test_type === 'general';
+
     // Fetch image as base64 if it's a Task 1 with an image
     let imageBase64: string | null = null;
     if (task.task_type === 'task1' && task.image_url) {
@@ -307,241 +243,98 @@ serve(async (req) => {
       }
     }
     
-    if (!geminiApiKey) {
+    // A chain without Gemini (or replayed fixtures) needs no Gemini key
+    if (!geminiApiKey && requiresGeminiKey(getModelChain('evaluate_writing', GEMINI_MODELS_FALLBACK_ORDER))) {
       throw new Error('No API key available. Please add your Gemini API key in Settings.');
     }
 
     // Credit check and reserve for system pool users (atomic to prevent race conditions)
     let creditsReserved = false;
+    let creditReservationId: string | undefined;
+    let evaluationModels = getModelChain('evaluate_writing', GEMINI_MODELS_FALLBACK_ORDER);
     if (!isUserProvidedKey) {
-      const creditCheck = await checkAndReserveCredits(serviceClient, user.id, 'evaluate_writing');
+      const creditCheck = await checkAndReserveCredits(serviceClient, user.id, 'evaluate_writing', submissionId);
       if (!creditCheck.ok) {
         return new Response(JSON.stringify({ 
           error: creditCheck.error,
-          code: 'CREDIT_LIMIT_EXCEEDED'
+          code: creditCheck.errorType
         }), {
           status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
       creditsReserved = true;
-      console.log(`Credits reserved: ${creditCheck.creditsUsed}/${DAILY_CREDIT_LIMIT}`);
+      creditReservationId = creditCheck.reservationId;
+      const planModels = restrictToModelTiers(evaluationModels, creditCheck.modelTiers);
+      evaluationModels = planModels.length > 0 ? planModels : [{ provider: 'gemini', model: FLASH_EVALUATION_MODEL }];
+      console.log(`Credits reserved (${creditCheck.plan ?? 'unknown'} plan): ${creditCheck.creditsUsed}/${creditCheck.dailyLimit}`);
     }
 
-    // 4. Call Gemini API for evaluation with fallback models
-    let responseText: string | null = null;
-    let usedModel: string | null = null;
-
-    for (const modelName of GEMINI_MODELS_FALLBACK_ORDER) {
-      const startTime = Date.now();
-      console.log(`Attempting evaluation with Gemini model: ${modelName}`);
-      const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${geminiApiKey}`;
-
-      // Move prompt construction inside the loop to access modelName
-      const prompt = `You are an expert IELTS writing examiner and a supportive English teacher. Please provide a detailed evaluation of your student's IELTS ${task.task_type === 'task1' ? 'Task 1 Report' : 'Task 2 Essay'} submission. Focus on offering constructive feedback and an overall band score, speaking directly to the student as their teacher would.
-
-IMPORTANT: Write your feedback as a teacher speaking directly to the student. Use "you" and "your" when addressing them. Do NOT use technical terms like "prompt" - instead say "the question", "the task", or "what was asked". Make the feedback feel like a one-on-one tutoring session.
-
-      ${task.task_type === 'task1' ? `This is an IELTS Task 1 Report. The student's submission should describe a visual (e.g., chart, graph, diagram, map, or process). ${imageBase64 ? 'I have provided the actual image/diagram that the student was asked to describe. Please carefully analyze this visual and evaluate how accurately and comprehensively the student has described it.' : 'Please note that you are NOT provided with the actual image, but the textual instructions and any accompanying text content for the task are given below.'} Evaluate the report based on how well it addresses these requirements.
-
-      Task 1 Instructions:
-      "${task.instruction}"
-      ${task.text_content ? `Additional Task Content: "${task.text_content}"` : ''}` : `This is an IELTS Task 2 Essay. The student's submission should be a response to the essay question provided below.
-
-      Essay Question:
-      "${task.instruction}"
-      ${task.text_content ? `Essay Topic: "${task.text_content}"` : ''}`}
-
-    Student's Submission:
-    "${submission.submission_text}"
-
-    Word Count: ${submission.submission_text.split(/\s+/).filter(Boolean).length}
-    Minimum Word Limit: ${task.word_limit_min}
-    ${task.word_limit_max ? `Maximum Word Limit: ${task.word_limit_max}` : ''}
-
-    Provide your evaluation focusing on the following IELTS criteria. For each criterion, give a band score (from 0 to 9, in 0.5 increments), identify strengths, point out weaknesses, and offer specific suggestions for improvement. Address the student directly using "you" and "your".
-    
-    **When providing strengths, weaknesses, and suggestions, use markdown for emphasis:**
-    -   Wrap **important words or phrases** in double asterisks for bolding (e.g., **strong vocabulary**).
-    -   Wrap ==key terms or examples== in double equals signs for highlighting (e.g., ==cohesive devices==).
-
-    1.  **Task Achievement/Response**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in addressing the task, presenting an overview, and supporting main features.
-        -   **Weaknesses**: Areas where you could improve in fully addressing the task requirements.
-        -   **Suggestions for Improvement**: Actionable advice to enhance your task achievement.
-    2.  **Coherence and Cohesion**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in organizing your response, logical flow, and use of cohesive devices.
-        -   **Weaknesses**: Areas where your organization, paragraphing, or connection between ideas could be clearer.
-        -   **Suggestions for Improvement**: Advice to improve the clarity and connection of your ideas.
-    3.  **Lexical Resource**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in using a range of vocabulary accurately and appropriately.
-        -   **Weaknesses**: Areas where your vocabulary could be more varied, precise, or natural.
-        -   **Suggestions for Improvement**: Advice on expanding your vocabulary and using less common lexical items effectively.
-    4.  **Grammatical Range and Accuracy**:
-        -   **Band**: [0-9, in 0.5 increments]
-        -   **Strengths**: What you did well in using a variety of grammatical structures accurately.
-        -   **Weaknesses**: Common errors or areas where your grammatical control could be improved.
-        -   **Suggestions for Improvement**: Advice to enhance your grammatical range and accuracy.
-    5.  **Overall Suggestions for Improvement**: Offer general actionable advice and strategies you can use to improve your writing for future IELTS tests.
-
-    Also, provide an **Overall Band Score** (from 0 to 9, in 0.5 increments).
-    
-    Format your response as a JSON object with the following structure:
-    {
-      "overall_band": number,
-      "evaluation_report": {
-        "task_achievement_response": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "coherence_and_cohesion": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "lexical_resource": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "grammatical_range_and_accuracy": {
-          "band": number,
-          "strengths": string,
-          "weaknesses": string,
-          "suggestions_for_improvement": string
-        },
-        "overall_suggestions": string
+    // 4. Evaluate with the configured model chain (LLM_MODELS_EVALUATE_WRITING, see _shared/llmProvider.ts)
+    const { prompt, version: promptVersion } = await renderPrompt(serviceClient, WRITING_SUBMISSION_PROMPT, getWritingSubmissionPromptVariables({
+      taskType: task.task_type,
+      isLetterTask,
+      instruction: task.instruction,
+      textContent: task.text_content,
+      submissionText: submission.submission_text,
+      wordLimitMin: task.word_limit_min,
+      wordLimitMax: task.word_limit_max,
+      hasImage: !!imageBase64,
+      revisionContext,
+    }));
+
+    const images: LLMImage[] = [];
+    if (imageBase64) {
+      // Determine image mime type (default to png)
+      let mimeType = 'image/png';
+      if (task.image_url?.includes('.jpg') || task.image_url?.includes('.jpeg')) {
+        mimeType = 'image/jpeg';
+      } else if (task.image_url?.includes('.gif')) {
+        mimeType = 'image/gif';
+      } else if (task.image_url?.includes('.webp')) {
+        mimeType = 'image/webp';
       }
+      images.push({ mimeType, data: imageBase64 });
+      console.log(`Including image in request (${mimeType})`);
     }
-    
-    Ensure your response is ONLY the JSON object, with no additional text or markdown formatting outside of the JSON itself.
-    (Using model: ${modelName})`; // Added model name to prompt for debugging/context
 
-      try {
-        // Build the request body with optional image for Task 1
-        const parts: any[] = [{ text: prompt }];
-        
-        // Include image for vision-enabled evaluation if available
-        if (imageBase64 && task.task_type === 'task1') {
-          // Determine image mime type (default to png)
-          let mimeType = 'image/png';
-          if (task.image_url?.includes('.jpg') || task.image_url?.includes('.jpeg')) {
-            mimeType = 'image/jpeg';
-          } else if (task.image_url?.includes('.gif')) {
-            mimeType = 'image/gif';
-          } else if (task.image_url?.includes('.webp')) {
-            mimeType = 'image/webp';
-          }
-          
-          parts.push({
-            inline_data: {
-              mime_type: mimeType,
-              data: imageBase64
-            }
-          });
-          console.log(`Including image in request (${mimeType})`);
-        }
-
-        const geminiResponse = await fetch(GEMINI_API_URL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            contents: [{ parts }],
-          }),
-        });
-
-        const responseTimeMs = Date.now() - startTime;
-
-        if (geminiResponse.ok) {
-          const geminiData = await geminiResponse.json();
-          const content = geminiData.candidates?.[0]?.content?.parts?.[0]?.text;
-          if (content) {
-            responseText = content;
-            usedModel = modelName;
-            // Log success
-            await logModelPerformance(serviceClient, modelName, 'success', responseTimeMs);
-            break; // Exit loop on successful response with content
-          } else {
-            console.warn(`Model ${modelName} returned OK but no content. Trying next model.`);
-            await logModelPerformance(serviceClient, modelName, 'error', responseTimeMs, 'Empty response');
-          }
-        } else {
-          const errorText = await geminiResponse.text();
-          console.error(`Gemini API error with model ${modelName} (Status: ${geminiResponse.status}): ${errorText}`);
-
-          // Determine if quota error
-          const isQuota = geminiResponse.status === 429 || 
-            errorText.toLowerCase().includes('quota') || 
-            errorText.toLowerCase().includes('resource_exhausted');
-
-          // Log error or quota_exceeded
-          await logModelPerformance(
-            serviceClient, 
-            modelName, 
-            isQuota ? 'quota_exceeded' : 'error',
-            responseTimeMs,
-            errorText.slice(0, 200)
-          );
-
-          // Check for recoverable errors: rate limit (429), server errors (5xx), or specific messages
-          const isRecoverableError = 
-            geminiResponse.status === 429 || 
-            (geminiResponse.status >= 500 && geminiResponse.status < 600) || // 5xx server errors
-            errorText.includes('rate limit') || 
-            errorText.includes('overloaded') || 
-            errorText.includes('model not found') || 
-            errorText.includes('invalid model');
-
-          if (isRecoverableError) {
-            console.log(`Recoverable error with model ${modelName}. Trying next model.`);
-            continue; // Try next model
-          } else {
-            // Non-recoverable error, throw it
-            throw new Error(`Gemini API error with model ${modelName}: ${geminiResponse.status} - ${errorText}`);
-          }
-        }
-      } catch (fetchError: any) {
-        const responseTimeMs = Date.now() - startTime;
-        console.error(`Fetch error with model ${modelName}:`, fetchError.message);
-        await logModelPerformance(serviceClient, modelName, 'error', responseTimeMs, fetchError.message);
-        // Network error or other fetch-related issue, try next model
-        continue;
+    let evaluation: WritingEvaluationResult;
+    try {
+      evaluation = await evaluateWriting('writing_submission', prompt, images, {
+        models: evaluationModels,
+        apiKey: geminiApiKey ?? undefined,
+        serviceClient,
+        promptVersion,
+      });
+    } catch (err) {
+      console.error('All evaluation models failed:', err);
+      if (creditsReserved) {
+        await refundCredits(serviceClient, user.id, 'evaluate_writing', creditReservationId);
       }
+      throw new Error('All evaluation models failed to provide a valid response.');
     }
 
-    if (!responseText || !usedModel) {
-      throw new Error('All Gemini models failed to provide a valid response after multiple attempts.');
-    }
-
-    console.log(`Successfully received response from model: ${usedModel}`);
+    const responseText = evaluation.result.text;
+    console.log(`Successfully received response from model: ${describeTarget(evaluation.result)}`);
 
     let evaluationReport: any;
     let overallBand: number | null = null;
 
-    try {
-      // Strip markdown code block delimiters before parsing
-      responseText = responseText.replace(/```json\n|\n```/g, '').trim();
-      console.log('Cleaned Gemini response:', responseText); // Log the cleaned response
-
-      // Attempt to parse the JSON response from Gemini
-      const parsedResponse = JSON.parse(responseText);
-      overallBand = parsedResponse.overall_band;
-      evaluationReport = parsedResponse.evaluation_report;
-    } catch (parseError) {
-      console.error('Failed to parse Gemini JSON response:', parseError);
-      // Fallback: If Gemini doesn't return perfect JSON, try to extract what we can
+    if (evaluation.parsed) {
+      overallBand = evaluation.parsed.overall_band ?? null;
+      evaluationReport = evaluation.parsed.evaluation_report;
+
+      // Resolve quoted error spans to character ranges in the essay
+      if (evaluationReport) {
+        evaluationReport.annotations = resolveAnnotations(submission.submission_text, evaluationReport.annotations);
+        console.log(`Resolved ${evaluationReport.annotations.length} inline annotations`);
+      }
+    } else {
+      console.error('Failed to parse evaluation JSON response:', responseText.slice(0, 500));
+      // Fallback: If the model doesn't return perfect JSON, try to extract what we can
       evaluationReport = {
         raw_response: responseText,
-        parse_error: 'Failed to parse full JSON from Gemini. Raw response provided.',
+        parse_error: 'Failed to parse full JSON from the model. Raw response provided.',
       };
       // Try to find a band score in the raw text if JSON parsing failed
       const bandMatch = responseText.match(/Overall Band Score:\s*(\d+(\.\d)?)/i);
@@ -556,6 +349,7 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
       .update({
         evaluation_report: evaluationReport,
         overall_band: overallBand,
+        prompt_version: promptVersion,
       })
       .eq('id', submissionId);
 
@@ -575,7 +369,7 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
 
       const { data: userSubmissionsForTest, error: userSubmissionsError } = await supabaseClient
         .from('writing_submissions')
-        .select('id, submitted_at')
+        .select('id, submitted_at, parent_submission_id')
         .eq('user_id', user.id)
         .in('task_id', allTaskIdsForTest)
         .order('submitted_at', { ascending: false }); // Newest first
@@ -583,9 +377,18 @@ IMPORTANT: Write your feedback as a teacher speaking directly to the student. Us
       if (userSubmissionsError) {
         console.error('Error fetching user submissions for cleanup:', userSubmissionsError);
       } else if (userSubmissionsForTest) {
+        // Drafts in a revision chain are kept so the version history stays intact
+        const revisionChainIds = new Set<string>();
+        userSubmissionsForTest.forEach(sub => {
+          if (sub.parent_submission_id) {
+            revisionChainIds.add(sub.id);
+            revisionChainIds.add(sub.parent_submission_id);
+          }
+        });
+
         // Group submissions by their submitted_at timestamp to identify unique attempts
         const attemptsMap = new Map<string, string[]>(); // submitted_at -> [submission_ids]
-        userSubmissionsForTest.forEach(sub => {
+        userSubmissionsForTest.filter(sub => !revisionChainIds.has(sub.id)).forEach(sub => {
           const submittedAt = sub.submitted_at || 'unknown';
           if (!attemptsMap.has(submittedAt)) {
             attemptsMap.set(submittedAt, []);
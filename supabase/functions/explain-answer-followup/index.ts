@@ -1,35 +1,20 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { generateWithFallback } from "../_shared/llmProvider.ts";
+import {
+  EvidenceSpan,
+  MAX_EVIDENCE_SPANS,
+  formatEvidenceUnits,
+  parseGroundedExplanation,
+  sanitizeEvidenceUnits,
+} from "../_shared/answerEvidence.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-// Performance logging - logs AI calls to model_performance_logs table
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: null,
-      p_model_name: modelName,
-      p_task_type: 'explain',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (explain)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -60,65 +45,29 @@ async function decryptApiKey(encryptedValue: string, encryptionKey: string): Pro
 // =============================================================================
 // THE TUTOR - Follow-up Chat Models (Split-Brain Architecture)
 // =============================================================================
+// Default chain; LLM_MODELS_EXPLAIN overrides it (see _shared/llmProvider.ts)
 const GEMINI_MODELS = [
   'gemini-2.0-flash-lite-preview-02-05',
   'gemini-2.0-flash-lite',
   'gemini-2.0-flash',
 ];
 
-async function callGemini(apiKey: string, prompt: string, serviceClient?: any): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ parts: [{ text: prompt }] }],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      const responseTimeMs = Date.now() - startTime;
-
-      if (!response.ok) {
-        const errorData = await response.json();
-        const errorText = JSON.stringify(errorData);
-        console.error(`Gemini ${model} failed:`, errorText);
-        
-        const isQuota = response.status === 429 || errorText.toLowerCase().includes('quota');
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, isQuota ? 'quota_exceeded' : 'error', responseTimeMs, errorText.slice(0, 200));
-        }
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        console.log(`Success with ${model}`);
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(serviceClient, model, 'error', responseTimeMs, err instanceof Error ? err.message : String(err));
-      }
-      continue;
-    }
+async function callGemini(
+  apiKey: string,
+  prompt: string,
+  serviceClient?: any,
+  responseFormat: 'text' | 'json' = 'text'
+): Promise<string | null> {
+  try {
+    const result = await generateWithFallback(
+      { prompt, temperature: 0.7, maxOutputTokens: 2048, responseFormat },
+      { task: 'explain', defaultModels: GEMINI_MODELS, apiKey, serviceClient }
+    );
+    return result.text;
+  } catch (err) {
+    console.error('All follow-up models failed:', err);
+    return null;
   }
-  return null;
 }
 
 serve(async (req) => {
@@ -187,8 +136,17 @@ serve(async (req) => {
 
     console.log(`Processing follow-up question: ${question.substring(0, 100)}...`);
 
+    // Passage sentences / transcript lines with ids, so the reply can cite them
+    const evidenceUnits = sanitizeEvidenceUnits(context.evidenceUnits);
+    const grounded = evidenceUnits.length > 0;
+    const sourceName = context.module === 'listening' ? 'transcript' : 'passage';
+
     // Build comprehensive prompt - Teacher persona (no AI references)
-    const moduleContext = context.module === 'listening' 
+    const moduleContext = grounded
+      ? `## ${context.module === 'listening' ? 'AUDIO TRANSCRIPT' : 'PASSAGE'} (one ${context.module === 'listening' ? 'line' : 'sentence'} per id)
+${formatEvidenceUnits(evidenceUnits)}
+`
+      : context.module === 'listening' 
       ? `## AUDIO TRANSCRIPT
 ${context.transcript || context.passage?.content || '(No transcript available)'}
 `
@@ -235,9 +193,11 @@ First, evaluate if the student's message is meaningful and related to the questi
 - If it's vague but somewhat understandable, try to address it but also ask for clarification if needed
 - If it's clear and meaningful, respond helpfully
 
-Respond naturally as their personal tutor. Be encouraging, specific, and reference the actual ${context.module === 'listening' ? 'transcript' : 'passage'} content when helpful. Keep it conversational - 2-4 short paragraphs unless they need more detail.`;
+Respond naturally as their personal tutor. Be encouraging, specific, and reference the actual ${sourceName} content when helpful. Keep it conversational - 2-4 short paragraphs unless they need more detail.${grounded ? `
+
+When you point to the ${sourceName}, cite up to ${MAX_EVIDENCE_SPANS} of the labelled ${context.module === 'listening' ? 'lines' : 'sentences'} with the exact words copied from them. Respond with JSON only: {"response": "<your reply>", "evidence": [{"id": "<id>", "quote": "<exact words>"}]} - use an empty evidence list when nothing in the ${sourceName} applies, and do not put the ids in the reply text.` : ''}`;
 
-    const result = await callGemini(geminiApiKey, prompt, serviceClient);
+    const result = await callGemini(geminiApiKey, prompt, serviceClient, grounded ? 'json' : 'text');
     
     if (!result) {
       return new Response(JSON.stringify({ error: 'Failed to generate response' }), {
@@ -246,8 +206,23 @@ Respond naturally as their personal tutor. Be encouraging, specific, and referen
       });
     }
 
+    let response = result.trim();
+    let evidence: EvidenceSpan[] = [];
+    if (grounded) {
+      const parsed = parseGroundedExplanation(result, evidenceUnits, 'response');
+      if (!parsed.explanation) {
+        return new Response(JSON.stringify({ error: 'Failed to generate response' }), {
+          status: 500,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+      response = parsed.explanation;
+      evidence = parsed.evidence;
+    }
+
     return new Response(JSON.stringify({ 
-      response: result.trim(),
+      response,
+      evidence,
       success: true 
     }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' },
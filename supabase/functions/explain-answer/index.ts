@@ -1,35 +1,21 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
+import { getPlanModelTiers } from "../_shared/credits.ts";
+import { generateWithFallback, getModelChain, LLMModelTarget, restrictToPlan } from "../_shared/llmProvider.ts";
+import {
+  EvidenceSpan,
+  MAX_EVIDENCE_SPANS,
+  formatEvidenceUnits,
+  parseGroundedExplanation,
+  sanitizeEvidenceUnits,
+} from "../_shared/answerEvidence.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-// Performance logging - logs AI calls to model_performance_logs table
-async function logModelPerformance(
-  serviceClient: any,
-  modelName: string,
-  status: 'success' | 'error' | 'quota_exceeded',
-  responseTimeMs?: number,
-  errorMessage?: string
-): Promise<void> {
-  try {
-    await serviceClient.rpc('log_model_performance', {
-      p_api_key_id: null,
-      p_model_name: modelName,
-      p_task_type: 'explain',
-      p_status: status,
-      p_response_time_ms: responseTimeMs || null,
-      p_error_message: errorMessage?.slice(0, 500) || null,
-    });
-    console.log(`[PerformanceLog] ${status} for ${modelName} (explain)`);
-  } catch (err) {
-    console.warn('[PerformanceLog] Failed to log:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -62,6 +48,7 @@ async function decryptApiKey(encryptedValue: string, encryptionKey: string): Pro
 // =============================================================================
 // Prioritize speed and high-quota models for instant explanations
 // These models have faster response times and higher daily quotas
+// Default chain; LLM_MODELS_EXPLAIN overrides it (see _shared/llmProvider.ts)
 const GEMINI_MODELS = [
   'gemini-2.0-flash-lite-preview-02-05', // 1. Primary: Instant speed, 1500 daily quota
   'gemini-2.0-flash-lite',               // 2. Secondary: Stable Lite model
@@ -72,78 +59,20 @@ async function callGemini(
   apiKey: string, 
   systemPrompt: string, 
   userPrompt: string,
-  serviceClient?: any
+  models: LLMModelTarget[],
+  serviceClient?: any,
+  responseFormat: 'text' | 'json' = 'text'
 ): Promise<string | null> {
-  for (const model of GEMINI_MODELS) {
-    const startTime = Date.now();
-    try {
-      console.log(`Trying Gemini model: ${model}`);
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${apiKey}`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [
-              { role: 'user', parts: [{ text: `${systemPrompt}\n\n${userPrompt}` }] }
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 2048,
-            },
-          }),
-        }
-      );
-
-      const responseTimeMs = Date.now() - startTime;
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(`Gemini ${model} failed with status ${response.status}`);
-        
-        // Determine if quota error
-        const isQuota = response.status === 429 || 
-          errorText.toLowerCase().includes('quota') || 
-          errorText.toLowerCase().includes('resource_exhausted');
-        
-        // Log the error
-        if (serviceClient) {
-          await logModelPerformance(
-            serviceClient, 
-            model, 
-            isQuota ? 'quota_exceeded' : 'error',
-            responseTimeMs,
-            errorText.slice(0, 200)
-          );
-        }
-        continue;
-      }
-
-      const data = await response.json();
-      const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-      if (text) {
-        // Log success
-        if (serviceClient) {
-          await logModelPerformance(serviceClient, model, 'success', responseTimeMs);
-        }
-        return text;
-      }
-    } catch (err) {
-      const responseTimeMs = Date.now() - startTime;
-      console.error(`Error with ${model}:`, err);
-      if (serviceClient) {
-        await logModelPerformance(
-          serviceClient, 
-          model, 
-          'error',
-          responseTimeMs,
-          err instanceof Error ? err.message : String(err)
-        );
-      }
-      continue;
-    }
+  try {
+    const result = await generateWithFallback(
+      { systemPrompt, prompt: userPrompt, temperature: 0.7, maxOutputTokens: 2048, responseFormat },
+      { task: 'explain', defaultModels: GEMINI_MODELS, models, apiKey, serviceClient }
+    );
+    return result.text;
+  } catch (err) {
+    console.error('All explanation models failed:', err);
+    return null;
   }
-  return null;
 }
 
 serve(async (req) => {
@@ -208,9 +137,14 @@ serve(async (req) => {
       questionType,
       transcriptContext,
       passageContext,
-      testType
+      testType,
+      evidenceUnits: rawEvidenceUnits
     } = await req.json();
 
+    // Passage sentences / transcript lines with ids: the explanation must cite them
+    const evidenceUnits = sanitizeEvidenceUnits(rawEvidenceUnits);
+    const grounded = evidenceUnits.length > 0;
+
     // Build options context if available
     let optionsText = '';
     if (options && Array.isArray(options) && options.length > 0) {
@@ -228,13 +162,16 @@ serve(async (req) => {
 
     // Build transcript context for listening tests
     let transcriptText = '';
-    if (transcriptContext && transcriptContext.trim()) {
+    if (grounded) {
+      const sourceLabel = testType === 'listening' ? 'Audio Transcript (one line per id)' : 'Reading Passage (one sentence per id)';
+      transcriptText = `\n\n${sourceLabel}:\n"""\n${formatEvidenceUnits(evidenceUnits)}\n"""`;
+    } else if (transcriptContext && transcriptContext.trim()) {
       transcriptText = `\n\nRelevant Audio Transcript:\n"""${transcriptContext}"""`;
     }
 
     // Build passage context for reading tests
     let passageText = '';
-    if (passageContext && passageContext.trim()) {
+    if (!grounded && passageContext && passageContext.trim()) {
       passageText = `\n\nRelevant Reading Passage:\n"""${passageContext}"""`;
     }
 
@@ -275,11 +212,19 @@ Guidelines:
 - Be encouraging and supportive
 - Use simple, clear language
 - If the provided "correct answer" seems wrong or questionable, mention this and suggest the user report it to the admin
-${mcqMultipleGuidelines}`;
+${mcqMultipleGuidelines}${grounded ? `
+
+Evidence:
+- The ${testType === 'listening' ? 'transcript lines' : 'passage sentences'} are labelled with ids like [1p2s3]
+- Cite the 1-${MAX_EVIDENCE_SPANS} ${testType === 'listening' ? 'lines' : 'sentences'} that support the correct answer, with the exact words copied from them
+- Respond with JSON only: {"explanation": "<your explanation>", "evidence": [{"id": "<id>", "quote": "<exact words>"}]}
+- Do not put the ids in the explanation text` : ''}`;
 
-    const contextReference = testType === 'listening' 
-      ? (transcriptContext ? 'Reference the specific part of the transcript where the answer can be found.' : '')
-      : (passageContext ? 'Reference the specific part of the passage where the answer can be found.' : '');
+    const contextReference = grounded
+      ? 'Cite the evidence for the correct answer as JSON.'
+      : testType === 'listening' 
+        ? (transcriptContext ? 'Reference the specific part of the transcript where the answer can be found.' : '')
+        : (passageContext ? 'Reference the specific part of the passage where the answer can be found.' : '');
 
     const userPrompt = `Question Type: ${testTypeLabel}${questionTypeLabel}
 
@@ -296,17 +241,27 @@ Please explain ${isCorrect ? 'why this answer is correct and what concept it dem
       hasOptions: !!optionsText,
       hasTranscript: !!transcriptText,
       hasPassage: !!passageText,
+      evidenceUnits: evidenceUnits.length,
       isCorrect
     });
 
-    const explanation = await callGemini(geminiApiKey, systemPrompt, userPrompt, serviceClient);
+    // Explanations stay within the plan's model tiers
+    const models = restrictToPlan(getModelChain('explain', GEMINI_MODELS), await getPlanModelTiers(serviceClient, user.id));
+    const reply = await callGemini(geminiApiKey, systemPrompt, userPrompt, models, serviceClient, grounded ? 'json' : 'text');
     
-    if (!explanation) {
+    if (!reply) {
       throw new Error('Failed to generate explanation');
     }
 
+    let explanation = reply;
+    let evidence: EvidenceSpan[] = [];
+    if (grounded) {
+      ({ explanation, evidence } = parseGroundedExplanation(reply, evidenceUnits));
+      if (!explanation) throw new Error('Failed to generate explanation');
+    }
+
     return new Response(
-      JSON.stringify({ explanation }),
+      JSON.stringify({ explanation, evidence }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error) {
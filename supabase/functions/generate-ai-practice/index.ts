@@ -6,111 +6,44 @@ import {
   createPerformanceLogger,
   classifyGeminiErrorStatus
 } from "../_shared/performanceLogger.ts";
+import {
+  describeTarget,
+  getLLMProvider,
+  getModelChain,
+  LLMGenerateResult,
+  LLMModelTarget,
+  LLMProviderError,
+  ModelTier,
+  requiresGeminiKey,
+  restrictToModelTiers,
+} from "../_shared/llmProvider.ts";
+import { checkAndReserveCredits, CreditOperation, refundCredits } from "../_shared/credits.ts";
+import {
+  createPromptRandom,
+  isFixtureReplay,
+  LLMFixtureMissingError,
+  PromptRandom,
+  recordFixture,
+  replayFixture,
+  unseededPromptRandom,
+} from "../_shared/llmFixtures.ts";
+import {
+  formatGeneratedTestIssues,
+  GENERATED_TEST_SCHEMA_VERSION,
+  GeneratedTestValidation,
+  validateGeneratedTest,
+} from "../_shared/generatedTestSchema.ts";
+import { repairQuestionGroups } from "../_shared/generatedTestRepair.ts";
+import { PromptVariables, renderPrompt } from "../_shared/promptTemplates.ts";
+import { LISTENING_GENERATION_PROMPT, READING_GENERATION_PROMPT } from "../_shared/generationPrompts.ts";
+import { ADAPTIVE_DIFFICULTY, AdaptiveRecommendation } from "../_shared/adaptiveDifficulty.ts";
+import { isAdaptiveModule, resolveAdaptivePractice } from "../_shared/learnerAbility.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-gemini-api-key',
 };
 
-// ============================================================================
-// CREDIT SYSTEM - Cost Map and Daily Limits
-// ============================================================================
-const COSTS = {
-  // GENERATION
-  'generate_speaking': 5,
-  'generate_writing': 5,
-  'generate_listening': 20,
-  'generate_reading': 20,
-  // EVALUATION
-  'evaluate_speaking': 15,
-  'evaluate_writing': 10,
-  'evaluate_reading': 0,    // FREE
-  'evaluate_listening': 0,  // FREE
-  // CHAT
-  'explain_answer': 2
-};
-
-const DAILY_CREDIT_LIMIT = 100;
-
-// ============================================================================
-// ATOMIC CREDIT FUNCTIONS - Uses DB functions to prevent race conditions
-// ============================================================================
-
-// Check and RESERVE credits atomically BEFORE calling AI
-// This prevents the "rapid click attack" where parallel requests bypass limits
-async function checkAndReserveCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<{ ok: boolean; error?: string; creditsUsed?: number; creditsRemaining?: number }> {
-  const cost = COSTS[operationType] || 0;
-  
-  // Free operations always pass
-  if (cost === 0) {
-    return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  }
-  
-  try {
-    // Call atomic DB function that locks the row and reserves credits
-    const { data, error } = await serviceClient.rpc('check_and_reserve_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('check_and_reserve_credits RPC error:', error);
-      // Fail open - allow operation if RPC fails
-      return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-    }
-    
-    console.log(`Credit check result for ${operationType} (cost ${cost}):`, data);
-    
-    if (!data.ok) {
-      return {
-        ok: false,
-        error: data.error || `Daily credit limit reached. Add your own Gemini API key in Settings.`,
-        creditsUsed: data.credits_used,
-        creditsRemaining: data.credits_remaining
-      };
-    }
-    
-    return {
-      ok: true,
-      creditsUsed: data.credits_used,
-      creditsRemaining: data.credits_remaining
-    };
-  } catch (err) {
-    console.error('Error in atomic credit check:', err);
-    // Fail open - allow operation
-    return { ok: true, creditsUsed: 0, creditsRemaining: DAILY_CREDIT_LIMIT };
-  }
-}
-
-// Refund credits if the AI operation fails AFTER we reserved them
-async function refundCredits(
-  serviceClient: any, 
-  userId: string, 
-  operationType: keyof typeof COSTS
-): Promise<void> {
-  const cost = COSTS[operationType] || 0;
-  if (cost === 0) return;
-  
-  try {
-    const { error } = await serviceClient.rpc('refund_credits', {
-      p_user_id: userId,
-      p_cost: cost
-    });
-    
-    if (error) {
-      console.error('refund_credits RPC error:', error);
-    } else {
-      console.log(`Refunded ${cost} credits for failed ${operationType}`);
-    }
-  } catch (err) {
-    console.error('Failed to refund credits:', err);
-  }
-}
-
 // Decrypt user's Gemini API key
 async function decryptApiKey(encryptedValue: string, encryptionKey: string): Promise<string> {
   const encoder = new TextEncoder();
@@ -243,6 +176,7 @@ CRITICAL - VOICE-GENDER SYNCHRONIZATION:
 // =============================================================================
 // Prioritize instruction-following models for complex JSON generation
 // These models excel at adhering to strict formatting rules and producing valid JSON
+// Default chain; LLM_MODELS_GENERATE overrides it (see _shared/llmProvider.ts)
 const GEMINI_MODELS = [
   'gemini-2.5-flash',     // 1. Primary: Stable, reliable for complex JSON generation
 ];
@@ -251,6 +185,16 @@ const GEMINI_MODELS = [
 let lastGeminiError: string | null = null;
 let lastTokensUsed: number = 0;
 let isQuotaExceeded: boolean = false;
+// Model tiers of the requesting user's plan; null when unrestricted (own key, admin)
+let allowedModelTiers: ModelTier[] | null = null;
+// Random topic, scenario and variation picks for the current request's prompts
+let promptRandom: PromptRandom = unseededPromptRandom;
+
+// Generation chain limited to the plan's model tiers, or plain Flash if none of it is allowed
+function planModelChain(defaultModels: string[]): LLMModelTarget[] {
+  const chain = restrictToModelTiers(getModelChain('generate', defaultModels), allowedModelTiers);
+  return chain.length > 0 ? chain : [{ provider: 'gemini', model: 'gemini-2.5-flash' }];
+}
 
 // DB-managed API key interface
 interface ApiKeyRecord {
@@ -494,15 +438,17 @@ async function sleep(ms: number): Promise<void> {
 }
 
 // Enhanced callGemini with DB key rotation support and performance logging
+// Walks the configured model chain (see _shared/llmProvider.ts)
 // If dbKeys array is provided, will rotate through them on 429/403 errors
 async function callGemini(
-  apiKey: string, 
+  apiKey: string | null, 
   prompt: string, 
   maxRetries: number = 2,
   options?: {
     dbKeys?: ApiKeyRecord[];
     serviceClient?: any;
     currentKeyIndex?: number;
+    promptVersion?: string;
   }
 ): Promise<string | null> {
   lastGeminiError = null;
@@ -510,12 +456,12 @@ async function callGemini(
   isQuotaExceeded = false;
   
   // Create performance logger for this task
-  const perfLogger = createPerformanceLogger('generate');
+  const perfLogger = createPerformanceLogger('generate', undefined, options?.promptVersion);
   
   const dbKeys = options?.dbKeys || [];
   const serviceClient = options?.serviceClient;
   let currentKeyIndex = options?.currentKeyIndex || 0;
-  let currentApiKey = apiKey;
+  let currentApiKey: string | undefined = apiKey ?? undefined;
   let currentKeyRecord: ApiKeyRecord | null = null;
   
   // If we have DB keys, use the first one
@@ -525,187 +471,155 @@ async function callGemini(
     console.log(`Using DB-managed key ${currentKeyIndex + 1}/${dbKeys.length}`);
   }
   
-  for (const model of GEMINI_MODELS) {
+  const chain = planModelChain(GEMINI_MODELS);
+
+  for (const target of chain) {
+    const model = describeTarget(target);
+    const provider = getLLMProvider(target.provider);
+    // Key rotation only applies to Gemini; other providers use their own credentials
+    const rotatesKeys = target.provider === 'gemini';
     let retryCount = 0;
     const modelCallStart = Date.now();
     
     while (retryCount <= maxRetries) {
       try {
-        console.log(`Trying Gemini model: ${model}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
-        const response = await fetch(
-          `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${currentApiKey}`,
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({
-                contents: [{ parts: [{ text: prompt }] }],
-                generationConfig: {
-                  temperature: 0.7,
-                  maxOutputTokens: 8192,
-                  // Strongly encourages the model to return valid JSON (prevents "[A] ..." non-JSON output)
-                  responseMimeType: 'application/json',
-                },
-              }),
-          }
+        console.log(`Trying model: ${model}${retryCount > 0 ? ` (retry ${retryCount})` : ''}`);
+        // responseFormat json strongly encourages valid JSON (prevents "[A] ..." non-JSON output)
+        const result = await provider.generate(
+          target,
+          { prompt, temperature: 0.7, maxOutputTokens: 8192, responseFormat: 'json' },
+          currentApiKey
         );
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          console.error(`Gemini ${model} failed:`, JSON.stringify(errorData));
+        lastTokensUsed = result.tokensUsed;
+        console.log(`Success with ${model} - tokens used: ${lastTokensUsed}`);
+        
+        // Log successful performance
+        await perfLogger.logSuccess(model, Date.now() - modelCallStart, currentKeyRecord?.id);
+        
+        // Reset error count on success
+        if (rotatesKeys && serviceClient && currentKeyRecord) {
+          await resetKeyErrorCount(serviceClient, currentKeyRecord.id);
+        }
+        
+        return result.text;
+      } catch (err) {
+        if (err instanceof LLMFixtureMissingError) throw err;
+        const error = err instanceof LLMProviderError
+          ? err
+          : new LLMProviderError(err instanceof Error ? err.message : 'Unknown error', 'network', target.provider, target.model);
+        const errorMessage = error.message;
+        const modelCallEnd = Date.now() - modelCallStart;
+        console.error(`${model} failed (${error.kind}):`, errorMessage.slice(0, 300));
+
+        if (error.isQuotaOrRateLimit) {
+          // Check if this is a DAILY quota exhaustion (not just per-minute rate limit)
+          const lowerMessage = errorMessage.toLowerCase();
+          const isDailyQuota = 
+            lowerMessage.includes('check your plan') ||
+            lowerMessage.includes('billing') ||
+            lowerMessage.includes('daily') ||
+            lowerMessage.includes('per day') ||
+            (lowerMessage.includes('quota') && !lowerMessage.includes('per minute'));
           
-          // Parse error message for user-friendly display
-          const errorMessage = errorData?.error?.message || '';
-          const errorStatus = errorData?.error?.status || '';
+          // Log quota exceeded
+          await perfLogger.logQuotaExceeded(model, errorMessage.slice(0, 200), currentKeyRecord?.id);
           
-          if (response.status === 429 || errorStatus === 'RESOURCE_EXHAUSTED') {
-            // Check if this is a DAILY quota exhaustion (not just per-minute rate limit)
-            const isDailyQuota = 
-              errorMessage.toLowerCase().includes('check your plan') ||
-              errorMessage.toLowerCase().includes('billing') ||
-              errorMessage.toLowerCase().includes('daily') ||
-              errorMessage.toLowerCase().includes('per day') ||
-              (errorMessage.toLowerCase().includes('quota') && !errorMessage.toLowerCase().includes('per minute'));
+          // Key rotation: try next DB key if available
+          if (rotatesKeys && dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
+            console.log(`Key ${currentKeyIndex + 1} ${isDailyQuota ? 'DAILY QUOTA EXHAUSTED' : 'rate limited'} on ${model}, rotating to next key...`);
             
-            // Log quota exceeded
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logQuotaExceeded(model, errorMessage.slice(0, 200), currentKeyRecord?.id);
-            
-            // Key rotation: try next DB key if available
-            if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
-              console.log(`Key ${currentKeyIndex + 1} ${isDailyQuota ? 'DAILY QUOTA EXHAUSTED' : 'rate limited'} on ${model}, rotating to next key...`);
+            // Increment error count for this key
+            if (serviceClient && currentKeyRecord) {
+              await incrementKeyErrorCount(serviceClient, currentKeyRecord.id);
               
-              // Increment error count for this key
-              if (serviceClient && currentKeyRecord) {
-                await incrementKeyErrorCount(serviceClient, currentKeyRecord.id);
-                
-                // If it's daily quota exhaustion, mark this model as exhausted for this key
-                if (isDailyQuota) {
-                  await markModelQuotaExhaustedForGeneration(serviceClient, currentKeyRecord.id, model);
-                }
+              // If it's daily quota exhaustion, mark this model as exhausted for this key
+              if (isDailyQuota) {
+                await markModelQuotaExhaustedForGeneration(serviceClient, currentKeyRecord.id, target.model);
               }
-              
-              currentKeyIndex++;
-              currentKeyRecord = dbKeys[currentKeyIndex];
-              currentApiKey = currentKeyRecord.key_value;
-              console.log(`Switched to DB key ${currentKeyIndex + 1}/${dbKeys.length}`);
-              retryCount = 0; // Reset retry count for new key
-              continue;
-            }
-            
-            // Check if it's a rate limit that might recover with waiting
-            if (retryCount < maxRetries && !isDailyQuota) {
-              console.log(`Rate limit hit on ${model}, will retry after backoff...`);
-              await waitWithBackoff(retryCount);
-              retryCount++;
-              continue;
             }
             
-            // All retries and keys exhausted - mark all keys as exhausted for this model
-            if (isDailyQuota && serviceClient && dbKeys.length > 0) {
-              for (const key of dbKeys) {
-                await markModelQuotaExhaustedForGeneration(serviceClient, key.id, model);
-              }
-            }
-            
-            // All retries and keys exhausted
-            isQuotaExceeded = true;
-            lastGeminiError = isDailyQuota 
-              ? 'QUOTA_EXCEEDED: All API keys have exhausted their daily quota. Please try again tomorrow or add your own Gemini API key in Settings.'
-              : 'QUOTA_EXCEEDED: All API keys have reached their rate limit. Please wait a few minutes and try again.';
-            break;
-          } else if (response.status === 403 || errorStatus === 'PERMISSION_DENIED') {
-            // Key is invalid - try next DB key
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logError(model, 'Permission denied', modelCallEnd, currentKeyRecord?.id);
-            
-            if (dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
-              console.log(`Key ${currentKeyIndex + 1} permission denied, rotating to next key...`);
-              
-              // Deactivate this key
-              if (serviceClient && currentKeyRecord) {
-                await incrementKeyErrorCount(serviceClient, currentKeyRecord.id, true);
-              }
-              
-              currentKeyIndex++;
-              currentKeyRecord = dbKeys[currentKeyIndex];
-              currentApiKey = currentKeyRecord.key_value;
-              retryCount = 0;
-              continue;
-            }
-            
-            lastGeminiError = 'API access denied. Please verify your Gemini API key is valid and has the correct permissions.';
-            break;
-          } else if (response.status === 400) {
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logError(model, 'Invalid request', modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = 'Invalid request to AI. The generation request was rejected. Please try again with different settings.';
-            break;
-          } else if (response.status >= 500) {
-            if (retryCount < maxRetries) {
-              console.log(`Server error on ${model}, will retry after backoff...`);
-              await waitWithBackoff(retryCount);
-              retryCount++;
-              continue;
+            currentKeyIndex++;
+            currentKeyRecord = dbKeys[currentKeyIndex];
+            currentApiKey = currentKeyRecord.key_value;
+            console.log(`Switched to DB key ${currentKeyIndex + 1}/${dbKeys.length}`);
+            retryCount = 0; // Reset retry count for new key
+            continue;
+          }
+          
+          // Check if it's a rate limit that might recover with waiting
+          if (retryCount < maxRetries && !isDailyQuota) {
+            console.log(`Rate limit hit on ${model}, will retry after backoff...`);
+            await waitWithBackoff(retryCount);
+            retryCount++;
+            continue;
+          }
+          
+          // All retries and keys exhausted - mark all keys as exhausted for this model
+          if (rotatesKeys && isDailyQuota && serviceClient && dbKeys.length > 0) {
+            for (const key of dbKeys) {
+              await markModelQuotaExhaustedForGeneration(serviceClient, key.id, target.model);
             }
-            const modelCallEnd = Date.now() - modelCallStart;
-            await perfLogger.logError(model, `Server error ${response.status}: ${errorMessage.slice(0, 100)}`, modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = `AI service error (${response.status}): ${errorMessage.slice(0, 100)}`;
-          } else {
-            lastGeminiError = `AI service error (${response.status}): ${errorMessage.slice(0, 100)}`;
           }
+          
+          // All retries and keys exhausted
+          isQuotaExceeded = true;
+          lastGeminiError = isDailyQuota 
+            ? 'QUOTA_EXCEEDED: All API keys have exhausted their daily quota. Please try again tomorrow or add your own Gemini API key in Settings.'
+            : 'QUOTA_EXCEEDED: All API keys have reached their rate limit. Please wait a few minutes and try again.';
           break;
         }
 
-        const data = await response.json();
-        
-        // Extract token usage from response metadata
-        const usageMetadata = data.usageMetadata;
-        if (usageMetadata) {
-          const promptTokens = usageMetadata.promptTokenCount || 0;
-          const candidateTokens = usageMetadata.candidatesTokenCount || 0;
-          lastTokensUsed = promptTokens + candidateTokens;
-          console.log(`Token usage - Prompt: ${promptTokens}, Output: ${candidateTokens}, Total: ${lastTokensUsed}`);
-        }
-        
-        const text = data.candidates?.[0]?.content?.parts?.[0]?.text;
-        if (text) {
-          console.log(`Success with ${model}`);
-          
-          // Log successful performance
-          const modelCallEnd = Date.now() - modelCallStart;
-          await perfLogger.logSuccess(model, modelCallEnd, currentKeyRecord?.id);
+        if (error.kind === 'permission' || error.kind === 'invalid_key') {
+          // Key is invalid - try next DB key
+          await perfLogger.logError(model, 'Permission denied', modelCallEnd, currentKeyRecord?.id);
           
-          // Reset error count on success
-          if (serviceClient && currentKeyRecord) {
-            await resetKeyErrorCount(serviceClient, currentKeyRecord.id);
+          if (rotatesKeys && dbKeys.length > 0 && currentKeyIndex < dbKeys.length - 1) {
+            console.log(`Key ${currentKeyIndex + 1} permission denied, rotating to next key...`);
+            
+            // Deactivate this key
+            if (serviceClient && currentKeyRecord) {
+              await incrementKeyErrorCount(serviceClient, currentKeyRecord.id, true);
+            }
+            
+            currentKeyIndex++;
+            currentKeyRecord = dbKeys[currentKeyIndex];
+            currentApiKey = currentKeyRecord.key_value;
+            retryCount = 0;
+            continue;
           }
           
-          return text;
-        } else {
-          const finishReason = data.candidates?.[0]?.finishReason;
-          const modelCallEnd = Date.now() - modelCallStart;
-          if (finishReason === 'SAFETY') {
-            await perfLogger.logError(model, 'Content filtered by safety settings', modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = 'Content was filtered by safety settings. Please try a different topic.';
-          } else {
-            await perfLogger.logError(model, 'Empty response from AI', modelCallEnd, currentKeyRecord?.id);
-            lastGeminiError = 'AI returned empty response. Please try again.';
-          }
+          lastGeminiError = 'API access denied. Please verify your Gemini API key is valid and has the correct permissions.';
+          break;
         }
-        break;
-      } catch (err) {
-        console.error(`Error with ${model}:`, err);
-        const modelCallEnd = Date.now() - modelCallStart;
-        await perfLogger.logError(model, err instanceof Error ? err.message : 'Unknown error', modelCallEnd, currentKeyRecord?.id);
-        
-        if (retryCount < maxRetries) {
-          console.log(`Connection error on ${model}, will retry after backoff...`);
+
+        if (error.isTransient && retryCount < maxRetries) {
+          console.log(`${error.kind === 'server' ? 'Server' : 'Connection'} error on ${model}, will retry after backoff...`);
           await waitWithBackoff(retryCount);
           retryCount++;
           continue;
         }
-        
-        lastGeminiError = `Connection error: Unable to reach AI service. Please check your internet connection and try again.`;
+
+        await perfLogger.logError(model, errorMessage.slice(0, 200), modelCallEnd, currentKeyRecord?.id);
+        switch (error.kind) {
+          case 'bad_request':
+            lastGeminiError = 'Invalid request to AI. The generation request was rejected. Please try again with different settings.';
+            break;
+          case 'safety':
+            lastGeminiError = 'Content was filtered by safety settings. Please try a different topic.';
+            break;
+          case 'empty':
+            lastGeminiError = 'AI returned empty response. Please try again.';
+            break;
+          case 'network':
+            lastGeminiError = `Connection error: Unable to reach AI service. Please check your internet connection and try again.`;
+            break;
+          case 'config':
+            lastGeminiError = `AI provider is not configured: ${errorMessage}`;
+            break;
+          default:
+            lastGeminiError = `AI service error (${error.status}): ${errorMessage.slice(0, 100)}`;
+        }
         break;
       }
     }
@@ -794,6 +708,57 @@ function extractJsonFromResponse(text: string): string {
   throw new Error('Could not extract valid JSON from AI response');
 }
 
+// ============================================================================
+// SCHEMA VALIDATION (see _shared/generatedTestSchema.ts)
+// ============================================================================
+
+// Validate a payload of any module before it is returned or saved. Failing
+// question groups (reading and listening) are sent back to the model for repair;
+// payload.questionGroups is replaced in place and valid payloads are stamped
+// with the schema version they passed.
+async function validateGeneratedPayload(
+  module: string,
+  payload: object,
+  sourceText: string,
+  apiKey: string | null,
+  options: Parameters<typeof callGemini>[3]
+): Promise<GeneratedTestValidation> {
+  const target = payload as { questionGroups?: unknown; schemaVersion?: number };
+  let validation = validateGeneratedTest(module, payload);
+
+  if (!validation.valid && validation.invalidGroups.length > 0 && Array.isArray(target.questionGroups)) {
+    console.warn(`[schema] ${module} payload failed validation:\n${formatGeneratedTestIssues(validation.issues)}`);
+    const repair = await repairQuestionGroups(
+      target.questionGroups,
+      validation.invalidGroups,
+      (prompt) => callGemini(apiKey, prompt, 1, options),
+      sourceText
+    );
+    console.log(`[schema] Repaired groups: [${repair.repaired.join(', ')}], unrepaired: [${repair.unrepaired.join(', ')}]`);
+    target.questionGroups = repair.groups;
+    validation = validateGeneratedTest(module, payload);
+  }
+
+  if (validation.valid) {
+    target.schemaVersion = GENERATED_TEST_SCHEMA_VERSION;
+  } else {
+    console.error(`[schema] ${module} payload rejected:\n${formatGeneratedTestIssues(validation.issues)}`);
+  }
+  return validation;
+}
+
+function schemaErrorResponse(validation: GeneratedTestValidation): Response {
+  return new Response(JSON.stringify({
+    error: 'AI returned invalid content. Please try again.',
+    errorType: 'SCHEMA_ERROR',
+    details: formatGeneratedTestIssues(validation.issues),
+    issues: validation.issues.slice(0, 20),
+  }), {
+    status: 500,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
+
 // ============================================================================
 // SPEAKING PART 3 ENFORCEMENT (count + word-length)
 // - Requirement: Part 3 must have 4-5 questions
@@ -1000,9 +965,31 @@ function getLastTTSError(): string {
   return lastTTSError || 'Audio generation failed. Please try again.';
 }
 
+// Generate TTS audio, replaying or recording a fixture when LLM_FIXTURE_MODE is set
+async function generateAudio(
+  apiKey: string,
+  script: string,
+  speakerConfig?: SpeakerConfigInput,
+  maxRetries = 3,
+  options?: Parameters<typeof synthesizeAudio>[4]
+): Promise<{ audioBase64: string; sampleRate: number } | null> {
+  const fixtureMaterial = {
+    script,
+    speaker1: speakerConfig?.speaker1?.voiceName || 'Charon',
+    speaker2: speakerConfig?.speaker2?.voiceName || 'Aoede',
+    useTwoSpeakers: speakerConfig?.useTwoSpeakers !== false,
+  };
+  const replayed = await replayFixture<{ audioBase64: string; sampleRate: number }>('tts', fixtureMaterial);
+  if (replayed) return replayed;
+
+  const audio = await synthesizeAudio(apiKey, script, speakerConfig, maxRetries, options);
+  if (audio) await recordFixture('tts', fixtureMaterial, audio);
+  return audio;
+}
+
 // Generate TTS audio using Gemini with retry logic, configurable voices, and DB key rotation
 // NOTE: For dialogues, we stitch per-speaker segments to guarantee distinct voices.
-async function generateAudio(
+async function synthesizeAudio(
   apiKey: string,
   script: string,
   speakerConfig?: SpeakerConfigInput,
@@ -1399,8 +1386,16 @@ interface ReadingConfig {
   paragraphCount?: number;
   wordCount?: number;
   useWordCountMode?: boolean;
+  gtSection?: 1 | 2 | 3; // Set only for General Training reading
 }
 
+// General Training reading uses a different kind of text in each section
+const GT_READING_SECTION_TEXTS: Record<1 | 2 | 3, string> = {
+  1: 'Section 1 (social survival): two or three short everyday texts such as notices, advertisements, timetables or leaflets, each treated as a separately labeled paragraph',
+  2: 'Section 2 (workplace survival): workplace texts such as a job description, staff policy, contract terms or training material',
+  3: 'Section 3 (general reading): one longer descriptive or instructive text on a topic of general interest, as found in magazines, newspapers or books',
+};
+
 // Listening configuration interface
 // Gemini free tier limits: ~15 min audio/day, keep each request to max ~2 min (70% of capacity)
 // ~150 words per minute of speech at normal pace
@@ -1421,14 +1416,14 @@ interface ListeningConfig {
   monologueMode?: boolean; // Single speaker mode like IELTS Part 4
 }
 
-// Reading question type prompts - generate structured data matching DB schema
-function getReadingPrompt(
+// Variables for READING_GENERATION_PROMPT: the passage frame plus the question format
+function getReadingPromptVariables(
   questionType: string, 
   topic: string, 
   difficulty: string, 
   questionCount: number,
   readingConfig?: ReadingConfig
-): string {
+): PromptVariables {
   const difficultyDesc = difficulty === 'easy' ? 'Band 5-5.5' : difficulty === 'medium' ? 'Band 6-6.5' : difficulty === 'hard' ? 'Band 7-7.5' : 'Band 8-9 (Expert level - extremely challenging, requires near-native comprehension, subtle inferences, and mastery of nuanced vocabulary)';
   
   // Determine passage specifications based on config
@@ -1449,27 +1444,29 @@ function getReadingPrompt(
   );
   const labelList = paragraphLabels.map(l => `[${l}]`).join(', ');
   
-  const basePrompt = `Generate an IELTS Academic Reading test with the following specifications:
-
-Topic: ${topic}
-Difficulty: ${difficulty} (${difficultyDesc})
-
-Requirements:
-1. Create a reading passage with these specifications:
-   - Total word count: approximately ${wordCount} words (strict: between ${wordCount - 50} and ${wordCount + 100} words)
-   - Number of paragraphs: ${paragraphCount} paragraphs, labeled ${labelList}
-   - Each paragraph should be 80-150 words (official IELTS standard)
-   - Academic in tone and style
-   - Well-structured with clear paragraph labels [A], [B], etc.
-   - Contains specific information that can be tested
-   - Appropriate for the ${difficulty} difficulty level
-
-`;
+  const gtSection = readingConfig?.gtSection;
+  return {
+    ielts_variant: gtSection ? 'General Training' : 'Academic',
+    topic,
+    difficulty,
+    difficulty_description: difficultyDesc,
+    text_type_line: gtSection ? `Text type: ${GT_READING_SECTION_TEXTS[gtSection]}\n` : '',
+    word_count: wordCount,
+    word_count_min: wordCount - 50,
+    word_count_max: wordCount + 100,
+    paragraph_count: paragraphCount,
+    paragraph_labels: labelList,
+    register: gtSection ? 'Authentic everyday English of the text type above, not academic prose' : 'Academic in tone and style',
+    question_format: getReadingQuestionFormat(questionType, questionCount),
+  };
+}
 
+// Reading question type sections - generate structured data matching DB schema
+function getReadingQuestionFormat(questionType: string, questionCount: number): string {
   switch (questionType) {
     case 'TRUE_FALSE_NOT_GIVEN':
     case 'YES_NO_NOT_GIVEN':
-      return basePrompt + `2. Create ${questionCount} ${questionType === 'YES_NO_NOT_GIVEN' ? 'Yes/No/Not Given' : 'True/False/Not Given'} questions based on the passage.
+      return `2. Create ${questionCount} ${questionType === 'YES_NO_NOT_GIVEN' ? 'Yes/No/Not Given' : 'True/False/Not Given'} questions based on the passage.
 
 Return ONLY valid JSON in this exact format:
 {
@@ -1490,7 +1487,7 @@ Return ONLY valid JSON in this exact format:
 
     case 'MULTIPLE_CHOICE':
     case 'MULTIPLE_CHOICE_SINGLE':
-      return basePrompt + `2. Create ${questionCount} multiple choice questions (single answer) based on the passage.
+      return `2. Create ${questionCount} multiple choice questions (single answer) based on the passage.
 
 Return ONLY valid JSON in this exact format:
 {
@@ -1515,7 +1512,7 @@ Return ONLY valid JSON in this exact format:
       // The question group spans 3 question numbers (Questions 1-3) with 6 options (A-F).
       // This is the standardized MCMA format for AI practice.
 
-      return basePrompt + `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
+      return `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
 
 CRITICAL REQUIREMENTS:
 - The question set spans Questions 1 to 3 (3 question numbers)
@@ -1562,7 +1559,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'MATCHING_HEADINGS':
-      return basePrompt + `2. Create a matching headings question where test-takers match paragraphs to headings.
+      return `2. Create a matching headings question where test-takers match paragraphs to headings.
    - Provide MORE headings than paragraphs (at least 2-3 extra distractors)
 
 Return ONLY valid JSON in this exact format:
@@ -1591,7 +1588,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'MATCHING_INFORMATION':
-      return basePrompt + `2. Create ${questionCount} matching information questions where test-takers match statements to paragraphs.
+      return `2. Create ${questionCount} matching information questions where test-takers match statements to paragraphs.
    - The passage has multiple paragraphs labeled A, B, C, D, E
    - Each question asks which paragraph contains specific information
    - Provide paragraph options with descriptions (not just letters)
@@ -1625,11 +1622,11 @@ Return ONLY valid JSON in this exact format:
       // Randomly select a display variation for fill-in-the-blank questions
       // Variations: standard, paragraph, bullets, headings, note_style
       const fillVariations = ['standard', 'paragraph', 'bullets', 'headings', 'note_style'];
-      const selectedVariation = fillVariations[Math.floor(Math.random() * fillVariations.length)];
+      const selectedVariation = fillVariations[Math.floor(promptRandom.next() * fillVariations.length)];
       
       // Randomly select word limit (1, 2, or 3 words)
       const wordLimitOptions = [1, 2, 3];
-      const selectedWordLimit = wordLimitOptions[Math.floor(Math.random() * wordLimitOptions.length)];
+      const selectedWordLimit = wordLimitOptions[Math.floor(promptRandom.next() * wordLimitOptions.length)];
       const wordLimitText = selectedWordLimit === 1 ? 'ONE WORD ONLY' : 
                             selectedWordLimit === 2 ? 'NO MORE THAN TWO WORDS' : 
                             'NO MORE THAN THREE WORDS';
@@ -1685,7 +1682,7 @@ Return ONLY valid JSON in this exact format:
   "display_options": {},`;
       }
       
-      return basePrompt + `2. Create ${questionCount} fill-in-the-blank/sentence completion questions.
+      return `2. Create ${questionCount} fill-in-the-blank/sentence completion questions.
 
 CRITICAL WORD LIMIT RULE - STRICTLY ENFORCED:
 - Maximum word limit: ${selectedWordLimit} word(s) per answer
@@ -1713,7 +1710,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'SENTENCE_COMPLETION':
-      return basePrompt + `2. Create ${questionCount} sentence completion questions with a word bank.
+      return `2. Create ${questionCount} sentence completion questions with a word bank.
    - Provide a list of words/phrases (options A-H) that test-takers must choose from
    - Each question is a sentence with a blank that must be completed using one of the given words
    - Provide more options than questions as distractors
@@ -1752,7 +1749,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'TABLE_COMPLETION':
-      return basePrompt + `2. Create a table completion task with ${questionCount} blanks to fill.
+      return `2. Create a table completion task with ${questionCount} blanks to fill.
 
 CRITICAL RULES - FOLLOW EXACTLY:
 1. WORD LIMIT: Maximum TWO words per answer. STRICTLY ENFORCED.
@@ -1789,7 +1786,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'FLOWCHART_COMPLETION':
-      return basePrompt + `2. Create a flowchart completion task describing a process with ${questionCount} blanks.
+      return `2. Create a flowchart completion task describing a process with ${questionCount} blanks.
 
 CRITICAL INSTRUCTION RULES:
 - The instruction displayed to the user MUST be exactly: "Choose NO MORE THAN THREE WORDS AND/OR A NUMBER from the passage for each answer."
@@ -1819,7 +1816,7 @@ Return ONLY valid JSON in this exact format:
 
     case 'SUMMARY_COMPLETION':
     case 'SUMMARY_WORD_BANK':
-      return basePrompt + `2. Create a summary completion task with a word bank.
+      return `2. Create a summary completion task with a word bank.
 
 Return ONLY valid JSON in this exact format:
 {
@@ -1845,7 +1842,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'MATCHING_SENTENCE_ENDINGS':
-      return basePrompt + `2. Create ${questionCount} matching sentence endings questions.
+      return `2. Create ${questionCount} matching sentence endings questions.
    - Provide more endings than questions as distractors
 
 Return ONLY valid JSON in this exact format:
@@ -1874,7 +1871,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'MAP_LABELING':
-      return basePrompt + `2. Create a map/diagram labeling task with ${questionCount} labels to identify.
+      return `2. Create a map/diagram labeling task with ${questionCount} labels to identify.
 
 OFFICIAL IELTS FORMAT - CRITICAL RULES:
 - The MAP shows: (1) Letter circles A-H marking UNKNOWN locations, and (2) LABELED landmarks for navigation
@@ -1927,7 +1924,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     case 'NOTE_COMPLETION':
-      return basePrompt + `2. Create a note completion task with ${questionCount} blanks.
+      return `2. Create a note completion task with ${questionCount} blanks.
 
 Return ONLY valid JSON in this exact format:
 {
@@ -1952,7 +1949,7 @@ Return ONLY valid JSON in this exact format:
 }`;
 
     default:
-      return basePrompt + `2. Create ${questionCount} fill-in-the-blank questions based on the passage.
+      return `2. Create ${questionCount} fill-in-the-blank questions based on the passage.
 
 Return ONLY valid JSON in this exact format:
 {
@@ -1979,14 +1976,15 @@ const LISTENING_AUDIO_LENGTH_MINUTES = 1; // TESTING: was 4
 const LISTENING_QUESTION_COUNT = 7;
 const LISTENING_WORD_COUNT = 150; // TESTING: was 600 (1 min * 150 words/min)
 
-function getListeningPrompt(
+// Variables for LISTENING_GENERATION_PROMPT: the script frame plus the question format
+function getListeningPromptVariables(
   questionType: string, 
   topic: string, 
   difficulty: string, 
   questionCount: number, 
   scenario: any,
   listeningConfig?: ListeningConfig
-): string {
+): PromptVariables {
   const difficultyDesc = difficulty === 'easy' ? 'Band 5-5.5' : difficulty === 'medium' ? 'Band 6-6.5' : difficulty === 'hard' ? 'Band 7-7.5' : 'Band 8-9 (Expert level - extremely challenging, requires near-native comprehension, subtle inferences, and mastery of nuanced vocabulary)';
   
   // HARDCODED per Architect spec: 4 minutes audio, 7 questions
@@ -2047,16 +2045,21 @@ function getListeningPrompt(
    - Contains specific details (names, numbers, dates, locations)
    ${ssmlInstructions}`;
 
-  const basePrompt = `Generate an IELTS Listening test section with the following specifications:
-
-Topic: ${topic}
-Scenario: ${scenario.description}
-Difficulty: ${difficulty} (${difficultyDesc})
-FIXED PARAMETERS: ${LISTENING_AUDIO_LENGTH_MINUTES} minutes audio, ${effectiveQuestionCount} questions
+  return {
+    topic,
+    scenario: scenario.description,
+    difficulty,
+    difficulty_description: difficultyDesc,
+    audio_minutes: LISTENING_AUDIO_LENGTH_MINUTES,
+    question_count: effectiveQuestionCount,
+    character_instructions: characterInstructions,
+    question_format: getListeningQuestionFormat(questionType, listeningConfig),
+  };
+}
 
-Requirements:
-${characterInstructions}
-`;
+// Listening question type sections
+function getListeningQuestionFormat(questionType: string, listeningConfig?: ListeningConfig): string {
+  const effectiveQuestionCount = LISTENING_QUESTION_COUNT;
 
   // Handle FILL_IN_BLANK with optional Spelling Mode or Monologue Mode
   if (questionType === 'FILL_IN_BLANK') {
@@ -2075,7 +2078,7 @@ For fill-in-the-blank questions, you MUST randomize the position of the missing
     
     // Monologue mode (IELTS Part 4 style)
     if (isMonologue) {
-      return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions in IELTS Part 4 monologue style.
+      return `2. Create ${effectiveQuestionCount} fill-in-the-blank questions in IELTS Part 4 monologue style.
 
 CRITICAL RULES FOR MONOLOGUE MODE:
 - This is a SINGLE SPEAKER monologue (like a lecture, tour guide, or presentation)
@@ -2097,7 +2100,7 @@ Return ONLY valid JSON:
     }
     
     // Standard Fill-in-Blank
-    return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
+    return `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
 ${gapPositionInstruction}
 
 CRITICAL NEGATIVE CONSTRAINT: You are PROHIBITED from placing the blank at the very end of the sentence more than 30% of the time.
@@ -2118,7 +2121,7 @@ Return ONLY valid JSON:
   switch (questionType) {
     case 'MULTIPLE_CHOICE':
     case 'MULTIPLE_CHOICE_SINGLE':
-      return basePrompt + `2. Create ${effectiveQuestionCount} multiple choice questions (single answer).
+      return `2. Create ${effectiveQuestionCount} multiple choice questions (single answer).
 
 Return ONLY valid JSON:
 {
@@ -2134,7 +2137,7 @@ Return ONLY valid JSON:
       // For MCQ Multiple, we create ONE question "set" where test-takers must pick 3 answers.
       // The question group spans 3 question numbers (Questions 1-3) with 6 options (A-F).
       // This mirrors the reading MCMA format exactly.
-      return basePrompt + `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
+      return `2. Create ONE multiple choice question set where test-takers must select THREE correct answers from six options (A-F).
 
 CRITICAL REQUIREMENTS:
 - The question set spans Questions 1 to 3 (3 question numbers)
@@ -2165,7 +2168,7 @@ Return ONLY valid JSON:
       const totalOptionsDND = effectiveQuestionCount + numDistractorsDND;
       const lastLetterDND = String.fromCharCode(64 + totalOptionsDND);
       
-      return basePrompt + `2. Create ${effectiveQuestionCount} drag-and-drop questions with a word bank.
+      return `2. Create ${effectiveQuestionCount} drag-and-drop questions with a word bank.
 
 CRITICAL - DRAG & DROP FORMAT WITH DISTRACTORS:
 This is a WORD BANK question type where test-takers drag options to fill blanks.
@@ -2203,7 +2206,7 @@ Return ONLY valid JSON:
     }
 
     case 'TABLE_COMPLETION':
-      return basePrompt + `2. Create a table completion task with ${effectiveQuestionCount} blanks.
+      return `2. Create a table completion task with ${effectiveQuestionCount} blanks.
 
 Return ONLY valid JSON:
 {
@@ -2223,7 +2226,7 @@ Return ONLY valid JSON:
 }`;
 
     case 'FLOWCHART_COMPLETION':
-      return basePrompt + `2. Create a flowchart completion task with ${effectiveQuestionCount} blanks.
+      return `2. Create a flowchart completion task with ${effectiveQuestionCount} blanks.
 
 Return ONLY valid JSON:
 {
@@ -2243,7 +2246,7 @@ Return ONLY valid JSON:
 }`;
 
     case 'MAP_LABELING':
-      return basePrompt + `2. Create a map labeling task with ${effectiveQuestionCount} locations.
+      return `2. Create a map labeling task with ${effectiveQuestionCount} locations.
 
 CRITICAL: Use directional language, NEVER say "at position B".
 Include x,y coordinates (0-100 percentage) for each label and landmark for map rendering.
@@ -2280,7 +2283,7 @@ Return ONLY valid JSON:
 }`;
 
     case 'NOTE_COMPLETION':
-      return basePrompt + `2. Create a note completion task with ${effectiveQuestionCount} blanks.
+      return `2. Create a note completion task with ${effectiveQuestionCount} blanks.
 
 Return ONLY valid JSON:
 {
@@ -2304,7 +2307,7 @@ Return ONLY valid JSON:
 
 
     default:
-      return basePrompt + `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
+      return `2. Create ${effectiveQuestionCount} fill-in-the-blank questions.
 
 Return ONLY valid JSON:
 {
@@ -2353,7 +2356,32 @@ serve(async (req) => {
 
     // Parse request body first to check for userApiKey
     const body = await req.json();
-    const { module, questionType, difficulty, topicPreference, questionCount, timeMinutes, readingConfig, listeningConfig, writingConfig, skipPreflight, save_to_bank, userApiKey } = body;
+    // Seeded from the request in fixture mode, so recorded prompts can be replayed
+    promptRandom = await createPromptRandom({ ...body, userApiKey: undefined });
+    const { module, questionType: requestedQuestionType, difficulty: requestedDifficulty, topicPreference, questionCount, timeMinutes, readingConfig, listeningConfig, writingConfig, skipPreflight, save_to_bank, userApiKey } = body;
+    // Academic unless the client asked for General Training (only reading/writing differ)
+    const isGeneralTraining = body.testVariant === 'general';
+
+    // Adaptive mode: the level (and, when the client offers several question types,
+    // the type) expected to give the learner about 70% accuracy
+    let questionType = requestedQuestionType;
+    let difficulty = requestedDifficulty;
+    let adaptive: AdaptiveRecommendation | null = null;
+    if (requestedDifficulty === ADAPTIVE_DIFFICULTY) {
+      if (isAdaptiveModule(module)) {
+        const offeredTypes: string[] = Array.isArray(body.adaptiveQuestionTypes) && body.adaptiveQuestionTypes.length > 0
+          ? body.adaptiveQuestionTypes
+          : [requestedQuestionType];
+        try {
+          adaptive = await resolveAdaptivePractice(serviceClient, user.id, module, offeredTypes);
+        } catch (err) {
+          console.warn('Adaptive difficulty unavailable, using medium:', err);
+        }
+      }
+      difficulty = adaptive?.difficulty ?? 'medium';
+      questionType = adaptive?.questionType ?? requestedQuestionType;
+      console.log(`Adaptive practice: ${questionType}/${difficulty}, expected accuracy ${adaptive ? Math.round(adaptive.expectedAccuracy * 100) + '%' : 'n/a'}`);
+    }
 
     // ============ HYBRID KEY PRIORITY SYSTEM ============
     // Priority 1: User-provided key (header or body) - NO fallback on failure
@@ -2416,7 +2444,12 @@ serve(async (req) => {
       }
     }
     
-    if (!geminiApiKey) {
+    // Reading and writing are text-only, so a model chain without Gemini needs no Gemini key.
+    // Listening and speaking need one for TTS unless recorded fixtures are replayed.
+    const needsGeminiKey = !isFixtureReplay() && (module === 'listening' || module === 'speaking' ||
+      requiresGeminiKey(getModelChain('generate', GEMINI_MODELS)));
+
+    if (!geminiApiKey && needsGeminiKey) {
       return new Response(JSON.stringify({ 
         error: 'No API key available. Please add your Gemini API key in Settings, or contact support if using system keys.' 
       }), {
@@ -2429,40 +2462,45 @@ serve(async (req) => {
 
     // ============ CREDIT SYSTEM CHECK ============
     // Step 1: If user has their own key (BYOK), skip all credit checks
-    // Step 2-4: Check and enforce credit limits for system pool users
-    const operationType = module === 'reading' ? 'generate_reading' 
+    // Step 2-4: Check and enforce the plan's modules and credit limits for system pool users
+    const operationType: CreditOperation = module === 'reading' ? 'generate_reading' 
                         : module === 'listening' ? 'generate_listening'
                         : module === 'writing' ? 'generate_writing'
                         : module === 'speaking' ? 'generate_speaking'
                         : 'generate_reading';
+    const testId = crypto.randomUUID();
+    let creditReservationId: string | undefined;
+    allowedModelTiers = null;
     
     if (!isUserProvidedKey) {
-      const creditCheck = await checkAndReserveCredits(serviceClient, user.id, operationType as keyof typeof COSTS);
+      const creditCheck = await checkAndReserveCredits(serviceClient, user.id, operationType, testId);
       
       if (!creditCheck.ok) {
         return new Response(JSON.stringify({ 
           error: creditCheck.error,
-          errorType: 'CREDIT_LIMIT_EXCEEDED',
+          errorType: creditCheck.errorType,
           creditsUsed: creditCheck.creditsUsed,
           creditsRemaining: creditCheck.creditsRemaining,
-          dailyLimit: DAILY_CREDIT_LIMIT
+          dailyLimit: creditCheck.dailyLimit,
+          plan: creditCheck.plan
         }), {
           status: 403,
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
         });
       }
       
-      console.log(`Credits reserved: ${creditCheck.creditsUsed}/${DAILY_CREDIT_LIMIT} used, ${creditCheck.creditsRemaining} remaining after this operation`);
+      creditReservationId = creditCheck.reservationId;
+      allowedModelTiers = creditCheck.modelTiers ?? null;
+      console.log(`Credits reserved (${creditCheck.plan ?? 'unknown'} plan): ${creditCheck.creditsUsed}/${creditCheck.dailyLimit} used, ${creditCheck.creditsRemaining} remaining after this operation`);
     } else {
       console.log('BYOK mode: Skipping credit check');
     }
     
     // Track if we need to refund on error (only if credits were reserved)
     const creditsReserved = !isUserProvidedKey;
-    const currentOperationType = operationType as keyof typeof COSTS;
+    const currentOperationType = operationType;
     
-    const topic = topicPreference || IELTS_TOPICS[Math.floor(Math.random() * IELTS_TOPICS.length)];
-    const testId = crypto.randomUUID();
+    const topic = topicPreference || IELTS_TOPICS[Math.floor(promptRandom.next() * IELTS_TOPICS.length)];
 
     console.log(`Request received: ${module}/${questionType}/${difficulty}, topic: ${topic}`);
 
@@ -2796,6 +2834,7 @@ serve(async (req) => {
               questionGroups: groups,
               isPreset: true,
               presetId: preset.id,
+              adaptive,
             };
           
           console.log(`Serving listening preset: ${preset.topic}`);
@@ -3157,6 +3196,7 @@ serve(async (req) => {
             questionGroups: groups,
             isPreset: true,
             presetId: preset.id,
+            adaptive,
           };
           
           console.log(`Serving reading preset: ${preset.topic}`);
@@ -3192,7 +3232,7 @@ serve(async (req) => {
     // ============ FRESH GENERATION (if no preset found) ============
 
     // Pre-flight validation
-    const preflightResult = await preflightApiCheck(geminiApiKey, skipPreflight === true);
+    const preflightResult = await preflightApiCheck(geminiApiKey ?? '', skipPreflight === true || !needsGeminiKey);
     if (!preflightResult.ok) {
       return new Response(JSON.stringify({ 
         error: preflightResult.error,
@@ -3205,15 +3245,22 @@ serve(async (req) => {
     }
 
     if (module === 'reading') {
-      const readingPrompt = getReadingPrompt(questionType, topic, difficulty, questionCount, readingConfig);
-      const result = await callGemini(geminiApiKey, readingPrompt, 2, { dbKeys: dbApiKeys, serviceClient });
+      const { prompt: readingPrompt, version: promptVersion } = await renderPrompt(
+        serviceClient,
+        READING_GENERATION_PROMPT,
+        getReadingPromptVariables(questionType, topic, difficulty, questionCount, {
+          ...readingConfig,
+          gtSection: isGeneralTraining ? (readingConfig?.gtSection || 1) : undefined,
+        }),
+      );
+      const result = await callGemini(geminiApiKey, readingPrompt, 2, { dbKeys: dbApiKeys, serviceClient, promptVersion });
       
       let totalTokensUsed = getLastTokensUsed();
       
       if (!result) {
         // Refund credits on AI failure
         if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
         }
         if (wasQuotaExceeded()) {
           return new Response(JSON.stringify({ 
@@ -3254,7 +3301,7 @@ serve(async (req) => {
         console.error("Failed to parse/validate Gemini response:", e);
         // Refund credits on parse failure
         if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
         }
         return new Response(JSON.stringify({ 
           error: 'AI returned invalid content. Please try again.',
@@ -3332,6 +3379,8 @@ serve(async (req) => {
       const responsePayload = {
         testId,
         topic,
+        promptVersion,
+        adaptive,
         passage: {
           id: passageId,
           title: parsed.passage?.title || 'Reading Passage',
@@ -3348,6 +3397,16 @@ serve(async (req) => {
         }],
       };
 
+      const validation = await validateGeneratedPayload(
+        'reading', responsePayload, responsePayload.passage.content, geminiApiKey, { dbKeys: dbApiKeys, serviceClient }
+      );
+      if (!validation.valid) {
+        if (creditsReserved) {
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
+        }
+        return schemaErrorResponse(validation);
+      }
+
       // Save to test bank if requested
       if (save_to_bank) {
         await saveToTestBank(serviceClient, 'reading', topic, responsePayload);
@@ -3360,16 +3419,20 @@ serve(async (req) => {
       });
 
     } else if (module === 'listening') {
-      const scenario = LISTENING_SCENARIOS[Math.floor(Math.random() * LISTENING_SCENARIOS.length)];
-      const listeningPrompt = getListeningPrompt(questionType, topic, difficulty, LISTENING_QUESTION_COUNT, scenario, listeningConfig);
+      const scenario = LISTENING_SCENARIOS[Math.floor(promptRandom.next() * LISTENING_SCENARIOS.length)];
+      const { prompt: listeningPrompt, version: promptVersion } = await renderPrompt(
+        serviceClient,
+        LISTENING_GENERATION_PROMPT,
+        getListeningPromptVariables(questionType, topic, difficulty, LISTENING_QUESTION_COUNT, scenario, listeningConfig),
+      );
       
-      const result = await callGemini(geminiApiKey, listeningPrompt, 2, { dbKeys: dbApiKeys, serviceClient });
+      const result = await callGemini(geminiApiKey, listeningPrompt, 2, { dbKeys: dbApiKeys, serviceClient, promptVersion });
       let totalTokensUsed = getLastTokensUsed();
       
       if (!result) {
         // Refund credits on AI failure
         if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
         }
         if (wasQuotaExceeded()) {
           return new Response(JSON.stringify({ 
@@ -3423,7 +3486,7 @@ serve(async (req) => {
         console.error("Failed to parse/validate listening response:", e);
         // Refund credits on parse failure
         if (creditsReserved) {
-          await refundCredits(serviceClient, user.id, currentOperationType);
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
         }
         return new Response(JSON.stringify({ 
           error: 'AI returned invalid content. Please try again.',
@@ -3437,7 +3500,7 @@ serve(async (req) => {
 
       // Generate TTS audio
       const useTwoSpeakers = listeningConfig?.speakerConfig?.useTwoSpeakers !== false;
-      const audio = await generateAudio(geminiApiKey, parsed.dialogue, listeningConfig?.speakerConfig, 3, { dbKeys: dbApiKeys, serviceClient });
+      const audio = await generateAudio(geminiApiKey ?? '', parsed.dialogue, listeningConfig?.speakerConfig, 3, { dbKeys: dbApiKeys, serviceClient });
       
       await updateQuotaTracking(serviceClient, user.id, totalTokensUsed);
 
@@ -3702,6 +3765,8 @@ Return ONLY valid JSON:
       const responsePayload = {
         testId,
         topic,
+        promptVersion,
+        adaptive,
         transcript: displayTranscript,
         speakerNames,
         audioBase64: audio?.audioBase64 || null,
@@ -3718,6 +3783,16 @@ Return ONLY valid JSON:
         }],
       };
 
+      const validation = await validateGeneratedPayload(
+        'listening', responsePayload, displayTranscript || '', geminiApiKey, { dbKeys: dbApiKeys, serviceClient }
+      );
+      if (!validation.valid) {
+        if (creditsReserved) {
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
+        }
+        return schemaErrorResponse(validation);
+      }
+
       // Save to test bank if requested
       if (save_to_bank) {
         await saveToTestBank(serviceClient, 'listening', topic, responsePayload);
@@ -3735,6 +3810,8 @@ Return ONLY valid JSON:
       const taskType = writingConfig.taskType || questionType;
       const task1VisualType = writingConfig.task1VisualType || 'RANDOM';
       const task2EssayType = writingConfig.task2EssayType || 'RANDOM';
+      const task1LetterType = writingConfig.task1LetterType || 'RANDOM';
+      const writingModelChain = planModelChain(['gemini-2.5-flash']);
       
       const isFullTest = taskType === 'FULL_TEST';
       const includeTask1 = isFullTest || taskType === 'TASK_1';
@@ -3746,9 +3823,43 @@ Return ONLY valid JSON:
         const isTask1 = taskNum === 1;
         let writingPrompt: string;
         
-        if (isTask1) {
+        if (isTask1 && isGeneralTraining) {
+          // General Training Task 1 is a letter: a situation plus three bullet points, no visual
+          const letterTypeToUse = task1LetterType === 'RANDOM'
+            ? ['FORMAL', 'SEMI_FORMAL', 'INFORMAL'][Math.floor(promptRandom.next() * 3)]
+            : task1LetterType;
+          const letterGuide = {
+            'FORMAL': { recipient: 'a company, organisation or official the writer does not know', opening: 'Dear Sir or Madam,' },
+            'SEMI_FORMAL': { recipient: 'someone the writer knows in a formal role, such as a manager, landlord or neighbour', opening: 'Dear Mr/Ms ......,' },
+            'INFORMAL': { recipient: 'a friend or family member', opening: 'Dear ......,' },
+          }[letterTypeToUse as 'FORMAL' | 'SEMI_FORMAL' | 'INFORMAL'];
+          const letterUniquenessSeed = promptRandom.seed();
+
+          writingPrompt = `Generate an IELTS General Training Writing Task 1 (letter).
+
+UNIQUENESS ID: ${letterUniquenessSeed} (Create a COMPLETELY UNIQUE situation each time)
+Topic: ${topic}
+Difficulty: ${difficulty}
+Letter Type: ${letterTypeToUse} - written to ${letterGuide.recipient}
+
+IMPORTANT: The instruction must follow official IELTS format exactly:
+- Start with one or two sentences describing a realistic everyday situation
+- Then: "Write a letter to [recipient]. In your letter"
+- Then exactly three bullet points, each starting with a verb (e.g. "explain...", "describe...", "say what you would like...")
+- Then: "Write at least 150 words."
+- Then: "You do NOT need to write any addresses."
+- End with: "Begin your letter as follows: ${letterGuide.opening}"
+- Put each bullet point on its own line starting with "• "
+
+Return this EXACT JSON structure:
+{
+  "task_type": "task1",
+  "instruction": "[Situation]. Write a letter to [recipient]. In your letter\n• [first point]\n• [second point]\n• [third point]\nWrite at least 150 words.\nYou do NOT need to write any addresses.\nBegin your letter as follows:\n${letterGuide.opening}",
+  "letter_type": "${letterTypeToUse}"
+}`;
+        } else if (isTask1) {
           const visualTypeToUse = visualType === 'RANDOM'
-            ? ['BAR_CHART', 'LINE_GRAPH', 'PIE_CHART', 'TABLE', 'MIXED_CHARTS', 'PROCESS_DIAGRAM', 'MAP'][Math.floor(Math.random() * 7)]
+            ? ['BAR_CHART', 'LINE_GRAPH', 'PIE_CHART', 'TABLE', 'MIXED_CHARTS', 'PROCESS_DIAGRAM', 'MAP'][Math.floor(promptRandom.next() * 7)]
             : visualType;
 
           const instructionVerb = visualTypeToUse === 'MIXED_CHARTS' ? 'show' : 'shows';
@@ -3889,7 +4000,7 @@ Return ONLY valid JSON:
           }
             
           // Add uniqueness seed for variety
-          const uniquenessSeed = crypto.randomUUID().slice(0, 8);
+          const uniquenessSeed = promptRandom.seed();
           const dataContexts = [
             'statistics from a government survey',
             'data from a university research study',
@@ -3898,7 +4009,7 @@ Return ONLY valid JSON:
             'data collected over the past decade',
             'comparative statistics across countries',
           ];
-          const selectedContext = dataContexts[Math.floor(Math.random() * dataContexts.length)];
+          const selectedContext = dataContexts[Math.floor(promptRandom.next() * dataContexts.length)];
           
           writingPrompt = `You are a data analyst. Generate an IELTS Academic Writing Task 1 with BOTH the essay question AND the chart/diagram data.
 
@@ -3927,7 +4038,7 @@ Return this EXACT JSON structure:
 IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visualData matches the exact structure shown above. Make the data INTERESTING and VARIED.`;
         } else {
           const essayTypeToUse = essayType === 'RANDOM'
-            ? ['OPINION', 'DISCUSSION', 'PROBLEM_SOLUTION', 'ADVANTAGES_DISADVANTAGES', 'TWO_PART_QUESTION'][Math.floor(Math.random() * 5)]
+            ? ['OPINION', 'DISCUSSION', 'PROBLEM_SOLUTION', 'ADVANTAGES_DISADVANTAGES', 'TWO_PART_QUESTION'][Math.floor(promptRandom.next() * 5)]
             : essayType;
             
           const essayFormatGuide = {
@@ -3939,7 +4050,7 @@ IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visual
           };
           
           // Add uniqueness seed for Task 2
-          const task2UniquenessSeed = crypto.randomUUID().slice(0, 8);
+          const task2UniquenessSeed = promptRandom.seed();
           const perspectiveAngles = [
             'Consider this from both individual and societal perspectives.',
             'Think about short-term and long-term implications.',
@@ -3948,9 +4059,10 @@ IMPORTANT: Use whole numbers. Keep all labels under 15 characters. Ensure visual
             'Explore both traditional and modern perspectives on this issue.',
             'Consider local, national, and global dimensions of this topic.',
           ];
-          const selectedPerspective = perspectiveAngles[Math.floor(Math.random() * perspectiveAngles.length)];
+          const selectedPerspective = perspectiveAngles[Math.floor(promptRandom.next() * perspectiveAngles.length)];
           
-          writingPrompt = `Generate an IELTS Academic Writing Task 2.
+          writingPrompt = `Generate an IELTS ${isGeneralTraining ? 'General Training' : 'Academic'} Writing Task 2.
+${isGeneralTraining ? '\nGeneral Training Task 2 topics are of general interest and less academic in tone.\n' : ''}
 
 UNIQUENESS ID: ${task2UniquenessSeed} (Create a COMPLETELY UNIQUE prompt each time)
 Topic: ${topic}
@@ -3979,7 +4091,7 @@ Return this EXACT JSON structure:
 }`;
         }
 
-        // Use Gemini with JSON mode for stable, non-truncated output
+        // Use the configured model chain with JSON mode for stable, non-truncated output
         console.log(`Generating Task ${taskNum} with JSON mode...`);
 
         const safeParseJson = (raw: string): any => {
@@ -4000,61 +4112,50 @@ Return this EXACT JSON structure:
         for (let attempt = 0; attempt < maxAttempts; attempt++) {
           const maxOutputTokens = attempt === 0 ? baseMaxOutputTokens : baseMaxOutputTokens * 2;
 
-          // Retry loop for transient API errors (503, 429, etc.)
-          let response: Response | null = null;
+          // Walk the model chain; retry each model on transient API errors (503, 429, etc.)
+          let result: LLMGenerateResult | null = null;
+          let modelError: LLMProviderError | null = null;
           const maxApiRetries = 3;
-          for (let apiRetry = 0; apiRetry < maxApiRetries; apiRetry++) {
-            response = await fetch(
-              `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiApiKey}`,
-              {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({
-                  contents: [{ parts: [{ text: writingPrompt }] }],
-                  generationConfig: {
-                    temperature: 0.2,
-                    maxOutputTokens,
-                    responseMimeType: 'application/json',
-                  },
-                }),
+          for (const target of writingModelChain) {
+            for (let apiRetry = 0; apiRetry < maxApiRetries; apiRetry++) {
+              try {
+                result = await getLLMProvider(target.provider).generate(
+                  target,
+                  { prompt: writingPrompt, temperature: 0.2, maxOutputTokens, responseFormat: 'json' },
+                  geminiApiKey ?? undefined
+                );
+                break;
+              } catch (err) {
+                if (err instanceof LLMFixtureMissingError) throw err;
+                modelError = err instanceof LLMProviderError
+                  ? err
+                  : new LLMProviderError(err instanceof Error ? err.message : String(err), 'network', target.provider, target.model);
+                // Retry on transient errors (503 overloaded, 429 rate limit, 500 server error)
+                if (!modelError.isTransient && modelError.kind !== 'quota') break;
+                const retryDelay = Math.pow(2, apiRetry) * 1000 + Math.random() * 500;
+                console.warn(`Task ${taskNum} ${describeTarget(target)} returned ${modelError.status || modelError.kind}, retrying in ${Math.round(retryDelay)}ms (attempt ${apiRetry + 1}/${maxApiRetries})`);
+                await new Promise(resolve => setTimeout(resolve, retryDelay));
               }
-            );
-
-            // Retry on transient errors (503 overloaded, 429 rate limit, 500 server error)
-            if (response.status === 503 || response.status === 429 || response.status === 500) {
-              const retryDelay = Math.pow(2, apiRetry) * 1000 + Math.random() * 500;
-              console.warn(`Task ${taskNum} API returned ${response.status}, retrying in ${Math.round(retryDelay)}ms (attempt ${apiRetry + 1}/${maxApiRetries})`);
-              await new Promise(resolve => setTimeout(resolve, retryDelay));
-              continue;
             }
-            break;
+            if (result) break;
           }
 
-          if (!response || !response.ok) {
-            const errorText = response ? await response.text() : 'No response';
-            console.error(`Task ${taskNum} generation failed:`, response?.status, errorText);
-            throw new Error(`Failed to generate Task ${taskNum}: ${response?.status || 'unknown'}`);
+          if (!result) {
+            if (modelError?.kind === 'empty' || modelError?.kind === 'safety') {
+              lastErr = new Error(`Empty response for Task ${taskNum}`);
+              console.error(lastErr);
+              continue;
+            }
+            console.error(`Task ${taskNum} generation failed:`, modelError?.status, modelError?.message);
+            throw new Error(`Failed to generate Task ${taskNum}: ${modelError?.status || 'unknown'}`);
           }
 
-          const data = await response.json();
-
           // Track token usage
-          const usageMetadata = data.usageMetadata;
-          if (usageMetadata) {
-            const promptTokens = usageMetadata.promptTokenCount || 0;
-            const candidateTokens = usageMetadata.candidatesTokenCount || 0;
-            writingTotalTokensUsed += promptTokens + candidateTokens;
-            console.log(`Task ${taskNum} tokens - Prompt: ${promptTokens}, Output: ${candidateTokens}`);
-          }
-
-          const finishReason = data.candidates?.[0]?.finishReason;
+          writingTotalTokensUsed += result.tokensUsed;
+          console.log(`Task ${taskNum} tokens: ${result.tokensUsed} (${describeTarget(result)})`);
 
-          const resultText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-          if (!resultText) {
-            lastErr = new Error(`Empty response for Task ${taskNum}`);
-            console.error(lastErr);
-            continue;
-          }
+          const finishReason = result.finishReason;
+          const resultText = result.text;
 
           console.log(`Task ${taskNum} response length: ${resultText.length} chars (attempt ${attempt + 1}/${maxAttempts}, finishReason=${finishReason || 'unknown'})`);
 
@@ -4068,6 +4169,7 @@ Return this EXACT JSON structure:
               image_description: parsed.visual_description || parsed.instruction, // Fallback
               chartData: parsed.visualData || null, // Direct from combined response
               visual_type: parsed.visual_type,
+              letter_type: parsed.letter_type,
               essay_type: parsed.essay_type,
               word_limit_min: isTask1 ? 150 : 250,
               word_limit_max: isTask1 ? 200 : 350,
@@ -4112,9 +4214,7 @@ Return this EXACT JSON structure:
             await updateQuotaTracking(serviceClient, user.id, writingTotalTokensUsed);
           }
 
-          // Credits already reserved atomically before AI call - no deduction needed
-          
-          return new Response(JSON.stringify({
+          const responsePayload = {
             testId,
             topic,
             timeMinutes,
@@ -4125,7 +4225,18 @@ Return this EXACT JSON structure:
               task2: task2Result,
               time_minutes: timeMinutes,
             },
-          }), {
+          };
+          const validation = await validateGeneratedPayload('writing', responsePayload, '', geminiApiKey, {});
+          if (!validation.valid) {
+            if (creditsReserved) {
+              await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
+            }
+            return schemaErrorResponse(validation);
+          }
+
+          // Credits already reserved atomically before AI call - no deduction needed
+          
+          return new Response(JSON.stringify(responsePayload), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         } else {
@@ -4141,13 +4252,22 @@ Return this EXACT JSON structure:
             await updateQuotaTracking(serviceClient, user.id, writingTotalTokensUsed);
           }
 
-          // Credits already reserved atomically before AI call - no deduction needed
-          
-          return new Response(JSON.stringify({
+          const responsePayload = {
             testId,
             topic,
             writingTask: taskResult,
-          }), {
+          };
+          const validation = await validateGeneratedPayload('writing', responsePayload, '', geminiApiKey, {});
+          if (!validation.valid) {
+            if (creditsReserved) {
+              await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
+            }
+            return schemaErrorResponse(validation);
+          }
+
+          // Credits already reserved atomically before AI call - no deduction needed
+          
+          return new Response(JSON.stringify(responsePayload), {
             headers: { ...corsHeaders, 'Content-Type': 'application/json' },
           });
         }
@@ -4167,7 +4287,7 @@ Return this EXACT JSON structure:
       const includePart3 = isFullTest || questionType === 'PART_3';
 
       // Add uniqueness seed to ensure variety across generations
-      const uniquenessSeed = crypto.randomUUID().slice(0, 8);
+      const uniquenessSeed = promptRandom.seed();
       const randomAngles = [
         'Focus on personal experiences and memories related to this topic.',
         'Explore the social and cultural aspects of this topic.',
@@ -4178,7 +4298,7 @@ Return this EXACT JSON structure:
         'Consider technological influences on this topic.',
         'Explore environmental or sustainability aspects of this topic.',
       ];
-      const selectedAngle = randomAngles[Math.floor(Math.random() * randomAngles.length)];
+      const selectedAngle = randomAngles[Math.floor(promptRandom.next() * randomAngles.length)];
       
       const questionStyleVariants = [
         'Use varied question structures: some "What...", some "How...", some "Why...", some "Do you think..."',
@@ -4186,7 +4306,7 @@ Return this EXACT JSON structure:
         'Mix opinion-based questions with experience-based questions.',
         'Balance between simple recall questions and analytical questions.',
       ];
-      const selectedStyle = questionStyleVariants[Math.floor(Math.random() * questionStyleVariants.length)];
+      const selectedStyle = questionStyleVariants[Math.floor(promptRandom.next() * questionStyleVariants.length)];
 
       const speakingPrompt = `Generate an official IELTS Speaking test matching the EXACT style and difficulty of Cambridge IELTS test books.
 
@@ -4341,13 +4461,22 @@ Generate natural, conversational questions matching Cambridge IELTS Band 7-8 dif
         };
       });
 
-      // Credits already reserved atomically before AI call - no deduction needed
-
-      return new Response(JSON.stringify({
+      const responsePayload = {
         testId,
         topic: parsed.topic || topic,
         speakingParts,
-      }), {
+      };
+      const validation = await validateGeneratedPayload('speaking', responsePayload, '', geminiApiKey, {});
+      if (!validation.valid) {
+        if (creditsReserved) {
+          await refundCredits(serviceClient, user.id, currentOperationType, creditReservationId);
+        }
+        return schemaErrorResponse(validation);
+      }
+
+      // Credits already reserved atomically before AI call - no deduction needed
+
+      return new Response(JSON.stringify(responsePayload), {
         headers: { ...corsHeaders, 'Content-Type': 'application/json' },
       });
     }
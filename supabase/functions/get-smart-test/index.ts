@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ADAPTIVE_DIFFICULTY, ADAPTIVE_LEVELS, AdaptiveRecommendation } from "../_shared/adaptiveDifficulty.ts";
+import { isAdaptiveModule, resolveAdaptivePractice } from "../_shared/learnerAbility.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -38,6 +40,40 @@ serve(async (req) => {
 
     console.log(`[get-smart-test] Request: module=${module}, topic=${topic}, difficulty=${difficulty}, questionType=${questionType}`);
 
+    // Adaptive mode: pick the level (and the question type, when none was asked
+    // for) expected to give the learner about 70% accuracy, among published tests
+    let effectiveQuestionType = questionType;
+    let adaptive: AdaptiveRecommendation | null = null;
+
+    if (difficulty === ADAPTIVE_DIFFICULTY && userId && isAdaptiveModule(module)) {
+      let availableQuery = supabase
+        .from("generated_test_audio")
+        .select("question_type, difficulty")
+        .eq("module", module)
+        .eq("is_published", true)
+        .eq("status", "ready");
+
+      if (questionType) {
+        availableQuery = availableQuery.eq("question_type", questionType);
+      }
+
+      const { data: availableData } = await availableQuery;
+      const available = (availableData || []) as { question_type: string; difficulty: string }[];
+      const offeredTypes = [...new Set(available.map((t) => t.question_type))].sort();
+      const offeredLevels = ADAPTIVE_LEVELS.filter((level) => available.some((t) => t.difficulty === level));
+
+      try {
+        adaptive = await resolveAdaptivePractice(supabase, userId, module, offeredTypes, offeredLevels);
+      } catch (err) {
+        console.warn("[get-smart-test] Adaptive difficulty unavailable:", err);
+      }
+
+      if (adaptive) {
+        effectiveQuestionType = adaptive.questionType;
+        console.log(`[get-smart-test] Adaptive: ${adaptive.questionType}/${adaptive.difficulty}, expected accuracy ${Math.round(adaptive.expectedAccuracy * 100)}%`);
+      }
+    }
+
     // If no topic is specified and user is logged in, use Smart-Cycle algorithm to pick topic
     let effectiveTopic = topic;
     
@@ -52,9 +88,12 @@ serve(async (req) => {
         .eq("status", "ready");
 
       // Apply question type filter when determining available topics
-      // Note: Difficulty filter removed for test-takers
-      if (questionType) {
-        topicQuery = topicQuery.eq("question_type", questionType);
+      // Note: Difficulty filter removed for test-takers (except in adaptive mode)
+      if (effectiveQuestionType) {
+        topicQuery = topicQuery.eq("question_type", effectiveQuestionType);
+      }
+      if (adaptive) {
+        topicQuery = topicQuery.eq("difficulty", adaptive.difficulty);
       }
 
       const { data: topicData } = await topicQuery;
@@ -98,12 +137,16 @@ serve(async (req) => {
       .eq("is_published", true)
       .eq("status", "ready");
 
-    // Note: Difficulty filter removed for test-takers - they get tests at any difficulty level
+    // Note: Difficulty filter removed for test-takers - they get tests at any difficulty level,
+    // unless adaptive mode picked one
+    if (adaptive) {
+      query = query.eq("difficulty", adaptive.difficulty);
+    }
 
     // CRITICAL: Filter by questionType if provided
-    if (questionType) {
-      query = query.eq("question_type", questionType);
-      console.log(`[get-smart-test] Filtering by question_type: ${questionType}`);
+    if (effectiveQuestionType) {
+      query = query.eq("question_type", effectiveQuestionType);
+      console.log(`[get-smart-test] Filtering by question_type: ${effectiveQuestionType}`);
     }
 
     // Filter by topic if provided (or determined by Smart-Cycle)
@@ -267,6 +310,7 @@ serve(async (req) => {
       JSON.stringify({
         success: true,
         test: selectedTest,
+        adaptive,
       }),
       { headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
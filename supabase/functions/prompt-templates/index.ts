@@ -0,0 +1,76 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { PromptDefinition } from "../_shared/promptTemplates.ts";
+import { LISTENING_GENERATION_PROMPT, READING_GENERATION_PROMPT } from "../_shared/generationPrompts.ts";
+import { SPEAKING_TEXT_PROMPT } from "../_shared/speakingTextPrompt.ts";
+import { SPEAKING_AUDIO_PROMPT } from "../_shared/speakingAudioPrompt.ts";
+import { FULL_WRITING_TEST_PROMPT, PRACTICE_WRITING_PROMPT, WRITING_SUBMISSION_PROMPT } from "../_shared/writingEvaluationPrompt.ts";
+
+/**
+ * Prompt template definitions (admin only)
+ *
+ * Returns every templated prompt with its built-in template and the variables
+ * the calling code supplies, so the admin editor can start a new version from
+ * the built-in wording and check it only uses known variables. The versions
+ * themselves live in prompt_templates and are edited directly under RLS.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const DEFINITIONS: PromptDefinition[] = [
+  READING_GENERATION_PROMPT,
+  LISTENING_GENERATION_PROMPT,
+  WRITING_SUBMISSION_PROMPT,
+  PRACTICE_WRITING_PROMPT,
+  FULL_WRITING_TEST_PROMPT,
+  SPEAKING_TEXT_PROMPT,
+  SPEAKING_AUDIO_PROMPT,
+];
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await serviceClient.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid token" }, 401);
+    }
+
+    const { data: adminCheck } = await serviceClient
+      .from("admin_users")
+      .select("id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (!adminCheck) {
+      return jsonResponse({ error: "Admin access required" }, 403);
+    }
+
+    return jsonResponse({ definitions: DEFINITIONS });
+  } catch (error) {
+    console.error("[prompt-templates] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
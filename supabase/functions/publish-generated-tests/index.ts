@@ -6,6 +6,28 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// Aligns the transcripts of newly published listening tests one at a time, so
+// students' review mode gets a stored alignment instead of calling the model
+async function alignPublishedTranscripts(supabaseUrl: string, serviceKey: string, testIds: string[]) {
+  for (const testId of testIds) {
+    try {
+      const res = await fetch(`${supabaseUrl}/functions/v1/align-transcript`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${serviceKey}`,
+        },
+        body: JSON.stringify({ sourceType: "generated_test_audio", sourceId: testId }),
+      });
+      if (!res.ok) {
+        console.error(`[publish-generated-tests] Alignment of ${testId} failed: ${await res.text().catch(() => res.status)}`);
+      }
+    } catch (err) {
+      console.error(`[publish-generated-tests] Failed to align ${testId}:`, err);
+    }
+  }
+}
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -64,7 +86,7 @@ serve(async (req) => {
       .from("generated_test_audio")
       .update({ is_published: isPublish })
       .in("id", testIds)
-      .select("id");
+      .select("id, module, transcript, audio_url");
 
     if (error) {
       return new Response(JSON.stringify({ error: "Failed to update tests" }), {
@@ -73,6 +95,18 @@ serve(async (req) => {
       });
     }
 
+    const toAlign = isPublish
+      ? data.filter((d) => d.module === "listening" && d.transcript && d.audio_url).map((d) => d.id)
+      : [];
+    if (toAlign.length > 0) {
+      const alignment = alignPublishedTranscripts(supabaseUrl, supabaseServiceKey, toAlign);
+      if (typeof EdgeRuntime !== "undefined" && EdgeRuntime.waitUntil) {
+        EdgeRuntime.waitUntil(alignment);
+      } else {
+        alignment.catch(console.error);
+      }
+    }
+
     return new Response(
       JSON.stringify({
         success: true,
@@ -89,3 +123,8 @@ serve(async (req) => {
     );
   }
 });
+
+// Declare EdgeRuntime for TypeScript
+declare const EdgeRuntime: {
+  waitUntil?: (promise: Promise<unknown>) => void;
+} | undefined;
@@ -74,25 +74,28 @@ serve(async (req) => {
 
     console.log("Reset admin API key quotas via reset_api_key_model_quotas()");
 
-    // Reset user daily credits (profiles.daily_credits_used)
-    const { data: profilesReset, error: profilesError } = await serviceClient
-      .from("profiles")
-      .update({
-        daily_credits_used: 0,
-        last_reset_date: today,
-        updated_at: new Date().toISOString(),
-      })
-      .lt("last_reset_date", today)
-      .select("id");
+    // Reset user daily credits (profiles.daily_credits_used), recording each reset in the credit ledger
+    const { data: profilesReset, error: profilesError } = await serviceClient.rpc("reset_daily_credits");
 
     if (profilesError) {
       console.error("Error resetting user profiles:", profilesError);
       throw profilesError;
     }
 
-    const profilesCount = profilesReset?.length || 0;
+    const profilesCount = profilesReset || 0;
     console.log(`Reset ${profilesCount} user profile credits`);
 
+    // Expire subscriptions past their end date and grace period
+    const { data: subscriptionsExpired, error: subscriptionsError } = await serviceClient.rpc("expire_subscriptions");
+
+    if (subscriptionsError) {
+      console.error("Error expiring subscriptions:", subscriptionsError);
+      throw subscriptionsError;
+    }
+
+    const subscriptionsCount = subscriptionsExpired || 0;
+    console.log(`Expired ${subscriptionsCount} subscriptions`);
+
     const result = {
       success: true,
       message: "Daily quota reset completed",
@@ -101,6 +104,7 @@ serve(async (req) => {
         userApiKeysReset: userKeysCount,
         adminApiKeysReset: "all (via RPC)",
         userProfilesReset: profilesCount,
+        subscriptionsExpired: subscriptionsCount,
       },
     };
 
@@ -0,0 +1,465 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getActiveGeminiKeysForModels } from "../_shared/apiKeyQuotaUtils.ts";
+import {
+  describeTarget,
+  generateWithFallback,
+  LLMModelTarget,
+  LLMProviderError,
+  parseModelChain,
+  requiresGeminiKey,
+} from "../_shared/llmProvider.ts";
+import { LLMFixtureMissingError, LLMFixtureMode } from "../_shared/llmFixtures.ts";
+import { calculateBandFromCriteria, parseJson } from "../_shared/speakingUtils.ts";
+import {
+  getWritingEvaluationPromptVariables,
+  getWritingSubmissionPromptVariables,
+  PRACTICE_WRITING_PROMPT,
+  WRITING_SUBMISSION_PROMPT,
+} from "../_shared/writingEvaluationPrompt.ts";
+import { evaluateWriting } from "../_shared/writingEvaluation.ts";
+import {
+  buildTextPromptVariables,
+  SPEAKING_TEXT_PROMPT,
+  SpeakingSegmentTranscript,
+  SpeakingTestPayload,
+} from "../_shared/speakingTextPrompt.ts";
+import {
+  choosePromptTemplate,
+  parsePromptVersion,
+  PromptDefinition,
+  PromptTemplateError,
+  PromptVariables,
+  PromptVersionPin,
+  renderChosenPrompt,
+} from "../_shared/promptTemplates.ts";
+
+/**
+ * Calibration harness runner (admin only)
+ *
+ * Scores the gold-standard calibration_items with one evaluation prompt and
+ * model, so the AI bands can be compared with the examiner bands.
+ *
+ *   { action: 'start', evaluator, model, mode, promptVersion? }
+ *                                                      - create a run with a pending result per active item
+ *   { action: 'continue', runId }                        - score the next batch; call until remaining is 0
+ *   { action: 'cancel', runId }                          - stop a run, keeping what was scored
+ *
+ * Each call scores a small batch so a run never hits the function time limit.
+ * mode 'replay' serves recorded LLM fixtures instead of calling the model.
+ * promptVersion pins a prompt_templates version (or 'builtin', the default)
+ * so a candidate version can be calibrated before it is rolled out.
+ */
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 3;
+
+type Evaluator = 'writing_submission' | 'practice_writing' | 'speaking_text';
+
+const EVALUATORS: Record<Evaluator, { module: 'writing' | 'speaking'; prompt: PromptDefinition }> = {
+  writing_submission: { module: 'writing', prompt: WRITING_SUBMISSION_PROMPT },
+  practice_writing: { module: 'writing', prompt: PRACTICE_WRITING_PROMPT },
+  speaking_text: { module: 'speaking', prompt: SPEAKING_TEXT_PROMPT },
+};
+
+// Practice-writing reports use their own criterion keys; results are stored under the canonical ones
+const WRITING_CRITERIA: Record<string, string[]> = {
+  task_achievement_response: ['task_achievement_response', 'task_achievement', 'task_response'],
+  coherence_and_cohesion: ['coherence_and_cohesion', 'coherence_cohesion'],
+  lexical_resource: ['lexical_resource'],
+  grammatical_range_and_accuracy: ['grammatical_range_and_accuracy', 'grammatical_accuracy'],
+};
+
+const SPEAKING_CRITERIA = ['fluency_coherence', 'lexical_resource', 'grammatical_range', 'pronunciation'];
+
+interface CalibrationItem {
+  id: string;
+  module: string;
+  title: string;
+  task_type: string | null;
+  instruction: string | null;
+  response_text: string | null;
+  transcripts: unknown;
+}
+
+interface CalibrationRun {
+  id: string;
+  module: string;
+  evaluator: Evaluator;
+  model_name: string;
+  prompt_version: string;
+  mode: 'live' | 'replay';
+  status: string;
+}
+
+interface ScoredBands {
+  overall: number | null;
+  bands: Record<string, number>;
+}
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+}
+
+function toBand(value: unknown): number | null {
+  const band = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(band) && band >= 0 && band <= 9 ? Math.round(band * 2) / 2 : null;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? (value as Record<string, unknown>) : {};
+}
+
+// ============================================================================
+// PROMPTS
+// ============================================================================
+
+function writingPromptVariables(run: CalibrationRun, item: CalibrationItem): PromptVariables {
+  const submissionText = item.response_text ?? '';
+  const isLetterTask = item.task_type === 'letter';
+  const taskType = item.task_type === 'task2' ? 'task2' : 'task1';
+  const instruction = item.instruction ?? '';
+
+  if (run.evaluator === 'practice_writing') {
+    const wordCount = submissionText.trim().split(/\s+/).filter(Boolean).length;
+    return getWritingEvaluationPromptVariables(taskType, instruction, submissionText, wordCount, undefined, undefined, isLetterTask ? 'GENERAL' : undefined);
+  }
+
+  return getWritingSubmissionPromptVariables({
+    taskType,
+    isLetterTask,
+    instruction,
+    textContent: null,
+    submissionText,
+    wordLimitMin: taskType === 'task1' ? 150 : 250,
+    wordLimitMax: null,
+    hasImage: false,
+  });
+}
+
+// Calibration transcripts have no audio metrics, only what the candidate said
+function speakingPromptVariables(item: CalibrationItem): PromptVariables {
+  const entries = Array.isArray(item.transcripts) ? item.transcripts : [];
+  const transcripts: Record<string, SpeakingSegmentTranscript> = {};
+  const parts = new Map<number, { id: string; question_number: number; question_text: string }[]>();
+
+  entries.forEach((entry, index) => {
+    const { part, question, transcript } = asRecord(entry);
+    const partNumber = Number(part);
+    if (![1, 2, 3].includes(partNumber) || typeof transcript !== 'string' || !transcript.trim()) return;
+    const questionId = String(index + 1);
+    const questions = parts.get(partNumber) ?? [];
+    questions.push({
+      id: questionId,
+      question_number: questions.length + 1,
+      question_text: typeof question === 'string' ? question : '',
+    });
+    parts.set(partNumber, questions);
+    transcripts[`part${partNumber}-q${questionId}`] = { rawTranscript: transcript.trim() };
+  });
+
+  const payload: SpeakingTestPayload = {
+    speakingParts: Array.from(parts, ([part_number, questions]) => ({ part_number, questions })),
+  };
+  return buildTextPromptVariables(transcripts, item.title, 'medium', false, payload);
+}
+
+// Runs record the version they were started with; older runs predate prompt_templates
+function runPromptPin(run: CalibrationRun): PromptVersionPin {
+  return parsePromptVersion(run.prompt_version)?.pin ?? 'builtin';
+}
+
+// ============================================================================
+// SCORING
+// ============================================================================
+
+function extractBands(run: CalibrationRun, response: unknown): ScoredBands {
+  const parsed = asRecord(response);
+  const bands: Record<string, number> = {};
+
+  if (run.module === 'writing') {
+    const report = asRecord(parsed.evaluation_report);
+    for (const [key, aliases] of Object.entries(WRITING_CRITERIA)) {
+      for (const alias of aliases) {
+        const band = toBand(asRecord(report[alias]).band);
+        if (band !== null) {
+          bands[key] = band;
+          break;
+        }
+      }
+    }
+    return { overall: toBand(parsed.overall_band), bands };
+  }
+
+  const criteria = asRecord(parsed.criteria);
+  for (const key of SPEAKING_CRITERIA) {
+    const criterion = asRecord(criteria[key]);
+    const band = toBand(criterion.band ?? criterion.score);
+    if (band !== null) bands[key] = band;
+  }
+  const overall = toBand(parsed.overall_band) ?? (Object.keys(bands).length > 0 ? calculateBandFromCriteria(criteria) : null);
+  return { overall, bands };
+}
+
+// Key rotation: a quota or key error moves on to the next pool key
+const isKeyError = (error: LLMProviderError) =>
+  error.kind === 'quota' || error.kind === 'rate_limit' || error.kind === 'invalid_key' || error.kind === 'permission';
+
+async function scoreItem(
+  run: CalibrationRun,
+  item: CalibrationItem,
+  chain: LLMModelTarget[],
+  keys: { id: string; key_value: string }[],
+  serviceClient: SupabaseClient
+): Promise<ScoredBands> {
+  const choice = await choosePromptTemplate(serviceClient, EVALUATORS[run.evaluator].prompt, runPromptPin(run));
+  const { prompt, version: promptVersion } = renderChosenPrompt(
+    choice,
+    run.module === 'writing' ? writingPromptVariables(run, item) : speakingPromptVariables(item)
+  );
+  const fixtureMode: LLMFixtureMode | undefined = run.mode === 'replay' ? 'replay' : undefined;
+  const candidates = requiresGeminiKey(chain, fixtureMode) ? keys : [null];
+  if (candidates.length === 0) throw new Error('No API keys available');
+
+  let lastError: unknown = null;
+  for (const key of candidates) {
+    const options = {
+      task: 'calibrate' as const,
+      models: chain,
+      fixtureMode,
+      apiKey: key?.key_value,
+      apiKeyId: key?.id,
+      serviceClient,
+      promptVersion,
+      shouldAbort: isKeyError,
+    };
+    try {
+      // Writing items go through the live evaluators' call, settings and parsing included
+      const parsed = run.evaluator === 'speaking_text'
+        ? parseJson((await generateWithFallback(
+            { prompt, responseFormat: 'json', temperature: 0 },
+            { ...options, defaultModels: chain }
+          )).text)
+        : (await evaluateWriting(run.evaluator, prompt, [], options)).parsed;
+      if (!parsed) throw new Error('Model response was not valid JSON');
+      return extractBands(run, parsed);
+    } catch (err) {
+      lastError = err;
+      if (err instanceof LLMProviderError && isKeyError(err)) continue;
+      throw err;
+    }
+  }
+  throw lastError ?? new Error('All API keys failed');
+}
+
+async function refreshRunCounts(serviceClient: SupabaseClient, run: CalibrationRun): Promise<{ remaining: number }> {
+  const { data: results } = await serviceClient
+    .from('calibration_results')
+    .select('status')
+    .eq('run_id', run.id);
+
+  const statuses = (results ?? []).map((row: { status: string }) => row.status);
+  const remaining = statuses.filter((status) => status === 'pending').length;
+  const update: Record<string, unknown> = {
+    scored_count: statuses.filter((status) => status === 'scored').length,
+    error_count: statuses.filter((status) => status === 'error').length,
+  };
+  if (remaining === 0 && run.status === 'running') {
+    update.status = 'completed';
+    update.completed_at = new Date().toISOString();
+  }
+  await serviceClient.from('calibration_runs').update(update).eq('id', run.id);
+  return { remaining };
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+async function startRun(serviceClient: SupabaseClient, userId: string, body: Record<string, unknown>): Promise<Response> {
+  const evaluator = body.evaluator as Evaluator;
+  const config = EVALUATORS[evaluator];
+  if (!config) return jsonResponse({ error: 'Invalid evaluator' }, 400);
+
+  const chain = parseModelChain(typeof body.model === 'string' ? body.model : '');
+  if (chain.length !== 1) return jsonResponse({ error: 'Choose exactly one model to calibrate' }, 400);
+
+  const mode = body.mode === 'replay' ? 'replay' : 'live';
+
+  const pin: PromptVersionPin = typeof body.promptVersion === 'number' ? body.promptVersion : 'builtin';
+  let promptVersion: string;
+  try {
+    promptVersion = (await choosePromptTemplate(serviceClient, config.prompt, pin)).version;
+  } catch (err) {
+    if (err instanceof PromptTemplateError) return jsonResponse({ error: err.message }, 400);
+    throw err;
+  }
+
+  const { data: items, error: itemsError } = await serviceClient
+    .from('calibration_items')
+    .select('id, examiner_overall, examiner_bands')
+    .eq('module', config.module)
+    .eq('is_active', true);
+  if (itemsError) throw itemsError;
+  if (!items || items.length === 0) {
+    return jsonResponse({ error: `No active ${config.module} calibration items` }, 400);
+  }
+
+  const { data: run, error: runError } = await serviceClient
+    .from('calibration_runs')
+    .insert({
+      module: config.module,
+      evaluator,
+      model_name: describeTarget(chain[0]),
+      prompt_version: promptVersion,
+      mode,
+      item_count: items.length,
+      created_by: userId,
+    })
+    .select()
+    .single();
+  if (runError) throw runError;
+
+  const { error: resultsError } = await serviceClient.from('calibration_results').insert(
+    items.map((item: { id: string; examiner_overall: number; examiner_bands: unknown }) => ({
+      run_id: run.id,
+      item_id: item.id,
+      examiner_overall: item.examiner_overall,
+      examiner_bands: item.examiner_bands,
+    }))
+  );
+  if (resultsError) throw resultsError;
+
+  console.log(`[run-calibration] Started run ${run.id}: ${evaluator} with ${run.model_name} (${mode}), ${items.length} items`);
+  return jsonResponse({ run, remaining: items.length });
+}
+
+async function continueRun(serviceClient: SupabaseClient, runId: string): Promise<Response> {
+  const { data: run, error: runError } = await serviceClient
+    .from('calibration_runs')
+    .select('*')
+    .eq('id', runId)
+    .single();
+  if (runError || !run) return jsonResponse({ error: 'Run not found' }, 404);
+  if (run.status !== 'running') return jsonResponse({ run, remaining: 0 });
+
+  const { data: pending, error: pendingError } = await serviceClient
+    .from('calibration_results')
+    .select('id, item:calibration_items(id, module, title, task_type, instruction, response_text, transcripts)')
+    .eq('run_id', runId)
+    .eq('status', 'pending')
+    .limit(BATCH_SIZE);
+  if (pendingError) throw pendingError;
+
+  const chain = parseModelChain(run.model_name);
+  const keys = requiresGeminiKey(chain, run.mode === 'replay' ? 'replay' : undefined)
+    ? await getActiveGeminiKeysForModels(serviceClient, chain.filter((t) => t.provider === 'gemini').map((t) => t.model))
+    : [];
+
+  for (const row of (pending ?? []) as { id: string; item: CalibrationItem | null }[]) {
+    const startTime = Date.now();
+    if (!row.item) {
+      await serviceClient.from('calibration_results')
+        .update({ status: 'error', error_message: 'Item was deleted' })
+        .eq('id', row.id);
+      continue;
+    }
+
+    try {
+      const scored = await scoreItem(run, row.item, chain, keys, serviceClient);
+      await serviceClient.from('calibration_results').update({
+        status: scored.overall === null ? 'error' : 'scored',
+        ai_overall: scored.overall,
+        ai_bands: scored.bands,
+        error_message: scored.overall === null ? 'No overall band in the model response' : null,
+        response_time_ms: Date.now() - startTime,
+        scored_at: new Date().toISOString(),
+      }).eq('id', row.id);
+    } catch (err) {
+      const message = err instanceof LLMFixtureMissingError
+        ? 'No recorded fixture for this item - run it live with LLM_FIXTURE_MODE=record first'
+        : err instanceof Error ? err.message : String(err);
+      console.error(`[run-calibration] Item ${row.item.id} failed:`, message);
+      await serviceClient.from('calibration_results').update({
+        status: 'error',
+        error_message: message.slice(0, 500),
+        response_time_ms: Date.now() - startTime,
+      }).eq('id', row.id);
+    }
+  }
+
+  const { remaining } = await refreshRunCounts(serviceClient, run);
+  const { data: updated } = await serviceClient.from('calibration_runs').select('*').eq('id', runId).single();
+  return jsonResponse({ run: updated ?? run, remaining });
+}
+
+async function cancelRun(serviceClient: SupabaseClient, runId: string): Promise<Response> {
+  const { data: run, error } = await serviceClient
+    .from('calibration_runs')
+    .update({ status: 'cancelled', completed_at: new Date().toISOString() })
+    .eq('id', runId)
+    .eq('status', 'running')
+    .select()
+    .maybeSingle();
+  if (error) throw error;
+  return jsonResponse({ run, remaining: 0 });
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return jsonResponse({ error: "Unauthorized" }, 401);
+    }
+
+    const serviceClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? ""
+    );
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: { user }, error: authError } = await serviceClient.auth.getUser(token);
+    if (authError || !user) {
+      return jsonResponse({ error: "Invalid token" }, 401);
+    }
+
+    const { data: adminCheck } = await serviceClient
+      .from("admin_users")
+      .select("id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    if (!adminCheck) {
+      return jsonResponse({ error: "Admin access required" }, 403);
+    }
+
+    const body = asRecord(await req.json());
+    const runId = typeof body.runId === 'string' ? body.runId : '';
+
+    switch (body.action) {
+      case 'start':
+        return await startRun(serviceClient, user.id, body);
+      case 'continue':
+        if (!runId) return jsonResponse({ error: 'runId is required' }, 400);
+        return await continueRun(serviceClient, runId);
+      case 'cancel':
+        if (!runId) return jsonResponse({ error: 'runId is required' }, 400);
+        return await cancelRun(serviceClient, runId);
+      default:
+        return jsonResponse({ error: 'Unknown action' }, 400);
+    }
+  } catch (error) {
+    console.error("[run-calibration] Error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
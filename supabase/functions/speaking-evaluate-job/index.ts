@@ -1,27 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
-import { GoogleGenerativeAI } from "https://esm.sh/@google/generative-ai@0.21.0";
 import { crypto } from "https://deno.land/std@0.168.0/crypto/mod.ts";
-import { 
-  getActiveGeminiKeysForModels, 
-  markModelQuotaExhausted,
-  isQuotaExhaustedError,
-  isDailyQuotaExhaustedError,
-  isModelExhaustedForKey
-} from "../_shared/apiKeyQuotaUtils.ts";
-import { 
-  createPerformanceLogger,
-} from "../_shared/performanceLogger.ts";
+import { getPlanModelTiers } from "../_shared/credits.ts";
+import { getModelChain, LLMAudio, requiresGeminiKey, restrictToPlan } from "../_shared/llmProvider.ts";
+import { getFromR2 } from "../_shared/r2Client.ts";
+import { bytesToBase64, evaluateSpeaking, loadSpeakingKeys } from "../_shared/speakingEvaluation.ts";
 import {
-  decryptKey,
-  parseJson,
-  exponentialBackoffWithJitter,
-  extractRetryAfterSeconds,
-  sleep,
   calculateBandFromCriteria,
   computeWeightedPartBand,
   corsHeaders,
-  QuotaError,
 } from "../_shared/speakingUtils.ts";
 
 /**
@@ -33,8 +20,9 @@ import {
 
 // =============================================================================
 // Model Priority: Stable native audio models for speech analysis
+// (default chain; LLM_MODELS_EVALUATE_SPEAKING overrides it)
 // =============================================================================
-const GEMINI_MODELS = [
+const SPEAKING_MODELS = [
   'gemini-2.0-flash',                    // 1. Primary: Best Audio Stability
   'gemini-2.0-flash-lite-preview-02-05', // 2. Backup: High Quota Audio
   'gemini-2.5-flash',                    // 3. Last Resort: Standard stable
@@ -43,24 +31,6 @@ const HEARTBEAT_INTERVAL_MS = 15000;
 const LOCK_DURATION_MINUTES = 5;
 const AI_CALL_TIMEOUT_MS = 90000;
 
-// Rate limiting delays
-const BASE_RETRY_DELAY_MS = 5000;
-const MAX_RETRY_DELAY_MS = 60000;
-const KEY_SWITCH_DELAY_MS = 2000;
-
-async function withTimeout<T>(promise: Promise<T>, timeoutMs: number, label: string): Promise<T> {
-  let timer: number | null = null;
-  const timeout = new Promise<never>((_, reject) => {
-    timer = setTimeout(() => reject(new Error(`${label} timed out after ${Math.round(timeoutMs / 1000)}s`)), timeoutMs);
-  });
-
-  try {
-    return await Promise.race([promise, timeout]);
-  } finally {
-    if (timer) clearTimeout(timer);
-  }
-}
-
 serve(async (req) => {
   console.log(`[speaking-evaluate-job] Request at ${new Date().toISOString()}`);
   
@@ -145,13 +115,13 @@ serve(async (req) => {
     }
 
     const job = updatedJobs[0];
-    const googleFileUris = job.google_file_uris as Record<string, { fileUri: string; mimeType: string; index: number }>;
+    const filePathsMap = (job.file_paths || {}) as Record<string, string>;
     
-    if (!googleFileUris || Object.keys(googleFileUris).length === 0) {
-      throw new Error('No Google File URIs found - upload stage incomplete');
+    if (Object.keys(filePathsMap).length === 0) {
+      throw new Error('No recordings found for this job');
     }
 
-    console.log(`[speaking-evaluate-job] Claimed job ${jobId}, ${Object.keys(googleFileUris).length} files ready`);
+    console.log(`[speaking-evaluate-job] Claimed job ${jobId}, ${Object.keys(filePathsMap).length} files ready`);
 
     // Set up heartbeat
     heartbeatInterval = setInterval(async () => {
@@ -169,7 +139,7 @@ serve(async (req) => {
       }
     }, HEARTBEAT_INTERVAL_MS);
 
-    const { user_id: userId, test_id, file_paths, durations, topic, difficulty, fluency_flag, partial_results: existingPartialResults } = job;
+    const { user_id: userId, test_id, durations, topic, difficulty, fluency_flag, partial_results: existingPartialResults } = job;
     
     // Get partial results from previous run (if any)
     let partialResults = (existingPartialResults as Record<string, any>) || {};
@@ -198,6 +168,11 @@ serve(async (req) => {
       }
     }
 
+    // Live examiner sessions record the questions actually asked (follow-ups included)
+    if (Array.isArray(job.asked_questions) && job.asked_questions.length > 0) {
+      payload = { ...payload, speakingParts: job.asked_questions };
+    }
+
     // Build segment metadata
     const parts = Array.isArray(payload?.speakingParts) ? payload.speakingParts : [];
     const questionById = new Map<string, { partNumber: 1 | 2 | 3; questionNumber: number; questionText: string }>();
@@ -232,7 +207,7 @@ serve(async (req) => {
       }
     }
     
-    for (const segmentKey of Object.keys(googleFileUris)) {
+    for (const segmentKey of Object.keys(filePathsMap)) {
       // Match segment keys like: part2-qp2-q1-bafadaa1 or part1-q<questionId>
       const m = String(segmentKey).match(/^part([123])\-q(.+)$/);
       if (!m) continue;
@@ -289,34 +264,12 @@ serve(async (req) => {
       .eq('id', jobId)
       .eq('lock_token', lockToken);
 
-    // Build API key queue
-    interface KeyCandidate { key: string; keyId: string | null; isUserProvided: boolean; }
-    const keyQueue: KeyCandidate[] = [];
-
-    // User's key first
-    const { data: userSecret } = await supabaseService
-      .from('user_secrets')
-      .select('encrypted_value')
-      .eq('user_id', userId)
-      .eq('secret_name', 'GEMINI_API_KEY')
-      .maybeSingle();
-
-    if (userSecret?.encrypted_value && appEncryptionKey) {
-      try {
-        const userKey = await decryptKey(userSecret.encrypted_value, appEncryptionKey);
-        keyQueue.push({ key: userKey, keyId: null, isUserProvided: true });
-      } catch (e) {
-        console.warn('[speaking-evaluate-job] Failed to decrypt user key:', e);
-      }
-    }
-
-    // Admin keys - get keys available for ALL models we might use
-    const dbApiKeys = await getActiveGeminiKeysForModels(supabaseService, GEMINI_MODELS);
-    for (const dbKey of dbApiKeys) {
-      keyQueue.push({ key: dbKey.key_value, keyId: dbKey.id, isUserProvided: false });
-    }
-
-    if (keyQueue.length === 0) throw new Error('No API keys available');
+    // User's key first, then pool keys (LLM_MODELS_EVALUATE_SPEAKING sets the chain)
+    const evaluationModels = getModelChain('evaluate_speaking', SPEAKING_MODELS);
+    const keyQueue = await loadSpeakingKeys(supabaseService, userId, appEncryptionKey, evaluationModels, 'speaking-evaluate-job');
+    // Pool keys stay within the plan's model tiers
+    const poolModels = restrictToPlan(evaluationModels, await getPlanModelTiers(supabaseService, userId));
+    if (keyQueue.length === 0 && requiresGeminiKey(evaluationModels)) throw new Error('No API keys available');
     console.log(`[speaking-evaluate-job] Key queue: ${keyQueue.length} keys`);
 
     // Determine which part to evaluate next
@@ -353,158 +306,35 @@ serve(async (req) => {
         .eq('id', jobId)
         .eq('lock_token', lockToken);
 
-      // Build file URIs for this part
-      const partFileUris = segments.map(seg => {
-        const uri = googleFileUris[seg.segmentKey];
-        return { fileData: { mimeType: uri.mimeType, fileUri: uri.fileUri } };
-      });
+      // Download this part's recordings from R2
+      const partAudio: LLMAudio[] = [];
+      for (const seg of segments) {
+        const r2Path = filePathsMap[seg.segmentKey];
+        const download = await getFromR2(r2Path);
+        if (!download.success || !download.bytes) {
+          throw new Error(`Failed to download ${seg.segmentKey} from R2: ${download.error}`);
+        }
+        const mimeType = r2Path.toLowerCase().endsWith('.mp3') ? 'audio/mpeg' : 'audio/webm';
+        partAudio.push({ mimeType, data: bytesToBase64(download.bytes) });
+      }
 
       // Build part-specific prompt
       const partPrompt = buildPartPrompt(partToProcess as 1 | 2 | 3, segments, topic || testRow.topic, difficulty || testRow.difficulty, fluency_flag && partToProcess === 2);
 
       // Evaluate this part
-      let partResult: any = null;
-      
-      // Create performance logger for this task
-      const perfLogger = createPerformanceLogger('evaluate_speaking');
-
-      for (const candidateKey of keyQueue) {
-        if (partResult) break;
-        
-        try {
-          const genAI = new GoogleGenerativeAI(candidateKey.key);
-
-          for (const modelName of GEMINI_MODELS) {
-            if (partResult) break;
-
-            // CRITICAL FIX: Skip models already marked as exhausted for this key
-            // This prevents retrying exhausted models across different keys
-            if (!candidateKey.isUserProvided && candidateKey.keyId) {
-              // Need to re-fetch the key's quota status from the dbApiKeys we have
-              const keyRecord = dbApiKeys.find(k => k.id === candidateKey.keyId);
-              if (keyRecord && isModelExhaustedForKey(keyRecord, modelName)) {
-                console.log(`[speaking-evaluate-job] Skipping ${modelName} - already exhausted for key ${candidateKey.keyId.slice(0,8)}...`);
-                continue;
-              }
-            }
-
-            console.log(`[speaking-evaluate-job] Part ${partToProcess}: trying ${modelName}`);
-            const callStart = Date.now();
-            
-            const model = genAI.getGenerativeModel({ 
-              model: modelName,
-              generationConfig: {
-                temperature: 0.3,
-                maxOutputTokens: 20000,
-                responseMimeType: 'application/json', // Force JSON output for reliable parsing
-              },
-            });
-
-            const contentParts: any[] = [...partFileUris, { text: partPrompt }];
-
-            const MAX_RETRIES = 2;
-            for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
-              try {
-                // Update heartbeat
-                await supabaseService
-                  .from('speaking_evaluation_jobs')
-                  .update({ 
-                    heartbeat_at: new Date().toISOString(),
-                    lock_expires_at: new Date(Date.now() + LOCK_DURATION_MINUTES * 60 * 1000).toISOString(),
-                  })
-                  .eq('id', jobId)
-                  .eq('lock_token', lockToken);
-
-                const response = await withTimeout(
-                  model.generateContent({ contents: [{ role: 'user', parts: contentParts }] }),
-                  AI_CALL_TIMEOUT_MS,
-                  `Gemini ${modelName} Part ${partToProcess}`
-                );
-                const text = response.response?.text?.() || '';
-                const responseTimeMs = Date.now() - callStart;
-
-                if (!text) {
-                  console.warn(`[speaking-evaluate-job] Empty response from ${modelName}`);
-                  await perfLogger.logError(modelName, 'Empty response', responseTimeMs, candidateKey.keyId || undefined);
-                  break;
-                }
-
-                const parsed = parseJson(text);
-                if (parsed) {
-                  partResult = parsed;
-                  console.log(`[speaking-evaluate-job] Part ${partToProcess} success with ${modelName}`);
-                  await perfLogger.logSuccess(modelName, responseTimeMs, candidateKey.keyId || undefined);
-                  break;
-                } else {
-                  console.warn(`[speaking-evaluate-job] Failed to parse JSON from ${modelName}. First 400 chars: ${text.slice(0, 400)}`);
-                  await perfLogger.logError(modelName, 'Failed to parse JSON', responseTimeMs, candidateKey.keyId || undefined);
-                  break;
-                }
-              } catch (err: any) {
-                const errMsg = String(err?.message || '');
-                const responseTimeMs = Date.now() - callStart;
-                console.error(`[speaking-evaluate-job] ${modelName} failed (${attempt + 1}/${MAX_RETRIES}):`, errMsg.slice(0, 200));
-
-                // Check for PERMANENT daily quota exhaustion - use strict check
-                if (isDailyQuotaExhaustedError(err)) {
-                  console.log(`[speaking-evaluate-job] Daily quota exhausted for ${modelName}, marking model exhausted`);
-                  await perfLogger.logQuotaExceeded(modelName, errMsg.slice(0, 200), candidateKey.keyId || undefined);
-                  
-                  if (!candidateKey.isUserProvided && candidateKey.keyId) {
-                    await markModelQuotaExhausted(supabaseService, candidateKey.keyId, modelName);
-                    // Refresh the key record in our local cache so subsequent iterations skip this model
-                    const keyIdx = dbApiKeys.findIndex(k => k.id === candidateKey.keyId);
-                    if (keyIdx !== -1) {
-                      const today = new Date().toISOString().split('T')[0];
-                      // Update the local cache to reflect exhaustion
-                      (dbApiKeys[keyIdx] as any)[`${modelName.replace(/-/g, '_').replace(/\./g, '_')}_exhausted`] = true;
-                    }
-                  }
-                  
-                  // CRITICAL: Continue to next model instead of throwing
-                  // This allows fallback to other models (e.g., flash-lite) on the SAME key
-                  break; // Break retry loop, continue to next model
-                }
-
-                if (isQuotaExhaustedError(errMsg)) {
-                  const retryAfter = extractRetryAfterSeconds(err);
-                  if (attempt < MAX_RETRIES - 1) {
-                    // Use longer delays - minimum 10s, parse retry-after or use exponential backoff
-                    const delay = retryAfter 
-                      ? Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS) 
-                      : exponentialBackoffWithJitter(attempt, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
-                    console.log(`[speaking-evaluate-job] Rate limited, retrying in ${Math.round(delay / 1000)}s...`);
-                    await sleep(delay);
-                    continue;
-                  } else {
-                    // Retries exhausted for rate limit - try next model instead of throwing
-                    console.log(`[speaking-evaluate-job] Rate limit retries exhausted for ${modelName}, trying next model...`);
-                    await perfLogger.logError(modelName, 'Rate limit retries exhausted: ' + errMsg.slice(0, 100), responseTimeMs, candidateKey.keyId || undefined);
-                    break; // Break retry loop, continue to next model
-                  }
-                }
-
-                if (attempt < MAX_RETRIES - 1) {
-                  const delay = exponentialBackoffWithJitter(attempt, BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
-                  console.log(`[speaking-evaluate-job] Error, retrying in ${Math.round(delay / 1000)}s...`);
-                  await sleep(delay);
-                  continue;
-                }
-                await perfLogger.logError(modelName, errMsg.slice(0, 200), responseTimeMs, candidateKey.keyId || undefined);
-                break;
-              }
-            }
-          }
-      } catch (keyError: any) {
-          // Unexpected error with this key - log and try next key
-          console.error(`[speaking-evaluate-job] Key error:`, keyError?.message);
-          await sleep(KEY_SWITCH_DELAY_MS); // Add delay between key switches to prevent burst
+      console.log(`[speaking-evaluate-job] Part ${partToProcess}: evaluating ${partAudio.length} recordings`);
+      const { evaluation: partResult, result } = await evaluateSpeaking(
+        { prompt: partPrompt, audio: partAudio, maxOutputTokens: 20000, timeoutMs: AI_CALL_TIMEOUT_MS },
+        {
+          models: evaluationModels,
+          poolModels,
+          keys: keyQueue,
+          serviceClient: supabaseService,
+          label: 'speaking-evaluate-job',
+          accept: (parsed) => (parsed && typeof parsed === 'object' ? parsed : null),
         }
-      }
-
-      if (!partResult) {
-        throw new Error(`Part ${partToProcess} evaluation failed: all models/keys exhausted`);
-      }
+      );
+      console.log(`[speaking-evaluate-job] Part ${partToProcess} success with ${result.provider}:${result.model}`);
 
       // Save partial result
       partialResults[`part${partToProcess}`] = partResult;
@@ -586,7 +416,6 @@ serve(async (req) => {
     // Build public audio URLs
     const publicBase = (Deno.env.get('R2_PUBLIC_URL') || '').replace(/\/$/, '');
     const audioUrls: Record<string, string> = {};
-    const filePathsMap = file_paths as Record<string, string>;
     if (publicBase) {
       for (const [k, r2Key] of Object.entries(filePathsMap)) {
         audioUrls[k] = `${publicBase}/${String(r2Key).replace(/^\//, '')}`;
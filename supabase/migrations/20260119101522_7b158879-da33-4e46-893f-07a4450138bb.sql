@@ -0,0 +1,40 @@
+-- Spaced repetition scheduling state for flashcards (SM-2)
+ALTER TABLE public.flashcard_cards ADD COLUMN IF NOT EXISTS ease_factor NUMERIC NOT NULL DEFAULT 2.5;
+ALTER TABLE public.flashcard_cards ADD COLUMN IF NOT EXISTS interval_days INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.flashcard_cards ADD COLUMN IF NOT EXISTS repetitions INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.flashcard_cards ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE public.flashcard_cards ADD COLUMN IF NOT EXISTS last_reviewed_at TIMESTAMP WITH TIME ZONE;
+
+-- Log of every review so retention can be analysed later
+CREATE TABLE public.flashcard_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  card_id UUID NOT NULL REFERENCES public.flashcard_cards(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  grade TEXT NOT NULL CHECK (grade IN ('again', 'hard', 'good', 'easy')),
+  interval_days INTEGER NOT NULL,
+  ease_factor NUMERIC NOT NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.flashcard_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own flashcard reviews"
+ON public.flashcard_reviews FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Existing cards: seed scheduling state from the legacy status so
+-- mastered cards are not all due on the first day
+UPDATE public.flashcard_cards
+SET
+  repetitions = CASE status WHEN 'mastered' THEN 3 WHEN 'reviewing' THEN 1 ELSE 0 END,
+  interval_days = CASE status WHEN 'mastered' THEN 21 WHEN 'reviewing' THEN 3 ELSE 0 END,
+  next_review_at = CASE status
+    WHEN 'mastered' THEN now() + interval '7 days'
+    WHEN 'reviewing' THEN now() + interval '1 day'
+    ELSE NULL
+  END
+WHERE next_review_at IS NULL;
+
+CREATE INDEX idx_flashcard_cards_due ON public.flashcard_cards(user_id, next_review_at);
+CREATE INDEX idx_flashcard_reviews_card ON public.flashcard_reviews(card_id, reviewed_at DESC);
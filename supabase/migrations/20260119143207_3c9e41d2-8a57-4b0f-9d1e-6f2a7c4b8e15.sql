@@ -0,0 +1,7 @@
+-- Essay revision chains: a revised draft points at the submission it revises
+ALTER TABLE public.writing_submissions
+  ADD COLUMN IF NOT EXISTS parent_submission_id UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL;
+ALTER TABLE public.writing_submissions
+  ADD COLUMN IF NOT EXISTS revision_number INTEGER NOT NULL DEFAULT 1;
+
+CREATE INDEX IF NOT EXISTS idx_writing_submissions_parent ON public.writing_submissions(parent_submission_id);
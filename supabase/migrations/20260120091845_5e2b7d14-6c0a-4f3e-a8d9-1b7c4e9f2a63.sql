@@ -0,0 +1,54 @@
+-- Full four-skill mock exam: one session ties the Listening, Reading, Writing
+-- and Speaking submissions together so a combined band can be reported
+CREATE TABLE public.mock_exam_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  book_name TEXT,
+  test_number INTEGER,
+  listening_test_id UUID REFERENCES public.listening_tests(id) ON DELETE SET NULL,
+  reading_test_id UUID REFERENCES public.reading_tests(id) ON DELETE SET NULL,
+  writing_test_id UUID REFERENCES public.writing_tests(id) ON DELETE SET NULL,
+  speaking_test_id UUID REFERENCES public.speaking_tests(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed', 'abandoned')),
+  current_stage TEXT NOT NULL DEFAULT 'listening' CHECK (current_stage IN ('listening', 'reading', 'writing', 'break', 'speaking', 'completed')),
+  break_ends_at TIMESTAMP WITH TIME ZONE,
+  listening_submission_id UUID REFERENCES public.listening_test_submissions(id) ON DELETE SET NULL,
+  reading_submission_id UUID REFERENCES public.reading_test_submissions(id) ON DELETE SET NULL,
+  writing_task1_submission_id UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL,
+  writing_task2_submission_id UUID REFERENCES public.writing_submissions(id) ON DELETE SET NULL,
+  speaking_submission_id UUID REFERENCES public.speaking_submissions(id) ON DELETE SET NULL,
+  listening_band NUMERIC,
+  reading_band NUMERIC,
+  writing_band NUMERIC,
+  speaking_band NUMERIC,
+  overall_band NUMERIC,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_mock_exam_sessions_user ON public.mock_exam_sessions(user_id, started_at DESC);
+
+ALTER TABLE public.mock_exam_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own mock exam sessions"
+ON public.mock_exam_sessions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own mock exam sessions"
+ON public.mock_exam_sessions FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own mock exam sessions"
+ON public.mock_exam_sessions FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own mock exam sessions"
+ON public.mock_exam_sessions FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_mock_exam_sessions_updated_at
+BEFORE UPDATE ON public.mock_exam_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,10 @@
+-- General Training support: writing tests get the same Academic/General
+-- Training dimension that reading, listening and speaking tests already have
+ALTER TABLE public.writing_tests
+ADD COLUMN IF NOT EXISTS test_type TEXT NOT NULL DEFAULT 'academic';
+
+COMMENT ON COLUMN public.writing_tests.test_type IS 'Type of test: academic, general';
+
+-- Test lists are now filtered by variant
+CREATE INDEX IF NOT EXISTS idx_reading_tests_test_type ON public.reading_tests(test_type, is_published);
+CREATE INDEX IF NOT EXISTS idx_writing_tests_test_type ON public.writing_tests(test_type, is_published);
@@ -0,0 +1,345 @@
+-- Teacher / classroom subsystem: teachers run classes, students join with an
+-- invite code, assignments point at an official test or an AI-practice preset
+-- with a due date, and teachers can override the AI band on the gradebook
+
+-- ============================================================================
+-- TEACHERS
+-- ============================================================================
+CREATE TABLE public.teachers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.teachers ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_teacher(check_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.teachers WHERE user_id = check_user_id
+  );
+$$;
+
+CREATE POLICY "Admins can manage teachers"
+ON public.teachers FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Teachers can view their own teacher record"
+ON public.teachers FOR SELECT
+USING (auth.uid() = user_id);
+
+-- ============================================================================
+-- CLASSES AND ROSTERS
+-- ============================================================================
+CREATE TABLE public.classes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  invite_code TEXT NOT NULL UNIQUE DEFAULT upper(substr(replace(gen_random_uuid()::text, '-', ''), 1, 8)),
+  is_archived BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_classes_teacher ON public.classes(teacher_id, created_at DESC);
+
+CREATE TABLE public.class_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (class_id, student_id)
+);
+
+CREATE INDEX idx_class_members_student ON public.class_members(student_id);
+
+ALTER TABLE public.classes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.class_members ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_class_teacher(p_class_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.classes WHERE id = p_class_id AND teacher_id = p_user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_class_member(p_class_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.class_members WHERE class_id = p_class_id AND student_id = p_user_id
+  );
+$$;
+
+-- Whether p_student_id is on the roster of any class p_teacher_id runs
+CREATE OR REPLACE FUNCTION public.is_teacher_of_student(p_teacher_id uuid, p_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_members m
+    JOIN public.classes c ON c.id = m.class_id
+    WHERE c.teacher_id = p_teacher_id AND m.student_id = p_student_id
+  );
+$$;
+
+CREATE POLICY "Teachers can manage their own classes"
+ON public.classes FOR ALL
+USING (auth.uid() = teacher_id)
+WITH CHECK (auth.uid() = teacher_id AND public.is_teacher(auth.uid()));
+
+CREATE POLICY "Students can view classes they belong to"
+ON public.classes FOR SELECT
+USING (public.is_class_member(id, auth.uid()));
+
+CREATE POLICY "Teachers can view their class rosters"
+ON public.class_members FOR SELECT
+USING (public.is_class_teacher(class_id, auth.uid()));
+
+CREATE POLICY "Teachers can remove students from their classes"
+ON public.class_members FOR DELETE
+USING (public.is_class_teacher(class_id, auth.uid()));
+
+CREATE POLICY "Students can view their own memberships"
+ON public.class_members FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE POLICY "Students can leave a class"
+ON public.class_members FOR DELETE
+USING (auth.uid() = student_id);
+
+CREATE TRIGGER update_classes_updated_at
+BEFORE UPDATE ON public.classes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Students cannot see a class before joining it, so joining goes through this function
+CREATE OR REPLACE FUNCTION public.join_class_by_code(p_invite_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_class classes%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Sign in to join a class');
+  END IF;
+
+  SELECT * INTO v_class
+  FROM classes
+  WHERE invite_code = upper(trim(p_invite_code)) AND is_archived = false;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'No active class uses that code');
+  END IF;
+
+  IF v_class.teacher_id = v_user_id THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'You teach this class');
+  END IF;
+
+  INSERT INTO class_members (class_id, student_id)
+  VALUES (v_class.id, v_user_id)
+  ON CONFLICT (class_id, student_id) DO NOTHING;
+
+  RETURN jsonb_build_object('ok', true, 'class_id', v_class.id, 'class_name', v_class.name);
+END;
+$function$;
+
+-- Teachers see the names on their rosters
+CREATE POLICY "Teachers can view their students' profiles"
+ON public.profiles FOR SELECT
+USING (public.is_teacher_of_student(auth.uid(), id));
+
+-- ============================================================================
+-- ASSIGNMENTS
+-- ============================================================================
+-- test_id points at reading_tests / listening_tests / writing_tests /
+-- speaking_tests depending on module; preset_id at a generated_test_audio
+-- test bank entry. One of the two is set; both are null only once the preset
+-- has been removed from the bank.
+CREATE TABLE public.class_assignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  class_id UUID NOT NULL REFERENCES public.classes(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  instructions TEXT,
+  module TEXT NOT NULL CHECK (module IN ('reading', 'listening', 'writing', 'speaking')),
+  test_id UUID,
+  preset_id UUID REFERENCES public.generated_test_audio(id) ON DELETE SET NULL,
+  due_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(test_id, preset_id) <= 1)
+);
+
+CREATE INDEX idx_class_assignments_class ON public.class_assignments(class_id, due_at);
+
+ALTER TABLE public.class_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage assignments in their classes"
+ON public.class_assignments FOR ALL
+USING (public.is_class_teacher(class_id, auth.uid()))
+WITH CHECK (public.is_class_teacher(class_id, auth.uid()) AND auth.uid() = created_by);
+
+CREATE POLICY "Students can view assignments in their classes"
+ON public.class_assignments FOR SELECT
+USING (public.is_class_member(class_id, auth.uid()));
+
+CREATE TRIGGER update_class_assignments_updated_at
+BEFORE UPDATE ON public.class_assignments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- RESULTS
+-- ============================================================================
+-- Assigned attempts are recorded in test_results; writing is graded straight
+-- from the writing_submissions written for the assignment
+ALTER TABLE public.test_results
+ADD COLUMN IF NOT EXISTS assignment_id UUID REFERENCES public.class_assignments(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS test_id UUID,
+ADD COLUMN IF NOT EXISTS submission_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_test_results_assignment ON public.test_results(assignment_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_test_results_submission ON public.test_results(submission_id);
+
+ALTER TABLE public.writing_submissions
+ADD COLUMN IF NOT EXISTS assignment_id UUID REFERENCES public.class_assignments(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_writing_submissions_assignment ON public.writing_submissions(assignment_id, user_id);
+
+ALTER TABLE public.ai_practice_tests
+ADD COLUMN IF NOT EXISTS assignment_id UUID REFERENCES public.class_assignments(id) ON DELETE SET NULL;
+
+-- Whether p_teacher_id teaches the class of p_assignment_id and p_student_id
+-- is on its roster. Teachers only see work done for their assignments, not
+-- everything a student has done before or outside the class.
+CREATE OR REPLACE FUNCTION public.is_assignment_teacher(p_assignment_id uuid, p_student_id uuid, p_teacher_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.class_assignments a
+    JOIN public.classes c ON c.id = a.class_id
+    JOIN public.class_members m ON m.class_id = a.class_id
+    WHERE a.id = p_assignment_id AND c.teacher_id = p_teacher_id AND m.student_id = p_student_id
+  );
+$$;
+
+CREATE POLICY "Teachers can view their students' assignment results"
+ON public.test_results FOR SELECT
+USING (assignment_id IS NOT NULL AND public.is_assignment_teacher(assignment_id, user_id, auth.uid()));
+
+CREATE POLICY "Teachers can view their students' assignment writing"
+ON public.writing_submissions FOR SELECT
+USING (assignment_id IS NOT NULL AND public.is_assignment_teacher(assignment_id, user_id, auth.uid()));
+
+-- Speaking bands arrive after the evaluation job finishes
+CREATE OR REPLACE FUNCTION public.sync_speaking_band_to_test_results()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+BEGIN
+  IF NEW.overall_band IS DISTINCT FROM OLD.overall_band THEN
+    UPDATE test_results
+    SET band_score = NEW.overall_band
+    WHERE submission_id = NEW.id AND test_type = 'speaking';
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER sync_speaking_band_to_test_results
+AFTER UPDATE OF overall_band ON public.speaking_submissions
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_speaking_band_to_test_results();
+
+-- AI-practice results are saved from several pages and the speaking job, so an
+-- assigned preset attempt is copied into test_results here
+CREATE OR REPLACE FUNCTION public.record_assignment_practice_result()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_assignment_id uuid;
+BEGIN
+  SELECT assignment_id INTO v_assignment_id
+  FROM ai_practice_tests
+  WHERE id = NEW.test_id;
+
+  IF v_assignment_id IS NOT NULL THEN
+    INSERT INTO test_results (user_id, test_type, score, band_score, assignment_id, test_id, submission_id, completed_at)
+    VALUES (NEW.user_id, NEW.module, NEW.score, NEW.band_score, v_assignment_id, NEW.test_id, NEW.id, NEW.completed_at);
+  END IF;
+  RETURN NEW;
+END;
+$function$;
+
+CREATE TRIGGER record_assignment_practice_result
+AFTER INSERT ON public.ai_practice_results
+FOR EACH ROW
+EXECUTE FUNCTION public.record_assignment_practice_result();
+
+-- ============================================================================
+-- BAND OVERRIDES
+-- ============================================================================
+-- One teacher grade per student per assignment; ai_band keeps the band that
+-- was overridden so the gradebook can show both
+CREATE TABLE public.assignment_band_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  assignment_id UUID NOT NULL REFERENCES public.class_assignments(id) ON DELETE CASCADE,
+  student_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  teacher_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  band_score NUMERIC(2,1) NOT NULL CHECK (band_score >= 0 AND band_score <= 9 AND band_score * 2 = floor(band_score * 2)),
+  ai_band NUMERIC(2,1),
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (assignment_id, student_id)
+);
+
+ALTER TABLE public.assignment_band_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Teachers can manage overrides in their classes"
+ON public.assignment_band_overrides FOR ALL
+USING (EXISTS (
+  SELECT 1 FROM public.class_assignments a
+  WHERE a.id = assignment_id AND public.is_class_teacher(a.class_id, auth.uid())
+))
+WITH CHECK (auth.uid() = teacher_id AND public.is_assignment_teacher(assignment_id, student_id, auth.uid()));
+
+CREATE POLICY "Students can view overrides of their own work"
+ON public.assignment_band_overrides FOR SELECT
+USING (auth.uid() = student_id);
+
+CREATE TRIGGER update_assignment_band_overrides_updated_at
+BEFORE UPDATE ON public.assignment_band_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
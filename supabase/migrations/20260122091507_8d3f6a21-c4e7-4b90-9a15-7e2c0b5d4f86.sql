@@ -0,0 +1,353 @@
+-- Human examiner review of AI bands: a student flags an AI-scored writing
+-- submission or speaking result, an admin or the student's teacher re-scores
+-- each criterion, and every completed review is stored as a new version. The
+-- AI-vs-human gap is logged to model_performance_logs for calibration.
+-- Reviewers have no UPDATE policy: status and assignee only change through
+-- claim_result_review, dismiss_result_review and complete_result_review.
+
+-- ============================================================================
+-- REVIEW REQUESTS
+-- ============================================================================
+-- source_id points at writing_submissions (writing_submission) or
+-- ai_practice_results (speaking_result). What the reviewer needs - essay or
+-- audio, prompt and the AI report - is copied into snapshot when the review is
+-- requested, so the review survives revisions and the submission cleanup.
+CREATE TABLE public.result_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  student_name TEXT,
+  source_type TEXT NOT NULL CHECK (source_type IN ('writing_submission', 'speaking_result')),
+  source_id UUID NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_review', 'completed', 'dismissed')),
+  reason TEXT,
+  ai_band NUMERIC(2,1),
+  ai_criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+  snapshot JSONB NOT NULL DEFAULT '{}'::jsonb,
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  current_version INTEGER NOT NULL DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id)
+);
+
+CREATE INDEX idx_result_reviews_status ON public.result_reviews(status, created_at);
+CREATE INDEX idx_result_reviews_user ON public.result_reviews(user_id);
+
+-- One row per completed review; re-reviewing a result adds the next version
+CREATE TABLE public.result_review_versions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  review_id UUID NOT NULL REFERENCES public.result_reviews(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  overall_band NUMERIC(2,1) NOT NULL CHECK (overall_band >= 0 AND overall_band <= 9 AND overall_band * 2 = floor(overall_band * 2)),
+  criteria JSONB NOT NULL DEFAULT '{}'::jsonb,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (review_id, version)
+);
+
+ALTER TABLE public.result_reviews ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.result_review_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.can_review_student(check_user_id uuid, check_student_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.is_admin(check_user_id) OR public.is_teacher_of_student(check_user_id, check_student_id);
+$$;
+
+CREATE POLICY "Users can view their own review requests"
+ON public.result_reviews FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can withdraw pending review requests"
+ON public.result_reviews FOR DELETE
+USING (auth.uid() = user_id AND status = 'pending');
+
+CREATE POLICY "Reviewers can view reviews of their students"
+ON public.result_reviews FOR SELECT
+USING (public.can_review_student(auth.uid(), user_id));
+
+CREATE POLICY "Users can view versions of their own reviews"
+ON public.result_review_versions FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.result_reviews r
+  WHERE r.id = review_id AND r.user_id = auth.uid()
+));
+
+CREATE POLICY "Reviewers can view versions of their students' reviews"
+ON public.result_review_versions FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.result_reviews r
+  WHERE r.id = review_id AND public.can_review_student(auth.uid(), r.user_id)
+));
+
+CREATE TRIGGER update_result_reviews_updated_at
+BEFORE UPDATE ON public.result_reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- CALIBRATION LOG
+-- ============================================================================
+-- Completed reviews are logged with status 'human_review' next to the AI
+-- calls for the same task type. criteria_deltas holds human minus AI per
+-- criterion key.
+ALTER TABLE public.model_performance_logs
+ADD COLUMN IF NOT EXISTS review_id UUID REFERENCES public.result_reviews(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS ai_band NUMERIC(2,1),
+ADD COLUMN IF NOT EXISTS human_band NUMERIC(2,1),
+ADD COLUMN IF NOT EXISTS band_delta NUMERIC(3,1) GENERATED ALWAYS AS (human_band - ai_band) STORED,
+ADD COLUMN IF NOT EXISTS criteria_deltas JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_model_performance_logs_review ON public.model_performance_logs(review_id);
+
+-- Review rows are not API calls; keep them out of the success-rate stats
+CREATE OR REPLACE FUNCTION public.get_model_performance_stats(p_hours integer DEFAULT 24)
+RETURNS TABLE (
+  model_name text,
+  task_type text,
+  total_calls bigint,
+  success_count bigint,
+  error_count bigint,
+  quota_exceeded_count bigint,
+  avg_response_time_ms numeric,
+  success_rate numeric
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    model_name,
+    task_type,
+    COUNT(*) as total_calls,
+    COUNT(*) FILTER (WHERE status = 'success') as success_count,
+    COUNT(*) FILTER (WHERE status = 'error') as error_count,
+    COUNT(*) FILTER (WHERE status = 'quota_exceeded') as quota_exceeded_count,
+    ROUND(AVG(response_time_ms) FILTER (WHERE status = 'success'), 0) as avg_response_time_ms,
+    ROUND(
+      (COUNT(*) FILTER (WHERE status = 'success')::numeric / NULLIF(COUNT(*), 0)::numeric) * 100,
+      1
+    ) as success_rate
+  FROM public.model_performance_logs
+  WHERE created_at > now() - (p_hours || ' hours')::interval
+    AND status <> 'human_review'
+  GROUP BY model_name, task_type
+  ORDER BY total_calls DESC;
+$$;
+
+-- ============================================================================
+-- REQUEST / CLAIM / DISMISS / COMPLETE
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.request_result_review(
+  p_source_type text,
+  p_source_id uuid,
+  p_reason text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_existing uuid;
+  v_report jsonb;
+  v_band numeric;
+  v_criteria jsonb;
+  v_snapshot jsonb;
+  v_name text;
+  v_review_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Not signed in');
+  END IF;
+
+  SELECT id INTO v_existing
+  FROM result_reviews
+  WHERE source_type = p_source_type AND source_id = p_source_id;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'A review has already been requested for this result', 'review_id', v_existing);
+  END IF;
+
+  IF p_source_type = 'writing_submission' THEN
+    SELECT ws.evaluation_report::jsonb, ws.overall_band,
+           jsonb_build_object(
+             'task_type', wt.task_type,
+             'instruction', wt.instruction,
+             'image_url', wt.image_url,
+             'submission_text', ws.submission_text,
+             'word_count', ws.word_count,
+             'submitted_at', ws.submitted_at,
+             'report', ws.evaluation_report
+           )
+    INTO v_report, v_band, v_snapshot
+    FROM writing_submissions ws
+    JOIN writing_tasks wt ON wt.id = ws.task_id
+    WHERE ws.id = p_source_id AND ws.user_id = v_user_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'Submission not found');
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(k, v_report -> k -> 'band') FILTER (WHERE v_report -> k ? 'band'), '{}'::jsonb)
+    INTO v_criteria
+    FROM unnest(ARRAY['task_achievement_response', 'coherence_and_cohesion', 'lexical_resource', 'grammatical_range_and_accuracy']) AS k;
+
+  ELSIF p_source_type = 'speaking_result' THEN
+    SELECT r.question_results::jsonb, r.band_score,
+           jsonb_build_object(
+             'test_id', r.test_id,
+             'audio_urls', COALESCE(r.answers -> 'audio_urls', '{}'::jsonb),
+             'transcripts_by_part', COALESCE(r.answers -> 'transcripts_by_part', r.question_results -> 'transcripts_by_part', '{}'::jsonb),
+             'completed_at', r.completed_at,
+             'report', r.question_results
+           )
+    INTO v_report, v_band, v_snapshot
+    FROM ai_practice_results r
+    WHERE r.id = p_source_id AND r.user_id = v_user_id AND r.module = 'speaking';
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'error', 'Result not found');
+    END IF;
+
+    SELECT COALESCE(jsonb_object_agg(k, v_report -> 'criteria' -> k -> 'band') FILTER (WHERE v_report -> 'criteria' -> k ? 'band'), '{}'::jsonb)
+    INTO v_criteria
+    FROM unnest(ARRAY['fluency_coherence', 'lexical_resource', 'grammatical_range', 'pronunciation']) AS k;
+
+  ELSE
+    RETURN jsonb_build_object('ok', false, 'error', 'Unknown result type');
+  END IF;
+
+  IF v_band IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'This result has not been scored yet');
+  END IF;
+
+  SELECT COALESCE(full_name, email) INTO v_name FROM profiles WHERE id = v_user_id;
+
+  INSERT INTO result_reviews (user_id, student_name, source_type, source_id, reason, ai_band, ai_criteria, snapshot)
+  VALUES (v_user_id, v_name, p_source_type, p_source_id, NULLIF(trim(p_reason), ''), v_band, v_criteria, v_snapshot)
+  RETURNING id INTO v_review_id;
+
+  RETURN jsonb_build_object('ok', true, 'review_id', v_review_id);
+END;
+$function$;
+
+-- Stores the reviewer's bands as the next version and logs the gap. A
+-- dismissed request can still be completed if the reviewer changes their mind.
+CREATE OR REPLACE FUNCTION public.complete_result_review(
+  p_review_id uuid,
+  p_overall_band numeric,
+  p_criteria jsonb,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_reviewer uuid := auth.uid();
+  v_review result_reviews%ROWTYPE;
+  v_version integer;
+  v_deltas jsonb;
+BEGIN
+  SELECT * INTO v_review FROM result_reviews WHERE id = p_review_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_review_student(v_reviewer, v_review.user_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Review not found');
+  END IF;
+
+  v_version := v_review.current_version + 1;
+
+  INSERT INTO result_review_versions (review_id, version, reviewer_id, overall_band, criteria, comment)
+  VALUES (p_review_id, v_version, v_reviewer, p_overall_band, COALESCE(p_criteria, '{}'::jsonb), NULLIF(trim(p_comment), ''));
+
+  UPDATE result_reviews
+  SET status = 'completed',
+      current_version = v_version,
+      assigned_to = COALESCE(assigned_to, v_reviewer),
+      completed_at = now()
+  WHERE id = p_review_id;
+
+  SELECT jsonb_object_agg(c.key, (c.value ->> 'band')::numeric - (v_review.ai_criteria ->> c.key)::numeric)
+  INTO v_deltas
+  FROM jsonb_each(COALESCE(p_criteria, '{}'::jsonb)) c
+  WHERE c.value ? 'band' AND v_review.ai_criteria ? c.key;
+
+  INSERT INTO model_performance_logs (model_name, task_type, status, review_id, ai_band, human_band, criteria_deltas)
+  VALUES (
+    CASE v_review.source_type WHEN 'writing_submission' THEN 'evaluate-writing-submission' ELSE 'speaking-evaluate-job' END,
+    CASE v_review.source_type WHEN 'writing_submission' THEN 'evaluate_writing' ELSE 'evaluate_speaking' END,
+    'human_review',
+    p_review_id,
+    v_review.ai_band,
+    p_overall_band,
+    v_deltas
+  );
+
+  RETURN jsonb_build_object('ok', true, 'version', v_version);
+END;
+$function$;
+
+-- Opening a pending request assigns it to the reviewer. Requests already in
+-- review, completed or dismissed are left as they are.
+CREATE OR REPLACE FUNCTION public.claim_result_review(p_review_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_reviewer uuid := auth.uid();
+  v_review result_reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_review FROM result_reviews WHERE id = p_review_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_review_student(v_reviewer, v_review.user_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Review not found');
+  END IF;
+
+  IF v_review.status = 'pending' THEN
+    UPDATE result_reviews
+    SET status = 'in_review', assigned_to = v_reviewer
+    WHERE id = p_review_id;
+  END IF;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$function$;
+
+-- Closes an open request without a new version; the AI band stands.
+CREATE OR REPLACE FUNCTION public.dismiss_result_review(p_review_id uuid)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_reviewer uuid := auth.uid();
+  v_review result_reviews%ROWTYPE;
+BEGIN
+  SELECT * INTO v_review FROM result_reviews WHERE id = p_review_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_review_student(v_reviewer, v_review.user_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Review not found');
+  END IF;
+
+  IF v_review.status NOT IN ('pending', 'in_review') THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Only open requests can be dismissed');
+  END IF;
+
+  UPDATE result_reviews
+  SET status = 'dismissed', assigned_to = COALESCE(assigned_to, v_reviewer)
+  WHERE id = p_review_id;
+
+  RETURN jsonb_build_object('ok', true);
+END;
+$function$;
@@ -0,0 +1,105 @@
+-- Calibration harness: a gold-standard set of essays and speaking transcripts
+-- with examiner-assigned bands, scored in batches by the run-calibration edge
+-- function so admins can compare AI bands against examiners per model and
+-- prompt version.
+
+-- ============================================================================
+-- GOLD-STANDARD ITEMS
+-- ============================================================================
+-- examiner_bands uses the canonical criterion keys:
+--   writing:  task_achievement_response, coherence_and_cohesion,
+--             lexical_resource, grammatical_range_and_accuracy
+--   speaking: fluency_coherence, lexical_resource, grammatical_range,
+--             pronunciation
+-- Speaking items keep one entry per answer in transcripts:
+--   [{ "part": 1, "question": "...", "transcript": "..." }, ...]
+CREATE TABLE public.calibration_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  module TEXT NOT NULL CHECK (module IN ('writing', 'speaking')),
+  title TEXT NOT NULL,
+  task_type TEXT CHECK (task_type IN ('task1', 'task2', 'letter')),
+  instruction TEXT,
+  response_text TEXT,
+  transcripts JSONB NOT NULL DEFAULT '[]'::jsonb,
+  examiner_overall NUMERIC(2,1) NOT NULL CHECK (examiner_overall >= 0 AND examiner_overall <= 9 AND examiner_overall * 2 = floor(examiner_overall * 2)),
+  examiner_bands JSONB NOT NULL DEFAULT '{}'::jsonb,
+  source TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (module <> 'writing' OR (response_text IS NOT NULL AND task_type IS NOT NULL))
+);
+
+CREATE INDEX idx_calibration_items_module ON public.calibration_items(module, is_active);
+
+-- ============================================================================
+-- RUNS
+-- ============================================================================
+-- evaluator is the prompt under test (the evaluate-writing-submission prompt,
+-- the evaluate-ai-practice-writing prompt or the process-speaking-job text
+-- prompt). mode 'replay' serves recorded LLM fixtures instead of calling the
+-- model, so a run can be repeated without spending quota.
+CREATE TABLE public.calibration_runs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  module TEXT NOT NULL CHECK (module IN ('writing', 'speaking')),
+  evaluator TEXT NOT NULL CHECK (evaluator IN ('writing_submission', 'practice_writing', 'speaking_text')),
+  model_name TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  mode TEXT NOT NULL DEFAULT 'live' CHECK (mode IN ('live', 'replay')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'cancelled')),
+  item_count INTEGER NOT NULL DEFAULT 0,
+  scored_count INTEGER NOT NULL DEFAULT 0,
+  error_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_calibration_runs_created ON public.calibration_runs(module, created_at DESC);
+
+-- One row per item in a run. The examiner bands are copied in when the run
+-- starts so editing an item later does not change past results.
+CREATE TABLE public.calibration_results (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  run_id UUID NOT NULL REFERENCES public.calibration_runs(id) ON DELETE CASCADE,
+  item_id UUID NOT NULL REFERENCES public.calibration_items(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'scored', 'error')),
+  examiner_overall NUMERIC(2,1) NOT NULL,
+  examiner_bands JSONB NOT NULL DEFAULT '{}'::jsonb,
+  ai_overall NUMERIC(2,1),
+  ai_bands JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  response_time_ms INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  scored_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (run_id, item_id)
+);
+
+CREATE INDEX idx_calibration_results_run ON public.calibration_results(run_id, status);
+
+ALTER TABLE public.calibration_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calibration_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calibration_results ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage calibration items"
+ON public.calibration_items FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can view calibration runs"
+ON public.calibration_runs FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can delete calibration runs"
+ON public.calibration_runs FOR DELETE
+USING (public.is_admin(auth.uid()));
+
+CREATE POLICY "Admins can view calibration results"
+ON public.calibration_results FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_calibration_items_updated_at
+BEFORE UPDATE ON public.calibration_items
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,209 @@
+-- Versioned prompt templates: admins add numbered versions of a prompt and
+-- roll them out by weight; edge functions pick one active version per request
+-- and fall back to the template built into the code when none is active.
+-- The chosen version ("<prompt_key>@v<n>" or "<prompt_key>@builtin") is
+-- recorded on model_performance_logs and on the evaluation results.
+
+-- ============================================================================
+-- TEMPLATES
+-- ============================================================================
+-- prompt_key matches a PromptDefinition in supabase/functions/_shared. Rolling
+-- back is deactivating a version (or setting its weight to 0).
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  prompt_key TEXT NOT NULL CHECK (prompt_key IN (
+    'reading_generation',
+    'listening_generation',
+    'speaking_text_evaluation',
+    'speaking_audio_evaluation',
+    'writing_submission_evaluation',
+    'practice_writing_evaluation',
+    'full_writing_test_evaluation'
+  )),
+  version INTEGER NOT NULL CHECK (version > 0),
+  template TEXT NOT NULL,
+  weight INTEGER NOT NULL DEFAULT 0 CHECK (weight >= 0 AND weight <= 100),
+  is_active BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (prompt_key, version)
+);
+
+CREATE INDEX idx_prompt_templates_active ON public.prompt_templates(prompt_key, is_active);
+
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can manage prompt templates"
+ON public.prompt_templates FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_prompt_templates_updated_at
+BEFORE UPDATE ON public.prompt_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- VERSION TRACKING
+-- ============================================================================
+ALTER TABLE public.model_performance_logs
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE public.writing_submissions
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+ALTER TABLE public.ai_practice_results
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_model_performance_logs_prompt_version
+ON public.model_performance_logs(prompt_version, created_at)
+WHERE prompt_version IS NOT NULL;
+
+-- The old signature is dropped so PostgREST does not see two overloads
+DROP FUNCTION IF EXISTS public.log_model_performance(uuid, text, text, text, integer, text);
+
+CREATE OR REPLACE FUNCTION public.log_model_performance(
+  p_api_key_id uuid,
+  p_model_name text,
+  p_task_type text,
+  p_status text,
+  p_response_time_ms integer DEFAULT NULL,
+  p_error_message text DEFAULT NULL,
+  p_prompt_version text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.model_performance_logs (
+    api_key_id,
+    model_name,
+    task_type,
+    status,
+    response_time_ms,
+    error_message,
+    prompt_version
+  ) VALUES (
+    p_api_key_id,
+    p_model_name,
+    p_task_type,
+    p_status,
+    p_response_time_ms,
+    p_error_message,
+    p_prompt_version
+  );
+END;
+$$;
+
+-- Same as before, plus the reviewed result's prompt version on the log row
+CREATE OR REPLACE FUNCTION public.complete_result_review(
+  p_review_id uuid,
+  p_overall_band numeric,
+  p_criteria jsonb,
+  p_comment text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_reviewer uuid := auth.uid();
+  v_review result_reviews%ROWTYPE;
+  v_version integer;
+  v_deltas jsonb;
+  v_prompt_version text;
+BEGIN
+  SELECT * INTO v_review FROM result_reviews WHERE id = p_review_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.can_review_student(v_reviewer, v_review.user_id) THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Review not found');
+  END IF;
+
+  v_version := v_review.current_version + 1;
+
+  INSERT INTO result_review_versions (review_id, version, reviewer_id, overall_band, criteria, comment)
+  VALUES (p_review_id, v_version, v_reviewer, p_overall_band, COALESCE(p_criteria, '{}'::jsonb), NULLIF(trim(p_comment), ''));
+
+  UPDATE result_reviews
+  SET status = 'completed',
+      current_version = v_version,
+      assigned_to = COALESCE(assigned_to, v_reviewer),
+      completed_at = now()
+  WHERE id = p_review_id;
+
+  SELECT jsonb_object_agg(c.key, (c.value ->> 'band')::numeric - (v_review.ai_criteria ->> c.key)::numeric)
+  INTO v_deltas
+  FROM jsonb_each(COALESCE(p_criteria, '{}'::jsonb)) c
+  WHERE c.value ? 'band' AND v_review.ai_criteria ? c.key;
+
+  IF v_review.source_type = 'writing_submission' THEN
+    SELECT prompt_version INTO v_prompt_version FROM writing_submissions WHERE id = v_review.source_id;
+  ELSE
+    SELECT prompt_version INTO v_prompt_version FROM ai_practice_results WHERE id = v_review.source_id;
+  END IF;
+
+  INSERT INTO model_performance_logs (model_name, task_type, status, review_id, ai_band, human_band, criteria_deltas, prompt_version)
+  VALUES (
+    CASE v_review.source_type WHEN 'writing_submission' THEN 'evaluate-writing-submission' ELSE 'speaking-evaluate-job' END,
+    CASE v_review.source_type WHEN 'writing_submission' THEN 'evaluate_writing' ELSE 'evaluate_speaking' END,
+    'human_review',
+    p_review_id,
+    v_review.ai_band,
+    p_overall_band,
+    v_deltas,
+    v_prompt_version
+  );
+
+  RETURN jsonb_build_object('ok', true, 'version', v_version);
+END;
+$function$;
+
+-- ============================================================================
+-- VERSION STATS
+-- ============================================================================
+-- One row per prompt version: API call outcomes plus, from completed human
+-- reviews, how far the AI band was from the reviewer's.
+CREATE OR REPLACE FUNCTION public.get_prompt_version_stats(p_days integer DEFAULT 30)
+RETURNS TABLE (
+  prompt_version text,
+  total_calls bigint,
+  success_count bigint,
+  error_count bigint,
+  quota_exceeded_count bigint,
+  avg_response_time_ms numeric,
+  success_rate numeric,
+  review_count bigint,
+  mean_band_delta numeric,
+  mean_abs_band_delta numeric,
+  last_used_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    prompt_version,
+    COUNT(*) FILTER (WHERE status <> 'human_review') as total_calls,
+    COUNT(*) FILTER (WHERE status = 'success') as success_count,
+    COUNT(*) FILTER (WHERE status = 'error') as error_count,
+    COUNT(*) FILTER (WHERE status = 'quota_exceeded') as quota_exceeded_count,
+    ROUND(AVG(response_time_ms) FILTER (WHERE status = 'success'), 0) as avg_response_time_ms,
+    ROUND(
+      (COUNT(*) FILTER (WHERE status = 'success')::numeric / NULLIF(COUNT(*) FILTER (WHERE status <> 'human_review'), 0)::numeric) * 100,
+      1
+    ) as success_rate,
+    COUNT(*) FILTER (WHERE status = 'human_review') as review_count,
+    ROUND(AVG(band_delta) FILTER (WHERE status = 'human_review'), 2) as mean_band_delta,
+    ROUND(AVG(abs(band_delta)) FILTER (WHERE status = 'human_review'), 2) as mean_abs_band_delta,
+    MAX(created_at) as last_used_at
+  FROM public.model_performance_logs
+  WHERE created_at > now() - (p_days || ' days')::interval
+    AND prompt_version IS NOT NULL
+  GROUP BY prompt_version
+  ORDER BY prompt_version;
+$$;
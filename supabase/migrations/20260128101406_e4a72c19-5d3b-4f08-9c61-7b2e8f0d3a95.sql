@@ -0,0 +1,37 @@
+-- Question-type diagnosis and weekly study plans.
+-- Cambridge submissions now keep their per-question results (with the question
+-- type) like ai_practice_results does, so accuracy can be broken down by type.
+ALTER TABLE public.reading_test_submissions
+ADD COLUMN IF NOT EXISTS question_results JSONB;
+
+ALTER TABLE public.listening_test_submissions
+ADD COLUMN IF NOT EXISTS question_results JSONB;
+
+-- ============================================================================
+-- STUDY PLANS
+-- ============================================================================
+-- One plan per learner per week (week_start is the Monday). items is the list
+-- of scheduled drills and flashcard reviews built by src/lib/studyPlan.ts;
+-- progress is derived from the week's results and reviews, not stored.
+CREATE TABLE public.study_plans (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  week_start DATE NOT NULL,
+  items JSONB NOT NULL DEFAULT '[]'::jsonb,
+  focus JSONB NOT NULL DEFAULT '[]'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, week_start)
+);
+
+ALTER TABLE public.study_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own study plans"
+ON public.study_plans FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_study_plans_updated_at
+BEFORE UPDATE ON public.study_plans
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,38 @@
+-- Exam-date study planner.
+-- Learners set their exam date, target band and an optional daily reminder
+-- time on their profile; src/lib/examPlanner.ts turns the remaining days into
+-- daily goals stored in exam_schedules.
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS exam_date DATE,
+ADD COLUMN IF NOT EXISTS target_band NUMERIC(2,1) CHECK (target_band >= 1 AND target_band <= 9 AND target_band * 2 = floor(target_band * 2)),
+ADD COLUMN IF NOT EXISTS study_reminder_time TIME;
+
+-- ============================================================================
+-- EXAM SCHEDULES
+-- ============================================================================
+-- One schedule per learner. days is the list of daily goals
+-- ({ date, sessions: { listening, reading, writing, speaking }, flashcards, carried });
+-- checked_through is the last day whose missed sessions have been moved onto
+-- the coming days. Progress and streaks are derived from results, not stored.
+CREATE TABLE public.exam_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  exam_date DATE NOT NULL,
+  target_band NUMERIC(2,1) NOT NULL,
+  days JSONB NOT NULL DEFAULT '[]'::jsonb,
+  checked_through DATE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.exam_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own exam schedule"
+ON public.exam_schedules FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_exam_schedules_updated_at
+BEFORE UPDATE ON public.exam_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,33 @@
+-- Transcript alignments for listening review mode.
+-- align-transcript asks the model when each transcript sentence starts in the
+-- audio and stores sentence and word timings here, one row per transcript
+-- (a generated_test_audio row, or one part of a listening test). Rows are
+-- written by the edge function only; the transcript hash marks a row stale
+-- once the transcript is edited.
+CREATE TABLE public.transcript_alignments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  source_type TEXT NOT NULL CHECK (source_type IN ('generated_test_audio', 'listening_test')),
+  source_id UUID NOT NULL,
+  part SMALLINT NOT NULL DEFAULT 1 CHECK (part BETWEEN 1 AND 4),
+  audio_url TEXT NOT NULL,
+  transcript_hash TEXT NOT NULL,
+  method TEXT NOT NULL CHECK (method IN ('model', 'transcript')),
+  -- { sentences: [{ text, speaker?, start, end, words: [{ text, start, end }] }], duration, method }
+  alignment JSONB NOT NULL,
+  model_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (source_type, source_id, part)
+);
+
+ALTER TABLE public.transcript_alignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view transcript alignments"
+ON public.transcript_alignments FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE TRIGGER update_transcript_alignments_updated_at
+BEFORE UPDATE ON public.transcript_alignments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
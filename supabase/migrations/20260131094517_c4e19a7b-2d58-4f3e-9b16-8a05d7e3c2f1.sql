@@ -0,0 +1,498 @@
+-- Credit ledger and purchased credit packs.
+-- Every change to a user's credits is recorded in credit_ledger: a row per
+-- reserve, refund, daily reset and purchase, with the operation and the id of
+-- what it was for. Rows are never updated or deleted. Purchased credits sit in
+-- profiles.purchased_credits, do not expire, and are spent only once the daily
+-- allowance is used up.
+
+-- ============================================================================
+-- 1. Purchased credit balance
+-- ============================================================================
+ALTER TABLE public.profiles
+ADD COLUMN IF NOT EXISTS purchased_credits INTEGER NOT NULL DEFAULT 0 CHECK (purchased_credits >= 0);
+
+-- "Users can update their own profile" covers every column, so the credit
+-- columns are guarded separately: only the credit functions (SECURITY DEFINER,
+-- running as their owner) and the service role may change them.
+CREATE OR REPLACE FUNCTION public.protect_profile_credits()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.purchased_credits <> 0 OR COALESCE(NEW.daily_credits_used, 0) <> 0 THEN
+      RAISE EXCEPTION 'Credit balances cannot be set directly';
+    END IF;
+  ELSIF NEW.purchased_credits IS DISTINCT FROM OLD.purchased_credits
+     OR NEW.daily_credits_used IS DISTINCT FROM OLD.daily_credits_used
+     OR NEW.last_reset_date IS DISTINCT FROM OLD.last_reset_date THEN
+    RAISE EXCEPTION 'Credit balances cannot be changed directly';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profile_credits
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_credits();
+
+-- ============================================================================
+-- 2. Credit ledger
+-- ============================================================================
+CREATE TABLE public.credit_ledger (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('reserve', 'refund', 'reset', 'purchase')),
+  -- e.g. 'generate_listening', 'evaluate_writing'
+  operation_type TEXT,
+  -- The test, submission or purchase the entry is for
+  reference_id TEXT,
+  -- Change to the day's allowance and to the purchased balance; negative = spent
+  daily_credits INTEGER NOT NULL DEFAULT 0,
+  purchased_credits INTEGER NOT NULL DEFAULT 0,
+  daily_used_after INTEGER NOT NULL,
+  purchased_balance_after INTEGER NOT NULL,
+  -- Refunds point at the reserve they return
+  refund_of UUID REFERENCES public.credit_ledger(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_ledger_user_created ON public.credit_ledger (user_id, created_at DESC);
+CREATE UNIQUE INDEX idx_credit_ledger_refund_of ON public.credit_ledger (refund_of) WHERE refund_of IS NOT NULL;
+
+ALTER TABLE public.credit_ledger ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit ledger"
+ON public.credit_ledger FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit ledgers"
+ON public.credit_ledger FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- Append-only, even for the service role. Deletes cascading from a deleted
+-- user run inside the foreign key trigger and are let through.
+CREATE OR REPLACE FUNCTION public.prevent_credit_ledger_changes()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' AND pg_trigger_depth() > 1 THEN
+    RETURN OLD;
+  END IF;
+  RAISE EXCEPTION 'credit_ledger is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_credit_ledger_changes
+BEFORE UPDATE OR DELETE ON public.credit_ledger
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_credit_ledger_changes();
+
+-- ============================================================================
+-- 3. Credit packs and purchases
+-- ============================================================================
+CREATE TABLE public.credit_packs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  price NUMERIC(10,2) NOT NULL CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'BDT',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.credit_packs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active credit packs"
+ON public.credit_packs FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admins can manage credit packs"
+ON public.credit_packs FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_credit_packs_updated_at
+BEFORE UPDATE ON public.credit_packs
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.credit_packs (name, credits, price, sort_order) VALUES
+  ('Top-up 50', 50, 30, 1),
+  ('Top-up 150', 150, 80, 2),
+  ('Top-up 500', 500, 250, 3);
+
+-- A purchase is created pending by the payment flow and completed with
+-- complete_credit_purchase once payment is confirmed
+CREATE TABLE public.credit_purchases (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  pack_id UUID REFERENCES public.credit_packs(id) ON DELETE SET NULL,
+  credits INTEGER NOT NULL CHECK (credits > 0),
+  price NUMERIC(10,2) NOT NULL,
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed')),
+  provider_reference TEXT,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_credit_purchases_user ON public.credit_purchases (user_id, created_at DESC);
+
+ALTER TABLE public.credit_purchases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own credit purchases"
+ON public.credit_purchases FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all credit purchases"
+ON public.credit_purchases FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_credit_purchases_updated_at
+BEFORE UPDATE ON public.credit_purchases
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 4. Credit functions
+-- ============================================================================
+
+-- The old two-argument versions would make calls with named arguments ambiguous
+DROP FUNCTION IF EXISTS public.check_and_reserve_credits(uuid, integer);
+DROP FUNCTION IF EXISTS public.refund_credits(uuid, integer);
+
+-- Reserve credits before calling AI: today's allowance first, then purchased
+-- credits. Returns the reserve's ledger id so a failed operation can refund
+-- exactly what it took.
+CREATE OR REPLACE FUNCTION public.check_and_reserve_credits(
+  p_user_id uuid,
+  p_cost integer,
+  p_operation_type text DEFAULT NULL,
+  p_reference_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_today date := CURRENT_DATE;
+  v_limit integer := 100;
+  v_profile profiles%ROWTYPE;
+  v_current_credits integer;
+  v_from_daily integer;
+  v_from_purchased integer;
+  v_ledger_id uuid;
+BEGIN
+  -- Admins have unlimited credits and are not charged
+  IF EXISTS(SELECT 1 FROM admin_users WHERE user_id = p_user_id) THEN
+    RETURN jsonb_build_object(
+      'ok', true,
+      'credits_used', 0,
+      'credits_remaining', 999999,
+      'purchased_credits', 0,
+      'is_admin', true
+    );
+  END IF;
+
+  -- Lock the row for update to prevent race conditions
+  SELECT * INTO v_profile
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'Profile not found',
+      'credits_used', 0,
+      'credits_remaining', 0
+    );
+  END IF;
+
+  -- Reset credits if new day
+  IF v_profile.last_reset_date IS NULL OR v_profile.last_reset_date < v_today THEN
+    IF COALESCE(v_profile.daily_credits_used, 0) > 0 THEN
+      INSERT INTO credit_ledger (user_id, entry_type, daily_credits, daily_used_after, purchased_balance_after)
+      VALUES (p_user_id, 'reset', v_profile.daily_credits_used, 0, v_profile.purchased_credits);
+    END IF;
+    v_current_credits := 0;
+  ELSE
+    v_current_credits := COALESCE(v_profile.daily_credits_used, 0);
+  END IF;
+
+  v_from_daily := LEAST(p_cost, GREATEST(0, v_limit - v_current_credits));
+  v_from_purchased := p_cost - v_from_daily;
+
+  IF v_from_purchased > v_profile.purchased_credits THEN
+    -- Keep the reset even though nothing is reserved
+    UPDATE profiles
+    SET daily_credits_used = v_current_credits, last_reset_date = v_today
+    WHERE id = p_user_id;
+
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', format('Daily credit limit reached (%s/%s). Add your own Gemini API key in Settings.', v_current_credits, v_limit),
+      'credits_used', v_current_credits,
+      'credits_remaining', GREATEST(0, v_limit - v_current_credits),
+      'purchased_credits', v_profile.purchased_credits
+    );
+  END IF;
+
+  -- Atomically take the credits (reserve them BEFORE calling AI)
+  UPDATE profiles
+  SET daily_credits_used = v_current_credits + v_from_daily,
+      purchased_credits = purchased_credits - v_from_purchased,
+      last_reset_date = v_today
+  WHERE id = p_user_id;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    daily_credits, purchased_credits, daily_used_after, purchased_balance_after
+  )
+  VALUES (
+    p_user_id, 'reserve', p_operation_type, p_reference_id,
+    -v_from_daily, -v_from_purchased, v_current_credits + v_from_daily, v_profile.purchased_credits - v_from_purchased
+  )
+  RETURNING id INTO v_ledger_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'credits_used', v_current_credits + v_from_daily,
+    'credits_remaining', GREATEST(0, v_limit - v_current_credits - v_from_daily),
+    'purchased_credits', v_profile.purchased_credits - v_from_purchased,
+    'ledger_id', v_ledger_id
+  );
+END;
+$function$;
+
+-- Refund credits if the operation fails after they were reserved. With the
+-- reserve's ledger id the credits go back where they came from, once; the
+-- daily part is not returned after the day's allowance has been reset. Without
+-- one, p_cost goes back to today's allowance.
+CREATE OR REPLACE FUNCTION public.refund_credits(
+  p_user_id uuid,
+  p_cost integer,
+  p_reservation_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_reserve credit_ledger%ROWTYPE;
+  v_daily integer;
+  v_purchased integer := 0;
+BEGIN
+  SELECT * INTO v_profile
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_reservation_id IS NOT NULL THEN
+    SELECT * INTO v_reserve
+    FROM credit_ledger
+    WHERE id = p_reservation_id AND user_id = p_user_id AND entry_type = 'reserve';
+
+    IF NOT FOUND OR EXISTS(SELECT 1 FROM credit_ledger WHERE refund_of = p_reservation_id) THEN
+      RETURN;
+    END IF;
+
+    v_daily := CASE
+      WHEN v_reserve.created_at::date = v_profile.last_reset_date THEN LEAST(-v_reserve.daily_credits, v_profile.daily_credits_used)
+      ELSE 0
+    END;
+    v_purchased := -v_reserve.purchased_credits;
+  ELSE
+    v_daily := LEAST(p_cost, v_profile.daily_credits_used);
+  END IF;
+
+  UPDATE profiles
+  SET daily_credits_used = daily_credits_used - v_daily,
+      purchased_credits = purchased_credits + v_purchased
+  WHERE id = p_user_id;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    daily_credits, purchased_credits, daily_used_after, purchased_balance_after, refund_of
+  )
+  VALUES (
+    p_user_id, 'refund', v_reserve.operation_type, v_reserve.reference_id,
+    v_daily, v_purchased, v_profile.daily_credits_used - v_daily, v_profile.purchased_credits + v_purchased, p_reservation_id
+  );
+END;
+$function$;
+
+-- Daily reset for every profile still on an earlier day (run by cron at
+-- midnight UTC and by reset-user-api-quotas). Returns the number of profiles reset.
+CREATE OR REPLACE FUNCTION public.reset_daily_credits()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  INSERT INTO credit_ledger (user_id, entry_type, daily_credits, daily_used_after, purchased_balance_after)
+  SELECT id, 'reset', daily_credits_used, 0, purchased_credits
+  FROM profiles
+  WHERE last_reset_date < CURRENT_DATE AND daily_credits_used > 0;
+
+  UPDATE profiles
+  SET daily_credits_used = 0, last_reset_date = CURRENT_DATE
+  WHERE last_reset_date < CURRENT_DATE;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
+
+-- Credit a confirmed purchase. Safe to call again for the same purchase.
+CREATE OR REPLACE FUNCTION public.complete_credit_purchase(
+  p_purchase_id uuid,
+  p_provider_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_purchase credit_purchases%ROWTYPE;
+  v_balance integer;
+  v_daily_used integer;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM credit_purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Purchase not found');
+  END IF;
+
+  IF v_purchase.status = 'completed' THEN
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  IF v_purchase.status <> 'pending' THEN
+    RETURN jsonb_build_object('ok', false, 'error', format('Purchase is %s', v_purchase.status));
+  END IF;
+
+  UPDATE profiles
+  SET purchased_credits = purchased_credits + v_purchase.credits
+  WHERE id = v_purchase.user_id
+  RETURNING purchased_credits, daily_credits_used INTO v_balance, v_daily_used;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Profile not found');
+  END IF;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    purchased_credits, daily_used_after, purchased_balance_after
+  )
+  VALUES (
+    v_purchase.user_id, 'purchase', 'credit_pack', v_purchase.id::text,
+    v_purchase.credits, v_daily_used, v_balance
+  );
+
+  UPDATE credit_purchases
+  SET status = 'completed',
+      completed_at = now(),
+      provider_reference = COALESCE(p_provider_reference, provider_reference)
+  WHERE id = p_purchase_id;
+
+  RETURN jsonb_build_object('ok', true, 'credits', v_purchase.credits, 'purchased_credits', v_balance);
+END;
+$function$;
+
+-- Only the payment flow (service role) may credit purchases
+REVOKE EXECUTE ON FUNCTION public.complete_credit_purchase(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Reserves and refunds are made by the edge functions (_shared/credits.ts)
+-- through the service role; a user must not refund their own reserves
+REVOKE EXECUTE ON FUNCTION public.check_and_reserve_credits(uuid, integer, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_credits(uuid, integer, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_credit_status(p_user_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_today date := CURRENT_DATE;
+  v_profile profiles%ROWTYPE;
+  v_current_credits integer;
+BEGIN
+  -- Admins have unlimited credits
+  IF EXISTS(SELECT 1 FROM admin_users WHERE user_id = p_user_id) THEN
+    RETURN jsonb_build_object(
+      'credits_used', 0,
+      'credits_remaining', 999999,
+      'limit', 999999,
+      'purchased_credits', 0,
+      'is_admin', true
+    );
+  END IF;
+
+  SELECT * INTO v_profile FROM profiles WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'credits_used', 0,
+      'credits_remaining', 100,
+      'limit', 100,
+      'purchased_credits', 0
+    );
+  END IF;
+
+  -- Reset logic for display
+  IF v_profile.last_reset_date IS NULL OR v_profile.last_reset_date < v_today THEN
+    v_current_credits := 0;
+  ELSE
+    v_current_credits := COALESCE(v_profile.daily_credits_used, 0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'credits_used', v_current_credits,
+    'credits_remaining', GREATEST(0, 100 - v_current_credits),
+    'limit', 100,
+    'purchased_credits', v_profile.purchased_credits
+  );
+END;
+$function$;
+
+-- ============================================================================
+-- 5. Daily reset through the ledger
+-- ============================================================================
+SELECT cron.schedule(
+  'reset-user-api-quotas-daily',
+  '0 0 * * *', -- Every day at midnight UTC
+  $$
+  BEGIN;
+    SELECT public.reset_user_api_key_quotas();
+    SELECT public.reset_api_key_quotas();
+    SELECT public.reset_daily_credits();
+  COMMIT;
+  $$
+);
@@ -0,0 +1,422 @@
+-- Plan tiers: daily credit limit, per-operation costs, allowed modules and
+-- model tiers live in the database instead of constants in the edge functions.
+-- A user's plan is the tier of their active subscription, else the default tier.
+-- Admins edit tiers (and add new ones) from Admin Settings.
+
+-- ============================================================================
+-- 1. Plan tiers
+-- ============================================================================
+CREATE TABLE public.plan_tiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  slug TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL,
+  description TEXT,
+  price NUMERIC(10,2) NOT NULL DEFAULT 0 CHECK (price >= 0),
+  currency TEXT NOT NULL DEFAULT 'BDT',
+  -- Length of a subscription; NULL for the free tier
+  duration_days INTEGER CHECK (duration_days > 0),
+  -- Shown after the price on the pricing page, e.g. '/month'
+  period_label TEXT,
+  daily_credit_limit INTEGER NOT NULL DEFAULT 100 CHECK (daily_credit_limit >= 0),
+  -- Credits per operation, e.g. {"generate_listening": 20}; operations not listed cost nothing
+  operation_costs JSONB NOT NULL DEFAULT '{}'::jsonb,
+  allowed_modules TEXT[] NOT NULL DEFAULT ARRAY['reading', 'listening', 'writing', 'speaking'],
+  -- 'flash' and/or 'pro' models
+  model_tiers TEXT[] NOT NULL DEFAULT ARRAY['flash', 'pro'],
+  -- Pricing page bullet points: [{ "text": "...", "included": true }]
+  features JSONB NOT NULL DEFAULT '[]'::jsonb,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  is_featured BOOLEAN NOT NULL DEFAULT false,
+  -- Inactive tiers are off the pricing page; existing subscribers keep them
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (allowed_modules <@ ARRAY['reading', 'listening', 'writing', 'speaking']),
+  CHECK (model_tiers <@ ARRAY['flash', 'pro'])
+);
+
+-- Exactly one tier applies to users without a subscription
+CREATE UNIQUE INDEX idx_plan_tiers_single_default ON public.plan_tiers (is_default) WHERE is_default;
+
+ALTER TABLE public.plan_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active plan tiers"
+ON public.plan_tiers FOR SELECT
+USING (is_active = true);
+
+CREATE POLICY "Admins can manage plan tiers"
+ON public.plan_tiers FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_plan_tiers_updated_at
+BEFORE UPDATE ON public.plan_tiers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The current plans, with the costs previously hard-coded in generate-ai-practice
+INSERT INTO public.plan_tiers
+  (slug, name, price, duration_days, period_label, daily_credit_limit, operation_costs, features, is_default, is_featured, sort_order)
+VALUES
+  ('free', 'Free Plan', 0, NULL, NULL, 100,
+   '{"generate_speaking": 5, "generate_writing": 5, "generate_listening": 20, "generate_reading": 20, "evaluate_speaking": 15, "evaluate_writing": 10, "explain_answer": 2}',
+   '[{"text": "AI Writing & Speaking Evaluation", "included": true},
+     {"text": "AI Analytics with Weak Areas", "included": true},
+     {"text": "Flashcard Creation", "included": true},
+     {"text": "Auto Import Words to Flashcards", "included": true},
+     {"text": "Full Module Practice Tests", "included": false},
+     {"text": "Full Mock Tests", "included": false}]',
+   true, false, 0),
+  ('weekly', 'Weekly', 50, 7, '/week', 500,
+   '{"generate_speaking": 5, "generate_writing": 5, "generate_listening": 20, "generate_reading": 20, "evaluate_speaking": 15, "evaluate_writing": 10, "explain_answer": 2}',
+   '[{"text": "Everything in Free Plan", "included": true},
+     {"text": "Full Module Practice Tests", "included": true},
+     {"text": "Full Mock Tests (All 4 Modules)", "included": true},
+     {"text": "Unlimited AI Evaluations", "included": true},
+     {"text": "Priority Support", "included": true},
+     {"text": "Best for: Quick Exam Prep", "included": true}]',
+   false, false, 1),
+  ('monthly', 'Monthly', 150, 30, '/month', 500,
+   '{"generate_speaking": 5, "generate_writing": 5, "generate_listening": 20, "generate_reading": 20, "evaluate_speaking": 15, "evaluate_writing": 10, "explain_answer": 2}',
+   '[{"text": "Everything in Free Plan", "included": true},
+     {"text": "Full Module Practice Tests", "included": true},
+     {"text": "Full Mock Tests (All 4 Modules)", "included": true},
+     {"text": "Unlimited AI Evaluations", "included": true},
+     {"text": "Priority Support", "included": true},
+     {"text": "Best Value for Regular Practice", "included": true}]',
+   false, true, 2),
+  ('six_months', 'Six Months', 600, 180, '/6 months', 500,
+   '{"generate_speaking": 5, "generate_writing": 5, "generate_listening": 20, "generate_reading": 20, "evaluate_speaking": 15, "evaluate_writing": 10, "explain_answer": 2}',
+   '[{"text": "Everything in Monthly Plan", "included": true},
+     {"text": "Save ৳300 (33% off)", "included": true},
+     {"text": "Full Access for 6 Months", "included": true},
+     {"text": "Extended Support", "included": true},
+     {"text": "Best for: Serious Preparation", "included": true},
+     {"text": "Ideal for Target Score Goals", "included": true}]',
+   false, false, 3);
+
+-- ============================================================================
+-- 2. Subscriptions point at a tier
+-- ============================================================================
+ALTER TABLE public.subscriptions
+ADD COLUMN IF NOT EXISTS plan_tier_id UUID REFERENCES public.plan_tiers(id) ON DELETE SET NULL;
+
+UPDATE public.subscriptions s
+SET plan_tier_id = t.id
+FROM public.plan_tiers t
+WHERE s.plan_tier_id IS NULL
+  AND lower(s.plan_name) IN (t.slug, lower(t.name));
+
+-- ============================================================================
+-- 3. Plan lookup
+-- ============================================================================
+
+-- Tier of the user's active subscription (the most generous if several), else the default tier
+CREATE OR REPLACE FUNCTION public.user_plan_tier_id(p_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT t.id
+      FROM public.subscriptions s
+      JOIN public.plan_tiers t ON t.id = s.plan_tier_id
+      WHERE s.user_id = p_user_id
+        AND s.status = 'active'
+        AND s.end_date > now()
+      ORDER BY t.daily_credit_limit DESC, s.end_date DESC
+      LIMIT 1
+    ),
+    (SELECT id FROM public.plan_tiers WHERE is_default LIMIT 1)
+  );
+$$;
+
+-- Only the credit functions (and the service role) look up another user's plan
+REVOKE EXECUTE ON FUNCTION public.user_plan_tier_id(uuid) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in user's plan, for the client
+CREATE OR REPLACE FUNCTION public.get_user_plan()
+RETURNS jsonb
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT to_jsonb(t)
+  FROM public.plan_tiers t
+  WHERE auth.uid() IS NOT NULL
+    AND t.id = public.user_plan_tier_id(auth.uid());
+$$;
+
+-- ============================================================================
+-- 4. Credit functions read the plan
+-- ============================================================================
+
+-- The cost now comes from the plan's operation_costs; p_cost is only used for
+-- operations the plan does not list. Operations of a module outside the plan's
+-- allowed_modules are refused.
+CREATE OR REPLACE FUNCTION public.check_and_reserve_credits(
+  p_user_id uuid,
+  p_cost integer DEFAULT NULL,
+  p_operation_type text DEFAULT NULL,
+  p_reference_id text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_today date := CURRENT_DATE;
+  v_plan plan_tiers%ROWTYPE;
+  v_limit integer;
+  v_cost integer;
+  v_module text;
+  v_profile profiles%ROWTYPE;
+  v_current_credits integer;
+  v_from_daily integer;
+  v_from_purchased integer;
+  v_ledger_id uuid;
+BEGIN
+  -- Admins have unlimited credits and are not charged
+  IF EXISTS(SELECT 1 FROM admin_users WHERE user_id = p_user_id) THEN
+    RETURN jsonb_build_object(
+      'ok', true,
+      'credits_used', 0,
+      'credits_remaining', 999999,
+      'purchased_credits', 0,
+      'is_admin', true
+    );
+  END IF;
+
+  SELECT * INTO v_plan FROM plan_tiers WHERE id = user_plan_tier_id(p_user_id);
+  v_limit := COALESCE(v_plan.daily_credit_limit, 100);
+
+  v_module := substring(p_operation_type FROM '^(?:generate|evaluate)_(reading|listening|writing|speaking)$');
+  IF v_module IS NOT NULL AND v_plan.id IS NOT NULL AND NOT (v_module = ANY(v_plan.allowed_modules)) THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', format('%s is not included in the %s plan.', initcap(v_module), v_plan.name),
+      'error_type', 'MODULE_NOT_IN_PLAN',
+      'plan', v_plan.slug,
+      'limit', v_limit
+    );
+  END IF;
+
+  v_cost := COALESCE((v_plan.operation_costs ->> p_operation_type)::integer, p_cost, 0);
+
+  -- Lock the row for update to prevent race conditions
+  SELECT * INTO v_profile
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', 'Profile not found',
+      'credits_used', 0,
+      'credits_remaining', 0
+    );
+  END IF;
+
+  -- Reset credits if new day
+  IF v_profile.last_reset_date IS NULL OR v_profile.last_reset_date < v_today THEN
+    IF COALESCE(v_profile.daily_credits_used, 0) > 0 THEN
+      INSERT INTO credit_ledger (user_id, entry_type, daily_credits, daily_used_after, purchased_balance_after)
+      VALUES (p_user_id, 'reset', v_profile.daily_credits_used, 0, v_profile.purchased_credits);
+    END IF;
+    v_current_credits := 0;
+  ELSE
+    v_current_credits := COALESCE(v_profile.daily_credits_used, 0);
+  END IF;
+
+  -- Free operations: nothing to reserve or record
+  IF v_cost = 0 THEN
+    RETURN jsonb_build_object(
+      'ok', true,
+      'cost', 0,
+      'credits_used', v_current_credits,
+      'credits_remaining', GREATEST(0, v_limit - v_current_credits),
+      'purchased_credits', v_profile.purchased_credits,
+      'limit', v_limit,
+      'plan', v_plan.slug,
+      'model_tiers', to_jsonb(v_plan.model_tiers)
+    );
+  END IF;
+
+  v_from_daily := LEAST(v_cost, GREATEST(0, v_limit - v_current_credits));
+  v_from_purchased := v_cost - v_from_daily;
+
+  IF v_from_purchased > v_profile.purchased_credits THEN
+    -- Keep the reset even though nothing is reserved
+    UPDATE profiles
+    SET daily_credits_used = v_current_credits, last_reset_date = v_today
+    WHERE id = p_user_id;
+
+    RETURN jsonb_build_object(
+      'ok', false,
+      'error', format('Daily credit limit reached (%s/%s). Add your own Gemini API key in Settings.', v_current_credits, v_limit),
+      'error_type', 'CREDIT_LIMIT_EXCEEDED',
+      'credits_used', v_current_credits,
+      'credits_remaining', GREATEST(0, v_limit - v_current_credits),
+      'purchased_credits', v_profile.purchased_credits,
+      'limit', v_limit,
+      'plan', v_plan.slug
+    );
+  END IF;
+
+  -- Atomically take the credits (reserve them BEFORE calling AI)
+  UPDATE profiles
+  SET daily_credits_used = v_current_credits + v_from_daily,
+      purchased_credits = purchased_credits - v_from_purchased,
+      last_reset_date = v_today
+  WHERE id = p_user_id;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    daily_credits, purchased_credits, daily_used_after, purchased_balance_after
+  )
+  VALUES (
+    p_user_id, 'reserve', p_operation_type, p_reference_id,
+    -v_from_daily, -v_from_purchased, v_current_credits + v_from_daily, v_profile.purchased_credits - v_from_purchased
+  )
+  RETURNING id INTO v_ledger_id;
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'cost', v_cost,
+    'credits_used', v_current_credits + v_from_daily,
+    'credits_remaining', GREATEST(0, v_limit - v_current_credits - v_from_daily),
+    'purchased_credits', v_profile.purchased_credits - v_from_purchased,
+    'limit', v_limit,
+    'plan', v_plan.slug,
+    'model_tiers', to_jsonb(v_plan.model_tiers),
+    'ledger_id', v_ledger_id
+  );
+END;
+$function$;
+
+-- Callers pass the reservation id; p_cost is only needed without one
+CREATE OR REPLACE FUNCTION public.refund_credits(
+  p_user_id uuid,
+  p_cost integer DEFAULT NULL,
+  p_reservation_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_profile profiles%ROWTYPE;
+  v_reserve credit_ledger%ROWTYPE;
+  v_daily integer;
+  v_purchased integer := 0;
+BEGIN
+  SELECT * INTO v_profile
+  FROM profiles
+  WHERE id = p_user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  IF p_reservation_id IS NOT NULL THEN
+    SELECT * INTO v_reserve
+    FROM credit_ledger
+    WHERE id = p_reservation_id AND user_id = p_user_id AND entry_type = 'reserve';
+
+    IF NOT FOUND OR EXISTS(SELECT 1 FROM credit_ledger WHERE refund_of = p_reservation_id) THEN
+      RETURN;
+    END IF;
+
+    v_daily := CASE
+      WHEN v_reserve.created_at::date = v_profile.last_reset_date THEN LEAST(-v_reserve.daily_credits, v_profile.daily_credits_used)
+      ELSE 0
+    END;
+    v_purchased := -v_reserve.purchased_credits;
+  ELSIF COALESCE(p_cost, 0) > 0 THEN
+    v_daily := LEAST(p_cost, v_profile.daily_credits_used);
+  ELSE
+    RETURN;
+  END IF;
+
+  UPDATE profiles
+  SET daily_credits_used = daily_credits_used - v_daily,
+      purchased_credits = purchased_credits + v_purchased
+  WHERE id = p_user_id;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    daily_credits, purchased_credits, daily_used_after, purchased_balance_after, refund_of
+  )
+  VALUES (
+    p_user_id, 'refund', v_reserve.operation_type, v_reserve.reference_id,
+    v_daily, v_purchased, v_profile.daily_credits_used - v_daily, v_profile.purchased_credits + v_purchased, p_reservation_id
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_credit_status(p_user_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_today date := CURRENT_DATE;
+  v_plan plan_tiers%ROWTYPE;
+  v_limit integer;
+  v_profile profiles%ROWTYPE;
+  v_current_credits integer;
+BEGIN
+  -- Admins have unlimited credits
+  IF EXISTS(SELECT 1 FROM admin_users WHERE user_id = p_user_id) THEN
+    RETURN jsonb_build_object(
+      'credits_used', 0,
+      'credits_remaining', 999999,
+      'limit', 999999,
+      'purchased_credits', 0,
+      'is_admin', true
+    );
+  END IF;
+
+  SELECT * INTO v_plan FROM plan_tiers WHERE id = user_plan_tier_id(p_user_id);
+  v_limit := COALESCE(v_plan.daily_credit_limit, 100);
+
+  SELECT * INTO v_profile FROM profiles WHERE id = p_user_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'credits_used', 0,
+      'credits_remaining', v_limit,
+      'limit', v_limit,
+      'purchased_credits', 0,
+      'plan', v_plan.slug,
+      'plan_name', v_plan.name
+    );
+  END IF;
+
+  -- Reset logic for display
+  IF v_profile.last_reset_date IS NULL OR v_profile.last_reset_date < v_today THEN
+    v_current_credits := 0;
+  ELSE
+    v_current_credits := COALESCE(v_profile.daily_credits_used, 0);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'credits_used', v_current_credits,
+    'credits_remaining', GREATEST(0, v_limit - v_current_credits),
+    'limit', v_limit,
+    'purchased_credits', v_profile.purchased_credits,
+    'plan', v_plan.slug,
+    'plan_name', v_plan.name
+  );
+END;
+$function$;
@@ -0,0 +1,284 @@
+-- Billing: subscriptions and credit packs are bought through a payment provider.
+-- create-checkout creates the pending subscription or purchase and a hosted
+-- checkout session; the provider's signed webhooks (billing-webhook) activate,
+-- renew, cancel and refund them. A failed renewal keeps access for a grace
+-- period while the provider retries. Every webhook is recorded once in
+-- billing_events, so retried deliveries are not applied twice.
+
+-- ============================================================================
+-- 1. Subscriptions come from checkout only
+-- ============================================================================
+
+-- Users could otherwise give themselves an active subscription
+DROP POLICY IF EXISTS "Users can insert their own subscriptions" ON public.subscriptions;
+
+ALTER TABLE public.subscriptions
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS provider_checkout_id TEXT,
+-- The provider's recurring subscription, once the first payment went through
+ADD COLUMN IF NOT EXISTS provider_subscription_id TEXT,
+-- Set when a renewal payment fails; access continues until then
+ADD COLUMN IF NOT EXISTS grace_until TIMESTAMP WITH TIME ZONE,
+-- Renewals stopped; access continues until end_date
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_subscriptions_provider_subscription
+ON public.subscriptions (provider, provider_subscription_id)
+WHERE provider_subscription_id IS NOT NULL;
+
+ALTER TABLE public.credit_purchases
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS provider_checkout_id TEXT;
+
+ALTER TABLE public.credit_purchases DROP CONSTRAINT IF EXISTS credit_purchases_status_check;
+ALTER TABLE public.credit_purchases
+ADD CONSTRAINT credit_purchases_status_check CHECK (status IN ('pending', 'completed', 'failed', 'refunded'));
+
+-- ============================================================================
+-- 2. Webhook events
+-- ============================================================================
+CREATE TABLE public.billing_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL,
+  -- The provider's event id
+  event_id TEXT NOT NULL,
+  event_type TEXT NOT NULL,
+  -- 'subscription:<id>' or 'credit_pack:<id>'
+  reference TEXT,
+  payload JSONB NOT NULL,
+  -- 'received' until applied; 'failed' events are applied again when the provider retries
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (provider, event_id)
+);
+
+CREATE INDEX idx_billing_events_reference ON public.billing_events (reference, created_at DESC);
+
+ALTER TABLE public.billing_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view billing events"
+ON public.billing_events FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- ============================================================================
+-- 3. Access includes the grace period and the rest of a cancelled period
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.has_active_subscription(p_user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = p_user_id
+    AND (
+      (status = 'active' AND GREATEST(end_date, COALESCE(grace_until, end_date)) > now())
+      OR (status = 'cancelled' AND end_date > now())
+    )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_plan_tier_id(p_user_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT t.id
+      FROM public.subscriptions s
+      JOIN public.plan_tiers t ON t.id = s.plan_tier_id
+      WHERE s.user_id = p_user_id
+        AND (
+          (s.status = 'active' AND GREATEST(s.end_date, COALESCE(s.grace_until, s.end_date)) > now())
+          OR (s.status = 'cancelled' AND s.end_date > now())
+        )
+      ORDER BY t.daily_credit_limit DESC, s.end_date DESC
+      LIMIT 1
+    ),
+    (SELECT id FROM public.plan_tiers WHERE is_default LIMIT 1)
+  );
+$$;
+
+-- Subscriptions whose access has run out, and checkouts abandoned for a day
+CREATE OR REPLACE FUNCTION public.expire_subscriptions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE subscriptions
+  SET status = 'expired'
+  WHERE (status = 'active' AND GREATEST(end_date, COALESCE(grace_until, end_date)) <= now())
+     OR (status = 'cancelled' AND end_date <= now())
+     OR (status = 'pending' AND created_at < now() - interval '1 day');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_subscriptions() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 4. Credit pack payments
+-- ============================================================================
+
+-- A failed payment can be followed by a successful retry of the same checkout,
+-- so failed purchases can still be completed
+CREATE OR REPLACE FUNCTION public.complete_credit_purchase(
+  p_purchase_id uuid,
+  p_provider_reference text DEFAULT NULL
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_purchase credit_purchases%ROWTYPE;
+  v_balance integer;
+  v_daily_used integer;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM credit_purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Purchase not found');
+  END IF;
+
+  IF v_purchase.status = 'completed' THEN
+    RETURN jsonb_build_object('ok', true, 'already_completed', true);
+  END IF;
+
+  IF v_purchase.status NOT IN ('pending', 'failed') THEN
+    RETURN jsonb_build_object('ok', false, 'error', format('Purchase is %s', v_purchase.status));
+  END IF;
+
+  UPDATE profiles
+  SET purchased_credits = purchased_credits + v_purchase.credits
+  WHERE id = v_purchase.user_id
+  RETURNING purchased_credits, daily_credits_used INTO v_balance, v_daily_used;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Profile not found');
+  END IF;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    purchased_credits, daily_used_after, purchased_balance_after
+  )
+  VALUES (
+    v_purchase.user_id, 'purchase', 'credit_pack', v_purchase.id::text,
+    v_purchase.credits, v_daily_used, v_balance
+  );
+
+  UPDATE credit_purchases
+  SET status = 'completed',
+      completed_at = now(),
+      provider_reference = COALESCE(p_provider_reference, provider_reference)
+  WHERE id = p_purchase_id;
+
+  RETURN jsonb_build_object('ok', true, 'credits', v_purchase.credits, 'purchased_credits', v_balance);
+END;
+$function$;
+
+-- Takes back the pack's credits, or as many as are left unspent, with a ledger
+-- 'refund' row pointing at the purchase. Refunding twice changes nothing.
+CREATE OR REPLACE FUNCTION public.refund_credit_purchase(p_purchase_id uuid)
+ RETURNS jsonb
+ LANGUAGE plpgsql
+ SECURITY DEFINER
+ SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_purchase credit_purchases%ROWTYPE;
+  v_profile profiles%ROWTYPE;
+  v_purchase_entry uuid;
+  v_taken integer;
+BEGIN
+  SELECT * INTO v_purchase
+  FROM credit_purchases
+  WHERE id = p_purchase_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Purchase not found');
+  END IF;
+
+  IF v_purchase.status = 'refunded' THEN
+    RETURN jsonb_build_object('ok', true, 'already_refunded', true);
+  END IF;
+
+  IF v_purchase.status <> 'completed' THEN
+    UPDATE credit_purchases SET status = 'refunded' WHERE id = p_purchase_id;
+    RETURN jsonb_build_object('ok', true, 'credits', 0);
+  END IF;
+
+  SELECT * INTO v_profile
+  FROM profiles
+  WHERE id = v_purchase.user_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error', 'Profile not found');
+  END IF;
+
+  SELECT id INTO v_purchase_entry
+  FROM credit_ledger
+  WHERE user_id = v_purchase.user_id
+    AND entry_type = 'purchase'
+    AND reference_id = v_purchase.id::text
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  v_taken := LEAST(v_purchase.credits, v_profile.purchased_credits);
+
+  UPDATE profiles
+  SET purchased_credits = purchased_credits - v_taken
+  WHERE id = v_purchase.user_id;
+
+  INSERT INTO credit_ledger (
+    user_id, entry_type, operation_type, reference_id,
+    purchased_credits, daily_used_after, purchased_balance_after, refund_of
+  )
+  VALUES (
+    v_purchase.user_id, 'refund', 'credit_pack', v_purchase.id::text,
+    -v_taken, COALESCE(v_profile.daily_credits_used, 0), v_profile.purchased_credits - v_taken, v_purchase_entry
+  );
+
+  UPDATE credit_purchases SET status = 'refunded' WHERE id = p_purchase_id;
+
+  RETURN jsonb_build_object('ok', true, 'credits', v_taken, 'purchased_credits', v_profile.purchased_credits - v_taken);
+END;
+$function$;
+
+-- Only the payment flow (service role) may refund purchases
+REVOKE EXECUTE ON FUNCTION public.refund_credit_purchase(uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 5. Expire subscriptions with the daily reset
+-- ============================================================================
+SELECT cron.schedule(
+  'reset-user-api-quotas-daily',
+  '0 0 * * *', -- Every day at midnight UTC
+  $$
+  BEGIN;
+    SELECT public.reset_user_api_key_quotas();
+    SELECT public.reset_api_key_quotas();
+    SELECT public.reset_daily_credits();
+    SELECT public.expire_subscriptions();
+  COMMIT;
+  $$
+);
@@ -0,0 +1,392 @@
+-- Promotion codes: each code grants a discount on a plan's first payment, purchased
+-- credits, or free access to a plan for a number of days, with its own
+-- validity window, total and per-user redemption limits, and the plans or
+-- modules it may be used with. Every use is recorded in promotion_redemptions
+-- against the user, so admins can see how many redeemers went on to pay.
+-- The old site-wide promotion window no longer lets everyone submit; free
+-- access now comes from a plan access code, which creates a subscription.
+
+-- ============================================================================
+-- 1. Codes
+-- ============================================================================
+CREATE TABLE public.promotion_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  code TEXT NOT NULL UNIQUE CHECK (code ~ '^[A-Z0-9_-]{3,32}$'),
+  description TEXT,
+  -- 'percent_off': discount on a plan's first payment, entered at checkout
+  -- 'credits': purchased credits, redeemed in Settings
+  -- 'plan_access': a free subscription to plan_tier_id, redeemed in Settings
+  grant_type TEXT NOT NULL CHECK (grant_type IN ('percent_off', 'credits', 'plan_access')),
+  percent_off INTEGER CHECK (percent_off BETWEEN 1 AND 99),
+  credits INTEGER CHECK (credits > 0),
+  plan_tier_id UUID REFERENCES public.plan_tiers(id),
+  duration_days INTEGER CHECK (duration_days > 0),
+  -- Across all users; NULL for no limit
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  per_user_limit INTEGER NOT NULL DEFAULT 1 CHECK (per_user_limit > 0),
+  starts_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  -- Plans the code works with: the plan bought for 'percent_off', the user's
+  -- current plan otherwise. Empty = any plan. A plan qualifies through
+  -- eligible_modules if it includes any of them.
+  eligible_plan_ids UUID[] NOT NULL DEFAULT '{}',
+  eligible_modules TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (grant_type <> 'percent_off' OR percent_off IS NOT NULL),
+  CHECK (grant_type <> 'credits' OR credits IS NOT NULL),
+  CHECK (grant_type <> 'plan_access' OR (plan_tier_id IS NOT NULL AND duration_days IS NOT NULL)),
+  CHECK (expires_at IS NULL OR expires_at > starts_at),
+  CHECK (eligible_modules <@ ARRAY['reading', 'listening', 'writing', 'speaking'])
+);
+
+ALTER TABLE public.promotion_codes ENABLE ROW LEVEL SECURITY;
+
+-- Users never read codes directly, so codes cannot be listed
+CREATE POLICY "Admins can manage promotion codes"
+ON public.promotion_codes FOR ALL
+USING (public.is_admin(auth.uid()))
+WITH CHECK (public.is_admin(auth.uid()));
+
+CREATE TRIGGER update_promotion_codes_updated_at
+BEFORE UPDATE ON public.promotion_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- ============================================================================
+-- 2. Redemptions
+-- ============================================================================
+CREATE TABLE public.promotion_redemptions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Codes that have been used cannot be deleted, only deactivated
+  promotion_code_id UUID NOT NULL REFERENCES public.promotion_codes(id),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- A discount is 'pending' until the checkout is paid and 'cancelled' if it
+  -- never is; credit and access grants complete straight away
+  status TEXT NOT NULL DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'cancelled')),
+  -- The discounted checkout, or the subscription a 'plan_access' code created
+  subscription_id UUID REFERENCES public.subscriptions(id) ON DELETE SET NULL,
+  discount_amount NUMERIC(10,2),
+  credits_granted INTEGER,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_promotion_redemptions_code ON public.promotion_redemptions (promotion_code_id, status);
+CREATE INDEX idx_promotion_redemptions_user ON public.promotion_redemptions (user_id, created_at DESC);
+CREATE INDEX idx_promotion_redemptions_subscription ON public.promotion_redemptions (subscription_id)
+WHERE subscription_id IS NOT NULL;
+
+ALTER TABLE public.promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own promotion redemptions"
+ON public.promotion_redemptions FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all promotion redemptions"
+ON public.promotion_redemptions FOR SELECT
+USING (public.is_admin(auth.uid()));
+
+-- Promotion credits are recorded in the credit ledger like purchases
+ALTER TABLE public.credit_ledger DROP CONSTRAINT IF EXISTS credit_ledger_entry_type_check;
+ALTER TABLE public.credit_ledger
+ADD CONSTRAINT credit_ledger_entry_type_check CHECK (entry_type IN ('reserve', 'refund', 'reset', 'purchase', 'promotion'));
+
+-- ============================================================================
+-- 3. Checking and redeeming codes
+-- ============================================================================
+
+-- Why the user cannot use the code with the plan, as an error_type, or NULL if
+-- they can. Callers lock the code row first so concurrent uses count each other.
+CREATE OR REPLACE FUNCTION public.promotion_code_error(
+  p_code public.promotion_codes,
+  p_user_id uuid,
+  p_plan_tier_id uuid
+)
+RETURNS text
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_plan_modules text[];
+BEGIN
+  IF NOT p_code.is_active THEN
+    RETURN 'CODE_INACTIVE';
+  END IF;
+
+  IF p_code.starts_at > now() THEN
+    RETURN 'CODE_NOT_STARTED';
+  END IF;
+
+  IF p_code.expires_at IS NOT NULL AND p_code.expires_at <= now() THEN
+    RETURN 'CODE_EXPIRED';
+  END IF;
+
+  IF p_code.max_redemptions IS NOT NULL AND (
+    SELECT COUNT(*) FROM promotion_redemptions
+    WHERE promotion_code_id = p_code.id AND status <> 'cancelled'
+  ) >= p_code.max_redemptions THEN
+    RETURN 'CODE_EXHAUSTED';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM promotion_redemptions
+    WHERE promotion_code_id = p_code.id AND user_id = p_user_id AND status <> 'cancelled'
+  ) >= p_code.per_user_limit THEN
+    RETURN 'USER_LIMIT_REACHED';
+  END IF;
+
+  IF cardinality(p_code.eligible_plan_ids) > 0 AND NOT (p_plan_tier_id = ANY(p_code.eligible_plan_ids)) THEN
+    RETURN 'PLAN_NOT_ELIGIBLE';
+  END IF;
+
+  IF cardinality(p_code.eligible_modules) > 0 THEN
+    SELECT allowed_modules INTO v_plan_modules FROM plan_tiers WHERE id = p_plan_tier_id;
+    IF NOT (COALESCE(v_plan_modules, '{}') && p_code.eligible_modules) THEN
+      RETURN 'PLAN_NOT_ELIGIBLE';
+    END IF;
+  END IF;
+
+  RETURN NULL;
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.promotion_code_error(public.promotion_codes, uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Redeems a credit or plan access code for the signed-in user
+CREATE OR REPLACE FUNCTION public.redeem_promotion_code(p_code text)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_code promotion_codes%ROWTYPE;
+  v_error text;
+  v_redemption_id uuid := gen_random_uuid();
+  v_plan plan_tiers%ROWTYPE;
+  v_subscription_id uuid;
+  v_end_date timestamptz;
+  v_balance integer;
+  v_daily_used integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', 'NOT_SIGNED_IN');
+  END IF;
+
+  SELECT * INTO v_code
+  FROM promotion_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', 'CODE_NOT_FOUND');
+  END IF;
+
+  IF v_code.grant_type = 'percent_off' THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', 'USE_AT_CHECKOUT');
+  END IF;
+
+  v_error := public.promotion_code_error(v_code, v_user_id, public.user_plan_tier_id(v_user_id));
+  IF v_error IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', v_error);
+  END IF;
+
+  IF v_code.grant_type = 'credits' THEN
+    UPDATE profiles
+    SET purchased_credits = purchased_credits + v_code.credits
+    WHERE id = v_user_id
+    RETURNING purchased_credits, daily_credits_used INTO v_balance, v_daily_used;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('ok', false, 'error_type', 'PROFILE_NOT_FOUND');
+    END IF;
+
+    INSERT INTO credit_ledger (
+      user_id, entry_type, operation_type, reference_id,
+      purchased_credits, daily_used_after, purchased_balance_after
+    )
+    VALUES (
+      v_user_id, 'promotion', 'promotion_code', v_redemption_id::text,
+      v_code.credits, COALESCE(v_daily_used, 0), v_balance
+    );
+  ELSE
+    SELECT * INTO v_plan FROM plan_tiers WHERE id = v_code.plan_tier_id;
+    v_end_date := now() + make_interval(days => v_code.duration_days);
+
+    INSERT INTO subscriptions (user_id, plan_name, plan_tier_id, price, status, start_date, end_date, provider)
+    VALUES (v_user_id, v_plan.name, v_plan.id, 0, 'active', now(), v_end_date, 'promotion')
+    RETURNING id INTO v_subscription_id;
+  END IF;
+
+  INSERT INTO promotion_redemptions (
+    id, promotion_code_id, user_id, status, subscription_id, credits_granted, completed_at
+  )
+  VALUES (
+    v_redemption_id, v_code.id, v_user_id, 'completed', v_subscription_id,
+    CASE WHEN v_code.grant_type = 'credits' THEN v_code.credits END, now()
+  );
+
+  RETURN jsonb_build_object(
+    'ok', true,
+    'grant_type', v_code.grant_type,
+    'credits', v_code.credits,
+    'plan_name', v_plan.name,
+    'end_date', v_end_date
+  );
+END;
+$function$;
+
+-- Reserves a use of a discount code for a checkout (create-checkout). The
+-- redemption stays pending until the checkout is paid.
+CREATE OR REPLACE FUNCTION public.claim_promotion_code(
+  p_user_id uuid,
+  p_code text,
+  p_plan_tier_id uuid
+)
+RETURNS jsonb
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_code promotion_codes%ROWTYPE;
+  v_error text;
+  v_redemption_id uuid;
+BEGIN
+  SELECT * INTO v_code
+  FROM promotion_codes
+  WHERE code = upper(trim(p_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', 'CODE_NOT_FOUND');
+  END IF;
+
+  IF v_code.grant_type <> 'percent_off' THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', 'REDEEM_IN_SETTINGS');
+  END IF;
+
+  v_error := public.promotion_code_error(v_code, p_user_id, p_plan_tier_id);
+  IF v_error IS NOT NULL THEN
+    RETURN jsonb_build_object('ok', false, 'error_type', v_error);
+  END IF;
+
+  INSERT INTO promotion_redemptions (promotion_code_id, user_id, status)
+  VALUES (v_code.id, p_user_id, 'pending')
+  RETURNING id INTO v_redemption_id;
+
+  RETURN jsonb_build_object('ok', true, 'redemption_id', v_redemption_id, 'percent_off', v_code.percent_off);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_promotion_code(uuid, text, uuid) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- 4. Unpaid discounts give their use back
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.expire_subscriptions()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path TO 'public'
+AS $function$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE subscriptions
+  SET status = 'expired'
+  WHERE (status = 'active' AND GREATEST(end_date, COALESCE(grace_until, end_date)) <= now())
+     OR (status = 'cancelled' AND end_date <= now())
+     OR (status = 'pending' AND created_at < now() - interval '1 day');
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE promotion_redemptions r
+  SET status = 'cancelled'
+  WHERE r.status = 'pending'
+    AND (
+      (r.subscription_id IS NULL AND r.created_at < now() - interval '1 day')
+      OR EXISTS (SELECT 1 FROM subscriptions s WHERE s.id = r.subscription_id AND s.status = 'expired')
+    );
+
+  RETURN v_count;
+END;
+$function$;
+
+-- ============================================================================
+-- 5. Per-code stats (admins)
+-- ============================================================================
+
+-- A redeemer converted if they bought a paid plan after redeeming. Checkouts
+-- that were never paid are left out: still pending, or expired straight from
+-- pending (their end_date never moved past start_date).
+CREATE OR REPLACE FUNCTION public.get_promotion_code_stats()
+RETURNS TABLE (
+  promotion_code_id uuid,
+  redemptions bigint,
+  pending_redemptions bigint,
+  unique_users bigint,
+  converted_users bigint,
+  revenue numeric,
+  discount_given numeric,
+  credits_granted bigint,
+  last_redeemed_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH redeemers AS (
+    SELECT r.promotion_code_id, r.user_id, MIN(r.created_at) AS first_redeemed_at
+    FROM public.promotion_redemptions r
+    WHERE r.status = 'completed'
+    GROUP BY r.promotion_code_id, r.user_id
+  ),
+  paid AS (
+    SELECT DISTINCT rd.promotion_code_id, rd.user_id, s.id AS subscription_id, s.price
+    FROM redeemers rd
+    JOIN public.subscriptions s ON s.user_id = rd.user_id
+    WHERE s.price > 0
+      AND s.created_at >= rd.first_redeemed_at
+      AND s.status <> 'pending'
+      AND NOT (s.status = 'expired' AND s.end_date <= s.start_date)
+  ),
+  conversions AS (
+    SELECT paid.promotion_code_id, COUNT(DISTINCT paid.user_id) AS converted_users, SUM(paid.price) AS revenue
+    FROM paid
+    GROUP BY paid.promotion_code_id
+  )
+  SELECT
+    c.id AS promotion_code_id,
+    COUNT(r.id) FILTER (WHERE r.status = 'completed') AS redemptions,
+    COUNT(r.id) FILTER (WHERE r.status = 'pending') AS pending_redemptions,
+    COUNT(DISTINCT r.user_id) FILTER (WHERE r.status = 'completed') AS unique_users,
+    COALESCE(MAX(cv.converted_users), 0) AS converted_users,
+    COALESCE(MAX(cv.revenue), 0) AS revenue,
+    COALESCE(SUM(r.discount_amount) FILTER (WHERE r.status = 'completed'), 0) AS discount_given,
+    COALESCE(SUM(r.credits_granted) FILTER (WHERE r.status = 'completed'), 0) AS credits_granted,
+    MAX(r.created_at) FILTER (WHERE r.status = 'completed') AS last_redeemed_at
+  FROM public.promotion_codes c
+  LEFT JOIN public.promotion_redemptions r ON r.promotion_code_id = c.id
+  LEFT JOIN conversions cv ON cv.promotion_code_id = c.id
+  WHERE public.is_admin(auth.uid())
+  GROUP BY c.id;
+$$;
+
+-- ============================================================================
+-- 6. Submitting needs a subscription
+-- ============================================================================
+CREATE OR REPLACE FUNCTION public.can_user_submit(p_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE SECURITY DEFINER
+SET search_path TO 'public'
+AS $$
+  SELECT p_user_id IS NOT NULL AND public.has_active_subscription(p_user_id);
+$$;
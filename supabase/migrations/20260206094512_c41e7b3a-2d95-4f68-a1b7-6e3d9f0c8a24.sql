@@ -0,0 +1,13 @@
+-- Live examiner: the examiner asks its own follow-up questions, so the
+-- questions a candidate answered are not all in the test payload. The client
+-- sends them with the evaluation request in the speakingParts shape and
+-- speaking-evaluate-job reads them in place of the payload's questions.
+
+-- ============================================================================
+-- 1. Asked questions
+-- ============================================================================
+ALTER TABLE public.speaking_evaluation_jobs
+  ADD COLUMN IF NOT EXISTS asked_questions JSONB;
+
+COMMENT ON COLUMN public.speaking_evaluation_jobs.asked_questions IS
+  'Questions asked by the live examiner (speakingParts shape); null for recorded tests';